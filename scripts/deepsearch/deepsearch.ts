@@ -6,6 +6,7 @@ import { callPdfApiWithRetry } from './pdf-api.js';
 import { configureOutputDir, ensureOutputDir, writeStepReport, saveArticleMD, generateArticleSummaryMD, getReportPath, getArticlesDir, getOutputDir } from './report.js';
 import { parseSeedFileToArticles } from './md-parser.js';
 import type { SeedArticle, CandidateArticle, DeepSearchResult, PdfApiResult } from './types.js';
+import { formatSearchFilters, hasSearchFilters, type SearchFilters } from '../../src/vector/search-filters.js';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -182,6 +183,7 @@ async function searchRelatedBySeed(
   rounds: number,
   limit: number,
   scoreThreshold: number,
+  filters?: SearchFilters,
   onLog?: (message: string) => void
 ): Promise<RelatedSearchResult> {
   const metrics = createEmptySearchMetrics();
@@ -213,7 +215,7 @@ async function searchRelatedBySeed(
       queriedIds.add(articleId);
       queriedInThisRound = true;
 
-      const related = await relatedSearch(articleId, limit);
+      const related = await relatedSearch(articleId, limit, filters);
       metrics.relatedArticlesCount += related.length;
       roundHits += related.length;
 
@@ -255,6 +257,7 @@ async function searchSemanticBySeed(
   semanticLimit: number,
   scoreThreshold: number,
   config: ReturnType<typeof getConfig>,
+  filters?: SearchFilters,
   onLog?: (message: string) => void
 ): Promise<{ candidates: CandidateArticle[]; metrics: SearchRoundMetrics }> {
   const metrics = createEmptySearchMetrics();
@@ -265,7 +268,7 @@ async function searchSemanticBySeed(
   onLog?.(`  - 语义检索词数量: ${searchTerms.length}`);
 
   for (const term of searchTerms) {
-    const semanticResults = await semanticSearch(term, semanticLimit);
+    const semanticResults = await semanticSearch(term, semanticLimit, filters);
     metrics.semanticSearchHitsCount += semanticResults.length;
 
     const filtered = filterByScore(semanticResults, scoreThreshold);
@@ -290,6 +293,7 @@ async function iterativeSearch(
   rounds: number,
   scoreThreshold: number,
   semanticLimit: number,
+  filters?: SearchFilters,
   onLog?: (message: string) => void
 ): Promise<{ candidates: CandidateArticle[]; stats: IterativeSearchStats }> {
   const config = getConfig();
@@ -307,8 +311,8 @@ async function iterativeSearch(
     const seed = seedArticles[index];
     log(`[种子 ${index + 1}/${seedArticles.length}] ${seed.title}${seed.articleId !== null ? ` (ID: ${seed.articleId})` : ''}`);
 
-    const relatedResult = await searchRelatedBySeed(seed, rounds, semanticLimit, scoreThreshold, onLog);
-    const semanticResult = await searchSemanticBySeed(seed, llm, semanticLimit, scoreThreshold, config, onLog);
+    const relatedResult = await searchRelatedBySeed(seed, rounds, semanticLimit, scoreThreshold, filters, onLog);
+    const semanticResult = await searchSemanticBySeed(seed, llm, semanticLimit, scoreThreshold, config, filters, onLog);
     iterationRoundsExecuted += relatedResult.iterationRoundsExecuted;
     accumulateSearchMetrics(totalMetrics, relatedResult.metrics);
     accumulateSearchMetrics(totalMetrics, semanticResult.metrics);
@@ -518,6 +522,8 @@ export interface DeepSearchOptions {
   semanticLimit?: number;
   maxFinalArticles?: number;
   skipPdfSummary?: boolean;
+  /** 检索筛选条件（日期 / 来源 / 领域 / 评分等），作用于相关文章与语义检索 */
+  filters?: SearchFilters;
   outputDir?: string;
   configPath?: string;
   onProgress?: (step: string, current: number, total: number) => void;
@@ -563,16 +569,18 @@ export async function runDeepSearch(options: DeepSearchOptions): Promise<DeepSea
   const limit = options.semanticLimit ?? config.search.semantic_limit;
   const maxFinal = options.maxFinalArticles ?? config.search.max_final_articles;
   const skipPdfSummary = options.skipPdfSummary === true;
+  const filters = hasSearchFilters(options.filters) ? options.filters : undefined;
+  const filtersText = filters ? formatSearchFilters(filters).join(' ') : '无';
 
-  console.log(`\n开始检索 (轮次: ${rounds}, 阈值: ${threshold}, 限制: ${limit})`);
+  console.log(`\n开始检索 (轮次: ${rounds}, 阈值: ${threshold}, 限制: ${limit}, 筛选: ${filtersText})`);
   await writeStepReport(
     '步骤一：检索相关文章',
-    `检索参数: 轮次=${rounds}, 阈值=${threshold}, 限制=${limit}, 跳过 PDF 总结=${skipPdfSummary ? '是' : '否'}`
+    `检索参数: 轮次=${rounds}, 阈值=${threshold}, 限制=${limit}, 筛选=${filtersText}, 跳过 PDF 总结=${skipPdfSummary ? '是' : '否'}`
   );
-  emitLog(`步骤一：开始检索，轮次=${rounds}，阈值=${threshold}，限制=${limit}，跳过 PDF 总结=${skipPdfSummary ? '是' : '否'}`);
+  emitLog(`步骤一：开始检索，轮次=${rounds}，阈值=${threshold}，限制=${limit}，筛选=${filtersText}，跳过 PDF 总结=${skipPdfSummary ? '是' : '否'}`);
   emitProgress('searching', 20);
 
-  const iterativeResult = await iterativeSearch(seedArticles, rounds, threshold, limit, emitLog);
+  const iterativeResult = await iterativeSearch(seedArticles, rounds, threshold, limit, filters, emitLog);
   let candidates = iterativeResult.candidates;
   const searchStats = {
     seedArticleCount: seedArticles.length,
@@ -1,8 +1,9 @@
 import { search, SearchMode, type SearchRequest, type SearchResult } from '../../src/vector/search-service.js';
+import type { SearchFilters } from '../../src/vector/search-filters.js';
 import { getConfig } from './config.js';
 import type { CandidateArticle } from './types.js';
 
-export async function semanticSearch(query: string, limit: number): Promise<CandidateArticle[]> {
+export async function semanticSearch(query: string, limit: number, filters?: SearchFilters): Promise<CandidateArticle[]> {
   const config = getConfig();
   const userId = config.user.userId;
 
@@ -11,6 +12,7 @@ export async function semanticSearch(query: string, limit: number): Promise<Cand
     userId,
     query,
     limit,
+    filters,
     fallbackEnabled: true,
   };
 
@@ -64,7 +66,7 @@ export async function hybridSearch(
   }
 }
 
-export async function relatedSearch(articleId: number, limit: number): Promise<CandidateArticle[]> {
+export async function relatedSearch(articleId: number, limit: number, filters?: SearchFilters): Promise<CandidateArticle[]> {
   const config = getConfig();
   const userId = config.user.userId;
 
@@ -73,6 +75,7 @@ export async function relatedSearch(articleId: number, limit: number): Promise<C
     userId,
     articleId,
     limit,
+    filters,
     useCache: true,
   };
 
@@ -10,6 +10,10 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { config } from '../src/config.js';
+import { canonicalizeUrl } from '../src/utils/article-fingerprint.js';
+import { encryptAPIKey } from '../src/utils/crypto.js';
+import { maskWeChatWebhookUrl } from '../src/api/wechat-webhooks.js';
+import yaml from 'js-yaml';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -21,6 +25,70 @@ function hasColumn(db: Database.Database, table: string, column: string): boolea
   return columns.some((item) => item.name === column);
 }
 
+/**
+ * One-time import of config/wechat.yaml into wechat_webhooks
+ * 原 YAML 为全局配置，导入给第一个管理员；URL 加密存储
+ */
+function importWeChatYaml(db: Database.Database): void {
+  const yamlPath = path.join(process.cwd(), 'config', 'wechat.yaml');
+  if (!fs.existsSync(yamlPath)) {
+    console.log('      → No config/wechat.yaml to import');
+    return;
+  }
+
+  const parsed = yaml.load(fs.readFileSync(yamlPath, 'utf-8')) as { webhooks?: any[] } | undefined;
+  const webhooks = (parsed?.webhooks || []).filter((w) => typeof w?.url === 'string' && w.url.trim());
+  if (webhooks.length === 0) {
+    console.log('      → config/wechat.yaml has no webhooks to import');
+    return;
+  }
+
+  const admin = db
+    .prepare("SELECT id FROM users WHERE role = 'admin' ORDER BY id LIMIT 1")
+    .get() as { id: number } | undefined;
+  if (!admin) {
+    console.log('      → No admin user, skipped importing config/wechat.yaml');
+    return;
+  }
+
+  const insert = db.prepare(`
+    INSERT INTO wechat_webhooks (
+      user_id, name, url_encrypted, url_hint,
+      daily_summary_journal, daily_summary_blog_news, journal_all, new_articles, insights, pdf_summary,
+      is_active, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  // 与旧 YAML 加载逻辑一致：缺省推送类型视为开启，旧字段 daily_summary 拆分为期刊 / 资讯
+  const flag = (value: unknown, fallback = true) => (value === undefined ? fallback : value !== false) ? 1 : 0;
+
+  db.transaction(() => {
+    for (const webhook of webhooks) {
+      const url = String(webhook.url).trim();
+      const pushTypes = webhook.push_types || {};
+      const legacyDailySummary = pushTypes.daily_summary !== false;
+      const now = new Date().toISOString();
+      insert.run(
+        admin.id,
+        String(webhook.name || '企业微信').trim(),
+        encryptAPIKey(url, config.llmEncryptionKey),
+        maskWeChatWebhookUrl(url),
+        flag(pushTypes.daily_summary_journal, legacyDailySummary),
+        flag(pushTypes.daily_summary_blog_news, legacyDailySummary),
+        flag(pushTypes.journal_all),
+        flag(pushTypes.new_articles),
+        flag(pushTypes.insights),
+        flag(pushTypes.pdf_summary),
+        webhook.enabled === false ? 0 : 1,
+        webhook.created_at || now,
+        webhook.updated_at || webhook.created_at || now
+      );
+    }
+  })();
+
+  console.log(`      → Imported ${webhooks.length} webhook(s) from config/wechat.yaml into user ${admin.id}`);
+  console.log('      → config/wechat.yaml is no longer read; remove it to drop the plaintext webhook keys');
+}
+
 function hasTable(db: Database.Database, table: string): boolean {
   const result = db
     .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name = ?")
@@ -971,6 +1039,305 @@ CREATE INDEX IF NOT EXISTS idx_email_fetch_logs_created_at ON email_fetch_logs(c
         continue;
       }
 
+      // ============================================================
+      // 044: RSS 条件请求（rss_sources.etag / last_modified + 304 日志状态）
+      // ============================================================
+      if (file === '044_add_rss_conditional_fetch.sql') {
+        const hasEtag = hasColumn(db, 'rss_sources', 'etag');
+        if (!hasEtag) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Added etag / last_modified columns to rss_sources');
+          console.log('      → rss_fetch_logs.status now includes: not_modified');
+        } else {
+          console.log('      → Skipped (etag already exists)');
+        }
+        continue;
+      }
+
+      // ============================================================
+      // 045: 文章去重指纹（guid / canonical_url / content_hash）+ 跨源关联表
+      // ============================================================
+      if (file === '045_add_article_dedup_fingerprint.sql') {
+        const hasCanonicalUrl = hasColumn(db, 'articles', 'canonical_url');
+        if (!hasCanonicalUrl) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Added guid / canonical_url / content_hash to articles and rejected_articles');
+          console.log('      → Created article_source_links table');
+        } else {
+          console.log('      → Skipped (canonical_url already exists)');
+        }
+
+        // 回填历史数据的 canonical_url（幂等，仅处理空值）
+        for (const table of ['articles', 'rejected_articles']) {
+          const rows = db
+            .prepare(`SELECT id, url FROM ${table} WHERE canonical_url IS NULL`)
+            .all() as Array<{ id: number; url: string }>;
+          const update = db.prepare(`UPDATE ${table} SET canonical_url = ? WHERE id = ?`);
+          let backfilled = 0;
+          db.transaction(() => {
+            for (const row of rows) {
+              const canonicalUrl = canonicalizeUrl(row.url);
+              if (canonicalUrl) {
+                update.run(canonicalUrl, row.id);
+                backfilled += 1;
+              }
+            }
+          })();
+          console.log(`      → Backfilled canonical_url for ${backfilled} ${table} rows`);
+        }
+        continue;
+      }
+
+      if (file === '046_add_article_doi.sql') {
+        const hasDoi = hasColumn(db, 'articles', 'doi');
+        if (!hasDoi) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Added doi to articles and rejected_articles');
+        } else {
+          console.log('      → Skipped (doi already exists)');
+        }
+        continue;
+      }
+
+      if (file === '047_add_article_metadata.sql') {
+        const hasArticleAuthors = hasTable(db, 'article_authors');
+        if (!hasArticleAuthors) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          const count = db.prepare('SELECT COUNT(*) as count FROM article_identifiers').get() as { count: number };
+          console.log('      → Created article_authors / article_identifiers / article_keywords tables');
+          console.log(`      → Backfilled ${count.count} DOI identifiers`);
+          console.log("      → article_source_links.matched_by now accepts 'doi'");
+        } else {
+          console.log('      → Skipped (article_authors already exists)');
+        }
+        continue;
+      }
+
+      if (file === '048_add_article_enrichment.sql') {
+        const hasVenue = hasColumn(db, 'articles', 'venue');
+        if (!hasVenue) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Added venue / citation_count / oa_pdf_url / enriched_at to articles');
+          console.log("      → article_process_logs.stage now accepts 'enrich'");
+        } else {
+          console.log('      → Skipped (articles.venue already exists)');
+        }
+        continue;
+      }
+
+      if (file === '049_open_process_log_stages.sql') {
+        const table = db
+          .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'article_process_logs'")
+          .get() as { sql: string } | undefined;
+        if (table?.sql.includes('CHECK(stage IN')) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Removed stage CHECK constraint from article_process_logs');
+        } else {
+          console.log('      → Skipped (article_process_logs.stage already unconstrained)');
+        }
+        continue;
+      }
+
+      if (file === '050_add_article_jobs.sql') {
+        const hasArticleJobs = hasTable(db, 'article_jobs');
+        if (!hasArticleJobs) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Created article_jobs table');
+        } else {
+          console.log('      → Skipped (article_jobs already exists)');
+        }
+        continue;
+      }
+
+      if (file === '051_add_llm_usage.sql') {
+        const hasLlmUsage = hasTable(db, 'llm_usage');
+        if (!hasLlmUsage) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Added input_price / output_price to llm_configs');
+          console.log('      → Created llm_usage and llm_budgets tables');
+        } else {
+          console.log('      → Skipped (llm_usage already exists)');
+        }
+        continue;
+      }
+
+      if (file === '052_add_user_api_tokens.sql') {
+        const hasApiTokens = hasTable(db, 'user_api_tokens');
+        if (!hasApiTokens) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Created user_api_tokens table');
+        } else {
+          console.log('      → Skipped (user_api_tokens already exists)');
+        }
+        continue;
+      }
+
+      if (file === '053_add_workspaces.sql') {
+        const hasWorkspaces = hasTable(db, 'workspaces');
+        if (!hasWorkspaces) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Created workspaces and workspace_members tables');
+          console.log('      → Backfilled personal workspaces (guest users added as readers of user 1)');
+        } else {
+          console.log('      → Skipped (workspaces already exists)');
+        }
+        continue;
+      }
+
+      if (file === '054_add_user_management.sql') {
+        const hasDisabled = hasColumn(db, 'users', 'disabled');
+        if (!hasDisabled) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Added disabled / password_changed_at / last_login_at to users');
+        } else {
+          console.log('      → Skipped (users.disabled already exists)');
+        }
+        continue;
+      }
+
+      if (file === '055_add_wechat_webhooks.sql') {
+        const hasWeChatWebhooks = hasTable(db, 'wechat_webhooks');
+        if (!hasWeChatWebhooks) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Created wechat_webhooks table');
+          importWeChatYaml(db);
+        } else {
+          console.log('      → Skipped (wechat_webhooks already exists)');
+        }
+        continue;
+      }
+
+      if (file === '056_add_notification_channels.sql') {
+        const hasNotificationChannels = hasTable(db, 'notification_channels');
+        if (!hasNotificationChannels) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Created notification_channels table');
+        } else {
+          console.log('      → Skipped (notification_channels already exists)');
+        }
+        continue;
+      }
+
+      if (file === '057_add_notification_deliveries.sql') {
+        const hasNotificationDeliveries = hasTable(db, 'notification_deliveries');
+        if (!hasNotificationDeliveries) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Created notification_deliveries table');
+        } else {
+          console.log('      → Skipped (notification_deliveries already exists)');
+        }
+        continue;
+      }
+
+      if (file === '058_telegram_chat_pause.sql') {
+        const hasIsPaused = hasColumn(db, 'telegram_chats', 'is_paused');
+        if (!hasIsPaused) {
+          db.exec('ALTER TABLE telegram_chats ADD COLUMN is_paused INTEGER DEFAULT 0;');
+          console.log('      → Added is_paused column to telegram_chats table');
+        } else {
+          console.log('      → Skipped (is_paused column already exists)');
+        }
+        continue;
+      }
+
+      if (file === '059_add_notification_rules.sql') {
+        const hasNotificationRules = hasTable(db, 'notification_rules');
+        if (!hasNotificationRules) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Created notification_rules and notification_digest_items tables');
+        } else {
+          console.log('      → Skipped (notification_rules already exists)');
+        }
+        continue;
+      }
+
+      if (file === '060_add_saved_searches.sql') {
+        const hasSavedSearches = hasTable(db, 'saved_searches');
+        if (!hasSavedSearches) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Created saved_searches and saved_search_matches tables');
+        } else {
+          console.log('      → Skipped (saved_searches already exists)');
+        }
+        continue;
+      }
+
+      if (file === '061_add_articles_fts.sql') {
+        const hasArticlesFts = hasTable(db, 'articles_fts');
+        if (!hasArticlesFts) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          const { count } = db.prepare('SELECT COUNT(*) AS count FROM articles_fts').get() as { count: number };
+          console.log(`      → Created articles_fts full-text index and sync triggers (${count} article(s) indexed)`);
+        } else {
+          console.log('      → Skipped (articles_fts already exists)');
+        }
+        continue;
+      }
+
+      if (file === '062_add_deepsearch_task_filters.sql') {
+        const hasFiltersJson = hasColumn(db, 'deepsearch_tasks', 'filters_json');
+        if (!hasFiltersJson) {
+          db.exec('ALTER TABLE deepsearch_tasks ADD COLUMN filters_json TEXT;');
+          console.log('      → Added filters_json column to deepsearch_tasks');
+        } else {
+          console.log('      → Skipped (filters_json column already exists)');
+        }
+        continue;
+      }
+
+      if (file === '063_add_vector_embeddings.sql') {
+        const hasVectorEmbeddings = hasTable(db, 'vector_embeddings');
+        if (!hasVectorEmbeddings) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Created vector_embeddings table (embedded vector store)');
+        } else {
+          console.log('      → Skipped (vector_embeddings already exists)');
+        }
+        continue;
+      }
+
+      if (file === '064_add_vector_index_versions.sql') {
+        const hasIndexVersions = hasTable(db, 'vector_index_versions');
+        if (!hasIndexVersions) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log('      → Created vector_index_versions table');
+        } else {
+          console.log('      → Skipped (vector_index_versions already exists)');
+        }
+        continue;
+      }
+
+      if (file === '065_add_member_role.sql') {
+        const usersTable = db.prepare("SELECT sql FROM sqlite_master WHERE type='table' AND name='users'").get() as { sql: string } | undefined;
+        if (usersTable && !usersTable.sql.includes("'member'")) {
+          const sql = fs.readFileSync(fullPath, 'utf-8');
+          db.exec(sql);
+          console.log("      → Rebuilt users table with role 'member'");
+        } else {
+          console.log("      → Skipped (users.role already allows 'member')");
+        }
+        continue;
+      }
+
       // 其他迁移脚本已包含在 001_init.sql 中
       console.log('      → Skipped (included in 001_init.sql)');
     }
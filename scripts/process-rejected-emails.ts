@@ -16,7 +16,7 @@ import 'dotenv/config';
 import { getDb } from '../src/db.js';
 import { getUserLLMProvider, type ChatMessage } from '../src/llm.js';
 import { filterArticle, type FilterInput } from '../src/filter.js';
-import { processArticle } from '../src/pipeline.js';
+import { processArticle } from '../src/pipeline/index.js';
 import { parseLLMJSON } from '../src/utils/llm-json-parser.js';
 import { generateNormalizedTitle } from '../src/utils/title.js';
 import { buildPromptVariables } from '../src/api/prompt-variable-builder.js';
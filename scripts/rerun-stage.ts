@@ -0,0 +1,102 @@
+/**
+ * 对筛选出的文章重跑单个流水线阶段
+ *
+ * 典型场景：
+ * - 更换翻译模型后，重跑某个 RSS 源的 translate
+ * - 更换 embedding 模型后，重跑全部文章的 vector（加 --cascade 同时刷新 related）
+ * - 配置书目服务后，为历史文章补跑 enrich
+ *
+ * 运行方式：
+ *   cd /opt/lis-rss-daily
+ *   npx tsx scripts/rerun-stage.ts --stage translate --rss-source 3
+ *   npx tsx scripts/rerun-stage.ts --stage vector --cascade --limit 2000
+ *   npx tsx scripts/rerun-stage.ts --stage enrich --stage-status pending --dry-run
+ *
+ * 参数：
+ *   --stage <name>           目标阶段（必填，见 GET /api/articles/stages）
+ *   --user <id>              用户 ID（默认 1）
+ *   --rss-source <id>        RSS 源 ID（可重复）
+ *   --journal <id>           期刊 ID（可重复）
+ *   --keyword <id>           关键词订阅 ID（可重复）
+ *   --article <id>           文章 ID（可重复）
+ *   --process-status <s>     pending | completed | failed
+ *   --stage-status <s>       只重跑目标阶段处于该状态的文章
+ *   --after / --before <d>   抓取日期范围（YYYY-MM-DD）
+ *   --limit <n>              最多处理的文章数（默认 500）
+ *   --cascade                同时重跑下游阶段
+ *   --dry-run                只统计匹配文章数
+ */
+
+import 'dotenv/config';
+import { logger } from '../src/logger.js';
+import {
+  findArticlesForStageRerun,
+  getOrderedStages,
+  rerunStageForArticles,
+  type StageRerunFilter,
+} from '../src/pipeline/index.js';
+
+const log = logger.child({ module: 'rerun-stage' });
+
+function parseArgs(argv: string[]): Map<string, string[]> {
+  const args = new Map<string, string[]>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    const value = next !== undefined && !next.startsWith('--') ? (i++, next) : 'true';
+    args.set(key, [...(args.get(key) ?? []), value]);
+  }
+  return args;
+}
+
+function idList(values: string[] | undefined): number[] | undefined {
+  const ids = (values ?? []).map((value) => parseInt(value, 10)).filter((id) => id > 0);
+  return ids.length > 0 ? ids : undefined;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const stage = args.get('stage')?.[0];
+  const stageNames = getOrderedStages().map((s) => s.name);
+
+  if (!stage || !stageNames.includes(stage)) {
+    throw new Error(`--stage is required, one of: ${stageNames.join(', ')}`);
+  }
+
+  const userId = parseInt(args.get('user')?.[0] ?? '1', 10);
+  const filter: StageRerunFilter = {
+    articleIds: idList(args.get('article')),
+    rssSourceIds: idList(args.get('rss-source')),
+    journalIds: idList(args.get('journal')),
+    keywordIds: idList(args.get('keyword')),
+    processStatus: args.get('process-status')?.[0] as StageRerunFilter['processStatus'],
+    stageStatus: args.get('stage-status')?.[0] as StageRerunFilter['stageStatus'],
+    createdAfter: args.get('after')?.[0],
+    createdBefore: args.get('before')?.[0],
+    limit: args.has('limit') ? parseInt(args.get('limit')![0], 10) : undefined,
+  };
+
+  const articleIds = await findArticlesForStageRerun(stage, userId, filter);
+  log.info({ stage, userId, filter, count: articleIds.length }, 'Matched articles');
+
+  if (args.has('dry-run') || articleIds.length === 0) {
+    return;
+  }
+
+  const summary = await rerunStageForArticles(stage, articleIds, userId, {
+    cascade: args.has('cascade'),
+  });
+  log.info(summary, 'Stage re-run completed');
+}
+
+main()
+  .then(() => {
+    log.info('Script finished');
+    process.exit(0);
+  })
+  .catch((err) => {
+    log.error({ err }, 'Script failed');
+    process.exit(1);
+  });
@@ -1,12 +1,13 @@
 #!/bin/bash
 # 手动触发全部期刊总结 (journal_all) 生成，用于测试 LLM 提供商是否恢复正常
-# 用法: bash scripts/trigger-journal-all-summary.sh [date]
+# 用法: API_TOKEN=rsst_... bash scripts/trigger-journal-all-summary.sh [date]
+#   API_TOKEN: 必填，具有 summary:write 权限的 API 令牌（设置 → 账户 → API 令牌），总结生成到令牌所属用户的当前工作区
 #   date: 可选，YYYY-MM-DD 格式，默认今天
 
 set -e
 
 BASE_URL="${BASE_URL:-http://localhost:8007}"
-API_KEY="${CLI_API_KEY:-sk-s8sdjn73nsdnau}"
+API_TOKEN="${API_TOKEN:?请设置 API_TOKEN（具有 summary:write 权限的 API 令牌，在「设置 → 账户 → API 令牌」中创建）}"
 DATE="${1:-$(date +%Y-%m-%d)}"
 
 echo "=== 触发全部期刊总结生成 ==="
@@ -14,9 +15,9 @@ echo "日期: $DATE"
 echo "接口: $BASE_URL/api/daily-summary/journal-all/cli"
 echo ""
 
-# 用 query param 传 user_id + api_key（requireCliAuth 要求）
-RESPONSE=$(curl -s -X POST "$BASE_URL/api/daily-summary/journal-all/cli?user_id=1&api_key=$API_KEY" \
+RESPONSE=$(curl -s -X POST "$BASE_URL/api/daily-summary/journal-all/cli" \
+  -H "Authorization: Bearer $API_TOKEN" \
   -H "Content-Type: application/json" \
   -d "{\"date\": \"$DATE\"}")
 
-echo "$RESPONSE" | python3 -m json.tool 2>/dev/null || echo "$RESPONSE"
\ No newline at end of file
+echo "$RESPONSE" | python3 -m json.tool 2>/dev/null || echo "$RESPONSE"
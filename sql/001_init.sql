@@ -14,13 +14,55 @@ CREATE TABLE IF NOT EXISTS users (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   username TEXT NOT NULL UNIQUE,
   password_hash TEXT NOT NULL,
-  role TEXT DEFAULT 'admin' CHECK(role IN ('admin', 'guest')),
+  role TEXT DEFAULT 'member' CHECK(role IN ('admin', 'member', 'guest')),
+  disabled INTEGER NOT NULL DEFAULT 0,
+  password_changed_at DATETIME,
+  last_login_at DATETIME,
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
 CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
 
+-- 用户级 API Token（外部调用鉴权，只存哈希）
+CREATE TABLE IF NOT EXISTS user_api_tokens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL,
+  scopes TEXT NOT NULL DEFAULT '[]',
+  expires_at DATETIME,
+  last_used_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_api_tokens_user_id ON user_api_tokens(user_id);
+
+-- 工作区：数据沿用所有者 user_id 隔离，成员按角色共享
+CREATE TABLE IF NOT EXISTS workspaces (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  owner_user_id INTEGER NOT NULL UNIQUE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (owner_user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  workspace_id INTEGER NOT NULL,
+  user_id INTEGER NOT NULL,
+  role TEXT NOT NULL CHECK(role IN ('owner', 'editor', 'reader')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(workspace_id, user_id),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+
 -- ===========================================
 -- 2. RSS Sources Table
 -- ===========================================
@@ -37,6 +79,8 @@ CREATE TABLE IF NOT EXISTS rss_sources (
   source_type TEXT DEFAULT 'blog' CHECK(source_type IN ('journal', 'blog', 'news')),
   domain_id INTEGER NOT NULL REFERENCES topic_domains(id),
   last_fetched_at DATETIME,
+  etag TEXT,           -- 上次响应的 ETag（条件请求 If-None-Match）
+  last_modified TEXT,  -- 上次响应的 Last-Modified（条件请求 If-Modified-Since）
   fetch_interval INTEGER DEFAULT 3600,
   auto_cleanup_rejected INTEGER NOT NULL DEFAULT 0,
   status TEXT DEFAULT 'active' CHECK(status IN ('active', 'inactive')),
@@ -118,6 +162,9 @@ CREATE TABLE IF NOT EXISTS articles (
   title TEXT NOT NULL,
   title_normalized TEXT,  -- 规范化标题用于去重
   url TEXT NOT NULL UNIQUE,
+  guid TEXT,           -- RSS <guid> / Atom <id>（去重指纹）
+  canonical_url TEXT,  -- 去除跟踪参数后的规范化 URL（去重指纹）
+  content_hash TEXT,   -- 规范化标题 + 摘要 SHA-256（去重指纹）
   summary TEXT,
   content TEXT,
   markdown_content TEXT,
@@ -131,6 +178,11 @@ CREATE TABLE IF NOT EXISTS articles (
   published_year INTEGER,    -- 年份（期刊文章使用）
   published_issue INTEGER,   -- 期号（期刊文章使用）
   published_volume INTEGER,  -- 卷号（期刊文章使用）
+  doi TEXT,                  -- 规范化 DOI（期刊爬虫 / PRISM feed）
+  venue TEXT,                -- 期刊 / 会议名称（enrich 阶段补全）
+  citation_count INTEGER,    -- 被引次数（enrich 阶段补全）
+  oa_pdf_url TEXT,           -- 开放获取 PDF 链接（enrich 阶段补全）
+  enriched_at DATETIME,
   error_message TEXT,
   is_read INTEGER DEFAULT 0,
   source_origin TEXT DEFAULT 'rss' CHECK(source_origin IN ('rss', 'journal', 'keyword', 'email', 'web')),  -- 文章来源
@@ -160,6 +212,76 @@ CREATE INDEX IF NOT EXISTS idx_articles_published_year ON articles(published_yea
 CREATE INDEX IF NOT EXISTS idx_articles_published_issue ON articles(published_issue);
 CREATE UNIQUE INDEX IF NOT EXISTS idx_articles_title_normalized ON articles(title_normalized) WHERE title_normalized IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_articles_rating ON articles(rating) WHERE rating IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_articles_guid ON articles(guid) WHERE guid IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_articles_canonical_url ON articles(canonical_url) WHERE canonical_url IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_articles_content_hash ON articles(content_hash) WHERE content_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_articles_doi ON articles(doi) WHERE doi IS NOT NULL;
+
+-- ===========================================
+-- 3b. Article Source Links (跨源重复文章关联)
+-- ===========================================
+-- 同一篇文章被其他来源再次收录时不重复入库，记录关联来源
+CREATE TABLE IF NOT EXISTS article_source_links (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  article_id INTEGER NOT NULL,
+  source_origin TEXT NOT NULL CHECK(source_origin IN ('rss', 'journal', 'keyword', 'email', 'web')),
+  source_id INTEGER NOT NULL,
+  url TEXT,
+  guid TEXT,
+  matched_by TEXT NOT NULL CHECK(matched_by IN ('doi', 'guid', 'url', 'content_hash', 'title')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+  UNIQUE(article_id, source_origin, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_source_links_article_id ON article_source_links(article_id);
+CREATE INDEX IF NOT EXISTS idx_article_source_links_source ON article_source_links(source_origin, source_id);
+
+-- ===========================================
+-- 3c. Article Metadata (作者 / 标识符 / 关键词)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS article_authors (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  article_id INTEGER NOT NULL,
+  position INTEGER NOT NULL,                 -- 作者顺序（从 0 开始）
+  name TEXT NOT NULL,
+  name_normalized TEXT NOT NULL,             -- 小写、折叠空白，用于按作者检索
+  affiliation TEXT,                          -- 作者单位
+  orcid TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+  UNIQUE(article_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_authors_article_id ON article_authors(article_id);
+CREATE INDEX IF NOT EXISTS idx_article_authors_name_normalized ON article_authors(name_normalized);
+
+CREATE TABLE IF NOT EXISTS article_identifiers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  article_id INTEGER NOT NULL,
+  scheme TEXT NOT NULL CHECK(scheme IN ('doi', 'pmid', 'arxiv', 'isbn', 'issn', 'cnki')),
+  value TEXT NOT NULL,                       -- 规范化后的值（DOI 为小写裸 DOI）
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+  UNIQUE(article_id, scheme, value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_identifiers_article_id ON article_identifiers(article_id);
+CREATE INDEX IF NOT EXISTS idx_article_identifiers_value ON article_identifiers(scheme, value);
+
+CREATE TABLE IF NOT EXISTS article_keywords (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  article_id INTEGER NOT NULL,
+  keyword TEXT NOT NULL,
+  keyword_normalized TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'author' CHECK(source IN ('author', 'feed')),  -- author: 作者关键词, feed: RSS 分类
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+  UNIQUE(article_id, keyword_normalized)
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_keywords_article_id ON article_keywords(article_id);
+CREATE INDEX IF NOT EXISTS idx_article_keywords_keyword_normalized ON article_keywords(keyword_normalized);
 
 -- ===========================================
 -- 4. Topic Domains Table
@@ -227,7 +349,7 @@ CREATE TABLE IF NOT EXISTS rss_fetch_logs (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   user_id INTEGER NOT NULL,
   rss_source_id INTEGER NOT NULL,
-  status TEXT NOT NULL CHECK(status IN ('success', 'failed', 'partial')),
+  status TEXT NOT NULL CHECK(status IN ('success', 'failed', 'partial', 'not_modified')),
   articles_count INTEGER DEFAULT 0,
   new_articles_count INTEGER DEFAULT 0,
   duration_ms INTEGER DEFAULT 0,
@@ -288,7 +410,7 @@ CREATE TABLE IF NOT EXISTS article_process_logs (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   user_id INTEGER NOT NULL,
   article_id INTEGER NOT NULL,
-  stage TEXT NOT NULL CHECK(stage IN ('markdown', 'translate', 'vector', 'related', 'pipeline_complete')),
+  stage TEXT NOT NULL,       -- 流水线阶段名（插件注册）或 pipeline_complete
   status TEXT NOT NULL CHECK(status IN ('processing', 'completed', 'failed', 'skipped')),
   duration_ms INTEGER,
   error_message TEXT,
@@ -303,6 +425,33 @@ CREATE INDEX IF NOT EXISTS idx_article_process_logs_article_id ON article_proces
 CREATE INDEX IF NOT EXISTS idx_article_process_logs_stage ON article_process_logs(stage);
 CREATE INDEX IF NOT EXISTS idx_article_process_logs_created_at ON article_process_logs(created_at);
 
+-- ===========================================
+-- 8b. Article Jobs (文章处理任务队列)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS article_jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  article_id INTEGER NOT NULL,
+  source TEXT NOT NULL CHECK(source IN ('rss', 'journal', 'keyword', 'email', 'web', 'api', 'recovery')),  -- 入队来源
+  status TEXT NOT NULL DEFAULT 'queued' CHECK(status IN ('queued', 'leased', 'completed', 'dead')),     -- dead: 超过最大尝试次数（死信）
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  available_at DATETIME NOT NULL,            -- 最早可执行时间（失败重试退避）
+  lease_owner TEXT,                          -- 持有租约的 worker
+  lease_expires_at DATETIME,                 -- 租约到期时间（可见性超时）
+  last_error TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  completed_at DATETIME,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE
+);
+
+-- 同一篇文章同时只保留一个未完成的任务
+CREATE UNIQUE INDEX IF NOT EXISTS idx_article_jobs_active ON article_jobs(article_id) WHERE status IN ('queued', 'leased');
+CREATE INDEX IF NOT EXISTS idx_article_jobs_status ON article_jobs(status, available_at);
+CREATE INDEX IF NOT EXISTS idx_article_jobs_user_id ON article_jobs(user_id);
+
 -- ===========================================
 -- 9. Article Related Table
 -- ===========================================
@@ -336,6 +485,47 @@ CREATE TABLE IF NOT EXISTS article_translations (
 
 CREATE INDEX IF NOT EXISTS idx_article_translations_article_id ON article_translations(article_id);
 
+-- 文章全文索引（FTS5，rowid = articles.id）：标题、翻译标题 / 摘要、Markdown 正文
+-- trigram 分词，中英文统一按子串匹配（查询词至少 3 个字符）；由触发器随 articles / article_translations 同步
+CREATE VIRTUAL TABLE IF NOT EXISTS articles_fts USING fts5(
+  title,
+  title_zh,
+  summary_zh,
+  content,
+  tokenize = 'trigram'
+);
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_after_insert AFTER INSERT ON articles BEGIN
+  INSERT INTO articles_fts(rowid, title, title_zh, summary_zh, content)
+  VALUES (
+    NEW.id,
+    NEW.title,
+    (SELECT title_zh FROM article_translations WHERE article_id = NEW.id),
+    (SELECT summary_zh FROM article_translations WHERE article_id = NEW.id),
+    NEW.markdown_content
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_after_update AFTER UPDATE OF title, markdown_content ON articles BEGIN
+  UPDATE articles_fts SET title = NEW.title, content = NEW.markdown_content WHERE rowid = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_after_delete AFTER DELETE ON articles BEGIN
+  DELETE FROM articles_fts WHERE rowid = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_translation_after_insert AFTER INSERT ON article_translations BEGIN
+  UPDATE articles_fts SET title_zh = NEW.title_zh, summary_zh = NEW.summary_zh WHERE rowid = NEW.article_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_translation_after_update AFTER UPDATE OF title_zh, summary_zh ON article_translations BEGIN
+  UPDATE articles_fts SET title_zh = NEW.title_zh, summary_zh = NEW.summary_zh WHERE rowid = NEW.article_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_translation_after_delete AFTER DELETE ON article_translations BEGIN
+  UPDATE articles_fts SET title_zh = NULL, summary_zh = NULL WHERE rowid = OLD.article_id;
+END;
+
 -- ===========================================
 -- 11. LLM Configs Table
 -- ===========================================
@@ -356,6 +546,8 @@ CREATE TABLE IF NOT EXISTS llm_configs (
   timeout INTEGER DEFAULT 30000,
   max_retries INTEGER DEFAULT 3,
   max_concurrent INTEGER DEFAULT 5,
+  input_price REAL,                          -- 输入价格（每 1M tokens）
+  output_price REAL,                         -- 输出价格（每 1M tokens）
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
@@ -366,6 +558,52 @@ CREATE INDEX IF NOT EXISTS idx_llm_configs_is_default ON llm_configs(is_default)
 CREATE INDEX IF NOT EXISTS idx_llm_configs_task_type ON llm_configs(task_type);
 CREATE INDEX IF NOT EXISTS idx_llm_configs_user_config_task ON llm_configs(user_id, config_type, task_type, is_default, priority);
 
+-- ===========================================
+-- 11b. LLM Usage / Budgets Tables
+-- ===========================================
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER,                           -- NULL: 环境变量配置且无用户上下文
+  config_id INTEGER,                         -- NULL: 环境变量配置
+  task_type TEXT,
+  label TEXT,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost REAL,                                 -- 按配置价格估算，未设置价格时为 NULL
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  streamed INTEGER NOT NULL DEFAULT 0,
+  success INTEGER NOT NULL DEFAULT 1,
+  error TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (config_id) REFERENCES llm_configs(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON llm_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_config_id ON llm_usage(config_id);
+
+CREATE TABLE IF NOT EXISTS llm_budgets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  task_type TEXT,                            -- NULL: 所有任务
+  config_id INTEGER,                         -- NULL: 所有配置
+  monthly_token_limit INTEGER,
+  monthly_cost_limit REAL,
+  action TEXT NOT NULL DEFAULT 'block' CHECK(action IN ('block', 'downgrade')),
+  downgrade_config_id INTEGER,               -- action = downgrade 时改用的配置
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (config_id) REFERENCES llm_configs(id) ON DELETE CASCADE,
+  FOREIGN KEY (downgrade_config_id) REFERENCES llm_configs(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_budgets_user_id ON llm_budgets(user_id);
+
 -- ===========================================
 -- 12. Settings Table
 -- ===========================================
@@ -552,6 +790,7 @@ CREATE TABLE IF NOT EXISTS telegram_chats (
   new_articles INTEGER DEFAULT 1,        -- 接收新增文章
   pdf_summary INTEGER DEFAULT 1,         -- 接收 PDF 全文总结
   is_active INTEGER DEFAULT 1,
+  is_paused INTEGER DEFAULT 0,           -- /pause 暂停推送（迁移 058）
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
@@ -562,6 +801,147 @@ CREATE INDEX IF NOT EXISTS idx_telegram_chats_user_id ON telegram_chats(user_id)
 CREATE INDEX IF NOT EXISTS idx_telegram_chats_is_active ON telegram_chats(is_active);
 CREATE INDEX IF NOT EXISTS idx_telegram_chats_role ON telegram_chats(role);
 
+-- 企业微信 Webhook（按用户隔离，URL 加密存储，迁移 055）
+CREATE TABLE IF NOT EXISTS wechat_webhooks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  url_encrypted TEXT NOT NULL,       -- AES-256-GCM（LLM_ENCRYPTION_KEY）
+  url_hint TEXT NOT NULL,            -- 脱敏展示值
+  daily_summary_journal INTEGER DEFAULT 1,
+  daily_summary_blog_news INTEGER DEFAULT 1,
+  journal_all INTEGER DEFAULT 1,
+  new_articles INTEGER DEFAULT 1,
+  insights INTEGER DEFAULT 1,
+  pdf_summary INTEGER DEFAULT 1,
+  is_active INTEGER DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_wechat_webhooks_user_id ON wechat_webhooks(user_id);
+
+-- 通知渠道：Slack / Discord / 通用 Webhook / SMTP 邮件（按用户隔离，配置加密存储，迁移 056）
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  type TEXT NOT NULL CHECK(type IN ('slack', 'discord', 'webhook', 'email')),
+  name TEXT NOT NULL,
+  config_encrypted TEXT NOT NULL,    -- 渠道配置 JSON，AES-256-GCM（LLM_ENCRYPTION_KEY）
+  config_hint TEXT NOT NULL DEFAULT '', -- 脱敏展示值
+  daily_summary_journal INTEGER DEFAULT 1,
+  daily_summary_blog_news INTEGER DEFAULT 1,
+  journal_all INTEGER DEFAULT 1,
+  new_articles INTEGER DEFAULT 1,
+  insights INTEGER DEFAULT 1,
+  pdf_summary INTEGER DEFAULT 1,
+  is_active INTEGER DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_channels_user_id ON notification_channels(user_id);
+
+-- 通知投递记录（outbox）：每个渠道 / 接收者一行，幂等键去重，失败按指数退避重试（迁移 057）
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  channel TEXT NOT NULL,                     -- telegram / wechat / slack / discord / webhook / email
+  recipient TEXT NOT NULL,                   -- Telegram chat ID / 企业微信 webhook ID / 通知渠道 ID
+  recipient_name TEXT,
+  event_type TEXT NOT NULL,                  -- 推送类型（constants/push-types.ts）
+  event_key TEXT NOT NULL,                   -- 总结为日期，新增文章 / PDF 总结为文章 ID
+  idempotency_key TEXT NOT NULL UNIQUE,      -- user:channel:recipient:event_type:event_key
+  payload_json TEXT NOT NULL,                -- 渲染后的消息，重试时原样发送
+  payload_hash TEXT NOT NULL,                -- SHA-256(payload_json)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'sending', 'sent', 'failed')),  -- failed: 重试次数用尽
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at DATETIME,                  -- 下次重试时间（指数退避）
+  last_error TEXT,
+  sent_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user_id ON notification_deliveries(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_status ON notification_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_recipient ON notification_deliveries(user_id, channel, recipient, created_at);
+
+-- 新增文章推送规则（按接收者；无规则则逐篇即时推送）
+CREATE TABLE IF NOT EXISTS notification_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  channel TEXT NOT NULL,                     -- telegram / wechat / slack / discord / webhook / email
+  recipient TEXT NOT NULL,                   -- 与 notification_deliveries.recipient 一致
+  quiet_hours_start TEXT,                    -- 免打扰开始 HH:MM（用户时区），可跨午夜
+  quiet_hours_end TEXT,                      -- 免打扰结束 HH:MM
+  digest_interval INTEGER NOT NULL DEFAULT 0,  -- 摘要合并间隔（分钟），0 = 逐篇推送
+  max_per_hour INTEGER NOT NULL DEFAULT 0,   -- 每小时推送上限（摘要算一次），0 = 不限
+  min_score REAL,                            -- 最低 filter_score（0-1），NULL = 不限
+  domain_ids TEXT,                           -- 订阅的主题领域 ID（JSON 数组），NULL = 全部
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE(user_id, channel, recipient)
+);
+
+-- 暂缓推送的新增文章（免打扰 / 摘要合并 / 超过每小时上限），到期合并为一条摘要
+CREATE TABLE IF NOT EXISTS notification_digest_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  channel TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  article_id INTEGER NOT NULL,
+  reason TEXT NOT NULL CHECK(reason IN ('quiet_hours', 'digest', 'rate_limit')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+  UNIQUE(user_id, channel, recipient, article_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_digest_items_recipient ON notification_digest_items(user_id, channel, recipient, created_at);
+
+-- 订阅搜索：保存的查询，每轮检查新处理完成的文章，匹配结果进入收件箱
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'hybrid' CHECK(mode IN ('semantic', 'keyword', 'hybrid')),
+  semantic_weight REAL NOT NULL DEFAULT 0.7,
+  keyword_weight REAL NOT NULL DEFAULT 0.3,
+  min_score REAL NOT NULL DEFAULT 0.5,       -- 语义匹配的最低相似度（0-1）
+  filters TEXT,                              -- JSON：{ sourceOrigins?, passedOnly? }
+  notify_channels TEXT,                      -- JSON 数组：telegram / wechat，空 = 只进收件箱
+  is_active INTEGER NOT NULL DEFAULT 1,
+  last_checked_at DATETIME,                  -- 已检查到的文章 processed_at（ISO）
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE(user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  saved_search_id INTEGER NOT NULL,
+  article_id INTEGER NOT NULL,
+  score REAL NOT NULL,
+  semantic_score REAL,
+  keyword_matched INTEGER NOT NULL DEFAULT 0,
+  is_read INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (saved_search_id) REFERENCES saved_searches(id) ON DELETE CASCADE,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+  UNIQUE(saved_search_id, article_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_inbox ON saved_search_matches(saved_search_id, is_read, created_at);
+
 -- ===========================================
 -- 20. DeepSearch Tasks Table (深度检索任务表)
 -- ===========================================
@@ -584,6 +964,7 @@ CREATE TABLE IF NOT EXISTS deepsearch_tasks (
   pdf_summary_skipped INTEGER DEFAULT 0,
   search_stats_json TEXT,
   execution_logs_json TEXT,
+  filters_json TEXT,                -- 检索筛选条件（SearchFilters JSON，NULL = 不筛选）
   error_message TEXT,
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -612,6 +993,9 @@ CREATE TABLE IF NOT EXISTS rejected_articles (
   title TEXT NOT NULL,
   title_normalized TEXT,
   url TEXT NOT NULL,
+  guid TEXT,
+  canonical_url TEXT,
+  content_hash TEXT,
   summary TEXT,
   content TEXT,
   markdown_content TEXT,
@@ -625,6 +1009,7 @@ CREATE TABLE IF NOT EXISTS rejected_articles (
   published_year INTEGER,
   published_issue INTEGER,
   published_volume INTEGER,
+  doi TEXT,
   error_message TEXT,
   is_read INTEGER,
   source_origin TEXT,
@@ -649,6 +1034,8 @@ CREATE INDEX IF NOT EXISTS idx_rejected_articles_journal_id ON rejected_articles
 CREATE INDEX IF NOT EXISTS idx_rejected_articles_keyword_id ON rejected_articles(keyword_id);
 CREATE INDEX IF NOT EXISTS idx_rejected_articles_email_source_id ON rejected_articles(email_source_id);
 CREATE INDEX IF NOT EXISTS idx_rejected_articles_web_source_id ON rejected_articles(web_source_id);
+CREATE INDEX IF NOT EXISTS idx_rejected_articles_title_normalized ON rejected_articles(title_normalized);
+CREATE INDEX IF NOT EXISTS idx_rejected_articles_canonical_url ON rejected_articles(canonical_url) WHERE canonical_url IS NOT NULL;
 
 -- ===========================================
 -- 22. Rejected Cleanup Stats Cache (拒绝清理统计缓存)
@@ -685,6 +1072,64 @@ CREATE TABLE IF NOT EXISTS rejected_cleanup_logs (
 CREATE INDEX IF NOT EXISTS idx_rejected_cleanup_logs_user_id ON rejected_cleanup_logs(user_id);
 CREATE INDEX IF NOT EXISTS idx_rejected_cleanup_logs_created_at ON rejected_cleanup_logs(created_at);
 
+-- ===========================================
+-- 24. Vector Embeddings (嵌入式向量存储)
+-- ===========================================
+-- 向量存储后端为 sqlite 时使用（替代外部 ChromaDB 服务）；vector_id 为 "{user_id}:{article_id}"，
+-- embedding 为 Float32 小端 BLOB，norm 为其 L2 范数
+CREATE TABLE IF NOT EXISTS vector_embeddings (
+  collection TEXT NOT NULL,
+  vector_id TEXT NOT NULL,
+  user_id INTEGER NOT NULL,
+  article_id INTEGER NOT NULL,
+  dimensions INTEGER NOT NULL,
+  norm REAL NOT NULL,
+  embedding BLOB NOT NULL,
+  document TEXT NOT NULL DEFAULT '',
+  metadata TEXT NOT NULL DEFAULT '{}',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (collection, vector_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vector_embeddings_user_article ON vector_embeddings(collection, user_id, article_id);
+
+-- ===========================================
+-- 25. Vector Index Versions (向量索引版本)
+-- ===========================================
+-- 每个版本一个物理集合，记录 embedding 模型 / 维度 / buildVectorText 版本；检索固定使用 active 版本，
+-- 重建任务完成后原子切换（见 vector/index-versions.ts）
+CREATE TABLE IF NOT EXISTS vector_index_versions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  backend TEXT NOT NULL CHECK(backend IN ('chroma', 'sqlite')),
+  collection TEXT NOT NULL,
+  distance_metric TEXT NOT NULL DEFAULT 'cosine' CHECK(distance_metric IN ('cosine', 'l2', 'ip')),
+  embedding_config_id INTEGER,
+  embedding_model TEXT NOT NULL,
+  dimensions INTEGER,
+  text_version INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'building'
+    CHECK(status IN ('building', 'paused', 'completed', 'active', 'retired', 'cancelled', 'failed')),
+  total_articles INTEGER NOT NULL DEFAULT 0,
+  processed_articles INTEGER NOT NULL DEFAULT 0,
+  failed_articles INTEGER NOT NULL DEFAULT 0,
+  cursor_article_id INTEGER NOT NULL DEFAULT 0,
+  batch_size INTEGER NOT NULL DEFAULT 32,
+  batch_delay_ms INTEGER NOT NULL DEFAULT 1000,
+  error_message TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  completed_at DATETIME,
+  activated_at DATETIME,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (embedding_config_id) REFERENCES llm_configs(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_vector_index_versions_user_status ON vector_index_versions(user_id, status);
+-- 同一用户最多一个 active 版本（切换在事务内先退役旧版本再激活新版本）
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vector_index_versions_active ON vector_index_versions(user_id) WHERE status = 'active';
+
 -- ===========================================
 -- 19. Schema Metadata Table
 -- ===========================================
@@ -712,6 +1157,15 @@ VALUES (1, 'admin', '163beddad7f19c8e18fae17fee42bf8c9a4e2f156d460d2d42e1ecfa40f
 INSERT OR IGNORE INTO users (id, username, password_hash, role)
 VALUES (2, 'guest', '369a85abf5be438e8d598ede77a8efabff97669c483efaa2ca0a29f749d83f22', 'guest');
 
+-- Default workspace: admin owns it, guest reads it
+INSERT OR IGNORE INTO workspaces (id, name, owner_user_id)
+VALUES (1, 'admin 的工作区', 1);
+
+INSERT OR IGNORE INTO workspace_members (workspace_id, user_id, role)
+VALUES
+  (1, 1, 'owner'),
+  (1, 2, 'reader');
+
 -- Default settings for admin user
 INSERT OR IGNORE INTO settings (user_id, key, value)
 VALUES
@@ -0,0 +1,52 @@
+-- ===========================================
+-- 44. RSS 条件请求（ETag / Last-Modified）
+-- ===========================================
+-- 为 rss_sources 记录上次响应的缓存校验器，后续抓取时携带
+-- If-None-Match / If-Modified-Since；服务端返回 304 时记为
+-- rss_fetch_logs.status = 'not_modified'，跳过解析、去重和过滤。
+-- ===========================================
+
+PRAGMA foreign_keys = OFF;
+
+-- ===========================================
+-- 1. rss_sources 增加缓存校验器字段
+-- ===========================================
+ALTER TABLE rss_sources ADD COLUMN etag TEXT;
+ALTER TABLE rss_sources ADD COLUMN last_modified TEXT;
+
+-- ===========================================
+-- 2. 重建 rss_fetch_logs，status 增加 'not_modified'
+-- ===========================================
+CREATE TABLE IF NOT EXISTS rss_fetch_logs_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  rss_source_id INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK(status IN ('success', 'failed', 'partial', 'not_modified')),
+  articles_count INTEGER DEFAULT 0,
+  new_articles_count INTEGER DEFAULT 0,
+  duration_ms INTEGER DEFAULT 0,
+  is_scheduled INTEGER DEFAULT 0,
+  error_message TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (rss_source_id) REFERENCES rss_sources(id) ON DELETE CASCADE
+);
+
+INSERT INTO rss_fetch_logs_new (
+  id, user_id, rss_source_id, status, articles_count, new_articles_count,
+  duration_ms, is_scheduled, error_message, created_at
+)
+SELECT
+  id, user_id, rss_source_id, status, articles_count, new_articles_count,
+  duration_ms, is_scheduled, error_message, created_at
+FROM rss_fetch_logs;
+
+DROP TABLE rss_fetch_logs;
+ALTER TABLE rss_fetch_logs_new RENAME TO rss_fetch_logs;
+
+CREATE INDEX IF NOT EXISTS idx_rss_fetch_logs_user_id ON rss_fetch_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_rss_fetch_logs_rss_source_id ON rss_fetch_logs(rss_source_id);
+CREATE INDEX IF NOT EXISTS idx_rss_fetch_logs_status ON rss_fetch_logs(status);
+CREATE INDEX IF NOT EXISTS idx_rss_fetch_logs_created_at ON rss_fetch_logs(created_at);
+
+PRAGMA foreign_keys = ON;
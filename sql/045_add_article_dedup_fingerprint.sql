@@ -0,0 +1,47 @@
+-- ===========================================
+-- 45. 文章去重指纹（GUID / 规范化 URL / 内容哈希）与跨源关联
+-- ===========================================
+-- articles / rejected_articles 增加去重指纹字段：
+--   - guid：RSS <guid> / Atom <id>
+--   - canonical_url：去除跟踪参数后的规范化 URL
+--   - content_hash：规范化标题 + 摘要的 SHA-256
+-- 新增 article_source_links：同一篇文章被其他来源再次收录时，
+-- 不再重复入库，而是记录一条关联。
+-- canonical_url 的历史数据由 scripts/migrate.ts 回填。
+-- ===========================================
+
+ALTER TABLE articles ADD COLUMN guid TEXT;
+ALTER TABLE articles ADD COLUMN canonical_url TEXT;
+ALTER TABLE articles ADD COLUMN content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_articles_guid ON articles(guid) WHERE guid IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_articles_canonical_url ON articles(canonical_url) WHERE canonical_url IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_articles_content_hash ON articles(content_hash) WHERE content_hash IS NOT NULL;
+
+ALTER TABLE rejected_articles ADD COLUMN guid TEXT;
+ALTER TABLE rejected_articles ADD COLUMN canonical_url TEXT;
+ALTER TABLE rejected_articles ADD COLUMN content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_rejected_articles_title_normalized ON rejected_articles(title_normalized);
+CREATE INDEX IF NOT EXISTS idx_rejected_articles_canonical_url ON rejected_articles(canonical_url) WHERE canonical_url IS NOT NULL;
+
+-- ===========================================
+-- article_source_links：跨源重复文章关联
+-- ===========================================
+-- source_origin + source_id 指向再次收录该文章的来源
+-- matched_by 记录命中的去重规则
+CREATE TABLE IF NOT EXISTS article_source_links (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  article_id INTEGER NOT NULL,
+  source_origin TEXT NOT NULL CHECK(source_origin IN ('rss', 'journal', 'keyword', 'email', 'web')),
+  source_id INTEGER NOT NULL,
+  url TEXT,
+  guid TEXT,
+  matched_by TEXT NOT NULL CHECK(matched_by IN ('guid', 'url', 'content_hash', 'title')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+  UNIQUE(article_id, source_origin, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_source_links_article_id ON article_source_links(article_id);
+CREATE INDEX IF NOT EXISTS idx_article_source_links_source ON article_source_links(source_origin, source_id);
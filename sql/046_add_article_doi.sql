@@ -0,0 +1,12 @@
+-- ===========================================
+-- 46. 文章 DOI
+-- ===========================================
+-- RSS 出版商 feed（PRISM / Dublin Core）与期刊爬虫均可提供 DOI，
+-- 与 published_volume / published_issue 一起保存。
+-- 存储规范化后的裸 DOI（小写，如 10.1016/j.ipm.2024.103000）。
+-- ===========================================
+
+ALTER TABLE articles ADD COLUMN doi TEXT;
+ALTER TABLE rejected_articles ADD COLUMN doi TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_articles_doi ON articles(doi) WHERE doi IS NOT NULL;
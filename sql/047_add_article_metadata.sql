@@ -0,0 +1,98 @@
+-- Migration: 047_add_article_metadata.sql
+-- Description: 文章书目元数据规范化存储（作者 / 标识符 / 关键词）
+--              - article_authors：作者（保留顺序与单位）
+--              - article_identifiers：DOI 等外部标识符（用于按 DOI 去重）
+--              - article_keywords：作者关键词 / feed 分类
+--              - article_source_links.matched_by 增加 'doi'
+-- Date: 2026-10-19
+
+PRAGMA foreign_keys = OFF;
+
+-- ===========================================
+-- 1. article_authors
+-- ===========================================
+CREATE TABLE IF NOT EXISTS article_authors (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  article_id INTEGER NOT NULL,
+  position INTEGER NOT NULL,                 -- 作者顺序（从 0 开始）
+  name TEXT NOT NULL,
+  name_normalized TEXT NOT NULL,             -- 小写、折叠空白，用于按作者检索
+  affiliation TEXT,                          -- 作者单位
+  orcid TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+  UNIQUE(article_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_authors_article_id ON article_authors(article_id);
+CREATE INDEX IF NOT EXISTS idx_article_authors_name_normalized ON article_authors(name_normalized);
+
+-- ===========================================
+-- 2. article_identifiers
+-- ===========================================
+CREATE TABLE IF NOT EXISTS article_identifiers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  article_id INTEGER NOT NULL,
+  scheme TEXT NOT NULL CHECK(scheme IN ('doi', 'pmid', 'arxiv', 'isbn', 'issn', 'cnki')),
+  value TEXT NOT NULL,                       -- 规范化后的值（DOI 为小写裸 DOI）
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+  UNIQUE(article_id, scheme, value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_identifiers_article_id ON article_identifiers(article_id);
+CREATE INDEX IF NOT EXISTS idx_article_identifiers_value ON article_identifiers(scheme, value);
+
+-- ===========================================
+-- 3. article_keywords
+-- ===========================================
+CREATE TABLE IF NOT EXISTS article_keywords (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  article_id INTEGER NOT NULL,
+  keyword TEXT NOT NULL,
+  keyword_normalized TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'author' CHECK(source IN ('author', 'feed')),  -- author: 作者关键词, feed: RSS 分类
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+  UNIQUE(article_id, keyword_normalized)
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_keywords_article_id ON article_keywords(article_id);
+CREATE INDEX IF NOT EXISTS idx_article_keywords_keyword_normalized ON article_keywords(keyword_normalized);
+
+-- ===========================================
+-- 4. 回填已有 DOI
+-- ===========================================
+INSERT OR IGNORE INTO article_identifiers (article_id, scheme, value)
+SELECT id, 'doi', doi FROM articles WHERE doi IS NOT NULL AND doi != '';
+
+-- ===========================================
+-- 5. 重建 article_source_links，matched_by 增加 'doi'
+-- ===========================================
+CREATE TABLE IF NOT EXISTS article_source_links_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  article_id INTEGER NOT NULL,
+  source_origin TEXT NOT NULL CHECK(source_origin IN ('rss', 'journal', 'keyword', 'email', 'web')),
+  source_id INTEGER NOT NULL,
+  url TEXT,
+  guid TEXT,
+  matched_by TEXT NOT NULL CHECK(matched_by IN ('doi', 'guid', 'url', 'content_hash', 'title')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+  UNIQUE(article_id, source_origin, source_id)
+);
+
+INSERT INTO article_source_links_new (
+  id, article_id, source_origin, source_id, url, guid, matched_by, created_at
+)
+SELECT
+  id, article_id, source_origin, source_id, url, guid, matched_by, created_at
+FROM article_source_links;
+
+DROP TABLE article_source_links;
+ALTER TABLE article_source_links_new RENAME TO article_source_links;
+
+CREATE INDEX IF NOT EXISTS idx_article_source_links_article_id ON article_source_links(article_id);
+CREATE INDEX IF NOT EXISTS idx_article_source_links_source ON article_source_links(source_origin, source_id);
+
+PRAGMA foreign_keys = ON;
@@ -0,0 +1,49 @@
+-- Migration: 048_add_article_enrichment.sql
+-- Description: 书目元数据补全（enrich 阶段）
+--              - articles 增加 venue / citation_count / oa_pdf_url / enriched_at
+--              - article_process_logs.stage 增加 'enrich'
+-- Date: 2026-10-19
+
+PRAGMA foreign_keys = OFF;
+
+-- ===========================================
+-- 1. articles 补全字段
+-- ===========================================
+ALTER TABLE articles ADD COLUMN venue TEXT;                -- 期刊 / 会议名称
+ALTER TABLE articles ADD COLUMN citation_count INTEGER;    -- 被引次数（补全时的快照）
+ALTER TABLE articles ADD COLUMN oa_pdf_url TEXT;           -- 开放获取 PDF 链接
+ALTER TABLE articles ADD COLUMN enriched_at DATETIME;      -- 最近一次补全时间
+
+-- ===========================================
+-- 2. 重建 article_process_logs，stage 增加 'enrich'
+-- ===========================================
+CREATE TABLE IF NOT EXISTS article_process_logs_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  article_id INTEGER NOT NULL,
+  stage TEXT NOT NULL CHECK(stage IN ('enrich', 'markdown', 'translate', 'vector', 'related', 'pipeline_complete')),
+  status TEXT NOT NULL CHECK(status IN ('processing', 'completed', 'failed', 'skipped')),
+  duration_ms INTEGER,
+  error_message TEXT,
+  details TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE
+);
+
+INSERT INTO article_process_logs_new (
+  id, user_id, article_id, stage, status, duration_ms, error_message, details, created_at
+)
+SELECT
+  id, user_id, article_id, stage, status, duration_ms, error_message, details, created_at
+FROM article_process_logs;
+
+DROP TABLE article_process_logs;
+ALTER TABLE article_process_logs_new RENAME TO article_process_logs;
+
+CREATE INDEX IF NOT EXISTS idx_article_process_logs_user_id ON article_process_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_article_process_logs_article_id ON article_process_logs(article_id);
+CREATE INDEX IF NOT EXISTS idx_article_process_logs_stage ON article_process_logs(stage);
+CREATE INDEX IF NOT EXISTS idx_article_process_logs_created_at ON article_process_logs(created_at);
+
+PRAGMA foreign_keys = ON;
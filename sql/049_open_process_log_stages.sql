@@ -0,0 +1,36 @@
+-- Migration: 049_open_process_log_stages.sql
+-- Description: 流水线阶段改为插件注册，article_process_logs.stage 去掉固定取值的 CHECK 约束
+-- Date: 2026-10-19
+
+PRAGMA foreign_keys = OFF;
+
+CREATE TABLE IF NOT EXISTS article_process_logs_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  article_id INTEGER NOT NULL,
+  stage TEXT NOT NULL,       -- 流水线阶段名（插件注册）或 pipeline_complete
+  status TEXT NOT NULL CHECK(status IN ('processing', 'completed', 'failed', 'skipped')),
+  duration_ms INTEGER,
+  error_message TEXT,
+  details TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE
+);
+
+INSERT INTO article_process_logs_new (
+  id, user_id, article_id, stage, status, duration_ms, error_message, details, created_at
+)
+SELECT
+  id, user_id, article_id, stage, status, duration_ms, error_message, details, created_at
+FROM article_process_logs;
+
+DROP TABLE article_process_logs;
+ALTER TABLE article_process_logs_new RENAME TO article_process_logs;
+
+CREATE INDEX IF NOT EXISTS idx_article_process_logs_user_id ON article_process_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_article_process_logs_article_id ON article_process_logs(article_id);
+CREATE INDEX IF NOT EXISTS idx_article_process_logs_stage ON article_process_logs(stage);
+CREATE INDEX IF NOT EXISTS idx_article_process_logs_created_at ON article_process_logs(created_at);
+
+PRAGMA foreign_keys = ON;
@@ -0,0 +1,27 @@
+-- Migration: 050_add_article_jobs.sql
+-- Description: 文章处理任务队列（持久化，支持租约 / 可见性超时 / 死信 / 重启恢复）
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS article_jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  article_id INTEGER NOT NULL,
+  source TEXT NOT NULL CHECK(source IN ('rss', 'journal', 'keyword', 'email', 'web', 'api', 'recovery')),  -- 入队来源
+  status TEXT NOT NULL DEFAULT 'queued' CHECK(status IN ('queued', 'leased', 'completed', 'dead')),     -- dead: 超过最大尝试次数（死信）
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  available_at DATETIME NOT NULL,            -- 最早可执行时间（失败重试退避）
+  lease_owner TEXT,                          -- 持有租约的 worker
+  lease_expires_at DATETIME,                 -- 租约到期时间（可见性超时）
+  last_error TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  completed_at DATETIME,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE
+);
+
+-- 同一篇文章同时只保留一个未完成的任务
+CREATE UNIQUE INDEX IF NOT EXISTS idx_article_jobs_active ON article_jobs(article_id) WHERE status IN ('queued', 'leased');
+CREATE INDEX IF NOT EXISTS idx_article_jobs_status ON article_jobs(status, available_at);
+CREATE INDEX IF NOT EXISTS idx_article_jobs_user_id ON article_jobs(user_id);
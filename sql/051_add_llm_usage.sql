@@ -0,0 +1,61 @@
+-- Migration: 051_add_llm_usage.sql
+-- Description: LLM 调用用量统计与月度预算
+--              - llm_configs 增加 input_price / output_price（每百万 token 价格，用于估算费用）
+--              - llm_usage：每次调用的 token 数、耗时、模型、配置 ID
+--              - llm_budgets：按用户 / 任务类型 / 配置的月度预算（超出后阻断或降级）
+-- Date: 2026-10-19
+
+-- ===========================================
+-- 1. llm_configs 价格
+-- ===========================================
+ALTER TABLE llm_configs ADD COLUMN input_price REAL;   -- 输入价格（每 1M tokens）
+ALTER TABLE llm_configs ADD COLUMN output_price REAL;  -- 输出价格（每 1M tokens）
+
+-- ===========================================
+-- 2. llm_usage
+-- ===========================================
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER,                           -- NULL: 环境变量配置且无用户上下文
+  config_id INTEGER,                         -- NULL: 环境变量配置
+  task_type TEXT,                            -- filter / translation / daily_summary / insights ...
+  label TEXT,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost REAL,                                 -- 按配置价格估算，未设置价格时为 NULL
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  streamed INTEGER NOT NULL DEFAULT 0,
+  success INTEGER NOT NULL DEFAULT 1,
+  error TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (config_id) REFERENCES llm_configs(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON llm_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_config_id ON llm_usage(config_id);
+
+-- ===========================================
+-- 3. llm_budgets
+-- ===========================================
+CREATE TABLE IF NOT EXISTS llm_budgets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  task_type TEXT,                            -- NULL: 所有任务
+  config_id INTEGER,                         -- NULL: 所有配置
+  monthly_token_limit INTEGER,               -- token 上限（与费用上限至少设置一个）
+  monthly_cost_limit REAL,                   -- 费用上限
+  action TEXT NOT NULL DEFAULT 'block' CHECK(action IN ('block', 'downgrade')),
+  downgrade_config_id INTEGER,               -- action = downgrade 时改用的配置
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (config_id) REFERENCES llm_configs(id) ON DELETE CASCADE,
+  FOREIGN KEY (downgrade_config_id) REFERENCES llm_configs(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_budgets_user_id ON llm_budgets(user_id);
@@ -0,0 +1,21 @@
+-- Migration: 052_add_user_api_tokens.sql
+-- Description: 用户级 API Token（替代共享的 CLI_API_KEY）
+--              - 只保存 token 的 SHA-256 哈希，明文仅在创建时返回一次
+--              - scopes：search:read / summary:write / notify:send（JSON 数组）
+--              - 支持过期时间与最近使用时间
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS user_api_tokens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,            -- SHA-256(token) hex
+  token_prefix TEXT NOT NULL,                 -- 明文前缀，用于在列表中识别
+  scopes TEXT NOT NULL DEFAULT '[]',          -- JSON 数组
+  expires_at DATETIME,                        -- NULL: 永不过期
+  last_used_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_api_tokens_user_id ON user_api_tokens(user_id);
@@ -0,0 +1,42 @@
+-- Migration: 053_add_workspaces.sql
+-- Description: 多用户工作区（替代 guest 固定读取 user 1 数据）
+--              - workspaces：工作区数据沿用所有者 user_id 的隔离（订阅源、主题领域、提示词、LLM 配置等）
+--              - workspace_members：成员角色 owner / editor / reader
+--              - 回填：每个非 guest 用户一个个人工作区；guest 用户以 reader 加入 user 1 的工作区（保持原有只读行为）
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  owner_user_id INTEGER NOT NULL UNIQUE,      -- 数据归属用户
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (owner_user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  workspace_id INTEGER NOT NULL,
+  user_id INTEGER NOT NULL,
+  role TEXT NOT NULL CHECK(role IN ('owner', 'editor', 'reader')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(workspace_id, user_id),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+
+-- 回填个人工作区
+INSERT OR IGNORE INTO workspaces (name, owner_user_id)
+SELECT username || ' 的工作区', id FROM users WHERE role IS NULL OR role != 'guest';
+
+INSERT OR IGNORE INTO workspace_members (workspace_id, user_id, role)
+SELECT id, owner_user_id, 'owner' FROM workspaces;
+
+-- guest 原先只读 user 1 的数据
+INSERT OR IGNORE INTO workspace_members (workspace_id, user_id, role)
+SELECT w.id, u.id, 'reader'
+FROM users u
+JOIN workspaces w ON w.owner_user_id = 1
+WHERE u.role = 'guest';
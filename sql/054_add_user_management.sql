@@ -0,0 +1,10 @@
+-- Migration: 054_add_user_management.sql
+-- Description: 用户管理与密码生命周期
+--              - disabled：禁用后无法登录，现有会话与 API 令牌立即失效
+--              - password_changed_at：修改 / 重置密码后，之前签发的会话失效
+--              - last_login_at：最近登录时间（用户管理页展示）
+-- Date: 2026-10-19
+
+ALTER TABLE users ADD COLUMN disabled INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN password_changed_at DATETIME;
+ALTER TABLE users ADD COLUMN last_login_at DATETIME;
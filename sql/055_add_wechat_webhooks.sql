@@ -0,0 +1,27 @@
+-- Migration: 055_add_wechat_webhooks.sql
+-- Description: 企业微信 webhook 从 config/wechat.yaml 迁入数据库
+--              - 按 user_id 隔离，推送只发往触发用户配置的 webhook（与 telegram_chats 一致）
+--              - webhook URL 含 key，使用 LLM_ENCRYPTION_KEY 加密存储（与 llm_configs.api_key_encrypted 相同）
+--              - url_hint 为脱敏后的展示值
+--              - 原 YAML 中的 webhook 由 scripts/migrate.ts 一次性导入第一个管理员
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS wechat_webhooks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  url_encrypted TEXT NOT NULL,
+  url_hint TEXT NOT NULL,
+  daily_summary_journal INTEGER DEFAULT 1,
+  daily_summary_blog_news INTEGER DEFAULT 1,
+  journal_all INTEGER DEFAULT 1,
+  new_articles INTEGER DEFAULT 1,
+  insights INTEGER DEFAULT 1,
+  pdf_summary INTEGER DEFAULT 1,
+  is_active INTEGER DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_wechat_webhooks_user_id ON wechat_webhooks(user_id);
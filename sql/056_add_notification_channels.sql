@@ -0,0 +1,27 @@
+-- Migration: 056_add_notification_channels.sql
+-- Description: 可插拔通知渠道（Slack / Discord / 通用 JSON Webhook / SMTP 邮件）
+--              - 按 user_id 隔离，与 telegram_chats / wechat_webhooks 一样逐渠道配置推送类型
+--              - 渠道配置（webhook URL、SMTP 密码等）整体序列化为 JSON 后用 LLM_ENCRYPTION_KEY 加密存储
+--              - config_hint 为脱敏后的展示值
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  type TEXT NOT NULL CHECK(type IN ('slack', 'discord', 'webhook', 'email')),
+  name TEXT NOT NULL,
+  config_encrypted TEXT NOT NULL,
+  config_hint TEXT NOT NULL DEFAULT '',
+  daily_summary_journal INTEGER DEFAULT 1,
+  daily_summary_blog_news INTEGER DEFAULT 1,
+  journal_all INTEGER DEFAULT 1,
+  new_articles INTEGER DEFAULT 1,
+  insights INTEGER DEFAULT 1,
+  pdf_summary INTEGER DEFAULT 1,
+  is_active INTEGER DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_channels_user_id ON notification_channels(user_id);
@@ -0,0 +1,32 @@
+-- Migration: 057_add_notification_deliveries.sql
+-- Description: 通知投递记录（outbox）
+--              - 每次推送按 (渠道, 接收者) 落一行，记录载荷哈希、状态、尝试次数与最后错误
+--              - idempotency_key = user:channel:recipient:event_type:event_key（总结为日期，文章为文章 ID），
+--                唯一约束保证重启 / 重复触发不会重复推送
+--              - 失败按指数退避重试（next_attempt_at），超过 max_attempts 后标记 failed
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  channel TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  recipient_name TEXT,
+  event_type TEXT NOT NULL,
+  event_key TEXT NOT NULL,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  payload_json TEXT NOT NULL,
+  payload_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at DATETIME,
+  last_error TEXT,
+  sent_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user_id ON notification_deliveries(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_status ON notification_deliveries(status, next_attempt_at);
@@ -0,0 +1,6 @@
+-- Migration: 058_telegram_chat_pause.sql
+-- Description: Telegram chat 添加 is_paused 字段（/pause、/resume 命令暂停推送）
+-- Date: 2026-10-19
+
+-- 暂停只影响主动推送，不影响 Bot 命令查询；推送开关保持不变，恢复后按原设置推送
+ALTER TABLE telegram_chats ADD COLUMN is_paused INTEGER DEFAULT 0;
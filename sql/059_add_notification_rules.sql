@@ -0,0 +1,40 @@
+-- Migration: 059_add_notification_rules.sql
+-- Description: 新增文章推送规则（按接收者）
+--              - notification_rules：按 (用户, 渠道, 接收者) 配置免打扰时段（用户时区）、摘要合并间隔、
+--                每小时推送上限、最低相关度分数与主题领域订阅；无规则的接收者逐篇即时推送
+--              - notification_digest_items：免打扰 / 合并 / 超过上限而暂缓的文章，
+--                由 NotificationDigestScheduler 到期后合并为一条摘要推送
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS notification_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  channel TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  quiet_hours_start TEXT,
+  quiet_hours_end TEXT,
+  digest_interval INTEGER NOT NULL DEFAULT 0,
+  max_per_hour INTEGER NOT NULL DEFAULT 0,
+  min_score REAL,
+  domain_ids TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE(user_id, channel, recipient)
+);
+
+CREATE TABLE IF NOT EXISTS notification_digest_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  channel TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  article_id INTEGER NOT NULL,
+  reason TEXT NOT NULL CHECK(reason IN ('quiet_hours', 'digest', 'rate_limit')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+  UNIQUE(user_id, channel, recipient, article_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_digest_items_recipient ON notification_digest_items(user_id, channel, recipient, created_at);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_recipient ON notification_deliveries(user_id, channel, recipient, created_at);
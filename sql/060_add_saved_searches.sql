@@ -0,0 +1,42 @@
+-- Migration: 060_add_saved_searches.sql
+-- Description: 订阅搜索（保存的搜索 + 新匹配收件箱）
+--              - saved_searches：命名保存的查询（模式、融合权重、语义分数阈值、过滤条件、推送渠道），
+--                last_checked_at 为已检查到的文章 processed_at 水位
+--              - saved_search_matches：每个订阅搜索的收件箱，同一文章只记录一次
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'hybrid' CHECK(mode IN ('semantic', 'keyword', 'hybrid')),
+  semantic_weight REAL NOT NULL DEFAULT 0.7,
+  keyword_weight REAL NOT NULL DEFAULT 0.3,
+  min_score REAL NOT NULL DEFAULT 0.5,
+  filters TEXT,
+  notify_channels TEXT,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  last_checked_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE(user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  saved_search_id INTEGER NOT NULL,
+  article_id INTEGER NOT NULL,
+  score REAL NOT NULL,
+  semantic_score REAL,
+  keyword_matched INTEGER NOT NULL DEFAULT 0,
+  is_read INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (saved_search_id) REFERENCES saved_searches(id) ON DELETE CASCADE,
+  FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+  UNIQUE(saved_search_id, article_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_inbox ON saved_search_matches(saved_search_id, is_read, created_at);
@@ -0,0 +1,51 @@
+-- Migration: 061_add_articles_fts.sql
+-- Description: 文章全文索引（FTS5）
+--              - articles_fts：title / title_zh / summary_zh / content（markdown_content），rowid = articles.id
+--              - trigram 分词：中英文统一按子串匹配（查询词至少 3 个字符，更短的词由应用层回退 LIKE），不区分大小写
+--              - 触发器随 articles / article_translations 的增删改同步，并回填现有文章
+-- Date: 2026-10-19
+
+CREATE VIRTUAL TABLE IF NOT EXISTS articles_fts USING fts5(
+  title,
+  title_zh,
+  summary_zh,
+  content,
+  tokenize = 'trigram'
+);
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_after_insert AFTER INSERT ON articles BEGIN
+  INSERT INTO articles_fts(rowid, title, title_zh, summary_zh, content)
+  VALUES (
+    NEW.id,
+    NEW.title,
+    (SELECT title_zh FROM article_translations WHERE article_id = NEW.id),
+    (SELECT summary_zh FROM article_translations WHERE article_id = NEW.id),
+    NEW.markdown_content
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_after_update AFTER UPDATE OF title, markdown_content ON articles BEGIN
+  UPDATE articles_fts SET title = NEW.title, content = NEW.markdown_content WHERE rowid = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_after_delete AFTER DELETE ON articles BEGIN
+  DELETE FROM articles_fts WHERE rowid = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_translation_after_insert AFTER INSERT ON article_translations BEGIN
+  UPDATE articles_fts SET title_zh = NEW.title_zh, summary_zh = NEW.summary_zh WHERE rowid = NEW.article_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_translation_after_update AFTER UPDATE OF title_zh, summary_zh ON article_translations BEGIN
+  UPDATE articles_fts SET title_zh = NEW.title_zh, summary_zh = NEW.summary_zh WHERE rowid = NEW.article_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_translation_after_delete AFTER DELETE ON article_translations BEGIN
+  UPDATE articles_fts SET title_zh = NULL, summary_zh = NULL WHERE rowid = OLD.article_id;
+END;
+
+INSERT INTO articles_fts(rowid, title, title_zh, summary_zh, content)
+SELECT a.id, a.title, t.title_zh, t.summary_zh, a.markdown_content
+FROM articles a
+LEFT JOIN article_translations t ON t.article_id = a.id
+WHERE a.id NOT IN (SELECT rowid FROM articles_fts);
@@ -0,0 +1,5 @@
+-- Migration: 062_add_deepsearch_task_filters.sql
+-- Description: deepsearch_tasks 增加 filters_json 字段（检索筛选条件，SearchFilters JSON）
+-- Date: 2026-10-19
+
+ALTER TABLE deepsearch_tasks ADD COLUMN filters_json TEXT;
@@ -0,0 +1,24 @@
+-- Migration: 063_add_vector_embeddings.sql
+-- Description: 嵌入式向量存储（向量存储后端为 sqlite 时使用，替代外部 ChromaDB 服务）
+--              - collection 对应 Chroma 的 collection 名称（settings.chroma_collection）
+--              - vector_id 与 Chroma 一致为 "{user_id}:{article_id}"
+--              - embedding 为 Float32 小端 BLOB，norm 为其 L2 范数（cosine 距离用）
+--              - metadata 为 JSON（article_id / user_id），document 为 buildVectorText 生成的文本
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS vector_embeddings (
+  collection TEXT NOT NULL,
+  vector_id TEXT NOT NULL,
+  user_id INTEGER NOT NULL,
+  article_id INTEGER NOT NULL,
+  dimensions INTEGER NOT NULL,
+  norm REAL NOT NULL,
+  embedding BLOB NOT NULL,
+  document TEXT NOT NULL DEFAULT '',
+  metadata TEXT NOT NULL DEFAULT '{}',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (collection, vector_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vector_embeddings_user_article ON vector_embeddings(collection, user_id, article_id);
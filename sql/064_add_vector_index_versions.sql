@@ -0,0 +1,38 @@
+-- Migration: 064_add_vector_index_versions.sql
+-- Description: 向量索引版本（embedding 模型迁移与全量重建）
+--              - 每个版本对应一个独立的物理集合（collection），记录后端、embedding 配置 / 模型、维度、
+--                buildVectorText 版本与距离度量；同一用户最多一个 active 版本，检索固定使用该版本
+--              - 重建任务进度：total / processed / failed，cursor_article_id 为断点续跑位置，
+--                batch_size / batch_delay_ms 为限速参数
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS vector_index_versions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  backend TEXT NOT NULL CHECK(backend IN ('chroma', 'sqlite')),
+  collection TEXT NOT NULL,
+  distance_metric TEXT NOT NULL DEFAULT 'cosine' CHECK(distance_metric IN ('cosine', 'l2', 'ip')),
+  embedding_config_id INTEGER,
+  embedding_model TEXT NOT NULL,
+  dimensions INTEGER,
+  text_version INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'building'
+    CHECK(status IN ('building', 'paused', 'completed', 'active', 'retired', 'cancelled', 'failed')),
+  total_articles INTEGER NOT NULL DEFAULT 0,
+  processed_articles INTEGER NOT NULL DEFAULT 0,
+  failed_articles INTEGER NOT NULL DEFAULT 0,
+  cursor_article_id INTEGER NOT NULL DEFAULT 0,
+  batch_size INTEGER NOT NULL DEFAULT 32,
+  batch_delay_ms INTEGER NOT NULL DEFAULT 1000,
+  error_message TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  completed_at DATETIME,
+  activated_at DATETIME,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (embedding_config_id) REFERENCES llm_configs(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_vector_index_versions_user_status ON vector_index_versions(user_id, status);
+-- 同一用户最多一个 active 版本（切换在事务内先退役旧版本再激活新版本）
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vector_index_versions_active ON vector_index_versions(user_id) WHERE status = 'active';
@@ -0,0 +1,36 @@
+-- Migration: 065_add_member_role.sql
+-- Description: 新增普通租户账户角色 member
+--              - admin：系统管理员（用户管理、全局配置）
+--              - member：普通租户，拥有个人工作区，但不能管理其他账户
+--              - guest：访客，只能查看被共享的工作区
+--              users.role 的 CHECK 约束无法 ALTER，需重建 users 表；新建账户默认 member。
+--              已有账户角色保持不变，升级后请在「用户管理」中把非系统管理员的租户改为 member。
+-- Date: 2026-10-19
+
+PRAGMA foreign_keys = OFF;
+
+BEGIN;
+
+CREATE TABLE users_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  username TEXT NOT NULL UNIQUE,
+  password_hash TEXT NOT NULL,
+  role TEXT DEFAULT 'member' CHECK(role IN ('admin', 'member', 'guest')),
+  disabled INTEGER NOT NULL DEFAULT 0,
+  password_changed_at DATETIME,
+  last_login_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO users_new (id, username, password_hash, role, disabled, password_changed_at, last_login_at, created_at, updated_at)
+SELECT id, username, password_hash, role, disabled, password_changed_at, last_login_at, created_at, updated_at FROM users;
+
+DROP TABLE users;
+ALTER TABLE users_new RENAME TO users;
+
+CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
+
+COMMIT;
+
+PRAGMA foreign_keys = ON;
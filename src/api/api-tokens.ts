@@ -0,0 +1,206 @@
+/**
+ * User API Token Service
+ *
+ * 用户级 API Token：外部调用（统一检索、CLI 总结、PDF 推送）以 token 鉴权，
+ * 由 token 确定所属用户，不再信任请求参数中的 user_id。
+ * 数据库只保存 SHA-256 哈希，明文仅在创建时返回一次。
+ */
+
+import crypto from 'crypto';
+import { getDb, type UserApiTokensSelection } from '../db.js';
+import { logger } from '../logger.js';
+import { normalizeDateFields } from '../utils/datetime.js';
+
+const log = logger.child({ module: 'api-tokens' });
+
+/* ── Types ── */
+
+export const API_TOKEN_SCOPES = ['search:read', 'summary:write', 'notify:send'] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+/** 明文 token 前缀，便于在日志 / 密钥扫描中识别 */
+const TOKEN_PREFIX = 'rsst_';
+/** 列表中展示的明文长度（含前缀） */
+const DISPLAY_PREFIX_LENGTH = 12;
+/** last_used_at 写入节流，避免每次请求都写库 */
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export interface ApiTokenRecord {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+  expired: boolean;
+}
+
+export interface CreateApiTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+  /** ISO 时间；null / 未提供为永不过期 */
+  expiresAt?: string | null;
+}
+
+/**
+ * Result of verifying a presented token
+ */
+export interface VerifiedApiToken {
+  tokenId: number;
+  userId: number;
+  scopes: ApiTokenScope[];
+}
+
+/* ── Helpers ── */
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === 'string' && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function parseScopes(raw: string): ApiTokenScope[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isApiTokenScope) : [];
+  } catch {
+    return [];
+  }
+}
+
+function isExpired(expiresAt: string | null, now = Date.now()): boolean {
+  return expiresAt !== null && new Date(expiresAt).getTime() <= now;
+}
+
+function toRecord(row: UserApiTokensSelection): ApiTokenRecord {
+  const normalized = normalizeDateFields({ ...row }, ['expires_at', 'last_used_at', 'created_at']);
+  return {
+    id: normalized.id,
+    name: normalized.name,
+    tokenPrefix: normalized.token_prefix,
+    scopes: parseScopes(normalized.scopes),
+    expiresAt: normalized.expires_at,
+    lastUsedAt: normalized.last_used_at,
+    createdAt: normalized.created_at,
+    expired: isExpired(normalized.expires_at),
+  };
+}
+
+/* ── CRUD ── */
+
+/**
+ * List tokens of a user (without secrets)
+ */
+export async function getApiTokens(userId: number): Promise<ApiTokenRecord[]> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom('user_api_tokens')
+    .where('user_id', '=', userId)
+    .selectAll()
+    .orderBy('created_at', 'desc')
+    .orderBy('id', 'desc')
+    .execute();
+
+  return rows.map(toRecord);
+}
+
+/**
+ * Mint a new token
+ * @returns Token record plus the plaintext token (shown only once)
+ */
+export async function createApiToken(
+  userId: number,
+  input: CreateApiTokenInput
+): Promise<{ token: string; record: ApiTokenRecord }> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('name is required');
+  }
+  const scopes = [...new Set(input.scopes)];
+  if (scopes.length === 0 || !scopes.every(isApiTokenScope)) {
+    throw new Error(`scopes is required (${API_TOKEN_SCOPES.join(', ')})`);
+  }
+
+  let expiresAt: string | null = null;
+  if (input.expiresAt) {
+    const time = new Date(input.expiresAt).getTime();
+    if (Number.isNaN(time) || time <= Date.now()) {
+      throw new Error('expiresAt must be a future date');
+    }
+    expiresAt = new Date(time).toISOString();
+  }
+
+  const token = TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const db = getDb();
+  const row = await db
+    .insertInto('user_api_tokens')
+    .values({
+      user_id: userId,
+      name,
+      token_hash: hashApiToken(token),
+      token_prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: JSON.stringify(scopes),
+      expires_at: expiresAt,
+      last_used_at: null,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  log.info({ userId, tokenId: row.id, scopes }, 'API token created');
+  return { token, record: toRecord(row) };
+}
+
+/**
+ * Revoke (delete) a token
+ */
+export async function revokeApiToken(id: number, userId: number): Promise<void> {
+  const db = getDb();
+  const result = await db
+    .deleteFrom('user_api_tokens')
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .executeTakeFirst();
+
+  if (Number(result.numDeletedRows) === 0) {
+    throw new Error('API token not found');
+  }
+  log.info({ userId, tokenId: id }, 'API token revoked');
+}
+
+/* ── Verification ── */
+
+/**
+ * Verify a presented token and update last_used_at
+ * @returns null when the token is unknown or expired
+ */
+export async function verifyApiToken(token: string): Promise<VerifiedApiToken | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  const db = getDb();
+  const row = await db
+    .selectFrom('user_api_tokens')
+    .where('token_hash', '=', hashApiToken(token))
+    .select(['id', 'user_id', 'scopes', 'expires_at', 'last_used_at'])
+    .executeTakeFirst();
+
+  if (!row) return null;
+
+  const now = Date.now();
+  const normalized = normalizeDateFields({ ...row }, ['expires_at', 'last_used_at']);
+  if (isExpired(normalized.expires_at, now)) return null;
+
+  const lastUsed = normalized.last_used_at ? new Date(normalized.last_used_at).getTime() : 0;
+  if (now - lastUsed >= TOUCH_INTERVAL_MS) {
+    await db
+      .updateTable('user_api_tokens')
+      .set({ last_used_at: new Date(now).toISOString() })
+      .where('id', '=', row.id)
+      .execute()
+      .catch((error) => log.warn({ error, tokenId: row.id }, 'Failed to update API token last_used_at'));
+  }
+
+  return { tokenId: row.id, userId: row.user_id, scopes: parseScopes(row.scopes) };
+}
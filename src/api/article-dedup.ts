@@ -0,0 +1,244 @@
+/**
+ * Article Dedup Service
+ *
+ * 所有入库来源（RSS / 期刊 / 关键词 / 邮件 / 网页）共用的去重层。
+ * 匹配顺序：DOI → guid → 规范化 URL → 内容哈希 → 规范化标题，
+ * 同时检查 rejected_articles 归档表，避免已清理的拒绝文章被重新收录。
+ * 命中其他来源已收录的文章时，记录到 article_source_links，而不是重复入库。
+ */
+
+import { getDb, type ArticleSourceLinksSelection } from '../db.js';
+import { logger } from '../logger.js';
+import type { ArticleFingerprint } from '../utils/article-fingerprint.js';
+import { normalizeDateFields } from '../utils/datetime.js';
+
+const log = logger.child({ module: 'article-dedup' });
+
+export type ArticleSourceOrigin = 'rss' | 'journal' | 'keyword' | 'email' | 'web';
+
+export type DuplicateMatchType = 'doi' | 'guid' | 'url' | 'content_hash' | 'title';
+
+/**
+ * Source that is ingesting an article
+ */
+export interface ArticleSourceRef {
+  origin: ArticleSourceOrigin;
+  sourceId: number;
+}
+
+/**
+ * Dedup match result
+ */
+export interface DuplicateMatch {
+  articleId: number;
+  matchedBy: DuplicateMatchType;
+  // 命中的是 rejected_articles 归档（原文章已不在 articles 表）
+  archived: boolean;
+  // 命中文章的来源（归档命中时为 null）
+  source: ArticleSourceRef | null;
+}
+
+type ArticleSourceColumns = {
+  id: number;
+  source_origin: ArticleSourceOrigin;
+  rss_source_id: number | null;
+  journal_id: number | null;
+  keyword_id: number | null;
+  email_source_id: number | null;
+  web_source_id: number | null;
+};
+
+function resolveSourceRef(row: ArticleSourceColumns): ArticleSourceRef | null {
+  const sourceIdByOrigin: Record<ArticleSourceOrigin, number | null> = {
+    rss: row.rss_source_id,
+    journal: row.journal_id,
+    keyword: row.keyword_id,
+    email: row.email_source_id,
+    web: row.web_source_id,
+  };
+  const sourceId = sourceIdByOrigin[row.source_origin];
+  return sourceId != null ? { origin: row.source_origin, sourceId } : null;
+}
+
+/**
+ * Find an existing article matching the fingerprint
+ * @param fingerprint - Incoming article fingerprint
+ * @param url - Raw URL of the incoming article (exact match fallback)
+ * @returns Match or null if the article is new
+ */
+export async function findDuplicateArticle(
+  fingerprint: ArticleFingerprint,
+  url?: string | null
+): Promise<DuplicateMatch | null> {
+  const db = getDb();
+
+  // DOI 保存在 article_identifiers 中
+  if (fingerprint.doi) {
+    const existing = await db
+      .selectFrom('article_identifiers')
+      .innerJoin('articles', 'articles.id', 'article_identifiers.article_id')
+      .where('article_identifiers.scheme', '=', 'doi')
+      .where('article_identifiers.value', '=', fingerprint.doi)
+      .select([
+        'articles.id',
+        'articles.source_origin',
+        'articles.rss_source_id',
+        'articles.journal_id',
+        'articles.keyword_id',
+        'articles.email_source_id',
+        'articles.web_source_id',
+      ])
+      .executeTakeFirst();
+
+    if (existing) {
+      return {
+        articleId: existing.id,
+        matchedBy: 'doi',
+        archived: false,
+        source: resolveSourceRef(existing),
+      };
+    }
+  }
+
+  const candidates: Array<{ matchedBy: DuplicateMatchType; column: 'guid' | 'canonical_url' | 'url' | 'content_hash' | 'title_normalized'; value: string | null | undefined }> = [
+    { matchedBy: 'guid', column: 'guid', value: fingerprint.guid },
+    { matchedBy: 'url', column: 'canonical_url', value: fingerprint.canonicalUrl },
+    { matchedBy: 'url', column: 'url', value: url?.trim() },
+    { matchedBy: 'content_hash', column: 'content_hash', value: fingerprint.contentHash },
+    { matchedBy: 'title', column: 'title_normalized', value: fingerprint.titleNormalized },
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate.value) continue;
+
+    const existing = await db
+      .selectFrom('articles')
+      .where(candidate.column, '=', candidate.value)
+      .select([
+        'id',
+        'source_origin',
+        'rss_source_id',
+        'journal_id',
+        'keyword_id',
+        'email_source_id',
+        'web_source_id',
+      ])
+      .executeTakeFirst();
+
+    if (existing) {
+      return {
+        articleId: existing.id,
+        matchedBy: candidate.matchedBy,
+        archived: false,
+        source: resolveSourceRef(existing),
+      };
+    }
+  }
+
+  // rejected_articles 归档：只按 DOI、URL 和标题匹配（归档不保留来源关联）
+  const archivedCandidates: Array<{ matchedBy: DuplicateMatchType; column: 'doi' | 'canonical_url' | 'url' | 'title_normalized'; value: string | null | undefined }> = [
+    { matchedBy: 'doi', column: 'doi', value: fingerprint.doi },
+    ...candidates.filter(
+      (c): c is typeof c & { column: 'canonical_url' | 'url' | 'title_normalized' } =>
+        c.column === 'canonical_url' || c.column === 'url' || c.column === 'title_normalized'
+    ),
+  ];
+  for (const candidate of archivedCandidates) {
+    if (!candidate.value) continue;
+
+    const archived = await db
+      .selectFrom('rejected_articles')
+      .where(candidate.column, '=', candidate.value)
+      .select('id')
+      .executeTakeFirst();
+
+    if (archived) {
+      return {
+        articleId: archived.id,
+        matchedBy: candidate.matchedBy,
+        archived: true,
+        source: null,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Link a cross-source duplicate to the article that already holds it
+ * @returns true if a new link was recorded
+ */
+export async function linkDuplicateSource(
+  articleId: number,
+  source: ArticleSourceRef,
+  matchedBy: DuplicateMatchType,
+  item: { url?: string | null; guid?: string | null }
+): Promise<boolean> {
+  const db = getDb();
+
+  const result = await db
+    .insertInto('article_source_links')
+    .values({
+      article_id: articleId,
+      source_origin: source.origin,
+      source_id: source.sourceId,
+      url: item.url?.trim() || null,
+      guid: item.guid?.trim() || null,
+      matched_by: matchedBy,
+    })
+    .onConflict((oc) => oc.columns(['article_id', 'source_origin', 'source_id']).doNothing())
+    .executeTakeFirst();
+
+  const linked = Number(result.numInsertedOrUpdatedRows ?? 0) > 0;
+  if (linked) {
+    log.debug({ articleId, source, matchedBy }, 'Linked cross-source duplicate');
+  }
+  return linked;
+}
+
+/**
+ * Dedup entry point used by every ingester
+ *
+ * 返回 null 表示是新文章，调用方应继续入库；
+ * 否则为重复文章，调用方应跳过。跨源重复会自动记录关联。
+ */
+export async function resolveDuplicate(
+  fingerprint: ArticleFingerprint,
+  source: ArticleSourceRef,
+  item: { url?: string | null; guid?: string | null }
+): Promise<DuplicateMatch | null> {
+  const match = await findDuplicateArticle(fingerprint, item.url);
+  if (!match) return null;
+
+  const isSameSource =
+    match.source !== null &&
+    match.source.origin === source.origin &&
+    match.source.sourceId === source.sourceId;
+
+  if (!match.archived && !isSameSource) {
+    try {
+      await linkDuplicateSource(match.articleId, source, match.matchedBy, item);
+    } catch (error) {
+      log.warn({ error, articleId: match.articleId, source }, 'Failed to link duplicate source');
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Get other sources that also carried this article
+ */
+export async function getArticleSourceLinks(articleId: number): Promise<ArticleSourceLinksSelection[]> {
+  const db = getDb();
+
+  const links = await db
+    .selectFrom('article_source_links')
+    .where('article_id', '=', articleId)
+    .selectAll()
+    .orderBy('created_at', 'asc')
+    .execute();
+
+  return links.map((link) => normalizeDateFields(link as Record<string, any>, ['created_at'])) as ArticleSourceLinksSelection[];
+}
@@ -0,0 +1,494 @@
+/**
+ * Article Job Queue
+ *
+ * 文章处理任务持久化在 article_jobs 表中：
+ * - 入队：各抓取调度器在文章通过过滤后调用 enqueueArticleJob
+ * - 领取：worker 以租约方式领取（lease_owner + lease_expires_at），处理期间定期续约
+ * - 可见性超时：租约过期未续约的任务可被重新领取（进程崩溃、卡死）
+ * - 失败：按指数退避重新排队，超过 max_attempts 后进入死信（dead）
+ * - 重启恢复：启动时释放遗留租约，并为卡在 processing 的文章补入队
+ */
+
+import { getDb, type ArticleJobsSelection, type ArticleJobsTable } from '../db.js';
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { normalizeDateFields } from '../utils/datetime.js';
+
+const log = logger.child({ module: 'article-jobs' });
+
+export type ArticleJobSource = ArticleJobsTable['source'];
+export type ArticleJobStatus = ArticleJobsTable['status'];
+
+/**
+ * Enqueue input
+ */
+export interface EnqueueArticleJobInput {
+  articleId: number;
+  userId: number;
+  source: ArticleJobSource;
+  maxAttempts?: number;
+}
+
+export interface ArticleJobRecord extends ArticleJobsSelection {
+  article_title: string | null;
+}
+
+export interface ArticleJobStats {
+  queued: number;
+  leased: number;
+  completed: number;
+  dead: number;
+  // 排队中且至少失败过一次的任务
+  retrying: number;
+  oldestQueuedAt: string | null;
+}
+
+export interface ArticleJobQuery {
+  userId: number;
+  status?: ArticleJobStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface ArticleJobListResult {
+  jobs: ArticleJobRecord[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+type EnqueueListener = () => void;
+
+const enqueueListeners = new Set<EnqueueListener>();
+
+/**
+ * Subscribe to enqueue events (used by the worker to poll immediately)
+ * @returns Unsubscribe function
+ */
+export function onArticleJobEnqueued(listener: EnqueueListener): () => void {
+  enqueueListeners.add(listener);
+  return () => enqueueListeners.delete(listener);
+}
+
+/**
+ * Enqueue an article processing job
+ *
+ * 同一文章已有未完成任务时不会重复入队。
+ *
+ * @returns true if a new job was created
+ */
+export async function enqueueArticleJob(input: EnqueueArticleJobInput): Promise<boolean> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  const result = await db
+    .insertInto('article_jobs')
+    .orIgnore()
+    .values({
+      user_id: input.userId,
+      article_id: input.articleId,
+      source: input.source,
+      status: 'queued',
+      max_attempts: input.maxAttempts ?? config.jobQueueMaxAttempts,
+      available_at: now,
+      updated_at: now,
+    })
+    .executeTakeFirst();
+
+  const created = Number(result.numInsertedOrUpdatedRows ?? 0) > 0;
+  if (created) {
+    log.debug({ articleId: input.articleId, source: input.source }, 'Article job enqueued');
+    for (const listener of enqueueListeners) {
+      listener();
+    }
+  }
+  return created;
+}
+
+/**
+ * Lease available jobs
+ *
+ * 可领取：到期的 queued 任务，以及租约已过期的 leased 任务。
+ * 租约过期且尝试次数已用尽的任务直接进入死信。
+ *
+ * @param owner - Worker ID
+ * @param limit - Max jobs to lease
+ * @param visibilityTimeoutMs - Lease duration
+ */
+export async function leaseArticleJobs(
+  owner: string,
+  limit: number,
+  visibilityTimeoutMs: number
+): Promise<ArticleJobsSelection[]> {
+  if (limit <= 0) return [];
+
+  const db = getDb();
+
+  return db.transaction().execute(async (trx) => {
+    const now = new Date().toISOString();
+
+    await trx
+      .updateTable('article_jobs')
+      .set({
+        status: 'dead',
+        lease_owner: null,
+        lease_expires_at: null,
+        last_error: 'Lease expired after max attempts',
+        updated_at: now,
+      })
+      .where('status', '=', 'leased')
+      .where('lease_expires_at', '<=', now)
+      .whereRef('attempts', '>=', 'max_attempts')
+      .execute();
+
+    const candidates = await trx
+      .selectFrom('article_jobs')
+      .where((eb) => eb.or([
+        eb.and([
+          eb('status', '=', 'queued'),
+          eb('available_at', '<=', now),
+        ]),
+        eb.and([
+          eb('status', '=', 'leased'),
+          eb('lease_expires_at', '<=', now),
+        ]),
+      ]))
+      .select('id')
+      .orderBy('available_at')
+      .orderBy('id')
+      .limit(limit)
+      .execute();
+
+    if (candidates.length === 0) return [];
+
+    const ids = candidates.map((row) => row.id);
+    const leaseExpiresAt = new Date(Date.now() + visibilityTimeoutMs).toISOString();
+
+    await trx
+      .updateTable('article_jobs')
+      .set((eb) => ({
+        status: 'leased',
+        lease_owner: owner,
+        lease_expires_at: leaseExpiresAt,
+        attempts: eb('attempts', '+', 1),
+        updated_at: now,
+      }))
+      .where('id', 'in', ids)
+      .execute();
+
+    return trx
+      .selectFrom('article_jobs')
+      .where('id', 'in', ids)
+      .selectAll()
+      .orderBy('id')
+      .execute();
+  });
+}
+
+/**
+ * Extend a held lease (heartbeat)
+ * @returns false if the lease is no longer held by this worker
+ */
+export async function extendArticleJobLease(
+  jobId: number,
+  owner: string,
+  visibilityTimeoutMs: number
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db
+    .updateTable('article_jobs')
+    .set({
+      lease_expires_at: new Date(Date.now() + visibilityTimeoutMs).toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .where('id', '=', jobId)
+    .where('status', '=', 'leased')
+    .where('lease_owner', '=', owner)
+    .executeTakeFirst();
+
+  return Number(result.numUpdatedRows) > 0;
+}
+
+/**
+ * Mark a leased job as completed
+ */
+export async function completeArticleJob(jobId: number, owner: string): Promise<void> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  await db
+    .updateTable('article_jobs')
+    .set({
+      status: 'completed',
+      lease_owner: null,
+      lease_expires_at: null,
+      completed_at: now,
+      updated_at: now,
+    })
+    .where('id', '=', jobId)
+    .where('lease_owner', '=', owner)
+    .execute();
+}
+
+/**
+ * Record a failed attempt
+ *
+ * 未用尽尝试次数时按 retryDelay * 2^(attempts-1) 退避后重新排队，否则进入死信。
+ *
+ * @returns Resulting job status
+ */
+export async function failArticleJob(
+  jobId: number,
+  owner: string,
+  error: string
+): Promise<ArticleJobStatus | null> {
+  const db = getDb();
+
+  const job = await db
+    .selectFrom('article_jobs')
+    .where('id', '=', jobId)
+    .where('lease_owner', '=', owner)
+    .select(['attempts', 'max_attempts'])
+    .executeTakeFirst();
+
+  if (!job) return null;
+
+  const now = new Date();
+  const exhausted = job.attempts >= job.max_attempts;
+  const delay = config.jobQueueRetryDelay * Math.pow(2, Math.max(job.attempts - 1, 0));
+
+  await db
+    .updateTable('article_jobs')
+    .set({
+      status: exhausted ? 'dead' : 'queued',
+      available_at: exhausted ? now.toISOString() : new Date(now.getTime() + delay).toISOString(),
+      lease_owner: null,
+      lease_expires_at: null,
+      last_error: error.slice(0, 2000),
+      updated_at: now.toISOString(),
+    })
+    .where('id', '=', jobId)
+    .execute();
+
+  return exhausted ? 'dead' : 'queued';
+}
+
+/**
+ * Release all leases held by previous processes
+ *
+ * 单进程部署：启动时所有 leased 任务都来自上一次运行，直接放回队列。
+ *
+ * @returns Number of released jobs
+ */
+export async function releaseStaleArticleJobLeases(currentOwner: string): Promise<number> {
+  const db = getDb();
+  const result = await db
+    .updateTable('article_jobs')
+    .set({
+      status: 'queued',
+      lease_owner: null,
+      lease_expires_at: null,
+      available_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .where('status', '=', 'leased')
+    .where((eb) => eb.or([
+      eb('lease_owner', 'is', null),
+      eb('lease_owner', '!=', currentOwner),
+    ]))
+    .executeTakeFirst();
+
+  return Number(result.numUpdatedRows);
+}
+
+/**
+ * Enqueue articles stuck in process_status='processing' without an active job
+ *
+ * 进程在处理途中退出会留下 processing 状态的文章，这里为其补建任务。
+ *
+ * @returns Number of enqueued articles
+ */
+export async function enqueueStuckArticles(): Promise<number> {
+  const db = getDb();
+
+  const stuck = await db
+    .selectFrom('articles')
+    .leftJoin('rss_sources', 'rss_sources.id', 'articles.rss_source_id')
+    .leftJoin('journals', 'journals.id', 'articles.journal_id')
+    .leftJoin('keyword_subscriptions', 'keyword_subscriptions.id', 'articles.keyword_id')
+    .leftJoin('email_sources', 'email_sources.id', 'articles.email_source_id')
+    .leftJoin('web_sources', 'web_sources.id', 'articles.web_source_id')
+    .where('articles.process_status', '=', 'processing')
+    .where((eb) => eb.not(eb.exists(
+      eb.selectFrom('article_jobs')
+        .whereRef('article_jobs.article_id', '=', 'articles.id')
+        .where('article_jobs.status', 'in', ['queued', 'leased'])
+        .select('article_jobs.id')
+    )))
+    .select((eb) => [
+      'articles.id',
+      eb.fn.coalesce(
+        'rss_sources.user_id',
+        'journals.user_id',
+        'keyword_subscriptions.user_id',
+        'email_sources.user_id',
+        'web_sources.user_id'
+      ).as('user_id'),
+    ])
+    .execute();
+
+  let enqueued = 0;
+  for (const article of stuck) {
+    if (article.user_id === null) continue;
+    if (await enqueueArticleJob({ articleId: article.id, userId: article.user_id, source: 'recovery' })) {
+      enqueued++;
+    }
+  }
+  return enqueued;
+}
+
+/**
+ * Delete completed jobs older than retention period
+ * @returns Number of deleted jobs
+ */
+export async function purgeCompletedArticleJobs(retentionDays: number): Promise<number> {
+  const db = getDb();
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const result = await db
+    .deleteFrom('article_jobs')
+    .where('status', '=', 'completed')
+    .where('completed_at', '<', cutoff)
+    .executeTakeFirst();
+
+  return Number(result.numDeletedRows);
+}
+
+/**
+ * Get queue statistics for a user
+ */
+export async function getArticleJobStats(userId: number): Promise<ArticleJobStats> {
+  const db = getDb();
+
+  const rows = await db
+    .selectFrom('article_jobs')
+    .where('user_id', '=', userId)
+    .select((eb) => [
+      'status',
+      eb.fn.countAll<number>().as('count'),
+      eb.fn.sum<number>(eb.case().when('attempts', '>', 0).then(1).else(0).end()).as('retrying'),
+      eb.fn.min('available_at').as('oldest'),
+    ])
+    .groupBy('status')
+    .execute();
+
+  const stats: ArticleJobStats = {
+    queued: 0,
+    leased: 0,
+    completed: 0,
+    dead: 0,
+    retrying: 0,
+    oldestQueuedAt: null,
+  };
+
+  for (const row of rows) {
+    stats[row.status] = Number(row.count);
+    if (row.status === 'queued') {
+      stats.retrying = Number(row.retrying ?? 0);
+      stats.oldestQueuedAt = row.oldest ?? null;
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * List jobs for a user (newest first)
+ */
+export async function getArticleJobs(query: ArticleJobQuery): Promise<ArticleJobListResult> {
+  const db = getDb();
+  const page = query.page ?? 1;
+  const limit = query.limit ?? 20;
+  const offset = (page - 1) * limit;
+
+  let baseQuery = db
+    .selectFrom('article_jobs')
+    .leftJoin('articles', 'articles.id', 'article_jobs.article_id')
+    .where('article_jobs.user_id', '=', query.userId);
+
+  if (query.status) {
+    baseQuery = baseQuery.where('article_jobs.status', '=', query.status);
+  }
+
+  const countRow = await baseQuery
+    .select((eb) => eb.fn.count('article_jobs.id').as('count'))
+    .executeTakeFirst();
+  const total = Number(countRow?.count ?? 0);
+
+  const jobs = await baseQuery
+    .selectAll('article_jobs')
+    .select('articles.title as article_title')
+    .orderBy('article_jobs.updated_at', 'desc')
+    .orderBy('article_jobs.id', 'desc')
+    .limit(limit)
+    .offset(offset)
+    .execute();
+
+  return {
+    jobs: jobs.map((job) => normalizeDateFields(job, ['created_at', 'updated_at', 'completed_at'])),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Re-queue a dead job
+ * @throws Error if job does not exist, belongs to another user or is not dead
+ */
+export async function retryDeadArticleJob(jobId: number, userId: number): Promise<void> {
+  const db = getDb();
+
+  const job = await db
+    .selectFrom('article_jobs')
+    .where('id', '=', jobId)
+    .where('user_id', '=', userId)
+    .select(['id', 'article_id', 'status'])
+    .executeTakeFirst();
+
+  if (!job) {
+    throw new Error('Job not found');
+  }
+  if (job.status !== 'dead') {
+    throw new Error('Only dead jobs can be retried');
+  }
+
+  const active = await db
+    .selectFrom('article_jobs')
+    .where('article_id', '=', job.article_id)
+    .where('status', 'in', ['queued', 'leased'])
+    .select('id')
+    .executeTakeFirst();
+  if (active) {
+    throw new Error('Article already has an active job');
+  }
+
+  const now = new Date().toISOString();
+  await db
+    .updateTable('article_jobs')
+    .set({
+      status: 'queued',
+      attempts: 0,
+      available_at: now,
+      last_error: null,
+      updated_at: now,
+    })
+    .where('id', '=', jobId)
+    .execute();
+
+  for (const listener of enqueueListeners) {
+    listener();
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Article Metadata Service
+ *
+ * 文章书目元数据（作者 / 标识符 / 关键词）的规范化存储。
+ * 各入库来源（RSS / 期刊 / 关键词 / 邮件）在插入文章后调用 saveArticleMetadata。
+ */
+
+import { getDb, type ArticleIdentifiersTable } from '../db.js';
+import { logger } from '../logger.js';
+import { normalizeDoi } from '../utils/doi.js';
+
+const log = logger.child({ module: 'article-metadata' });
+
+/**
+ * 单篇文章保存的作者数上限（防止异常数据）
+ */
+const MAX_AUTHORS = 100;
+
+/**
+ * 单篇文章保存的关键词数上限
+ */
+const MAX_KEYWORDS = 50;
+
+export type ArticleIdentifierScheme = ArticleIdentifiersTable['scheme'];
+
+/**
+ * Author input (plain name or structured)
+ */
+export interface ArticleAuthorInput {
+  name: string;
+  affiliation?: string | null;
+  orcid?: string | null;
+}
+
+/**
+ * Identifier input
+ */
+export interface ArticleIdentifierInput {
+  scheme: ArticleIdentifierScheme;
+  value: string | null | undefined;
+}
+
+/**
+ * Metadata input passed by ingesters
+ */
+export interface ArticleMetadataInput {
+  // 字符串会按分隔符拆分为多个作者
+  authors?: string | Array<string | ArticleAuthorInput> | null;
+  identifiers?: ArticleIdentifierInput[];
+  keywords?: string[] | null;
+  keywordSource?: 'author' | 'feed';
+}
+
+/**
+ * Stored article author
+ */
+export interface ArticleAuthor {
+  position: number;
+  name: string;
+  affiliation: string | null;
+  orcid: string | null;
+}
+
+/**
+ * Stored article metadata
+ */
+export interface ArticleMetadata {
+  authors: ArticleAuthor[];
+  identifiers: Array<{ scheme: ArticleIdentifierScheme; value: string }>;
+  keywords: Array<{ keyword: string; source: 'author' | 'feed' }>;
+}
+
+/**
+ * Normalize author name / keyword for lookup
+ * 小写、折叠空白
+ */
+export function normalizeMetadataText(value: string): string {
+  return value.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Split raw author string into individual names
+ *
+ * 支持的写法：
+ * - 中文期刊：`张三;李四`、`张三，李四`、`张三、李四`
+ * - 英文 feed：`Alice Smith, Bob Jones and Carol White`
+ * - 带单位角标：`张三1,2;李四*`（角标会被去除）
+ */
+export function splitAuthorList(raw: string | null | undefined): string[] {
+  if (!raw || typeof raw !== 'string') {
+    return [];
+  }
+
+  const text = raw.replace(/<[^>]+>/g, ' ').trim();
+  if (!text) return [];
+
+  // 优先使用强分隔符；没有时再按逗号 / and 拆分
+  const parts = /[;；、|]/.test(text)
+    ? text.split(/[;；、|]/)
+    : text.split(/\s*[,，]\s*|\s+(?:and|&)\s+/i);
+
+  return parts
+    .map((part) => part.replace(/[\d*†‡#]+$/, '').replace(/\s+/g, ' ').trim())
+    .filter((part) => part.length > 0 && part.length <= 200);
+}
+
+function normalizeIdentifier(scheme: ArticleIdentifierScheme, value: string | null | undefined): string | null {
+  if (!value || typeof value !== 'string') return null;
+  if (scheme === 'doi') return normalizeDoi(value);
+  const trimmed = value.trim();
+  return trimmed ? trimmed.substring(0, 200) : null;
+}
+
+function toAuthorInputs(authors: ArticleMetadataInput['authors']): ArticleAuthorInput[] {
+  if (!authors) return [];
+  if (typeof authors === 'string') {
+    return splitAuthorList(authors).map((name) => ({ name }));
+  }
+
+  const result: ArticleAuthorInput[] = [];
+  for (const author of authors) {
+    if (typeof author === 'string') {
+      result.push(...splitAuthorList(author).map((name) => ({ name })));
+    } else if (author && typeof author.name === 'string' && author.name.trim()) {
+      result.push({ ...author, name: author.name.trim() });
+    }
+  }
+  return result;
+}
+
+/**
+ * Save article metadata
+ *
+ * 元数据写入失败不影响文章本身入库（仅记录警告）。
+ *
+ * @param articleId - Article ID
+ * @param input - Authors / identifiers / keywords
+ */
+export async function saveArticleMetadata(articleId: number, input: ArticleMetadataInput): Promise<void> {
+  const db = getDb();
+
+  const authors = toAuthorInputs(input.authors).slice(0, MAX_AUTHORS);
+
+  const identifiers = (input.identifiers ?? [])
+    .map((identifier) => ({ scheme: identifier.scheme, value: normalizeIdentifier(identifier.scheme, identifier.value) }))
+    .filter((identifier): identifier is { scheme: ArticleIdentifierScheme; value: string } => identifier.value !== null);
+
+  const keywordSource = input.keywordSource ?? 'author';
+  const seenKeywords = new Set<string>();
+  const keywords: Array<{ keyword: string; normalized: string }> = [];
+  for (const raw of input.keywords ?? []) {
+    if (typeof raw !== 'string') continue;
+    const keyword = raw.replace(/\s+/g, ' ').trim();
+    const normalized = normalizeMetadataText(keyword);
+    if (!normalized || normalized.length > 200 || seenKeywords.has(normalized)) continue;
+    seenKeywords.add(normalized);
+    keywords.push({ keyword, normalized });
+    if (keywords.length >= MAX_KEYWORDS) break;
+  }
+
+  if (authors.length === 0 && identifiers.length === 0 && keywords.length === 0) {
+    return;
+  }
+
+  try {
+    if (authors.length > 0) {
+      await db
+        .insertInto('article_authors')
+        .values(authors.map((author, position) => ({
+          article_id: articleId,
+          position,
+          name: author.name,
+          name_normalized: normalizeMetadataText(author.name),
+          affiliation: author.affiliation?.trim() || null,
+          orcid: author.orcid?.trim() || null,
+        })))
+        .onConflict((oc) => oc.columns(['article_id', 'position']).doNothing())
+        .execute();
+    }
+
+    if (identifiers.length > 0) {
+      await db
+        .insertInto('article_identifiers')
+        .values(identifiers.map((identifier) => ({
+          article_id: articleId,
+          scheme: identifier.scheme,
+          value: identifier.value,
+        })))
+        .onConflict((oc) => oc.columns(['article_id', 'scheme', 'value']).doNothing())
+        .execute();
+    }
+
+    if (keywords.length > 0) {
+      await db
+        .insertInto('article_keywords')
+        .values(keywords.map((keyword) => ({
+          article_id: articleId,
+          keyword: keyword.keyword,
+          keyword_normalized: keyword.normalized,
+          source: keywordSource,
+        })))
+        .onConflict((oc) => oc.columns(['article_id', 'keyword_normalized']).doNothing())
+        .execute();
+    }
+  } catch (error) {
+    log.warn({ error, articleId }, 'Failed to save article metadata');
+  }
+}
+
+/**
+ * Get metadata for multiple articles
+ * @param articleIds - Article IDs
+ * @returns Map of article ID → metadata (articles without metadata get empty lists)
+ */
+export async function getArticlesMetadata(articleIds: number[]): Promise<Map<number, ArticleMetadata>> {
+  const result = new Map<number, ArticleMetadata>();
+  if (articleIds.length === 0) return result;
+
+  for (const id of articleIds) {
+    result.set(id, { authors: [], identifiers: [], keywords: [] });
+  }
+
+  const db = getDb();
+
+  const [authors, identifiers, keywords] = await Promise.all([
+    db
+      .selectFrom('article_authors')
+      .where('article_id', 'in', articleIds)
+      .select(['article_id', 'position', 'name', 'affiliation', 'orcid'])
+      .orderBy('article_id')
+      .orderBy('position')
+      .execute(),
+    db
+      .selectFrom('article_identifiers')
+      .where('article_id', 'in', articleIds)
+      .select(['article_id', 'scheme', 'value'])
+      .orderBy('id')
+      .execute(),
+    db
+      .selectFrom('article_keywords')
+      .where('article_id', 'in', articleIds)
+      .select(['article_id', 'keyword', 'source'])
+      .orderBy('id')
+      .execute(),
+  ]);
+
+  for (const { article_id, ...author } of authors) {
+    result.get(article_id)?.authors.push(author);
+  }
+  for (const { article_id, ...identifier } of identifiers) {
+    result.get(article_id)?.identifiers.push(identifier);
+  }
+  for (const { article_id, ...keyword } of keywords) {
+    result.get(article_id)?.keywords.push(keyword);
+  }
+
+  return result;
+}
+
+/**
+ * Get metadata for a single article
+ */
+export async function getArticleMetadata(articleId: number): Promise<ArticleMetadata> {
+  const metadata = await getArticlesMetadata([articleId]);
+  return metadata.get(articleId) ?? { authors: [], identifiers: [], keywords: [] };
+}
@@ -6,8 +6,10 @@
  * retrying failed articles, and retrieving processing statistics.
  */
 
-import { processArticle, processBatchArticles, retryFailedArticle, getArticleIdsByStatus, getPendingArticleIds, type ProcessResult, type ProcessStatusFilter } from '../pipeline.js';
+import { processArticle, processBatchArticles, retryFailedArticle, getArticleIdsByStatus, getPendingArticleIds, getOrderedStages, getStage, findArticlesForStageRerun, rerunStageForArticles, type ProcessResult, type ProcessStatusFilter, type StageRerunFilter, type StageStatus } from '../pipeline/index.js';
 import { getUserArticles, type ArticleWithSource } from './articles.js';
+import { getArticleJobStats, getArticleJobs, retryDeadArticleJob, type ArticleJobStatus } from './article-jobs.js';
+import { getArticleJobWorker } from '../job-worker.js';
 import { logger } from '../logger.js';
 import type { Request, Response } from 'express';
 import type { SourceType } from '../constants/source-types.js';
@@ -38,7 +40,7 @@ export interface BatchOptions {
  * POST /api/articles/:id/process
  */
 export async function triggerProcess(req: Request, res: Response): Promise<void> {
-  const userId = (req as any).userId;
+  const userId = (req as any).effectiveUserId;
   const idParam = req.params.id;
   const articleId = typeof idParam === 'string' ? parseInt(idParam, 10) : -1;
 
@@ -83,7 +85,7 @@ export async function triggerProcess(req: Request, res: Response): Promise<void>
  * }
  */
 export async function triggerBatchProcess(req: Request, res: Response): Promise<void> {
-  const userId = (req as any).userId;
+  const userId = (req as any).effectiveUserId;
   const options: BatchOptions = req.body || {};
   const limit = options.limit || 10;
   const status = options.processStatus || 'pending';
@@ -141,7 +143,7 @@ export async function triggerBatchProcess(req: Request, res: Response): Promise<
  * POST /api/articles/:id/retry
  */
 export async function retryArticle(req: Request, res: Response): Promise<void> {
-  const userId = (req as any).userId;
+  const userId = (req as any).effectiveUserId;
   const idParam = req.params.id;
   const articleId = typeof idParam === 'string' ? parseInt(idParam, 10) : -1;
 
@@ -179,7 +181,7 @@ export async function retryArticle(req: Request, res: Response): Promise<void> {
  * GET /api/articles/process-stats
  */
 export async function getProcessStats(req: Request, res: Response): Promise<void> {
-  const userId = (req as any).userId;
+  const userId = (req as any).effectiveUserId;
 
   try {
     // Get counts by status
@@ -212,7 +214,7 @@ export async function getProcessStats(req: Request, res: Response): Promise<void
  * - limit: number of articles to return (default: 20)
  */
 export async function getPendingArticles(req: Request, res: Response): Promise<void> {
-  const userId = (req as any).userId;
+  const userId = (req as any).effectiveUserId;
   const limit = parseInt(req.query.limit as string, 10) || 20;
 
   try {
@@ -244,7 +246,7 @@ export async function getPendingArticles(req: Request, res: Response): Promise<v
  * - limit: number of articles to return (default: 20)
  */
 export async function getFailedArticles(req: Request, res: Response): Promise<void> {
-  const userId = (req as any).userId;
+  const userId = (req as any).effectiveUserId;
   const limit = parseInt(req.query.limit as string, 10) || 20;
 
   try {
@@ -276,7 +278,7 @@ export async function getFailedArticles(req: Request, res: Response): Promise<vo
  * as well as articles that are ready for processing (filter_status=passed).
  */
 export async function filterAndProcessBatch(req: Request, res: Response): Promise<void> {
-  const userId = (req as any).userId;
+  const userId = (req as any).effectiveUserId;
   const options: BatchOptions = req.body || {};
 
   try {
@@ -528,3 +530,193 @@ export async function filterAndProcessBatch(req: Request, res: Response): Promis
     res.status(500).json({ error: errMsg });
   }
 }
+
+/**
+ * Parse positive integer ID list from request body
+ */
+function parseIdList(value: unknown): number[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const ids = value
+    .map((item) => (typeof item === 'number' ? item : parseInt(String(item), 10)))
+    .filter((id) => Number.isInteger(id) && id > 0);
+  return ids.length > 0 ? ids : undefined;
+}
+
+const STAGE_STATUSES: StageStatus[] = ['pending', 'processing', 'completed', 'failed', 'skipped'];
+const RERUN_PROCESS_STATUSES = ['pending', 'completed', 'failed'] as const;
+
+/**
+ * List registered pipeline stages.
+ * GET /api/articles/stages
+ */
+export async function listStages(_req: Request, res: Response): Promise<void> {
+  try {
+    const stages = getOrderedStages().map((stage) => ({
+      name: stage.name,
+      label: stage.label,
+      dependsOn: stage.dependsOn ?? [],
+      fatal: Boolean(stage.fatal),
+      maxRetries: stage.retry?.maxRetries ?? 0,
+      enabled: stage.isEnabled ? stage.isEnabled() : true,
+    }));
+
+    res.json({ stages });
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    log.error({ error: errMsg }, '[API] List stages failed');
+    res.status(500).json({ error: errMsg });
+  }
+}
+
+/**
+ * Re-run a single pipeline stage over a filtered set of articles.
+ * POST /api/articles/stages/:stage/rerun
+ *
+ * Body:
+ * {
+ *   articleIds?: number[];
+ *   rssSourceIds?: number[]; journalIds?: number[]; keywordIds?: number[];
+ *   emailSourceIds?: number[]; webSourceIds?: number[];
+ *   processStatus?: 'pending' | 'completed' | 'failed';
+ *   stageStatus?: StageStatus;   // Only articles whose target stage has this status
+ *   createdAfter?: string;       // YYYY-MM-DD
+ *   createdBefore?: string;      // YYYY-MM-DD
+ *   limit?: number;              // Default: 500, max: 5000
+ *   cascade?: boolean;           // Also re-run downstream stages
+ *   dryRun?: boolean;            // Only return matched article count
+ * }
+ */
+export async function triggerStageRerun(req: Request, res: Response): Promise<void> {
+  const userId = (req as any).effectiveUserId;
+  const stageName = typeof req.params.stage === 'string' ? req.params.stage : '';
+  const body = req.body || {};
+
+  if (!getStage(stageName)) {
+    res.status(404).json({ error: 'Stage not found' });
+    return;
+  }
+
+  if (body.processStatus !== undefined && !RERUN_PROCESS_STATUSES.includes(body.processStatus)) {
+    res.status(400).json({ error: 'Invalid processStatus' });
+    return;
+  }
+  if (body.stageStatus !== undefined && !STAGE_STATUSES.includes(body.stageStatus)) {
+    res.status(400).json({ error: 'Invalid stageStatus' });
+    return;
+  }
+
+  const filter: StageRerunFilter = {
+    articleIds: parseIdList(body.articleIds),
+    rssSourceIds: parseIdList(body.rssSourceIds),
+    journalIds: parseIdList(body.journalIds),
+    keywordIds: parseIdList(body.keywordIds),
+    emailSourceIds: parseIdList(body.emailSourceIds),
+    webSourceIds: parseIdList(body.webSourceIds),
+    processStatus: body.processStatus,
+    stageStatus: body.stageStatus,
+    createdAfter: typeof body.createdAfter === 'string' ? body.createdAfter : undefined,
+    createdBefore: typeof body.createdBefore === 'string' ? body.createdBefore : undefined,
+    limit: typeof body.limit === 'number' ? body.limit : undefined,
+  };
+  const cascade = body.cascade === true;
+
+  try {
+    const articleIds = await findArticlesForStageRerun(stageName, userId, filter);
+
+    if (body.dryRun === true || articleIds.length === 0) {
+      res.json({ success: true, stage: stageName, count: articleIds.length, dryRun: body.dryRun === true });
+      return;
+    }
+
+    log.info({ userId, stage: stageName, count: articleIds.length, cascade }, '[API] Trigger stage re-run');
+
+    // Process in background - don't await
+    rerunStageForArticles(stageName, articleIds, userId, { cascade })
+      .then((summary) => {
+        log.info({ userId, ...summary }, '[API] Stage re-run completed');
+      })
+      .catch((error) => {
+        log.error({ userId, stage: stageName, error: error.message }, '[API] Stage re-run failed');
+      });
+
+    res.json({
+      success: true,
+      stage: stageName,
+      count: articleIds.length,
+      message: `Stage "${stageName}" re-run started for ${articleIds.length} articles`,
+    });
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    log.error({ userId, stage: stageName, error: errMsg }, '[API] Trigger stage re-run failed');
+    res.status(500).json({ error: errMsg });
+  }
+}
+
+const JOB_STATUSES: ArticleJobStatus[] = ['queued', 'leased', 'completed', 'dead'];
+
+/**
+ * Get job queue depth, worker status and recent jobs.
+ * GET /api/articles/jobs?status=dead&page=1&limit=20
+ */
+export async function getJobQueue(req: Request, res: Response): Promise<void> {
+  const userId = (req as any).effectiveUserId;
+  const status = typeof req.query.status === 'string' && req.query.status ? req.query.status : undefined;
+
+  if (status !== undefined && !JOB_STATUSES.includes(status as ArticleJobStatus)) {
+    res.status(400).json({ error: 'Invalid status' });
+    return;
+  }
+
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const [stats, list] = await Promise.all([
+      getArticleJobStats(userId),
+      getArticleJobs({ userId, status: status as ArticleJobStatus | undefined, page, limit }),
+    ]);
+
+    res.json({
+      stats,
+      worker: getArticleJobWorker().getStatus(),
+      ...list,
+    });
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    log.error({ userId, error: errMsg }, '[API] Get job queue failed');
+    res.status(500).json({ error: errMsg });
+  }
+}
+
+/**
+ * Re-queue a dead (dead-lettered) job.
+ * POST /api/articles/jobs/:id/retry
+ */
+export async function retryJob(req: Request, res: Response): Promise<void> {
+  const userId = (req as any).effectiveUserId;
+  const idParam = req.params.id;
+  const jobId = typeof idParam === 'string' ? parseInt(idParam, 10) : -1;
+
+  if (isNaN(jobId) || jobId < 0) {
+    res.status(400).json({ error: 'Invalid job ID' });
+    return;
+  }
+
+  try {
+    await retryDeadArticleJob(jobId, userId);
+    log.info({ userId, jobId }, '[API] Dead job re-queued');
+    res.json({ success: true, message: 'Job re-queued' });
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    if (errMsg === 'Job not found') {
+      res.status(404).json({ error: errMsg });
+      return;
+    }
+    if (errMsg === 'Only dead jobs can be retried' || errMsg === 'Article already has an active job') {
+      res.status(400).json({ error: errMsg });
+      return;
+    }
+    log.error({ userId, jobId, error: errMsg }, '[API] Retry job failed');
+    res.status(500).json({ error: errMsg });
+  }
+}
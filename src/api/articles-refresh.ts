@@ -12,6 +12,7 @@
 import { getDb } from '../db.js';
 import { logger } from '../logger.js';
 import { refreshRelatedArticles } from './articles.js';
+import { getArticleMetadata } from './article-metadata.js';
 
 const log = logger.child({ module: 'articles-refresh' });
 
@@ -146,16 +147,19 @@ async function findMostSimilarToArticle(
   }
 
   // Import dynamically to avoid circular dependency
-  const { query: queryVector } = await import('../vector/vector-store.js');
+  const { queryByText } = await import('../vector/vector-store.js');
   const { buildVectorText } = await import('../vector/text-builder.js');
-  const { getEmbedding } = await import('../vector/embedding-client.js');
 
-  // Build query text and get embedding
-  const text = buildVectorText(article as any);
+  // Build query text and query the active index
+  const metadata = await getArticleMetadata(articleId);
+  const text = buildVectorText({
+    ...article,
+    authors: metadata.authors.map((a) => a.name),
+    keywords: metadata.keywords.map((k) => k.keyword),
+  } as any);
   if (!text) return [];
 
-  const embedding = await getEmbedding(text, userId);
-  const hits = await queryVector(userId, embedding, options.limit, {
+  const hits = await queryByText(userId, text, options.limit, {
     user_id: userId,
   });
 
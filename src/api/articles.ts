@@ -10,7 +10,10 @@ import { sql } from 'kysely';
 import { logger } from '../logger.js';
 import type { RSSFeedItem } from '../rss-parser.js';
 import { toSimpleMarkdown } from '../utils/markdown.js';
-import { generateNormalizedTitle } from '../utils/title.js';
+import { buildArticleFingerprint } from '../utils/article-fingerprint.js';
+import { resolveDuplicate } from './article-dedup.js';
+import { normalizeDoi } from '../utils/doi.js';
+import { saveArticleMetadata, getArticleMetadata, normalizeMetadataText, type ArticleMetadata } from './article-metadata.js';
 import { search, SearchMode } from '../vector/search.js';
 import { getUserTimezone, buildUtcRangeFromLocalDate } from './timezone.js';
 import { normalizeDateFields } from '../utils/datetime.js';
@@ -70,12 +73,20 @@ export interface ArticleWithSource {
   published_year: number | null;    // 年份（期刊文章使用）
   published_issue: number | null;   // 期号（期刊文章使用）
   published_volume: number | null;  // 卷号（期刊文章使用）
+  doi: string | null;               // 规范化 DOI
+  venue: string | null;             // 期刊 / 会议名称（enrich 阶段补全）
+  citation_count: number | null;    // 被引次数（enrich 阶段补全）
+  oa_pdf_url: string | null;        // 开放获取 PDF 链接（enrich 阶段补全）
   error_message: string | null;
   is_read: number;  // 0 = 未读, 1 = 已读
   source_origin: 'rss' | 'journal' | 'keyword' | 'email' | 'web';
   rating: number | null;  // 文章评级（1-5星）
   created_at: string;
   updated_at: string;
+  // 书目元数据（仅详情接口返回）
+  authors?: ArticleMetadata['authors'];
+  identifiers?: ArticleMetadata['identifiers'];
+  keywords?: ArticleMetadata['keywords'];
 }
 
 /**
@@ -170,39 +181,28 @@ export async function saveArticles(
         continue;
       }
 
-      // Generate normalized title for deduplication
-      const titleNormalized = generateNormalizedTitle(item.title);
-
-      // Check if title already exists (title-based deduplication)
-      if (titleNormalized) {
-        const exists = await db
-          .selectFrom('articles')
-          .where('title_normalized', '=', titleNormalized)
-          .select('id')
-          .executeTakeFirst();
-
-        if (exists) {
-          log.debug(
-            { rssSourceId, title: item.title, url: item.link, existingId: exists.id },
-            'Article title already exists, skipping'
-          );
-          continue;
-        }
-
-        // Also check rejected_articles archive (articles cleaned up by auto-cleanup)
-        const rejectedExists = await db
-          .selectFrom('rejected_articles')
-          .where('title_normalized', '=', titleNormalized)
-          .select('id')
-          .executeTakeFirst();
-
-        if (rejectedExists) {
-          log.debug(
-            { rssSourceId, title: item.title, url: item.link },
-            'Article title exists in rejected_articles (previously rejected and cleaned up), skipping'
-          );
-          continue;
-        }
+      // Fingerprint for deduplication (guid / canonical URL / content hash / title)
+      const fingerprint = buildArticleFingerprint({
+        title: item.title,
+        url: item.link,
+        guid: item.guid,
+        abstract: item.contentSnippet || item.description,
+        doi: item.doi,
+      });
+      const titleNormalized = fingerprint.titleNormalized;
+
+      const duplicate = await resolveDuplicate(
+        fingerprint,
+        { origin: 'rss', sourceId: rssSourceId },
+        { url: item.link, guid: item.guid }
+      );
+
+      if (duplicate) {
+        log.debug(
+          { rssSourceId, title: item.title, url: item.link, existingId: duplicate.articleId, matchedBy: duplicate.matchedBy, archived: duplicate.archived },
+          'Duplicate article, skipping'
+        );
+        continue;
       }
 
       // Insert new article and return the inserted ID
@@ -220,6 +220,9 @@ export async function saveArticles(
           title: item.title,
           title_normalized: titleNormalized,
           url: item.link,
+          guid: fingerprint.guid,
+          canonical_url: fingerprint.canonicalUrl,
+          content_hash: fingerprint.contentHash,
           // RSS 入库阶段不生成摘要（由后续 AI 分析生成）
           summary: null,
           // content 保存原始 RSS 文本，markdown_content 保存清洗后的 Markdown
@@ -229,6 +232,11 @@ export async function saveArticles(
           process_status: 'pending',
           created_at: now,
           published_at: item.pubDate ? new Date(item.pubDate).toISOString() : null,
+          // 出版商 feed 的 PRISM 书目信息（期刊文章）
+          published_year: parsePublicationYear(item.publicationDate),
+          published_issue: item.issue ?? null,
+          published_volume: item.volume ?? null,
+          doi: fingerprint.doi,
           is_read: 0,
           source_origin: 'rss',
           updated_at: now,
@@ -237,6 +245,12 @@ export async function saveArticles(
         .executeTakeFirst();
 
       if (result) {
+        await saveArticleMetadata(result.id, {
+          authors: item.authors ?? item.author,
+          identifiers: [{ scheme: 'doi', value: fingerprint.doi }],
+          keywords: item.categories,
+          keywordSource: 'feed',
+        });
         savedArticleIds.push(result.id);
       } else {
         log.warn({ rssSourceId, url: item.link }, 'Failed to get inserted article ID');
@@ -266,6 +280,14 @@ export async function saveArticles(
   return { count: savedArticleIds.length, articleIds: savedArticleIds };
 }
 
+/**
+ * 从 prism:publicationDate / prism:coverDate 提取年份
+ */
+function parsePublicationYear(value: string | undefined): number | null {
+  const match = value?.match(/\b(1[89]\d{2}|2\d{3})\b/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
 /**
  * 选择最有价值的内容来源（优先更长且更丰富的文本）
  */
@@ -413,6 +435,10 @@ export async function getArticleById(
       'articles.published_year',
       'articles.published_issue',
       'articles.published_volume',
+      'articles.doi',
+      'articles.venue',
+      'articles.citation_count',
+      'articles.oa_pdf_url',
       'articles.error_message',
       'articles.is_read',
       'articles.source_origin',
@@ -429,10 +455,15 @@ export async function getArticleById(
 
   if (!article) return undefined;
 
+  const metadata = await getArticleMetadata(id);
+
   // 合并来源名称
   const merged = {
     ...article,
     source_name: (article as any).journal_name || (article as any).rss_source_name || (article as any).keyword_name || (article as any).email_source_name || (article as any).web_source_name || 'Unknown',
+    authors: metadata.authors,
+    identifiers: metadata.identifiers,
+    keywords: metadata.keywords,
   } as ArticleWithSource;
 
   normalizeArticleDates(merged);
@@ -601,6 +632,12 @@ export async function getUserArticles(
     randomOrder?: boolean;
     /** 默认排除拒绝状态的条目 */
     excludeRejected?: boolean;
+    /** 作者筛选（模糊匹配规范化作者名） */
+    author?: string;
+    /** 关键词筛选（精确匹配规范化关键词） */
+    keyword?: string;
+    /** DOI 筛选 */
+    doi?: string;
   } = {}
 ): Promise<PaginatedArticlesResult> {
   const db = getDb();
@@ -718,6 +755,39 @@ export async function getUserArticles(
     ]));
   }
 
+  // 书目元数据筛选
+  const author = options.author ? normalizeMetadataText(options.author) : '';
+  if (author) {
+    query = query.where((eb) => eb.exists(
+      eb.selectFrom('article_authors')
+        .whereRef('article_authors.article_id', '=', 'articles.id')
+        .where('article_authors.name_normalized', 'like', `%${author}%`)
+        .select('article_authors.id')
+    ));
+  }
+
+  const keyword = options.keyword ? normalizeMetadataText(options.keyword) : '';
+  if (keyword) {
+    query = query.where((eb) => eb.exists(
+      eb.selectFrom('article_keywords')
+        .whereRef('article_keywords.article_id', '=', 'articles.id')
+        .where('article_keywords.keyword_normalized', '=', keyword)
+        .select('article_keywords.id')
+    ));
+  }
+
+  const doi = options.doi ? normalizeDoi(options.doi) : null;
+  if (options.doi) {
+    // 无法识别为 DOI 时返回空结果
+    query = query.where((eb) => eb.exists(
+      eb.selectFrom('article_identifiers')
+        .whereRef('article_identifiers.article_id', '=', 'articles.id')
+        .where('article_identifiers.scheme', '=', 'doi')
+        .where('article_identifiers.value', '=', doi ?? '')
+        .select('article_identifiers.id')
+    ));
+  }
+
   // 时间过滤：根据 shouldApplyDaysFilter 决定是否应用
   if (shouldApplyDaysFilter) {
     const cutoffDate = new Date();
@@ -862,6 +932,10 @@ export async function getUserArticles(
     'articles.published_year',
     'articles.published_issue',
     'articles.published_volume',
+    'articles.doi',
+    'articles.venue',
+    'articles.citation_count',
+    'articles.oa_pdf_url',
     'articles.error_message',
     'articles.is_read',
     'articles.source_origin',
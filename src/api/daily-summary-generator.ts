@@ -6,7 +6,7 @@
  */
 
 import { logger } from '../logger.js';
-import { getUserLLMProvider } from '../llm.js';
+import { getUserLLMProvider, type ChatMessage } from '../llm.js';
 import { resolveSystemPrompt } from './system-prompts.js';
 import { getUserLocalDate } from './timezone.js';
 import { truncatePreview } from '../utils/text-cleaner.js';
@@ -384,11 +384,12 @@ export async function generateSearchSummary(
 /**
  * Generate insights summary report.
  * Pure generation, no push. Save to DB is done by the caller.
+ * With onChunk the report is streamed from the LLM as it is generated.
  */
 export async function generateInsightsSummary(
-  input: { userId: number; days?: number }
+  input: { userId: number; days?: number; onChunk?: (chunk: string) => void }
 ): Promise<DailySummaryResult> {
-  const { userId, days = 15 } = input;
+  const { userId, days = 15, onChunk } = input;
 
   const now = new Date();
   const startDate = new Date(now);
@@ -430,15 +431,23 @@ export async function generateInsightsSummary(
   );
 
   const llm = await getUserLLMProvider(userId, 'insights');
-  const summary = await llm.chat(
-    [
-      { role: 'user', content: userPrompt },
-    ],
-    {
-      temperature: 0.3,
-      label: 'insights_summary',
+  const messages: ChatMessage[] = [
+    { role: 'user', content: userPrompt },
+  ];
+  const options = {
+    temperature: 0.3,
+    label: 'insights_summary',
+  };
+
+  let summary = '';
+  if (onChunk) {
+    for await (const chunk of llm.chatStream(messages, options)) {
+      summary += chunk;
+      onChunk(chunk);
     }
-  );
+  } else {
+    summary = await llm.chat(messages, options);
+  }
 
   log.info({ userId, dateStr, articleCount: articles.length }, 'Insights summary generated');
 
@@ -13,8 +13,7 @@
  */
 
 import { logger } from '../logger.js';
-import { getTelegramNotifier } from '../telegram/index.js';
-import { getWeChatNotifier } from '../wechat/index.js';
+import { buildSummaryEvent, dispatchNotification } from '../notifications/index.js';
 
 // Re-export everything from repository
 export {
@@ -70,51 +69,31 @@ const log = logger.child({ module: 'daily-summary-facade' });
 // ============================================================================
 
 /**
- * Generate daily summary + push to Telegram/WeChat.
+ * Push a generated summary to all notification channels (async, non-blocking)
+ */
+function pushSummary(userId: number, result: DailySummaryResult, label: string): void {
+  const event = buildSummaryEvent(result);
+  if (!event) return;
+
+  dispatchNotification(userId, event).catch(err => {
+    log.warn({ error: err }, `Failed to push ${label}`);
+  });
+}
+
+/**
+ * Generate daily summary + push to notification channels.
  * Used by API routes for backward compatibility.
  */
 export async function generateDailySummary(input: DailySummaryInput): Promise<DailySummaryResult> {
   const result = await generateDailySummaryPure(input);
 
-  // Push to Telegram (async, non-blocking)
-  if (result.type === 'journal' || result.type === 'blog_news' || result.type === 'all') {
-    getTelegramNotifier().sendDailySummary(input.userId, {
-      date: result.date,
-      type: result.type,
-      totalArticles: result.totalArticles,
-      summary: result.summary,
-      articlesByType: {
-        journal: result.articlesByType.journal.length,
-        blog: result.articlesByType.blog.length,
-        news: result.articlesByType.news.length,
-        email: result.articlesByType.email.length,
-      },
-    }).catch(err => {
-      log.warn({ error: err }, 'Failed to send daily summary to Telegram');
-    });
-  }
-
-  // Push to WeChat (async, non-blocking)
-  getWeChatNotifier().sendDailySummary(input.userId, {
-    date: result.date,
-    type: result.type,
-    totalArticles: result.totalArticles,
-    summary: result.summary,
-    articlesByType: {
-      journal: result.articlesByType.journal.length,
-      blog: result.articlesByType.blog.length,
-      news: result.articlesByType.news.length,
-      email: result.articlesByType.email.length,
-    },
-  }).catch(err => {
-    log.warn({ error: err }, 'Failed to send daily summary to WeChat');
-  });
+  pushSummary(input.userId, result, 'daily summary');
 
   return result;
 }
 
 /**
- * Generate all-journal summary + save to DB + push to Telegram/WeChat.
+ * Generate all-journal summary + save to DB + push to notification channels.
  * Used by API routes for backward compatibility.
  */
 export async function generateJournalAllSummary(input: Omit<DailySummaryInput, 'type' | 'limit'>): Promise<DailySummaryResult> {
@@ -134,41 +113,18 @@ export async function generateJournalAllSummary(input: Omit<DailySummaryInput, '
     });
   }
 
-  // Push to Telegram (async, non-blocking)
-  getTelegramNotifier().sendJournalAllSummary(input.userId, {
-    date: result.date,
-    type: 'journal_all',
-    totalArticles: result.totalArticles,
-    summary: result.summary,
-    articlesByType: {
-      journal: result.articlesByType.journal.length,
-      blog: 0,
-      news: 0,
-      email: 0,
-    },
-  }).catch(err => {
-    log.warn({ error: err }, 'Failed to send journal all summary to Telegram');
-  });
-
-  // Push to WeChat (async, non-blocking)
-  const allArticles = [...result.articlesByType.journal, ...result.articlesByType.blog, ...result.articlesByType.news, ...result.articlesByType.email];
-  getWeChatNotifier().sendJournalAllSummary(input.userId, {
-    date: result.date,
-    totalArticles: result.totalArticles,
-    summary: result.summary,
-    articles: allArticles,
-  }).catch(err => {
-    log.warn({ error: err }, 'Failed to send journal all summary to WeChat');
-  });
+  pushSummary(input.userId, result, 'journal all summary');
 
   return result;
 }
 
 /**
- * Generate insights summary + save to DB + push to Telegram/WeChat.
+ * Generate insights summary + save to DB + push to notification channels.
  * Used by API routes for backward compatibility.
  */
-export async function generateInsightsSummary(input: { userId: number; days?: number }): Promise<DailySummaryResult> {
+export async function generateInsightsSummary(
+  input: { userId: number; days?: number; onChunk?: (chunk: string) => void }
+): Promise<DailySummaryResult> {
   const result = await generateInsightsSummaryPure(input);
 
   // Save to DB (matching old behavior — the pure generator doesn't save)
@@ -187,37 +143,7 @@ export async function generateInsightsSummary(input: { userId: number; days?: nu
     });
   }
 
-  // Push to Telegram (async, non-blocking)
-  getTelegramNotifier().sendInsightsSummary(input.userId, {
-    date: result.date,
-    type: 'insights',
-    totalArticles: result.totalArticles,
-    summary: result.summary,
-    articlesByType: {
-      journal: result.articlesByType.journal.length,
-      blog: result.articlesByType.blog.length,
-      news: result.articlesByType.news.length,
-      email: result.articlesByType.email.length,
-    },
-  }).catch(err => {
-    log.warn({ error: err }, 'Failed to send insights summary to Telegram');
-  });
-
-  // Push to WeChat (async, non-blocking)
-  getWeChatNotifier().sendInsightsSummary(input.userId, {
-    date: result.date,
-    type: 'insights',
-    totalArticles: result.totalArticles,
-    summary: result.summary,
-    articlesByType: {
-      journal: result.articlesByType.journal.length,
-      blog: result.articlesByType.blog.length,
-      news: result.articlesByType.news.length,
-      email: result.articlesByType.email.length,
-    },
-  }).catch(err => {
-    log.warn({ error: err }, 'Failed to send insights summary to WeChat');
-  });
+  pushSummary(input.userId, result, 'insights summary');
 
   return result;
 }
@@ -1,6 +1,7 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { runDeepSearch, type DeepSearchOptions } from '../../scripts/deepsearch/deepsearch.js';
+import { formatSearchFilters, hasSearchFilters, type SearchFilters } from '../vector/search-filters.js';
 
 type TaskStatus = 'pending' | 'running' | 'completed' | 'failed';
 
@@ -43,6 +44,7 @@ interface StartTaskOptions {
   semanticLimit?: number;
   maxFinalArticles?: number;
   skipPdfSummary?: boolean;
+  filters?: SearchFilters;
   configPath?: string;
   onCompleted?: (result: DeepSearchRuntimeResult) => Promise<void> | void;
   onFailed?: (error: string) => Promise<void> | void;
@@ -99,6 +101,9 @@ export function startDeepSearchTask(options: StartTaskOptions): void {
     logs: [
       `[${formatLogTimestamp()}] 任务已创建`,
       `[${formatLogTimestamp()}] 任务配置：${options.skipPdfSummary ? '跳过 PDF 总结' : '执行 PDF 总结'}`,
+      ...(hasSearchFilters(options.filters)
+        ? [`[${formatLogTimestamp()}] 检索筛选：${formatSearchFilters(options.filters).join(' ')}`]
+        : []),
     ],
   });
 
@@ -120,6 +125,7 @@ export function startDeepSearchTask(options: StartTaskOptions): void {
         semanticLimit: options.semanticLimit,
         maxFinalArticles: options.maxFinalArticles,
         skipPdfSummary: options.skipPdfSummary,
+        filters: options.filters,
         configPath: options.configPath,
         outputDir,
         onProgress: (step, current, total) => {
@@ -6,9 +6,11 @@
 import { getDb, type KeywordSubscriptionsSelection, type KeywordCrawlLogsSelection, type ArticlesSelection } from '../db.js';
 import { logger } from '../logger.js';
 import { googleScholarSpider } from '../spiders/google-scholar-spider.js';
-import { generateNormalizedTitle } from '../utils/title.js';
+import { buildArticleFingerprint } from '../utils/article-fingerprint.js';
+import { saveArticleMetadata } from './article-metadata.js';
+import { resolveDuplicate } from './article-dedup.js';
 import { filterArticle } from '../filter.js';
-import { processArticle } from '../pipeline.js';
+import { enqueueArticleJob } from './article-jobs.js';
 
 const log = logger.child({ module: 'keywords-api' });
 
@@ -421,50 +423,26 @@ async function saveArticles(
 
   for (const article of articles) {
     try {
-      // 查重：URL 查重（含 rejected_articles 归档表）
-      const existingByUrl = await db
-        .selectFrom('articles')
-        .where('url', '=', article.url)
-        .select('id')
-        .executeTakeFirst();
-
-      if (existingByUrl) {
-        log.debug({ url: article.url }, 'Article already exists (URL)');
-        continue;
-      }
-
-      const rejectedByUrl = await db
-        .selectFrom('rejected_articles')
-        .where('url', '=', article.url)
-        .select('id')
-        .executeTakeFirst();
-
-      if (rejectedByUrl) {
-        log.debug({ url: article.url }, 'Article URL exists in rejected_articles (previously rejected and cleaned up), skipping');
-        continue;
-      }
-
-      // 查重：title_normalized 查重（含 rejected_articles 归档表）
-      const titleNormalized = generateNormalizedTitle(article.title);
-      const existingByTitle = titleNormalized ? await db
-        .selectFrom('articles')
-        .where('title_normalized', '=', titleNormalized)
-        .select('id')
-        .executeTakeFirst() : null;
-
-      if (existingByTitle) {
-        log.debug({ title: article.title }, 'Article already exists (title)');
-        continue;
-      }
-
-      const rejectedByTitle = titleNormalized ? await db
-        .selectFrom('rejected_articles')
-        .where('title_normalized', '=', titleNormalized)
-        .select('id')
-        .executeTakeFirst() : null;
-
-      if (rejectedByTitle) {
-        log.debug({ title: article.title }, 'Article title exists in rejected_articles (previously rejected and cleaned up), skipping');
+      // 查重：guid / 规范化 URL / 内容哈希 / 标题（含 rejected_articles 归档表），跨源重复记录关联
+      const fingerprint = buildArticleFingerprint({
+        title: article.title,
+        url: article.url,
+        abstract: article.abstract,
+        doi: article.doi,
+      });
+      const titleNormalized = fingerprint.titleNormalized;
+
+      const duplicate = await resolveDuplicate(
+        fingerprint,
+        { origin: 'keyword', sourceId: keywordId },
+        { url: article.url }
+      );
+
+      if (duplicate) {
+        log.debug(
+          { url: article.url, title: article.title, existingId: duplicate.articleId, matchedBy: duplicate.matchedBy, archived: duplicate.archived },
+          'Duplicate article, skipping'
+        );
         continue;
       }
 
@@ -480,6 +458,8 @@ async function saveArticles(
           title: article.title,
           title_normalized: titleNormalized,
           url: article.url,
+          canonical_url: fingerprint.canonicalUrl,
+          content_hash: fingerprint.contentHash,
           summary: null,
           content: null,
           markdown_content: article.abstract || null,
@@ -493,6 +473,7 @@ async function saveArticles(
           published_year: article.publishedYear || null,
           published_issue: article.publishedIssue || null,
           published_volume: article.publishedVolume || null,
+          doi: fingerprint.doi,
           error_message: null,
           is_read: 0,
           source_origin: 'keyword',
@@ -509,6 +490,12 @@ async function saveArticles(
 
       const articleId = Number(result.insertId);
 
+      await saveArticleMetadata(articleId, {
+        authors: article.author,
+        identifiers: [{ scheme: 'doi', value: fingerprint.doi }],
+        keywords: article.keywords,
+      });
+
       // 触发后续处理（过滤 + 处理流程）
       triggerArticleProcessing(articleId).catch(err => {
         log.warn({ articleId, error: err }, 'Failed to trigger article processing (non-critical)');
@@ -558,8 +545,8 @@ async function triggerArticleProcessing(articleId: number): Promise<void> {
       return;
     }
 
-    // 执行处理流程
-    await processArticle(articleId, userId);
+    // 入队处理流程
+    await enqueueArticleJob({ articleId, userId, source: 'keyword' });
   } catch (error) {
     log.error({ articleId, error }, 'Article processing failed');
   }
@@ -17,8 +17,19 @@ const log = logger.child({ module: 'llm-configs-service' });
 // Export types
 export type LLMConfigRecord = LlmConfigsTable;
 
+/**
+ * Supported LLM providers (custom: OpenAI-compatible endpoint)
+ */
+export const LLM_PROVIDERS = ['openai', 'gemini', 'anthropic', 'ollama', 'custom'] as const;
+export type LLMProviderType = typeof LLM_PROVIDERS[number];
+
+/**
+ * Providers that can run without an API key (local endpoints)
+ */
+export const KEYLESS_LLM_PROVIDERS: readonly LLMProviderType[] = ['ollama'];
+
 export interface CreateLLMConfigInput {
-  provider: 'openai' | 'gemini' | 'custom';
+  provider: LLMProviderType;
   baseURL: string;
   apiKey: string;
   model: string;
@@ -30,10 +41,12 @@ export interface CreateLLMConfigInput {
   timeout?: number;
   maxRetries?: number;
   maxConcurrent?: number;
+  inputPrice?: number | null;
+  outputPrice?: number | null;
 }
 
 export interface UpdateLLMConfigInput {
-  provider?: 'openai' | 'gemini' | 'custom';
+  provider?: LLMProviderType;
   baseURL?: string;
   apiKey?: string;
   model?: string;
@@ -45,6 +58,8 @@ export interface UpdateLLMConfigInput {
   timeout?: number;
   maxRetries?: number;
   maxConcurrent?: number;
+  inputPrice?: number | null;
+  outputPrice?: number | null;
 }
 
 export interface QueryOptions {
@@ -284,6 +299,8 @@ export async function createLLMConfig(
       timeout: data.timeout ?? 30000,
       max_retries: data.maxRetries ?? 3,
       max_concurrent: data.maxConcurrent ?? 5,
+      input_price: data.inputPrice ?? null,
+      output_price: data.outputPrice ?? null,
       updated_at: new Date().toISOString(),
     } as any)
     .executeTakeFirstOrThrow();
@@ -382,6 +399,14 @@ export async function updateLLMConfig(
     updateData.priority = data.priority;
   }
 
+  if (data.inputPrice !== undefined) {
+    updateData.input_price = data.inputPrice;
+  }
+
+  if (data.outputPrice !== undefined) {
+    updateData.output_price = data.outputPrice;
+  }
+
   const result = await db
     .updateTable('llm_configs')
     .set(updateData)
@@ -556,6 +581,53 @@ export async function testLLMConnection(
       if (!response.ok) {
         return { success: false, error: `HTTP ${response.status}: ${response.statusText}` };
       }
+    } else if (dbConfig.provider === 'anthropic') {
+      const response = await fetch(`${dbConfig.base_url}/messages`, {
+        method: 'POST',
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: dbConfig.model,
+          max_tokens: 10,
+          messages: [{ role: 'user', content: 'Hi' }],
+        }),
+        signal: AbortSignal.timeout(15000),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        return {
+          success: false,
+          error: `HTTP ${response.status}: ${response.statusText}${errorText ? ` - ${errorText.slice(0, 100)}` : ''}`,
+        };
+      }
+    } else if (dbConfig.provider === 'ollama') {
+      const response = await fetch(`${dbConfig.base_url}/api/chat`, {
+        method: 'POST',
+        headers: {
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: dbConfig.model,
+          messages: [{ role: 'user', content: 'Hi' }],
+          stream: false,
+          options: { num_predict: 1 },
+        }),
+        // 本地模型首次加载较慢
+        signal: AbortSignal.timeout(60000),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        return {
+          success: false,
+          error: `HTTP ${response.status}: ${response.statusText}${errorText ? ` - ${errorText.slice(0, 100)}` : ''}`,
+        };
+      }
     }
 
     return { success: true };
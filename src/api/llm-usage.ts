@@ -0,0 +1,418 @@
+/**
+ * LLM Usage Service
+ *
+ * 每次 LLM 调用的 token 用量记录（llm_usage），按用户 / 任务类型 / 配置聚合，
+ * 以及月度预算（llm_budgets）：超出后阻断调用或降级到指定配置。
+ */
+
+import { sql } from 'kysely';
+import { getDb, type LlmBudgetsSelection } from '../db.js';
+import { logger } from '../logger.js';
+import { normalizeDateFields } from '../utils/datetime.js';
+
+const log = logger.child({ module: 'llm-usage' });
+
+/* ── Types ── */
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Price per 1M tokens (from llm_configs.input_price / output_price)
+ */
+export interface LLMPricing {
+  inputPrice: number | null;
+  outputPrice: number | null;
+}
+
+export interface LLMUsageRecordInput {
+  userId?: number | null;
+  configId?: number | null;
+  taskType?: string | null;
+  label?: string | null;
+  provider: string;
+  model: string;
+  usage: TokenUsage | null;
+  pricing?: LLMPricing | null;
+  latencyMs: number;
+  streamed: boolean;
+  success: boolean;
+  error?: string | null;
+}
+
+export type LLMUsageGroupBy = 'task' | 'config' | 'model' | 'day';
+
+export interface LLMUsageQuery {
+  userId: number;
+  from?: string;   // YYYY-MM-DD，默认本月 1 日
+  to?: string;     // YYYY-MM-DD（含当天），默认今天
+  groupBy?: LLMUsageGroupBy;
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  avgLatencyMs: number;
+}
+
+export interface LLMUsageSummaryRow extends LLMUsageTotals {
+  key: string | null;
+  model?: string;
+}
+
+export interface LLMUsageSummary {
+  from: string;
+  to: string;
+  groupBy: LLMUsageGroupBy;
+  totals: LLMUsageTotals;
+  rows: LLMUsageSummaryRow[];
+}
+
+export type LLMBudgetAction = 'block' | 'downgrade';
+
+export interface LLMBudgetInput {
+  taskType?: string | null;
+  configId?: number | null;
+  monthlyTokenLimit?: number | null;
+  monthlyCostLimit?: number | null;
+  action?: LLMBudgetAction;
+  downgradeConfigId?: number | null;
+  enabled?: boolean;
+}
+
+export interface LLMBudgetWithUsage extends LlmBudgetsSelection {
+  used_tokens: number;
+  used_cost: number;
+  exceeded: boolean;
+}
+
+/* ── Helpers ── */
+
+/**
+ * 当前月份起始时间（UTC，与 SQLite CURRENT_TIMESTAMP 格式一致）
+ */
+function getMonthStart(now: Date = new Date()): string {
+  const year = now.getUTCFullYear();
+  const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+  return `${year}-${month}-01 00:00:00`;
+}
+
+function toDateStr(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Estimate call cost from token usage and config pricing
+ * @returns Cost in the config's currency, or null if pricing is not set
+ */
+export function estimateLLMCost(usage: TokenUsage | null, pricing: LLMPricing | null | undefined): number | null {
+  if (!usage || !pricing) return null;
+  if (pricing.inputPrice == null && pricing.outputPrice == null) return null;
+  const input = (usage.promptTokens * (pricing.inputPrice ?? 0)) / 1_000_000;
+  const output = (usage.completionTokens * (pricing.outputPrice ?? 0)) / 1_000_000;
+  return input + output;
+}
+
+/* ── Usage recording ── */
+
+/**
+ * Record a single LLM call
+ *
+ * 写入失败只记录警告，不影响调用结果。
+ */
+export async function recordLLMUsage(input: LLMUsageRecordInput): Promise<void> {
+  try {
+    const usage = input.usage;
+    await getDb()
+      .insertInto('llm_usage')
+      .values({
+        user_id: input.userId ?? null,
+        config_id: input.configId ?? null,
+        task_type: input.taskType ?? null,
+        label: input.label ?? null,
+        provider: input.provider,
+        model: input.model,
+        prompt_tokens: usage?.promptTokens ?? 0,
+        completion_tokens: usage?.completionTokens ?? 0,
+        total_tokens: usage?.totalTokens ?? 0,
+        cost: estimateLLMCost(usage, input.pricing),
+        latency_ms: Math.max(0, Math.round(input.latencyMs)),
+        streamed: input.streamed ? 1 : 0,
+        success: input.success ? 1 : 0,
+        error: input.error ? input.error.slice(0, 500) : null,
+      })
+      .execute();
+  } catch (error) {
+    log.warn({ error, configId: input.configId, label: input.label }, 'Failed to record LLM usage');
+  }
+}
+
+/* ── Aggregation ── */
+
+/**
+ * Aggregate usage for a user
+ */
+export async function getLLMUsageSummary(query: LLMUsageQuery): Promise<LLMUsageSummary> {
+  const db = getDb();
+  const now = new Date();
+  const from = query.from ?? getMonthStart(now).slice(0, 10);
+  const to = query.to ?? toDateStr(now);
+  const groupBy = query.groupBy ?? 'task';
+
+  const base = db
+    .selectFrom('llm_usage')
+    .where('user_id', '=', query.userId)
+    .where('created_at', '>=', `${from} 00:00:00`)
+    .where('created_at', '<=', `${to} 23:59:59`);
+
+  const aggregates = [
+    sql<number>`count(*)`.as('calls'),
+    sql<number>`coalesce(sum(case when success = 0 then 1 else 0 end), 0)`.as('failedCalls'),
+    sql<number>`coalesce(sum(prompt_tokens), 0)`.as('promptTokens'),
+    sql<number>`coalesce(sum(completion_tokens), 0)`.as('completionTokens'),
+    sql<number>`coalesce(sum(total_tokens), 0)`.as('totalTokens'),
+    sql<number>`coalesce(sum(cost), 0)`.as('cost'),
+    sql<number>`coalesce(avg(latency_ms), 0)`.as('avgLatencyMs'),
+  ];
+
+  const keyExpr = {
+    task: sql<string | null>`task_type`,
+    config: sql<string | null>`cast(config_id as text)`,
+    model: sql<string | null>`model`,
+    day: sql<string | null>`date(created_at)`,
+  }[groupBy];
+
+  const [totalsRow, groupedRows] = await Promise.all([
+    base.select(aggregates).executeTakeFirst(),
+    base
+      .select([keyExpr.as('key'), sql<string>`max(model)`.as('model'), ...aggregates])
+      .groupBy(keyExpr)
+      .orderBy(groupBy === 'day' ? sql`1` : sql`totalTokens`, groupBy === 'day' ? 'asc' : 'desc')
+      .execute(),
+  ]);
+
+  const toTotals = (row: Partial<LLMUsageTotals> | undefined): LLMUsageTotals => ({
+    calls: Number(row?.calls ?? 0),
+    failedCalls: Number(row?.failedCalls ?? 0),
+    promptTokens: Number(row?.promptTokens ?? 0),
+    completionTokens: Number(row?.completionTokens ?? 0),
+    totalTokens: Number(row?.totalTokens ?? 0),
+    cost: Number(row?.cost ?? 0),
+    avgLatencyMs: Math.round(Number(row?.avgLatencyMs ?? 0)),
+  });
+
+  return {
+    from,
+    to,
+    groupBy,
+    totals: toTotals(totalsRow),
+    rows: groupedRows.map((row) => ({
+      key: row.key,
+      ...(groupBy === 'config' ? { model: row.model } : {}),
+      ...toTotals(row),
+    })),
+  };
+}
+
+/* ── Budgets ── */
+
+/**
+ * Month-to-date usage within a budget's scope
+ */
+async function getBudgetUsage(budget: LlmBudgetsSelection): Promise<{ tokens: number; cost: number }> {
+  let query = getDb()
+    .selectFrom('llm_usage')
+    .where('user_id', '=', budget.user_id)
+    .where('created_at', '>=', getMonthStart());
+
+  if (budget.task_type) {
+    query = query.where('task_type', '=', budget.task_type);
+  }
+  if (budget.config_id !== null) {
+    query = query.where('config_id', '=', budget.config_id);
+  }
+
+  const row = await query
+    .select([
+      sql<number>`coalesce(sum(total_tokens), 0)`.as('tokens'),
+      sql<number>`coalesce(sum(cost), 0)`.as('cost'),
+    ])
+    .executeTakeFirst();
+
+  return { tokens: Number(row?.tokens ?? 0), cost: Number(row?.cost ?? 0) };
+}
+
+async function withUsage(budget: LlmBudgetsSelection): Promise<LLMBudgetWithUsage> {
+  const used = await getBudgetUsage(budget);
+  const exceeded =
+    (budget.monthly_token_limit !== null && used.tokens >= budget.monthly_token_limit) ||
+    (budget.monthly_cost_limit !== null && used.cost >= budget.monthly_cost_limit);
+  return normalizeDateFields(
+    { ...budget, used_tokens: used.tokens, used_cost: used.cost, exceeded },
+    ['created_at', 'updated_at']
+  );
+}
+
+async function assertConfigOwned(configId: number, userId: number): Promise<void> {
+  const row = await getDb()
+    .selectFrom('llm_configs')
+    .where('id', '=', configId)
+    .where('user_id', '=', userId)
+    .select('id')
+    .executeTakeFirst();
+  if (!row) {
+    throw new Error('LLM config not found');
+  }
+}
+
+/**
+ * 校验合并后的预算配置（创建与更新共用）
+ */
+async function validateBudget(userId: number, budget: {
+  config_id: number | null;
+  monthly_token_limit: number | null;
+  monthly_cost_limit: number | null;
+  action: LLMBudgetAction;
+  downgrade_config_id: number | null;
+}): Promise<void> {
+  if (budget.monthly_token_limit === null && budget.monthly_cost_limit === null) {
+    throw new Error('monthlyTokenLimit or monthlyCostLimit is required');
+  }
+  if (budget.action === 'downgrade' && budget.downgrade_config_id === null) {
+    throw new Error('downgradeConfigId is required for downgrade budgets');
+  }
+  if (budget.config_id !== null) {
+    await assertConfigOwned(budget.config_id, userId);
+  }
+  if (budget.downgrade_config_id !== null) {
+    await assertConfigOwned(budget.downgrade_config_id, userId);
+  }
+}
+
+/**
+ * Get user's budgets with month-to-date usage
+ */
+export async function getLLMBudgets(userId: number): Promise<LLMBudgetWithUsage[]> {
+  const budgets = await getDb()
+    .selectFrom('llm_budgets')
+    .where('user_id', '=', userId)
+    .selectAll()
+    .orderBy('id')
+    .execute();
+
+  return Promise.all(budgets.map(withUsage));
+}
+
+/**
+ * Create a monthly budget
+ */
+export async function createLLMBudget(userId: number, input: LLMBudgetInput): Promise<{ id: number }> {
+  const values = {
+    user_id: userId,
+    task_type: input.taskType || null,
+    config_id: input.configId ?? null,
+    monthly_token_limit: input.monthlyTokenLimit ?? null,
+    monthly_cost_limit: input.monthlyCostLimit ?? null,
+    action: input.action ?? 'block',
+    downgrade_config_id: input.downgradeConfigId ?? null,
+    enabled: input.enabled === false ? 0 : 1,
+    updated_at: new Date().toISOString(),
+  };
+
+  await validateBudget(userId, values);
+
+  const result = await getDb().insertInto('llm_budgets').values(values).executeTakeFirstOrThrow();
+  const id = Number(result.insertId);
+
+  log.info({ userId, budgetId: id, taskType: values.task_type, configId: values.config_id }, 'LLM budget created');
+  return { id };
+}
+
+/**
+ * Update a monthly budget
+ */
+export async function updateLLMBudget(id: number, userId: number, input: LLMBudgetInput): Promise<void> {
+  const db = getDb();
+  const existing = await db
+    .selectFrom('llm_budgets')
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .selectAll()
+    .executeTakeFirst();
+
+  if (!existing) {
+    throw new Error('LLM budget not found');
+  }
+
+  const merged = {
+    task_type: input.taskType !== undefined ? input.taskType || null : existing.task_type,
+    config_id: input.configId !== undefined ? input.configId : existing.config_id,
+    monthly_token_limit: input.monthlyTokenLimit !== undefined ? input.monthlyTokenLimit : existing.monthly_token_limit,
+    monthly_cost_limit: input.monthlyCostLimit !== undefined ? input.monthlyCostLimit : existing.monthly_cost_limit,
+    action: input.action ?? existing.action,
+    downgrade_config_id: input.downgradeConfigId !== undefined ? input.downgradeConfigId : existing.downgrade_config_id,
+    enabled: input.enabled !== undefined ? (input.enabled ? 1 : 0) : existing.enabled,
+  };
+
+  await validateBudget(userId, merged);
+
+  await db
+    .updateTable('llm_budgets')
+    .set({ ...merged, updated_at: new Date().toISOString() })
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .execute();
+
+  log.info({ userId, budgetId: id }, 'LLM budget updated');
+}
+
+/**
+ * Delete a monthly budget
+ */
+export async function deleteLLMBudget(id: number, userId: number): Promise<void> {
+  const result = await getDb()
+    .deleteFrom('llm_budgets')
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .executeTakeFirst();
+
+  if (Number(result.numDeletedRows) === 0) {
+    throw new Error('LLM budget not found');
+  }
+
+  log.info({ userId, budgetId: id }, 'LLM budget deleted');
+}
+
+/**
+ * Get exceeded budgets that apply to a task
+ *
+ * 适用范围：budget.task_type 为空（所有任务）或等于 taskType。
+ *
+ * @param userId - User ID
+ * @param taskType - Task type of the pending call (undefined: 仅匹配不限任务的预算)
+ */
+export async function getExceededLLMBudgets(userId: number, taskType?: string): Promise<LLMBudgetWithUsage[]> {
+  let query = getDb()
+    .selectFrom('llm_budgets')
+    .where('user_id', '=', userId)
+    .where('enabled', '=', 1);
+
+  query = taskType
+    ? query.where((eb) => eb.or([eb('task_type', 'is', null), eb('task_type', '=', taskType)]))
+    : query.where('task_type', 'is', null);
+
+  const budgets = await query.selectAll().execute();
+  if (budgets.length === 0) {
+    return [];
+  }
+
+  const evaluated = await Promise.all(budgets.map(withUsage));
+  return evaluated.filter((budget) => budget.exceeded);
+}
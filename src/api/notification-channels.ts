@@ -0,0 +1,471 @@
+/**
+ * Notification Channels Service
+ *
+ * Slack / Discord / 通用 JSON Webhook / SMTP 邮件通知渠道的数据库存储（按用户隔离）。
+ * 渠道配置整体序列化为 JSON 后用 LLM_ENCRYPTION_KEY 加密；接口只返回非敏感字段与脱敏提示，
+ * webhook URL、签名密钥、SMTP 密码等敏感字段不会返回给前端。
+ */
+
+import type { Insertable, Updateable } from 'kysely';
+import { getDb, type NotificationChannelsSelection, type NotificationChannelsTable } from '../db.js';
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { encryptAPIKey, decryptAPIKey } from '../utils/crypto.js';
+import { normalizeDateFields } from '../utils/datetime.js';
+import { isPublicHostname } from '../utils/public-address.js';
+import { VALID_PUSH_TYPES, type PushType } from '../constants/push-types.js';
+
+const log = logger.child({ module: 'notification-channels-service' });
+
+/* ── Types ── */
+
+export const NOTIFICATION_CHANNEL_TYPES = ['slack', 'discord', 'webhook', 'email'] as const;
+export type NotificationChannelType = typeof NOTIFICATION_CHANNEL_TYPES[number];
+
+export interface SlackChannelConfig {
+  webhookUrl: string;
+}
+
+export interface DiscordChannelConfig {
+  webhookUrl: string;
+}
+
+export interface WebhookChannelConfig {
+  url: string;
+  /** 可选：设置后请求带 X-Signature-256: sha256=<HMAC(body)> */
+  secret?: string;
+}
+
+export interface EmailChannelConfig {
+  host: string;
+  port: number;
+  /** true = SMTPS (465)；false 时按服务器能力升级 STARTTLS */
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  /** 收件人，多个用逗号分隔 */
+  to: string;
+}
+
+export interface NotificationChannelConfigMap {
+  slack: SlackChannelConfig;
+  discord: DiscordChannelConfig;
+  webhook: WebhookChannelConfig;
+  email: EmailChannelConfig;
+}
+
+export type NotificationChannelConfig = NotificationChannelConfigMap[NotificationChannelType];
+
+export type NotificationPushTypes = Record<PushType, boolean>;
+
+/**
+ * Channel record returned by the API (secrets stripped)
+ */
+export interface NotificationChannelRecord {
+  id: number;
+  user_id: number;
+  type: NotificationChannelType;
+  name: string;
+  config_hint: string;
+  /** 非敏感配置字段，供编辑表单回填 */
+  settings: Record<string, string | number | boolean>;
+  enabled: boolean;
+  push_types: NotificationPushTypes;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Channel with decrypted config (for sending only, never returned by the API)
+ */
+export type NotificationChannelTarget = {
+  [K in NotificationChannelType]: Omit<NotificationChannelRecord, 'type'> & {
+    type: K;
+    config: NotificationChannelConfigMap[K];
+  };
+}[NotificationChannelType];
+
+export interface CreateNotificationChannelInput {
+  type: NotificationChannelType;
+  name: string;
+  config: Record<string, unknown>;
+  enabled?: boolean;
+  push_types?: Partial<NotificationPushTypes>;
+}
+
+export interface UpdateNotificationChannelInput {
+  name?: string;
+  /** 不提供则保持原配置；敏感字段留空表示保持原值 */
+  config?: Record<string, unknown>;
+  enabled?: boolean;
+  push_types?: Partial<NotificationPushTypes>;
+}
+
+/** 敏感字段：不返回给前端，更新时留空表示不修改 */
+const SECRET_FIELDS: Record<NotificationChannelType, string[]> = {
+  slack: ['webhookUrl'],
+  discord: ['webhookUrl'],
+  webhook: ['url', 'secret'],
+  email: ['password'],
+};
+
+const EMAIL_ADDRESS_PATTERN = /^[^\s@,]+@[^\s@,]+$/;
+
+/* ── Helpers ── */
+
+export function isNotificationChannelType(value: unknown): value is NotificationChannelType {
+  return typeof value === 'string' && (NOTIFICATION_CHANNEL_TYPES as readonly string[]).includes(value);
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+function readString(input: Record<string, unknown>, key: string): string {
+  const value = input[key];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Validate and normalize a channel config
+ * 校验失败抛出 `Invalid ...` / `... is required` 错误
+ */
+export function validateChannelConfig(type: NotificationChannelType, input: Record<string, unknown>): NotificationChannelConfig {
+  switch (type) {
+    case 'slack': {
+      const webhookUrl = readString(input, 'webhookUrl');
+      if (!webhookUrl) throw new Error('webhookUrl is required');
+      if (!webhookUrl.startsWith('https://hooks.slack.com/')) {
+        throw new Error('Invalid Slack webhook URL, expected https://hooks.slack.com/...');
+      }
+      return { webhookUrl };
+    }
+    case 'discord': {
+      const webhookUrl = readString(input, 'webhookUrl');
+      if (!webhookUrl) throw new Error('webhookUrl is required');
+      if (!/^https:\/\/(?:\w+\.)?(?:discord|discordapp)\.com\/api\/webhooks\//.test(webhookUrl)) {
+        throw new Error('Invalid Discord webhook URL, expected https://discord.com/api/webhooks/...');
+      }
+      return { webhookUrl };
+    }
+    case 'webhook': {
+      const url = readString(input, 'url');
+      if (!url) throw new Error('url is required');
+      if (!isHttpUrl(url)) throw new Error('Invalid webhook URL');
+      if (!isPublicHostname(new URL(url).hostname)) {
+        throw new Error('Invalid webhook URL, loopback, private and link-local addresses are not allowed');
+      }
+      const secret = readString(input, 'secret');
+      return secret ? { url, secret } : { url };
+    }
+    case 'email': {
+      const host = readString(input, 'host');
+      if (!host) throw new Error('host is required');
+      const port = input.port === undefined || input.port === '' ? 587 : Number(input.port);
+      if (!Number.isInteger(port) || port < 1 || port > 65535) throw new Error('Invalid SMTP port');
+      const from = readString(input, 'from');
+      if (!from) throw new Error('from is required');
+      const to = readString(input, 'to');
+      if (!to) throw new Error('to is required');
+      const recipients = to.split(',').map((address) => address.trim()).filter(Boolean);
+      if (recipients.length === 0 || !recipients.every((address) => EMAIL_ADDRESS_PATTERN.test(address))) {
+        throw new Error('Invalid recipient address');
+      }
+      const username = readString(input, 'username');
+      const password = typeof input.password === 'string' ? input.password : '';
+      return {
+        host,
+        port,
+        secure: input.secure === true || input.secure === 'true',
+        ...(username ? { username } : {}),
+        ...(password ? { password } : {}),
+        from,
+        to: recipients.join(', '),
+      };
+    }
+  }
+}
+
+/**
+ * 脱敏 URL：保留协议与主机，路径只显示末尾 4 位
+ */
+function maskUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    const path = url.pathname + url.search;
+    return `${url.protocol}//${url.host}/****${path.length > 8 ? path.slice(-4) : ''}`;
+  } catch {
+    return '****';
+  }
+}
+
+function buildConfigHint(type: NotificationChannelType, channelConfig: NotificationChannelConfig): string {
+  switch (type) {
+    case 'slack':
+    case 'discord':
+      return maskUrl((channelConfig as SlackChannelConfig).webhookUrl);
+    case 'webhook': {
+      const webhook = channelConfig as WebhookChannelConfig;
+      return maskUrl(webhook.url) + (webhook.secret ? '（已签名）' : '');
+    }
+    case 'email': {
+      const email = channelConfig as EmailChannelConfig;
+      return `${email.to} via ${email.host}:${email.port}`;
+    }
+  }
+}
+
+function publicSettings(type: NotificationChannelType, channelConfig: NotificationChannelConfig): Record<string, string | number | boolean> {
+  const settings: Record<string, string | number | boolean> = {};
+  for (const [key, value] of Object.entries(channelConfig)) {
+    if (!SECRET_FIELDS[type].includes(key) && value !== undefined) {
+      settings[key] = value as string | number | boolean;
+    }
+  }
+  return settings;
+}
+
+function decryptConfig(row: NotificationChannelsSelection): NotificationChannelConfig {
+  return JSON.parse(decryptAPIKey(row.config_encrypted, config.llmEncryptionKey));
+}
+
+function rowToRecord(row: NotificationChannelsSelection, channelConfig: NotificationChannelConfig | null): NotificationChannelRecord {
+  const normalized = normalizeDateFields({ ...row }, ['created_at', 'updated_at']);
+  const pushTypes = {} as NotificationPushTypes;
+  for (const key of VALID_PUSH_TYPES) {
+    pushTypes[key] = normalized[key] === 1;
+  }
+
+  return {
+    id: normalized.id,
+    user_id: normalized.user_id,
+    type: normalized.type,
+    name: normalized.name,
+    config_hint: normalized.config_hint,
+    settings: channelConfig ? publicSettings(normalized.type, channelConfig) : {},
+    enabled: normalized.is_active === 1,
+    push_types: pushTypes,
+    created_at: normalized.created_at,
+    updated_at: normalized.updated_at,
+  };
+}
+
+function safeDecryptConfig(row: NotificationChannelsSelection): NotificationChannelConfig | null {
+  try {
+    return decryptConfig(row);
+  } catch (error) {
+    log.error({ error, channelId: row.id, userId: row.user_id }, 'Failed to decrypt notification channel config');
+    return null;
+  }
+}
+
+/**
+ * Decrypt channel config; rows that cannot be decrypted (e.g. key rotated) are skipped
+ */
+function rowToTarget(row: NotificationChannelsSelection): NotificationChannelTarget | null {
+  const channelConfig = safeDecryptConfig(row);
+  if (!channelConfig) {
+    return null;
+  }
+  return { ...rowToRecord(row, channelConfig), config: channelConfig } as NotificationChannelTarget;
+}
+
+type PushTypeColumns = Pick<Insertable<NotificationChannelsTable>, PushType>;
+
+/**
+ * 推送类型开关对应的列；defaults 为 true 时补齐全部类型（未指定的默认开启）
+ */
+function pushTypeColumns(pushTypes: Partial<NotificationPushTypes>, defaults: true): PushTypeColumns;
+function pushTypeColumns(pushTypes: Partial<NotificationPushTypes>, defaults: false): Partial<PushTypeColumns>;
+function pushTypeColumns(pushTypes: Partial<NotificationPushTypes>, defaults: boolean): Partial<PushTypeColumns> {
+  const columns: Partial<PushTypeColumns> = {};
+  for (const key of VALID_PUSH_TYPES) {
+    if (pushTypes[key] !== undefined || defaults) {
+      columns[key] = pushTypes[key] !== false ? 1 : 0;
+    }
+  }
+  return columns;
+}
+
+async function getChannelRow(userId: number, id: number): Promise<NotificationChannelsSelection | undefined> {
+  const db = getDb();
+  return db
+    .selectFrom('notification_channels')
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .selectAll()
+    .executeTakeFirst();
+}
+
+/* ── CRUD ── */
+
+/**
+ * Get all channels of a user
+ */
+export async function getNotificationChannels(userId: number): Promise<NotificationChannelRecord[]> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom('notification_channels')
+    .where('user_id', '=', userId)
+    .orderBy('created_at', 'asc')
+    .orderBy('id', 'asc')
+    .selectAll()
+    .execute();
+
+  return rows.map((row) => rowToRecord(row, safeDecryptConfig(row)));
+}
+
+/**
+ * Get a channel by ID (with decrypted config)
+ */
+export async function getNotificationChannelTarget(userId: number, id: number): Promise<NotificationChannelTarget | null> {
+  const row = await getChannelRow(userId, id);
+  return row ? rowToTarget(row) : null;
+}
+
+/**
+ * Add a channel
+ */
+export async function addNotificationChannel(
+  userId: number,
+  input: CreateNotificationChannelInput
+): Promise<NotificationChannelRecord> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('name is required');
+  }
+  const channelConfig = validateChannelConfig(input.type, input.config);
+
+  const values: Insertable<NotificationChannelsTable> = {
+    user_id: userId,
+    type: input.type,
+    name,
+    config_encrypted: encryptAPIKey(JSON.stringify(channelConfig), config.llmEncryptionKey),
+    config_hint: buildConfigHint(input.type, channelConfig),
+    is_active: input.enabled !== false ? 1 : 0,
+    ...pushTypeColumns(input.push_types || {}, true),
+  };
+
+  const db = getDb();
+  const row = await db
+    .insertInto('notification_channels')
+    .values(values)
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  log.info({ userId, id: row.id, type: row.type, name: row.name }, 'Notification channel added');
+  return rowToRecord(row, channelConfig);
+}
+
+/**
+ * Update a channel
+ * 提供 config 时整体替换，但留空的敏感字段沿用原值
+ */
+export async function updateNotificationChannel(
+  userId: number,
+  id: number,
+  input: UpdateNotificationChannelInput
+): Promise<NotificationChannelRecord | null> {
+  const existing = await getChannelRow(userId, id);
+  if (!existing) {
+    return null;
+  }
+
+  const updates: Updateable<NotificationChannelsTable> = {
+    updated_at: new Date().toISOString(),
+    ...pushTypeColumns(input.push_types || {}, false),
+  };
+
+  if (input.name !== undefined) {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('name is required');
+    }
+    updates.name = name;
+  }
+
+  let channelConfig = safeDecryptConfig(existing);
+  if (input.config !== undefined) {
+    const merged: Record<string, unknown> = { ...input.config };
+    for (const key of SECRET_FIELDS[existing.type]) {
+      const value = merged[key];
+      if ((value === undefined || value === '') && channelConfig) {
+        merged[key] = (channelConfig as unknown as Record<string, unknown>)[key];
+      }
+    }
+    channelConfig = validateChannelConfig(existing.type, merged);
+    updates.config_encrypted = encryptAPIKey(JSON.stringify(channelConfig), config.llmEncryptionKey);
+    updates.config_hint = buildConfigHint(existing.type, channelConfig);
+  }
+  if (input.enabled !== undefined) {
+    updates.is_active = input.enabled ? 1 : 0;
+  }
+
+  const db = getDb();
+  const row = await db
+    .updateTable('notification_channels')
+    .set(updates)
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .returningAll()
+    .executeTakeFirst();
+
+  if (!row) {
+    return null;
+  }
+
+  log.info({ userId, id, updates: Object.keys(input) }, 'Notification channel updated');
+  return rowToRecord(row, channelConfig);
+}
+
+/**
+ * Delete a channel
+ */
+export async function deleteNotificationChannel(userId: number, id: number): Promise<boolean> {
+  const db = getDb();
+  const result = await db
+    .deleteFrom('notification_channels')
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .executeTakeFirst();
+
+  const deleted = Number(result.numDeletedRows) > 0;
+  if (deleted) {
+    log.info({ userId, id }, 'Notification channel deleted');
+  }
+  return deleted;
+}
+
+/* ── Push targets ── */
+
+/**
+ * Get active channels of a user of the given type subscribed to any of the push types (with decrypted config)
+ */
+export async function getChannelsForPushTypes(
+  userId: number,
+  type: NotificationChannelType,
+  pushTypes: PushType[]
+): Promise<NotificationChannelTarget[]> {
+  if (pushTypes.length === 0) {
+    return [];
+  }
+
+  const db = getDb();
+  const rows = await db
+    .selectFrom('notification_channels')
+    .where('user_id', '=', userId)
+    .where('type', '=', type)
+    .where('is_active', '=', 1)
+    .where((eb) => eb.or(pushTypes.map((pushType) => eb(pushType, '=', 1))))
+    .orderBy('id', 'asc')
+    .selectAll()
+    .execute();
+
+  return rows.map(rowToTarget).filter((target): target is NotificationChannelTarget => target !== null);
+}
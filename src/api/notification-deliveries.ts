@@ -0,0 +1,272 @@
+/**
+ * Notification Delivery Outbox
+ *
+ * 每次推送按 (渠道, 接收者) 持久化在 notification_deliveries 表中：
+ * - 创建：idempotency_key 唯一，已存在（发送中 / 已发送 / 等待重试）时不重复创建
+ * - 领取：pending → sending（单条原子更新），attempts + 1
+ * - 失败：按 retryDelay * 2^(attempts-1) 退避后回到 pending，超过 max_attempts 后标记 failed
+ * - 重启恢复：sending 超过 SENDING_TIMEOUT_MS 未完成（进程在发送途中退出）视为可重试
+ */
+
+import { getDb, type NotificationDeliveriesSelection, type NotificationDeliveriesTable } from '../db.js';
+import { config } from '../config.js';
+import { normalizeDateFields } from '../utils/datetime.js';
+
+export type NotificationDeliveryStatus = NotificationDeliveriesTable['status'];
+
+/**
+ * 发送中状态的超时时间，超时后视为进程中断，可被重新领取
+ */
+const SENDING_TIMEOUT_MS = 10 * 60 * 1000;
+
+/* ── Types ── */
+
+export interface CreateNotificationDeliveryInput {
+  userId: number;
+  channel: string;
+  recipient: string;
+  recipientName?: string;
+  eventType: string;
+  eventKey: string;
+  idempotencyKey: string;
+  payloadJson: string;
+  payloadHash: string;
+}
+
+export type NotificationDeliveryRecord = Omit<NotificationDeliveriesSelection, 'payload_json'>;
+
+export interface NotificationDeliveryQuery {
+  userId: number;
+  page?: number;
+  limit?: number;
+  status?: NotificationDeliveryStatus;
+  channel?: string;
+  fromDate?: string;
+  toDate?: string;
+}
+
+export interface NotificationDeliveryResult {
+  logs: NotificationDeliveryRecord[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+/* ── Functions ── */
+
+/**
+ * Create a delivery in `sending` state (attempts = 1) for an immediate first attempt
+ *
+ * @returns The new delivery ID, or null if the idempotency key already exists
+ */
+export async function createNotificationDelivery(input: CreateNotificationDeliveryInput): Promise<number | null> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  const result = await db
+    .insertInto('notification_deliveries')
+    .orIgnore()
+    .values({
+      user_id: input.userId,
+      channel: input.channel,
+      recipient: input.recipient,
+      recipient_name: input.recipientName ?? null,
+      event_type: input.eventType,
+      event_key: input.eventKey,
+      idempotency_key: input.idempotencyKey,
+      payload_json: input.payloadJson,
+      payload_hash: input.payloadHash,
+      status: 'sending',
+      attempts: 1,
+      max_attempts: config.notificationMaxAttempts,
+      updated_at: now,
+    })
+    .executeTakeFirst();
+
+  if (Number(result.numInsertedOrUpdatedRows ?? 0) === 0) {
+    return null;
+  }
+  return Number(result.insertId);
+}
+
+/**
+ * Deliveries due for retry
+ *
+ * 可重试：到期的 pending，以及发送超时的 sending（进程中断）。
+ */
+export async function getDueNotificationDeliveries(limit: number): Promise<NotificationDeliveriesSelection[]> {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const sendingExpiredAt = new Date(Date.now() - SENDING_TIMEOUT_MS).toISOString();
+
+  return db
+    .selectFrom('notification_deliveries')
+    .where((eb) => eb.or([
+      eb.and([
+        eb('status', '=', 'pending'),
+        eb('next_attempt_at', '<=', now),
+      ]),
+      eb.and([
+        eb('status', '=', 'sending'),
+        eb('updated_at', '<=', sendingExpiredAt),
+      ]),
+    ]))
+    .selectAll()
+    .orderBy('next_attempt_at')
+    .orderBy('id')
+    .limit(limit)
+    .execute();
+}
+
+/**
+ * Claim a due delivery for a retry attempt
+ * @returns false if another attempt already claimed it
+ */
+export async function claimNotificationDelivery(delivery: NotificationDeliveriesSelection): Promise<boolean> {
+  const db = getDb();
+  const result = await db
+    .updateTable('notification_deliveries')
+    .set((eb) => ({
+      status: 'sending',
+      attempts: eb('attempts', '+', 1),
+      updated_at: new Date().toISOString(),
+    }))
+    .where('id', '=', delivery.id)
+    .where('status', '=', delivery.status)
+    .where('updated_at', '=', delivery.updated_at)
+    .executeTakeFirst();
+
+  return Number(result.numUpdatedRows) > 0;
+}
+
+/**
+ * Mark a delivery as sent
+ */
+export async function completeNotificationDelivery(id: number): Promise<void> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  await db
+    .updateTable('notification_deliveries')
+    .set({
+      status: 'sent',
+      next_attempt_at: null,
+      last_error: null,
+      sent_at: now,
+      updated_at: now,
+    })
+    .where('id', '=', id)
+    .execute();
+}
+
+/**
+ * Record a failed attempt
+ *
+ * 未用尽尝试次数时按 retryDelay * 2^(attempts-1) 退避后重新排队，否则标记 failed。
+ *
+ * @returns Resulting delivery status
+ */
+export async function failNotificationDelivery(id: number, error: string): Promise<NotificationDeliveryStatus | null> {
+  const db = getDb();
+
+  const delivery = await db
+    .selectFrom('notification_deliveries')
+    .where('id', '=', id)
+    .select(['attempts', 'max_attempts'])
+    .executeTakeFirst();
+
+  if (!delivery) return null;
+
+  const now = new Date();
+  const exhausted = delivery.attempts >= delivery.max_attempts;
+  const delay = config.notificationRetryDelay * Math.pow(2, Math.max(delivery.attempts - 1, 0));
+
+  await db
+    .updateTable('notification_deliveries')
+    .set({
+      status: exhausted ? 'failed' : 'pending',
+      next_attempt_at: exhausted ? null : new Date(now.getTime() + delay).toISOString(),
+      last_error: error.slice(0, 2000),
+      updated_at: now.toISOString(),
+    })
+    .where('id', '=', id)
+    .execute();
+
+  return exhausted ? 'failed' : 'pending';
+}
+
+/**
+ * Paginated query of deliveries (payload omitted)
+ */
+export async function getNotificationDeliveries(
+  query: NotificationDeliveryQuery
+): Promise<NotificationDeliveryResult> {
+  const db = getDb();
+  const page = query.page ?? 1;
+  const limit = query.limit ?? 20;
+  const offset = (page - 1) * limit;
+
+  let baseQuery = db
+    .selectFrom('notification_deliveries')
+    .where('user_id', '=', query.userId);
+
+  if (query.status) {
+    baseQuery = baseQuery.where('status', '=', query.status);
+  }
+
+  if (query.channel) {
+    baseQuery = baseQuery.where('channel', '=', query.channel);
+  }
+
+  if (query.fromDate) {
+    baseQuery = baseQuery.where('created_at', '>=', query.fromDate);
+  }
+
+  if (query.toDate) {
+    baseQuery = baseQuery.where('created_at', '<=', query.toDate);
+  }
+
+  const countRow = await baseQuery
+    .select((eb) => eb.fn.count('id').as('count'))
+    .executeTakeFirst();
+  const total = Number(countRow?.count ?? 0);
+
+  const logs = await baseQuery
+    .select([
+      'id',
+      'user_id',
+      'channel',
+      'recipient',
+      'recipient_name',
+      'event_type',
+      'event_key',
+      'idempotency_key',
+      'payload_hash',
+      'status',
+      'attempts',
+      'max_attempts',
+      'next_attempt_at',
+      'last_error',
+      'sent_at',
+      'created_at',
+      'updated_at',
+    ])
+    .orderBy('created_at', 'desc')
+    .orderBy('id', 'desc')
+    .limit(limit)
+    .offset(offset)
+    .execute();
+
+  const normalizedLogs = logs.map((log) =>
+    normalizeDateFields(log as Record<string, any>, ['created_at', 'sent_at'])
+  ) as NotificationDeliveryRecord[];
+
+  return {
+    logs: normalizedLogs,
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
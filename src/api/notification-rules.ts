@@ -0,0 +1,388 @@
+/**
+ * Notification Rules Service
+ *
+ * 新增文章推送规则按 (用户, 渠道, 接收者) 存储在 notification_rules 表，接收者与
+ * notification_deliveries.recipient 一致（Telegram chat ID / 企业微信 webhook ID / 通知渠道 ID）。
+ * 没有规则的接收者保持逐篇即时推送。
+ *
+ * 暂缓推送的文章写入 notification_digest_items，由 NotificationDigestScheduler 合并为摘要发送。
+ */
+
+import { getDb, type NotificationDigestItemsTable, type NotificationRulesSelection } from '../db.js';
+import { normalizeDateFields } from '../utils/datetime.js';
+import { getTelegramChats } from './telegram-chats.js';
+import { getWeChatWebhooks } from './wechat-webhooks.js';
+import { getNotificationChannels } from './notification-channels.js';
+
+/* ── Types ── */
+
+export type DigestItemReason = NotificationDigestItemsTable['reason'];
+
+export interface NotificationRule {
+  id: number;
+  channel: string;
+  recipient: string;
+  /** 免打扰开始 HH:MM（用户时区）；开始晚于结束表示跨午夜 */
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  /** 摘要合并间隔（分钟），0 = 逐篇推送 */
+  digestInterval: number;
+  /** 每小时推送上限（一条摘要算一次），0 = 不限 */
+  maxPerHour: number;
+  /** 最低 filter_score（0-1），null = 不限 */
+  minScore: number | null;
+  /** 订阅的主题领域，null = 全部 */
+  domainIds: number[] | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NotificationRuleInput {
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  digestInterval: number;
+  maxPerHour: number;
+  minScore: number | null;
+  domainIds: number[] | null;
+}
+
+/**
+ * A push recipient with its rule (settings page)
+ */
+export interface NotificationRuleRecipient {
+  channel: string;
+  recipient: string;
+  name: string;
+  /** 是否订阅了新增文章推送 */
+  newArticles: boolean;
+  rule: NotificationRule | null;
+  /** 暂缓待合并的文章数 */
+  pendingCount: number;
+}
+
+export interface DigestRecipient {
+  userId: number;
+  channel: string;
+  recipient: string;
+  itemCount: number;
+  /** 最早一篇暂缓文章的入队时间（ISO） */
+  oldestAt: string;
+}
+
+export interface DigestItem {
+  id: number;
+  articleId: number;
+  reason: DigestItemReason;
+}
+
+/* ── Helpers ── */
+
+function parseDomainIds(value: string | null): number[] | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((id): id is number => Number.isInteger(id)) : null;
+  } catch {
+    return null;
+  }
+}
+
+function rowToRule(row: NotificationRulesSelection): NotificationRule {
+  const normalized = normalizeDateFields({ ...row }, ['created_at', 'updated_at']);
+  return {
+    id: normalized.id,
+    channel: normalized.channel,
+    recipient: normalized.recipient,
+    quietHoursStart: normalized.quiet_hours_start,
+    quietHoursEnd: normalized.quiet_hours_end,
+    digestInterval: normalized.digest_interval,
+    maxPerHour: normalized.max_per_hour,
+    minScore: normalized.min_score,
+    domainIds: parseDomainIds(normalized.domain_ids),
+    createdAt: normalized.created_at,
+    updatedAt: normalized.updated_at,
+  };
+}
+
+/* ── Rules ── */
+
+/**
+ * Get all rules of a user
+ */
+export async function getNotificationRules(userId: number): Promise<NotificationRule[]> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom('notification_rules')
+    .where('user_id', '=', userId)
+    .orderBy('id', 'asc')
+    .selectAll()
+    .execute();
+
+  return rows.map(rowToRule);
+}
+
+/**
+ * Get the rule of one recipient (null = default immediate delivery)
+ */
+export async function getNotificationRule(
+  userId: number,
+  channel: string,
+  recipient: string
+): Promise<NotificationRule | null> {
+  const db = getDb();
+  const row = await db
+    .selectFrom('notification_rules')
+    .where('user_id', '=', userId)
+    .where('channel', '=', channel)
+    .where('recipient', '=', recipient)
+    .selectAll()
+    .executeTakeFirst();
+
+  return row ? rowToRule(row) : null;
+}
+
+/**
+ * Create or replace the rule of a recipient
+ */
+export async function saveNotificationRule(
+  userId: number,
+  channel: string,
+  recipient: string,
+  input: NotificationRuleInput
+): Promise<NotificationRule> {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const values = {
+    quiet_hours_start: input.quietHoursStart,
+    quiet_hours_end: input.quietHoursEnd,
+    digest_interval: input.digestInterval,
+    max_per_hour: input.maxPerHour,
+    min_score: input.minScore,
+    domain_ids: input.domainIds && input.domainIds.length > 0 ? JSON.stringify(input.domainIds) : null,
+    updated_at: now,
+  };
+
+  await db
+    .insertInto('notification_rules')
+    .values({ user_id: userId, channel, recipient, ...values })
+    .onConflict((oc) => oc.columns(['user_id', 'channel', 'recipient']).doUpdateSet(values))
+    .execute();
+
+  const rule = await getNotificationRule(userId, channel, recipient);
+  if (!rule) {
+    throw new Error('Failed to save notification rule');
+  }
+  return rule;
+}
+
+/**
+ * Delete the rule of a recipient (back to immediate delivery)
+ *
+ * 已暂缓的文章保留在队列中，由调度器在下一轮合并发送。
+ */
+export async function deleteNotificationRule(userId: number, channel: string, recipient: string): Promise<boolean> {
+  const db = getDb();
+  const result = await db
+    .deleteFrom('notification_rules')
+    .where('user_id', '=', userId)
+    .where('channel', '=', channel)
+    .where('recipient', '=', recipient)
+    .executeTakeFirst();
+
+  return Number(result.numDeletedRows ?? 0) > 0;
+}
+
+/**
+ * List every recipient of a user (Telegram chats, WeChat webhooks, configured channels) with its rule
+ */
+export async function getNotificationRuleRecipients(userId: number): Promise<NotificationRuleRecipient[]> {
+  const [chats, webhooks, channels, rules, pendingCounts] = await Promise.all([
+    getTelegramChats(userId),
+    getWeChatWebhooks(userId),
+    getNotificationChannels(userId),
+    getNotificationRules(userId),
+    getDigestItemCounts(userId),
+  ]);
+
+  const recipients: Array<Omit<NotificationRuleRecipient, 'rule' | 'pendingCount'>> = [
+    ...chats.map((chat) => ({
+      channel: 'telegram',
+      recipient: chat.chatId,
+      name: chat.chatName || chat.chatId,
+      newArticles: chat.isActive && !chat.isPaused && chat.newArticles,
+    })),
+    ...webhooks.map((webhook) => ({
+      channel: 'wechat',
+      recipient: String(webhook.id),
+      name: webhook.name,
+      newArticles: webhook.enabled && webhook.push_types.new_articles,
+    })),
+    ...channels.map((channel) => ({
+      channel: channel.type,
+      recipient: String(channel.id),
+      name: channel.name,
+      newArticles: channel.enabled && channel.push_types.new_articles,
+    })),
+  ];
+
+  return recipients.map((recipient) => {
+    const key = `${recipient.channel}:${recipient.recipient}`;
+    return {
+      ...recipient,
+      rule: rules.find((rule) => `${rule.channel}:${rule.recipient}` === key) ?? null,
+      pendingCount: pendingCounts[key] ?? 0,
+    };
+  });
+}
+
+/* ── Policy inputs ── */
+
+/**
+ * New-article pushes (single or digest) sent to a recipient since the given time
+ */
+export async function countRecentNewArticleDeliveries(
+  userId: number,
+  channel: string,
+  recipient: string,
+  since: string
+): Promise<number> {
+  const db = getDb();
+  const row = await db
+    .selectFrom('notification_deliveries')
+    .where('user_id', '=', userId)
+    .where('channel', '=', channel)
+    .where('recipient', '=', recipient)
+    .where('event_type', 'in', ['new_articles', 'new_articles_digest'])
+    .where('status', '=', 'sent')
+    .where('sent_at', '>=', since)
+    .select((eb) => eb.fn.countAll<number>().as('count'))
+    .executeTakeFirst();
+
+  return Number(row?.count ?? 0);
+}
+
+/**
+ * Topic domains an article passed the filter in
+ */
+export async function getArticlePassedDomainIds(articleId: number): Promise<number[]> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom('article_filter_logs')
+    .where('article_id', '=', articleId)
+    .where('is_passed', '=', 1)
+    .where('domain_id', 'is not', null)
+    .select('domain_id')
+    .distinct()
+    .execute();
+
+  return rows.map((row) => row.domain_id as number);
+}
+
+/* ── Digest queue ── */
+
+/**
+ * Queue an article for the next digest of a recipient (duplicates are ignored)
+ */
+export async function queueDigestItem(
+  userId: number,
+  channel: string,
+  recipient: string,
+  articleId: number,
+  reason: DigestItemReason
+): Promise<void> {
+  const db = getDb();
+  await db
+    .insertInto('notification_digest_items')
+    .orIgnore()
+    .values({
+      user_id: userId,
+      channel,
+      recipient,
+      article_id: articleId,
+      reason,
+      created_at: new Date().toISOString(),
+    })
+    .execute();
+}
+
+/**
+ * Recipients with queued articles
+ */
+export async function getDigestRecipients(): Promise<DigestRecipient[]> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom('notification_digest_items')
+    .select((eb) => [
+      'user_id',
+      'channel',
+      'recipient',
+      eb.fn.countAll<number>().as('item_count'),
+      eb.fn.min('created_at').as('oldest_at'),
+    ])
+    .groupBy(['user_id', 'channel', 'recipient'])
+    .execute();
+
+  return rows.map((row) => ({
+    userId: row.user_id,
+    channel: row.channel,
+    recipient: row.recipient,
+    itemCount: Number(row.item_count),
+    oldestAt: String(row.oldest_at),
+  }));
+}
+
+/**
+ * Queued article counts of a user, keyed by `channel:recipient`
+ */
+export async function getDigestItemCounts(userId: number): Promise<Record<string, number>> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom('notification_digest_items')
+    .where('user_id', '=', userId)
+    .select((eb) => ['channel', 'recipient', eb.fn.countAll<number>().as('item_count')])
+    .groupBy(['channel', 'recipient'])
+    .execute();
+
+  const counts: Record<string, number> = {};
+  for (const row of rows) {
+    counts[`${row.channel}:${row.recipient}`] = Number(row.item_count);
+  }
+  return counts;
+}
+
+/**
+ * Oldest queued articles of a recipient
+ */
+export async function getDigestItems(
+  userId: number,
+  channel: string,
+  recipient: string,
+  limit: number
+): Promise<DigestItem[]> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom('notification_digest_items')
+    .where('user_id', '=', userId)
+    .where('channel', '=', channel)
+    .where('recipient', '=', recipient)
+    .select(['id', 'article_id', 'reason'])
+    .orderBy('created_at', 'asc')
+    .orderBy('id', 'asc')
+    .limit(limit)
+    .execute();
+
+  return rows.map((row) => ({ id: row.id, articleId: row.article_id, reason: row.reason }));
+}
+
+/**
+ * Remove queued articles once their digest has been handed to the outbox
+ */
+export async function deleteDigestItems(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const db = getDb();
+  await db
+    .deleteFrom('notification_digest_items')
+    .where('id', 'in', ids)
+    .execute();
+}
@@ -7,7 +7,8 @@ import { normalizeDateFields } from '../utils/datetime.js';
 
 const log = logger.child({ module: 'process-logs' });
 
-export type ProcessStage = 'markdown' | 'translate' | 'vector' | 'related' | 'pipeline_complete';
+// 阶段名由流水线注册表决定（另有 'pipeline_complete' 表示整体完成）
+export type ProcessStage = string;
 export type ProcessStatus = 'processing' | 'completed' | 'failed' | 'skipped';
 
 export interface CreateProcessLogInput {
@@ -1,16 +1,21 @@
 import express from 'express';
 import pingRoutes from './routes/ping.routes.js';
 import authRoutes from './routes/auth.routes.js';
+import apiTokenRoutes from './routes/api-tokens.routes.js';
+import workspaceRoutes from './routes/workspaces.routes.js';
+import userRoutes from './routes/users.routes.js';
 import rssSourceRoutes from './routes/rss-sources.routes.js';
 import topicDomainRoutes from './routes/topic-domains.routes.js';
 import topicKeywordsRoutes from './routes/topic-keywords.routes.js';
 import llmConfigRoutes from './routes/llm-configs.routes.js';
+import llmUsageRoutes from './routes/llm-usage.routes.js';
 import filterRoutes from './routes/filter.routes.js';
 import schedulerRoutes from './routes/scheduler.routes.js';
 import articleRoutes from './routes/articles.routes.js';
 import articleProcessRoutes from './routes/article-process.routes.js';
 import searchRoutes from './routes/search.routes.js';
 import settingsRoutes from './routes/settings.routes.js';
+import vectorIndexRoutes from './routes/vector-index.routes.js';
 import systemPromptRoutes from './routes/system-prompts.routes.js';
 import dailySummaryRoutes from './routes/daily-summary.routes.js';
 import typesRoutes from './routes/types.routes.js';
@@ -19,7 +24,11 @@ import keywordsRoutes from './routes/keywords.routes.js';
 import logsRoutes from './routes/logs.routes.js';
 import blacklistRoutes from './routes/blacklist.routes.js';
 import telegramChatsRoutes from './routes/telegram-chats.routes.js';
+import telegramWebhookRoutes from './routes/telegram-webhook.routes.js';
 import wechatRoutes from './routes/wechat.routes.js';
+import notificationChannelRoutes from './routes/notification-channels.routes.js';
+import notificationRuleRoutes from './routes/notification-rules.routes.js';
+import savedSearchRoutes from './routes/saved-searches.routes.js';
 import pdfSummaryRoutes from './routes/pdf-summary.routes.js';
 import deepsearchRoutes from './routes/deepsearch.routes.js';
 import externalSearchRoutes from './routes/external-search.routes.js';
@@ -30,16 +39,22 @@ const router = express.Router();
 
 router.use(pingRoutes);
 router.use(authRoutes);
+router.use(apiTokenRoutes);
+router.use(workspaceRoutes);
+router.use(userRoutes);
 router.use(rssSourceRoutes);
 router.use(topicDomainRoutes);
 router.use(topicKeywordsRoutes);
 router.use(llmConfigRoutes);
+router.use(llmUsageRoutes);
 router.use(filterRoutes);
 router.use(schedulerRoutes);
 router.use(articleProcessRoutes);
 router.use(articleRoutes);
 router.use('/search', searchRoutes);
+router.use(savedSearchRoutes);
 router.use(settingsRoutes);
+router.use(vectorIndexRoutes);
 router.use(systemPromptRoutes);
 router.use(dailySummaryRoutes);
 router.use(typesRoutes);
@@ -48,7 +63,10 @@ router.use(keywordsRoutes);
 router.use(logsRoutes);
 router.use(blacklistRoutes);
 router.use(telegramChatsRoutes);
+router.use(telegramWebhookRoutes);
 router.use(wechatRoutes);
+router.use(notificationChannelRoutes);
+router.use(notificationRuleRoutes);
 router.use(pdfSummaryRoutes);
 router.use('/deepsearch', deepsearchRoutes);
 router.use(externalSearchRoutes);
@@ -0,0 +1,84 @@
+import express from 'express';
+import type { AuthRequest } from '../../middleware/auth.js';
+import { requireAuth, requireMember } from '../../middleware/auth.js';
+import * as apiTokenService from '../api-tokens.js';
+import { logger } from '../../logger.js';
+
+const log = logger.child({ module: 'api-routes/api-tokens' });
+
+const router = express.Router();
+
+/**
+ * GET /api/api-tokens
+ * List API tokens of the current user (secrets are never returned)
+ */
+router.get('/api-tokens', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const tokens = await apiTokenService.getApiTokens(req.userId!);
+    res.json({ tokens, scopes: apiTokenService.API_TOKEN_SCOPES });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to get API tokens');
+    res.status(500).json({ error: 'Failed to get API tokens' });
+  }
+});
+
+/**
+ * POST /api/api-tokens
+ * Mint a token: { name, scopes: string[], expiresAt?: ISO date | null }
+ * 明文 token 仅在此响应中返回一次
+ */
+router.post('/api-tokens', requireAuth, requireMember, async (req: AuthRequest, res) => {
+  try {
+    const { name, scopes, expiresAt } = req.body || {};
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(apiTokenService.isApiTokenScope)) {
+      return res.status(400).json({ error: `scopes must be a non-empty array of: ${apiTokenService.API_TOKEN_SCOPES.join(', ')}` });
+    }
+    if (expiresAt !== undefined && expiresAt !== null && expiresAt !== '' && typeof expiresAt !== 'string') {
+      return res.status(400).json({ error: 'expiresAt must be a date string' });
+    }
+
+    const result = await apiTokenService.createApiToken(req.userId!, {
+      name,
+      scopes,
+      expiresAt: expiresAt || null,
+    });
+
+    res.status(201).json({ token: result.token, ...result.record });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('is required') || message.includes('must be')) {
+      return res.status(400).json({ error: message });
+    }
+    log.error({ error, userId: req.userId }, 'Failed to create API token');
+    res.status(500).json({ error: 'Failed to create API token' });
+  }
+});
+
+/**
+ * DELETE /api/api-tokens/:id
+ * Revoke a token
+ */
+router.delete('/api-tokens/:id', requireAuth, requireMember, async (req: AuthRequest, res) => {
+  try {
+    const idParam = req.params.id;
+    const id = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid API token ID' });
+    }
+
+    await apiTokenService.revokeApiToken(id, req.userId!);
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'API token not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    log.error({ error, userId: req.userId }, 'Failed to revoke API token');
+    res.status(500).json({ error: 'Failed to revoke API token' });
+  }
+});
+
+export default router;
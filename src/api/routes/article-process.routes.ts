@@ -57,6 +57,38 @@ router.get('/articles/failed', requireAuth, async (req: AuthRequest, res) => {
   await articleProcessService.getFailedArticles(req, res);
 });
 
+/**
+ * GET /api/articles/stages
+ * List registered pipeline stages
+ */
+router.get('/articles/stages', requireAuth, async (req: AuthRequest, res) => {
+  await articleProcessService.listStages(req, res);
+});
+
+/**
+ * POST /api/articles/stages/:stage/rerun
+ * Re-run a single stage over a filtered set of articles
+ */
+router.post('/articles/stages/:stage/rerun', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  await articleProcessService.triggerStageRerun(req, res);
+});
+
+/**
+ * GET /api/articles/jobs
+ * Get job queue depth, worker status and recent jobs (filter by ?status=dead for failures)
+ */
+router.get('/articles/jobs', requireAuth, async (req: AuthRequest, res) => {
+  await articleProcessService.getJobQueue(req, res);
+});
+
+/**
+ * POST /api/articles/jobs/:id/retry
+ * Re-queue a dead job
+ */
+router.post('/articles/jobs/:id/retry', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  await articleProcessService.retryJob(req, res);
+});
+
 /**
  * POST /api/articles/filter-and-process-batch
  * Filter pending articles and process all ready articles
@@ -3,10 +3,11 @@ import type { AuthRequest } from '../../middleware/auth.js';
 import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
 import { getDb } from '../../db.js';
 import * as articleService from '../articles.js';
+import { getArticleSourceLinks } from '../article-dedup.js';
 import { logger } from '../../logger.js';
 import { deleteArticle as deleteVectorArticle } from '../../vector/indexer.js';
 import { getActiveConfigByType } from '../llm-configs.js';
-import { getClient } from '../../vector/chroma-client.js';
+import { checkVectorStore } from '../../vector/vector-store.js';
 import { getChromaSettings } from '../settings.js';
 import { getUserTimezone, buildUtcRangeFromLocalDate } from '../timezone.js';
 
@@ -132,6 +133,10 @@ router.get('/articles', requireAuth, async (req: AuthRequest, res) => {
     const ratingNull = ratingParam === 'unrated' ? true : undefined;
     // 默认不排除拒绝状态（前端默认选择"通过"）
     const excludeRejected = req.query.excludeRejected === 'true';
+    // 书目元数据筛选
+    const author = (req.query.author as string | undefined)?.trim() || undefined;
+    const keyword = (req.query.keyword as string | undefined)?.trim() || undefined;
+    const doi = (req.query.doi as string | undefined)?.trim() || undefined;
 
     const result = await articleService.getUserArticles(req.effectiveUserId!, {
       page,
@@ -155,6 +160,9 @@ router.get('/articles', requireAuth, async (req: AuthRequest, res) => {
       rating,
       ratingNull,
       excludeRejected,
+      author,
+      keyword,
+      doi,
     });
 
     res.json(result);
@@ -341,36 +349,28 @@ router.get('/articles/vector-check', requireAuth, async (req: AuthRequest, res)
     const embeddingConfig = await getActiveConfigByType(userId, 'embedding');
     const hasEmbedding = !!embeddingConfig;
 
-    // 检查 Chroma 配置和服务
+    // 检查向量存储后端（Chroma 服务或嵌入式存储）
     const chromaSettings = await getChromaSettings(userId);
-    let chromaStatus = 'unknown';
-    try {
-      const client = await getClient(userId);
-      await client.heartbeat();
-      chromaStatus = 'available';
-    } catch {
-      chromaStatus = 'unavailable';
-    }
+    const vectorStore = await checkVectorStore(userId);
+    const chromaStatus = vectorStore.available ? 'available' : 'unavailable';
 
     const embeddingMessage = hasEmbedding
       ? 'Embedding 配置正常'
       : '缺少 Embedding 配置。请在"LLM 配置"中添加一个 config_type 为 "embedding" 的配置。';
 
-    const chromaMessage = chromaStatus === 'available'
-      ? 'Chroma 服务正常'
-      : `Chroma 服务不可用 (${chromaSettings.host}:${chromaSettings.port})。请检查 Chroma 服务是否运行，或在"设置"中配置正确的 host 和 port。`;
-
     res.json({
       embedding: {
         configured: hasEmbedding,
         message: embeddingMessage,
       },
+      // 字段名沿用 chroma，backend 为实际使用的向量存储后端
       chroma: {
         configured: true,
+        backend: vectorStore.backend,
         status: chromaStatus,
         host: chromaSettings.host,
         port: chromaSettings.port,
-        message: chromaMessage,
+        message: vectorStore.message,
       },
       ready: hasEmbedding && chromaStatus === 'available',
     });
@@ -490,6 +490,35 @@ router.get('/articles/:id/related', requireAuth, async (req: AuthRequest, res) =
   }
 });
 
+/**
+ * GET /api/articles/:id/sources
+ * 获取同时收录该文章的其他来源（跨源去重关联）
+ */
+router.get('/articles/:id/sources', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const idParam = req.params.id;
+    if (typeof idParam !== 'string') {
+      return res.status(400).json({ error: 'Invalid article ID' });
+    }
+    const id = parseInt(idParam);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid article ID' });
+    }
+
+    const article = await articleService.getArticleById(id, req.effectiveUserId!);
+    if (!article) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+
+    const links = await getArticleSourceLinks(id);
+    res.json({ links });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to get article source links');
+    res.status(500).json({ error: 'Failed to get article source links' });
+  }
+});
+
 /**
  * PATCH /api/articles/:id/read
  * Update article read status
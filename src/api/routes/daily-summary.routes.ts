@@ -4,7 +4,7 @@
 
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireCliAuth, requireWriteAccess } from '../../middleware/auth.js';
+import { requireApiToken, requireAuth, requireWriteAccess } from '../../middleware/auth.js';
 import { logger } from '../../logger.js';
 import * as dailySummaryService from '../daily-summary.js';
 import { getUserLocalDate } from '../timezone.js';
@@ -42,7 +42,7 @@ router.post('/daily-summary/generate', requireAuth, requireWriteAccess, async (r
     const type = parseSummaryType(req.body?.type);
 
     const result = await dailySummaryService.generateDailySummary({
-      userId: req.userId!,
+      userId: req.effectiveUserId!,
       date,
       limit,
       type,
@@ -50,7 +50,7 @@ router.post('/daily-summary/generate', requireAuth, requireWriteAccess, async (r
 
     // 保存到数据库
     await dailySummaryService.saveDailySummary({
-      userId: req.userId!,
+      userId: req.effectiveUserId!,
       date: result.date,
       type: result.type,
       articleCount: result.totalArticles,
@@ -227,7 +227,7 @@ router.get('/daily-summary/:date/articles', requireAuth, async (req: AuthRequest
 /**
  * POST /api/daily-summary/cli
  * CLI 专用端点：生成当日总结（无需 Cookie 认证）
- * 使用 user_id 和 api_key 查询参数进行认证
+ * 使用 API Token（summary:write 权限）认证，用户由 token 确定
  *
  * Body 参数:
  * - date: 可选，日期 (YYYY-MM-DD)
@@ -239,11 +239,11 @@ router.get('/daily-summary/:date/articles', requireAuth, async (req: AuthRequest
  * - 如果数据库中已存在当天总结，直接返回
  * - 如果不存在，生成新的总结并保存
  */
-router.post('/daily-summary/cli', requireCliAuth, async (req: AuthRequest, res) => {
+router.post('/daily-summary/cli', requireApiToken('summary:write'), async (req: AuthRequest, res) => {
   try {
     const { date, limit, generateAll } = req.body || {};
     const type = parseSummaryType(req.body?.type);
-    const targetDate = date || await getUserLocalDate(req.userId!);
+    const targetDate = date || await getUserLocalDate(req.effectiveUserId!);
 
     // 如果请求生成所有类型的总结
     if (generateAll) {
@@ -252,7 +252,7 @@ router.post('/daily-summary/cli', requireCliAuth, async (req: AuthRequest, res)
       
       for (const t of types) {
         // 检查是否已存在
-        const existing = await dailySummaryService.getDailySummaryByDate(req.userId!, targetDate, t);
+        const existing = await dailySummaryService.getDailySummaryByDate(req.effectiveUserId!, targetDate, t);
         
         if (existing) {
           const articlesData = JSON.parse(existing.articles_data);
@@ -271,7 +271,7 @@ router.post('/daily-summary/cli', requireCliAuth, async (req: AuthRequest, res)
         } else {
           // 生成新的总结
           const result = await dailySummaryService.generateDailySummary({
-            userId: req.userId!,
+            userId: req.effectiveUserId!,
             date: targetDate,
             limit,
             type: t,
@@ -279,7 +279,7 @@ router.post('/daily-summary/cli', requireCliAuth, async (req: AuthRequest, res)
           
           if (result.totalArticles > 0) {
             await dailySummaryService.saveDailySummary({
-              userId: req.userId!,
+              userId: req.effectiveUserId!,
               date: result.date,
               type: result.type,
               articleCount: result.totalArticles,
@@ -306,7 +306,7 @@ router.post('/daily-summary/cli', requireCliAuth, async (req: AuthRequest, res)
     const targetType = type || 'all';
     
     // 先检查数据库是否已有当天的总结
-    const existing = await dailySummaryService.getDailySummaryByDate(req.userId!, targetDate, targetType);
+    const existing = await dailySummaryService.getDailySummaryByDate(req.effectiveUserId!, targetDate, targetType);
 
     if (existing) {
       // 已存在，直接返回
@@ -332,7 +332,7 @@ router.post('/daily-summary/cli', requireCliAuth, async (req: AuthRequest, res)
     log.info({ userId: req.userId, date: targetDate, type: targetType }, 'CLI: Generating new daily summary');
 
     const result = await dailySummaryService.generateDailySummary({
-      userId: req.userId!,
+      userId: req.effectiveUserId!,
       date: targetDate,
       limit,
       type: targetType,
@@ -357,7 +357,7 @@ router.post('/daily-summary/cli', requireCliAuth, async (req: AuthRequest, res)
     } else {
       // 有新文章，保存到数据库并返回完整结果
       await dailySummaryService.saveDailySummary({
-        userId: req.userId!,
+        userId: req.effectiveUserId!,
         date: result.date,
         type: result.type,
         articleCount: result.totalArticles,
@@ -393,7 +393,7 @@ router.post('/daily-summary/journal-all/generate', requireAuth, requireWriteAcce
     const { date } = req.body || {};
 
     const result = await dailySummaryService.generateJournalAllSummary({
-      userId: req.userId!,
+      userId: req.effectiveUserId!,
       date,
     });
 
@@ -409,13 +409,13 @@ router.post('/daily-summary/journal-all/generate', requireAuth, requireWriteAcce
  * POST /api/daily-summary/journal-all/cli
  * CLI 专用端点：生成全部期刊总结
  */
-router.post('/daily-summary/journal-all/cli', requireCliAuth, async (req: AuthRequest, res) => {
+router.post('/daily-summary/journal-all/cli', requireApiToken('summary:write'), async (req: AuthRequest, res) => {
   try {
     const { date } = req.body || {};
-    const targetDate = date || await getUserLocalDate(req.userId!);
+    const targetDate = date || await getUserLocalDate(req.effectiveUserId!);
 
     // 先检查是否已存在
-    const existing = await dailySummaryService.getDailySummaryByDate(req.userId!, targetDate, 'journal_all');
+    const existing = await dailySummaryService.getDailySummaryByDate(req.effectiveUserId!, targetDate, 'journal_all');
 
     if (existing) {
       log.info({ userId: req.userId, date: targetDate }, 'CLI: Returning cached journal all summary');
@@ -437,7 +437,7 @@ router.post('/daily-summary/journal-all/cli', requireCliAuth, async (req: AuthRe
     // 生成新的总结
     log.info({ userId: req.userId, date: targetDate }, 'CLI: Generating new journal all summary');
     const result = await dailySummaryService.generateJournalAllSummary({
-      userId: req.userId!,
+      userId: req.effectiveUserId!,
       date: targetDate,
     });
 
@@ -476,14 +476,38 @@ router.post('/daily-summary/journal-all/cli', requireCliAuth, async (req: AuthRe
  * 
  * Body 参数:
  * - days: 可选，天数 (默认使用环境变量 INSIGHTS_DAYS)
+ * - stream: 可选，为 true 时以 NDJSON 流式返回：
+ *   {"type":"chunk","text":"..."} 逐段输出，最后一行为 {"type":"done","result":{...}} 或 {"type":"error","error":"..."}
  */
 router.post('/daily-summary/insights/generate', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
-  try {
-    const { days } = req.body || {};
-    const defaultDays = config.insightsDays || 15;
+  const { days, stream } = req.body || {};
+  const defaultDays = config.insightsDays || 15;
+
+  if (stream === true) {
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.flushHeaders();
+    const writeLine = (payload: Record<string, unknown>) => res.write(`${JSON.stringify(payload)}\n`);
+
+    try {
+      const result = await dailySummaryService.generateInsightsSummary({
+        userId: req.effectiveUserId!,
+        days: days || defaultDays,
+        onChunk: (text) => writeLine({ type: 'chunk', text }),
+      });
+      writeLine({ type: 'done', result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to generate insights summary';
+      log.error({ error, userId: req.userId }, 'Failed to generate insights summary');
+      writeLine({ type: 'error', error: message });
+    }
+    res.end();
+    return;
+  }
 
+  try {
     const result = await dailySummaryService.generateInsightsSummary({
-      userId: req.userId!,
+      userId: req.effectiveUserId!,
       days: days || defaultDays,
     });
 
@@ -4,9 +4,15 @@ import path from 'path';
 import { randomUUID } from 'crypto';
 import { sql } from 'kysely';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth } from '../../middleware/auth.js';
+import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
 import { getDb, type DeepSearchTasksSelection } from '../../db.js';
 import { startDeepSearchTask, getRuntimeTask, type DeepSearchRuntimeResult } from '../deepsearch.executor.js';
+import {
+  formatSearchFilters,
+  hasSearchFilters,
+  normalizeSearchFilters,
+  type SearchFilters,
+} from '../../vector/search-filters.js';
 import { createZipBuffer } from '../../utils/simple-zip.js';
 
 const router = express.Router();
@@ -35,6 +41,9 @@ interface DeepSearchTaskResponse {
   scoreThreshold: number;
   maxFinalArticles: number;
   skipPdfSummary: boolean;
+  filters: SearchFilters | null;
+  /** 筛选条件的查询语法形式（展示用） */
+  filtersText: string;
   status: string;
   externalTaskId: string | null;
   progress: { step: string; current: number; total: number } | null;
@@ -156,7 +165,7 @@ async function collectFilesRecursively(rootDir: string, currentDir = rootDir): P
 router.get('/tasks', requireAuth, async (req: AuthRequest, res) => {
   try {
     const db = getDb();
-    const userId = req.userId!;
+    const userId = req.effectiveUserId!;
     const keyword = typeof req.query.keyword === 'string' ? req.query.keyword.trim() : '';
     const status = typeof req.query.status === 'string' ? req.query.status.trim() : '';
     const createdFrom = typeof req.query.created_from === 'string' ? req.query.created_from.trim() : '';
@@ -204,14 +213,21 @@ router.get('/tasks', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
-router.post('/tasks', requireAuth, async (req: AuthRequest, res) => {
+router.post('/tasks', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
-    const { task_name, input_md, rounds, semantic_limit, score_threshold, max_final_articles, skip_pdf_summary } = req.body;
+    const { task_name, input_md, rounds, semantic_limit, score_threshold, max_final_articles, skip_pdf_summary, filters } = req.body;
 
     if (!task_name || !input_md) {
       return res.status(400).json({ error: 'task_name and input_md are required' });
     }
 
+    // filters：SearchFilters 对象或筛选语法字符串（如 year:2024..2026 origin:journal rating>=4）
+    const searchFilters = normalizeSearchFilters(filters);
+    if (typeof searchFilters === 'string') {
+      return res.status(400).json({ error: searchFilters });
+    }
+    const taskFilters = hasSearchFilters(searchFilters) ? searchFilters : undefined;
+
     const roundsNum = toNumber(rounds, 1);
     const semanticLimitNum = toNumber(semantic_limit, 5);
     const scoreThresholdNum = toNumber(score_threshold, 0.65);
@@ -219,7 +235,7 @@ router.post('/tasks', requireAuth, async (req: AuthRequest, res) => {
     const skipPdfSummary = toBoolean(skip_pdf_summary, false);
 
     const db = getDb();
-    const userId = req.userId!;
+    const userId = req.effectiveUserId!;
     const internalTaskId = randomUUID();
     const now = new Date().toISOString();
 
@@ -234,6 +250,7 @@ router.post('/tasks', requireAuth, async (req: AuthRequest, res) => {
         score_threshold: scoreThresholdNum,
         max_final_articles: maxFinalArticlesNum,
         skip_pdf_summary: skipPdfSummary ? 1 : 0,
+        filters_json: taskFilters ? JSON.stringify(taskFilters) : null,
         external_task_id: internalTaskId,
         status: 'running',
         article_count: 0,
@@ -268,6 +285,7 @@ router.post('/tasks', requireAuth, async (req: AuthRequest, res) => {
       semanticLimit: semanticLimitNum,
       maxFinalArticles: maxFinalArticlesNum,
       skipPdfSummary,
+      filters: taskFilters,
       onCompleted: async (result: DeepSearchRuntimeResult) => {
         const finishTime = new Date().toISOString();
         const runtime = getRuntimeTask(internalTaskId);
@@ -330,7 +348,7 @@ router.get('/tasks/:id', requireAuth, async (req: AuthRequest, res) => {
     const db = getDb();
     const taskIdStr = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const taskId = parseInt(taskIdStr, 10);
-    const userId = req.userId!;
+    const userId = req.effectiveUserId!;
 
     const task = await db
       .selectFrom('deepsearch_tasks')
@@ -356,6 +374,7 @@ router.get('/tasks/:id', requireAuth, async (req: AuthRequest, res) => {
     let responsePdfSummaryFailed = task.pdf_summary_failed;
     let responsePdfSummarySkipped = task.pdf_summary_skipped;
     let responseSearchStats: DeepSearchStatsResponse | null = parseJsonObject<DeepSearchStatsResponse>(task.search_stats_json);
+    const taskFilters = parseJsonObject<SearchFilters>(task.filters_json);
     let responseOutputDir: string | null = responseReportPath ? path.dirname(responseReportPath) : null;
     let responseLogs = parseStringArray(task.execution_logs_json);
     if (responseLogs.length === 0) {
@@ -409,6 +428,8 @@ router.get('/tasks/:id', requireAuth, async (req: AuthRequest, res) => {
       scoreThreshold: task.score_threshold,
       maxFinalArticles: task.max_final_articles,
       skipPdfSummary: Boolean(task.skip_pdf_summary),
+      filters: taskFilters,
+      filtersText: taskFilters ? formatSearchFilters(taskFilters).join(' ') : '',
       status: responseStatus,
       externalTaskId: task.external_task_id,
       progress,
@@ -432,7 +453,7 @@ router.get('/tasks/:id/download', requireAuth, async (req: AuthRequest, res) =>
     const db = getDb();
     const taskIdStr = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const taskId = parseInt(taskIdStr, 10);
-    const userId = req.userId!;
+    const userId = req.effectiveUserId!;
 
     const task = await db
       .selectFrom('deepsearch_tasks')
@@ -520,12 +541,12 @@ router.get('/tasks/:id/download', requireAuth, async (req: AuthRequest, res) =>
   }
 });
 
-router.delete('/tasks/:id', requireAuth, async (req: AuthRequest, res) => {
+router.delete('/tasks/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const db = getDb();
     const taskIdStr = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const taskId = parseInt(taskIdStr, 10);
-    const userId = req.userId!;
+    const userId = req.effectiveUserId!;
 
     const existingTask = await db
       .selectFrom('deepsearch_tasks')
@@ -1,27 +1,41 @@
 import express from 'express';
 import type { NextFunction, Response } from 'express';
 import { logger } from '../../logger.js';
-import { requireCliAuth, type AuthRequest } from '../../middleware/auth.js';
-import { search, SearchMode, type SearchRequest } from '../../vector/search.js';
+import { requireApiToken, type AuthRequest } from '../../middleware/auth.js';
+import {
+  hasSearchFilters,
+  mergeSearchFilters,
+  normalizeSearchFilters,
+  parseFusionStrategy,
+  parseSearchQuery,
+  search,
+  SearchMode,
+  type SearchRequest,
+} from '../../vector/search.js';
 
 const log = logger.child({ module: 'api-routes/external-search' });
 
 const router = express.Router();
 
-type ExternalSearchBody = Partial<Omit<SearchRequest, 'userId'>> & {
+type ExternalSearchBody = Partial<Omit<SearchRequest, 'userId' | 'filters'>> & {
   userId?: number | string;
   query?: string;
   articleId?: number | string;
   limit?: number | string;
   offset?: number | string;
+  fusion?: string;
   semanticWeight?: number | string;
   keywordWeight?: number | string;
   normalizeScores?: boolean | string;
   useCache?: boolean | string;
   refreshCache?: boolean | string;
   fallbackEnabled?: boolean | string;
+  filters?: unknown;
 };
 
+/**
+ * body.userId 兼容：注入为 query.user_id，由 requireApiToken 校验与 token 所属用户一致
+ */
 function injectUserIdFromBody(req: AuthRequest, _res: Response, next: NextFunction): void {
   if (req.query.user_id) {
     next();
@@ -118,18 +132,33 @@ function buildSearchRequest(req: AuthRequest): SearchRequest {
     throw new Error('articleId is required when mode is related');
   }
 
-  const query = typeof body.query === 'string' ? body.query.trim() : undefined;
-  if (mode !== SearchMode.RELATED && !query) {
+  const fusion = parseFusionStrategy(body.fusion);
+  if (body.fusion !== undefined && body.fusion !== null && !fusion) {
+    throw new Error('fusion must be one of: weighted, minmax, rrf, rerank');
+  }
+
+  const filters = normalizeSearchFilters(body.filters);
+  if (typeof filters === 'string') {
+    throw new Error(`filters must be valid: ${filters}`);
+  }
+
+  // 查询中的筛选语法（source:"..." year:2025..2026 等）与 body.filters 合并
+  const parsed = parseSearchQuery(typeof body.query === 'string' ? body.query : '');
+  const query = parsed.text || undefined;
+  const mergedFilters = mergeSearchFilters(filters, parsed.filters);
+  if (mode !== SearchMode.RELATED && !query && !hasSearchFilters(mergedFilters)) {
     throw new Error('query is required when mode is semantic, keyword, or hybrid');
   }
 
   return {
     mode,
-    userId: req.userId!,
+    userId: req.effectiveUserId!,
     query,
     articleId,
     limit,
     offset,
+    filters: mergedFilters,
+    fusion,
     semanticWeight: parseOptionalNumber(body.semanticWeight),
     keywordWeight: parseOptionalNumber(body.keywordWeight),
     normalizeScores: parseOptionalBoolean(body.normalizeScores),
@@ -144,12 +173,16 @@ function buildSearchRequest(req: AuthRequest): SearchRequest {
  * 供外部项目调用的统一检索接口
  *
  * 鉴权方式：
- * - query: user_id=1
- * - header: x-api-key: <CLI_API_KEY>
+ * - header: Authorization: Bearer <API Token>（需 search:read 权限，或 x-api-key 头）
+ *
+ * 检索用户即 token 所属用户；传入的 user_id / body.userId 必须与之一致
+ *
+ * 筛选：body.filters 为 SearchFilters 对象（dateFrom / yearFrom / sourceOrigins / rssSourceIds / domainIds /
+ * filterStatuses / isRead / ratingMin / languages 等）或筛选语法字符串；query 中的筛选语法同样生效
  *
- * 也支持在 body 中传 userId，路由会自动兼容到 requireCliAuth
+ * 融合：hybrid 模式可用 body.fusion 选择 weighted（默认）/ minmax / rrf / rerank，响应中 fusion 为实际使用的策略
  */
-router.post('/external/search', injectUserIdFromBody, requireCliAuth, async (req: AuthRequest, res) => {
+router.post('/external/search', injectUserIdFromBody, requireApiToken('search:read'), async (req: AuthRequest, res) => {
   try {
     const request = buildSearchRequest(req);
     const response = await search(request);
@@ -32,7 +32,7 @@ router.post('/filter/article', requireAuth, requireWriteAccess, async (req: Auth
 
     const result = await filterArticle({
       articleId: parseInt(articleId),
-      userId: req.userId!,
+      userId: req.effectiveUserId!,
       url,
       title,
       description: description || '',
@@ -55,7 +55,7 @@ router.get('/filter/stats', requireAuth, async (req: AuthRequest, res) => {
     // Dynamic import to avoid circular dependency
     const { getFilterStats } = await import('../../filter.js');
 
-    const stats = await getFilterStats(req.userId!);
+    const stats = await getFilterStats(req.effectiveUserId!);
 
     res.json(stats);
   } catch (error) {
@@ -1,6 +1,6 @@
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireAdmin } from '../../middleware/auth.js';
+import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
 import * as gmailSourceService from '../gmail-sources.js';
 import { initGmailScheduler } from '../../gmail-scheduler.js';
 import { logger } from '../../logger.js';
@@ -10,7 +10,7 @@ const router = express.Router();
 
 router.get('/email-sources', requireAuth, async (req: AuthRequest, res) => {
   try {
-    const sources = await gmailSourceService.getEmailSources(req.userId!);
+    const sources = await gmailSourceService.getEmailSources(req.effectiveUserId!);
     res.json({ sources });
   } catch (error) {
     log.error({ error, userId: req.userId }, 'Failed to get email sources');
@@ -23,7 +23,7 @@ router.get('/email-sources/:id', requireAuth, async (req: AuthRequest, res) => {
     const id = parseInt(req.params.id as string);
     if (isNaN(id)) return res.status(400).json({ error: 'Invalid email source ID' });
 
-    const source = await gmailSourceService.getEmailSourceById(id, req.userId!);
+    const source = await gmailSourceService.getEmailSourceById(id, req.effectiveUserId!);
     if (!source) return res.status(404).json({ error: 'Email source not found' });
 
     res.json(source);
@@ -33,7 +33,7 @@ router.get('/email-sources/:id', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
-router.post('/email-sources', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/email-sources', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const { name, emailAddress, imapPassword, targetSenders, status, domainId, autoCleanupRejected } = req.body;
 
@@ -49,7 +49,7 @@ router.post('/email-sources', requireAuth, requireAdmin, async (req: AuthRequest
 
     const senders = Array.isArray(targetSenders) ? targetSenders : [];
 
-    const result = await gmailSourceService.createEmailSource(req.userId!, {
+    const result = await gmailSourceService.createEmailSource(req.effectiveUserId!, {
       name: name.trim(),
       emailAddress: emailAddress.trim(),
       imapPassword: imapPassword.replace(/\s+/g, ''),
@@ -66,7 +66,7 @@ router.post('/email-sources', requireAuth, requireAdmin, async (req: AuthRequest
   }
 });
 
-router.put('/email-sources/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.put('/email-sources/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = parseInt(req.params.id as string);
     if (isNaN(id)) return res.status(400).json({ error: 'Invalid email source ID' });
@@ -112,7 +112,7 @@ router.put('/email-sources/:id', requireAuth, requireAdmin, async (req: AuthRequ
       updateData.autoCleanupRejected = Boolean(autoCleanupRejected);
     }
 
-    await gmailSourceService.updateEmailSource(id, req.userId!, updateData);
+    await gmailSourceService.updateEmailSource(id, req.effectiveUserId!, updateData);
     res.json({ success: true });
   } catch (error: any) {
     if (error.message === 'Email source not found') {
@@ -123,12 +123,12 @@ router.put('/email-sources/:id', requireAuth, requireAdmin, async (req: AuthRequ
   }
 });
 
-router.delete('/email-sources/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.delete('/email-sources/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = parseInt(req.params.id as string);
     if (isNaN(id)) return res.status(400).json({ error: 'Invalid email source ID' });
 
-    await gmailSourceService.deleteEmailSource(id, req.userId!);
+    await gmailSourceService.deleteEmailSource(id, req.effectiveUserId!);
     res.json({ success: true });
   } catch (error: any) {
     if (error.message === 'Email source not found') {
@@ -156,7 +156,7 @@ router.post('/email-sources/test', requireAuth, async (req: AuthRequest, res) =>
   }
 });
 
-router.post('/email-sources/:id/fetch', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/email-sources/:id/fetch', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = parseInt(req.params.id as string);
     if (isNaN(id)) return res.status(400).json({ error: 'Invalid email source ID' });
@@ -172,7 +172,7 @@ router.post('/email-sources/:id/fetch', requireAuth, requireAdmin, async (req: A
   }
 });
 
-router.post('/email-sources/fetch-now', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/email-sources/fetch-now', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const scheduler = initGmailScheduler();
     scheduler.fetchAllNow().catch(err => {
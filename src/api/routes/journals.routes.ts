@@ -5,7 +5,7 @@
 
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireAdmin } from '../../middleware/auth.js';
+import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
 import * as journalsService from '../journals.js';
 import { initJournalScheduler } from '../../journal-scheduler.js';
 import { logger } from '../../logger.js';
@@ -32,7 +32,7 @@ router.get('/journals', requireAuth, async (req: AuthRequest, res) => {
     const limit = parseInt(req.query.limit as string) || 10;
 
     const result = await journalsService.listJournals({
-      userId: req.userId!,
+      userId: req.effectiveUserId!,
       status,
       sourceType,
       search,
@@ -63,7 +63,7 @@ router.get('/journals/:id', requireAuth, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Invalid journal ID' });
     }
 
-    const journal = await journalsService.getJournal(req.userId!, id);
+    const journal = await journalsService.getJournal(req.effectiveUserId!, id);
 
     if (!journal) {
       return res.status(404).json({ error: 'Journal not found' });
@@ -80,7 +80,7 @@ router.get('/journals/:id', requireAuth, async (req: AuthRequest, res) => {
  * POST /api/journals
  * 创建期刊
  */
-router.post('/journals', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/journals', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const { name, sourceType, sourceUrl, journalCode, publicationCycle, issuesPerYear, volumeOffset, domainId, autoCleanupRejected } = req.body;
 
@@ -117,13 +117,13 @@ router.post('/journals', requireAuth, requireAdmin, async (req: AuthRequest, res
     }
 
     // Check if name+sourceType already exists
-    const exists = await journalsService.checkJournalExists(req.userId!, name.trim(), sourceType);
+    const exists = await journalsService.checkJournalExists(req.effectiveUserId!, name.trim(), sourceType);
     if (exists) {
       return res.status(400).json({ error: '该来源类型下已存在同名期刊' });
     }
 
     const journal = await journalsService.createJournal({
-      userId: req.userId!,
+      userId: req.effectiveUserId!,
       name: name.trim(),
       sourceType: sourceType as JournalSourceType,
       sourceUrl: sourceUrl?.trim(),
@@ -146,7 +146,7 @@ router.post('/journals', requireAuth, requireAdmin, async (req: AuthRequest, res
  * PUT /api/journals/:id
  * 更新期刊
  */
-router.put('/journals/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.put('/journals/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -168,9 +168,9 @@ router.put('/journals/:id', requireAuth, requireAdmin, async (req: AuthRequest,
       }
 
       // Check if name+sourceType already exists (excluding current journal)
-      const existing = await journalsService.getJournal(req.userId!, id);
+      const existing = await journalsService.getJournal(req.effectiveUserId!, id);
       if (existing) {
-        const dup = await journalsService.checkJournalExists(req.userId!, name.trim(), existing.source_type, id);
+        const dup = await journalsService.checkJournalExists(req.effectiveUserId!, name.trim(), existing.source_type, id);
         if (dup) {
           return res.status(400).json({ error: '该来源类型下已存在同名期刊' });
         }
@@ -223,7 +223,7 @@ router.put('/journals/:id', requireAuth, requireAdmin, async (req: AuthRequest,
       updateData.autoCleanupRejected = Boolean(autoCleanupRejected);
     }
 
-    const journal = await journalsService.updateJournal(req.userId!, id, updateData);
+    const journal = await journalsService.updateJournal(req.effectiveUserId!, id, updateData);
 
     if (!journal) {
       return res.status(404).json({ error: 'Journal not found' });
@@ -240,7 +240,7 @@ router.put('/journals/:id', requireAuth, requireAdmin, async (req: AuthRequest,
  * DELETE /api/journals/:id
  * 删除期刊
  */
-router.delete('/journals/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.delete('/journals/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -252,7 +252,7 @@ router.delete('/journals/:id', requireAuth, requireAdmin, async (req: AuthReques
       return res.status(400).json({ error: 'Invalid journal ID' });
     }
 
-    const deleted = await journalsService.deleteJournal(req.userId!, id);
+    const deleted = await journalsService.deleteJournal(req.effectiveUserId!, id);
 
     if (!deleted) {
       return res.status(404).json({ error: 'Journal not found' });
@@ -5,7 +5,7 @@
 
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireAdmin } from '../../middleware/auth.js';
+import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
 import * as keywordsService from '../keywords.js';
 import { KeywordScheduler } from '../../keyword-scheduler.js';
 import { logger } from '../../logger.js';
@@ -30,7 +30,7 @@ router.get('/keywords', requireAuth, async (req: AuthRequest, res) => {
     const limit = parseInt(req.query.limit as string) || 10;
 
     const result = await keywordsService.listKeywords({
-      userId: req.userId!,
+      userId: req.effectiveUserId!,
       isActive,
       spiderType,
       page,
@@ -60,7 +60,7 @@ router.get('/keywords/:id', requireAuth, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Invalid keyword ID' });
     }
 
-    const keyword = await keywordsService.getKeyword(req.userId!, id);
+    const keyword = await keywordsService.getKeyword(req.effectiveUserId!, id);
 
     if (!keyword) {
       return res.status(404).json({ error: 'Keyword not found' });
@@ -77,7 +77,7 @@ router.get('/keywords/:id', requireAuth, async (req: AuthRequest, res) => {
  * POST /api/keywords
  * 创建关键词订阅
  */
-router.post('/keywords', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/keywords', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const { keyword, yearStart, yearEnd, spiderType, numResults, isActive, domainId, autoCleanupRejected } = req.body;
 
@@ -95,7 +95,7 @@ router.post('/keywords', requireAuth, requireAdmin, async (req: AuthRequest, res
     }
 
     const result = await keywordsService.createKeyword({
-      userId: req.userId!,
+      userId: req.effectiveUserId!,
       keyword: keyword.trim(),
       yearStart,
       yearEnd,
@@ -117,7 +117,7 @@ router.post('/keywords', requireAuth, requireAdmin, async (req: AuthRequest, res
  * PUT /api/keywords/:id
  * 更新关键词订阅
  */
-router.put('/keywords/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.put('/keywords/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -181,7 +181,7 @@ router.put('/keywords/:id', requireAuth, requireAdmin, async (req: AuthRequest,
       updateData.autoCleanupRejected = Boolean(autoCleanupRejected);
     }
 
-    const result = await keywordsService.updateKeyword(req.userId!, id, updateData);
+    const result = await keywordsService.updateKeyword(req.effectiveUserId!, id, updateData);
 
     if (!result) {
       return res.status(404).json({ error: 'Keyword not found' });
@@ -198,7 +198,7 @@ router.put('/keywords/:id', requireAuth, requireAdmin, async (req: AuthRequest,
  * DELETE /api/keywords/:id
  * 删除关键词订阅
  */
-router.delete('/keywords/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.delete('/keywords/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -210,7 +210,7 @@ router.delete('/keywords/:id', requireAuth, requireAdmin, async (req: AuthReques
       return res.status(400).json({ error: 'Invalid keyword ID' });
     }
 
-    const deleted = await keywordsService.deleteKeyword(req.userId!, id);
+    const deleted = await keywordsService.deleteKeyword(req.effectiveUserId!, id);
 
     if (!deleted) {
       return res.status(404).json({ error: 'Keyword not found' });
@@ -285,7 +285,7 @@ router.get('/keywords/:id/logs', requireAuth, async (req: AuthRequest, res) => {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
 
-    const result = await keywordsService.getKeywordCrawlLogs(req.userId!, keywordId, page, limit);
+    const result = await keywordsService.getKeywordCrawlLogs(req.effectiveUserId!, keywordId, page, limit);
 
     res.json(result);
   } catch (error) {
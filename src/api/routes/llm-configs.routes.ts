@@ -1,6 +1,6 @@
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireAdmin } from '../../middleware/auth.js';
+import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
 import * as llmConfigService from '../llm-configs.js';
 import { logger } from '../../logger.js';
 import { TASK_TYPES, type TaskType } from '../../config/system-prompt-variables.js';
@@ -10,6 +10,20 @@ const log = logger.child({ module: 'api-routes/llm-configs' });
 
 const router = express.Router();
 
+/**
+ * Parse optional price field (null / '' clears the price)
+ * @returns undefined if not provided, NaN if invalid
+ */
+function parsePrice(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  return typeof value === 'number' ? value : parseFloat(String(value));
+}
+
+function isInvalidPrice(price: number | null | undefined): boolean {
+  return typeof price === 'number' && (!Number.isFinite(price) || price < 0);
+}
+
 // ============================================================================
 // LLM Configs Routes
 // ============================================================================
@@ -37,7 +51,7 @@ router.get('/llm-configs', requireAuth, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'sortBy must be one of: priority, task_type_priority' });
     }
 
-    const result = await llmConfigService.getUserLLMConfigs(req.userId!, {
+    const result = await llmConfigService.getUserLLMConfigs(req.effectiveUserId!, {
       page,
       limit,
       provider,
@@ -59,7 +73,7 @@ router.get('/llm-configs', requireAuth, async (req: AuthRequest, res) => {
  */
 router.get('/llm-configs/default', requireAuth, async (req: AuthRequest, res) => {
   try {
-    const dbConfig = await llmConfigService.getDefaultLLMConfig(req.userId!);
+    const dbConfig = await llmConfigService.getDefaultLLMConfig(req.effectiveUserId!);
 
     if (!dbConfig) {
       return res.status(404).json({ error: 'No default LLM config found' });
@@ -103,7 +117,7 @@ router.get('/llm-configs/:id', requireAuth, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Invalid LLM config ID' });
     }
 
-    const config = await llmConfigService.getSafeLLMConfigById(id, req.userId!);
+    const config = await llmConfigService.getSafeLLMConfigById(id, req.effectiveUserId!);
 
     if (!config) {
       return res.status(404).json({ error: 'LLM config not found' });
@@ -120,7 +134,7 @@ router.get('/llm-configs/:id', requireAuth, async (req: AuthRequest, res) => {
  * POST /api/llm-configs
  * Create a new LLM configuration
  */
-router.post('/llm-configs', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/llm-configs', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const {
       provider,
@@ -135,6 +149,8 @@ router.post('/llm-configs', requireAuth, requireAdmin, async (req: AuthRequest,
       timeout,
       maxRetries,
       maxConcurrent,
+      inputPrice,
+      outputPrice,
     } = req.body;
 
     // Validation
@@ -142,9 +158,10 @@ router.post('/llm-configs', requireAuth, requireAdmin, async (req: AuthRequest,
       return res.status(400).json({ error: 'Provider is required' });
     }
 
-    if (!['openai', 'gemini', 'custom'].includes(provider)) {
-      return res.status(400).json({ error: 'Provider must be openai, gemini, or custom' });
+    if (!(llmConfigService.LLM_PROVIDERS as readonly string[]).includes(provider)) {
+      return res.status(400).json({ error: `Provider must be one of: ${llmConfigService.LLM_PROVIDERS.join(', ')}` });
     }
+    const keyless = llmConfigService.KEYLESS_LLM_PROVIDERS.includes(provider as llmConfigService.LLMProviderType);
 
     if (!baseURL || typeof baseURL !== 'string' || baseURL.trim().length === 0) {
       return res.status(400).json({ error: 'Base URL is required' });
@@ -156,7 +173,11 @@ router.post('/llm-configs', requireAuth, requireAdmin, async (req: AuthRequest,
       return res.status(400).json({ error: 'Invalid base URL format' });
     }
 
-    if (!apiKey || typeof apiKey !== 'string' || apiKey.trim().length === 0) {
+    if (apiKey !== undefined && apiKey !== null && typeof apiKey !== 'string') {
+      return res.status(400).json({ error: 'API key must be a string' });
+    }
+
+    if (!keyless && (!apiKey || apiKey.trim().length === 0)) {
       return res.status(400).json({ error: 'API key is required' });
     }
 
@@ -199,10 +220,16 @@ router.post('/llm-configs', requireAuth, requireAdmin, async (req: AuthRequest,
       return res.status(400).json({ error: 'Max concurrent must be at least 1' });
     }
 
-    const result = await llmConfigService.createLLMConfig(req.userId!, {
-      provider: provider as 'openai' | 'gemini' | 'custom',
+    const inputPriceNum = parsePrice(inputPrice);
+    const outputPriceNum = parsePrice(outputPrice);
+    if (isInvalidPrice(inputPriceNum) || isInvalidPrice(outputPriceNum)) {
+      return res.status(400).json({ error: 'Prices must be non-negative numbers' });
+    }
+
+    const result = await llmConfigService.createLLMConfig(req.effectiveUserId!, {
+      provider: provider as llmConfigService.LLMProviderType,
       baseURL: baseURL.trim(),
-      apiKey: apiKey.trim(),
+      apiKey: typeof apiKey === 'string' ? apiKey.trim() : '',
       model: model.trim(),
       configType: (configType as 'llm' | 'embedding' | 'rerank') || 'llm',
       taskType: taskType || undefined,
@@ -212,6 +239,8 @@ router.post('/llm-configs', requireAuth, requireAdmin, async (req: AuthRequest,
       timeout: timeout ? parseInt(timeout) : undefined,
       maxRetries: maxRetries ? parseInt(maxRetries) : undefined,
       maxConcurrent: maxConcurrent ? parseInt(maxConcurrent) : undefined,
+      inputPrice: inputPriceNum,
+      outputPrice: outputPriceNum,
     });
 
     res.status(201).json(result);
@@ -225,7 +254,7 @@ router.post('/llm-configs', requireAuth, requireAdmin, async (req: AuthRequest,
  * PUT /api/llm-configs/:id
  * Update LLM configuration
  */
-router.put('/llm-configs/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.put('/llm-configs/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -250,14 +279,16 @@ router.put('/llm-configs/:id', requireAuth, requireAdmin, async (req: AuthReques
       timeout,
       maxRetries,
       maxConcurrent,
+      inputPrice,
+      outputPrice,
     } = req.body;
 
     // Build update object with only provided fields
     const updateData: Record<string, unknown> = {};
 
     if (provider !== undefined) {
-      if (typeof provider !== 'string' || !['openai', 'gemini', 'custom'].includes(provider)) {
-        return res.status(400).json({ error: 'Provider must be openai, gemini, or custom' });
+      if (typeof provider !== 'string' || !(llmConfigService.LLM_PROVIDERS as readonly string[]).includes(provider)) {
+        return res.status(400).json({ error: `Provider must be one of: ${llmConfigService.LLM_PROVIDERS.join(', ')}` });
       }
       updateData.provider = provider;
     }
@@ -275,10 +306,23 @@ router.put('/llm-configs/:id', requireAuth, requireAdmin, async (req: AuthReques
     }
 
     if (apiKey !== undefined) {
-      if (typeof apiKey !== 'string' || apiKey.trim().length === 0) {
+      // 只改密钥时请求体不带 provider，按已保存的配置判断
+      let effectiveProvider = provider;
+      if (effectiveProvider === undefined) {
+        const existing = await llmConfigService.getLLMConfigById(id, req.effectiveUserId!);
+        if (!existing) {
+          return res.status(404).json({ error: 'LLM config not found' });
+        }
+        effectiveProvider = existing.provider;
+      }
+      const keyless = llmConfigService.KEYLESS_LLM_PROVIDERS.includes(effectiveProvider as llmConfigService.LLMProviderType);
+      if (typeof apiKey !== 'string' || (apiKey.trim().length === 0 && !keyless)) {
         return res.status(400).json({ error: 'API key cannot be empty' });
       }
-      updateData.apiKey = apiKey.trim();
+      // 无需密钥的提供商留空表示保持原值
+      if (apiKey.trim().length > 0) {
+        updateData.apiKey = apiKey.trim();
+      }
     }
 
     if (model !== undefined) {
@@ -354,7 +398,19 @@ router.put('/llm-configs/:id', requireAuth, requireAdmin, async (req: AuthReques
       updateData.maxConcurrent = concurrentNum;
     }
 
-    await llmConfigService.updateLLMConfig(id, req.userId!, updateData);
+    const inputPriceNum = parsePrice(inputPrice);
+    const outputPriceNum = parsePrice(outputPrice);
+    if (isInvalidPrice(inputPriceNum) || isInvalidPrice(outputPriceNum)) {
+      return res.status(400).json({ error: 'Prices must be non-negative numbers' });
+    }
+    if (inputPriceNum !== undefined) {
+      updateData.inputPrice = inputPriceNum;
+    }
+    if (outputPriceNum !== undefined) {
+      updateData.outputPrice = outputPriceNum;
+    }
+
+    await llmConfigService.updateLLMConfig(id, req.effectiveUserId!, updateData);
 
     res.json({ success: true });
   } catch (error) {
@@ -370,7 +426,7 @@ router.put('/llm-configs/:id', requireAuth, requireAdmin, async (req: AuthReques
  * DELETE /api/llm-configs/:id
  * Delete LLM configuration
  */
-router.delete('/llm-configs/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.delete('/llm-configs/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -382,7 +438,7 @@ router.delete('/llm-configs/:id', requireAuth, requireAdmin, async (req: AuthReq
       return res.status(400).json({ error: 'Invalid LLM config ID' });
     }
 
-    await llmConfigService.deleteLLMConfig(id, req.userId!);
+    await llmConfigService.deleteLLMConfig(id, req.effectiveUserId!);
 
     res.json({ success: true });
   } catch (error) {
@@ -398,7 +454,7 @@ router.delete('/llm-configs/:id', requireAuth, requireAdmin, async (req: AuthReq
  * POST /api/llm-configs/:id/set-default
  * Set LLM config as default
  */
-router.post('/llm-configs/:id/set-default', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/llm-configs/:id/set-default', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -410,7 +466,7 @@ router.post('/llm-configs/:id/set-default', requireAuth, requireAdmin, async (re
       return res.status(400).json({ error: 'Invalid LLM config ID' });
     }
 
-    await llmConfigService.setDefaultLLMConfig(id, req.userId!);
+    await llmConfigService.setDefaultLLMConfig(id, req.effectiveUserId!);
 
     res.json({ success: true });
   } catch (error) {
@@ -426,7 +482,7 @@ router.post('/llm-configs/:id/set-default', requireAuth, requireAdmin, async (re
  * POST /api/llm-configs/:id/test
  * Test LLM connection
  */
-router.post('/llm-configs/:id/test', requireAuth, async (req: AuthRequest, res) => {
+router.post('/llm-configs/:id/test', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -438,7 +494,7 @@ router.post('/llm-configs/:id/test', requireAuth, async (req: AuthRequest, res)
       return res.status(400).json({ error: 'Invalid LLM config ID' });
     }
 
-    const result = await llmConfigService.testLLMConnection(id, req.userId!);
+    const result = await llmConfigService.testLLMConnection(id, req.effectiveUserId!);
 
     res.json(result);
   } catch (error) {
@@ -0,0 +1,209 @@
+import express from 'express';
+import type { AuthRequest } from '../../middleware/auth.js';
+import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
+import * as llmUsageService from '../llm-usage.js';
+import { logger } from '../../logger.js';
+import { getTaskTypeCodes } from '../../config/types-config.js';
+
+const log = logger.child({ module: 'api-routes/llm-usage' });
+
+const router = express.Router();
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const GROUP_BY_VALUES: llmUsageService.LLMUsageGroupBy[] = ['task', 'config', 'model', 'day'];
+
+/**
+ * Parse optional numeric field (null / '' clears the value)
+ * @returns undefined if not provided, NaN if invalid
+ */
+function parseOptionalNumber(value: unknown, integer = false): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(num) || num < 0 || (integer && !Number.isInteger(num))) {
+    return NaN;
+  }
+  return num;
+}
+
+function parseBudgetId(idParam: unknown): number {
+  return typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+}
+
+/**
+ * Validate budget body fields shared by create / update
+ * @returns Error message or parsed input
+ */
+function parseBudgetBody(body: any): { error: string } | { input: llmUsageService.LLMBudgetInput } {
+  const input: llmUsageService.LLMBudgetInput = {};
+
+  if (body.taskType !== undefined) {
+    if (body.taskType !== null && body.taskType !== '' && !getTaskTypeCodes().includes(body.taskType)) {
+      return { error: `taskType must be one of: ${getTaskTypeCodes().join(', ')}` };
+    }
+    input.taskType = body.taskType || null;
+  }
+
+  const configId = parseOptionalNumber(body.configId, true);
+  const downgradeConfigId = parseOptionalNumber(body.downgradeConfigId, true);
+  const monthlyTokenLimit = parseOptionalNumber(body.monthlyTokenLimit, true);
+  const monthlyCostLimit = parseOptionalNumber(body.monthlyCostLimit);
+
+  if (Number.isNaN(configId) || Number.isNaN(downgradeConfigId)) {
+    return { error: 'configId and downgradeConfigId must be config IDs' };
+  }
+  if (Number.isNaN(monthlyTokenLimit) || Number.isNaN(monthlyCostLimit)) {
+    return { error: 'Budget limits must be non-negative numbers' };
+  }
+  if (body.action !== undefined && !['block', 'downgrade'].includes(body.action)) {
+    return { error: 'action must be block or downgrade' };
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    return { error: 'enabled must be a boolean' };
+  }
+
+  if (configId !== undefined) input.configId = configId;
+  if (downgradeConfigId !== undefined) input.downgradeConfigId = downgradeConfigId;
+  if (monthlyTokenLimit !== undefined) input.monthlyTokenLimit = monthlyTokenLimit;
+  if (monthlyCostLimit !== undefined) input.monthlyCostLimit = monthlyCostLimit;
+  if (body.action !== undefined) input.action = body.action;
+  if (body.enabled !== undefined) input.enabled = body.enabled;
+
+  return { input };
+}
+
+/**
+ * Service validation errors → 400 / 404
+ */
+function sendBudgetError(res: express.Response, error: unknown): boolean {
+  const message = error instanceof Error ? error.message : '';
+  if (message === 'LLM budget not found' || message === 'LLM config not found') {
+    res.status(404).json({ error: message });
+    return true;
+  }
+  if (message.includes('is required')) {
+    res.status(400).json({ error: message });
+    return true;
+  }
+  return false;
+}
+
+// ============================================================================
+// LLM Usage Routes
+// ============================================================================
+
+/**
+ * GET /api/llm-usage?from=YYYY-MM-DD&to=YYYY-MM-DD&groupBy=task|config|model|day
+ * Aggregate token usage / cost for the current user (default: current month by task)
+ */
+router.get('/llm-usage', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    const groupBy = req.query.groupBy as llmUsageService.LLMUsageGroupBy | undefined;
+
+    if ((from && !DATE_RE.test(from)) || (to && !DATE_RE.test(to))) {
+      return res.status(400).json({ error: 'from / to must be YYYY-MM-DD' });
+    }
+    if (groupBy && !GROUP_BY_VALUES.includes(groupBy)) {
+      return res.status(400).json({ error: `groupBy must be one of: ${GROUP_BY_VALUES.join(', ')}` });
+    }
+
+    const summary = await llmUsageService.getLLMUsageSummary({
+      userId: req.effectiveUserId!,
+      from: from || undefined,
+      to: to || undefined,
+      groupBy,
+    });
+
+    res.json(summary);
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to get LLM usage');
+    res.status(500).json({ error: 'Failed to get LLM usage' });
+  }
+});
+
+// ============================================================================
+// LLM Budget Routes
+// ============================================================================
+
+/**
+ * GET /api/llm-budgets
+ * List monthly budgets with month-to-date usage
+ */
+router.get('/llm-budgets', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const budgets = await llmUsageService.getLLMBudgets(req.effectiveUserId!);
+    res.json({ budgets });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to get LLM budgets');
+    res.status(500).json({ error: 'Failed to get LLM budgets' });
+  }
+});
+
+/**
+ * POST /api/llm-budgets
+ * Create a monthly budget
+ */
+router.post('/llm-budgets', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const parsed = parseBudgetBody(req.body || {});
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const result = await llmUsageService.createLLMBudget(req.effectiveUserId!, parsed.input);
+    res.status(201).json(result);
+  } catch (error) {
+    if (sendBudgetError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to create LLM budget');
+    res.status(500).json({ error: 'Failed to create LLM budget' });
+  }
+});
+
+/**
+ * PUT /api/llm-budgets/:id
+ * Update a monthly budget
+ */
+router.put('/llm-budgets/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseBudgetId(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid LLM budget ID' });
+    }
+
+    const parsed = parseBudgetBody(req.body || {});
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    await llmUsageService.updateLLMBudget(id, req.effectiveUserId!, parsed.input);
+    res.json({ success: true });
+  } catch (error) {
+    if (sendBudgetError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to update LLM budget');
+    res.status(500).json({ error: 'Failed to update LLM budget' });
+  }
+});
+
+/**
+ * DELETE /api/llm-budgets/:id
+ * Delete a monthly budget
+ */
+router.delete('/llm-budgets/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseBudgetId(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid LLM budget ID' });
+    }
+
+    await llmUsageService.deleteLLMBudget(id, req.effectiveUserId!);
+    res.json({ success: true });
+  } catch (error) {
+    if (sendBudgetError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to delete LLM budget');
+    res.status(500).json({ error: 'Failed to delete LLM budget' });
+  }
+});
+
+export default router;
@@ -23,6 +23,10 @@ import {
   type KeywordCrawlLogQueryOptions,
 } from '../keywords.js';
 import { getRejectedCleanupLogs } from '../rejected-cleanup-logs.js';
+import {
+  getNotificationDeliveries,
+  type NotificationDeliveryStatus,
+} from '../notification-deliveries.js';
 import { logger } from '../../logger.js';
 
 const log = logger.child({ module: 'api-routes/logs' });
@@ -343,6 +347,36 @@ router.get('/logs/rejected-cleanup', requireAuth, async (req: AuthRequest, res)
   }
 });
 
+/**
+ * GET /api/logs/notifications
+ * 通知投递记录（渠道、接收者、状态、重试次数）
+ */
+router.get('/logs/notifications', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const { fromDate, toDate } = getDateRangeFromQuery(req, DEFAULT_RANGE_DAYS);
+
+    const status = parseNotificationDeliveryStatus(req.query.status);
+    const channel = typeof req.query.channel === 'string' && req.query.channel ? req.query.channel : undefined;
+
+    const result = await getNotificationDeliveries({
+      userId: req.effectiveUserId!,
+      page,
+      limit,
+      status,
+      channel,
+      fromDate,
+      toDate,
+    });
+
+    res.json(result);
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to get notification deliveries');
+    res.status(500).json({ error: 'Failed to get notification deliveries' });
+  }
+});
+
 /**
  * GET /api/logs/unified
  * 综合日志面板
@@ -393,14 +427,14 @@ function parseCrawlStatus(value: unknown): CrawlLogQueryOptions['status'] | unde
 
 function parseRssStatus(value: unknown): RssFetchStatus | undefined {
   if (typeof value !== 'string') return undefined;
-  const allowed: RssFetchStatus[] = ['success', 'failed', 'partial'];
+  const allowed: RssFetchStatus[] = ['success', 'failed', 'partial', 'not_modified'];
   return allowed.includes(value as RssFetchStatus) ? (value as RssFetchStatus) : undefined;
 }
 
 function parseProcessStage(value: unknown): ProcessStage | undefined {
   if (typeof value !== 'string') return undefined;
-  const allowed: ProcessStage[] = ['markdown', 'translate', 'vector', 'related', 'pipeline_complete'];
-  return allowed.includes(value as ProcessStage) ? (value as ProcessStage) : undefined;
+  // 阶段由插件注册，这里只校验名称格式
+  return /^[a-z][a-z0-9_]*$/.test(value) ? value : undefined;
 }
 
 function parseProcessStatus(value: unknown): ProcessStatus | undefined {
@@ -415,6 +449,12 @@ function parseWebFetchStatus(value: unknown): WebFetchStatus | undefined {
   return allowed.includes(value as WebFetchStatus) ? (value as WebFetchStatus) : undefined;
 }
 
+function parseNotificationDeliveryStatus(value: unknown): NotificationDeliveryStatus | undefined {
+  if (typeof value !== 'string') return undefined;
+  const allowed: NotificationDeliveryStatus[] = ['pending', 'sending', 'sent', 'failed'];
+  return allowed.includes(value as NotificationDeliveryStatus) ? (value as NotificationDeliveryStatus) : undefined;
+}
+
 function parseEmailFetchStatus(value: unknown): EmailFetchStatus | undefined {
   if (typeof value !== 'string') return undefined;
   const allowed: EmailFetchStatus[] = ['success', 'failed'];
@@ -0,0 +1,186 @@
+import express from 'express';
+import type { AuthRequest } from '../../middleware/auth.js';
+import { requireAuth, requireMember } from '../../middleware/auth.js';
+import {
+  getNotificationChannels,
+  addNotificationChannel,
+  updateNotificationChannel,
+  deleteNotificationChannel,
+  isNotificationChannelType,
+  NOTIFICATION_CHANNEL_TYPES,
+  type NotificationPushTypes,
+  type UpdateNotificationChannelInput,
+} from '../notification-channels.js';
+import { testNotificationChannel } from '../../notifications/index.js';
+import { VALID_PUSH_TYPES } from '../../constants/push-types.js';
+import { logger } from '../../logger.js';
+
+const log = logger.child({ module: 'api-routes/notification-channels' });
+
+const router = express.Router();
+
+function parseIdParam(idParam: unknown): number {
+  return typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+}
+
+/**
+ * Keep only known push type keys (missing keys are left unchanged on update)
+ */
+function parsePushTypes(input: unknown): Partial<NotificationPushTypes> | undefined {
+  if (!input || typeof input !== 'object') {
+    return undefined;
+  }
+  const pushTypes: Partial<NotificationPushTypes> = {};
+  for (const key of VALID_PUSH_TYPES) {
+    const value = (input as Record<string, unknown>)[key];
+    if (value !== undefined) {
+      pushTypes[key] = value !== false;
+    }
+  }
+  return pushTypes;
+}
+
+/**
+ * Config validation errors → 400
+ */
+function sendChannelError(res: express.Response, error: unknown): boolean {
+  const message = error instanceof Error ? error.message : '';
+  if (message.includes('is required') || message.startsWith('Invalid ')) {
+    res.status(400).json({ error: message });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * GET /api/notification-channels
+ * 获取当前用户的通知渠道（敏感配置不返回，只有 config_hint 与非敏感字段 settings）
+ */
+router.get('/notification-channels', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const channels = await getNotificationChannels(req.userId!);
+    res.json(channels);
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to get notification channels');
+    res.status(500).json({ error: 'Failed to get notification channels' });
+  }
+});
+
+/**
+ * POST /api/notification-channels
+ * 添加通知渠道：{ type, name, config, enabled?, push_types? }
+ */
+router.post('/notification-channels', requireAuth, requireMember, async (req: AuthRequest, res) => {
+  try {
+    const { type, name, config, enabled, push_types } = req.body || {};
+
+    if (!isNotificationChannelType(type)) {
+      return res.status(400).json({ error: `type must be one of: ${NOTIFICATION_CHANNEL_TYPES.join(', ')}` });
+    }
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: '名称不能为空' });
+    }
+    if (!config || typeof config !== 'object') {
+      return res.status(400).json({ error: 'config is required' });
+    }
+
+    const channel = await addNotificationChannel(req.userId!, {
+      type,
+      name,
+      config,
+      enabled: enabled !== false,
+      push_types: parsePushTypes(push_types),
+    });
+
+    res.status(201).json(channel);
+  } catch (error) {
+    if (sendChannelError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to add notification channel');
+    res.status(500).json({ error: 'Failed to add notification channel' });
+  }
+});
+
+/**
+ * PUT /api/notification-channels/:id
+ * 更新通知渠道；config 中的敏感字段（URL、密钥、密码）留空表示保持不变
+ */
+router.put('/notification-channels/:id', requireAuth, requireMember, async (req: AuthRequest, res) => {
+  try {
+    const id = parseIdParam(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: '无效的 ID' });
+    }
+
+    const { name, config, enabled, push_types } = req.body || {};
+    const updates: UpdateNotificationChannelInput = {};
+
+    if (name !== undefined) {
+      updates.name = String(name);
+    }
+    if (config !== undefined) {
+      if (!config || typeof config !== 'object') {
+        return res.status(400).json({ error: 'Invalid config' });
+      }
+      updates.config = config;
+    }
+    if (enabled !== undefined) {
+      updates.enabled = !!enabled;
+    }
+    updates.push_types = parsePushTypes(push_types);
+
+    const channel = await updateNotificationChannel(req.userId!, id, updates);
+    if (!channel) {
+      return res.status(404).json({ error: '通知渠道不存在' });
+    }
+
+    res.json(channel);
+  } catch (error) {
+    if (sendChannelError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to update notification channel');
+    res.status(500).json({ error: 'Failed to update notification channel' });
+  }
+});
+
+/**
+ * DELETE /api/notification-channels/:id
+ * 删除通知渠道
+ */
+router.delete('/notification-channels/:id', requireAuth, requireMember, async (req: AuthRequest, res) => {
+  try {
+    const id = parseIdParam(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: '无效的 ID' });
+    }
+
+    const deleted = await deleteNotificationChannel(req.userId!, id);
+    if (!deleted) {
+      return res.status(404).json({ error: '通知渠道不存在' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to delete notification channel');
+    res.status(500).json({ error: 'Failed to delete notification channel' });
+  }
+});
+
+/**
+ * POST /api/notification-channels/:id/test
+ * 发送测试消息
+ */
+router.post('/notification-channels/:id/test', requireAuth, requireMember, async (req: AuthRequest, res) => {
+  try {
+    const id = parseIdParam(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: '无效的 ID' });
+    }
+
+    const result = await testNotificationChannel(req.userId!, id);
+    res.json(result);
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to test notification channel');
+    res.status(500).json({ error: 'Failed to test notification channel' });
+  }
+});
+
+export default router;
@@ -0,0 +1,125 @@
+import express from 'express';
+import type { AuthRequest } from '../../middleware/auth.js';
+import { requireAuth, requireMember } from '../../middleware/auth.js';
+import {
+  deleteNotificationRule,
+  getNotificationRuleRecipients,
+  saveNotificationRule,
+  type NotificationRuleInput,
+} from '../notification-rules.js';
+import { logger } from '../../logger.js';
+
+const log = logger.child({ module: 'api-routes/notification-rules' });
+
+const router = express.Router();
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_DIGEST_INTERVAL = 24 * 60;
+
+function getParam(param: unknown): string {
+  return Array.isArray(param) ? String(param[0]) : String(param ?? '');
+}
+
+/**
+ * Validate the request body
+ * @returns The rule input, or an error message
+ */
+function parseRuleInput(body: Record<string, unknown>): NotificationRuleInput | string {
+  const quietHoursStart = body.quietHoursStart ? String(body.quietHoursStart) : null;
+  const quietHoursEnd = body.quietHoursEnd ? String(body.quietHoursEnd) : null;
+  if (!!quietHoursStart !== !!quietHoursEnd) {
+    return '免打扰开始与结束时间需同时填写';
+  }
+  if ((quietHoursStart && !TIME_PATTERN.test(quietHoursStart)) || (quietHoursEnd && !TIME_PATTERN.test(quietHoursEnd))) {
+    return '免打扰时间格式应为 HH:MM';
+  }
+
+  const digestInterval = Number(body.digestInterval ?? 0);
+  if (!Number.isInteger(digestInterval) || digestInterval < 0 || digestInterval > MAX_DIGEST_INTERVAL) {
+    return `摘要合并间隔应为 0-${MAX_DIGEST_INTERVAL} 分钟`;
+  }
+
+  const maxPerHour = Number(body.maxPerHour ?? 0);
+  if (!Number.isInteger(maxPerHour) || maxPerHour < 0) {
+    return '每小时推送上限应为非负整数';
+  }
+
+  let minScore: number | null = null;
+  if (body.minScore !== undefined && body.minScore !== null && body.minScore !== '') {
+    minScore = Number(body.minScore);
+    if (!Number.isFinite(minScore) || minScore < 0 || minScore > 1) {
+      return '最低分数应在 0-1 之间';
+    }
+  }
+
+  let domainIds: number[] | null = null;
+  if (body.domainIds !== undefined && body.domainIds !== null) {
+    if (!Array.isArray(body.domainIds) || !body.domainIds.every((id) => Number.isInteger(id))) {
+      return 'domainIds 应为主题领域 ID 数组';
+    }
+    domainIds = body.domainIds.length > 0 ? body.domainIds as number[] : null;
+  }
+
+  return { quietHoursStart, quietHoursEnd, digestInterval, maxPerHour, minScore, domainIds };
+}
+
+/**
+ * GET /api/notification-rules
+ * 获取全部接收者（Telegram / 企业微信 / 其他通知渠道）及其新增文章推送规则
+ */
+router.get('/notification-rules', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const recipients = await getNotificationRuleRecipients(req.userId!);
+    res.json({ recipients });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to get notification rules');
+    res.status(500).json({ error: 'Failed to get notification rules' });
+  }
+});
+
+/**
+ * PUT /api/notification-rules/:channel/:recipient
+ * 设置接收者的推送规则：{ quietHoursStart, quietHoursEnd, digestInterval, maxPerHour, minScore, domainIds }
+ */
+router.put('/notification-rules/:channel/:recipient', requireAuth, requireMember, async (req: AuthRequest, res) => {
+  try {
+    const channel = getParam(req.params.channel);
+    const recipient = getParam(req.params.recipient);
+
+    const recipients = await getNotificationRuleRecipients(req.userId!);
+    if (!recipients.some((item) => item.channel === channel && item.recipient === recipient)) {
+      return res.status(404).json({ error: '接收者不存在' });
+    }
+
+    const input = parseRuleInput(req.body || {});
+    if (typeof input === 'string') {
+      return res.status(400).json({ error: input });
+    }
+
+    const rule = await saveNotificationRule(req.userId!, channel, recipient, input);
+    res.json(rule);
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to save notification rule');
+    res.status(500).json({ error: 'Failed to save notification rule' });
+  }
+});
+
+/**
+ * DELETE /api/notification-rules/:channel/:recipient
+ * 删除推送规则（恢复逐篇即时推送，已暂缓的文章下一分钟合并发出）
+ */
+router.delete('/notification-rules/:channel/:recipient', requireAuth, requireMember, async (req: AuthRequest, res) => {
+  try {
+    const deleted = await deleteNotificationRule(req.userId!, getParam(req.params.channel), getParam(req.params.recipient));
+    if (!deleted) {
+      return res.status(404).json({ error: '推送规则不存在' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to delete notification rule');
+    res.status(500).json({ error: 'Failed to delete notification rule' });
+  }
+});
+
+export default router;
@@ -1,10 +1,9 @@
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireAdmin, requireCliAuth } from '../../middleware/auth.js';
+import { requireApiToken, requireAuth, requireMember } from '../../middleware/auth.js';
 import { getArticleById } from '../../api/articles.js';
 import { TelegramClient } from '../../telegram/client.js';
-import { getTelegramNotifier } from '../../telegram/index.js';
-import { getWeChatNotifier } from '../../wechat/index.js';
+import { dispatchNotification } from '../../notifications/index.js';
 import type { PdfSummaryNotificationData } from '../../telegram/types.js';
 
 const router = express.Router();
@@ -72,15 +71,11 @@ async function buildPdfSummaryNotifyData(
 }
 
 async function dispatchPdfSummaryNotification(userId: number, data: PdfSummaryNotificationData) {
-  const [telegram, wechat] = await Promise.all([
-    getTelegramNotifier().sendPdfSummary(userId, data),
-    getWeChatNotifier().sendPdfSummary(userId, data),
-  ]);
+  const { channels, notified } = await dispatchNotification(userId, { type: 'pdf_summary', data });
 
   return {
-    telegram,
-    wechat,
-    notified: telegram || wechat,
+    ...channels,
+    notified,
   };
 }
 
@@ -166,7 +161,7 @@ async function notifyPdfSummaryFailure(
   });
 }
 
-router.post('/pdf-summary', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/pdf-summary', requireAuth, requireMember, async (req: AuthRequest, res) => {
   const { title, id } = req.body;
 
   if (!title) {
@@ -218,7 +213,7 @@ router.post('/pdf-summary', requireAuth, requireAdmin, async (req: AuthRequest,
   }
 });
 
-router.post('/pdf-summary/notify/cli', requireCliAuth, async (req: AuthRequest, res) => {
+router.post('/pdf-summary/notify/cli', requireApiToken('notify:send'), async (req: AuthRequest, res) => {
   try {
     const userId = req.userId;
     if (!userId) {
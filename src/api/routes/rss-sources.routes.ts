@@ -1,12 +1,13 @@
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireAdmin } from '../../middleware/auth.js';
+import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
 import * as rssSourceService from '../rss-sources.js';
 import { getRSSParser } from '../../rss-parser.js';
 import { initRSSScheduler } from '../../rss-scheduler.js';
 import { logger } from '../../logger.js';
 import { VALID_SOURCE_TYPES } from '../../constants/source-types.js';
 import { getSourceTypeCodes } from '../../config/types-config.js';
+import { parseOpml } from '../../utils/opml.js';
 
 const log = logger.child({ module: 'api-routes/rss-sources' });
 
@@ -27,7 +28,7 @@ router.get('/rss-sources', requireAuth, async (req: AuthRequest, res) => {
     const status = req.query.status as 'active' | 'inactive' | undefined;
     const search = (req.query.search as string)?.trim() || undefined;
 
-    const result = await rssSourceService.getUserRSSSources(req.userId!, {
+    const result = await rssSourceService.getUserRSSSources(req.effectiveUserId!, {
       page,
       limit,
       status,
@@ -41,6 +42,86 @@ router.get('/rss-sources', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * GET /api/rss-sources/export.opml
+ * Export user's RSS sources as OPML (folders = topic domains)
+ * 注意：必须注册在 /rss-sources/:id 之前
+ */
+router.get('/rss-sources/export.opml', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const opml = await rssSourceService.exportRSSSourcesAsOpml(req.effectiveUserId!);
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader('Content-Type', 'text/x-opml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="rss-sources-${date}.opml"`);
+    res.send(opml);
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to export RSS sources');
+    res.status(500).json({ error: 'Failed to export RSS sources' });
+  }
+});
+
+/**
+ * POST /api/rss-sources/import
+ * Import RSS sources from OPML
+ *
+ * Body: JSON `{ opml, validate?, createMissingDomains?, sourceType?, fetchInterval? }`
+ * 或直接以 text/xml、text/x-opml 提交 OPML 原文
+ */
+router.post(
+  '/rss-sources/import',
+  requireAuth,
+  requireWriteAccess,
+  express.text({ type: ['text/xml', 'application/xml', 'text/x-opml', 'text/plain'], limit: '5mb' }),
+  async (req: AuthRequest, res) => {
+    try {
+      const body = typeof req.body === 'string' ? { opml: req.body } : (req.body ?? {});
+      const { opml, validate, createMissingDomains, sourceType, fetchInterval } = body;
+
+      if (!opml || typeof opml !== 'string' || opml.trim().length === 0) {
+        return res.status(400).json({ error: 'OPML content is required' });
+      }
+
+      if (sourceType !== undefined && !getSourceTypeCodes().includes(sourceType)) {
+        return res.status(400).json({ error: `Source type must be one of: ${getSourceTypeCodes().join(', ')}` });
+      }
+
+      let interval: number | undefined;
+      if (fetchInterval !== undefined) {
+        interval = parseInt(fetchInterval);
+        if (isNaN(interval) || interval < 60) {
+          return res.status(400).json({ error: 'Fetch interval must be at least 60 seconds' });
+        }
+      }
+
+      let document;
+      try {
+        document = parseOpml(opml);
+      } catch {
+        return res.status(400).json({ error: 'Invalid OPML document' });
+      }
+
+      if (document.feeds.length === 0) {
+        return res.status(400).json({ error: 'No feeds found in OPML' });
+      }
+
+      const report = await rssSourceService.importRSSSources(req.effectiveUserId!, document.feeds, {
+        sourceType,
+        fetchInterval: interval,
+        validate: validate !== undefined ? validate !== false && validate !== 'false' : undefined,
+        createMissingDomains: createMissingDomains !== undefined
+          ? createMissingDomains !== false && createMissingDomains !== 'false'
+          : undefined,
+      });
+
+      res.json(report);
+    } catch (error) {
+      log.error({ error, userId: req.userId }, 'Failed to import RSS sources');
+      res.status(500).json({ error: 'Failed to import RSS sources' });
+    }
+  }
+);
+
 /**
  * GET /api/rss-sources/:id
  * Get single RSS source by ID
@@ -57,7 +138,7 @@ router.get('/rss-sources/:id', requireAuth, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Invalid RSS source ID' });
     }
 
-    const source = await rssSourceService.getRSSSourceById(id, req.userId!);
+    const source = await rssSourceService.getRSSSourceById(id, req.effectiveUserId!);
 
     if (!source) {
       return res.status(404).json({ error: 'RSS source not found' });
@@ -74,7 +155,7 @@ router.get('/rss-sources/:id', requireAuth, async (req: AuthRequest, res) => {
  * POST /api/rss-sources
  * Create a new RSS source
  */
-router.post('/rss-sources', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/rss-sources', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const { name, url, sourceType, fetchInterval, status, domainId, autoCleanupRejected } = req.body;
 
@@ -98,18 +179,18 @@ router.post('/rss-sources', requireAuth, requireAdmin, async (req: AuthRequest,
     }
 
     // Check if URL already exists
-    const urlExists = await rssSourceService.checkURLExists(req.userId!, url.trim());
+    const urlExists = await rssSourceService.checkURLExists(req.effectiveUserId!, url.trim());
     if (urlExists) {
       return res.status(400).json({ error: 'URL already exists' });
     }
 
     // Check if name already exists
-    const nameExists = await rssSourceService.checkNameExists(req.userId!, name.trim());
+    const nameExists = await rssSourceService.checkNameExists(req.effectiveUserId!, name.trim());
     if (nameExists) {
       return res.status(400).json({ error: 'Name already exists' });
     }
 
-    const result = await rssSourceService.createRSSSource(req.userId!, {
+    const result = await rssSourceService.createRSSSource(req.effectiveUserId!, {
       name: name.trim(),
       url: url.trim(),
       sourceType,
@@ -130,7 +211,7 @@ router.post('/rss-sources', requireAuth, requireAdmin, async (req: AuthRequest,
  * PUT /api/rss-sources/:id
  * Update RSS source
  */
-router.put('/rss-sources/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.put('/rss-sources/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -156,7 +237,7 @@ router.put('/rss-sources/:id', requireAuth, requireAdmin, async (req: AuthReques
       }
 
       // Check if new name already exists (excluding current source)
-      const nameExists = await rssSourceService.checkNameExists(req.userId!, name.trim(), id);
+      const nameExists = await rssSourceService.checkNameExists(req.effectiveUserId!, name.trim(), id);
       if (nameExists) {
         return res.status(400).json({ error: 'Name already exists' });
       }
@@ -175,7 +256,7 @@ router.put('/rss-sources/:id', requireAuth, requireAdmin, async (req: AuthReques
       }
 
       // Check if new URL already exists (excluding current source)
-      const exists = await rssSourceService.checkURLExists(req.userId!, url.trim(), id);
+      const exists = await rssSourceService.checkURLExists(req.effectiveUserId!, url.trim(), id);
       if (exists) {
         return res.status(400).json({ error: 'URL already exists' });
       }
@@ -218,7 +299,7 @@ router.put('/rss-sources/:id', requireAuth, requireAdmin, async (req: AuthReques
 
     log.info({ id, updateData }, 'About to update RSS source');
 
-    await rssSourceService.updateRSSSource(id, req.userId!, updateData);
+    await rssSourceService.updateRSSSource(id, req.effectiveUserId!, updateData);
 
     log.info({ id }, 'RSS source updated successfully');
 
@@ -236,7 +317,7 @@ router.put('/rss-sources/:id', requireAuth, requireAdmin, async (req: AuthReques
  * DELETE /api/rss-sources/:id
  * Delete RSS source
  */
-router.delete('/rss-sources/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.delete('/rss-sources/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -248,7 +329,7 @@ router.delete('/rss-sources/:id', requireAuth, requireAdmin, async (req: AuthReq
       return res.status(400).json({ error: 'Invalid RSS source ID' });
     }
 
-    await rssSourceService.deleteRSSSource(id, req.userId!);
+    await rssSourceService.deleteRSSSource(id, req.effectiveUserId!);
 
     res.json({ success: true });
   } catch (error) {
@@ -277,12 +358,13 @@ router.post('/rss-sources/:id/fetch', requireAuth, async (req: AuthRequest, res)
     }
 
     const scheduler = initRSSScheduler();
-    const result = await scheduler.fetchSourceNow(id, req.userId!);
+    const result = await scheduler.fetchSourceNow(id, req.effectiveUserId!);
 
     res.json({
       success: result.success,
       articlesCount: result.articlesCount,
       newArticlesCount: result.newArticlesCount,
+      notModified: result.notModified ?? false,
       error: result.error,
       duration: result.duration,
     });
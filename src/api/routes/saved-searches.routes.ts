@@ -0,0 +1,251 @@
+import express from 'express';
+import type { AuthRequest } from '../../middleware/auth.js';
+import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
+import {
+  SAVED_SEARCH_MODES,
+  SAVED_SEARCH_NOTIFY_CHANNELS,
+  SAVED_SEARCH_SOURCE_ORIGINS,
+  checkSavedSearch,
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearch,
+  getSavedSearchMatches,
+  getSavedSearches,
+  isSavedSearchNameTaken,
+  markSavedSearchMatchesRead,
+  updateSavedSearch,
+  type SavedSearchInput,
+  type SavedSearchMode,
+  type SavedSearchNotifyChannel,
+  type SavedSearchSourceOrigin,
+} from '../saved-searches.js';
+import { logger } from '../../logger.js';
+
+const log = logger.child({ module: 'api-routes/saved-searches' });
+
+const router = express.Router();
+
+const MAX_NAME_LENGTH = 100;
+const MAX_QUERY_LENGTH = 500;
+
+function isNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate the request body
+ * @returns The saved search input, or an error message
+ */
+function parseSavedSearchInput(body: Record<string, unknown>): SavedSearchInput | string {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return `名称不能为空且不超过 ${MAX_NAME_LENGTH} 个字符`;
+  }
+
+  const query = typeof body.query === 'string' ? body.query.trim() : '';
+  if (!query || query.length > MAX_QUERY_LENGTH) {
+    return `查询不能为空且不超过 ${MAX_QUERY_LENGTH} 个字符`;
+  }
+
+  const mode = (body.mode ?? 'hybrid') as SavedSearchMode;
+  if (!SAVED_SEARCH_MODES.includes(mode)) {
+    return `搜索模式应为 ${SAVED_SEARCH_MODES.join(' / ')}`;
+  }
+
+  const semanticWeight = body.semanticWeight ?? 0.7;
+  const keywordWeight = body.keywordWeight ?? 0.3;
+  if (!isNumberInRange(semanticWeight, 0, 1) || !isNumberInRange(keywordWeight, 0, 1)) {
+    return '融合权重应在 0-1 之间';
+  }
+
+  const minScore = body.minScore ?? 0.5;
+  if (!isNumberInRange(minScore, 0, 1)) {
+    return '语义匹配阈值应在 0-1 之间';
+  }
+
+  const filters = (body.filters ?? {}) as Record<string, unknown>;
+  if (typeof filters !== 'object' || Array.isArray(filters)) {
+    return 'filters 格式错误';
+  }
+  const sourceOrigins = filters.sourceOrigins ?? [];
+  if (!Array.isArray(sourceOrigins)
+    || !sourceOrigins.every((origin) => (SAVED_SEARCH_SOURCE_ORIGINS as readonly unknown[]).includes(origin))) {
+    return `来源类型应为 ${SAVED_SEARCH_SOURCE_ORIGINS.join(' / ')}`;
+  }
+
+  const notifyChannels = body.notifyChannels ?? [];
+  if (!Array.isArray(notifyChannels)
+    || !notifyChannels.every((channel) => (SAVED_SEARCH_NOTIFY_CHANNELS as readonly unknown[]).includes(channel))) {
+    return `推送渠道应为 ${SAVED_SEARCH_NOTIFY_CHANNELS.join(' / ')}`;
+  }
+
+  return {
+    name,
+    query,
+    mode,
+    semanticWeight,
+    keywordWeight,
+    minScore,
+    filters: {
+      sourceOrigins: [...new Set(sourceOrigins as SavedSearchSourceOrigin[])],
+      passedOnly: filters.passedOnly === true,
+    },
+    notifyChannels: [...new Set(notifyChannels as SavedSearchNotifyChannel[])],
+    isActive: body.isActive !== false,
+  };
+}
+
+/**
+ * GET /api/saved-searches
+ * 获取订阅搜索列表（含收件箱未读数）
+ */
+router.get('/saved-searches', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const searches = await getSavedSearches(req.effectiveUserId!);
+    res.json({ searches });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to get saved searches');
+    res.status(500).json({ error: 'Failed to get saved searches' });
+  }
+});
+
+/**
+ * POST /api/saved-searches
+ * 保存搜索：{ name, query, mode, semanticWeight, keywordWeight, minScore, filters, notifyChannels, isActive }
+ */
+router.post('/saved-searches', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const input = parseSavedSearchInput(req.body || {});
+    if (typeof input === 'string') {
+      return res.status(400).json({ error: input });
+    }
+    if (await isSavedSearchNameTaken(req.effectiveUserId!, input.name)) {
+      return res.status(409).json({ error: '已存在同名的订阅搜索' });
+    }
+
+    const search = await createSavedSearch(req.effectiveUserId!, input);
+    res.status(201).json(search);
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to create saved search');
+    res.status(500).json({ error: 'Failed to create saved search' });
+  }
+});
+
+/**
+ * PUT /api/saved-searches/:id
+ * 更新订阅搜索
+ */
+router.put('/saved-searches/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(String(req.params.id), 10);
+    const input = parseSavedSearchInput(req.body || {});
+    if (typeof input === 'string') {
+      return res.status(400).json({ error: input });
+    }
+    if (await isSavedSearchNameTaken(req.effectiveUserId!, input.name, id)) {
+      return res.status(409).json({ error: '已存在同名的订阅搜索' });
+    }
+
+    const search = await updateSavedSearch(req.effectiveUserId!, id, input);
+    if (!search) {
+      return res.status(404).json({ error: '订阅搜索不存在' });
+    }
+
+    res.json(search);
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to update saved search');
+    res.status(500).json({ error: 'Failed to update saved search' });
+  }
+});
+
+/**
+ * DELETE /api/saved-searches/:id
+ * 删除订阅搜索及其收件箱
+ */
+router.delete('/saved-searches/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const deleted = await deleteSavedSearch(req.effectiveUserId!, parseInt(String(req.params.id), 10));
+    if (!deleted) {
+      return res.status(404).json({ error: '订阅搜索不存在' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to delete saved search');
+    res.status(500).json({ error: 'Failed to delete saved search' });
+  }
+});
+
+/**
+ * GET /api/saved-searches/:id/matches?unreadOnly=true&page=1&limit=20
+ * 订阅搜索收件箱（按匹配时间倒序）
+ */
+router.get('/saved-searches/:id/matches', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const search = await getSavedSearch(req.effectiveUserId!, parseInt(String(req.params.id), 10));
+    if (!search) {
+      return res.status(404).json({ error: '订阅搜索不存在' });
+    }
+
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+    const { matches, total } = await getSavedSearchMatches(search.id, {
+      unreadOnly: req.query.unreadOnly === 'true',
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    res.json({ search, matches, total, page, limit });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to get saved search matches');
+    res.status(500).json({ error: 'Failed to get saved search matches' });
+  }
+});
+
+/**
+ * POST /api/saved-searches/:id/matches/read
+ * 标记收件箱已读：{ matchIds?: number[] }，省略 matchIds 时全部标记
+ */
+router.post('/saved-searches/:id/matches/read', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const search = await getSavedSearch(req.effectiveUserId!, parseInt(String(req.params.id), 10));
+    if (!search) {
+      return res.status(404).json({ error: '订阅搜索不存在' });
+    }
+
+    const { matchIds } = req.body || {};
+    if (matchIds !== undefined && (!Array.isArray(matchIds) || !matchIds.every((id) => Number.isInteger(id)))) {
+      return res.status(400).json({ error: 'matchIds 应为整数数组' });
+    }
+
+    const updated = await markSavedSearchMatchesRead(search.id, matchIds);
+    res.json({ success: true, updated });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to mark saved search matches as read');
+    res.status(500).json({ error: 'Failed to mark saved search matches as read' });
+  }
+});
+
+/**
+ * POST /api/saved-searches/:id/check
+ * 立即检查上次检查后新处理完成的文章（不等待流水线触发）
+ */
+router.post('/saved-searches/:id/check', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const search = await getSavedSearch(req.effectiveUserId!, parseInt(String(req.params.id), 10));
+    if (!search) {
+      return res.status(404).json({ error: '订阅搜索不存在' });
+    }
+    if (!search.isActive) {
+      return res.status(400).json({ error: '订阅搜索已暂停' });
+    }
+
+    const result = await checkSavedSearch(req.effectiveUserId!, search);
+    res.json(result);
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to check saved search');
+    res.status(500).json({ error: 'Failed to check saved search' });
+  }
+});
+
+export default router;
@@ -1,8 +1,20 @@
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { optionalAuth, requireWriteAccess, requireSearchSummaryAccess } from '../../middleware/auth.js';
+import { optionalAuth, requireAuth, requireWriteAccess, requireSearchSummaryAccess } from '../../middleware/auth.js';
 import { logger } from '../../logger.js';
-import { search, SearchMode } from '../../vector/search.js';
+import {
+  evaluateFusionStrategies,
+  FUSION_STRATEGIES,
+  formatSearchFilters,
+  FusionStrategy,
+  hasSearchFilters,
+  normalizeSearchFilters,
+  parseFusionStrategy,
+  parseSearchQuery,
+  search,
+  SearchMode,
+  type EvaluationQuery,
+} from '../../vector/search.js';
 import { generateSearchSummary } from '../daily-summary.js';
 
 const log = logger.child({ module: 'api-routes/search' });
@@ -14,10 +26,12 @@ const router = express.Router();
  * Search articles by semantic, keyword, or hybrid mode
  *
  * Query parameters:
- * - q: search query (required)
- * - mode: 'semantic' | 'keyword' | 'mixed' (default: 'mixed')
+ * - q: search query (required); may contain filter syntax such as
+ *   source:"图书情报工作" year:2025..2026 rating>=4 -is:read (see vector/search-filters.ts)
+ * - mode: 'semantic' | 'keyword' | 'mixed' (default: 'mixed'); keyword ranks by FTS5 BM25
  * - page: page number (default: 1)
  * - limit: results per page (default: 10)
+ * - fusion: hybrid fusion strategy 'weighted' | 'minmax' | 'rrf' | 'rerank' (default: 'weighted')
  */
 router.get('/', optionalAuth, async (req: AuthRequest, res) => {
   try {
@@ -26,10 +40,16 @@ router.get('/', optionalAuth, async (req: AuthRequest, res) => {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
 
-    if (!query || query.trim().length === 0) {
+    const parsed = parseSearchQuery(query || '');
+    if (!parsed.text && !hasSearchFilters(parsed.filters)) {
       return res.status(400).json({ error: 'Search query is required' });
     }
 
+    const fusion = parseFusionStrategy(req.query.fusion);
+    if (req.query.fusion !== undefined && !fusion) {
+      return res.status(400).json({ error: `fusion must be one of: ${FUSION_STRATEGIES.join(', ')}` });
+    }
+
     const searchMode = mode === 'semantic' ? SearchMode.SEMANTIC
       : mode === 'keyword' ? SearchMode.KEYWORD
       : SearchMode.HYBRID;
@@ -38,7 +58,9 @@ router.get('/', optionalAuth, async (req: AuthRequest, res) => {
       mode: searchMode,
       // Use effectiveUserId for guest users to read admin's data
       userId: (req as any).effectiveUserId || req.userId!,
-      query: query.trim(),
+      query: parsed.text,
+      filters: parsed.filters,
+      fusion,
       limit,
       offset: (page - 1) * limit,
       normalizeScores: true,
@@ -57,14 +79,19 @@ router.get('/', optionalAuth, async (req: AuthRequest, res) => {
         keyword_name: r.metadata?.keyword_name,
         relevance: r.score,
         excerpt: r.metadata?.summary || '',
+        // HTML-escaped full-text snippet with <mark> highlights (keyword / hybrid)
+        snippet: r.metadata?.snippet,
       })),
       mode: response.mode,
       query: response.query,
+      // Recognized filter syntax, echoed back for display
+      filters: formatSearchFilters(parsed.filters),
       total: response.total,
       page: response.page,
       limit: response.limit,
       totalPages: Math.ceil(response.total / limit),
       fallback: response.fallback,
+      fusion: response.fusion,
     });
   } catch (error) {
     log.error({ error, userId: req.userId }, 'Failed to search articles');
@@ -72,6 +99,122 @@ router.get('/', optionalAuth, async (req: AuthRequest, res) => {
   }
 });
 
+const MAX_EVALUATION_QUERIES = 100;
+const MAX_EVALUATION_K = 100;
+
+/**
+ * Parse the labelled query set of an evaluation request
+ * @returns error message, or the parsed queries
+ */
+function parseEvaluationQueries(value: unknown): string | EvaluationQuery[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    return 'queries must be a non-empty array';
+  }
+  if (value.length > MAX_EVALUATION_QUERIES) {
+    return `queries must contain at most ${MAX_EVALUATION_QUERIES} items`;
+  }
+
+  const queries: EvaluationQuery[] = [];
+  for (const [index, item] of value.entries()) {
+    const query = typeof item?.query === 'string' ? item.query.trim() : '';
+    if (!query) {
+      return `queries[${index}].query is required`;
+    }
+
+    // relevant: [id, ...]（等级均为 1）或 { id: grade }
+    const relevance = new Map<number, number>();
+    const entries: Array<[unknown, unknown]> = Array.isArray(item.relevant)
+      ? item.relevant.map((id: unknown) => [id, 1])
+      : item.relevant && typeof item.relevant === 'object'
+        ? Object.entries(item.relevant)
+        : [];
+    for (const [rawId, rawGrade] of entries) {
+      const id = Number(rawId);
+      const grade = Number(rawGrade);
+      if (!Number.isInteger(id) || id <= 0 || !Number.isFinite(grade) || grade < 0) {
+        return `queries[${index}].relevant must map article IDs to non-negative grades`;
+      }
+      if (grade > 0) relevance.set(id, grade);
+    }
+    if (relevance.size === 0) {
+      return `queries[${index}].relevant must list at least one relevant article`;
+    }
+
+    queries.push({ query, relevance });
+  }
+  return queries;
+}
+
+/**
+ * POST /api/search/evaluate
+ * Offline evaluation of hybrid fusion strategies on a labelled query set
+ *
+ * Body:
+ * - queries: [{ query, relevant: [articleId, ...] | { articleId: grade } }] (max 100)
+ * - strategies: fusion strategies to compare (default: all)
+ * - k: cutoff for nDCG@k / MRR@k / Recall@k (default: 10)
+ * - semanticWeight / keywordWeight: fusion weights
+ * - filters: SearchFilters object or filter syntax string, applied to every query
+ *
+ * Each query costs one embedding call (plus one rerank call for the rerank strategy).
+ */
+router.post('/evaluate', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const body = req.body ?? {};
+
+    const queries = parseEvaluationQueries(body.queries);
+    if (typeof queries === 'string') {
+      return res.status(400).json({ error: queries });
+    }
+
+    let strategies: FusionStrategy[] = FUSION_STRATEGIES;
+    if (body.strategies !== undefined) {
+      const parsedStrategies = Array.isArray(body.strategies) ? body.strategies.map(parseFusionStrategy) : [];
+      if (parsedStrategies.length === 0 || parsedStrategies.some((strategy: FusionStrategy | undefined) => !strategy)) {
+        return res.status(400).json({ error: `strategies must be a non-empty array of: ${FUSION_STRATEGIES.join(', ')}` });
+      }
+      strategies = [...new Set<FusionStrategy>(parsedStrategies)];
+    }
+
+    const k = body.k === undefined ? 10 : Number(body.k);
+    if (!Number.isInteger(k) || k <= 0 || k > MAX_EVALUATION_K) {
+      return res.status(400).json({ error: `k must be an integer between 1 and ${MAX_EVALUATION_K}` });
+    }
+
+    const weights: Record<'semanticWeight' | 'keywordWeight', number | undefined> = {
+      semanticWeight: undefined,
+      keywordWeight: undefined,
+    };
+    for (const key of ['semanticWeight', 'keywordWeight'] as const) {
+      if (body[key] === undefined) continue;
+      const weight = Number(body[key]);
+      if (!Number.isFinite(weight) || weight < 0) {
+        return res.status(400).json({ error: `${key} must be a non-negative number` });
+      }
+      weights[key] = weight;
+    }
+
+    const filters = normalizeSearchFilters(body.filters);
+    if (typeof filters === 'string') {
+      return res.status(400).json({ error: `filters must be valid: ${filters}` });
+    }
+
+    const result = await evaluateFusionStrategies({
+      userId: req.effectiveUserId!,
+      queries,
+      strategies,
+      k,
+      ...weights,
+      filters,
+    });
+
+    res.json(result);
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to evaluate search fusion strategies');
+    res.status(500).json({ error: 'Failed to evaluate search fusion strategies' });
+  }
+});
+
 /**
  * POST /api/search/summary
  * Generate AI summary from selected articles
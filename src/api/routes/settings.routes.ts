@@ -1,8 +1,15 @@
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireAdmin } from '../../middleware/auth.js';
-import { getChromaSettings, updateChromaSettings, getTelegramSettings, updateTelegramSettings } from '../settings.js';
+import { requireAuth, requireWorkspaceOwner, requireWriteAccess } from '../../middleware/auth.js';
+import {
+  getChromaSettings,
+  updateChromaSettings,
+  getTelegramSettings,
+  updateTelegramSettings,
+  type VectorBackend,
+} from '../settings.js';
 import { getTelegramNotifier } from '../../telegram/index.js';
+import { buildTelegramWebhookUrl, getBotManager } from '../../telegram/bot-manager.js';
 import { getTelegramChats, hasTelegramChats } from '../telegram-chats.js';
 import { logger } from '../../logger.js';
 
@@ -16,10 +23,10 @@ const router = express.Router();
  */
 router.get('/settings/chroma', requireAuth, async (req: AuthRequest, res) => {
   try {
-    const settings = await getChromaSettings(req.userId!);
+    const settings = await getChromaSettings(req.effectiveUserId!);
     res.json(settings);
   } catch (error) {
-    log.error({ error, userId: req.userId }, 'Failed to get Chroma settings');
+    log.error({ error, userId: req.effectiveUserId }, 'Failed to get Chroma settings');
     res.status(500).json({ error: 'Failed to get Chroma settings' });
   }
 });
@@ -28,9 +35,13 @@ router.get('/settings/chroma', requireAuth, async (req: AuthRequest, res) => {
  * PUT /api/settings/chroma
  * 更新 Chroma 配置
  */
-router.put('/settings/chroma', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.put('/settings/chroma', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
-    const { host, port, collection, distanceMetric } = req.body || {};
+    const { backend, host, port, collection, distanceMetric } = req.body || {};
+
+    if (backend !== undefined && !['chroma', 'sqlite'].includes(backend)) {
+      return res.status(400).json({ error: 'backend 必须是 chroma 或 sqlite' });
+    }
 
     if (host !== undefined && (typeof host !== 'string' || host.trim().length === 0)) {
       return res.status(400).json({ error: 'host 不能为空' });
@@ -51,7 +62,8 @@ router.put('/settings/chroma', requireAuth, requireAdmin, async (req: AuthReques
       return res.status(400).json({ error: 'distanceMetric 必须是 cosine、l2 或 ip' });
     }
 
-    await updateChromaSettings(req.userId!, {
+    await updateChromaSettings(req.effectiveUserId!, {
+      backend: backend as VectorBackend | undefined,
       host: host?.trim(),
       port: port !== undefined ? parseInt(port, 10) : undefined,
       collection: collection?.trim(),
@@ -60,7 +72,7 @@ router.put('/settings/chroma', requireAuth, requireAdmin, async (req: AuthReques
 
     res.json({ success: true });
   } catch (error) {
-    log.error({ error, userId: req.userId }, 'Failed to update Chroma settings');
+    log.error({ error, userId: req.effectiveUserId }, 'Failed to update Chroma settings');
     res.status(500).json({ error: 'Failed to update Chroma settings' });
   }
 });
@@ -69,7 +81,7 @@ router.put('/settings/chroma', requireAuth, requireAdmin, async (req: AuthReques
  * Helper to mask sensitive Telegram settings
  * Returns masked values with a `masked` flag to indicate the state
  */
-function maskTelegramSettings(settings: any, hasChats: boolean) {
+function maskTelegramSettings(settings: any, hasChats: boolean, userId: number) {
   // Mask bot token for security (show first 4 and last 4 characters if possible)
   let maskedBotToken = '';
   if (settings.botToken) {
@@ -87,6 +99,10 @@ function maskTelegramSettings(settings: any, hasChats: boolean) {
     hasChats,
     // Explicit flag to indicate if credentials are configured (masked)
     hasCredentials: !!settings.botToken,
+    updateMode: settings.updateMode,
+    webhookUrl: settings.webhookUrl,
+    // 实际注册到 Telegram 的地址（secret_token 不返回）
+    webhookEndpoint: buildTelegramWebhookUrl(userId, settings.webhookUrl),
   };
 }
 
@@ -96,11 +112,11 @@ function maskTelegramSettings(settings: any, hasChats: boolean) {
  */
 router.get('/settings/telegram', requireAuth, async (req: AuthRequest, res) => {
   try {
-    const settings = await getTelegramSettings(req.userId!);
-    const hasChats = await hasTelegramChats(req.userId!);
-    res.json(maskTelegramSettings(settings, hasChats));
+    const settings = await getTelegramSettings(req.effectiveUserId!);
+    const hasChats = await hasTelegramChats(req.effectiveUserId!);
+    res.json(maskTelegramSettings(settings, hasChats, req.effectiveUserId!));
   } catch (error) {
-    log.error({ error, userId: req.userId }, 'Failed to get Telegram settings');
+    log.error({ error, userId: req.effectiveUserId }, 'Failed to get Telegram settings');
     res.status(500).json({ error: 'Failed to get Telegram settings' });
   }
 });
@@ -108,10 +124,11 @@ router.get('/settings/telegram', requireAuth, async (req: AuthRequest, res) => {
 /**
  * PUT /api/settings/telegram
  * 更新 Telegram 配置（仅全局配置，chat 配置通过 /api/telegram-chats 管理）
+ * Bot token 属于工作区所有者的凭据，仅所有者可修改
  */
-router.put('/settings/telegram', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.put('/settings/telegram', requireAuth, requireWorkspaceOwner, async (req: AuthRequest, res) => {
   try {
-    const { enabled, botToken } = req.body || {};
+    const { enabled, botToken, updateMode, webhookUrl } = req.body || {};
 
     // Validate botToken format (should be "数字:字符串" format from BotFather)
     if (botToken !== undefined) {
@@ -121,17 +138,51 @@ router.put('/settings/telegram', requireAuth, requireAdmin, async (req: AuthRequ
       }
     }
 
-    await updateTelegramSettings(req.userId!, {
+    if (updateMode !== undefined && !['polling', 'webhook'].includes(updateMode)) {
+      return res.status(400).json({ error: 'updateMode 必须是 polling 或 webhook' });
+    }
+
+    if (webhookUrl !== undefined && webhookUrl !== null && typeof webhookUrl !== 'string') {
+      return res.status(400).json({ error: 'webhookUrl 必须是字符串' });
+    }
+
+    const previousSettings = await getTelegramSettings(req.effectiveUserId!);
+    const nextWebhookUrl = webhookUrl !== undefined ? (webhookUrl?.trim() || '') : previousSettings.webhookUrl;
+
+    // Telegram 只向 HTTPS 地址推送
+    if ((updateMode ?? previousSettings.updateMode) === 'webhook') {
+      const endpoint = buildTelegramWebhookUrl(req.effectiveUserId!, nextWebhookUrl);
+      if (!endpoint.startsWith('https://')) {
+        return res.status(400).json({ error: 'Webhook 模式需要 HTTPS 公网地址（填写 Webhook 地址或配置 BASE_URL）' });
+      }
+    }
+
+    await updateTelegramSettings(req.effectiveUserId!, {
       enabled: enabled !== undefined ? Boolean(enabled) : undefined,
       botToken: botToken?.trim(),
+      updateMode,
+      webhookUrl: webhookUrl !== undefined ? nextWebhookUrl : undefined,
     });
 
     // 获取更新后的完整配置并返回（脱敏处理）
-    const updatedSettings = await getTelegramSettings(req.userId!);
-    const hasChats = await hasTelegramChats(req.userId!);
-    res.json(maskTelegramSettings(updatedSettings, hasChats));
+    const updatedSettings = await getTelegramSettings(req.effectiveUserId!);
+    const hasChats = await hasTelegramChats(req.effectiveUserId!);
+
+    // 启用状态、Token 或接收方式变化时重启 Bot，使新配置立即生效
+    const botConfigChanged =
+      updatedSettings.enabled !== previousSettings.enabled ||
+      updatedSettings.botToken !== previousSettings.botToken ||
+      updatedSettings.updateMode !== previousSettings.updateMode ||
+      updatedSettings.webhookUrl !== previousSettings.webhookUrl;
+    if (botConfigChanged) {
+      getBotManager().reload().catch((error) => {
+        log.error({ error, userId: req.effectiveUserId }, 'Failed to reload Telegram bots');
+      });
+    }
+
+    res.json(maskTelegramSettings(updatedSettings, hasChats, req.effectiveUserId!));
   } catch (error) {
-    log.error({ error, userId: req.userId }, 'Failed to update Telegram settings');
+    log.error({ error, userId: req.effectiveUserId }, 'Failed to update Telegram settings');
     res.status(500).json({ error: 'Failed to update Telegram settings' });
   }
 });
@@ -141,14 +192,14 @@ router.put('/settings/telegram', requireAuth, requireAdmin, async (req: AuthRequ
  * 测试 Telegram 连接
  * @param chatId - Optional specific chat ID to test. If not provided, tests all active chats.
  */
-router.post('/settings/telegram/test', requireAuth, async (req: AuthRequest, res) => {
+router.post('/settings/telegram/test', requireAuth, requireWorkspaceOwner, async (req: AuthRequest, res) => {
   try {
     const { chatId } = req.body || {};
     const notifier = getTelegramNotifier();
-    const result = await notifier.testConnection(req.userId!, chatId);
+    const result = await notifier.testConnection(req.effectiveUserId!, chatId);
     res.json(result);
   } catch (error) {
-    log.error({ error, userId: req.userId }, 'Failed to test Telegram connection');
+    log.error({ error, userId: req.effectiveUserId }, 'Failed to test Telegram connection');
     res.status(500).json({ success: false, message: '连接测试失败' });
   }
 });
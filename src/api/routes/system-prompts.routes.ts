@@ -1,6 +1,6 @@
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireAdmin } from '../../middleware/auth.js';
+import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
 import { logger } from '../../logger.js';
 import {
   listSystemPrompts,
@@ -27,7 +27,7 @@ router.get('/system-prompts', requireAuth, async (req: AuthRequest, res) => {
         ? req.query.isActive === 'true'
         : undefined;
 
-    const prompts = await listSystemPrompts(req.userId!, { type, isActive });
+    const prompts = await listSystemPrompts(req.effectiveUserId!, { type, isActive });
     res.json({ prompts });
   } catch (error) {
     log.error({ error, userId: req.userId }, 'Failed to list system prompts');
@@ -39,9 +39,9 @@ router.get('/system-prompts', requireAuth, async (req: AuthRequest, res) => {
  * POST /api/system-prompts/bootstrap
  * 初始化默认系统提示词（若缺失）
  */
-router.post('/system-prompts/bootstrap', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/system-prompts/bootstrap', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
-    const result = await ensureDefaultSystemPrompts(req.userId!);
+    const result = await ensureDefaultSystemPrompts(req.effectiveUserId!);
     res.json(result);
   } catch (error) {
     log.error({ error, userId: req.userId }, 'Failed to bootstrap system prompts');
@@ -73,7 +73,7 @@ router.get('/system-prompts/:id', requireAuth, async (req: AuthRequest, res) =>
       return res.status(400).json({ error: 'Invalid system prompt ID' });
     }
 
-    const prompt = await getSystemPromptById(id, req.userId!);
+    const prompt = await getSystemPromptById(id, req.effectiveUserId!);
     if (!prompt) {
       return res.status(404).json({ error: 'System prompt not found' });
     }
@@ -88,7 +88,7 @@ router.get('/system-prompts/:id', requireAuth, async (req: AuthRequest, res) =>
  * POST /api/system-prompts
  * 创建系统提示词
  */
-router.post('/system-prompts', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/system-prompts', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const { type, name, template, variables, isActive } = req.body || {};
     const isActiveValue =
@@ -108,7 +108,7 @@ router.post('/system-prompts', requireAuth, requireAdmin, async (req: AuthReques
       return res.status(400).json({ error: 'template 不能为空' });
     }
 
-    const result = await createSystemPrompt(req.userId!, {
+    const result = await createSystemPrompt(req.effectiveUserId!, {
       type,
       name,
       template,
@@ -127,7 +127,7 @@ router.post('/system-prompts', requireAuth, requireAdmin, async (req: AuthReques
  * PUT /api/system-prompts/:id
  * 更新系统提示词
  */
-router.put('/system-prompts/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.put('/system-prompts/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = Number(req.params.id);
     if (!Number.isFinite(id)) {
@@ -142,7 +142,7 @@ router.put('/system-prompts/:id', requireAuth, requireAdmin, async (req: AuthReq
           ? isActive === 'true'
           : undefined;
 
-    await updateSystemPrompt(id, req.userId!, {
+    await updateSystemPrompt(id, req.effectiveUserId!, {
       type,
       name,
       template,
@@ -165,13 +165,13 @@ router.put('/system-prompts/:id', requireAuth, requireAdmin, async (req: AuthReq
  * DELETE /api/system-prompts/:id
  * 删除系统提示词
  */
-router.delete('/system-prompts/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.delete('/system-prompts/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = Number(req.params.id);
     if (!Number.isFinite(id)) {
       return res.status(400).json({ error: 'Invalid system prompt ID' });
     }
-    await deleteSystemPrompt(id, req.userId!);
+    await deleteSystemPrompt(id, req.effectiveUserId!);
     res.json({ success: true });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to delete system prompt';
@@ -1,6 +1,6 @@
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireAdmin } from '../../middleware/auth.js';
+import { requireAuth, requireMember } from '../../middleware/auth.js';
 import {
   getTelegramChats,
   getTelegramChatById,
@@ -35,7 +35,7 @@ router.get('/telegram-chats', requireAuth, async (req: AuthRequest, res) => {
  * POST /api/telegram-chats
  * 添加新的 Telegram Chat
  */
-router.post('/telegram-chats', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/telegram-chats', requireAuth, requireMember, async (req: AuthRequest, res) => {
   try {
     const {
       chatId,
@@ -98,7 +98,7 @@ router.post('/telegram-chats', requireAuth, requireAdmin, async (req: AuthReques
  * PUT /api/telegram-chats/:id
  * 更新 Telegram Chat
  */
-router.put('/telegram-chats/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.put('/telegram-chats/:id', requireAuth, requireMember, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     const id = parseInt(Array.isArray(idParam) ? idParam[0] : idParam, 10);
@@ -115,7 +115,8 @@ router.put('/telegram-chats/:id', requireAuth, requireAdmin, async (req: AuthReq
       newArticles,
       insights,
       pdfSummary,
-      isActive
+      isActive,
+      isPaused
     } = req.body || {};
 
     // Validate role
@@ -133,6 +134,7 @@ router.put('/telegram-chats/:id', requireAuth, requireAdmin, async (req: AuthReq
       insights,
       pdfSummary,
       isActive,
+      isPaused,
     };
 
     const chat = await updateTelegramChat(req.userId!, id, input);
@@ -151,7 +153,7 @@ router.put('/telegram-chats/:id', requireAuth, requireAdmin, async (req: AuthReq
  * DELETE /api/telegram-chats/:id
  * 删除 Telegram Chat
  */
-router.delete('/telegram-chats/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.delete('/telegram-chats/:id', requireAuth, requireMember, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     const id = parseInt(Array.isArray(idParam) ? idParam[0] : idParam, 10);
@@ -0,0 +1,48 @@
+import express from 'express';
+import { getBotManager } from '../../telegram/bot-manager.js';
+import type { TelegramUpdate } from '../../telegram/types.js';
+import { logger } from '../../logger.js';
+
+const log = logger.child({ module: 'api-routes/telegram-webhook' });
+
+const router = express.Router();
+
+/**
+ * POST /api/telegram/webhook/:userId
+ * Telegram Webhook 接收端（Webhook 模式下由 setWebhook 注册，不经过登录认证）
+ *
+ * 以 X-Telegram-Bot-Api-Secret-Token 头校验来源；更新交给 Bot 的 processUpdates 处理。
+ * 处理出错也返回 200：Telegram 在 webhook 失败时会持续重投同一更新并阻塞后续更新。
+ */
+router.post('/telegram/webhook/:userId', async (req, res) => {
+  const userIdParam = req.params.userId;
+  const userId = parseInt(Array.isArray(userIdParam) ? userIdParam[0] : userIdParam, 10);
+  if (isNaN(userId)) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  const bot = getBotManager().getBot(userId);
+  if (!bot || !bot.isWebhookMode()) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  if (!bot.verifyWebhookSecret(req.get('X-Telegram-Bot-Api-Secret-Token'))) {
+    log.warn({ userId, ip: req.ip }, 'Telegram webhook request with invalid secret token');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const update = req.body as TelegramUpdate;
+  if (!update || typeof update.update_id !== 'number') {
+    return res.status(400).json({ error: 'Invalid update' });
+  }
+
+  try {
+    await bot.handleWebhookUpdate(update);
+  } catch (error) {
+    log.error({ error, userId, updateId: update.update_id }, 'Failed to process Telegram webhook update');
+  }
+
+  res.json({ ok: true });
+});
+
+export default router;
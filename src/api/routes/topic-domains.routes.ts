@@ -1,6 +1,6 @@
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireAdmin } from '../../middleware/auth.js';
+import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
 import * as topicDomainService from '../topic-domains.js';
 import { logger } from '../../logger.js';
 
@@ -22,7 +22,7 @@ router.get('/topic-domains', requireAuth, async (req: AuthRequest, res) => {
     const limit = parseInt(req.query.limit as string) || 20;
     const isActive = req.query.isActive === 'true' ? true : req.query.isActive === 'false' ? false : undefined;
 
-    const result = await topicDomainService.getUserTopicDomains(req.userId!, {
+    const result = await topicDomainService.getUserTopicDomains(req.effectiveUserId!, {
       page,
       limit,
       isActive,
@@ -43,7 +43,7 @@ router.get('/topic-domains/with-keyword-count', requireAuth, async (req: AuthReq
   try {
     const isActive = req.query.isActive === 'true' ? true : req.query.isActive === 'false' ? false : undefined;
 
-    const domains = await topicDomainService.getUserTopicDomainsWithKeywordCount(req.userId!, {
+    const domains = await topicDomainService.getUserTopicDomainsWithKeywordCount(req.effectiveUserId!, {
       isActive,
     });
 
@@ -70,7 +70,7 @@ router.get('/topic-domains/:id', requireAuth, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Invalid topic domain ID' });
     }
 
-    const domain = await topicDomainService.getTopicDomainById(id, req.userId!);
+    const domain = await topicDomainService.getTopicDomainById(id, req.effectiveUserId!);
 
     if (!domain) {
       return res.status(404).json({ error: 'Topic domain not found' });
@@ -87,7 +87,7 @@ router.get('/topic-domains/:id', requireAuth, async (req: AuthRequest, res) => {
  * POST /api/topic-domains
  * Create a new topic domain
  */
-router.post('/topic-domains', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/topic-domains', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const { name, description, priority, isActive } = req.body;
 
@@ -97,12 +97,12 @@ router.post('/topic-domains', requireAuth, requireAdmin, async (req: AuthRequest
     }
 
     // Check if name already exists
-    const exists = await topicDomainService.checkNameExists(req.userId!, name.trim());
+    const exists = await topicDomainService.checkNameExists(req.effectiveUserId!, name.trim());
     if (exists) {
       return res.status(400).json({ error: 'Name already exists' });
     }
 
-    const result = await topicDomainService.createTopicDomain(req.userId!, {
+    const result = await topicDomainService.createTopicDomain(req.effectiveUserId!, {
       name: name.trim(),
       description: description?.trim() || undefined,
       priority: priority !== undefined ? parseInt(priority) : undefined,
@@ -120,7 +120,7 @@ router.post('/topic-domains', requireAuth, requireAdmin, async (req: AuthRequest
  * PUT /api/topic-domains/:id
  * Update topic domain
  */
-router.put('/topic-domains/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.put('/topic-domains/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -143,7 +143,7 @@ router.put('/topic-domains/:id', requireAuth, requireAdmin, async (req: AuthRequ
       }
 
       // Check if new name already exists (excluding current domain)
-      const exists = await topicDomainService.checkNameExists(req.userId!, name.trim(), id);
+      const exists = await topicDomainService.checkNameExists(req.effectiveUserId!, name.trim(), id);
       if (exists) {
         return res.status(400).json({ error: 'Name already exists' });
       }
@@ -170,7 +170,7 @@ router.put('/topic-domains/:id', requireAuth, requireAdmin, async (req: AuthRequ
       updateData.isActive = isActive;
     }
 
-    await topicDomainService.updateTopicDomain(id, req.userId!, updateData);
+    await topicDomainService.updateTopicDomain(id, req.effectiveUserId!, updateData);
 
     res.json({ success: true });
   } catch (error) {
@@ -186,7 +186,7 @@ router.put('/topic-domains/:id', requireAuth, requireAdmin, async (req: AuthRequ
  * DELETE /api/topic-domains/:id
  * Delete topic domain
  */
-router.delete('/topic-domains/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.delete('/topic-domains/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -198,7 +198,7 @@ router.delete('/topic-domains/:id', requireAuth, requireAdmin, async (req: AuthR
       return res.status(400).json({ error: 'Invalid topic domain ID' });
     }
 
-    await topicDomainService.deleteTopicDomain(id, req.userId!);
+    await topicDomainService.deleteTopicDomain(id, req.effectiveUserId!);
 
     res.json({ success: true });
   } catch (error) {
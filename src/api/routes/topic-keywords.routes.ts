@@ -1,6 +1,6 @@
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireAdmin } from '../../middleware/auth.js';
+import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
 import * as topicKeywordService from '../topic-keywords.js';
 import { logger } from '../../logger.js';
 
@@ -31,7 +31,7 @@ router.get('/topic-domains/:domainId/keywords', requireAuth, async (req: AuthReq
       return res.status(400).json({ error: 'Invalid domain ID' });
     }
 
-    const result = await topicKeywordService.getDomainKeywords(domainId, req.userId!, {
+    const result = await topicKeywordService.getDomainKeywords(domainId, req.effectiveUserId!, {
       page,
       limit,
       isActive,
@@ -57,7 +57,7 @@ router.get('/topic-keywords/all', requireAuth, async (req: AuthRequest, res) =>
     const limit = parseInt(req.query.limit as string) || 10;
     const isActive = req.query.isActive === 'true' ? true : req.query.isActive === 'false' ? false : undefined;
 
-    const result = await topicKeywordService.getAllKeywordsWithDomain(req.userId!, {
+    const result = await topicKeywordService.getAllKeywordsWithDomain(req.effectiveUserId!, {
       page,
       limit,
       isActive,
@@ -86,7 +86,7 @@ router.get('/topic-keywords/:id', requireAuth, async (req: AuthRequest, res) =>
       return res.status(400).json({ error: 'Invalid topic keyword ID' });
     }
 
-    const keyword = await topicKeywordService.getTopicKeywordWithDomain(id, req.userId!);
+    const keyword = await topicKeywordService.getTopicKeywordWithDomain(id, req.effectiveUserId!);
 
     if (!keyword) {
       return res.status(404).json({ error: 'Topic keyword not found' });
@@ -103,7 +103,7 @@ router.get('/topic-keywords/:id', requireAuth, async (req: AuthRequest, res) =>
  * POST /api/topic-keywords
  * Create a new topic keyword
  */
-router.post('/topic-keywords', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/topic-keywords', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const { domainId, keyword, description, weight, isActive } = req.body;
 
@@ -124,7 +124,7 @@ router.post('/topic-keywords', requireAuth, requireAdmin, async (req: AuthReques
       return res.status(400).json({ error: 'Keyword already exists for this domain' });
     }
 
-    const result = await topicKeywordService.createTopicKeyword(req.userId!, {
+    const result = await topicKeywordService.createTopicKeyword(req.effectiveUserId!, {
       domainId: domainIdNum,
       keyword: keyword.trim(),
       description: description?.trim() || undefined,
@@ -146,7 +146,7 @@ router.post('/topic-keywords', requireAuth, requireAdmin, async (req: AuthReques
  * PUT /api/topic-keywords/:id
  * Update topic keyword
  */
-router.put('/topic-keywords/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.put('/topic-keywords/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -169,7 +169,7 @@ router.put('/topic-keywords/:id', requireAuth, requireAdmin, async (req: AuthReq
       }
 
       // Get current keyword to check domain
-      const current = await topicKeywordService.getTopicKeywordById(id, req.userId!);
+      const current = await topicKeywordService.getTopicKeywordById(id, req.effectiveUserId!);
       if (!current) {
         return res.status(404).json({ error: 'Topic keyword not found' });
       }
@@ -202,7 +202,7 @@ router.put('/topic-keywords/:id', requireAuth, requireAdmin, async (req: AuthReq
       updateData.isActive = isActive;
     }
 
-    await topicKeywordService.updateTopicKeyword(id, req.userId!, updateData);
+    await topicKeywordService.updateTopicKeyword(id, req.effectiveUserId!, updateData);
 
     res.json({ success: true });
   } catch (error) {
@@ -218,7 +218,7 @@ router.put('/topic-keywords/:id', requireAuth, requireAdmin, async (req: AuthReq
  * DELETE /api/topic-keywords/:id
  * Delete topic keyword
  */
-router.delete('/topic-keywords/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.delete('/topic-keywords/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const idParam = req.params.id;
     if (Array.isArray(idParam)) {
@@ -230,7 +230,7 @@ router.delete('/topic-keywords/:id', requireAuth, requireAdmin, async (req: Auth
       return res.status(400).json({ error: 'Invalid topic keyword ID' });
     }
 
-    await topicKeywordService.deleteTopicKeyword(id, req.userId!);
+    await topicKeywordService.deleteTopicKeyword(id, req.effectiveUserId!);
 
     res.json({ success: true });
   } catch (error) {
@@ -0,0 +1,183 @@
+import express from 'express';
+import type { AuthRequest } from '../../middleware/auth.js';
+import { refreshSession, requireAdmin, requireAuth } from '../../middleware/auth.js';
+import * as userService from '../users.js';
+import { logger } from '../../logger.js';
+
+const log = logger.child({ module: 'api-routes/users' });
+
+const router = express.Router();
+
+function parseIdParam(idParam: unknown): number {
+  return typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+}
+
+/**
+ * Service errors → 400 / 404
+ */
+function sendUserError(res: express.Response, error: unknown): boolean {
+  const message = error instanceof Error ? error.message : '';
+  if (message === 'User not found') {
+    res.status(404).json({ error: message });
+    return true;
+  }
+  if (
+    message.includes('is required') ||
+    message.includes('must be at least') ||
+    message.startsWith('Cannot ') ||
+    message === 'Username already exists' ||
+    message === 'Current password is incorrect'
+  ) {
+    res.status(400).json({ error: message });
+    return true;
+  }
+  return false;
+}
+
+// ============================================================================
+// Self-service
+// ============================================================================
+
+/**
+ * PUT /api/users/me/password
+ * Change own password: { currentPassword, newPassword }
+ * 其他会话随之失效，当前会话重新签发
+ */
+router.put('/users/me/password', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    if (req.user?.role === 'guest') {
+      return res.status(403).json({ error: '访客账户不能修改密码' });
+    }
+
+    const { currentPassword, newPassword } = req.body || {};
+    if (typeof currentPassword !== 'string' || !currentPassword) {
+      return res.status(400).json({ error: 'currentPassword is required' });
+    }
+    if (typeof newPassword !== 'string') {
+      return res.status(400).json({ error: 'newPassword is required' });
+    }
+
+    await userService.changeOwnPassword(req.userId!, currentPassword, newPassword);
+    refreshSession(res, req.user!);
+    res.json({ success: true });
+  } catch (error) {
+    if (sendUserError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to change password');
+    res.status(500).json({ error: 'Failed to change password' });
+  }
+});
+
+// ============================================================================
+// Admin management
+// ============================================================================
+
+/**
+ * GET /api/users
+ * List all users (admin only)
+ */
+router.get('/users', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+  try {
+    const users = await userService.getUsers();
+    res.json({ users, currentUserId: req.userId });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to get users');
+    res.status(500).json({ error: 'Failed to get users' });
+  }
+});
+
+/**
+ * POST /api/users
+ * Create a user: { username, password, role } (admin only)
+ */
+router.post('/users', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+  try {
+    const { username, password, role = 'member' } = req.body || {};
+    if (typeof username !== 'string' || !username.trim()) {
+      return res.status(400).json({ error: 'username is required' });
+    }
+    if (!userService.isUserRole(role)) {
+      return res.status(400).json({ error: `role must be one of: ${userService.USER_ROLES.join(', ')}` });
+    }
+
+    const user = await userService.createUser({ username, password, role });
+    res.status(201).json(user);
+  } catch (error) {
+    if (sendUserError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to create user');
+    res.status(500).json({ error: 'Failed to create user' });
+  }
+});
+
+/**
+ * PUT /api/users/:id
+ * Change role / disabled state: { role?, disabled? } (admin only)
+ */
+router.put('/users/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+  try {
+    const id = parseIdParam(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const { role, disabled } = req.body || {};
+    if (role !== undefined && !userService.isUserRole(role)) {
+      return res.status(400).json({ error: `role must be one of: ${userService.USER_ROLES.join(', ')}` });
+    }
+    if (disabled !== undefined && typeof disabled !== 'boolean') {
+      return res.status(400).json({ error: 'disabled must be a boolean' });
+    }
+
+    const user = await userService.updateUser(id, req.userId!, { role, disabled });
+    res.json(user);
+  } catch (error) {
+    if (sendUserError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to update user');
+    res.status(500).json({ error: 'Failed to update user' });
+  }
+});
+
+/**
+ * POST /api/users/:id/password
+ * Reset a user's password: { password } (admin only)
+ */
+router.post('/users/:id/password', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+  try {
+    const id = parseIdParam(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const { password } = req.body || {};
+    await userService.setPassword(id, typeof password === 'string' ? password : '');
+    if (id === req.userId) {
+      refreshSession(res, req.user!);
+    }
+    res.json({ success: true });
+  } catch (error) {
+    if (sendUserError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to reset password');
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+/**
+ * DELETE /api/users/:id
+ * Delete a user and the user's data (admin only)
+ */
+router.delete('/users/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+  try {
+    const id = parseIdParam(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    await userService.deleteUser(id, req.userId!);
+    res.json({ success: true });
+  } catch (error) {
+    if (sendUserError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to delete user');
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
+});
+
+export default router;
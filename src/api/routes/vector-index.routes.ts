@@ -0,0 +1,272 @@
+import express from 'express';
+import type { AuthRequest } from '../../middleware/auth.js';
+import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
+import {
+  countIndexableArticles,
+  createIndexVersion,
+  deleteIndexVersion,
+  activateIndexVersion,
+  getActiveIndexVersion,
+  getIndexVersion,
+  getIndexVersions,
+  getPendingIndexVersion,
+  updateIndexVersion,
+  versionToIndex,
+} from '../../vector/index-versions.js';
+import { dropIndex } from '../../vector/vector-store.js';
+import { TEXT_BUILDER_VERSION } from '../../vector/text-builder.js';
+import { getActiveConfigByType } from '../llm-configs.js';
+import { getChromaSettings } from '../settings.js';
+import { getVectorReindexWorker } from '../../vector-reindex-worker.js';
+import { logger } from '../../logger.js';
+
+const log = logger.child({ module: 'api-routes/vector-index' });
+
+const router = express.Router();
+
+const DEFAULT_BATCH_SIZE = 32;
+const MAX_BATCH_SIZE = 256;
+const DEFAULT_BATCH_DELAY_MS = 1000;
+const MAX_BATCH_DELAY_MS = 60_000;
+
+/**
+ * 校验节流参数，返回错误信息或解析后的值
+ */
+function parseThrottle(body: any): string | { batchSize?: number; batchDelayMs?: number } {
+  const result: { batchSize?: number; batchDelayMs?: number } = {};
+
+  if (body?.batchSize !== undefined) {
+    const batchSize = Number(body.batchSize);
+    if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_BATCH_SIZE) {
+      return `batchSize 必须是 1-${MAX_BATCH_SIZE} 的整数`;
+    }
+    result.batchSize = batchSize;
+  }
+
+  if (body?.batchDelayMs !== undefined) {
+    const batchDelayMs = Number(body.batchDelayMs);
+    if (!Number.isInteger(batchDelayMs) || batchDelayMs < 0 || batchDelayMs > MAX_BATCH_DELAY_MS) {
+      return `batchDelayMs 必须是 0-${MAX_BATCH_DELAY_MS} 的整数`;
+    }
+    result.batchDelayMs = batchDelayMs;
+  }
+
+  return result;
+}
+
+function parseVersionId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/settings/vector-index
+ * 索引版本列表，以及当前配置与 active 版本是否一致（不一致时需重建）
+ */
+router.get('/settings/vector-index', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.effectiveUserId!;
+    const [versions, active, pending, settings, embeddingConfig] = await Promise.all([
+      getIndexVersions(userId),
+      getActiveIndexVersion(userId),
+      getPendingIndexVersion(userId),
+      getChromaSettings(userId),
+      getActiveConfigByType(userId, 'embedding'),
+    ]);
+
+    // 没有 active 版本 = 仍在使用未版本化的旧索引，无法判断是否一致，一律建议重建
+    const staleReasons: string[] = [];
+    if (!active) {
+      staleReasons.push('legacy');
+    } else {
+      if (embeddingConfig && embeddingConfig.id !== active.embeddingConfigId) staleReasons.push('embedding_config');
+      if (active.textVersion !== TEXT_BUILDER_VERSION) staleReasons.push('text_version');
+      if (active.backend !== settings.backend) staleReasons.push('backend');
+      if (active.distanceMetric !== settings.distanceMetric) staleReasons.push('distance_metric');
+    }
+
+    res.json({
+      activeVersionId: active?.id ?? null,
+      pendingVersionId: pending?.id ?? null,
+      current: {
+        backend: settings.backend,
+        distanceMetric: settings.distanceMetric,
+        embeddingConfigId: embeddingConfig?.id ?? null,
+        embeddingModel: embeddingConfig?.model ?? null,
+        textVersion: TEXT_BUILDER_VERSION,
+      },
+      staleReasons,
+      versions,
+    });
+  } catch (error) {
+    log.error({ error, userId: req.effectiveUserId }, 'Failed to get vector index versions');
+    res.status(500).json({ error: 'Failed to get vector index versions' });
+  }
+});
+
+/**
+ * POST /api/settings/vector-index/rebuild
+ * 按当前后端与 embedding 配置创建新版本并在后台重建
+ */
+router.post('/settings/vector-index/rebuild', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.effectiveUserId!;
+    const throttle = parseThrottle(req.body);
+    if (typeof throttle === 'string') {
+      return res.status(400).json({ error: throttle });
+    }
+
+    const pending = await getPendingIndexVersion(userId);
+    if (pending) {
+      return res.status(409).json({ error: `已有未完成的索引版本 (#${pending.id})，请先完成、激活或取消` });
+    }
+
+    const embeddingConfig = await getActiveConfigByType(userId, 'embedding');
+    if (!embeddingConfig) {
+      return res.status(400).json({ error: '缺少 Embedding 配置。请在"LLM 配置"中添加一个 config_type 为 "embedding" 的配置。' });
+    }
+
+    const version = await createIndexVersion({
+      userId,
+      totalArticles: await countIndexableArticles(userId),
+      batchSize: throttle.batchSize ?? DEFAULT_BATCH_SIZE,
+      batchDelayMs: throttle.batchDelayMs ?? DEFAULT_BATCH_DELAY_MS,
+    });
+    getVectorReindexWorker().kick();
+
+    res.status(201).json(version);
+  } catch (error) {
+    log.error({ error, userId: req.effectiveUserId }, 'Failed to start vector index rebuild');
+    res.status(500).json({ error: 'Failed to start vector index rebuild' });
+  }
+});
+
+/**
+ * POST /api/settings/vector-index/versions/:id/pause
+ */
+router.post('/settings/vector-index/versions/:id/pause', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseVersionId(String(req.params.id));
+    if (!id || !await getIndexVersion(id, req.effectiveUserId!)) {
+      return res.status(404).json({ error: 'Index version not found' });
+    }
+
+    if (!await updateIndexVersion(id, { status: 'paused' }, ['building'])) {
+      return res.status(409).json({ error: '只能暂停重建中的索引版本' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    log.error({ error, userId: req.effectiveUserId }, 'Failed to pause vector index version');
+    res.status(500).json({ error: 'Failed to pause vector index version' });
+  }
+});
+
+/**
+ * POST /api/settings/vector-index/versions/:id/resume
+ * 从游标继续；可同时调整节流参数
+ */
+router.post('/settings/vector-index/versions/:id/resume', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseVersionId(String(req.params.id));
+    if (!id || !await getIndexVersion(id, req.effectiveUserId!)) {
+      return res.status(404).json({ error: 'Index version not found' });
+    }
+
+    const throttle = parseThrottle(req.body);
+    if (typeof throttle === 'string') {
+      return res.status(400).json({ error: throttle });
+    }
+
+    const resumed = await updateIndexVersion(id, {
+      status: 'building',
+      error_message: null,
+      ...(throttle.batchSize !== undefined ? { batch_size: throttle.batchSize } : {}),
+      ...(throttle.batchDelayMs !== undefined ? { batch_delay_ms: throttle.batchDelayMs } : {}),
+    }, ['paused', 'building']);
+    if (!resumed) {
+      return res.status(409).json({ error: '只能继续已暂停或重建中的索引版本' });
+    }
+    getVectorReindexWorker().kick();
+
+    res.json({ success: true });
+  } catch (error) {
+    log.error({ error, userId: req.effectiveUserId }, 'Failed to resume vector index version');
+    res.status(500).json({ error: 'Failed to resume vector index version' });
+  }
+});
+
+/**
+ * POST /api/settings/vector-index/versions/:id/cancel
+ * 取消未激活的版本并删除其向量
+ */
+router.post('/settings/vector-index/versions/:id/cancel', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.effectiveUserId!;
+    const id = parseVersionId(String(req.params.id));
+    const version = id ? await getIndexVersion(id, userId) : null;
+    if (!id || !version) {
+      return res.status(404).json({ error: 'Index version not found' });
+    }
+
+    if (!await updateIndexVersion(id, { status: 'cancelled' }, ['building', 'paused', 'completed'])) {
+      return res.status(409).json({ error: '只能取消未激活的索引版本' });
+    }
+    await dropIndex(userId, versionToIndex(version));
+
+    res.json({ success: true });
+  } catch (error) {
+    log.error({ error, userId: req.effectiveUserId }, 'Failed to cancel vector index version');
+    res.status(500).json({ error: 'Failed to cancel vector index version' });
+  }
+});
+
+/**
+ * POST /api/settings/vector-index/versions/:id/activate
+ * 将检索切换到已完成的版本（原 active 版本退役）
+ */
+router.post('/settings/vector-index/versions/:id/activate', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.effectiveUserId!;
+    const id = parseVersionId(String(req.params.id));
+    const version = id ? await getIndexVersion(id, userId) : null;
+    if (!id || !version) {
+      return res.status(404).json({ error: 'Index version not found' });
+    }
+    if (version.status !== 'completed') {
+      return res.status(409).json({ error: '只能激活已完成的索引版本' });
+    }
+
+    await activateIndexVersion(id, userId);
+    res.json({ success: true });
+  } catch (error) {
+    log.error({ error, userId: req.effectiveUserId }, 'Failed to activate vector index version');
+    res.status(500).json({ error: 'Failed to activate vector index version' });
+  }
+});
+
+/**
+ * DELETE /api/settings/vector-index/versions/:id
+ * 删除非 active 版本的记录与向量
+ */
+router.delete('/settings/vector-index/versions/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.effectiveUserId!;
+    const id = parseVersionId(String(req.params.id));
+    const version = id ? await getIndexVersion(id, userId) : null;
+    if (!id || !version) {
+      return res.status(404).json({ error: 'Index version not found' });
+    }
+    if (!['retired', 'cancelled', 'failed'].includes(version.status)) {
+      return res.status(409).json({ error: '只能删除已退役、已取消或失败的索引版本' });
+    }
+
+    await dropIndex(userId, versionToIndex(version));
+    await deleteIndexVersion(id, userId);
+    res.json({ success: true });
+  } catch (error) {
+    log.error({ error, userId: req.effectiveUserId }, 'Failed to delete vector index version');
+    res.status(500).json({ error: 'Failed to delete vector index version' });
+  }
+});
+
+export default router;
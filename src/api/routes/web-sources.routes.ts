@@ -5,7 +5,7 @@
 
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireAdmin } from '../../middleware/auth.js';
+import { requireAuth, requireWriteAccess } from '../../middleware/auth.js';
 import { logger } from '../../logger.js';
 import { getSourceTypeCodes } from '../../config/types-config.js';
 import { getScraperTypeCodes, getAllScraperConfigs } from '../../spiders/web-scrapers/config.js';
@@ -51,7 +51,7 @@ router.get('/web-sources/scraper-types', requireAuth, async (_req: AuthRequest,
  */
 router.get('/web-sources', requireAuth, async (req: AuthRequest, res) => {
   try {
-    const sources = await webSourcesService.getWebSources(req.userId!);
+    const sources = await webSourcesService.getWebSources(req.effectiveUserId!);
     res.json({ sources });
   } catch (error) {
     log.error({ error }, 'Failed to get web sources');
@@ -63,7 +63,7 @@ router.get('/web-sources', requireAuth, async (req: AuthRequest, res) => {
  * POST /api/web-sources
  * 创建新的网络爬虫来源
  */
-router.post('/web-sources', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/web-sources', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const body = req.body as any;
     const { name, url, scraperType, sourceType, domainId, fetchInterval } = body;
@@ -102,18 +102,18 @@ router.post('/web-sources', requireAuth, requireAdmin, async (req: AuthRequest,
     }
 
     // Check for duplicate name
-    const nameExists = await webSourcesService.checkWebSourceNameExists(req.userId!, name.trim());
+    const nameExists = await webSourcesService.checkWebSourceNameExists(req.effectiveUserId!, name.trim());
     if (nameExists) {
       return res.status(409).json({ error: 'A web source with this name already exists' });
     }
 
     // Check for duplicate URL
-    const urlExists = await webSourcesService.checkWebSourceUrlExists(req.userId!, url.trim());
+    const urlExists = await webSourcesService.checkWebSourceUrlExists(req.effectiveUserId!, url.trim());
     if (urlExists) {
       return res.status(409).json({ error: 'A web source with this URL already exists' });
     }
 
-    const result = await webSourcesService.createWebSource(req.userId!, {
+    const result = await webSourcesService.createWebSource(req.effectiveUserId!, {
       name: name.trim(),
       url: url.trim(),
       scraperType: scraperTypeStr,
@@ -142,7 +142,7 @@ router.get('/web-sources/:id', requireAuth, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Invalid ID' });
     }
 
-    const source = await webSourcesService.getWebSourceById(id, req.userId!);
+    const source = await webSourcesService.getWebSourceById(id, req.effectiveUserId!);
     if (!source) {
       return res.status(404).json({ error: 'Web source not found' });
     }
@@ -158,7 +158,7 @@ router.get('/web-sources/:id', requireAuth, async (req: AuthRequest, res) => {
  * PUT /api/web-sources/:id
  * 更新网络爬虫来源
  */
-router.put('/web-sources/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.put('/web-sources/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = paramId(req);
     if (isNaN(id)) {
@@ -193,7 +193,7 @@ router.put('/web-sources/:id', requireAuth, requireAdmin, async (req: AuthReques
 
     // Check for duplicate name
     if (name !== undefined) {
-      const nameExists = await webSourcesService.checkWebSourceNameExists(req.userId!, name.trim(), id);
+      const nameExists = await webSourcesService.checkWebSourceNameExists(req.effectiveUserId!, name.trim(), id);
       if (nameExists) {
         return res.status(409).json({ error: 'A web source with this name already exists' });
       }
@@ -201,13 +201,13 @@ router.put('/web-sources/:id', requireAuth, requireAdmin, async (req: AuthReques
 
     // Check for duplicate URL
     if (url !== undefined) {
-      const urlExists = await webSourcesService.checkWebSourceUrlExists(req.userId!, url.trim(), id);
+      const urlExists = await webSourcesService.checkWebSourceUrlExists(req.effectiveUserId!, url.trim(), id);
       if (urlExists) {
         return res.status(409).json({ error: 'A web source with this URL already exists' });
       }
     }
 
-    const updated = await webSourcesService.updateWebSource(id, req.userId!, {
+    const updated = await webSourcesService.updateWebSource(id, req.effectiveUserId!, {
       name: name?.trim(),
       url: url?.trim(),
       scraperType,
@@ -233,14 +233,14 @@ router.put('/web-sources/:id', requireAuth, requireAdmin, async (req: AuthReques
  * DELETE /api/web-sources/:id
  * 删除网络爬虫来源
  */
-router.delete('/web-sources/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.delete('/web-sources/:id', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = paramId(req);
     if (isNaN(id)) {
       return res.status(400).json({ error: 'Invalid ID' });
     }
 
-    const deleted = await webSourcesService.deleteWebSource(id, req.userId!);
+    const deleted = await webSourcesService.deleteWebSource(id, req.effectiveUserId!);
     if (!deleted) {
       return res.status(404).json({ error: 'Web source not found' });
     }
@@ -256,14 +256,14 @@ router.delete('/web-sources/:id', requireAuth, requireAdmin, async (req: AuthReq
  * POST /api/web-sources/:id/fetch
  * 手动触发抓取
  */
-router.post('/web-sources/:id/fetch', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/web-sources/:id/fetch', requireAuth, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = paramId(req);
     if (isNaN(id)) {
       return res.status(400).json({ error: 'Invalid ID' });
     }
 
-    const source = await webSourcesService.getWebSourceById(id, req.userId!);
+    const source = await webSourcesService.getWebSourceById(id, req.effectiveUserId!);
     if (!source) {
       return res.status(404).json({ error: 'Web source not found' });
     }
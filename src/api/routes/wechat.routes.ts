@@ -1,15 +1,15 @@
 import express from 'express';
 import type { AuthRequest } from '../../middleware/auth.js';
-import { requireAuth, requireAdmin } from '../../middleware/auth.js';
+import { requireAuth, requireMember } from '../../middleware/auth.js';
 import {
   getWeChatWebhooks,
-  getWeChatWebhookById,
   addWeChatWebhook,
   updateWeChatWebhook,
   deleteWeChatWebhook,
   isValidWeChatWebhookUrl,
+  type UpdateWeChatWebhookInput,
   type WeChatPushTypes,
-} from '../../config/wechat-config.js';
+} from '../wechat-webhooks.js';
 import { getWeChatNotifier } from '../../wechat/index.js';
 import { logger } from '../../logger.js';
 
@@ -17,13 +17,17 @@ const log = logger.child({ module: 'api-routes/wechat' });
 
 const router = express.Router();
 
+function parseWebhookId(idParam: unknown): number {
+  return typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+}
+
 /**
  * GET /api/wechat/webhooks
- * 获取所有企业微信 Webhooks
+ * 获取当前用户的企业微信 Webhooks（URL 仅返回脱敏值 url_hint）
  */
 router.get('/wechat/webhooks', requireAuth, async (req: AuthRequest, res) => {
   try {
-    const webhooks = getWeChatWebhooks();
+    const webhooks = await getWeChatWebhooks(req.userId!);
     res.json(webhooks);
   } catch (error) {
     log.error({ error, userId: req.userId }, 'Failed to get WeChat webhooks');
@@ -35,7 +39,7 @@ router.get('/wechat/webhooks', requireAuth, async (req: AuthRequest, res) => {
  * POST /api/wechat/webhooks
  * 添加新的企业微信 Webhook
  */
-router.post('/wechat/webhooks', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/wechat/webhooks', requireAuth, requireMember, async (req: AuthRequest, res) => {
   try {
     const { name, url, enabled, push_types } = req.body || {};
 
@@ -71,7 +75,7 @@ router.post('/wechat/webhooks', requireAuth, requireAdmin, async (req: AuthReque
       pdf_summary: push_types?.pdf_summary !== false,
     };
 
-    const webhook = addWeChatWebhook({
+    const webhook = await addWeChatWebhook(req.userId!, {
       name: trimmedName,
       url: trimmedUrl,
       enabled: enabled !== false,
@@ -89,24 +93,18 @@ router.post('/wechat/webhooks', requireAuth, requireAdmin, async (req: AuthReque
  * PUT /api/wechat/webhooks/:id
  * 更新企业微信 Webhook
  */
-router.put('/wechat/webhooks/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.put('/wechat/webhooks/:id', requireAuth, requireMember, async (req: AuthRequest, res) => {
   try {
-    const id = req.params.id;
+    const id = parseWebhookId(req.params.id);
 
-    if (!id || typeof id !== 'string') {
+    if (isNaN(id)) {
       return res.status(400).json({ error: '无效的 ID' });
     }
 
-    // 检查是否存在
-    const existing = getWeChatWebhookById(id);
-    if (!existing) {
-      return res.status(404).json({ error: 'Webhook 不存在' });
-    }
-
     const { name, url, enabled, push_types } = req.body || {};
 
     // 验证和清理输入
-    const updates: Record<string, any> = {};
+    const updates: UpdateWeChatWebhookInput = {};
 
     if (name !== undefined) {
       const trimmedName = (name || '').toString().trim();
@@ -116,8 +114,9 @@ router.put('/wechat/webhooks/:id', requireAuth, requireAdmin, async (req: AuthRe
       updates.name = trimmedName;
     }
 
-    if (url !== undefined) {
-      const trimmedUrl = (url || '').toString().trim();
+    // URL 留空表示保持不变（列表只返回脱敏值，编辑时无法回填原 URL）
+    if (url !== undefined && url !== null && url !== '') {
+      const trimmedUrl = url.toString().trim();
       if (!isValidWeChatWebhookUrl(trimmedUrl)) {
         return res.status(400).json({
           error: 'Webhook URL 格式不正确，必须是企业微信 webhook 地址',
@@ -141,7 +140,7 @@ router.put('/wechat/webhooks/:id', requireAuth, requireAdmin, async (req: AuthRe
       };
     }
 
-    const webhook = updateWeChatWebhook(id, updates);
+    const webhook = await updateWeChatWebhook(req.userId!, id, updates);
     if (!webhook) {
       return res.status(404).json({ error: 'Webhook 不存在' });
     }
@@ -157,15 +156,15 @@ router.put('/wechat/webhooks/:id', requireAuth, requireAdmin, async (req: AuthRe
  * DELETE /api/wechat/webhooks/:id
  * 删除企业微信 Webhook
  */
-router.delete('/wechat/webhooks/:id', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.delete('/wechat/webhooks/:id', requireAuth, requireMember, async (req: AuthRequest, res) => {
   try {
-    const id = req.params.id;
+    const id = parseWebhookId(req.params.id);
 
-    if (!id || typeof id !== 'string') {
+    if (isNaN(id)) {
       return res.status(400).json({ error: '无效的 ID' });
     }
 
-    const deleted = deleteWeChatWebhook(id);
+    const deleted = await deleteWeChatWebhook(req.userId!, id);
     if (!deleted) {
       return res.status(404).json({ error: 'Webhook 不存在' });
     }
@@ -181,16 +180,16 @@ router.delete('/wechat/webhooks/:id', requireAuth, requireAdmin, async (req: Aut
  * POST /api/wechat/webhooks/:id/test
  * 测试企业微信 Webhook
  */
-router.post('/wechat/webhooks/:id/test', requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/wechat/webhooks/:id/test', requireAuth, requireMember, async (req: AuthRequest, res) => {
   try {
-    const id = req.params.id;
+    const id = parseWebhookId(req.params.id);
 
-    if (!id || typeof id !== 'string') {
+    if (isNaN(id)) {
       return res.status(400).json({ error: '无效的 ID' });
     }
 
     const notifier = getWeChatNotifier();
-    const result = await notifier.testWebhook(id);
+    const result = await notifier.testWebhook(req.userId!, id);
 
     res.json(result);
   } catch (error) {
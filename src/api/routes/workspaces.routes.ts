@@ -0,0 +1,182 @@
+import express from 'express';
+import type { AuthRequest } from '../../middleware/auth.js';
+import { requireAuth, requireWorkspaceOwner, setWorkspaceCookie } from '../../middleware/auth.js';
+import * as workspaceService from '../workspaces.js';
+import { logger } from '../../logger.js';
+
+const log = logger.child({ module: 'api-routes/workspaces' });
+
+const router = express.Router();
+
+const MEMBER_ROLES = ['editor', 'reader'] as const;
+type MemberRole = typeof MEMBER_ROLES[number];
+
+function isMemberRole(value: unknown): value is MemberRole {
+  return typeof value === 'string' && (MEMBER_ROLES as readonly string[]).includes(value);
+}
+
+function parseIdParam(idParam: unknown): number {
+  return typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+}
+
+/**
+ * Service errors → 400 / 404
+ */
+function sendWorkspaceError(res: express.Response, error: unknown): boolean {
+  const message = error instanceof Error ? error.message : '';
+  if (message === 'User not found' || message === 'Workspace not found' || message === 'Workspace member not found') {
+    res.status(404).json({ error: message });
+    return true;
+  }
+  if (message.includes('is required') || message.includes('already a member') || message.includes('cannot be changed')) {
+    res.status(400).json({ error: message });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * GET /api/workspaces
+ * List workspaces of the current user with the active one
+ */
+router.get('/workspaces', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const workspaces = await workspaceService.getUserWorkspaces(req.userId!);
+    res.json({ workspaces, activeWorkspaceId: req.workspaceId ?? null });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to get workspaces');
+    res.status(500).json({ error: 'Failed to get workspaces' });
+  }
+});
+
+/**
+ * POST /api/workspaces/:id/switch
+ * Switch the active workspace (stored in cookie)
+ */
+router.post('/workspaces/:id/switch', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const id = parseIdParam(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid workspace ID' });
+    }
+
+    const workspaces = await workspaceService.getUserWorkspaces(req.userId!);
+    const target = workspaces.find((w) => w.workspaceId === id);
+    if (!target) {
+      return res.status(404).json({ error: 'Workspace not found' });
+    }
+
+    setWorkspaceCookie(res, id);
+    res.json({ success: true, workspace: target });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to switch workspace');
+    res.status(500).json({ error: 'Failed to switch workspace' });
+  }
+});
+
+/**
+ * PUT /api/workspace
+ * Rename the active workspace (owner only)
+ */
+router.put('/workspace', requireAuth, requireWorkspaceOwner, async (req: AuthRequest, res) => {
+  try {
+    const { name } = req.body || {};
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    await workspaceService.renameWorkspace(req.workspaceId!, name);
+    res.json({ success: true });
+  } catch (error) {
+    if (sendWorkspaceError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to rename workspace');
+    res.status(500).json({ error: 'Failed to rename workspace' });
+  }
+});
+
+/**
+ * GET /api/workspace/members
+ * List members of the active workspace
+ */
+router.get('/workspace/members', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    if (!req.workspaceId) {
+      return res.json({ members: [], role: null });
+    }
+
+    const members = await workspaceService.getWorkspaceMembers(req.workspaceId);
+    res.json({ members, role: req.workspaceRole });
+  } catch (error) {
+    log.error({ error, userId: req.userId }, 'Failed to get workspace members');
+    res.status(500).json({ error: 'Failed to get workspace members' });
+  }
+});
+
+/**
+ * POST /api/workspace/members
+ * Share the active workspace: { username, role: 'editor' | 'reader' } (owner only)
+ */
+router.post('/workspace/members', requireAuth, requireWorkspaceOwner, async (req: AuthRequest, res) => {
+  try {
+    const { username, role } = req.body || {};
+    if (typeof username !== 'string' || !username.trim()) {
+      return res.status(400).json({ error: 'username is required' });
+    }
+    if (!isMemberRole(role)) {
+      return res.status(400).json({ error: `role must be one of: ${MEMBER_ROLES.join(', ')}` });
+    }
+
+    const member = await workspaceService.addWorkspaceMember(req.workspaceId!, username, role);
+    res.status(201).json(member);
+  } catch (error) {
+    if (sendWorkspaceError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to add workspace member');
+    res.status(500).json({ error: 'Failed to add workspace member' });
+  }
+});
+
+/**
+ * PUT /api/workspace/members/:userId
+ * Change a member's role (owner only)
+ */
+router.put('/workspace/members/:userId', requireAuth, requireWorkspaceOwner, async (req: AuthRequest, res) => {
+  try {
+    const memberId = parseIdParam(req.params.userId);
+    if (isNaN(memberId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    const { role } = req.body || {};
+    if (!isMemberRole(role)) {
+      return res.status(400).json({ error: `role must be one of: ${MEMBER_ROLES.join(', ')}` });
+    }
+
+    await workspaceService.updateWorkspaceMemberRole(req.workspaceId!, memberId, role);
+    res.json({ success: true });
+  } catch (error) {
+    if (sendWorkspaceError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to update workspace member');
+    res.status(500).json({ error: 'Failed to update workspace member' });
+  }
+});
+
+/**
+ * DELETE /api/workspace/members/:userId
+ * Remove a member (owner only)
+ */
+router.delete('/workspace/members/:userId', requireAuth, requireWorkspaceOwner, async (req: AuthRequest, res) => {
+  try {
+    const memberId = parseIdParam(req.params.userId);
+    if (isNaN(memberId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    await workspaceService.removeWorkspaceMember(req.workspaceId!, memberId);
+    res.json({ success: true });
+  } catch (error) {
+    if (sendWorkspaceError(res, error)) return;
+    log.error({ error, userId: req.userId }, 'Failed to remove workspace member');
+    res.status(500).json({ error: 'Failed to remove workspace member' });
+  }
+});
+
+export default router;
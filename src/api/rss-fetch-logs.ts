@@ -4,7 +4,7 @@ import { normalizeDateFields } from '../utils/datetime.js';
 
 const log = logger.child({ module: 'rss-fetch-logs' });
 
-export type RssFetchStatus = 'success' | 'failed' | 'partial';
+export type RssFetchStatus = 'success' | 'failed' | 'partial' | 'not_modified';
 
 export interface CreateRssFetchLogInput {
   userId: number;
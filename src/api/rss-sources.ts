@@ -9,6 +9,9 @@ import { getDb, type DB, type DatabaseTable } from '../db.js';
 import { logger } from '../logger.js';
 import type { RssSourcesTable } from '../db.js';
 import { type SourceType, DEFAULT_SOURCE_TYPE } from '../constants/source-types.js';
+import { getRSSParser } from '../rss-parser.js';
+import { buildOpml, type OpmlFeed, type OpmlFolder } from '../utils/opml.js';
+import { createTopicDomain } from './topic-domains.js';
 
 const log = logger.child({ module: 'rss-sources-service' });
 
@@ -73,6 +76,47 @@ export interface CreateResult {
   url: string;
 }
 
+/**
+ * OPML import options
+ */
+export interface ImportOptions {
+  sourceType?: SourceType;
+  fetchInterval?: number;
+  // 文件夹在 topic_domains 中不存在时是否自动创建（默认 true）
+  createMissingDomains?: boolean;
+  // 是否逐个调用 validateSource 校验（默认 true）
+  validate?: boolean;
+}
+
+/**
+ * Per-feed OPML import result
+ */
+export interface ImportFeedResult {
+  title: string;
+  url: string;
+  folder: string | null;
+  status: 'created' | 'duplicate' | 'invalid';
+  id?: number;
+  domainId?: number | null;
+  error?: string;
+}
+
+/**
+ * OPML import report
+ */
+export interface ImportReport {
+  total: number;
+  created: number;
+  duplicate: number;
+  invalid: number;
+  results: ImportFeedResult[];
+}
+
+/**
+ * 导入时并发校验的订阅源数量
+ */
+const IMPORT_VALIDATE_CONCURRENCY = 4;
+
 /**
  * Create a new RSS source
  * @param userId - User ID
@@ -222,7 +266,8 @@ export async function updateRSSSource(
     .updateTable('rss_sources')
     .set({
       ...(data.name !== undefined && { name: data.name }),
-      ...(data.url !== undefined && { url: data.url }),
+      // 更换 URL 后旧的缓存校验器失效
+      ...(data.url !== undefined && { url: data.url, etag: null, last_modified: null }),
       ...(data.sourceType !== undefined && { source_type: data.sourceType }),
       ...(data.fetchInterval !== undefined && { fetch_interval: data.fetchInterval }),
       ...(data.status !== undefined && { status: data.status }),
@@ -413,3 +458,193 @@ export async function getRSSSourceByURL(
 
   return source;
 }
+
+/**
+ * Resolve OPML folder name to topic domain ID
+ * 按名称（忽略大小写）匹配用户已有领域，不存在时按需创建
+ */
+async function resolveFolderDomain(
+  userId: number,
+  folder: string,
+  cache: Map<string, number | null>,
+  createMissing: boolean
+): Promise<number | null> {
+  const key = folder.trim().toLowerCase();
+  if (cache.has(key)) {
+    return cache.get(key)!;
+  }
+
+  const db = getDb();
+  const existing = await db
+    .selectFrom('topic_domains')
+    .where('user_id', '=', userId)
+    .where((eb) => eb(eb.fn('lower', ['name']), '=', key))
+    .select('id')
+    .executeTakeFirst();
+
+  let domainId: number | null = existing?.id ?? null;
+  if (domainId === null && createMissing) {
+    const created = await createTopicDomain(userId, { name: folder.trim() });
+    domainId = created.id;
+  }
+
+  cache.set(key, domainId);
+  return domainId;
+}
+
+/**
+ * Pick a source name that does not collide with existing ones
+ */
+async function resolveUniqueName(userId: number, name: string, taken: Set<string>): Promise<string> {
+  let candidate = name;
+  let suffix = 2;
+  while (taken.has(candidate) || (await checkNameExists(userId, candidate))) {
+    candidate = `${name} (${suffix++})`;
+  }
+  taken.add(candidate);
+  return candidate;
+}
+
+/**
+ * Import RSS sources from parsed OPML feeds
+ *
+ * 单个订阅源失败不会中断整个批次，每个订阅源在报告中标记为 created / duplicate / invalid。
+ *
+ * @param userId - User ID
+ * @param feeds - Feeds parsed from OPML
+ * @param options - Import options
+ * @returns Per-feed import report
+ */
+export async function importRSSSources(
+  userId: number,
+  feeds: OpmlFeed[],
+  options: ImportOptions = {}
+): Promise<ImportReport> {
+  const results: ImportFeedResult[] = new Array(feeds.length);
+  const pending: Array<{ index: number; feed: OpmlFeed; url: string }> = [];
+  const seenUrls = new Set<string>();
+
+  // 1. 格式校验与去重（已存在 / 同一文件中重复出现）
+  for (const [index, feed] of feeds.entries()) {
+    const url = feed.xmlUrl.trim();
+    const base = { title: feed.title, url, folder: feed.folder };
+
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new Error('Unsupported protocol');
+      }
+    } catch {
+      results[index] = { ...base, status: 'invalid', error: 'Invalid URL format' };
+      continue;
+    }
+
+    if (seenUrls.has(url) || (await checkURLExists(userId, url))) {
+      results[index] = { ...base, status: 'duplicate' };
+      continue;
+    }
+
+    seenUrls.add(url);
+    pending.push({ index, feed, url });
+  }
+
+  // 2. 校验订阅源可用性（有限并发）
+  if (options.validate !== false) {
+    const parser = getRSSParser();
+    for (let i = 0; i < pending.length; i += IMPORT_VALIDATE_CONCURRENCY) {
+      const batch = pending.slice(i, i + IMPORT_VALIDATE_CONCURRENCY);
+      const validations = await Promise.all(batch.map((item) => parser.validateSource(item.url)));
+      validations.forEach((validation, j) => {
+        const { index, feed, url } = batch[j];
+        if (!validation.valid) {
+          results[index] = { title: feed.title, url, folder: feed.folder, status: 'invalid', error: validation.error };
+        }
+      });
+    }
+  }
+
+  // 3. 创建订阅源
+  const domainCache = new Map<string, number | null>();
+  const takenNames = new Set<string>();
+  const createMissing = options.createMissingDomains !== false;
+
+  for (const { index, feed, url } of pending) {
+    if (results[index]) continue;
+
+    const base = { title: feed.title, url, folder: feed.folder };
+    try {
+      const domainId = feed.folder
+        ? await resolveFolderDomain(userId, feed.folder, domainCache, createMissing)
+        : null;
+      const name = await resolveUniqueName(userId, feed.title.trim() || url, takenNames);
+
+      const created = await createRSSSource(userId, {
+        name,
+        url,
+        sourceType: options.sourceType,
+        fetchInterval: options.fetchInterval,
+        domainId: domainId ?? undefined,
+      });
+      results[index] = { ...base, title: name, status: 'created', id: created.id, domainId };
+    } catch (error) {
+      log.warn({ error, userId, url }, 'Failed to import RSS source');
+      results[index] = {
+        ...base,
+        status: 'invalid',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  const report: ImportReport = {
+    total: results.length,
+    created: results.filter((r) => r.status === 'created').length,
+    duplicate: results.filter((r) => r.status === 'duplicate').length,
+    invalid: results.filter((r) => r.status === 'invalid').length,
+    results,
+  };
+
+  log.info(
+    { userId, total: report.total, created: report.created, duplicate: report.duplicate, invalid: report.invalid },
+    'OPML import completed'
+  );
+
+  return report;
+}
+
+/**
+ * Export user's RSS sources as OPML
+ * 订阅源按 topic_domains 分组为 OPML 文件夹，未关联领域的放在顶层
+ * @param userId - User ID
+ * @returns OPML XML text
+ */
+export async function exportRSSSourcesAsOpml(userId: number): Promise<string> {
+  const db = getDb();
+
+  const sources = await db
+    .selectFrom('rss_sources')
+    .leftJoin('topic_domains', 'topic_domains.id', 'rss_sources.domain_id')
+    .where('rss_sources.user_id', '=', userId)
+    .select([
+      'rss_sources.name',
+      'rss_sources.url',
+      'topic_domains.name as domain_name',
+    ])
+    .orderBy('topic_domains.priority', 'desc')
+    .orderBy('rss_sources.name', 'asc')
+    .execute();
+
+  const folders = new Map<string | null, OpmlFolder>();
+  for (const source of sources) {
+    const folderName = source.domain_name ?? null;
+    if (!folders.has(folderName)) {
+      folders.set(folderName, { name: folderName, feeds: [] });
+    }
+    folders.get(folderName)!.feeds.push({ title: source.name, xmlUrl: source.url });
+  }
+
+  // 顶层订阅源放在最后
+  const ordered = [...folders.values()].sort((a, b) => Number(a.name === null) - Number(b.name === null));
+
+  return buildOpml('RSS Sources', ordered);
+}
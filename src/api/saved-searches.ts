@@ -0,0 +1,587 @@
+/**
+ * Saved Searches Service
+ *
+ * 订阅搜索：把一次查询（模式、融合权重、语义阈值、过滤条件）命名保存为常驻查询。
+ * 文章流水线完成后由 SavedSearchWorker 触发，取 processed_at 晚于 last_checked_at 的新处理完成文章，
+ * 逐个订阅搜索匹配（vector/search-service.ts 的 matchArticles），新匹配写入该搜索的收件箱
+ * （saved_search_matches），并按所选渠道推送到 Telegram / 企业微信。
+ *
+ * 新建的订阅搜索从创建时刻开始检查，不回溯历史文章（历史结果请直接搜索）。
+ */
+
+import { getDb, type SavedSearchesSelection } from '../db.js';
+import { logger } from '../logger.js';
+import { normalizeDateFields } from '../utils/datetime.js';
+import { matchArticles, SearchMode, type MatchResult } from '../vector/search.js';
+import { dispatchNotification, type SavedSearchMatchesData } from '../notifications/index.js';
+import { getArticleById, type ArticleWithSource } from './articles.js';
+import { describeArticle } from '../notifications/formatters.js';
+
+const log = logger.child({ module: 'saved-searches' });
+
+/* ── Types ── */
+
+export type SavedSearchMode = SavedSearchesSelection['mode'];
+
+export const SAVED_SEARCH_MODES: SavedSearchMode[] = ['semantic', 'keyword', 'hybrid'];
+
+export const SAVED_SEARCH_SOURCE_ORIGINS = ['rss', 'journal', 'keyword', 'email', 'web'] as const;
+
+export type SavedSearchSourceOrigin = typeof SAVED_SEARCH_SOURCE_ORIGINS[number];
+
+/**
+ * Channels a saved search may push new matches to
+ */
+export const SAVED_SEARCH_NOTIFY_CHANNELS = ['telegram', 'wechat'] as const;
+
+export type SavedSearchNotifyChannel = typeof SAVED_SEARCH_NOTIFY_CHANNELS[number];
+
+export interface SavedSearchFilters {
+  /** 只匹配这些来源类型，空 = 全部 */
+  sourceOrigins?: SavedSearchSourceOrigin[];
+  /** 只匹配通过筛选的文章 */
+  passedOnly?: boolean;
+}
+
+export interface SavedSearch {
+  id: number;
+  name: string;
+  query: string;
+  mode: SavedSearchMode;
+  semanticWeight: number;
+  keywordWeight: number;
+  /** 语义匹配的最低相似度（0-1） */
+  minScore: number;
+  filters: SavedSearchFilters;
+  notifyChannels: SavedSearchNotifyChannel[];
+  isActive: boolean;
+  lastCheckedAt: string | null;
+  /** 收件箱未读数 */
+  unreadCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  query: string;
+  mode: SavedSearchMode;
+  semanticWeight: number;
+  keywordWeight: number;
+  minScore: number;
+  filters: SavedSearchFilters;
+  notifyChannels: SavedSearchNotifyChannel[];
+  isActive: boolean;
+}
+
+/**
+ * An inbox entry
+ */
+export interface SavedSearchMatch {
+  id: number;
+  articleId: number;
+  title: string;
+  url: string;
+  sourceOrigin: string;
+  publishedAt: string | null;
+  score: number;
+  semanticScore: number | null;
+  keywordMatched: boolean;
+  isRead: boolean;
+  createdAt: string;
+}
+
+export interface SavedSearchCheckResult {
+  searchId: number;
+  checked: number;
+  matched: number;
+  notified: boolean;
+  /** 候选被截断，仍有未检查的文章 */
+  hasMore: boolean;
+}
+
+/* ── Configuration ── */
+
+/**
+ * 单次检查的最多候选文章数，其余留到下一次检查（水位只推进到已检查的文章）
+ */
+const MAX_CANDIDATES_PER_CHECK = 200;
+
+/**
+ * 单条推送最多列出的文章数（收件箱不受限制）
+ */
+const MAX_NOTIFIED_ARTICLES = 20;
+
+const MATCH_MODES = {
+  semantic: SearchMode.SEMANTIC,
+  keyword: SearchMode.KEYWORD,
+  hybrid: SearchMode.HYBRID,
+} as const;
+
+/* ── Helpers ── */
+
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function rowToSavedSearch(row: SavedSearchesSelection, unreadCount: number): SavedSearch {
+  const normalized = normalizeDateFields({ ...row }, ['created_at', 'updated_at', 'last_checked_at']);
+  const filters = parseJson<SavedSearchFilters>(normalized.filters, {});
+  const notifyChannels = parseJson<string[]>(normalized.notify_channels, [])
+    .filter((channel): channel is SavedSearchNotifyChannel =>
+      (SAVED_SEARCH_NOTIFY_CHANNELS as readonly string[]).includes(channel));
+
+  return {
+    id: normalized.id,
+    name: normalized.name,
+    query: normalized.query,
+    mode: normalized.mode,
+    semanticWeight: normalized.semantic_weight,
+    keywordWeight: normalized.keyword_weight,
+    minScore: normalized.min_score,
+    filters,
+    notifyChannels,
+    isActive: normalized.is_active === 1,
+    lastCheckedAt: normalized.last_checked_at,
+    unreadCount,
+    createdAt: normalized.created_at,
+    updatedAt: normalized.updated_at,
+  };
+}
+
+function toRowValues(input: SavedSearchInput) {
+  const filters: SavedSearchFilters = {};
+  if (input.filters.sourceOrigins && input.filters.sourceOrigins.length > 0) {
+    filters.sourceOrigins = input.filters.sourceOrigins;
+  }
+  if (input.filters.passedOnly) {
+    filters.passedOnly = true;
+  }
+
+  return {
+    name: input.name,
+    query: input.query,
+    mode: input.mode,
+    semantic_weight: input.semanticWeight,
+    keyword_weight: input.keywordWeight,
+    min_score: input.minScore,
+    filters: Object.keys(filters).length > 0 ? JSON.stringify(filters) : null,
+    notify_channels: input.notifyChannels.length > 0 ? JSON.stringify(input.notifyChannels) : null,
+    is_active: input.isActive ? 1 : 0,
+  };
+}
+
+async function getUnreadCounts(searchIds: number[]): Promise<Map<number, number>> {
+  if (searchIds.length === 0) return new Map();
+
+  const db = getDb();
+  const rows = await db
+    .selectFrom('saved_search_matches')
+    .where('saved_search_id', 'in', searchIds)
+    .where('is_read', '=', 0)
+    .select((eb) => ['saved_search_id', eb.fn.countAll<number>().as('count')])
+    .groupBy('saved_search_id')
+    .execute();
+
+  return new Map(rows.map((row) => [row.saved_search_id, Number(row.count)]));
+}
+
+/* ── CRUD ── */
+
+/**
+ * Get all saved searches of a user (with unread inbox counts)
+ */
+export async function getSavedSearches(userId: number): Promise<SavedSearch[]> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom('saved_searches')
+    .where('user_id', '=', userId)
+    .orderBy('created_at', 'desc')
+    .orderBy('id', 'desc')
+    .selectAll()
+    .execute();
+
+  const unreadCounts = await getUnreadCounts(rows.map((row) => row.id));
+  return rows.map((row) => rowToSavedSearch(row, unreadCounts.get(row.id) ?? 0));
+}
+
+/**
+ * Get a saved search by ID
+ */
+export async function getSavedSearch(userId: number, id: number): Promise<SavedSearch | null> {
+  const db = getDb();
+  const row = await db
+    .selectFrom('saved_searches')
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .selectAll()
+    .executeTakeFirst();
+
+  if (!row) return null;
+  const unreadCounts = await getUnreadCounts([row.id]);
+  return rowToSavedSearch(row, unreadCounts.get(row.id) ?? 0);
+}
+
+/**
+ * Whether the user already has a saved search with this name
+ */
+export async function isSavedSearchNameTaken(userId: number, name: string, excludeId?: number): Promise<boolean> {
+  const db = getDb();
+  let query = db
+    .selectFrom('saved_searches')
+    .where('user_id', '=', userId)
+    .where('name', '=', name);
+  if (excludeId !== undefined) {
+    query = query.where('id', '!=', excludeId);
+  }
+
+  const row = await query.select('id').executeTakeFirst();
+  return row !== undefined;
+}
+
+/**
+ * Create a saved search (checks start from now)
+ */
+export async function createSavedSearch(userId: number, input: SavedSearchInput): Promise<SavedSearch> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  const result = await db
+    .insertInto('saved_searches')
+    .values({
+      user_id: userId,
+      ...toRowValues(input),
+      last_checked_at: now,
+      created_at: now,
+      updated_at: now,
+    })
+    .executeTakeFirstOrThrow();
+
+  const search = await getSavedSearch(userId, Number(result.insertId));
+  if (!search) {
+    throw new Error('Failed to create saved search');
+  }
+
+  log.info({ userId, searchId: search.id, name: search.name }, 'Saved search created');
+  return search;
+}
+
+/**
+ * Update a saved search
+ *
+ * 重新启用时从当前时刻继续检查，暂停期间处理的文章不回溯。
+ */
+export async function updateSavedSearch(
+  userId: number,
+  id: number,
+  input: SavedSearchInput
+): Promise<SavedSearch | null> {
+  const existing = await getSavedSearch(userId, id);
+  if (!existing) return null;
+
+  const db = getDb();
+  const now = new Date().toISOString();
+  await db
+    .updateTable('saved_searches')
+    .set({
+      ...toRowValues(input),
+      ...(!existing.isActive && input.isActive && { last_checked_at: now }),
+      updated_at: now,
+    })
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .execute();
+
+  return getSavedSearch(userId, id);
+}
+
+/**
+ * Delete a saved search with its inbox
+ */
+export async function deleteSavedSearch(userId: number, id: number): Promise<boolean> {
+  const db = getDb();
+  const result = await db
+    .deleteFrom('saved_searches')
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .executeTakeFirst();
+
+  return Number(result.numDeletedRows ?? 0) > 0;
+}
+
+/* ── Inbox ── */
+
+/**
+ * Get the inbox of a saved search (newest first)
+ */
+export async function getSavedSearchMatches(
+  searchId: number,
+  options: { unreadOnly?: boolean; limit?: number; offset?: number } = {}
+): Promise<{ matches: SavedSearchMatch[]; total: number }> {
+  const { unreadOnly = false, limit = 50, offset = 0 } = options;
+  const db = getDb();
+
+  let query = db
+    .selectFrom('saved_search_matches')
+    .innerJoin('articles', 'articles.id', 'saved_search_matches.article_id')
+    .where('saved_search_matches.saved_search_id', '=', searchId);
+  if (unreadOnly) {
+    query = query.where('saved_search_matches.is_read', '=', 0);
+  }
+
+  const [rows, countRow] = await Promise.all([
+    query
+      .select([
+        'saved_search_matches.id',
+        'saved_search_matches.article_id',
+        'saved_search_matches.score',
+        'saved_search_matches.semantic_score',
+        'saved_search_matches.keyword_matched',
+        'saved_search_matches.is_read',
+        'saved_search_matches.created_at',
+        'articles.title',
+        'articles.url',
+        'articles.source_origin',
+        'articles.published_at',
+      ])
+      .orderBy('saved_search_matches.created_at', 'desc')
+      .orderBy('saved_search_matches.score', 'desc')
+      .limit(limit)
+      .offset(offset)
+      .execute(),
+    query
+      .select((eb) => eb.fn.countAll<number>().as('count'))
+      .executeTakeFirst(),
+  ]);
+
+  return {
+    matches: rows.map((row) => {
+      const normalized = normalizeDateFields({ ...row }, ['created_at', 'published_at']);
+      return {
+        id: normalized.id,
+        articleId: normalized.article_id,
+        title: normalized.title,
+        url: normalized.url,
+        sourceOrigin: normalized.source_origin,
+        publishedAt: normalized.published_at,
+        score: normalized.score,
+        semanticScore: normalized.semantic_score,
+        keywordMatched: normalized.keyword_matched === 1,
+        isRead: normalized.is_read === 1,
+        createdAt: normalized.created_at,
+      };
+    }),
+    total: Number(countRow?.count ?? 0),
+  };
+}
+
+/**
+ * Mark inbox entries as read (all entries when matchIds is omitted)
+ * @returns Number of entries updated
+ */
+export async function markSavedSearchMatchesRead(searchId: number, matchIds?: number[]): Promise<number> {
+  if (matchIds && matchIds.length === 0) return 0;
+
+  const db = getDb();
+  let query = db
+    .updateTable('saved_search_matches')
+    .set({ is_read: 1 })
+    .where('saved_search_id', '=', searchId)
+    .where('is_read', '=', 0);
+  if (matchIds) {
+    query = query.where('id', 'in', matchIds);
+  }
+
+  const result = await query.executeTakeFirst();
+  return Number(result.numUpdatedRows ?? 0);
+}
+
+/* ── Checking ── */
+
+/**
+ * Active saved searches of all users (scheduler)
+ */
+export async function getActiveSavedSearches(): Promise<Array<SavedSearch & { userId: number }>> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom('saved_searches')
+    .where('is_active', '=', 1)
+    .orderBy('id', 'asc')
+    .selectAll()
+    .execute();
+
+  return rows.map((row) => ({ ...rowToSavedSearch(row, 0), userId: row.user_id }));
+}
+
+/**
+ * Completed articles of the user processed in (since, until], oldest first
+ */
+async function getCandidateArticles(
+  userId: number,
+  filters: SavedSearchFilters,
+  since: string | null,
+  until: string,
+  limit: number
+): Promise<Array<{ id: number; processedAt: string }>> {
+  const db = getDb();
+  let query = db
+    .selectFrom('articles')
+    .leftJoin('rss_sources', 'rss_sources.id', 'articles.rss_source_id')
+    .leftJoin('journals', 'journals.id', 'articles.journal_id')
+    .leftJoin('keyword_subscriptions', 'keyword_subscriptions.id', 'articles.keyword_id')
+    .leftJoin('email_sources', 'email_sources.id', 'articles.email_source_id')
+    .leftJoin('web_sources', 'web_sources.id', 'articles.web_source_id')
+    .where('articles.process_status', '=', 'completed')
+    .where('articles.processed_at', '<=', until)
+    .where((eb) => eb.or([
+      eb('rss_sources.user_id', '=', userId),
+      eb('journals.user_id', '=', userId),
+      eb('keyword_subscriptions.user_id', '=', userId),
+      eb('email_sources.user_id', '=', userId),
+      eb('web_sources.user_id', '=', userId),
+    ]));
+
+  if (since) {
+    query = query.where('articles.processed_at', '>', since);
+  }
+  if (filters.sourceOrigins && filters.sourceOrigins.length > 0) {
+    query = query.where('articles.source_origin', 'in', filters.sourceOrigins);
+  }
+  if (filters.passedOnly) {
+    query = query.where('articles.filter_status', '=', 'passed');
+  }
+
+  const rows = await query
+    .select(['articles.id', 'articles.processed_at'])
+    .orderBy('articles.processed_at', 'asc')
+    .orderBy('articles.id', 'asc')
+    .limit(limit)
+    .execute();
+
+  return rows.map((row) => ({ id: row.id, processedAt: String(row.processed_at) }));
+}
+
+/**
+ * Add matches to the inbox
+ * @returns Matches not already in the inbox
+ */
+async function insertMatches(searchId: number, matches: MatchResult[]): Promise<MatchResult[]> {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const inserted: MatchResult[] = [];
+
+  for (const match of matches) {
+    const result = await db
+      .insertInto('saved_search_matches')
+      .orIgnore()
+      .values({
+        saved_search_id: searchId,
+        article_id: match.articleId,
+        score: match.score,
+        semantic_score: match.semanticScore,
+        keyword_matched: match.keywordMatched ? 1 : 0,
+        created_at: now,
+      })
+      .executeTakeFirst();
+
+    if (Number(result.numInsertedOrUpdatedRows ?? 0) > 0) {
+      inserted.push(match);
+    }
+  }
+
+  return inserted;
+}
+
+async function notifyMatches(
+  userId: number,
+  search: SavedSearch,
+  matches: MatchResult[]
+): Promise<boolean> {
+  if (search.notifyChannels.length === 0 || matches.length === 0) return false;
+
+  const articles = (await Promise.all(
+    matches.slice(0, MAX_NOTIFIED_ARTICLES).map((match) => getArticleById(match.articleId, userId))
+  )).filter((article): article is ArticleWithSource => article !== undefined);
+  if (articles.length === 0) return false;
+
+  const scores = new Map(matches.map((match) => [match.articleId, match.score]));
+  const data: SavedSearchMatchesData = {
+    searchId: search.id,
+    searchName: search.name,
+    query: search.query,
+    articles: articles.map((article) => {
+      const { sourceName, sourceType } = describeArticle(article);
+      return {
+        id: article.id,
+        title: article.title,
+        url: article.url,
+        sourceName,
+        sourceType,
+        score: scores.get(article.id) ?? 0,
+      };
+    }),
+  };
+
+  const { notified } = await dispatchNotification(
+    userId,
+    { type: 'saved_search_matches', data },
+    { channels: search.notifyChannels }
+  );
+  return notified;
+}
+
+/**
+ * Check one saved search against articles processed since its last check
+ *
+ * 匹配成功后才推进水位；语义检索失败（semantic 模式）时抛错，下次检查重试同一批文章。
+ */
+export async function checkSavedSearch(userId: number, search: SavedSearch): Promise<SavedSearchCheckResult> {
+  const now = new Date().toISOString();
+  const candidates = await getCandidateArticles(
+    userId,
+    search.filters,
+    search.lastCheckedAt,
+    now,
+    MAX_CANDIDATES_PER_CHECK
+  );
+
+  let newMatches: MatchResult[] = [];
+  if (candidates.length > 0) {
+    const matches = await matchArticles({
+      mode: MATCH_MODES[search.mode],
+      userId,
+      query: search.query,
+      articleIds: candidates.map((candidate) => candidate.id),
+      minScore: search.minScore,
+      semanticWeight: search.semanticWeight,
+      keywordWeight: search.keywordWeight,
+    });
+    newMatches = await insertMatches(search.id, matches);
+  }
+
+  // 候选被截断时只推进到最后一篇已检查的文章
+  const hasMore = candidates.length === MAX_CANDIDATES_PER_CHECK;
+  const checkedUntil = hasMore ? candidates[candidates.length - 1].processedAt : now;
+  const db = getDb();
+  await db
+    .updateTable('saved_searches')
+    .set({ last_checked_at: checkedUntil })
+    .where('id', '=', search.id)
+    .execute();
+
+  let notified = false;
+  if (newMatches.length > 0) {
+    notified = await notifyMatches(userId, search, newMatches);
+    log.info(
+      { userId, searchId: search.id, checked: candidates.length, matched: newMatches.length, notified },
+      'Saved search matched new articles'
+    );
+  }
+
+  return { searchId: search.id, checked: candidates.length, matched: newMatches.length, notified, hasMore };
+}
@@ -247,21 +247,31 @@ export async function updateSchedulerSettings(
 }
 
 /**
- * 获取 Chroma 设置
+ * 向量存储后端：chroma 为外部 ChromaDB 服务，sqlite 为存于主数据库的嵌入式存储
+ */
+export type VectorBackend = 'chroma' | 'sqlite';
+
+/**
+ * 获取 Chroma 设置（含向量存储后端；collection 与距离度量两种后端共用）
  */
 export async function getChromaSettings(userId: number): Promise<{
+  backend: VectorBackend;
   host: string;
   port: number;
   collection: string;
   distanceMetric: 'cosine' | 'l2' | 'ip';
 }> {
   const settings = await getUserSettings(userId, [
+    'vector_backend',
     'chroma_host',
     'chroma_port',
     'chroma_collection',
     'chroma_distance_metric',
   ]);
 
+  const rawBackend = (settings.vector_backend || config.vectorBackend).toLowerCase();
+  const backend: VectorBackend = rawBackend === 'sqlite' ? 'sqlite' : 'chroma';
+
   const rawMetric = (settings.chroma_distance_metric || 'cosine').toLowerCase();
   const distanceMetric = (rawMetric === 'l2' || rawMetric === 'ip' ? rawMetric : 'cosine') as
     | 'cosine'
@@ -269,6 +279,7 @@ export async function getChromaSettings(userId: number): Promise<{
     | 'ip';
 
   return {
+    backend,
     host: settings.chroma_host || config.chromaHost,
     port: parseInt(settings.chroma_port || String(config.chromaPort), 10),
     collection: settings.chroma_collection || 'articles',
@@ -282,6 +293,7 @@ export async function getChromaSettings(userId: number): Promise<{
 export async function updateChromaSettings(
   userId: number,
   settings: {
+    backend?: VectorBackend;
     host?: string;
     port?: number;
     collection?: string;
@@ -290,6 +302,9 @@ export async function updateChromaSettings(
 ): Promise<void> {
   const updates: Record<string, SettingValue> = {};
 
+  if (settings.backend !== undefined) {
+    updates.vector_backend = settings.backend;
+  }
   if (settings.host !== undefined) {
     updates.chroma_host = settings.host;
   }
@@ -309,6 +324,11 @@ export async function updateChromaSettings(
   }
 }
 
+/**
+ * Telegram 接收更新方式：长轮询 getUpdates，或由 Telegram 推送到 Webhook 路由
+ */
+export type TelegramUpdateMode = 'polling' | 'webhook';
+
 /**
  * 获取 Telegram 设置
  */
@@ -318,6 +338,9 @@ export async function getTelegramSettings(userId: number): Promise<{
   chatId: string;
   dailySummary: boolean;
   newArticles: boolean;
+  updateMode: TelegramUpdateMode;
+  webhookUrl: string;
+  webhookSecret: string;
 }> {
   const settings = await getUserSettings(userId, [
     'telegram_enabled',
@@ -325,6 +348,9 @@ export async function getTelegramSettings(userId: number): Promise<{
     'telegram_chat_id',
     'telegram_daily_summary',
     'telegram_new_articles',
+    'telegram_update_mode',
+    'telegram_webhook_url',
+    'telegram_webhook_secret',
   ]);
 
   return {
@@ -333,6 +359,9 @@ export async function getTelegramSettings(userId: number): Promise<{
     chatId: settings.telegram_chat_id || '',
     dailySummary: stringToBool(settings.telegram_daily_summary, false),
     newArticles: stringToBool(settings.telegram_new_articles, false),
+    updateMode: settings.telegram_update_mode === 'webhook' ? 'webhook' : 'polling',
+    webhookUrl: settings.telegram_webhook_url || '',
+    webhookSecret: settings.telegram_webhook_secret || '',
   };
 }
 
@@ -347,6 +376,9 @@ export async function updateTelegramSettings(
     chatId?: string;
     dailySummary?: boolean;
     newArticles?: boolean;
+    updateMode?: TelegramUpdateMode;
+    webhookUrl?: string;
+    webhookSecret?: string;
   }
 ): Promise<void> {
   const updates: Record<string, SettingValue> = {};
@@ -366,9 +398,18 @@ export async function updateTelegramSettings(
   if (settings.newArticles !== undefined) {
     updates.telegram_new_articles = boolToString(settings.newArticles);
   }
+  if (settings.updateMode !== undefined) {
+    updates.telegram_update_mode = settings.updateMode;
+  }
+  if (settings.webhookUrl !== undefined) {
+    updates.telegram_webhook_url = settings.webhookUrl;
+  }
+  if (settings.webhookSecret !== undefined) {
+    updates.telegram_webhook_secret = settings.webhookSecret;
+  }
 
   if (Object.keys(updates).length > 0) {
     await batchSetUserSettings(userId, updates);
-    log.info({ userId, settings: updates }, 'Telegram settings updated');
+    log.info({ userId, keys: Object.keys(updates) }, 'Telegram settings updated');
   }
 }
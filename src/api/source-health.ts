@@ -0,0 +1,201 @@
+/**
+ * Source Health Service
+ *
+ * 汇总各类来源最近一次抓取的结果（Telegram /sources 命令使用）：
+ * - RSS / 网页 / 期刊 / 关键词：取对应抓取日志表中最新一条
+ * - 邮件：email_sources 自带 last_fetched_at / last_error
+ */
+
+import { getDb } from '../db.js';
+
+export type SourceHealthType = 'rss' | 'journal' | 'keyword' | 'email' | 'web';
+
+/**
+ * healthy: 最近一次成功（含未修改）；degraded: 部分成功；failing: 最近一次失败；
+ * never: 从未抓取；inactive: 已停用（不参与自动抓取）
+ */
+export type SourceHealthStatus = 'healthy' | 'degraded' | 'failing' | 'never' | 'inactive';
+
+export interface SourceHealth {
+  type: SourceHealthType;
+  id: number;
+  name: string;
+  health: SourceHealthStatus;
+  lastFetchedAt: string | null;
+  lastError: string | null;
+}
+
+interface LatestFetch {
+  isActive: boolean;
+  lastStatus: string | null;
+  lastFetchedAt: string | null;
+  lastError: string | null;
+}
+
+function toHealthStatus({ isActive, lastStatus, lastFetchedAt }: LatestFetch): SourceHealthStatus {
+  if (!isActive) return 'inactive';
+  if (lastStatus === 'failed') return 'failing';
+  if (lastStatus === 'partial') return 'degraded';
+  if (!lastStatus && !lastFetchedAt) return 'never';
+  return 'healthy';
+}
+
+function toSourceHealth(type: SourceHealthType, id: number, name: string, latest: LatestFetch): SourceHealth {
+  return {
+    type,
+    id,
+    name,
+    health: toHealthStatus(latest),
+    lastFetchedAt: latest.lastFetchedAt,
+    lastError: latest.lastStatus === 'failed' || latest.lastStatus === 'partial' ? latest.lastError : null,
+  };
+}
+
+/**
+ * Get health of all sources owned by a user
+ *
+ * 按类型（RSS、期刊、关键词、网页、邮件）排列，同类型内按名称排序。
+ */
+export async function getSourceHealth(userId: number): Promise<SourceHealth[]> {
+  const db = getDb();
+
+  const [rssSources, journals, keywords, webSources, emailSources] = await Promise.all([
+    db
+      .selectFrom('rss_sources')
+      .where('user_id', '=', userId)
+      .select((eb) => [
+        'rss_sources.id',
+        'rss_sources.name',
+        'rss_sources.status',
+        'rss_sources.last_fetched_at',
+        eb.selectFrom('rss_fetch_logs')
+          .whereRef('rss_fetch_logs.rss_source_id', '=', 'rss_sources.id')
+          .select('rss_fetch_logs.status')
+          .orderBy('rss_fetch_logs.id', 'desc')
+          .limit(1)
+          .as('last_status'),
+        eb.selectFrom('rss_fetch_logs')
+          .whereRef('rss_fetch_logs.rss_source_id', '=', 'rss_sources.id')
+          .select('rss_fetch_logs.error_message')
+          .orderBy('rss_fetch_logs.id', 'desc')
+          .limit(1)
+          .as('last_error'),
+      ])
+      .orderBy('rss_sources.name')
+      .execute(),
+    db
+      .selectFrom('journals')
+      .where('user_id', '=', userId)
+      .select((eb) => [
+        'journals.id',
+        'journals.name',
+        'journals.status',
+        eb.selectFrom('journal_crawl_logs')
+          .whereRef('journal_crawl_logs.journal_id', '=', 'journals.id')
+          .select('journal_crawl_logs.status')
+          .orderBy('journal_crawl_logs.id', 'desc')
+          .limit(1)
+          .as('last_status'),
+        eb.selectFrom('journal_crawl_logs')
+          .whereRef('journal_crawl_logs.journal_id', '=', 'journals.id')
+          .select('journal_crawl_logs.error_message')
+          .orderBy('journal_crawl_logs.id', 'desc')
+          .limit(1)
+          .as('last_error'),
+        eb.selectFrom('journal_crawl_logs')
+          .whereRef('journal_crawl_logs.journal_id', '=', 'journals.id')
+          .select('journal_crawl_logs.created_at')
+          .orderBy('journal_crawl_logs.id', 'desc')
+          .limit(1)
+          .as('last_fetched_at'),
+      ])
+      .orderBy('journals.name')
+      .execute(),
+    db
+      .selectFrom('keyword_subscriptions')
+      .where('user_id', '=', userId)
+      .select((eb) => [
+        'keyword_subscriptions.id',
+        'keyword_subscriptions.keyword',
+        'keyword_subscriptions.is_active',
+        'keyword_subscriptions.last_crawl_time',
+        eb.selectFrom('keyword_crawl_logs')
+          .whereRef('keyword_crawl_logs.keyword_id', '=', 'keyword_subscriptions.id')
+          .select('keyword_crawl_logs.status')
+          .orderBy('keyword_crawl_logs.id', 'desc')
+          .limit(1)
+          .as('last_status'),
+        eb.selectFrom('keyword_crawl_logs')
+          .whereRef('keyword_crawl_logs.keyword_id', '=', 'keyword_subscriptions.id')
+          .select('keyword_crawl_logs.error_message')
+          .orderBy('keyword_crawl_logs.id', 'desc')
+          .limit(1)
+          .as('last_error'),
+      ])
+      .orderBy('keyword_subscriptions.keyword')
+      .execute(),
+    db
+      .selectFrom('web_sources')
+      .where('user_id', '=', userId)
+      .select((eb) => [
+        'web_sources.id',
+        'web_sources.name',
+        'web_sources.status',
+        'web_sources.last_fetched_at',
+        eb.selectFrom('web_fetch_logs')
+          .whereRef('web_fetch_logs.web_source_id', '=', 'web_sources.id')
+          .select('web_fetch_logs.status')
+          .orderBy('web_fetch_logs.id', 'desc')
+          .limit(1)
+          .as('last_status'),
+        eb.selectFrom('web_fetch_logs')
+          .whereRef('web_fetch_logs.web_source_id', '=', 'web_sources.id')
+          .select('web_fetch_logs.error_message')
+          .orderBy('web_fetch_logs.id', 'desc')
+          .limit(1)
+          .as('last_error'),
+      ])
+      .orderBy('web_sources.name')
+      .execute(),
+    db
+      .selectFrom('email_sources')
+      .where('user_id', '=', userId)
+      .select(['id', 'name', 'status', 'last_fetched_at', 'last_error'])
+      .orderBy('name')
+      .execute(),
+  ]);
+
+  return [
+    ...rssSources.map((s) => toSourceHealth('rss', s.id, s.name, {
+      isActive: s.status === 'active',
+      lastStatus: s.last_status ?? null,
+      lastFetchedAt: s.last_fetched_at,
+      lastError: s.last_error ?? null,
+    })),
+    ...journals.map((j) => toSourceHealth('journal', j.id, j.name, {
+      isActive: j.status === 'active',
+      lastStatus: j.last_status ?? null,
+      lastFetchedAt: j.last_fetched_at ?? null,
+      lastError: j.last_error ?? null,
+    })),
+    ...keywords.map((k) => toSourceHealth('keyword', k.id, k.keyword, {
+      isActive: k.is_active === 1,
+      lastStatus: k.last_status ?? null,
+      lastFetchedAt: k.last_crawl_time,
+      lastError: k.last_error ?? null,
+    })),
+    ...webSources.map((w) => toSourceHealth('web', w.id, w.name, {
+      isActive: w.status === 'active',
+      lastStatus: w.last_status ?? null,
+      lastFetchedAt: w.last_fetched_at,
+      lastError: w.last_error ?? null,
+    })),
+    ...emailSources.map((e) => toSourceHealth('email', e.id, e.name, {
+      isActive: e.status === 'active',
+      // 邮件源没有部分成功状态，last_error 在成功抓取后清空
+      lastStatus: e.last_error ? 'failed' : null,
+      lastFetchedAt: e.last_fetched_at,
+      lastError: e.last_error,
+    })),
+  ];
+}
@@ -25,6 +25,7 @@ export interface TelegramChatConfig {
   newArticles: boolean;
   pdfSummary: boolean;
   isActive: boolean;
+  isPaused: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -52,6 +53,7 @@ export interface UpdateTelegramChatInput {
   newArticles?: boolean;
   pdfSummary?: boolean;
   isActive?: boolean;
+  isPaused?: boolean;
 }
 
 /**
@@ -71,6 +73,7 @@ function rowToConfig(row: TelegramChatsSelection): TelegramChatConfig {
     newArticles: row.new_articles === 1,
     pdfSummary: (row as any).pdf_summary === 1,
     isActive: row.is_active === 1,
+    isPaused: row.is_paused === 1,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -213,6 +216,9 @@ export async function updateTelegramChat(
   if (input.isActive !== undefined) {
     updates.is_active = input.isActive ? 1 : 0;
   }
+  if (input.isPaused !== undefined) {
+    updates.is_paused = input.isPaused ? 1 : 0;
+  }
 
   const result = await db
     .updateTable('telegram_chats')
@@ -231,6 +237,31 @@ export async function updateTelegramChat(
   return rowToConfig(result as TelegramChatsSelection);
 }
 
+/**
+ * Pause or resume pushes to a chat (by Telegram chat ID, used by /pause and /resume)
+ * @returns false if the chat is not configured
+ */
+export async function setTelegramChatPaused(userId: number, chatId: string, paused: boolean): Promise<boolean> {
+  const db = getDb();
+
+  const result = await db
+    .updateTable('telegram_chats')
+    .set({
+      is_paused: paused ? 1 : 0,
+      updated_at: new Date().toISOString(),
+    })
+    .where('user_id', '=', userId)
+    .where('chat_id', '=', chatId)
+    .executeTakeFirst();
+
+  if (Number(result.numUpdatedRows) === 0) {
+    return false;
+  }
+
+  log.info({ userId, chatId, paused }, 'Telegram chat push paused state changed');
+  return true;
+}
+
 /**
  * Delete a Telegram chat
  */
@@ -331,6 +362,7 @@ export async function getDailySummaryJournalChats(userId: number): Promise<Teleg
     .selectFrom('telegram_chats')
     .where('user_id', '=', userId)
     .where('is_active', '=', 1)
+    .where('is_paused', '=', 0)
     .where('daily_summary_journal', '=', 1)
     .orderBy('created_at', 'asc')
     .selectAll()
@@ -349,6 +381,7 @@ export async function getDailySummaryBlogNewsChats(userId: number): Promise<Tele
     .selectFrom('telegram_chats')
     .where('user_id', '=', userId)
     .where('is_active', '=', 1)
+    .where('is_paused', '=', 0)
     .where('daily_summary_blog_news', '=', 1)
     .orderBy('created_at', 'asc')
     .selectAll()
@@ -367,6 +400,7 @@ export async function getNewArticlesChats(userId: number): Promise<TelegramChatC
     .selectFrom('telegram_chats')
     .where('user_id', '=', userId)
     .where('is_active', '=', 1)
+    .where('is_paused', '=', 0)
     .where('new_articles', '=', 1)
     .orderBy('created_at', 'asc')
     .selectAll()
@@ -385,6 +419,7 @@ export async function getJournalAllChats(userId: number): Promise<TelegramChatCo
     .selectFrom('telegram_chats')
     .where('user_id', '=', userId)
     .where('is_active', '=', 1)
+    .where('is_paused', '=', 0)
     .where('journal_all', '=', 1)
     .orderBy('created_at', 'asc')
     .selectAll()
@@ -403,6 +438,7 @@ export async function getInsightsChats(userId: number): Promise<TelegramChatConf
     .selectFrom('telegram_chats')
     .where('user_id', '=', userId)
     .where('is_active', '=', 1)
+    .where('is_paused', '=', 0)
     .where('insights', '=', 1)
     .orderBy('created_at', 'asc')
     .selectAll()
@@ -421,6 +457,7 @@ export async function getPdfSummaryChats(userId: number): Promise<TelegramChatCo
     .selectFrom('telegram_chats')
     .where('user_id', '=', userId)
     .where('is_active', '=', 1)
+    .where('is_paused', '=', 0)
     .where('pdf_summary', '=', 1)
     .orderBy('created_at', 'asc')
     .selectAll()
@@ -22,6 +22,26 @@ export async function getUserLocalDate(userId: number): Promise<string> {
   return getLocalDateInTimezone(timezone);
 }
 
+/**
+ * 获取指定时区下的当前时间（HH:MM 格式，24 小时制）
+ * @param timezone - 时区字符串
+ * @param date - 参考时间，默认当前时间
+ */
+export function getLocalTimeInTimezone(timezone: string, date: Date = new Date()): string {
+  const formatter = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  });
+
+  const parts = formatter.formatToParts(date);
+  const hour = parts.find(p => p.type === 'hour')?.value ?? '00';
+  const minute = parts.find(p => p.type === 'minute')?.value ?? '00';
+
+  return `${hour}:${minute}`;
+}
+
 /**
  * 获取指定时区下的当前日期（YYYY-MM-DD 格式）
  * @param timezone - 时区字符串
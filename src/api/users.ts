@@ -0,0 +1,361 @@
+/**
+ * User Service
+ *
+ * 用户管理与密码生命周期：管理员创建 / 禁用 / 删除用户与修改角色，用户自助修改密码。
+ * 密码统一使用 bcrypt；历史的无盐 SHA-256 哈希仍可登录，并在登录成功后透明升级为 bcrypt。
+ */
+
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { sql } from 'kysely';
+import { getDb, type UsersSelection } from '../db.js';
+import { logger } from '../logger.js';
+import { normalizeDateFields } from '../utils/datetime.js';
+import { createPersonalWorkspace } from './workspaces.js';
+
+const log = logger.child({ module: 'users' });
+
+/* ── Types ── */
+
+export const USER_ROLES = ['admin', 'member', 'guest'] as const;
+export type UserAccountRole = typeof USER_ROLES[number];
+
+export const MIN_PASSWORD_LENGTH = 8;
+const BCRYPT_ROUNDS = 12;
+
+export interface UserRecord {
+  id: number;
+  username: string;
+  role: UserAccountRole;
+  disabled: boolean;
+  lastLoginAt: string | null;
+  passwordChangedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreateUserInput {
+  username: string;
+  password: string;
+  role: UserAccountRole;
+}
+
+export interface UpdateUserInput {
+  role?: UserAccountRole;
+  disabled?: boolean;
+}
+
+/**
+ * Account state needed to validate a session
+ */
+export interface SessionUser {
+  id: number;
+  username: string;
+  role: UserAccountRole;
+  disabled: boolean;
+  passwordChangedAt: string | null;
+}
+
+/* ── Helpers ── */
+
+export function isUserRole(value: unknown): value is UserAccountRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+function isBcryptHash(hash: string): boolean {
+  return /^\$2[aby]\$/.test(hash);
+}
+
+/**
+ * Legacy unsalted SHA-256 hash (accepted for login only, rehashed on success)
+ */
+function legacySha256(password: string): string {
+  return crypto.createHash('sha256').update(password).digest('hex');
+}
+
+function validatePassword(password: unknown): string {
+  if (typeof password !== 'string' || password.length === 0) {
+    throw new Error('password is required');
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return password;
+}
+
+/**
+ * Hash password with bcrypt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+/**
+ * Verify password against stored hash (bcrypt or legacy SHA-256)
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (isBcryptHash(storedHash)) {
+    const valid = await bcrypt.compare(password, storedHash);
+    return { valid, needsRehash: valid && bcrypt.getRounds(storedHash) < BCRYPT_ROUNDS };
+  }
+
+  const expected = Buffer.from(storedHash, 'utf8');
+  const actual = Buffer.from(legacySha256(password), 'utf8');
+  const valid = expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  return { valid, needsRehash: valid };
+}
+
+function toRecord(row: UsersSelection): UserRecord {
+  const normalized = normalizeDateFields({ ...row }, ['last_login_at', 'password_changed_at', 'created_at']);
+  return {
+    id: normalized.id,
+    username: normalized.username,
+    role: normalized.role,
+    disabled: normalized.disabled === 1,
+    lastLoginAt: normalized.last_login_at,
+    passwordChangedAt: normalized.password_changed_at,
+    createdAt: normalized.created_at,
+  };
+}
+
+/**
+ * Count enabled admins other than the given user
+ * 用于防止禁用 / 降级 / 删除最后一个管理员
+ */
+async function countOtherActiveAdmins(userId: number): Promise<number> {
+  const db = getDb();
+  const row = await db
+    .selectFrom('users')
+    .where('role', '=', 'admin')
+    .where('disabled', '=', 0)
+    .where('id', '!=', userId)
+    .select(sql<number>`COUNT(*)`.as('count'))
+    .executeTakeFirstOrThrow();
+  return Number(row.count);
+}
+
+async function getUserRow(id: number): Promise<UsersSelection> {
+  const db = getDb();
+  const row = await db.selectFrom('users').where('id', '=', id).selectAll().executeTakeFirst();
+  if (!row) {
+    throw new Error('User not found');
+  }
+  return row;
+}
+
+/* ── Admin management ── */
+
+/**
+ * List all users
+ */
+export async function getUsers(): Promise<UserRecord[]> {
+  const db = getDb();
+  const rows = await db.selectFrom('users').selectAll().orderBy('id', 'asc').execute();
+  return rows.map(toRecord);
+}
+
+/**
+ * Create a user
+ * 非 guest 用户同时创建个人工作区；guest 需由工作区所有者共享后才能看到数据
+ */
+export async function createUser(input: CreateUserInput): Promise<UserRecord> {
+  const username = input.username.trim();
+  if (!username) {
+    throw new Error('username is required');
+  }
+  const password = validatePassword(input.password);
+
+  const db = getDb();
+  const existing = await db
+    .selectFrom('users')
+    .where('username', '=', username)
+    .select('id')
+    .executeTakeFirst();
+  if (existing) {
+    throw new Error('Username already exists');
+  }
+
+  const row = await db
+    .insertInto('users')
+    .values({
+      username,
+      password_hash: await hashPassword(password),
+      role: input.role,
+      password_changed_at: new Date().toISOString(),
+      last_login_at: null,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  if (row.role !== 'guest') {
+    await createPersonalWorkspace(row.id, row.username);
+  }
+
+  log.info({ userId: row.id, role: row.role }, 'User created');
+  return toRecord(row);
+}
+
+/**
+ * Change role / disabled state of a user
+ * 不能修改自己的角色或禁用自己，且至少保留一个启用的管理员
+ */
+export async function updateUser(id: number, actorId: number, input: UpdateUserInput): Promise<UserRecord> {
+  const user = await getUserRow(id);
+
+  const demoting = input.role !== undefined && input.role !== user.role && user.role === 'admin';
+  const disabling = input.disabled === true && user.disabled === 0;
+
+  if (id === actorId && (demoting || disabling)) {
+    throw new Error('Cannot demote or disable your own account');
+  }
+  if (user.role === 'admin' && user.disabled === 0 && (demoting || disabling)) {
+    if (await countOtherActiveAdmins(id) === 0) {
+      throw new Error('Cannot demote or disable the last active admin');
+    }
+  }
+
+  const db = getDb();
+  const row = await db
+    .updateTable('users')
+    .set({
+      ...(input.role !== undefined ? { role: input.role } : {}),
+      ...(input.disabled !== undefined ? { disabled: input.disabled ? 1 : 0 } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .where('id', '=', id)
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  if (row.role !== 'guest') {
+    await createPersonalWorkspace(row.id, row.username);
+  }
+
+  log.info({ userId: id, actorId, role: row.role, disabled: row.disabled }, 'User updated');
+  return toRecord(row);
+}
+
+/**
+ * Delete a user and all data owned by the user (ON DELETE CASCADE)
+ */
+export async function deleteUser(id: number, actorId: number): Promise<void> {
+  if (id === actorId) {
+    throw new Error('Cannot delete your own account');
+  }
+
+  const user = await getUserRow(id);
+  if (user.role === 'admin' && user.disabled === 0 && await countOtherActiveAdmins(id) === 0) {
+    throw new Error('Cannot delete the last active admin');
+  }
+
+  const db = getDb();
+  await db.deleteFrom('users').where('id', '=', id).execute();
+  log.info({ userId: id, actorId }, 'User deleted');
+}
+
+/* ── Passwords ── */
+
+/**
+ * Set a new password (admin reset or after verifying the current one)
+ * 更新 password_changed_at，使此前签发的会话失效
+ */
+export async function setPassword(id: number, password: string): Promise<void> {
+  const validated = validatePassword(password);
+  const now = new Date().toISOString();
+
+  const db = getDb();
+  const result = await db
+    .updateTable('users')
+    .set({ password_hash: await hashPassword(validated), password_changed_at: now, updated_at: now })
+    .where('id', '=', id)
+    .executeTakeFirst();
+
+  if (Number(result.numUpdatedRows) === 0) {
+    throw new Error('User not found');
+  }
+  log.info({ userId: id }, 'Password changed');
+}
+
+/**
+ * Self-service password change
+ */
+export async function changeOwnPassword(id: number, currentPassword: string, newPassword: string): Promise<void> {
+  const user = await getUserRow(id);
+  const { valid } = await verifyPassword(currentPassword, user.password_hash);
+  if (!valid) {
+    throw new Error('Current password is incorrect');
+  }
+  await setPassword(id, newPassword);
+}
+
+/* ── Login / session ── */
+
+/**
+ * Verify credentials for login
+ *
+ * 成功时更新 last_login_at，并将旧的 SHA-256 哈希升级为 bcrypt（不改变 password_changed_at）。
+ * @returns null when the username / password is wrong or the account is disabled
+ */
+export async function authenticateUser(username: string, password: string): Promise<SessionUser | null> {
+  const db = getDb();
+  const user = await db
+    .selectFrom('users')
+    .where('username', '=', username)
+    .selectAll()
+    .executeTakeFirst();
+
+  if (!user) {
+    return null;
+  }
+
+  const { valid, needsRehash } = await verifyPassword(password, user.password_hash);
+  if (!valid || user.disabled === 1) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  await db
+    .updateTable('users')
+    .set({
+      last_login_at: now,
+      ...(needsRehash ? { password_hash: await hashPassword(password) } : {}),
+    })
+    .where('id', '=', user.id)
+    .execute();
+
+  if (needsRehash) {
+    log.info({ userId: user.id }, 'Password hash upgraded to bcrypt');
+  }
+
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    disabled: false,
+    passwordChangedAt: user.password_changed_at,
+  };
+}
+
+/**
+ * Load account state for session validation
+ */
+export async function getSessionUser(id: number): Promise<SessionUser | null> {
+  const db = getDb();
+  const user = await db
+    .selectFrom('users')
+    .where('id', '=', id)
+    .select(['id', 'username', 'role', 'disabled', 'password_changed_at'])
+    .executeTakeFirst();
+
+  if (!user) return null;
+
+  const normalized = normalizeDateFields({ ...user }, ['password_changed_at']);
+  return {
+    id: normalized.id,
+    username: normalized.username,
+    role: normalized.role,
+    disabled: normalized.disabled === 1,
+    passwordChangedAt: normalized.password_changed_at,
+  };
+}
@@ -12,11 +12,26 @@ import { fileURLToPath } from 'url';
 import type { Request, Response, NextFunction } from 'express';
 import { config } from '../config.js';
 import { logger } from '../logger.js';
-import { optionalAuth } from '../middleware/auth.js';
+import { canWriteWorkspace, optionalAuth, type AuthRequest } from '../middleware/auth.js';
 import apiRoutes from './routes.js';
 
 const log = logger.child({ module: 'web-server' });
 
+/**
+ * User object for views
+ * 页面脚本沿用 role 判断 admin（可写）/ guest（只读），这里按当前工作区角色映射
+ */
+function getViewUser(req: AuthRequest) {
+  if (!req.user) return null;
+  return {
+    ...req.user,
+    role: canWriteWorkspace(req) ? 'admin' : 'guest',
+    accountRole: req.user.role,
+    workspaceId: req.workspaceId,
+    workspaceRole: req.workspaceRole,
+  };
+}
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
@@ -26,6 +41,9 @@ const __dirname = path.dirname(__filename);
 export function createApp(): express.Express {
   const app = express();
 
+  // 反向代理后需信任 X-Forwarded-For，登录限流才能按真实 IP 计数
+  app.set('trust proxy', config.trustProxy);
+
   // Body parsing middleware
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
@@ -76,10 +94,13 @@ export function createApp(): express.Express {
 
     try {
       const { handleLogin } = await import('../middleware/auth.js');
-      const result = await handleLogin(username, password, res);
+      const result = await handleLogin(username, password, res, req.ip);
 
       if (result.success) {
         res.json({ success: true });
+      } else if (result.retryAfterSeconds) {
+        res.set('Retry-After', String(result.retryAfterSeconds));
+        res.status(429).json({ error: result.error });
       } else {
         res.status(401).json({ error: result.error });
       }
@@ -107,13 +128,13 @@ export function createApp(): express.Express {
     if (!req.userId) {
       return res.redirect('/login');
     }
-    // Only admin can access settings
-    if (req.user?.role !== 'admin') {
+    // Only workspace owner / editor can access settings
+    if (!canWriteWorkspace(req)) {
       return res.redirect('/');
     }
     res.render('settings', {
       pageTitle: 'Settings - LIS-RSS Literature Tracker',
-      user: req.user,
+      user: getViewUser(req),
     });
   });
 
@@ -122,13 +143,13 @@ export function createApp(): express.Express {
     if (!req.userId) {
       return res.redirect('/login');
     }
-    // Only admin can access topics
-    if (req.user?.role !== 'admin') {
+    // Only workspace owner / editor can access topics
+    if (!canWriteWorkspace(req)) {
       return res.redirect('/');
     }
     res.render('topics', {
       pageTitle: 'Topic Management - LIS-RSS Literature Tracker',
-      user: req.user,
+      user: getViewUser(req),
     });
   });
 
@@ -139,7 +160,7 @@ export function createApp(): express.Express {
     // All logged-in users can access logs
     res.render('filter-logs', {
       pageTitle: 'Filter Logs - LIS-RSS Literature Tracker',
-      user: req.user,
+      user: getViewUser(req),
     });
   });
 
@@ -147,13 +168,13 @@ export function createApp(): express.Express {
     if (!req.userId) {
       return res.redirect('/login');
     }
-    // Only admin can access stats
-    if (req.user?.role !== 'admin') {
+    // Only workspace owner / editor can access stats
+    if (!canWriteWorkspace(req)) {
       return res.redirect('/');
     }
     res.render('filter-stats', {
       pageTitle: 'Filter Statistics - LIS-RSS Literature Tracker',
-      user: req.user,
+      user: getViewUser(req),
     });
   });
 
@@ -164,7 +185,7 @@ export function createApp(): express.Express {
     }
     res.render('index', {
       pageTitle: '每日摘要 - LIS-RSS Literature Tracker',
-      user: req.user,
+      user: getViewUser(req),
     });
   });
 
@@ -175,7 +196,7 @@ export function createApp(): express.Express {
     }
     res.render('articles', {
       pageTitle: '文章列表 - LIS-RSS Literature Tracker',
-      user: req.user,
+      user: getViewUser(req),
     });
   });
 
@@ -187,7 +208,7 @@ export function createApp(): express.Express {
     // The article detail page will fetch data via API
     res.render('article-detail', {
       pageTitle: '文章详情 - LIS-RSS Literature Tracker',
-      user: req.user,
+      user: getViewUser(req),
     });
   });
 
@@ -195,7 +216,7 @@ export function createApp(): express.Express {
   app.get('/search', optionalAuth, (req: any, res: Response) => {
     res.render('search', {
       pageTitle: '语义搜索 - LIS-RSS Literature Tracker',
-      user: req.user || null,
+      user: getViewUser(req),
       guestSummaryEnabled: config.searchAiSummaryGuestEnabled,
     });
   });
@@ -207,7 +228,7 @@ export function createApp(): express.Express {
     }
     res.render('deepsearch', {
       pageTitle: '深度检索 - LIS-RSS Literature Tracker',
-      user: req.user,
+      user: getViewUser(req),
     });
   });
 
@@ -218,7 +239,7 @@ export function createApp(): express.Express {
     }
     res.render('history', {
       pageTitle: '历史总结 - LIS-RSS Literature Tracker',
-      user: req.user,
+      user: getViewUser(req),
     });
   });
 
@@ -0,0 +1,318 @@
+/**
+ * WeChat Webhooks Service
+ *
+ * 企业微信群机器人 webhook 的数据库存储（按用户隔离，替代全局的 config/wechat.yaml）。
+ * webhook URL 中的 key 即发送凭证，使用 LLM_ENCRYPTION_KEY 加密存储，接口只返回脱敏值。
+ */
+
+import type { Insertable, Updateable } from 'kysely';
+import { getDb, type WeChatWebhooksSelection, type WeChatWebhooksTable } from '../db.js';
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { encryptAPIKey, decryptAPIKey } from '../utils/crypto.js';
+import { normalizeDateFields } from '../utils/datetime.js';
+
+const log = logger.child({ module: 'wechat-webhooks-service' });
+
+/* ── Types ── */
+
+/**
+ * 推送类型配置
+ */
+export interface WeChatPushTypes {
+  daily_summary_journal: boolean;
+  daily_summary_blog_news: boolean;
+  journal_all: boolean;
+  new_articles: boolean;
+  insights: boolean;
+  pdf_summary: boolean;
+}
+
+/**
+ * Webhook 配置（不含明文 URL）
+ */
+export interface WeChatWebhook {
+  id: number;
+  user_id: number;
+  name: string;
+  url_hint: string;
+  enabled: boolean;
+  push_types: WeChatPushTypes;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Webhook with decrypted URL (for sending only, never returned by the API)
+ */
+export interface WeChatWebhookTarget extends WeChatWebhook {
+  url: string;
+}
+
+export interface CreateWeChatWebhookInput {
+  name: string;
+  url: string;
+  enabled?: boolean;
+  push_types?: Partial<WeChatPushTypes>;
+}
+
+export interface UpdateWeChatWebhookInput {
+  name?: string;
+  /** 不提供则保持原 URL */
+  url?: string;
+  enabled?: boolean;
+  push_types?: Partial<WeChatPushTypes>;
+}
+
+const PUSH_TYPE_KEYS: (keyof WeChatPushTypes)[] = [
+  'daily_summary_journal',
+  'daily_summary_blog_news',
+  'journal_all',
+  'new_articles',
+  'insights',
+  'pdf_summary',
+];
+
+/* ── Helpers ── */
+
+/**
+ * 验证 webhook URL 格式
+ */
+export function isValidWeChatWebhookUrl(url: string): boolean {
+  if (!url || typeof url !== 'string') {
+    return false;
+  }
+  // 企业微信 webhook URL 格式: https://qyapi.weixin.qq.com/cgi-bin/webhook/send?key=xxx
+  return url.includes('qyapi.weixin.qq.com/cgi-bin/webhook/send');
+}
+
+/**
+ * 脱敏 webhook URL：只保留 key 的首尾 4 位
+ */
+export function maskWeChatWebhookUrl(url: string): string {
+  return url.replace(/([?&]key=)([^&]+)/, (_match, prefix: string, key: string) =>
+    prefix + (key.length > 8 ? `${key.slice(0, 4)}****${key.slice(-4)}` : '****')
+  );
+}
+
+function rowToWebhook(row: WeChatWebhooksSelection): WeChatWebhook {
+  const normalized = normalizeDateFields({ ...row }, ['created_at', 'updated_at']);
+  return {
+    id: normalized.id,
+    user_id: normalized.user_id,
+    name: normalized.name,
+    url_hint: normalized.url_hint,
+    enabled: normalized.is_active === 1,
+    push_types: {
+      daily_summary_journal: normalized.daily_summary_journal === 1,
+      daily_summary_blog_news: normalized.daily_summary_blog_news === 1,
+      journal_all: normalized.journal_all === 1,
+      new_articles: normalized.new_articles === 1,
+      insights: normalized.insights === 1,
+      pdf_summary: normalized.pdf_summary === 1,
+    },
+    created_at: normalized.created_at,
+    updated_at: normalized.updated_at,
+  };
+}
+
+/**
+ * Decrypt webhook URL; rows that cannot be decrypted (e.g. key rotated) are skipped
+ */
+function rowToTarget(row: WeChatWebhooksSelection): WeChatWebhookTarget | null {
+  try {
+    return { ...rowToWebhook(row), url: decryptAPIKey(row.url_encrypted, config.llmEncryptionKey) };
+  } catch (error) {
+    log.error({ error, webhookId: row.id, userId: row.user_id }, 'Failed to decrypt WeChat webhook URL');
+    return null;
+  }
+}
+
+type PushTypeColumns = Pick<Insertable<WeChatWebhooksTable>, keyof WeChatPushTypes>;
+
+/**
+ * 推送类型开关对应的列；defaults 为 true 时补齐全部类型（未指定的默认开启）
+ */
+function pushTypeColumns(pushTypes: Partial<WeChatPushTypes>, defaults: true): PushTypeColumns;
+function pushTypeColumns(pushTypes: Partial<WeChatPushTypes>, defaults: false): Partial<PushTypeColumns>;
+function pushTypeColumns(pushTypes: Partial<WeChatPushTypes>, defaults: boolean): Partial<PushTypeColumns> {
+  const columns: Partial<PushTypeColumns> = {};
+  for (const key of PUSH_TYPE_KEYS) {
+    if (pushTypes[key] !== undefined || defaults) {
+      columns[key] = pushTypes[key] !== false ? 1 : 0;
+    }
+  }
+  return columns;
+}
+
+/* ── CRUD ── */
+
+/**
+ * Get all webhooks of a user
+ */
+export async function getWeChatWebhooks(userId: number): Promise<WeChatWebhook[]> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom('wechat_webhooks')
+    .where('user_id', '=', userId)
+    .orderBy('created_at', 'asc')
+    .orderBy('id', 'asc')
+    .selectAll()
+    .execute();
+
+  return rows.map(rowToWebhook);
+}
+
+/**
+ * Get a webhook by ID (with decrypted URL)
+ */
+export async function getWeChatWebhookTarget(userId: number, id: number): Promise<WeChatWebhookTarget | null> {
+  const db = getDb();
+  const row = await db
+    .selectFrom('wechat_webhooks')
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .selectAll()
+    .executeTakeFirst();
+
+  return row ? rowToTarget(row) : null;
+}
+
+/**
+ * Add a webhook
+ */
+export async function addWeChatWebhook(userId: number, input: CreateWeChatWebhookInput): Promise<WeChatWebhook> {
+  const db = getDb();
+  const url = input.url.trim();
+
+  const values: Insertable<WeChatWebhooksTable> = {
+    user_id: userId,
+    name: input.name.trim(),
+    url_encrypted: encryptAPIKey(url, config.llmEncryptionKey),
+    url_hint: maskWeChatWebhookUrl(url),
+    is_active: input.enabled !== false ? 1 : 0,
+    ...pushTypeColumns(input.push_types || {}, true),
+  };
+
+  const row = await db
+    .insertInto('wechat_webhooks')
+    .values(values)
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  log.info({ userId, id: row.id, name: row.name }, 'WeChat webhook added');
+  return rowToWebhook(row);
+}
+
+/**
+ * Update a webhook
+ */
+export async function updateWeChatWebhook(
+  userId: number,
+  id: number,
+  input: UpdateWeChatWebhookInput
+): Promise<WeChatWebhook | null> {
+  const db = getDb();
+  const updates: Updateable<WeChatWebhooksTable> = {
+    updated_at: new Date().toISOString(),
+    ...pushTypeColumns(input.push_types || {}, false),
+  };
+
+  if (input.name !== undefined) {
+    updates.name = input.name.trim();
+  }
+  if (input.url !== undefined) {
+    const url = input.url.trim();
+    updates.url_encrypted = encryptAPIKey(url, config.llmEncryptionKey);
+    updates.url_hint = maskWeChatWebhookUrl(url);
+  }
+  if (input.enabled !== undefined) {
+    updates.is_active = input.enabled ? 1 : 0;
+  }
+
+  const row = await db
+    .updateTable('wechat_webhooks')
+    .set(updates)
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .returningAll()
+    .executeTakeFirst();
+
+  if (!row) {
+    return null;
+  }
+
+  log.info({ userId, id, updates: Object.keys(input) }, 'WeChat webhook updated');
+  return rowToWebhook(row);
+}
+
+/**
+ * Delete a webhook
+ */
+export async function deleteWeChatWebhook(userId: number, id: number): Promise<boolean> {
+  const db = getDb();
+  const result = await db
+    .deleteFrom('wechat_webhooks')
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .executeTakeFirst();
+
+  const deleted = Number(result.numDeletedRows) > 0;
+  if (deleted) {
+    log.info({ userId, id }, 'WeChat webhook deleted');
+  }
+  return deleted;
+}
+
+/* ── Push targets ── */
+
+/**
+ * Get active webhooks of a user subscribed to a push type (with decrypted URL)
+ */
+export async function getWebhooksForPushType(
+  userId: number,
+  pushType: keyof WeChatPushTypes
+): Promise<WeChatWebhookTarget[]> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom('wechat_webhooks')
+    .where('user_id', '=', userId)
+    .where('is_active', '=', 1)
+    .where(pushType, '=', 1)
+    .orderBy('id', 'asc')
+    .selectAll()
+    .execute();
+
+  return rows.map(rowToTarget).filter((target): target is WeChatWebhookTarget => target !== null);
+}
+
+/**
+ * Get active webhooks of a user for a daily summary type
+ * `all` 匹配订阅了期刊或资讯总结任一类型的 webhook
+ */
+export async function getWebhooksForDailySummaryType(
+  userId: number,
+  type: 'journal' | 'blog_news' | 'all'
+): Promise<WeChatWebhookTarget[]> {
+  if (type === 'journal') {
+    return getWebhooksForPushType(userId, 'daily_summary_journal');
+  }
+  if (type === 'blog_news') {
+    return getWebhooksForPushType(userId, 'daily_summary_blog_news');
+  }
+
+  const db = getDb();
+  const rows = await db
+    .selectFrom('wechat_webhooks')
+    .where('user_id', '=', userId)
+    .where('is_active', '=', 1)
+    .where((eb) => eb.or([
+      eb('daily_summary_journal', '=', 1),
+      eb('daily_summary_blog_news', '=', 1),
+    ]))
+    .orderBy('id', 'asc')
+    .selectAll()
+    .execute();
+
+  return rows.map(rowToTarget).filter((target): target is WeChatWebhookTarget => target !== null);
+}
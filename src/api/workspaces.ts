@@ -0,0 +1,280 @@
+/**
+ * Workspace Service
+ *
+ * 工作区：用户可属于多个工作区，角色为 owner / editor / reader。
+ * 工作区数据（订阅源、主题领域、提示词、LLM 配置、文章等）沿用所有者 user_id 的隔离，
+ * 请求通过 `req.effectiveUserId`（= 当前工作区所有者）访问数据。
+ */
+
+import { getDb } from '../db.js';
+import { logger } from '../logger.js';
+import { normalizeDateFields } from '../utils/datetime.js';
+
+const log = logger.child({ module: 'workspaces' });
+
+/* ── Types ── */
+
+export const WORKSPACE_ROLES = ['owner', 'editor', 'reader'] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+/**
+ * Role hierarchy for workspace permission checking
+ */
+const WORKSPACE_ROLE_LEVEL: Record<WorkspaceRole, number> = {
+  owner: 3,
+  editor: 2,
+  reader: 1,
+};
+
+export interface WorkspaceMembership {
+  workspaceId: number;
+  name: string;
+  role: WorkspaceRole;
+  ownerUserId: number;
+  ownerUsername: string;
+}
+
+export interface WorkspaceMember {
+  userId: number;
+  username: string;
+  role: WorkspaceRole;
+  createdAt: string;
+}
+
+/* ── Helpers ── */
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return typeof value === 'string' && (WORKSPACE_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Check if workspace role meets the required level
+ */
+export function hasWorkspaceRole(role: string | undefined, required: WorkspaceRole): boolean {
+  const level = WORKSPACE_ROLE_LEVEL[role as WorkspaceRole] ?? 0;
+  return level >= WORKSPACE_ROLE_LEVEL[required];
+}
+
+/* ── Membership ── */
+
+/**
+ * List workspaces the user belongs to (own workspace first)
+ */
+export async function getUserWorkspaces(userId: number): Promise<WorkspaceMembership[]> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom('workspace_members as m')
+    .innerJoin('workspaces as w', 'w.id', 'm.workspace_id')
+    .innerJoin('users as u', 'u.id', 'w.owner_user_id')
+    .where('m.user_id', '=', userId)
+    .select([
+      'w.id as workspaceId',
+      'w.name as name',
+      'm.role as role',
+      'w.owner_user_id as ownerUserId',
+      'u.username as ownerUsername',
+    ])
+    .orderBy('w.id', 'asc')
+    .execute();
+
+  return rows.sort((a, b) => Number(b.ownerUserId === userId) - Number(a.ownerUserId === userId));
+}
+
+/**
+ * Create the personal workspace of a user (idempotent)
+ */
+export async function createPersonalWorkspace(userId: number, username: string): Promise<number> {
+  const db = getDb();
+
+  return db.transaction().execute(async (trx) => {
+    const existing = await trx
+      .selectFrom('workspaces')
+      .where('owner_user_id', '=', userId)
+      .select('id')
+      .executeTakeFirst();
+
+    const workspaceId = existing?.id ?? (await trx
+      .insertInto('workspaces')
+      .values({ name: `${username} 的工作区`, owner_user_id: userId })
+      .returning('id')
+      .executeTakeFirstOrThrow()).id;
+
+    await trx
+      .insertInto('workspace_members')
+      .values({ workspace_id: workspaceId, user_id: userId, role: 'owner' })
+      .onConflict((oc) => oc.columns(['workspace_id', 'user_id']).doNothing())
+      .execute();
+
+    if (!existing) {
+      log.info({ userId, workspaceId }, 'Personal workspace created');
+    }
+    return workspaceId;
+  });
+}
+
+/**
+ * Resolve the active workspace for a request
+ *
+ * 优先使用请求指定的工作区（需为成员），否则使用自己的工作区，再否则第一个加入的工作区。
+ * 非 guest 用户没有任何工作区时自动创建个人工作区。
+ *
+ * @returns null if the user belongs to no workspace
+ */
+export async function resolveWorkspace(
+  user: { id: number; username?: string; role?: string },
+  requestedWorkspaceId?: number
+): Promise<WorkspaceMembership | null> {
+  let memberships = await getUserWorkspaces(user.id);
+
+  if (memberships.length === 0 && user.role !== 'guest') {
+    await createPersonalWorkspace(user.id, user.username || `user${user.id}`);
+    memberships = await getUserWorkspaces(user.id);
+  }
+
+  if (requestedWorkspaceId !== undefined) {
+    const requested = memberships.find((m) => m.workspaceId === requestedWorkspaceId);
+    if (requested) return requested;
+  }
+
+  return memberships[0] ?? null;
+}
+
+/* ── Workspace management (owner only, enforced by routes) ── */
+
+/**
+ * Rename a workspace
+ */
+export async function renameWorkspace(workspaceId: number, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('name is required');
+  }
+
+  const db = getDb();
+  const result = await db
+    .updateTable('workspaces')
+    .set({ name: trimmed, updated_at: new Date().toISOString() })
+    .where('id', '=', workspaceId)
+    .executeTakeFirst();
+
+  if (Number(result.numUpdatedRows) === 0) {
+    throw new Error('Workspace not found');
+  }
+}
+
+/**
+ * List members of a workspace
+ */
+export async function getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom('workspace_members as m')
+    .innerJoin('users as u', 'u.id', 'm.user_id')
+    .where('m.workspace_id', '=', workspaceId)
+    .select(['m.user_id as userId', 'u.username as username', 'm.role as role', 'm.created_at as createdAt'])
+    .orderBy('m.id', 'asc')
+    .execute();
+
+  return rows.map((row) => normalizeDateFields(row, ['createdAt']));
+}
+
+/**
+ * Share a workspace with another user
+ * owner 角色只属于工作区所有者，不可授予
+ */
+export async function addWorkspaceMember(
+  workspaceId: number,
+  username: string,
+  role: Exclude<WorkspaceRole, 'owner'>
+): Promise<WorkspaceMember> {
+  const db = getDb();
+  const user = await db
+    .selectFrom('users')
+    .where('username', '=', username.trim())
+    .select(['id', 'username'])
+    .executeTakeFirst();
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const existing = await db
+    .selectFrom('workspace_members')
+    .where('workspace_id', '=', workspaceId)
+    .where('user_id', '=', user.id)
+    .select('id')
+    .executeTakeFirst();
+
+  if (existing) {
+    throw new Error('User is already a member of this workspace');
+  }
+
+  const row = await db
+    .insertInto('workspace_members')
+    .values({ workspace_id: workspaceId, user_id: user.id, role })
+    .returning(['created_at'])
+    .executeTakeFirstOrThrow();
+
+  log.info({ workspaceId, memberId: user.id, role }, 'Workspace member added');
+  return normalizeDateFields(
+    { userId: user.id, username: user.username, role, createdAt: row.created_at },
+    ['createdAt']
+  );
+}
+
+/**
+ * Get a member row, rejecting changes to the owner
+ */
+async function getMutableMember(workspaceId: number, userId: number): Promise<void> {
+  const db = getDb();
+  const member = await db
+    .selectFrom('workspace_members')
+    .where('workspace_id', '=', workspaceId)
+    .where('user_id', '=', userId)
+    .select('role')
+    .executeTakeFirst();
+
+  if (!member) {
+    throw new Error('Workspace member not found');
+  }
+  if (member.role === 'owner') {
+    throw new Error('Workspace owner cannot be changed');
+  }
+}
+
+/**
+ * Change a member's role (editor / reader)
+ */
+export async function updateWorkspaceMemberRole(
+  workspaceId: number,
+  userId: number,
+  role: Exclude<WorkspaceRole, 'owner'>
+): Promise<void> {
+  await getMutableMember(workspaceId, userId);
+
+  const db = getDb();
+  await db
+    .updateTable('workspace_members')
+    .set({ role })
+    .where('workspace_id', '=', workspaceId)
+    .where('user_id', '=', userId)
+    .execute();
+
+  log.info({ workspaceId, memberId: userId, role }, 'Workspace member role updated');
+}
+
+/**
+ * Remove a member from a workspace
+ */
+export async function removeWorkspaceMember(workspaceId: number, userId: number): Promise<void> {
+  await getMutableMember(workspaceId, userId);
+
+  const db = getDb();
+  await db
+    .deleteFrom('workspace_members')
+    .where('workspace_id', '=', workspaceId)
+    .where('user_id', '=', userId)
+    .execute();
+
+  log.info({ workspaceId, memberId: userId }, 'Workspace member removed');
+}
@@ -15,6 +15,8 @@ export interface Config {
   host: string;
   port: number;
   baseUrl: string;
+  /** Express `trust proxy`（反向代理部署时用于取得真实客户端 IP） */
+  trustProxy: boolean | number | string;
 
   // Database
   databasePath: string;
@@ -23,8 +25,13 @@ export interface Config {
   jwtSecret: string;
   jwtExpiresIn: string;
 
+  // Login lockout
+  loginMaxFailuresPerUser: number;
+  loginMaxFailuresPerIp: number;
+  loginLockoutMinutes: number;
+
   // LLM
-  llmProvider: 'openai' | 'gemini';
+  llmProvider: 'openai' | 'gemini' | 'anthropic' | 'ollama';
   openaiApiKey?: string;
   openaiBaseUrl?: string;
   openaiDefaultModel: string;
@@ -108,14 +115,46 @@ export interface Config {
   rejectedCleanupEnabled: boolean;
   rejectedCleanupSchedule: string;
 
+  // Saved Searches
+  savedSearchEnabled: boolean;
+
+  // Article Job Queue
+  jobQueueConcurrency: number;
+  jobQueuePollInterval: number;
+  jobQueueVisibilityTimeout: number;
+  jobQueueMaxAttempts: number;
+  jobQueueRetryDelay: number;
+  jobQueueRetentionDays: number;
+
+  // Notification Delivery Outbox
+  notificationMaxAttempts: number;
+  notificationRetryDelay: number;
+
+  // Metadata Enrichment
+  enrichProvider: 'openalex' | 'crossref' | 'fixture' | 'none';
+  enrichMailto?: string;
+  enrichFixturePath?: string;
+  enrichTimeout: number;
+
   // Chroma
   chromaHost: string;
   chromaPort: number;
+  // 向量存储后端：chroma（外部服务）| sqlite（嵌入式，存于主数据库）
+  vectorBackend: string;
 
   // DeepSearch
   deepSearchApiUrl: string;
 }
 
+/**
+ * Parse TRUST_PROXY: true/false, hop count, or an express trust proxy string (e.g. loopback)
+ */
+function parseTrustProxy(value: string | undefined): boolean | number | string {
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
 function getConfig(): Config {
   // LLM Encryption Key with security warning
   const llmEncryptionKey = process.env.LLM_ENCRYPTION_KEY || '0000000000000000000000000000000000000000000000000000000000000000';
@@ -136,6 +175,7 @@ function getConfig(): Config {
     host: process.env.HOST || '0.0.0.0',
     port: parseInt(process.env.PORT || '3000', 10),
     baseUrl: process.env.BASE_URL || 'http://localhost:3000',
+    trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
 
     // Database
     databasePath: process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'rss-tracker.db'),
@@ -144,8 +184,13 @@ function getConfig(): Config {
     jwtSecret,
     jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
 
+    // Login lockout（窗口与锁定时长相同）
+    loginMaxFailuresPerUser: parseInt(process.env.LOGIN_MAX_FAILURES_PER_USER || '5', 10),
+    loginMaxFailuresPerIp: parseInt(process.env.LOGIN_MAX_FAILURES_PER_IP || '20', 10),
+    loginLockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+
     // LLM
-    llmProvider: (process.env.LLM_PROVIDER as 'openai' | 'gemini') || 'openai',
+    llmProvider: (process.env.LLM_PROVIDER as Config['llmProvider']) || 'openai',
     openaiApiKey: process.env.OPENAI_API_KEY,
     openaiBaseUrl: process.env.OPENAI_BASE_URL,
     openaiDefaultModel: process.env.OPENAI_DEFAULT_MODEL || 'gpt-4o-mini',
@@ -230,9 +275,31 @@ function getConfig(): Config {
     rejectedCleanupEnabled: process.env.REJECTED_CLEANUP_ENABLED !== 'false',
     rejectedCleanupSchedule: process.env.REJECTED_CLEANUP_SCHEDULE || '0 8 * * *',
 
+    // Saved Searches
+    savedSearchEnabled: process.env.SAVED_SEARCH_ENABLED !== 'false',
+
+    // Article Job Queue
+    jobQueueConcurrency: parseInt(process.env.JOB_QUEUE_CONCURRENCY || process.env.ARTICLE_PROCESS_MAX_CONCURRENT || '3', 10),
+    jobQueuePollInterval: parseInt(process.env.JOB_QUEUE_POLL_INTERVAL || '5000', 10),
+    jobQueueVisibilityTimeout: parseInt(process.env.JOB_QUEUE_VISIBILITY_TIMEOUT || '600000', 10),
+    jobQueueMaxAttempts: parseInt(process.env.JOB_QUEUE_MAX_ATTEMPTS || '3', 10),
+    jobQueueRetryDelay: parseInt(process.env.JOB_QUEUE_RETRY_DELAY || '60000', 10),
+    jobQueueRetentionDays: parseInt(process.env.JOB_QUEUE_RETENTION_DAYS || '7', 10),
+
+    // Notification Delivery Outbox
+    notificationMaxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '5', 10),
+    notificationRetryDelay: parseInt(process.env.NOTIFICATION_RETRY_DELAY || '60000', 10),
+
+    // Metadata Enrichment
+    enrichProvider: (process.env.ENRICH_PROVIDER as Config['enrichProvider']) || 'none',
+    enrichMailto: process.env.ENRICH_MAILTO,
+    enrichFixturePath: process.env.ENRICH_FIXTURE_PATH,
+    enrichTimeout: parseInt(process.env.ENRICH_TIMEOUT || '15000', 10),
+
     // Chroma
     chromaHost: process.env.CHROMA_HOST || '127.0.0.1',
     chromaPort: parseInt(process.env.CHROMA_PORT || '8000', 10),
+    vectorBackend: process.env.VECTOR_BACKEND || 'chroma',
 
     // DeepSearch
     deepSearchApiUrl: process.env.DEEPSEARCH_API_URL || 'http://localhost:8082',
@@ -1,7 +1,7 @@
 /**
  * Daily Summary Push Scheduler
  *
- * Scheduled daily summary generation and push (WeChat + Telegram).
+ * Scheduled daily summary generation and push (all notification channels).
  * Features:
  * - Configurable schedule (default: 7:00 AM daily)
  * - Supports multiple summary types (journal, blog_news)
@@ -14,8 +14,7 @@ import { BaseScheduler } from './utils/base-scheduler.js';
 import { generateDailySummary, generateJournalAllSummary } from './api/daily-summary-generator.js';
 import { saveDailySummary } from './api/daily-summary-repository.js';
 import type { DailySummaryResult } from './api/daily-summary-repository.js';
-import { getTelegramNotifier } from './telegram/index.js';
-import { getWeChatNotifier } from './wechat/index.js';
+import { buildSummaryEvent, dispatchNotification } from './notifications/index.js';
 
 const log = logger.child({ module: 'daily-summary-scheduler' });
 
@@ -47,47 +46,12 @@ export interface DailySummarySchedulerStatus {
 // Push helpers — explicit notification dispatch
 // ============================================================================
 
-async function pushDailySummaryToAll(result: DailySummaryResult, userId: number): Promise<void> {
-  const { date, type, totalArticles, summary, articlesByType } = result;
-  const counts = {
-    journal: articlesByType.journal.length,
-    blog: articlesByType.blog.length,
-    news: articlesByType.news.length,
-    email: articlesByType.email.length,
-  };
-
-  if (type === 'journal' || type === 'blog_news' || type === 'all') {
-    getTelegramNotifier().sendDailySummary(userId, { date, type, totalArticles, summary, articlesByType: counts })
-      .catch(err => log.warn({ error: err }, 'Failed to send daily summary to Telegram'));
-  }
-
-  getWeChatNotifier().sendDailySummary(userId, { date, type, totalArticles, summary, articlesByType: counts })
-    .catch(err => log.warn({ error: err }, 'Failed to send daily summary to WeChat'));
-}
+async function pushSummaryToChannels(result: DailySummaryResult, userId: number): Promise<void> {
+  const event = buildSummaryEvent(result);
+  if (!event) return;
 
-async function pushJournalAllToAll(result: DailySummaryResult, userId: number): Promise<void> {
-  const { date, totalArticles, summary, articlesByType } = result;
-
-  getTelegramNotifier().sendJournalAllSummary(userId, {
-    date,
-    type: 'journal_all',
-    totalArticles,
-    summary,
-    articlesByType: {
-      journal: articlesByType.journal.length,
-      blog: 0,
-      news: 0,
-      email: 0,
-    },
-  }).catch(err => log.warn({ error: err }, 'Failed to send journal all summary to Telegram'));
-
-  const allArticles = [...articlesByType.journal, ...articlesByType.blog, ...articlesByType.news, ...articlesByType.email];
-  getWeChatNotifier().sendJournalAllSummary(userId, {
-    date,
-    totalArticles,
-    summary,
-    articles: allArticles,
-  }).catch(err => log.warn({ error: err }, 'Failed to send journal all summary to WeChat'));
+  dispatchNotification(userId, event)
+    .catch(err => log.warn({ error: err, type: result.type }, 'Failed to push summary'));
 }
 
 // ============================================================================
@@ -202,7 +166,7 @@ export class DailySummaryScheduler extends BaseScheduler {
                 articlesData: result.articlesByType,
               });
             }
-            await pushJournalAllToAll(result, this.config.userId);
+            await pushSummaryToChannels(result, this.config.userId);
           } else {
             result = await generateDailySummary({
               userId: this.config.userId,
@@ -221,7 +185,7 @@ export class DailySummaryScheduler extends BaseScheduler {
               });
             }
             // Push notifications (pure generate doesn't push)
-            await pushDailySummaryToAll(result, this.config.userId);
+            await pushSummaryToChannels(result, this.config.userId);
           }
 
           results.push({
@@ -319,7 +283,7 @@ export class DailySummaryScheduler extends BaseScheduler {
               articlesData: result.articlesByType,
             });
           }
-          await pushJournalAllToAll(result, this.config.userId);
+          await pushSummaryToChannels(result, this.config.userId);
         } else {
           result = await generateDailySummary({
             userId: this.config.userId,
@@ -336,7 +300,7 @@ export class DailySummaryScheduler extends BaseScheduler {
               articlesData: result.articlesByType,
             });
           }
-          await pushDailySummaryToAll(result, this.config.userId);
+          await pushSummaryToChannels(result, this.config.userId);
         }
 
         log.info(
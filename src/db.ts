@@ -28,15 +28,26 @@ import path from 'path';
 // Database table types
 export interface DatabaseTable {
   users: UsersTable;
+  user_api_tokens: UserApiTokensTable;
+  workspaces: WorkspacesTable;
+  workspace_members: WorkspaceMembersTable;
   rss_sources: RssSourcesTable;
   articles: ArticlesTable;
+  article_source_links: ArticleSourceLinksTable;
+  article_authors: ArticleAuthorsTable;
+  article_identifiers: ArticleIdentifiersTable;
+  article_keywords: ArticleKeywordsTable;
   topic_domains: TopicDomainsTable;
   topic_keywords: TopicKeywordsTable;
   article_filter_logs: ArticleFilterLogsTable;
   article_process_logs: ArticleProcessLogsTable;
+  article_jobs: ArticleJobsTable;
   article_related: ArticleRelatedTable;
   article_translations: ArticleTranslationsTable;
+  articles_fts: ArticlesFtsTable;
   llm_configs: LlmConfigsTable;
+  llm_usage: LlmUsageTable;
+  llm_budgets: LlmBudgetsTable;
   settings: SettingsTable;
   system_prompts: SystemPromptsTable;
   daily_summaries: DailySummariesTable;
@@ -46,6 +57,13 @@ export interface DatabaseTable {
   keyword_subscriptions: KeywordSubscriptionsTable;
   keyword_crawl_logs: KeywordCrawlLogsTable;
   telegram_chats: TelegramChatsTable;
+  wechat_webhooks: WeChatWebhooksTable;
+  notification_channels: NotificationChannelsTable;
+  notification_deliveries: NotificationDeliveriesTable;
+  notification_rules: NotificationRulesTable;
+  notification_digest_items: NotificationDigestItemsTable;
+  saved_searches: SavedSearchesTable;
+  saved_search_matches: SavedSearchMatchesTable;
   deepsearch_tasks: DeepSearchTasksTable;
   email_sources: EmailSourcesTable;
   email_fetch_logs: EmailFetchLogsTable;
@@ -54,14 +72,48 @@ export interface DatabaseTable {
   rejected_articles: RejectedArticlesTable;
   rejected_cleanup_stats: RejectedCleanupStatsTable;
   rejected_cleanup_logs: RejectedCleanupLogsTable;
+  vector_embeddings: VectorEmbeddingsTable;
+  vector_index_versions: VectorIndexVersionsTable;
 }
 
 export interface UsersTable {
-  id: number;
+  id: Generated<number>;
   username: string;
   password_hash: string;
-  created_at: string;
-  updated_at: string;
+  role: Generated<'admin' | 'member' | 'guest'>; // admin：系统管理员；member：普通租户；guest：访客
+  disabled: Generated<number>; // 0 / 1，禁用后无法登录
+  password_changed_at: string | null; // 早于该时间签发的会话失效
+  last_login_at: string | null;
+  created_at: Generated<string>;
+  updated_at: Generated<string>;
+}
+
+export interface UserApiTokensTable {
+  id: Generated<number>;
+  user_id: number;
+  name: string;
+  token_hash: string;
+  token_prefix: string;
+  scopes: string; // JSON array of ApiTokenScope
+  expires_at: string | null;
+  last_used_at: string | null;
+  created_at: Generated<string>;
+}
+
+export interface WorkspacesTable {
+  id: Generated<number>;
+  name: string;
+  owner_user_id: number; // 工作区数据沿用该用户的 user_id
+  created_at: Generated<string>;
+  updated_at: Generated<string>;
+}
+
+export interface WorkspaceMembersTable {
+  id: Generated<number>;
+  workspace_id: number;
+  user_id: number;
+  role: 'owner' | 'editor' | 'reader';
+  created_at: Generated<string>;
 }
 
 export interface RssSourcesTable {
@@ -72,6 +124,8 @@ export interface RssSourcesTable {
   source_type: SourceType;
   domain_id: number;
   last_fetched_at: string | null;
+  etag: string | null;
+  last_modified: string | null;
   fetch_interval: number;
   auto_cleanup_rejected: number;
   status: 'active' | 'inactive';
@@ -89,6 +143,9 @@ export interface ArticlesTable {
   title: string;
   title_normalized: string | null;
   url: string;
+  guid: string | null;
+  canonical_url: string | null;
+  content_hash: string | null;
   summary: string | null;
   content: string | null;
   markdown_content: string | null;
@@ -102,6 +159,11 @@ export interface ArticlesTable {
   published_year: number | null;
   published_issue: number | null;
   published_volume: number | null;
+  doi: string | null;
+  venue: string | null;
+  citation_count: number | null;
+  oa_pdf_url: string | null;
+  enriched_at: string | null;
   error_message: string | null;
   is_read: number;
   source_origin: 'rss' | 'journal' | 'keyword' | 'email' | 'web';
@@ -111,6 +173,45 @@ export interface ArticlesTable {
   updated_at: string;
 }
 
+export interface ArticleSourceLinksTable {
+  id: Generated<number>;
+  article_id: number;
+  source_origin: 'rss' | 'journal' | 'keyword' | 'email' | 'web';
+  source_id: number;
+  url: string | null;
+  guid: string | null;
+  matched_by: 'doi' | 'guid' | 'url' | 'content_hash' | 'title';
+  created_at: Generated<string>;
+}
+
+export interface ArticleAuthorsTable {
+  id: Generated<number>;
+  article_id: number;
+  position: number;
+  name: string;
+  name_normalized: string;
+  affiliation: string | null;
+  orcid: string | null;
+  created_at: Generated<string>;
+}
+
+export interface ArticleIdentifiersTable {
+  id: Generated<number>;
+  article_id: number;
+  scheme: 'doi' | 'pmid' | 'arxiv' | 'isbn' | 'issn' | 'cnki';
+  value: string;
+  created_at: Generated<string>;
+}
+
+export interface ArticleKeywordsTable {
+  id: Generated<number>;
+  article_id: number;
+  keyword: string;
+  keyword_normalized: string;
+  source: 'author' | 'feed';
+  created_at: Generated<string>;
+}
+
 export interface TopicDomainsTable {
   id: number;
   user_id: number;
@@ -149,7 +250,7 @@ export interface ArticleProcessLogsTable {
   id: Generated<number>;
   user_id: number;
   article_id: number;
-  stage: 'markdown' | 'translate' | 'vector' | 'related' | 'pipeline_complete';
+  stage: string;  // 流水线阶段名（见 src/pipeline/registry.ts）或 pipeline_complete
   status: 'processing' | 'completed' | 'failed' | 'skipped';
   duration_ms: number | null;
   error_message: string | null;
@@ -157,6 +258,23 @@ export interface ArticleProcessLogsTable {
   created_at: Generated<string>;
 }
 
+export interface ArticleJobsTable {
+  id: Generated<number>;
+  user_id: number;
+  article_id: number;
+  source: 'rss' | 'journal' | 'keyword' | 'email' | 'web' | 'api' | 'recovery';
+  status: 'queued' | 'leased' | 'completed' | 'dead';
+  attempts: Generated<number>;
+  max_attempts: Generated<number>;
+  available_at: string;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  last_error: string | null;
+  created_at: Generated<string>;
+  updated_at: string;
+  completed_at: string | null;
+}
+
 export interface ArticleRelatedTable {
   article_id: number;
   related_article_id: number;
@@ -174,6 +292,17 @@ export interface ArticleTranslationsTable {
   updated_at: string;
 }
 
+/**
+ * FTS5 full-text index of articles (rowid = articles.id, synced by triggers; read-only for application code)
+ */
+export interface ArticlesFtsTable {
+  rowid: number;
+  title: string;
+  title_zh: string | null;
+  summary_zh: string | null;
+  content: string | null;
+}
+
 export interface LlmConfigsTable {
   id: number;
   user_id: number;
@@ -189,10 +318,45 @@ export interface LlmConfigsTable {
   timeout: number;
   max_retries: number;
   max_concurrent: number;
+  input_price: number | null;
+  output_price: number | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface LlmUsageTable {
+  id: Generated<number>;
+  user_id: number | null;
+  config_id: number | null;
+  task_type: string | null;
+  label: string | null;
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number | null;
+  latency_ms: number;
+  streamed: number;
+  success: number;
+  error: string | null;
+  created_at: Generated<string>;
+}
+
+export interface LlmBudgetsTable {
+  id: Generated<number>;
+  user_id: number;
+  task_type: string | null;
+  config_id: number | null;
+  monthly_token_limit: number | null;
+  monthly_cost_limit: number | null;
+  action: 'block' | 'downgrade';
+  downgrade_config_id: number | null;
+  enabled: Generated<number>;
+  created_at: Generated<string>;
+  updated_at: string;
+}
+
 export interface SettingsTable {
   id: number;
   user_id: number;
@@ -262,7 +426,7 @@ export interface RssFetchLogsTable {
   id: Generated<number>;
   user_id: number;
   rss_source_id: number;
-  status: 'success' | 'failed' | 'partial';
+  status: 'success' | 'failed' | 'partial' | 'not_modified';
   articles_count: number;
   new_articles_count: number;
   duration_ms: number | null;
@@ -317,10 +481,120 @@ export interface TelegramChatsTable {
   insights: number;
   pdf_summary: number;
   is_active: number;
+  is_paused: Generated<number>; // /pause 暂停推送，命令查询不受影响
+  created_at: Generated<string>;
+  updated_at: string;
+}
+
+export interface WeChatWebhooksTable {
+  id: Generated<number>;
+  user_id: number;
+  name: string;
+  url_encrypted: string; // AES-256-GCM，与 llm_configs.api_key_encrypted 相同
+  url_hint: string; // 脱敏展示值
+  daily_summary_journal: number;
+  daily_summary_blog_news: number;
+  journal_all: number;
+  new_articles: number;
+  insights: number;
+  pdf_summary: number;
+  is_active: number;
+  created_at: Generated<string>;
+  updated_at: Generated<string>;
+}
+
+export interface NotificationChannelsTable {
+  id: Generated<number>;
+  user_id: number;
+  type: 'slack' | 'discord' | 'webhook' | 'email';
+  name: string;
+  config_encrypted: string; // 渠道配置 JSON，AES-256-GCM
+  config_hint: Generated<string>; // 脱敏展示值
+  daily_summary_journal: number;
+  daily_summary_blog_news: number;
+  journal_all: number;
+  new_articles: number;
+  insights: number;
+  pdf_summary: number;
+  is_active: number;
+  created_at: Generated<string>;
+  updated_at: Generated<string>;
+}
+
+export interface NotificationDeliveriesTable {
+  id: Generated<number>;
+  user_id: number;
+  channel: string; // telegram / wechat / slack / discord / webhook / email
+  recipient: string;
+  recipient_name: string | null;
+  event_type: string;
+  event_key: string;
+  idempotency_key: string;
+  payload_json: string; // 渲染后的消息，重试时原样发送
+  payload_hash: string;
+  status: 'pending' | 'sending' | 'sent' | 'failed';
+  attempts: Generated<number>;
+  max_attempts: Generated<number>;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: Generated<string>;
+  updated_at: string;
+}
+
+export interface NotificationRulesTable {
+  id: Generated<number>;
+  user_id: number;
+  channel: string;
+  recipient: string;
+  quiet_hours_start: string | null; // HH:MM（用户时区），可跨午夜
+  quiet_hours_end: string | null;
+  digest_interval: Generated<number>; // 分钟，0 = 逐篇推送
+  max_per_hour: Generated<number>; // 0 = 不限
+  min_score: number | null; // 最低 filter_score（0-1）
+  domain_ids: string | null; // 主题领域 ID JSON 数组，NULL = 全部
+  created_at: Generated<string>;
+  updated_at: string;
+}
+
+export interface NotificationDigestItemsTable {
+  id: Generated<number>;
+  user_id: number;
+  channel: string;
+  recipient: string;
+  article_id: number;
+  reason: 'quiet_hours' | 'digest' | 'rate_limit';
+  created_at: Generated<string>;
+}
+
+export interface SavedSearchesTable {
+  id: Generated<number>;
+  user_id: number;
+  name: string;
+  query: string;
+  mode: 'semantic' | 'keyword' | 'hybrid';
+  semantic_weight: Generated<number>;
+  keyword_weight: Generated<number>;
+  min_score: Generated<number>; // 语义匹配最低相似度
+  filters: string | null; // JSON: { sourceOrigins?, passedOnly? }
+  notify_channels: string | null; // JSON 数组：telegram / wechat
+  is_active: Generated<number>;
+  last_checked_at: string | null; // 已检查到的文章 processed_at
   created_at: Generated<string>;
   updated_at: string;
 }
 
+export interface SavedSearchMatchesTable {
+  id: Generated<number>;
+  saved_search_id: number;
+  article_id: number;
+  score: number;
+  semantic_score: number | null;
+  keyword_matched: Generated<number>;
+  is_read: Generated<number>;
+  created_at: Generated<string>;
+}
+
 export interface EmailSourcesTable {
   id: Generated<number>;
   user_id: number;
@@ -346,6 +620,9 @@ export interface RejectedArticlesTable {
   title: string;
   title_normalized: string | null;
   url: string;
+  guid: string | null;
+  canonical_url: string | null;
+  content_hash: string | null;
   summary: string | null;
   content: string | null;
   markdown_content: string | null;
@@ -359,6 +636,7 @@ export interface RejectedArticlesTable {
   published_year: number | null;
   published_issue: number | null;
   published_volume: number | null;
+  doi: string | null;
   error_message: string | null;
   is_read: number | null;
   source_origin: string | null;
@@ -395,6 +673,46 @@ export interface RejectedCleanupLogsTable {
   created_at: Generated<string>;
 }
 
+// 嵌入式向量存储（vector/sqlite-store.ts）
+export interface VectorEmbeddingsTable {
+  collection: string;
+  vector_id: string; // "{user_id}:{article_id}"
+  user_id: number;
+  article_id: number;
+  dimensions: number;
+  norm: number; // embedding 的 L2 范数
+  embedding: Buffer; // Float32 小端
+  document: Generated<string>;
+  metadata: Generated<string>; // JSON: { article_id, user_id, index_version?, embedding_model, text_version }
+  created_at: Generated<string>;
+  updated_at: Generated<string>;
+}
+
+// 向量索引版本（vector/index-versions.ts）
+export interface VectorIndexVersionsTable {
+  id: Generated<number>;
+  user_id: number;
+  backend: 'chroma' | 'sqlite';
+  collection: string; // 物理集合名：{chroma_collection}_v{id}
+  distance_metric: Generated<'cosine' | 'l2' | 'ip'>;
+  embedding_config_id: number | null; // 固定使用的 embedding 配置（删除后为 null）
+  embedding_model: string;
+  dimensions: number | null; // 首批向量写入后记录
+  text_version: number; // buildVectorText 版本（TEXT_BUILDER_VERSION）
+  status: Generated<'building' | 'paused' | 'completed' | 'active' | 'retired' | 'cancelled' | 'failed'>;
+  total_articles: Generated<number>;
+  processed_articles: Generated<number>;
+  failed_articles: Generated<number>;
+  cursor_article_id: Generated<number>; // 已处理到的文章 ID（断点续跑）
+  batch_size: Generated<number>;
+  batch_delay_ms: Generated<number>;
+  error_message: string | null;
+  created_at: Generated<string>;
+  updated_at: Generated<string>;
+  completed_at: string | null;
+  activated_at: string | null;
+}
+
 export interface EmailFetchLogsTable {
   id: Generated<number>;
   email_source_id: number;
@@ -444,6 +762,7 @@ export interface DeepSearchTasksTable {
   score_threshold: number;
   max_final_articles: number;
   skip_pdf_summary: number;
+  filters_json: string | null; // SearchFilters JSON，NULL = 不筛选
   external_task_id: string | null;
   status: 'pending' | 'running' | 'completed' | 'failed';
   result_report_path: string | null;
@@ -464,12 +783,22 @@ export type DB = Kysely<DatabaseTable>;
 
 // Selection result types (unwraps Generated<T> to T)
 export type UsersSelection = SelectionType<UsersTable>;
+export type UserApiTokensSelection = SelectionType<UserApiTokensTable>;
+export type WorkspacesSelection = SelectionType<WorkspacesTable>;
+export type WorkspaceMembersSelection = SelectionType<WorkspaceMembersTable>;
 export type RssSourcesSelection = SelectionType<RssSourcesTable>;
 export type ArticlesSelection = SelectionType<ArticlesTable>;
+export type ArticleSourceLinksSelection = SelectionType<ArticleSourceLinksTable>;
+export type ArticleAuthorsSelection = SelectionType<ArticleAuthorsTable>;
+export type ArticleIdentifiersSelection = SelectionType<ArticleIdentifiersTable>;
+export type ArticleKeywordsSelection = SelectionType<ArticleKeywordsTable>;
 export type TopicDomainsSelection = SelectionType<TopicDomainsTable>;
 export type TopicKeywordsSelection = SelectionType<TopicKeywordsTable>;
 export type ArticleFilterLogsSelection = SelectionType<ArticleFilterLogsTable>;
 export type ArticleProcessLogsSelection = SelectionType<ArticleProcessLogsTable>;
+export type ArticleJobsSelection = SelectionType<ArticleJobsTable>;
+export type LlmUsageSelection = SelectionType<LlmUsageTable>;
+export type LlmBudgetsSelection = SelectionType<LlmBudgetsTable>;
 export type DailySummariesSelection = SelectionType<DailySummariesTable>;
 export type JournalsSelection = SelectionType<JournalsTable>;
 export type JournalCrawlLogsSelection = SelectionType<JournalCrawlLogsTable>;
@@ -477,6 +806,14 @@ export type RssFetchLogsSelection = SelectionType<RssFetchLogsTable>;
 export type KeywordSubscriptionsSelection = SelectionType<KeywordSubscriptionsTable>;
 export type KeywordCrawlLogsSelection = SelectionType<KeywordCrawlLogsTable>;
 export type TelegramChatsSelection = SelectionType<TelegramChatsTable>;
+export type WeChatWebhooksSelection = SelectionType<WeChatWebhooksTable>;
+export type NotificationChannelsSelection = SelectionType<NotificationChannelsTable>;
+export type NotificationDeliveriesSelection = SelectionType<NotificationDeliveriesTable>;
+export type NotificationRulesSelection = SelectionType<NotificationRulesTable>;
+export type NotificationDigestItemsSelection = SelectionType<NotificationDigestItemsTable>;
+export type SavedSearchesSelection = SelectionType<SavedSearchesTable>;
+export type SavedSearchMatchesSelection = SelectionType<SavedSearchMatchesTable>;
+export type VectorIndexVersionsSelection = SelectionType<VectorIndexVersionsTable>;
 export type DeepSearchTasksSelection = SelectionType<DeepSearchTasksTable>;
 export type EmailFetchLogsSelection = SelectionType<EmailFetchLogsTable>;
 export type WebSourcesSelection = SelectionType<WebSourcesTable>;
@@ -0,0 +1,113 @@
+/**
+ * Crossref bibliographic provider
+ *
+ * API: https://api.crossref.org/works
+ * Crossref 不提供可靠的 OA 标记，openAccessPdfUrl 仅在 link 中带有
+ * 非 text-mining 用途的 PDF 链接时填充。
+ */
+
+import { normalizeDoi } from '../utils/doi.js';
+import { fetchJson } from './http.js';
+import type { BibliographicLookup, BibliographicProvider, BibliographicRecord } from './types.js';
+
+const CROSSREF_API_URL = 'https://api.crossref.org';
+
+interface CrossrefWork {
+  DOI?: string;
+  title?: string[];
+  abstract?: string;
+  author?: Array<{
+    given?: string;
+    family?: string;
+    name?: string;
+    ORCID?: string;
+    affiliation?: Array<{ name?: string }>;
+  }>;
+  'container-title'?: string[];
+  issued?: { 'date-parts'?: Array<Array<number | null>> };
+  'is-referenced-by-count'?: number;
+  link?: Array<{ URL?: string; 'content-type'?: string; 'intended-application'?: string }>;
+}
+
+/**
+ * Strip JATS markup from Crossref abstract
+ */
+function stripJats(abstract: string | undefined): string | null {
+  if (!abstract) return null;
+  const text = abstract
+    .replace(/<jats:title>[\s\S]*?<\/jats:title>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text || null;
+}
+
+function toRecord(work: CrossrefWork): BibliographicRecord {
+  const pdfLink = (work.link ?? []).find((link) =>
+    link['content-type'] === 'application/pdf' && link['intended-application'] !== 'text-mining'
+  );
+
+  return {
+    doi: normalizeDoi(work.DOI),
+    title: work.title?.[0] || null,
+    abstract: stripJats(work.abstract),
+    authors: (work.author ?? [])
+      .map((author) => ({
+        name: author.name || [author.given, author.family].filter(Boolean).join(' '),
+        affiliation: author.affiliation?.[0]?.name || null,
+        orcid: author.ORCID?.replace(/^https?:\/\/orcid\.org\//, '') || null,
+      }))
+      .filter((author) => author.name),
+    venue: work['container-title']?.[0] || null,
+    publishedYear: work.issued?.['date-parts']?.[0]?.[0] ?? null,
+    citationCount: work['is-referenced-by-count'] ?? null,
+    openAccessPdfUrl: pdfLink?.URL || null,
+  };
+}
+
+export class CrossrefProvider implements BibliographicProvider {
+  readonly name = 'crossref';
+
+  constructor(
+    private readonly options: { mailto?: string; timeout: number },
+  ) {}
+
+  private buildUrl(path: string, params: Record<string, string> = {}): string {
+    const url = new URL(`${CROSSREF_API_URL}${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    if (this.options.mailto) {
+      url.searchParams.set('mailto', this.options.mailto);
+    }
+    return url.toString();
+  }
+
+  async lookup(query: BibliographicLookup): Promise<BibliographicRecord | null> {
+    const doi = normalizeDoi(query.doi);
+    if (doi) {
+      const result = await fetchJson<{ message?: CrossrefWork }>(
+        this.buildUrl(`/works/${encodeURIComponent(doi)}`),
+        this.options.timeout,
+      );
+      if (result?.message) return toRecord(result.message);
+    }
+
+    if (!query.title) return null;
+
+    const params: Record<string, string> = {
+      'query.bibliographic': query.title,
+      rows: '1',
+    };
+    if (query.publishedYear) {
+      params.filter = `from-pub-date:${query.publishedYear},until-pub-date:${query.publishedYear}`;
+    }
+
+    const result = await fetchJson<{ message?: { items?: CrossrefWork[] } }>(
+      this.buildUrl('/works', params),
+      this.options.timeout,
+    );
+    const work = result?.message?.items?.[0];
+    return work ? toRecord(work) : null;
+  }
+}
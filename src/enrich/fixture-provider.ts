@@ -0,0 +1,61 @@
+/**
+ * Fixture bibliographic provider
+ *
+ * 从本地 JSON 文件读取书目记录，按 DOI / 标题匹配，不访问网络。
+ * 用于离线开发和测试 enrich 阶段。文件格式为 BibliographicRecord 数组：
+ *
+ *   [{ "doi": "10.1000/xyz", "title": "...", "abstract": "...", "authors": [{ "name": "..." }],
+ *      "venue": "...", "publishedYear": 2024, "citationCount": 3, "openAccessPdfUrl": null }]
+ */
+
+import { readFileSync } from 'fs';
+import { normalizeMetadataText } from '../api/article-metadata.js';
+import { normalizeDoi } from '../utils/doi.js';
+import type { BibliographicLookup, BibliographicProvider, BibliographicRecord } from './types.js';
+
+export class FixtureProvider implements BibliographicProvider {
+  readonly name = 'fixture';
+
+  private readonly byDoi = new Map<string, BibliographicRecord>();
+  private readonly byTitle = new Map<string, BibliographicRecord>();
+
+  constructor(records: Array<Partial<BibliographicRecord>>) {
+    for (const raw of records) {
+      const record: BibliographicRecord = {
+        doi: normalizeDoi(raw.doi),
+        title: raw.title ?? null,
+        abstract: raw.abstract ?? null,
+        authors: raw.authors ?? [],
+        venue: raw.venue ?? null,
+        publishedYear: raw.publishedYear ?? null,
+        citationCount: raw.citationCount ?? null,
+        openAccessPdfUrl: raw.openAccessPdfUrl ?? null,
+      };
+      if (record.doi) this.byDoi.set(record.doi, record);
+      if (record.title) this.byTitle.set(normalizeMetadataText(record.title), record);
+    }
+  }
+
+  /**
+   * Load fixture records from JSON file
+   * @throws Error if file is missing or not a JSON array
+   */
+  static fromFile(path: string): FixtureProvider {
+    const records = JSON.parse(readFileSync(path, 'utf-8'));
+    if (!Array.isArray(records)) {
+      throw new Error(`Enrich fixture must be a JSON array: ${path}`);
+    }
+    return new FixtureProvider(records);
+  }
+
+  async lookup(query: BibliographicLookup): Promise<BibliographicRecord | null> {
+    const doi = normalizeDoi(query.doi);
+    if (doi && this.byDoi.has(doi)) {
+      return this.byDoi.get(doi)!;
+    }
+    if (query.title) {
+      return this.byTitle.get(normalizeMetadataText(query.title)) ?? null;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * HTTP helper for bibliographic providers
+ */
+
+import { ProxyAgent } from 'undici';
+import { config } from '../config.js';
+
+let proxyAgent: ProxyAgent | null | undefined;
+
+function getProxyAgent(): ProxyAgent | null {
+  if (proxyAgent === undefined) {
+    proxyAgent = config.httpProxy ? new ProxyAgent(config.httpProxy) : null;
+  }
+  return proxyAgent;
+}
+
+/**
+ * GET JSON from provider API
+ * @returns Parsed JSON, or null on 404
+ * @throws Error on other non-2xx responses or timeout
+ */
+export async function fetchJson<T>(url: string, timeoutMs: number): Promise<T | null> {
+  const fetchOptions: any = {
+    headers: {
+      'Accept': 'application/json',
+      'User-Agent': 'rss-tracker/1.0 (metadata enrichment)',
+    },
+    signal: AbortSignal.timeout(timeoutMs),
+  };
+
+  const agent = getProxyAgent();
+  if (agent) {
+    fetchOptions.dispatcher = agent;
+  }
+
+  const response = await fetch(url, fetchOptions);
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  return (await response.json()) as T;
+}
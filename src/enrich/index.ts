@@ -0,0 +1,218 @@
+/**
+ * Bibliographic Metadata Enrichment
+ *
+ * 流水线 enrich 阶段：按 DOI（优先）或标题向书目服务查询，
+ * 补全摘要、作者、期刊/会议、被引次数和 OA PDF 链接。
+ * 只填充文章中缺失的字段，不覆盖来源提供的数据（被引次数除外，每次刷新）。
+ */
+
+import { getDb } from '../db.js';
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { getArticleMetadata, normalizeMetadataText, saveArticleMetadata } from '../api/article-metadata.js';
+import { normalizeDoi } from '../utils/doi.js';
+import { CrossrefProvider } from './crossref-provider.js';
+import { FixtureProvider } from './fixture-provider.js';
+import { OpenAlexProvider } from './openalex-provider.js';
+import type { BibliographicProvider, BibliographicRecord } from './types.js';
+
+export type { BibliographicAuthor, BibliographicLookup, BibliographicProvider, BibliographicRecord } from './types.js';
+export { CrossrefProvider } from './crossref-provider.js';
+export { FixtureProvider } from './fixture-provider.js';
+export { OpenAlexProvider } from './openalex-provider.js';
+
+const log = logger.child({ module: 'enrich' });
+
+/**
+ * 标题检索时要求的最短标题长度（过短的标题误匹配率高）
+ */
+const MIN_TITLE_LENGTH = 12;
+
+/**
+ * 标题检索结果的最低词重合度（Jaccard）
+ */
+const TITLE_MATCH_THRESHOLD = 0.85;
+
+/**
+ * Enrichment result
+ */
+export interface EnrichResult {
+  status: 'completed' | 'skipped';
+  provider: string;
+  matchedBy?: 'doi' | 'title';
+  updatedFields: string[];
+  reason?: string;
+}
+
+let providerInstance: BibliographicProvider | null | undefined;
+
+function createProvider(): BibliographicProvider | null {
+  const options = { mailto: config.enrichMailto, timeout: config.enrichTimeout };
+
+  switch (config.enrichProvider) {
+    case 'openalex':
+      return new OpenAlexProvider(options);
+    case 'crossref':
+      return new CrossrefProvider(options);
+    case 'fixture':
+      if (!config.enrichFixturePath) {
+        log.warn('ENRICH_PROVIDER=fixture but ENRICH_FIXTURE_PATH is not set, enrichment disabled');
+        return null;
+      }
+      try {
+        return FixtureProvider.fromFile(config.enrichFixturePath);
+      } catch (error) {
+        log.warn({ error, path: config.enrichFixturePath }, 'Failed to load enrich fixture, enrichment disabled');
+        return null;
+      }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get configured bibliographic provider
+ * @returns Provider instance, or null if enrichment is disabled
+ */
+export function getBibliographicProvider(): BibliographicProvider | null {
+  if (providerInstance === undefined) {
+    providerInstance = createProvider();
+    if (providerInstance) {
+      log.info({ provider: providerInstance.name }, 'Bibliographic provider initialized');
+    }
+  }
+  return providerInstance;
+}
+
+/**
+ * Override bibliographic provider (e.g. with a fixture provider for offline runs)
+ * @param provider - Provider instance, null to disable, undefined to reset to config
+ */
+export function setBibliographicProvider(provider: BibliographicProvider | null | undefined): void {
+  providerInstance = provider;
+}
+
+function titleTokens(title: string): Set<string> {
+  return new Set(
+    normalizeMetadataText(title)
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Check whether a title-search result refers to the same work
+ */
+function titlesMatch(expected: string, actual: string | null): boolean {
+  if (!actual) return false;
+
+  const a = titleTokens(expected);
+  const b = titleTokens(actual);
+  if (a.size === 0 || b.size === 0) return false;
+
+  let intersection = 0;
+  for (const token of a) {
+    if (b.has(token)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection) >= TITLE_MATCH_THRESHOLD;
+}
+
+/**
+ * Enrich a single article with bibliographic metadata
+ *
+ * @param articleId - Article ID
+ * @returns Enrichment result (skipped when no match is found)
+ * @throws Error on provider failures (network, HTTP 5xx) so callers can retry
+ */
+export async function enrichArticle(articleId: number): Promise<EnrichResult> {
+  const provider = getBibliographicProvider();
+  if (!provider) {
+    return { status: 'skipped', provider: 'none', updatedFields: [], reason: 'No provider configured' };
+  }
+
+  const db = getDb();
+  const article = await db
+    .selectFrom('articles')
+    .where('id', '=', articleId)
+    .select(['id', 'title', 'content', 'doi', 'published_year', 'venue', 'oa_pdf_url', 'citation_count'])
+    .executeTakeFirst();
+
+  if (!article) {
+    throw new Error('Article not found');
+  }
+
+  const doi = normalizeDoi(article.doi);
+  const title = article.title?.trim() ?? '';
+  if (!doi && title.length < MIN_TITLE_LENGTH) {
+    return { status: 'skipped', provider: provider.name, updatedFields: [], reason: 'No DOI and title too short' };
+  }
+
+  const record: BibliographicRecord | null = await provider.lookup({
+    doi,
+    title: title || null,
+    publishedYear: article.published_year,
+  });
+
+  if (!record) {
+    return { status: 'skipped', provider: provider.name, updatedFields: [], reason: 'No matching record' };
+  }
+
+  const matchedBy = doi && record.doi === doi ? 'doi' : 'title';
+  if (matchedBy === 'title' && !titlesMatch(title, record.title)) {
+    log.debug({ articleId, title, candidate: record.title }, 'Title search result does not match');
+    return { status: 'skipped', provider: provider.name, updatedFields: [], reason: 'No matching record' };
+  }
+
+  const updates: {
+    content?: string;
+    doi?: string;
+    published_year?: number;
+    venue?: string;
+    citation_count?: number;
+    oa_pdf_url?: string;
+  } = {};
+
+  if (!article.content?.trim() && record.abstract) {
+    updates.content = record.abstract;
+  }
+  if (!doi && record.doi) {
+    updates.doi = record.doi;
+  }
+  if (!article.published_year && record.publishedYear) {
+    updates.published_year = record.publishedYear;
+  }
+  if (!article.venue && record.venue) {
+    updates.venue = record.venue;
+  }
+  if (record.citationCount !== null && record.citationCount !== article.citation_count) {
+    updates.citation_count = record.citationCount;
+  }
+  if (!article.oa_pdf_url && record.openAccessPdfUrl) {
+    updates.oa_pdf_url = record.openAccessPdfUrl;
+  }
+
+  const updatedFields: string[] = Object.keys(updates);
+  const now = new Date().toISOString();
+
+  await db
+    .updateTable('articles')
+    .set({ ...updates, enriched_at: now, updated_at: now })
+    .where('id', '=', articleId)
+    .execute();
+
+  // 作者只在来源没有提供时补全，避免与 feed 中的作者顺序冲突
+  const existing = await getArticleMetadata(articleId);
+  const fillAuthors = existing.authors.length === 0 && record.authors.length > 0;
+  if (fillAuthors) {
+    updatedFields.push('authors');
+  }
+  await saveArticleMetadata(articleId, {
+    authors: fillAuthors ? record.authors : null,
+    identifiers: [{ scheme: 'doi', value: record.doi }],
+  });
+
+  log.debug({ articleId, provider: provider.name, matchedBy, updatedFields }, 'Article enriched');
+
+  return { status: 'completed', provider: provider.name, matchedBy, updatedFields };
+}
@@ -0,0 +1,115 @@
+/**
+ * OpenAlex bibliographic provider
+ *
+ * API: https://api.openalex.org/works
+ * 摘要以倒排索引（abstract_inverted_index）形式返回，需要还原为原文。
+ */
+
+import { normalizeDoi } from '../utils/doi.js';
+import { fetchJson } from './http.js';
+import type { BibliographicLookup, BibliographicProvider, BibliographicRecord } from './types.js';
+
+const OPENALEX_API_URL = 'https://api.openalex.org';
+
+interface OpenAlexWork {
+  doi?: string | null;
+  display_name?: string | null;
+  title?: string | null;
+  publication_year?: number | null;
+  cited_by_count?: number | null;
+  abstract_inverted_index?: Record<string, number[]> | null;
+  authorships?: Array<{
+    author?: { display_name?: string | null; orcid?: string | null } | null;
+    institutions?: Array<{ display_name?: string | null }> | null;
+    raw_affiliation_strings?: string[] | null;
+  }> | null;
+  primary_location?: { source?: { display_name?: string | null } | null } | null;
+  open_access?: { oa_url?: string | null } | null;
+  best_oa_location?: { pdf_url?: string | null } | null;
+}
+
+/**
+ * Rebuild abstract text from OpenAlex inverted index
+ */
+function rebuildAbstract(index: Record<string, number[]> | null | undefined): string | null {
+  if (!index) return null;
+
+  const words: string[] = [];
+  for (const [word, positions] of Object.entries(index)) {
+    for (const position of positions) {
+      words[position] = word;
+    }
+  }
+
+  const text = words.filter((word) => word !== undefined).join(' ').trim();
+  return text || null;
+}
+
+function toRecord(work: OpenAlexWork): BibliographicRecord {
+  return {
+    doi: normalizeDoi(work.doi),
+    title: work.display_name || work.title || null,
+    abstract: rebuildAbstract(work.abstract_inverted_index),
+    authors: (work.authorships ?? [])
+      .filter((authorship) => authorship.author?.display_name)
+      .map((authorship) => ({
+        name: authorship.author!.display_name!,
+        affiliation: authorship.institutions?.[0]?.display_name
+          || authorship.raw_affiliation_strings?.[0]
+          || null,
+        orcid: authorship.author!.orcid?.replace(/^https?:\/\/orcid\.org\//, '') || null,
+      })),
+    venue: work.primary_location?.source?.display_name || null,
+    publishedYear: work.publication_year ?? null,
+    citationCount: work.cited_by_count ?? null,
+    openAccessPdfUrl: work.best_oa_location?.pdf_url || work.open_access?.oa_url || null,
+  };
+}
+
+export class OpenAlexProvider implements BibliographicProvider {
+  readonly name = 'openalex';
+
+  constructor(
+    private readonly options: { mailto?: string; timeout: number },
+  ) {}
+
+  private buildUrl(path: string, params: Record<string, string> = {}): string {
+    const url = new URL(`${OPENALEX_API_URL}${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    if (this.options.mailto) {
+      url.searchParams.set('mailto', this.options.mailto);
+    }
+    return url.toString();
+  }
+
+  async lookup(query: BibliographicLookup): Promise<BibliographicRecord | null> {
+    const doi = normalizeDoi(query.doi);
+    if (doi) {
+      const work = await fetchJson<OpenAlexWork>(
+        this.buildUrl(`/works/doi:${encodeURIComponent(doi)}`),
+        this.options.timeout,
+      );
+      if (work) return toRecord(work);
+    }
+
+    if (!query.title) return null;
+
+    // 标题中的逗号会被 filter 语法解析为分隔符
+    const params: Record<string, string> = {
+      filter: `title.search:${query.title.replace(/[,:|]/g, ' ')}`,
+      'per-page': '1',
+    };
+    if (query.publishedYear) {
+      params.filter += `,publication_year:${query.publishedYear}`;
+    }
+
+    const result = await fetchJson<{ results?: OpenAlexWork[] }>(
+      this.buildUrl('/works', params),
+      this.options.timeout,
+    );
+    const work = result?.results?.[0];
+    return work ? toRecord(work) : null;
+  }
+}
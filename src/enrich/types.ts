@@ -0,0 +1,46 @@
+/**
+ * Bibliographic metadata enrichment types
+ */
+
+/**
+ * Author returned by a bibliographic provider
+ */
+export interface BibliographicAuthor {
+  name: string;
+  affiliation?: string | null;
+  orcid?: string | null;
+}
+
+/**
+ * Normalized bibliographic record (provider-independent)
+ */
+export interface BibliographicRecord {
+  doi: string | null;
+  title: string | null;
+  abstract: string | null;
+  authors: BibliographicAuthor[];
+  venue: string | null;
+  publishedYear: number | null;
+  citationCount: number | null;
+  openAccessPdfUrl: string | null;
+}
+
+/**
+ * Lookup query (DOI preferred, title as fallback)
+ */
+export interface BibliographicLookup {
+  doi?: string | null;
+  title?: string | null;
+  publishedYear?: number | null;
+}
+
+/**
+ * Pluggable bibliographic metadata provider
+ *
+ * 实现方只需按 DOI / 标题返回最佳匹配记录，找不到时返回 null；
+ * 网络错误等可重试的失败应直接抛出。
+ */
+export interface BibliographicProvider {
+  readonly name: string;
+  lookup(query: BibliographicLookup): Promise<BibliographicRecord | null>;
+}
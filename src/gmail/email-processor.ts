@@ -1,8 +1,10 @@
 import { getDb } from '../db.js';
 import { logger } from '../logger.js';
-import { generateNormalizedTitle } from '../utils/title.js';
+import { buildArticleFingerprint } from '../utils/article-fingerprint.js';
+import { resolveDuplicate } from '../api/article-dedup.js';
+import { saveArticleMetadata } from '../api/article-metadata.js';
 import { filterArticle, type FilterInput } from '../filter.js';
-import { processArticle } from '../pipeline.js';
+import { enqueueArticleJob } from '../api/article-jobs.js';
 import { config } from '../config.js';
 import { decryptAPIKey } from '../utils/crypto.js';
 import { parseLLMJSON } from '../utils/llm-json-parser.js';
@@ -150,30 +152,24 @@ export async function processEmailSource(source: EmailSourceConfig): Promise<Ema
 
         for (const article of parsedArticles) {
           try {
-            const titleNormalized = generateNormalizedTitle(article.title);
             const title = article.title;
+            const content = article.content ?? '';
+            const url = article.url || email.messageId;
 
-            if (titleNormalized) {
-              const existing = await db
-                .selectFrom('articles')
-                .where('title_normalized', '=', titleNormalized)
-                .select('id')
-                .executeTakeFirst();
-
-              if (existing) continue;
+            const fingerprint = buildArticleFingerprint({
+              title,
+              url,
+              abstract: article.summary || content,
+            });
+            const titleNormalized = fingerprint.titleNormalized;
 
-              // Also check rejected_articles archive (articles cleaned up by auto-cleanup)
-              const rejectedExists = await db
-                .selectFrom('rejected_articles')
-                .where('title_normalized', '=', titleNormalized)
-                .select('id')
-                .executeTakeFirst();
+            const duplicate = await resolveDuplicate(
+              fingerprint,
+              { origin: 'email', sourceId: source.id },
+              { url }
+            );
 
-              if (rejectedExists) continue;
-            }
-
-            const content = article.content ?? '';
-            const url = article.url || email.messageId;
+            if (duplicate) continue;
 
             const articleId = await db
               .insertInto('articles')
@@ -182,6 +178,8 @@ export async function processEmailSource(source: EmailSourceConfig): Promise<Ema
                 title,
                 title_normalized: titleNormalized,
                 url,
+                canonical_url: fingerprint.canonicalUrl,
+                content_hash: fingerprint.contentHash,
                 content,
                 source_origin: 'email',
                 filter_status: 'pending',
@@ -196,6 +194,8 @@ export async function processEmailSource(source: EmailSourceConfig): Promise<Ema
             const insertedId = Number(articleId.insertId);
             articlesNew++;
 
+            await saveArticleMetadata(insertedId, { authors: article.author });
+
             process.nextTick(async () => {
               try {
                 const filterInput: FilterInput = {
@@ -209,7 +209,7 @@ export async function processEmailSource(source: EmailSourceConfig): Promise<Ema
                 };
                 const filterResult = await filterArticle(filterInput);
                 if (filterResult.passed) {
-                  await processArticle(insertedId, source.userId);
+                  await enqueueArticleJob({ articleId: insertedId, userId: source.userId, source: 'email' });
                 }
               } catch (err: any) {
                 log.warn({ articleId: insertedId, error: err.message }, 'Auto-filter/process failed for email article');
@@ -19,6 +19,11 @@ import { initTelegramBotManager } from './telegram/bot-manager.js';
 import { initGmailScheduler } from './gmail-scheduler.js';
 import { initWebScheduler } from './web-scheduler.js';
 import { initRejectedCleanupScheduler } from './rejected-cleanup-scheduler.js';
+import { initNotificationRetryScheduler } from './notification-retry-scheduler.js';
+import { initNotificationDigestScheduler } from './notification-digest-scheduler.js';
+import { initSavedSearchWorker } from './saved-search-worker.js';
+import { initArticleJobWorker } from './job-worker.js';
+import { initVectorReindexWorker } from './vector-reindex-worker.js';
 import { config } from './config.js';
 import { createApp, startServer } from './api/web.js';
 import path from 'path';
@@ -52,6 +57,7 @@ async function main() {
     gmailFetchSchedule: config.gmailFetchSchedule,
     rejectedCleanupEnabled: config.rejectedCleanupEnabled,
     rejectedCleanupSchedule: config.rejectedCleanupSchedule,
+    savedSearchEnabled: config.savedSearchEnabled,
   }, 'Configuration loaded');
 
   // Initialize database
@@ -74,6 +80,16 @@ async function main() {
   // Start web server
   const server = startServer(app);
 
+  // Start article job worker (resumes jobs interrupted by the last shutdown)
+  const jobWorker = initArticleJobWorker();
+  await jobWorker.start();
+  log.info(`⚙️ Article job worker started (concurrency: ${config.jobQueueConcurrency})`);
+
+  // Start vector re-index worker (resumes index versions still building)
+  const reindexWorker = initVectorReindexWorker();
+  reindexWorker.start();
+  log.info('🧭 Vector re-index worker started');
+
   // Initialize and start RSS scheduler
   const scheduler = initRSSScheduler();
   if (config.rssFetchEnabled) {
@@ -146,6 +162,25 @@ async function main() {
     log.info('🗑️ Rejected article cleanup scheduler disabled');
   }
 
+  // Start notification retry scheduler (retries failed pushes recorded in notification_deliveries)
+  const notificationRetryScheduler = initNotificationRetryScheduler();
+  notificationRetryScheduler.start();
+  log.info('🔁 Notification retry scheduler started');
+
+  // Start notification digest scheduler (sends new articles deferred by recipient push rules)
+  const notificationDigestScheduler = initNotificationDigestScheduler();
+  notificationDigestScheduler.start();
+  log.info('🗞️ Notification digest scheduler started');
+
+  // Start Saved Search Worker (matches articles against saved searches as the pipeline completes them)
+  const savedSearchWorker = initSavedSearchWorker();
+  if (config.savedSearchEnabled) {
+    savedSearchWorker.start();
+    log.info('🔎 Saved search worker started');
+  } else {
+    log.info('🔎 Saved search worker disabled');
+  }
+
   // Initialize and start Web Scraper Scheduler
   const webScheduler = initWebScheduler();
   if (config.webFetchEnabled) {
@@ -207,6 +242,18 @@ async function main() {
     await rejectedCleanupScheduler.stop();
     log.info('🗑️ Rejected article cleanup scheduler stopped');
 
+    // Stop notification retry scheduler
+    await notificationRetryScheduler.stop();
+    log.info('🔁 Notification retry scheduler stopped');
+
+    // Stop notification digest scheduler
+    await notificationDigestScheduler.stop();
+    log.info('🗞️ Notification digest scheduler stopped');
+
+    // Stop saved search worker
+    await savedSearchWorker.stop();
+    log.info('🔎 Saved search worker stopped');
+
     // Stop web scraper scheduler
     await webScheduler.stop();
     log.info('🕷️ Web scraper scheduler stopped');
@@ -221,6 +268,14 @@ async function main() {
       log.info('🤖 Telegram bot manager stopped');
     }
 
+    // Stop vector re-index worker (progress is saved per batch)
+    await reindexWorker.stop();
+    log.info('🧭 Vector re-index worker stopped');
+
+    // Stop article job worker (waits for in-flight jobs)
+    await jobWorker.stop();
+    log.info('⚙️ Article job worker stopped');
+
     server.close(() => {
       log.info('🌐 Web server closed');
     });
@@ -1,7 +1,7 @@
 /**
  * Insights Scheduler
  *
- * Scheduled insights report generation and push (WeChat + Telegram).
+ * Scheduled insights report generation and push (all notification channels).
  * 默认每天检查一次，满足间隔天数后再执行。
  */
 
@@ -9,8 +9,7 @@ import { logger } from './logger.js';
 import { BaseScheduler } from './utils/base-scheduler.js';
 import { generateInsightsSummary } from './api/daily-summary-generator.js';
 import { saveDailySummary } from './api/daily-summary-repository.js';
-import { getTelegramNotifier } from './telegram/index.js';
-import { getWeChatNotifier } from './wechat/index.js';
+import { dispatchNotification, toSummaryNotificationData } from './notifications/index.js';
 import { config as appConfig } from './config.js';
 import { getUserSetting, setUserSetting } from './api/settings.js';
 import { buildUtcRangeFromLocalDate } from './api/timezone.js';
@@ -255,28 +254,10 @@ export class InsightsScheduler extends BaseScheduler {
       }
 
       // Push notifications (pure generate doesn't do this)
-      const { date, totalArticles, summary, articlesByType } = result;
-      const counts = {
-        journal: articlesByType.journal.length,
-        blog: articlesByType.blog.length,
-        news: articlesByType.news.length,
-        email: articlesByType.email.length,
-      };
-      getTelegramNotifier().sendInsightsSummary(this.config.userId, {
-        date,
-        type: 'insights',
-        totalArticles,
-        summary,
-        articlesByType: counts,
-      }).catch(err => log.warn({ error: err }, 'Failed to send insights summary to Telegram'));
-
-      getWeChatNotifier().sendInsightsSummary(this.config.userId, {
-        date,
+      dispatchNotification(this.config.userId, {
         type: 'insights',
-        totalArticles,
-        summary,
-        articlesByType: counts,
-      }).catch(err => log.warn({ error: err }, 'Failed to send insights summary to WeChat'));
+        data: toSummaryNotificationData(result),
+      }).catch(err => log.warn({ error: err }, 'Failed to push insights summary'));
 
       this.stats.lastRunResult = {
         success: true,
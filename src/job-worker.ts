@@ -0,0 +1,211 @@
+/**
+ * Article Job Worker
+ *
+ * 从 article_jobs 队列领取任务并执行 processArticle。
+ * - 并发数：JOB_QUEUE_CONCURRENCY
+ * - 处理期间按可见性超时的 1/3 续约，进程崩溃后租约过期可被重新领取
+ * - 启动时释放上次运行遗留的租约，并为卡在 processing 的文章补入队
+ */
+
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { processArticle, type ProcessResult } from './pipeline/index.js';
+import {
+  completeArticleJob,
+  enqueueStuckArticles,
+  extendArticleJobLease,
+  failArticleJob,
+  leaseArticleJobs,
+  onArticleJobEnqueued,
+  purgeCompletedArticleJobs,
+  releaseStaleArticleJobLeases,
+} from './api/article-jobs.js';
+import type { ArticleJobsSelection } from './db.js';
+import { sleep } from './utils/sleep.js';
+
+const log = logger.child({ module: 'job-worker' });
+
+/**
+ * 已完成任务清理间隔
+ */
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * 停止时等待进行中任务的最长时间（超时后未完成任务在下次启动时恢复）
+ */
+const STOP_TIMEOUT_MS = 10_000;
+
+export class ArticleJobWorker {
+  private static instance: ArticleJobWorker | null = null;
+
+  readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  private running = false;
+  private polling = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private lastPurgeAt = 0;
+  private unsubscribe: (() => void) | null = null;
+  private readonly active = new Map<number, Promise<void>>();
+
+  static getInstance(): ArticleJobWorker {
+    if (!ArticleJobWorker.instance) {
+      ArticleJobWorker.instance = new ArticleJobWorker();
+    }
+    return ArticleJobWorker.instance;
+  }
+
+  /**
+   * Recover interrupted work and start polling
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      log.warn('Job worker already running');
+      return;
+    }
+
+    const released = await releaseStaleArticleJobLeases(this.workerId);
+    const recovered = await enqueueStuckArticles();
+    log.info({ workerId: this.workerId, released, recovered }, 'Job queue recovered');
+
+    this.running = true;
+    this.unsubscribe = onArticleJobEnqueued(() => this.schedulePoll(0));
+    this.schedulePoll(0);
+  }
+
+  /**
+   * Stop polling and wait (bounded) for in-flight jobs
+   *
+   * 未完成的任务保持 leased，下次启动时重新入队。
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.active.size > 0) {
+      log.info({ activeJobs: this.active.size }, 'Waiting for in-flight jobs');
+      await Promise.race([
+        Promise.allSettled(this.active.values()),
+        sleep(STOP_TIMEOUT_MS),
+      ]);
+    }
+  }
+
+  getStatus(): { workerId: string; running: boolean; activeJobs: number; concurrency: number } {
+    return {
+      workerId: this.workerId,
+      running: this.running,
+      activeJobs: this.active.size,
+      concurrency: config.jobQueueConcurrency,
+    };
+  }
+
+  private schedulePoll(delay: number): void {
+    if (!this.running) return;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+    }
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.poll().catch((error) => {
+        log.error({ error: error instanceof Error ? error.message : String(error) }, 'Job poll failed');
+      });
+    }, delay);
+  }
+
+  private async poll(): Promise<void> {
+    if (!this.running || this.polling) return;
+    this.polling = true;
+
+    try {
+      await this.purgeIfDue();
+
+      const capacity = config.jobQueueConcurrency - this.active.size;
+      const jobs = await leaseArticleJobs(this.workerId, capacity, config.jobQueueVisibilityTimeout);
+
+      for (const job of jobs) {
+        const task = this.runJob(job).finally(() => {
+          this.active.delete(job.id);
+          this.schedulePoll(0);
+        });
+        this.active.set(job.id, task);
+      }
+    } finally {
+      this.polling = false;
+      this.schedulePoll(config.jobQueuePollInterval);
+    }
+  }
+
+  private async runJob(job: ArticleJobsSelection): Promise<void> {
+    const heartbeat = setInterval(() => {
+      extendArticleJobLease(job.id, this.workerId, config.jobQueueVisibilityTimeout)
+        .then((held) => {
+          if (!held) {
+            log.warn({ jobId: job.id, articleId: job.article_id }, 'Job lease lost');
+          }
+        })
+        .catch((error) => {
+          log.warn({ jobId: job.id, error: error instanceof Error ? error.message : String(error) }, 'Job heartbeat failed');
+        });
+    }, Math.max(Math.floor(config.jobQueueVisibilityTimeout / 3), 1000));
+
+    log.debug({ jobId: job.id, articleId: job.article_id, attempt: job.attempts }, 'Job started');
+
+    try {
+      let result: ProcessResult;
+      try {
+        result = await processArticle(job.article_id, job.user_id);
+      } catch (error) {
+        const errMsg = error instanceof Error ? error.message : String(error);
+        const status = await failArticleJob(job.id, this.workerId, errMsg);
+        log.error({ jobId: job.id, articleId: job.article_id, status, error: errMsg }, 'Job crashed');
+        return;
+      }
+
+      if (result.status === 'failed') {
+        const status = await failArticleJob(job.id, this.workerId, result.error || 'Processing failed');
+        log.warn({ jobId: job.id, articleId: job.article_id, attempt: job.attempts, status, error: result.error }, 'Job failed');
+      } else {
+        await completeArticleJob(job.id, this.workerId);
+        log.debug({ jobId: job.id, articleId: job.article_id, status: result.status }, 'Job completed');
+      }
+    } catch (error) {
+      // 结果落库失败（如 SQLITE_BUSY、租约已丢失）不能抛出：任务租约过期后会被重新领取
+      log.error(
+        { jobId: job.id, articleId: job.article_id, error: error instanceof Error ? error.message : String(error) },
+        'Failed to record job result'
+      );
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async purgeIfDue(): Promise<void> {
+    if (Date.now() - this.lastPurgeAt < PURGE_INTERVAL_MS) return;
+    this.lastPurgeAt = Date.now();
+
+    const purged = await purgeCompletedArticleJobs(config.jobQueueRetentionDays);
+    if (purged > 0) {
+      log.info({ purged }, 'Purged completed jobs');
+    }
+  }
+}
+
+/**
+ * Initialize and get worker instance
+ */
+export function initArticleJobWorker(): ArticleJobWorker {
+  return ArticleJobWorker.getInstance();
+}
+
+/**
+ * Get worker instance
+ */
+export function getArticleJobWorker(): ArticleJobWorker {
+  return ArticleJobWorker.getInstance();
+}
@@ -18,8 +18,10 @@ import {
   calculateIssuesToCrawl,
 } from './api/journals.js';
 import { filterArticle, type FilterInput } from './filter.js';
-import { processArticle } from './pipeline.js';
-import { generateNormalizedTitle } from './utils/title.js';
+import { enqueueArticleJob } from './api/article-jobs.js';
+import { buildArticleFingerprint } from './utils/article-fingerprint.js';
+import { saveArticleMetadata } from './api/article-metadata.js';
+import { resolveDuplicate } from './api/article-dedup.js';
 import type { JournalInfo, CrawlResult, SpiderResult, CrawledArticle } from './spiders/types.js';
 
 const log = logger.child({ module: 'journal-scheduler' });
@@ -359,50 +361,40 @@ export class JournalScheduler extends BaseScheduler {
           continue;
         }
 
-        // 生成规范化标题用于去重
-        const titleNormalized = generateNormalizedTitle(article.title);
-
-        // 检查标题是否已存在（标题去重）
-        if (titleNormalized) {
-          const existing = await db
-            .selectFrom('articles')
-            .where('title_normalized', '=', titleNormalized)
-            .select('id')
-            .executeTakeFirst();
-
-          if (existing) {
-            log.debug(
-              { url: article.url, title: article.title, existingId: existing.id, journalId },
-              'Article title already exists, skipping'
-            );
-            continue;
-          }
+        // 去重指纹（规范化 URL / 内容哈希 / 标题），跨源重复记录关联
+        const fingerprint = buildArticleFingerprint({
+          title: article.title,
+          url: article.url,
+          abstract: article.abstract,
+          doi: article.doi,
+        });
+        const titleNormalized = fingerprint.titleNormalized;
 
-          // Also check rejected_articles archive (articles cleaned up by auto-cleanup)
-          const rejectedExists = await db
-            .selectFrom('rejected_articles')
-            .where('title_normalized', '=', titleNormalized)
-            .select('id')
-            .executeTakeFirst();
+        const duplicate = await resolveDuplicate(
+          fingerprint,
+          { origin: 'journal', sourceId: journalId },
+          { url: article.url }
+        );
 
-          if (rejectedExists) {
-            log.debug(
-              { url: article.url, title: article.title, journalId },
-              'Article title exists in rejected_articles (previously rejected and cleaned up), skipping'
-            );
-            continue;
-          }
+        if (duplicate) {
+          log.debug(
+            { url: article.url, title: article.title, existingId: duplicate.articleId, matchedBy: duplicate.matchedBy, journalId },
+            'Duplicate article, skipping'
+          );
+          continue;
         }
 
         // 插入新文章
         const now = new Date().toISOString();
 
-        await db
+        const result = await db
           .insertInto('articles')
           .values({
             title: article.title.trim(),
             title_normalized: titleNormalized,
             url: article.url.trim(),
+            canonical_url: fingerprint.canonicalUrl,
+            content_hash: fingerprint.contentHash,
             summary: null,
             content: article.abstract?.trim() || null,
             markdown_content: null,
@@ -413,11 +405,18 @@ export class JournalScheduler extends BaseScheduler {
             published_year: article.publishedYear || null,
             published_issue: article.publishedIssue || null,
             published_volume: article.publishedVolume || null,
+            doi: fingerprint.doi,
             is_read: 0,
             created_at: now,
             updated_at: now,
           })
-          .execute();
+          .executeTakeFirst();
+
+        await saveArticleMetadata(Number(result.insertId), {
+          authors: article.author,
+          identifiers: [{ scheme: 'doi', value: fingerprint.doi }],
+          keywords: article.keywords,
+        });
 
         newCount++;
       } catch (error) {
@@ -507,14 +506,8 @@ export class JournalScheduler extends BaseScheduler {
 
         if (result.passed) {
           passedCount++;
-          // 触发后续处理（使用正确的用户 ID）
-          processArticle(article.id, userId)
-            .then((res) => {
-              log.debug({ articleId: article.id, status: res.status }, 'Auto process completed');
-            })
-            .catch((err) => {
-              log.warn({ articleId: article.id, error: err?.message || String(err) }, 'Auto process failed');
-            });
+          // 入队后续处理（使用正确的用户 ID）
+          await enqueueArticleJob({ articleId: article.id, userId, source: 'journal' });
         } else {
           rejectedCount++;
           log.debug({ articleId: article.id, reason: result.filterReason }, 'Article rejected by filter');
@@ -10,6 +10,7 @@
  * - 请求参数
  * - 响应结果
  * - 调用耗时
+ * - Token 用量（用量同时写入 llm_usage 表，见 api/llm-usage.ts）
  *
  * ENV:
  *   LLM_LOG_FILE — LLM 日志文件路径
@@ -22,6 +23,7 @@ import fs from 'fs';
 import path from 'path';
 import { config } from './config.js';
 import { logger } from './logger.js';
+import type { TokenUsage } from './api/llm-usage.js';
 
 let _cleanupTimer: NodeJS.Timeout | null = null;
 
@@ -178,7 +180,7 @@ function extractUserPrompt(messages: Array<{ role: string; content: string }>):
  * 大模型调用上下文
  */
 export interface LLMCallContext {
-  provider: string; // 'openai' | 'gemini' | 'custom'
+  provider: string; // 'openai' | 'gemini' | 'anthropic' | 'ollama' | 'custom'
   model: string;
   apiKey: string;
   baseUrl: string;
@@ -187,6 +189,7 @@ export interface LLMCallContext {
   modelSource?: string;
   label?: string; // 用于标识调用的用途，如 'filter', 'translate'
   userId?: number;
+  taskType?: string;
   configId?: number;
 }
 
@@ -211,6 +214,7 @@ export interface LLMCallResult {
   response?: string;
   error?: Error;
   responseLength?: number;
+  usage?: TokenUsage;
   elapsedMs: number;
 }
 
@@ -285,8 +289,12 @@ export class LLMLoggerSession {
           model: this.context.model,
           label: this.context.label,
           userId: this.context.userId,
+          taskType: this.context.taskType,
           configId: this.context.configId,
           responseLength: result.responseLength || result.response?.length || 0,
+          promptTokens: result.usage?.promptTokens,
+          completionTokens: result.usage?.completionTokens,
+          totalTokens: result.usage?.totalTokens,
           elapsed: `${elapsed}ms`,
           responsePreview: result.response ? truncateText(result.response, 200) : undefined,
         },
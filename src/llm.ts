@@ -6,10 +6,13 @@
  */
 
 import OpenAI from 'openai';
-import type { ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions.js';
+import type { ChatCompletionCreateParamsNonStreaming, ChatCompletionCreateParamsStreaming } from 'openai/resources/chat/completions.js';
 import { logger } from './logger.js';
-import { getActiveConfigListByType, getActiveConfigListByTypeAndTask, type LLMConfigRecord } from './api/llm-configs.js';
+import { getActiveConfigListByType, getActiveConfigListByTypeAndTask, getLLMConfigById, type LLMConfigRecord, type LLMProviderType } from './api/llm-configs.js';
+import { getExceededLLMBudgets, recordLLMUsage, type LLMBudgetWithUsage, type TokenUsage } from './api/llm-usage.js';
 import { decryptAPIKey } from './utils/crypto.js';
+import { readSSEEvents, readStreamLines } from './utils/sse.js';
+import { sleep } from './utils/sleep.js';
 import { config } from './config.js';
 import { LLMLogger, type LLMCallContext } from './llm-logger.js';
 import { initGlobalRateLimiter, getGlobalRateLimiter, type RateLimiterConfig } from './utils/rate-limiter.js';
@@ -29,30 +32,128 @@ export interface ChatOptions {
   jsonMode?: boolean;
   /** Label for logging (e.g. "summary", "insight") */
   label?: string;
+  /** Usage attribution (set by getUserLLMProvider) */
+  scope?: LLMUsageScope;
+}
+
+/**
+ * Who / what a call is billed to in llm_usage
+ */
+export interface LLMUsageScope {
+  userId?: number;
+  taskType?: string;
 }
 
 export interface LLMProvider {
   name: string;
   chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  /** Stream the completion as text chunks */
+  chatStream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<string>;
 }
 
 export interface LLMConfigOptions {
-  provider: 'openai' | 'gemini' | 'custom';
+  provider: LLMProviderType;
   baseURL: string;
   apiKey: string;
   model: string;
   timeout?: number;
   maxRetries?: number;
   source?: 'env' | 'db' | 'explicit' | 'unknown';
+  /** Price per 1M input tokens (for cost estimation) */
+  inputPrice?: number | null;
+  /** Price per 1M output tokens (for cost estimation) */
+  outputPrice?: number | null;
 }
 
 interface FailoverEntry {
   configId: number;
   provider: LLMProvider;
-  matchType: 'task' | 'default' | 'general';
+  matchType: 'task' | 'default' | 'general' | 'downgrade';
   taskType?: string;
 }
 
+/**
+ * 月度预算超出（预算动作为 block）
+ */
+export class LLMBudgetExceededError extends Error {
+  readonly budgetId: number;
+
+  constructor(userId: number, taskType: string | undefined, budgetId: number) {
+    super(
+      `用户 ${userId} 的 LLM 月度预算已超出（预算 #${budgetId}${taskType ? `，任务类型 ${taskType}` : ''}）。` +
+      `请在设置中调整预算或等待下月重置。`
+    );
+    this.name = 'LLMBudgetExceededError';
+    this.budgetId = budgetId;
+  }
+}
+
+/* ── Call tracking (log + usage) ── */
+
+interface CallOutcome {
+  text: string;
+  usage: TokenUsage | null;
+  error?: unknown;
+}
+
+/**
+ * Start logging a call; the returned function records the outcome
+ * 同时写入 LLM 日志与 llm_usage
+ */
+function trackCall(
+  callContext: LLMCallContext,
+  llmConfig: LLMConfigOptions,
+  messages: ChatMessage[],
+  options: ChatOptions,
+  streamed: boolean
+): (outcome: CallOutcome) => void {
+  const session = LLMLogger.start(callContext);
+  session.logRequest({
+    messages,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens,
+    jsonMode: options.jsonMode,
+    ...(streamed ? { stream: true } : {}),
+  });
+  const startedAt = Date.now();
+
+  return ({ text, usage, error }) => {
+    const latencyMs = Date.now() - startedAt;
+    const success = error === undefined;
+
+    if (success) {
+      session.logResponse({
+        success: true,
+        response: text,
+        responseLength: text.length,
+        usage: usage ?? undefined,
+        elapsedMs: latencyMs,
+      });
+    } else {
+      session.logResponse({
+        success: false,
+        error: error instanceof Error ? error : new Error('Unknown error'),
+        elapsedMs: latencyMs,
+      });
+    }
+
+    void recordLLMUsage({
+      userId: callContext.userId,
+      configId: callContext.configId,
+      taskType: callContext.taskType,
+      label: callContext.label,
+      provider: callContext.provider,
+      model: callContext.model,
+      usage,
+      pricing: { inputPrice: llmConfig.inputPrice ?? null, outputPrice: llmConfig.outputPrice ?? null },
+      latencyMs,
+      streamed,
+      success,
+      error: success ? null : error instanceof Error ? error.message : String(error),
+    });
+  };
+}
+
 /* ── Rate Limiter Integration ── */
 
 /**
@@ -106,11 +207,66 @@ function withRateLimit(provider: LLMProvider): LLMProvider {
       // Proceed with actual LLM call
       return provider.chat(messages, options);
     },
+    async *chatStream(messages, options = {}) {
+      const label = options.label || 'chat';
+
+      if (rateLimiter) {
+        try {
+          await rateLimiter.waitForToken(label);
+        } catch {
+          log.warn(
+            { label, provider: provider.name },
+            'Rate limit queue timeout, proceeding anyway'
+          );
+        }
+      }
+
+      yield* provider.chatStream(messages, options);
+    },
+  };
+}
+
+/**
+ * Attach usage scope (user / task type) to every call
+ */
+function withUsageScope(provider: LLMProvider, scope: LLMUsageScope): LLMProvider {
+  return {
+    name: provider.name,
+    chat(messages, options = {}) {
+      return provider.chat(messages, { ...options, scope: { ...scope, ...options.scope } });
+    },
+    chatStream(messages, options = {}) {
+      return provider.chatStream(messages, { ...options, scope: { ...scope, ...options.scope } });
+    },
   };
 }
 
 /* ── Provider: OpenAI-compatible (Qwen via dashscope, etc.) ── */
 
+function toOpenAIUsage(usage: OpenAI.CompletionUsage | null | undefined): TokenUsage | null {
+  if (!usage) return null;
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+    totalTokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+  };
+}
+
+/**
+ * Rough token estimate for servers that return no usage
+ * CJK 字符约 1 token/字，其余约 4 字符/token
+ */
+function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+function estimateUsage(messages: ChatMessage[], text: string): TokenUsage {
+  const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  const completionTokens = estimateTokens(text);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
 function createOpenAIProvider(llmConfig: LLMConfigOptions, configId?: number): LLMProvider {
   const client = new OpenAI({
     apiKey: llmConfig.apiKey,
@@ -121,62 +277,100 @@ function createOpenAIProvider(llmConfig: LLMConfigOptions, configId?: number): L
   const model = llmConfig.model;
 
   const source = llmConfig.source ?? 'unknown';
+
+  // stream_options.include_usage 仅 OpenAI 官方确定支持；兼容服务先尝试，返回 400 后不再携带
+  let streamUsageSupported = true;
+
+  // 创建日志上下文
+  const getCallContext = (options: ChatOptions): LLMCallContext => ({
+    provider: 'openai',
+    model,
+    apiKey: llmConfig.apiKey,
+    baseUrl: llmConfig.baseURL,
+    apiKeySource: source,
+    baseUrlSource: source,
+    modelSource: source,
+    label: options.label || 'chat',
+    userId: options.scope?.userId,
+    taskType: options.scope?.taskType,
+    configId,
+  });
+
+  const buildRequest = (messages: ChatMessage[], options: ChatOptions): ChatCompletionCreateParamsNonStreaming => {
+    const requestConfig: ChatCompletionCreateParamsNonStreaming = {
+      model,
+      temperature: options.temperature,
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      ...(options.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+    };
+    // 只有明确指定 maxTokens 时才添加限制
+    if (options.maxTokens !== undefined) {
+      requestConfig.max_tokens = options.maxTokens;
+    }
+    return requestConfig;
+  };
+
   const provider: LLMProvider = {
     name: `openai/${model}`,
     async chat(messages, options = {}) {
-      const label = options.label || 'chat';
+      const finish = trackCall(getCallContext(options), llmConfig, messages, options, false);
 
-      // 创建日志上下文
-      const callContext: LLMCallContext = {
-        provider: 'openai',
-        model,
-        apiKey: llmConfig.apiKey,
-        baseUrl: llmConfig.baseURL,
-        apiKeySource: source,
-        baseUrlSource: source,
-        modelSource: source,
-        label,
-        configId,
-      };
-
-      const session = LLMLogger.start(callContext);
-      session.logRequest({
-        messages,
-        temperature: options.temperature,
-        maxTokens: options.maxTokens,
-        jsonMode: options.jsonMode,
-      });
+      try {
+        const response = await client.chat.completions.create(buildRequest(messages, options));
+        const text = response.choices[0]?.message?.content || '';
+
+        finish({ text, usage: toOpenAIUsage(response.usage) ?? estimateUsage(messages, text) });
+        return text;
+      } catch (error) {
+        finish({ text: '', usage: null, error });
+        throw error;
+      }
+    },
+    async *chatStream(messages, options = {}) {
+      const finish = trackCall(getCallContext(options), llmConfig, messages, options, true);
+      let text = '';
+      let usage: TokenUsage | null = null;
+      let failure: unknown;
 
       try {
-        const requestConfig: ChatCompletionCreateParamsNonStreaming = {
-          model,
-          temperature: options.temperature,
-          messages: messages.map((m) => ({ role: m.role, content: m.content })),
-          ...(options.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+        const createStream = (includeUsage: boolean) => {
+          const requestConfig: ChatCompletionCreateParamsStreaming = {
+            ...buildRequest(messages, options),
+            stream: true,
+            // 最后一个 chunk 携带 usage
+            ...(includeUsage ? { stream_options: { include_usage: true } } : {}),
+          };
+          return client.chat.completions.create(requestConfig);
         };
-        // 只有明确指定 maxTokens 时才添加限制
-        if (options.maxTokens !== undefined) {
-          requestConfig.max_tokens = options.maxTokens;
-        }
-        const response = await client.chat.completions.create(requestConfig);
 
-        const text = response.choices[0]?.message?.content || '';
-
-        session.logResponse({
-          success: true,
-          response: text,
-          responseLength: text.length,
-          elapsedMs: 0,
-        });
+        let stream: Awaited<ReturnType<typeof createStream>>;
+        try {
+          stream = await createStream(streamUsageSupported);
+        } catch (error) {
+          if (!streamUsageSupported || llmConfig.provider === 'openai' || !(error instanceof OpenAI.BadRequestError)) {
+            throw error;
+          }
+          streamUsageSupported = false;
+          log.warn({ model, baseURL: llmConfig.baseURL, configId }, 'Server rejected stream_options, retrying without usage');
+          stream = await createStream(false);
+        }
 
-        return text;
+        for await (const chunk of stream) {
+          if (chunk.usage) {
+            usage = toOpenAIUsage(chunk.usage);
+          }
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            yield delta;
+          }
+        }
       } catch (error) {
-        session.logResponse({
-          success: false,
-          error: error instanceof Error ? error : new Error('Unknown error'),
-          elapsedMs: 0,
-        });
+        failure = error;
         throw error;
+      } finally {
+        // 服务端不返回 usage 时按字符数估算，避免预算统计漏记
+        finish({ text, usage: usage ?? (failure === undefined ? estimateUsage(messages, text) : null), error: failure });
       }
     },
   };
@@ -188,81 +382,98 @@ function createOpenAIProvider(llmConfig: LLMConfigOptions, configId?: number): L
 
 const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
 
+function toGeminiUsage(metadata: any): TokenUsage | null {
+  if (!metadata) return null;
+  const promptTokens = Number(metadata.promptTokenCount ?? 0);
+  const completionTokens = Number(metadata.candidatesTokenCount ?? 0);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: Number(metadata.totalTokenCount ?? promptTokens + completionTokens),
+  };
+}
+
+function extractGeminiText(data: any): string {
+  const parts: Array<{ text?: string }> = data?.candidates?.[0]?.content?.parts ?? [];
+  return parts.map((part) => part.text ?? '').join('');
+}
+
+/**
+ * Convert ChatMessage[] to Gemini request body
+ * Gemini uses "contents" with "role" (user/model) and system instruction separately
+ */
+function buildGeminiBody(messages: ChatMessage[], options: ChatOptions): Record<string, any> {
+  const systemParts: string[] = [];
+  const contents: Array<{ role: string; parts: Array<{ text: string }> }> = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      systemParts.push(msg.content);
+    } else {
+      contents.push({
+        role: msg.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: msg.content }],
+      });
+    }
+  }
+
+  const generationConfig: Record<string, any> = {
+    temperature: options.temperature ?? 0.3,
+    ...(options.jsonMode ? { responseMimeType: 'application/json' } : {}),
+  };
+  // 只有明确指定 maxTokens 时才添加限制
+  if (options.maxTokens !== undefined) {
+    generationConfig.maxOutputTokens = options.maxTokens;
+  }
+  const body: Record<string, any> = {
+    contents,
+    generationConfig,
+  };
+
+  if (systemParts.length > 0) {
+    body.systemInstruction = {
+      parts: systemParts.map((text) => ({ text })),
+    };
+  }
+
+  return body;
+}
+
 function createGeminiProvider(llmConfig: LLMConfigOptions, configId?: number): LLMProvider {
   const apiKey = llmConfig.apiKey;
   const model = llmConfig.model;
   const baseURL = llmConfig.baseURL;
   const source = llmConfig.source ?? 'unknown';
+  // Use custom base URL if provided, otherwise use default
+  const apiUrl = baseURL || GEMINI_API_BASE;
+
+  // 创建日志上下文
+  const getCallContext = (options: ChatOptions): LLMCallContext => ({
+    provider: 'gemini',
+    model,
+    apiKey,
+    baseUrl: apiUrl,
+    apiKeySource: source,
+    baseUrlSource: source,
+    modelSource: source,
+    label: options.label || 'chat',
+    userId: options.scope?.userId,
+    taskType: options.scope?.taskType,
+    configId,
+  });
 
   const provider: LLMProvider = {
     name: `gemini/${model}`,
     async chat(messages, options = {}) {
       const label = options.label || 'chat';
-
-      // 创建日志上下文
-      const callContext: LLMCallContext = {
-        provider: 'gemini',
-        model,
-        apiKey,
-        baseUrl: baseURL || GEMINI_API_BASE,
-        apiKeySource: source,
-        baseUrlSource: source,
-        modelSource: source,
-        label,
-        configId,
-      };
-
-      const session = LLMLogger.start(callContext);
-      session.logRequest({
-        messages,
-        temperature: options.temperature,
-        maxTokens: options.maxTokens,
-        jsonMode: options.jsonMode,
-      });
+      const finish = trackCall(getCallContext(options), llmConfig, messages, options, false);
 
       try {
-        // Convert ChatMessage[] to Gemini format
-        // Gemini uses "contents" with "role" (user/model) and system instruction separately
-        const systemParts: string[] = [];
-        const contents: Array<{ role: string; parts: Array<{ text: string }> }> = [];
-
-        for (const msg of messages) {
-          if (msg.role === 'system') {
-            systemParts.push(msg.content);
-          } else {
-            contents.push({
-              role: msg.role === 'assistant' ? 'model' : 'user',
-              parts: [{ text: msg.content }],
-            });
-          }
-        }
-
-        const generationConfig: Record<string, any> = {
-          temperature: options.temperature ?? 0.3,
-          ...(options.jsonMode ? { responseMimeType: 'application/json' } : {}),
-        };
-        // 只有明确指定 maxTokens 时才添加限制
-        if (options.maxTokens !== undefined) {
-          generationConfig.maxOutputTokens = options.maxTokens;
-        }
-        const body: Record<string, any> = {
-          contents,
-          generationConfig,
-        };
-
-        if (systemParts.length > 0) {
-          body.systemInstruction = {
-            parts: systemParts.map((text) => ({ text })),
-          };
-        }
-
-        // Use custom base URL if provided, otherwise use default
-        const apiUrl = baseURL || GEMINI_API_BASE;
         const url = `${apiUrl}/models/${model}:generateContent?key=${apiKey}`;
         const res = await fetch(url, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(body),
+          body: JSON.stringify(buildGeminiBody(messages, options)),
         });
 
         if (!res.ok) {
@@ -271,27 +482,463 @@ function createGeminiProvider(llmConfig: LLMConfigOptions, configId?: number): L
         }
 
         const data = await res.json();
-        const text = data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
+        const text = extractGeminiText(data);
 
         if (!text) {
           throw new Error(`Gemini ${label}: empty response`);
         }
 
-        session.logResponse({
-          success: true,
-          response: text,
-          responseLength: text.length,
-          elapsedMs: 0,
+        finish({ text, usage: toGeminiUsage(data?.usageMetadata) });
+        return text;
+      } catch (error) {
+        finish({ text: '', usage: null, error });
+        throw error;
+      }
+    },
+    async *chatStream(messages, options = {}) {
+      const label = options.label || 'chat';
+      const finish = trackCall(getCallContext(options), llmConfig, messages, options, true);
+      let text = '';
+      let usage: TokenUsage | null = null;
+      let failure: unknown;
+
+      try {
+        const url = `${apiUrl}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`;
+        const res = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(buildGeminiBody(messages, options)),
         });
 
+        if (!res.ok || !res.body) {
+          const err = await res.text();
+          throw new Error(`Gemini ${label} stream error (${res.status}): ${err}`);
+        }
+
+        for await (const event of readSSEEvents(res.body)) {
+          const data = JSON.parse(event.data);
+          // usageMetadata 在每个 chunk 中累计，取最后一次
+          if (data?.usageMetadata) {
+            usage = toGeminiUsage(data.usageMetadata);
+          }
+          const delta = extractGeminiText(data);
+          if (delta) {
+            text += delta;
+            yield delta;
+          }
+        }
+      } catch (error) {
+        failure = error;
+        throw error;
+      } finally {
+        finish({ text, usage, error: failure });
+      }
+    },
+  };
+
+  return withRateLimit(provider);
+}
+
+/* ── HTTP retry (native adapters) ── */
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504, 529]);
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+/**
+ * Parse retry-after header (seconds or HTTP date)
+ */
+function getRetryAfterMs(res: Response | null): number | null {
+  const value = res?.headers.get('retry-after');
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * POST JSON with retries on network errors and retryable status codes
+ *
+ * 优先使用 retry-after，否则指数退避（1s, 2s, 4s…，上限 30s）。
+ * 流式请求只重试建立连接阶段，已开始读取的响应体不会重试。
+ *
+ * @returns Final response (may be non-ok when retries are exhausted or status is not retryable)
+ */
+async function postJSONWithRetry(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  options: { maxRetries: number; timeout: number; label: string; provider: string }
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let res: Response | null = null;
+    let networkError: unknown = null;
+
+    try {
+      res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(options.timeout),
+      });
+    } catch (error) {
+      networkError = error;
+    }
+
+    if (res && (res.ok || !RETRYABLE_STATUS.has(res.status))) {
+      return res;
+    }
+    if (attempt >= options.maxRetries) {
+      if (res) return res;
+      throw networkError;
+    }
+
+    const delayMs = getRetryAfterMs(res) ?? Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+    await res?.body?.cancel().catch(() => {});
+    log.warn(
+      {
+        provider: options.provider,
+        label: options.label,
+        attempt: attempt + 1,
+        status: res?.status,
+        error: networkError instanceof Error ? networkError.message : undefined,
+        delayMs,
+      },
+      'LLM 请求失败，准备重试'
+    );
+    await sleep(delayMs);
+  }
+}
+
+/* ── Provider: Anthropic Messages API ── */
+
+const ANTHROPIC_API_BASE = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+/** Messages API 要求必须提供 max_tokens */
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+const ANTHROPIC_JSON_INSTRUCTION = 'Respond with a single valid JSON object and nothing else.';
+
+interface AnthropicRequest {
+  system?: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  /** Assistant prefill (JSON mode 以 "{" 预填充，响应需拼回) */
+  prefill: string;
+}
+
+/**
+ * Convert ChatMessage[] to Messages API format
+ * system 消息提到顶层 system；相邻同角色消息合并（API 要求 user/assistant 交替）
+ */
+function toAnthropicRequest(messages: ChatMessage[], jsonMode: boolean): AnthropicRequest {
+  const systemParts: string[] = [];
+  const converted: AnthropicRequest['messages'] = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      systemParts.push(msg.content);
+      continue;
+    }
+    const last = converted[converted.length - 1];
+    if (last && last.role === msg.role) {
+      last.content = `${last.content}\n\n${msg.content}`;
+    } else {
+      converted.push({ role: msg.role, content: msg.content });
+    }
+  }
+
+  let prefill = '';
+  if (jsonMode) {
+    systemParts.push(ANTHROPIC_JSON_INSTRUCTION);
+    if (converted[converted.length - 1]?.role === 'user') {
+      prefill = '{';
+      converted.push({ role: 'assistant', content: prefill });
+    }
+  }
+
+  return {
+    system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+    messages: converted,
+    prefill,
+  };
+}
+
+function toAnthropicUsage(usage: any): TokenUsage | null {
+  if (!usage) return null;
+  const promptTokens = Number(usage.input_tokens ?? 0)
+    + Number(usage.cache_creation_input_tokens ?? 0)
+    + Number(usage.cache_read_input_tokens ?? 0);
+  const completionTokens = Number(usage.output_tokens ?? 0);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+function createAnthropicProvider(llmConfig: LLMConfigOptions, configId?: number): LLMProvider {
+  const model = llmConfig.model;
+  const baseURL = (llmConfig.baseURL || ANTHROPIC_API_BASE).replace(/\/+$/, '');
+  const source = llmConfig.source ?? 'unknown';
+  const headers = {
+    'x-api-key': llmConfig.apiKey,
+    'anthropic-version': ANTHROPIC_VERSION,
+  };
+  const retryOptions = (label: string) => ({
+    maxRetries: llmConfig.maxRetries ?? 2,
+    timeout: llmConfig.timeout ?? 300000,
+    label,
+    provider: 'anthropic',
+  });
+
+  // 创建日志上下文
+  const getCallContext = (options: ChatOptions): LLMCallContext => ({
+    provider: 'anthropic',
+    model,
+    apiKey: llmConfig.apiKey,
+    baseUrl: baseURL,
+    apiKeySource: source,
+    baseUrlSource: source,
+    modelSource: source,
+    label: options.label || 'chat',
+    userId: options.scope?.userId,
+    taskType: options.scope?.taskType,
+    configId,
+  });
+
+  const buildBody = (request: AnthropicRequest, options: ChatOptions, stream: boolean): Record<string, unknown> => ({
+    model,
+    max_tokens: options.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+    messages: request.messages,
+    ...(request.system ? { system: request.system } : {}),
+    ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+    ...(stream ? { stream: true } : {}),
+  });
+
+  const provider: LLMProvider = {
+    name: `anthropic/${model}`,
+    async chat(messages, options = {}) {
+      const label = options.label || 'chat';
+      const finish = trackCall(getCallContext(options), llmConfig, messages, options, false);
+
+      try {
+        const request = toAnthropicRequest(messages, Boolean(options.jsonMode));
+        const res = await postJSONWithRetry(
+          `${baseURL}/messages`,
+          headers,
+          buildBody(request, options, false),
+          retryOptions(label)
+        );
+
+        if (!res.ok) {
+          const err = await res.text();
+          throw new Error(`Anthropic ${label} error (${res.status}): ${err}`);
+        }
+
+        const data = await res.json();
+        const blocks: Array<{ type: string; text?: string }> = data?.content ?? [];
+        const content = blocks.filter((block) => block.type === 'text').map((block) => block.text ?? '').join('');
+
+        if (!content) {
+          throw new Error(`Anthropic ${label}: empty response (stop_reason: ${data?.stop_reason ?? 'unknown'})`);
+        }
+
+        const text = request.prefill + content;
+        finish({ text, usage: toAnthropicUsage(data?.usage) });
         return text;
       } catch (error) {
-        session.logResponse({
-          success: false,
-          error: error instanceof Error ? error : new Error('Unknown error'),
-          elapsedMs: 0,
-        });
+        finish({ text: '', usage: null, error });
+        throw error;
+      }
+    },
+    async *chatStream(messages, options = {}) {
+      const label = options.label || 'chat';
+      const finish = trackCall(getCallContext(options), llmConfig, messages, options, true);
+      let text = '';
+      let usage: TokenUsage | null = null;
+      let failure: unknown;
+
+      try {
+        const request = toAnthropicRequest(messages, Boolean(options.jsonMode));
+        const res = await postJSONWithRetry(
+          `${baseURL}/messages`,
+          headers,
+          buildBody(request, options, true),
+          retryOptions(label)
+        );
+
+        if (!res.ok || !res.body) {
+          const err = await res.text();
+          throw new Error(`Anthropic ${label} stream error (${res.status}): ${err}`);
+        }
+
+        let inputUsage: any = null;
+        for await (const event of readSSEEvents(res.body)) {
+          const data = JSON.parse(event.data);
+          switch (data?.type) {
+            case 'message_start':
+              inputUsage = data.message?.usage ?? null;
+              usage = toAnthropicUsage(inputUsage);
+              break;
+            case 'content_block_delta': {
+              const delta: string | undefined = data.delta?.type === 'text_delta' ? data.delta.text : undefined;
+              if (delta) {
+                // 预填充内容在首个片段前输出
+                if (!text && request.prefill) {
+                  text = request.prefill;
+                  yield request.prefill;
+                }
+                text += delta;
+                yield delta;
+              }
+              break;
+            }
+            case 'message_delta':
+              // output_tokens 为累计值
+              usage = toAnthropicUsage({ ...inputUsage, ...data.usage });
+              break;
+            case 'error':
+              throw new Error(`Anthropic ${label} stream error: ${data.error?.message ?? event.data}`);
+          }
+        }
+      } catch (error) {
+        failure = error;
+        throw error;
+      } finally {
+        finish({ text, usage, error: failure });
+      }
+    },
+  };
+
+  return withRateLimit(provider);
+}
+
+/* ── Provider: Ollama (/api/chat) ── */
+
+const OLLAMA_API_BASE = 'http://localhost:11434';
+
+function toOllamaUsage(data: any): TokenUsage | null {
+  if (!data || (data.prompt_eval_count === undefined && data.eval_count === undefined)) return null;
+  const promptTokens = Number(data.prompt_eval_count ?? 0);
+  const completionTokens = Number(data.eval_count ?? 0);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+function createOllamaProvider(llmConfig: LLMConfigOptions, configId?: number): LLMProvider {
+  const model = llmConfig.model;
+  const baseURL = (llmConfig.baseURL || OLLAMA_API_BASE).replace(/\/+$/, '');
+  const source = llmConfig.source ?? 'unknown';
+  // 本地部署通常无需密钥；经反向代理鉴权时使用 Bearer
+  const headers: Record<string, string> = llmConfig.apiKey ? { Authorization: `Bearer ${llmConfig.apiKey}` } : {};
+  const retryOptions = (label: string) => ({
+    maxRetries: llmConfig.maxRetries ?? 1,
+    timeout: llmConfig.timeout ?? 300000,
+    label,
+    provider: 'ollama',
+  });
+
+  // 创建日志上下文
+  const getCallContext = (options: ChatOptions): LLMCallContext => ({
+    provider: 'ollama',
+    model,
+    apiKey: llmConfig.apiKey,
+    baseUrl: baseURL,
+    apiKeySource: source,
+    baseUrlSource: source,
+    modelSource: source,
+    label: options.label || 'chat',
+    userId: options.scope?.userId,
+    taskType: options.scope?.taskType,
+    configId,
+  });
+
+  const buildBody = (messages: ChatMessage[], options: ChatOptions, stream: boolean): Record<string, unknown> => {
+    const modelOptions: Record<string, number> = {};
+    if (options.temperature !== undefined) {
+      modelOptions.temperature = options.temperature;
+    }
+    // 只有明确指定 maxTokens 时才添加限制
+    if (options.maxTokens !== undefined) {
+      modelOptions.num_predict = options.maxTokens;
+    }
+    return {
+      model,
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      stream,
+      ...(options.jsonMode ? { format: 'json' } : {}),
+      ...(Object.keys(modelOptions).length > 0 ? { options: modelOptions } : {}),
+    };
+  };
+
+  const provider: LLMProvider = {
+    name: `ollama/${model}`,
+    async chat(messages, options = {}) {
+      const label = options.label || 'chat';
+      const finish = trackCall(getCallContext(options), llmConfig, messages, options, false);
+
+      try {
+        const res = await postJSONWithRetry(
+          `${baseURL}/api/chat`,
+          headers,
+          buildBody(messages, options, false),
+          retryOptions(label)
+        );
+
+        if (!res.ok) {
+          const err = await res.text();
+          throw new Error(`Ollama ${label} error (${res.status}): ${err}`);
+        }
+
+        const data = await res.json();
+        if (data?.error) {
+          throw new Error(`Ollama ${label} error: ${data.error}`);
+        }
+        const text: string = data?.message?.content || '';
+
+        finish({ text, usage: toOllamaUsage(data) });
+        return text;
+      } catch (error) {
+        finish({ text: '', usage: null, error });
+        throw error;
+      }
+    },
+    async *chatStream(messages, options = {}) {
+      const label = options.label || 'chat';
+      const finish = trackCall(getCallContext(options), llmConfig, messages, options, true);
+      let text = '';
+      let usage: TokenUsage | null = null;
+      let failure: unknown;
+
+      try {
+        const res = await postJSONWithRetry(
+          `${baseURL}/api/chat`,
+          headers,
+          buildBody(messages, options, true),
+          retryOptions(label)
+        );
+
+        if (!res.ok || !res.body) {
+          const err = await res.text();
+          throw new Error(`Ollama ${label} stream error (${res.status}): ${err}`);
+        }
+
+        // NDJSON：每行一个 chunk，最后一行 done=true 携带 token 统计
+        for await (const line of readStreamLines(res.body)) {
+          if (!line.trim()) continue;
+          const data = JSON.parse(line);
+          if (data?.error) {
+            throw new Error(`Ollama ${label} stream error: ${data.error}`);
+          }
+          const delta: string | undefined = data?.message?.content;
+          if (delta) {
+            text += delta;
+            yield delta;
+          }
+          if (data?.done) {
+            usage = toOllamaUsage(data);
+          }
+        }
+      } catch (error) {
+        failure = error;
         throw error;
+      } finally {
+        finish({ text, usage, error: failure });
       }
     },
   };
@@ -313,6 +960,22 @@ function createProviderFromEnv(): LLMProvider {
         model: process.env.GEMINI_MODEL ?? 'gemini-2.0-flash',
         source: 'env',
       });
+    case 'anthropic':
+      return createAnthropicProvider({
+        provider: 'anthropic',
+        apiKey: process.env.ANTHROPIC_API_KEY || '',
+        baseURL: process.env.ANTHROPIC_BASE_URL || ANTHROPIC_API_BASE,
+        model: process.env.ANTHROPIC_MODEL ?? 'claude-3-5-haiku-latest',
+        source: 'env',
+      });
+    case 'ollama':
+      return createOllamaProvider({
+        provider: 'ollama',
+        apiKey: process.env.OLLAMA_API_KEY || '',
+        baseURL: process.env.OLLAMA_BASE_URL || OLLAMA_API_BASE,
+        model: process.env.OLLAMA_MODEL ?? 'llama3.1',
+        source: 'env',
+      });
     case 'openai':
     default:
       return createOpenAIProvider({
@@ -361,7 +1024,7 @@ export async function getUserLLMProvider(userId: number, taskType?: string): Pro
     ? taskConfigs.filter((config) => config.task_type === null)
     : [];
 
-  const entries: FailoverEntry[] = [];
+  let entries: FailoverEntry[] = [];
   const pushEntries = (configs: LLMConfigRecord[], matchType: FailoverEntry['matchType']) => {
     for (const dbConfig of configs) {
       const provider = buildProviderFromDbConfig(dbConfig);
@@ -378,6 +1041,12 @@ export async function getUserLLMProvider(userId: number, taskType?: string): Pro
     pushEntries(defaultConfigs, 'default');
   }
 
+  const exceededBudgets = await getExceededLLMBudgets(userId, taskType);
+  if (exceededBudgets.length > 0) {
+    entries = await applyExceededBudgets(userId, taskType, entries, exceededBudgets);
+  }
+  const scope: LLMUsageScope = { userId, taskType };
+
   if (entries.length === 0 && !taskType) {
     throw new Error(
       `未找到用户 ${userId} 的 LLM 配置。` +
@@ -390,7 +1059,7 @@ export async function getUserLLMProvider(userId: number, taskType?: string): Pro
       { userId, taskType },
       '未找到任务类型或默认 LLM 配置，fallback 到环境变量默认配置'
     );
-    return getLLM();
+    return withUsageScope(getLLM(), scope);
   }
 
   if (taskType) {
@@ -473,11 +1142,79 @@ export async function getUserLLMProvider(userId: number, taskType?: string): Pro
   }
 
   if (entries.length === 1) {
-    return entries[0].provider;
+    return withUsageScope(entries[0].provider, scope);
   }
 
   const failoverProvider = createFailoverProvider(entries);
-  return failoverProvider;
+  return withUsageScope(failoverProvider, scope);
+}
+
+/**
+ * Apply exceeded monthly budgets to the failover chain
+ *
+ * - 不限配置的预算：block 直接抛出 LLMBudgetExceededError；downgrade 整条链替换为降级配置
+ * - 指定配置的预算：该配置从链中移除（downgrade 时原位替换为降级配置）
+ *
+ * @throws LLMBudgetExceededError if no config remains usable
+ */
+async function applyExceededBudgets(
+  userId: number,
+  taskType: string | undefined,
+  entries: FailoverEntry[],
+  budgets: LLMBudgetWithUsage[]
+): Promise<FailoverEntry[]> {
+  const buildDowngradeEntry = async (budget: LLMBudgetWithUsage): Promise<FailoverEntry | null> => {
+    if (budget.action !== 'downgrade' || budget.downgrade_config_id === null) return null;
+    const dbConfig = await getLLMConfigById(budget.downgrade_config_id, userId);
+    const provider = dbConfig ? buildProviderFromDbConfig(dbConfig) : null;
+    return provider && dbConfig
+      ? { configId: dbConfig.id, provider, matchType: 'downgrade', taskType }
+      : null;
+  };
+
+  const globalBudgets = budgets.filter((budget) => budget.config_id === null);
+  const blocking = globalBudgets.find((budget) => budget.action === 'block');
+  if (blocking) {
+    throw new LLMBudgetExceededError(userId, taskType, blocking.id);
+  }
+
+  for (const budget of globalBudgets) {
+    const downgrade = await buildDowngradeEntry(budget);
+    if (downgrade) {
+      log.warn(
+        { userId, taskType, budgetId: budget.id, downgradeConfigId: downgrade.configId, downgradeProvider: downgrade.provider.name },
+        'LLM 月度预算已超出，降级到指定配置'
+      );
+      return [downgrade];
+    }
+  }
+  if (globalBudgets.length > 0) {
+    // 降级配置不存在或不可用
+    throw new LLMBudgetExceededError(userId, taskType, globalBudgets[0].id);
+  }
+
+  const result: FailoverEntry[] = [];
+  for (const entry of entries) {
+    const budget = budgets.find((item) => item.config_id === entry.configId);
+    if (!budget) {
+      result.push(entry);
+      continue;
+    }
+
+    const downgrade = await buildDowngradeEntry(budget);
+    if (downgrade && !result.some((item) => item.configId === downgrade.configId)) {
+      result.push(downgrade);
+    }
+    log.warn(
+      { userId, taskType, budgetId: budget.id, configId: entry.configId, downgradeConfigId: downgrade?.configId },
+      'LLM 配置月度预算已超出，从候选链中移除'
+    );
+  }
+
+  if (entries.length > 0 && result.length === 0) {
+    throw new LLMBudgetExceededError(userId, taskType, budgets[0].id);
+  }
+  return result;
 }
 
 /**
@@ -496,6 +1233,10 @@ export function createLLMProvider(llmConfig: LLMConfigOptions, configId?: number
   switch (llmConfig.provider) {
     case 'gemini':
       return createGeminiProvider(normalizedConfig, configId);
+    case 'anthropic':
+      return createAnthropicProvider(normalizedConfig, configId);
+    case 'ollama':
+      return createOllamaProvider(normalizedConfig, configId);
     case 'openai':
     case 'custom':
     default:
@@ -506,13 +1247,15 @@ export function createLLMProvider(llmConfig: LLMConfigOptions, configId?: number
 function buildProviderFromDbConfig(dbConfig: LLMConfigRecord): LLMProvider | null {
   try {
     const llmConfig: LLMConfigOptions = {
-      provider: dbConfig.provider as 'openai' | 'gemini' | 'custom',
+      provider: dbConfig.provider as LLMProviderType,
       baseURL: dbConfig.base_url,
       apiKey: decryptAPIKey(dbConfig.api_key_encrypted, config.llmEncryptionKey),
       model: dbConfig.model,
       timeout: dbConfig.timeout,
       maxRetries: dbConfig.max_retries,
       source: 'db',
+      inputPrice: dbConfig.input_price,
+      outputPrice: dbConfig.output_price,
     };
     return createLLMProvider(llmConfig, dbConfig.id);
   } catch (error) {
@@ -521,6 +1264,23 @@ function buildProviderFromDbConfig(dbConfig: LLMConfigRecord): LLMProvider | nul
   }
 }
 
+/**
+ * Environment default provider used after every configured provider failed
+ *
+ * 环境变量配置的用量计入不限配置的预算：调用前重新检查，已超出时抛出 LLMBudgetExceededError，
+ * 不绕过 block / downgrade。
+ */
+async function getEnvFallbackLLM(scope: LLMUsageScope | undefined): Promise<LLMProvider> {
+  if (scope?.userId !== undefined) {
+    const exceeded = (await getExceededLLMBudgets(scope.userId, scope.taskType))
+      .filter((budget) => budget.config_id === null);
+    if (exceeded.length > 0) {
+      throw new LLMBudgetExceededError(scope.userId, scope.taskType, exceeded[0].id);
+    }
+  }
+  return getLLM();
+}
+
 function createFailoverProvider(entries: FailoverEntry[]): LLMProvider {
   const names = entries.map((entry) => `${entry.provider.name}[${entry.matchType}]`).join(' -> ');
   const provider: LLMProvider = {
@@ -593,7 +1353,74 @@ function createFailoverProvider(entries: FailoverEntry[]): LLMProvider {
         },
         '全部 LLM 配置均失败，fallback 到环境变量默认配置'
       );
-      return getLLM().chat(messages, options);
+      const fallback = await getEnvFallbackLLM(options.scope);
+      return fallback.chat(messages, options);
+    },
+    async *chatStream(messages, options = {}) {
+      let lastError: Error | null = null;
+      for (let index = 0; index < entries.length; index++) {
+        const entry = entries[index];
+        const nextEntry = entries[index + 1];
+        let started = false;
+        try {
+          for await (const chunk of entry.provider.chatStream(messages, options)) {
+            started = true;
+            yield chunk;
+          }
+          if (started) {
+            if (index > 0) {
+              log.info(
+                {
+                  label: options.label,
+                  activeConfigId: entry.configId,
+                  activeProvider: entry.provider.name,
+                  activeMatchType: entry.matchType,
+                  attempt: index + 1,
+                },
+                'LLM failover recovered with fallback config'
+              );
+            }
+            return;
+          }
+          lastError = new Error('空响应');
+          log.warn(
+            {
+              label: options.label,
+              configId: entry.configId,
+              provider: entry.provider.name,
+              matchType: entry.matchType,
+              attempt: index + 1,
+              nextConfigId: nextEntry?.configId,
+              nextProvider: nextEntry?.provider.name,
+            },
+            'LLM 流式空响应，切换到下一个配置'
+          );
+        } catch (error) {
+          // 已输出部分内容时无法切换配置
+          if (started) throw error;
+          lastError = error instanceof Error ? error : new Error('未知错误');
+          log.warn(
+            {
+              error: lastError,
+              label: options.label,
+              configId: entry.configId,
+              provider: entry.provider.name,
+              matchType: entry.matchType,
+              attempt: index + 1,
+              nextConfigId: nextEntry?.configId,
+              nextProvider: nextEntry?.provider.name,
+            },
+            'LLM 流式调用失败，切换到下一个配置'
+          );
+        }
+      }
+
+      log.warn(
+        { label: options.label, lastError: lastError?.message },
+        '全部 LLM 配置均失败，fallback 到环境变量默认配置'
+      );
+      const fallback = await getEnvFallbackLLM(options.scope);
+      yield* fallback.chatStream(messages, options);
     },
   };
 
@@ -3,41 +3,56 @@
  *
  * JWT-based authentication using cookie sessions.
  * Provides authentication for both API routes and page routes.
- * Supports role-based access control (admin/guest).
- * 
- * Note: Password verification uses a simple comparison for development.
- * For production, consider using proper bcrypt hashing.
+ * Supports role-based access control: account role (admin/member/guest) for system settings,
+ * workspace role (owner/editor/reader) for workspace data.
+ *
+ * 会话每次请求都会回查用户：禁用账户、修改密码前签发的会话立即失效，角色变更即时生效。
  */
 
 import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
 import { config } from '../config.js';
-import crypto from 'crypto';
+import { verifyApiToken, type ApiTokenScope } from '../api/api-tokens.js';
+import { authenticateUser, getSessionUser } from '../api/users.js';
+import { hasWorkspaceRole, resolveWorkspace, type WorkspaceRole } from '../api/workspaces.js';
+import { logger } from '../logger.js';
+import { LoginLimiter } from '../utils/login-limiter.js';
+
+const log = logger.child({ module: 'auth' });
 
 /**
  * Auth request interface with user info
+ *
+ * - userId: 登录用户
+ * - effectiveUserId: 当前工作区所有者（工作区数据按该 user_id 隔离）
  */
 export interface AuthRequest extends Request {
   userId?: number;
   effectiveUserId?: number;
+  workspaceId?: number;
+  workspaceRole?: WorkspaceRole;
   user?: { id: number; username?: string; role?: string };
 }
 
 /**
- * User roles
+ * User roles (account level)
+ * admin：系统管理员；member：普通租户（个人设置与渠道）；guest：访客
  */
-export type UserRole = 'admin' | 'guest';
+export type UserRole = 'admin' | 'member' | 'guest';
 
 /**
  * Role hierarchy for permission checking
  */
 const ROLE_HIERARCHY: Record<UserRole, number> = {
-  admin: 2,
+  admin: 3,
+  member: 2,
   guest: 1,
 };
 
 const COOKIE_NAME = 'rss_session';
 const COOKIE_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+const WORKSPACE_COOKIE_NAME = 'rss_workspace';
+const WORKSPACE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60 * 1000; // 1 year
 
 /**
  * JWT payload structure
@@ -46,8 +61,16 @@ interface JWTPayload {
   userId: number;
   username?: string;
   role?: string;
+  /** 签发时间（秒），由 jsonwebtoken 自动写入 */
+  iat?: number;
 }
 
+const loginLimiter = new LoginLimiter({
+  maxFailuresPerUser: config.loginMaxFailuresPerUser,
+  maxFailuresPerIp: config.loginMaxFailuresPerIp,
+  lockoutMs: config.loginLockoutMinutes * 60 * 1000,
+});
+
 /**
  * Create JWT token for user
  */
@@ -87,12 +110,63 @@ export function setSessionCookie(res: Response, token: string): void {
  */
 export function clearSessionCookie(res: Response): void {
   res.clearCookie(COOKIE_NAME, { path: '/' });
+  res.clearCookie(WORKSPACE_COOKIE_NAME, { path: '/' });
+}
+
+/**
+ * Set active workspace cookie
+ */
+export function setWorkspaceCookie(res: Response, workspaceId: number): void {
+  res.cookie(WORKSPACE_COOKIE_NAME, String(workspaceId), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: WORKSPACE_COOKIE_MAX_AGE,
+    path: '/',
+  });
+}
+
+/**
+ * Validate the session against the current account state and set user fields on request
+ * @returns false if the account no longer exists, is disabled, or changed password after the token was issued
+ */
+async function applySessionUser(req: AuthRequest, payload: JWTPayload): Promise<boolean> {
+  const user = await getSessionUser(payload.userId);
+  if (!user || user.disabled) {
+    return false;
+  }
+  if (user.passwordChangedAt && payload.iat !== undefined
+    && Math.floor(new Date(user.passwordChangedAt).getTime() / 1000) > payload.iat) {
+    return false;
+  }
+
+  req.userId = user.id;
+  req.user = { id: user.id, username: user.username, role: user.role };
+  return true;
+}
+
+/**
+ * Resolve active workspace and set workspace fields on request
+ *
+ * 不属于任何工作区的用户（如未分配的 guest）只能访问自己的数据，且无写权限。
+ */
+async function applyWorkspace(req: AuthRequest): Promise<void> {
+  const requested = parseInt(String(req.cookies?.[WORKSPACE_COOKIE_NAME] ?? ''), 10);
+  const workspace = await resolveWorkspace(req.user!, Number.isNaN(requested) ? undefined : requested);
+
+  if (workspace) {
+    req.workspaceId = workspace.workspaceId;
+    req.workspaceRole = workspace.role;
+    req.effectiveUserId = workspace.ownerUserId;
+  } else {
+    req.effectiveUserId = req.userId;
+  }
 }
 
 /**
  * Require authentication middleware
  */
-export function requireAuth(req: AuthRequest, res: Response, next: NextFunction): void {
+export async function requireAuth(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
   const token = req.cookies?.[COOKIE_NAME];
 
   if (!token) {
@@ -106,31 +180,57 @@ export function requireAuth(req: AuthRequest, res: Response, next: NextFunction)
     return;
   }
 
-  req.userId = payload.userId;
-  req.user = { id: payload.userId, username: payload.username, role: payload.role };
-  // Set effectiveUserId: guest users read admin's data (user_id=1), others use their own
-  req.effectiveUserId = payload.role === 'guest' ? 1 : (payload.userId || 1);
+  try {
+    if (!await applySessionUser(req, payload)) {
+      clearSessionCookie(res);
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    await applyWorkspace(req);
+  } catch (error) {
+    log.error({ error, userId: payload.userId }, 'Failed to resolve session');
+    res.status(500).json({ error: 'Failed to resolve session' });
+    return;
+  }
   next();
 }
 
 /**
  * Optional authentication middleware
  */
-export function optionalAuth(req: AuthRequest, res: Response, next: NextFunction): void {
+export async function optionalAuth(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
   const token = req.cookies?.[COOKIE_NAME];
 
   if (token) {
     const payload = verifyToken(token);
     if (payload) {
-      req.userId = payload.userId;
-      req.user = { id: payload.userId, username: payload.username, role: payload.role };
-      req.effectiveUserId = payload.role === 'guest' ? 1 : (payload.userId || 1);
+      try {
+        if (await applySessionUser(req, payload)) {
+          try {
+            await applyWorkspace(req);
+          } catch (error) {
+            log.error({ error, userId: payload.userId }, 'Failed to resolve workspace');
+            req.effectiveUserId = req.userId;
+          }
+        } else {
+          clearSessionCookie(res);
+        }
+      } catch (error) {
+        log.error({ error, userId: payload.userId }, 'Failed to load session user');
+      }
     }
   }
 
   next();
 }
 
+/**
+ * Check if the request may modify data of the active workspace (owner / editor)
+ */
+export function canWriteWorkspace(req: AuthRequest): boolean {
+  return hasWorkspaceRole(req.workspaceRole, 'editor');
+}
+
 /**
  * Check if user has required role or higher
  */
@@ -159,26 +259,56 @@ export function requireAdmin(req: AuthRequest, res: Response, next: NextFunction
 }
 
 /**
- * Require write access middleware
+ * Require member role or higher (non-guest account) middleware
+ * 账户级个人资源（通知渠道、API 令牌等）只要求非访客账户，不要求系统管理员
+ */
+export function requireMember(req: AuthRequest, res: Response, next: NextFunction): void {
+  if (!hasRole(req.user?.role, 'member')) {
+    if (req.path.startsWith('/api/')) {
+      res.status(403).json({ error: '权限不足，访客账户无法执行此操作' });
+      return;
+    }
+    res.status(403).render('error', {
+      pageTitle: '权限不足',
+      error: '访客账户无法执行此操作',
+    });
+    return;
+  }
+  next();
+}
+
+/**
+ * Require write access middleware (workspace owner / editor)
  */
 export function requireWriteAccess(req: AuthRequest, res: Response, next: NextFunction): void {
-  if (!hasRole(req.user?.role, 'admin')) {
+  if (!canWriteWorkspace(req)) {
     if (req.path.startsWith('/api/')) {
-      res.status(403).json({ error: '权限不足，访客用户只能读取数据' });
+      res.status(403).json({ error: '权限不足，只读成员只能读取数据' });
       return;
     }
     res.status(403).render('error', {
       pageTitle: '权限不足',
-      error: '访客用户只能读取数据，无法执行此操作',
+      error: '只读成员只能读取数据，无法执行此操作',
     });
     return;
   }
   next();
 }
 
+/**
+ * Require workspace owner middleware (membership management)
+ */
+export function requireWorkspaceOwner(req: AuthRequest, res: Response, next: NextFunction): void {
+  if (!hasWorkspaceRole(req.workspaceRole, 'owner')) {
+    res.status(403).json({ error: '权限不足，需要工作区所有者权限' });
+    return;
+  }
+  next();
+}
+
 /**
  * Require search summary access middleware
- * Allows guest access if config permits, otherwise requires admin
+ * Allows read-only members if config permits, otherwise requires write access
  */
 export function requireSearchSummaryAccess(req: AuthRequest, res: Response, next: NextFunction): void {
   // If config allows guest access, skip permission check
@@ -186,8 +316,8 @@ export function requireSearchSummaryAccess(req: AuthRequest, res: Response, next
     return next();
   }
 
-  // Otherwise, require admin access
-  if (!hasRole(req.user?.role, 'admin')) {
+  // Otherwise, require write access to the workspace
+  if (!canWriteWorkspace(req)) {
     if (req.path.startsWith('/api/')) {
       res.status(403).json({ error: '权限不足，需要管理员权限' });
       return;
@@ -208,83 +338,48 @@ export interface LoginResult {
   success: boolean;
   error?: string;
   role?: string;
-}
-
-/**
- * Hash password using SHA256 (for development/simple use)
- */
-export function hashPassword(password: string): string {
-  return crypto.createHash('sha256').update(password).digest('hex');
-}
-
-/**
- * Verify password against stored hash
- * Supports both bcrypt format ($2a$...) and SHA256 format
- */
-async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
-  // If the hash starts with $2a$, it's a bcrypt hash
-  if (storedHash.startsWith('$2a$') || storedHash.startsWith('$2b$')) {
-    try {
-      // Dynamically load bcryptjs
-      const { createRequire } = await import('module');
-      const require = createRequire(import.meta.url);
-      const bcrypt = require('bcryptjs');
-      
-      if (typeof bcrypt.compareSync === 'function') {
-        return bcrypt.compareSync(password, storedHash);
-      } else {
-        console.error('[verifyPassword] bcrypt.compareSync is not a function');
-        // Fallback: compare with SHA256 of the password
-        const sha256Hash = hashPassword(password);
-        return sha256Hash === storedHash;
-      }
-    } catch (error) {
-      console.error('[verifyPassword] bcrypt error:', error);
-      return false;
-    }
-  }
-  
-  // Otherwise, compare as SHA256
-  const sha256Hash = hashPassword(password);
-  return sha256Hash === storedHash;
+  /** 被限流时的剩余锁定秒数 */
+  retryAfterSeconds?: number;
 }
 
 /**
  * Login handler
+ * 按用户名与 IP 限流：窗口内失败次数达到上限后锁定，锁定期间不再校验密码
  */
 export async function handleLogin(
   username: string,
   password: string,
-  res: Response
+  res: Response,
+  ip = 'unknown'
 ): Promise<LoginResult> {
-  const { getDb } = await import('../db.js');
-  const db = getDb();
-
-  // Get user from database
-  const user = await db
-    .selectFrom('users')
-    .where('username', '=', username)
-    .selectAll()
-    .executeTakeFirst();
-
-  if (!user) {
-    return { success: false, error: 'Invalid username or password' };
+  const lock = loginLimiter.check(username, ip);
+  if (lock.locked) {
+    log.warn({ username, ip, retryAfterSeconds: lock.retryAfterSeconds }, 'Login rejected: locked out');
+    return {
+      success: false,
+      error: `Too many failed login attempts, try again in ${Math.ceil(lock.retryAfterSeconds / 60)} minutes`,
+      retryAfterSeconds: lock.retryAfterSeconds,
+    };
   }
 
-  // Get the role
-  const role = (user as any).role || 'admin';
-
-  // Verify password
-  const passwordValid = await verifyPassword(password, user.password_hash);
-  
-  if (!passwordValid) {
+  const user = await authenticateUser(username, password);
+  if (!user) {
+    loginLimiter.recordFailure(username, ip);
     return { success: false, error: 'Invalid username or password' };
   }
 
-  const token = createToken(user.id, user.username, role);
+  loginLimiter.recordSuccess(username);
+  const token = createToken(user.id, user.username, user.role);
   setSessionCookie(res, token);
 
-  return { success: true, role };
+  return { success: true, role: user.role };
+}
+
+/**
+ * Re-issue the session cookie (e.g. after the user changed the password)
+ */
+export function refreshSession(res: Response, user: { id: number; username?: string; role?: string }): void {
+  setSessionCookie(res, createToken(user.id, user.username, user.role));
 }
 
 /**
@@ -295,61 +390,79 @@ export function handleLogout(res: Response): void {
 }
 
 /**
- * CLI authentication middleware
+ * Extract API token from request
+ * 支持 `Authorization: Bearer <token>`、`x-api-key` 头，以及兼容旧 CLI 的 `api_key` 查询参数
  */
-export async function requireCliAuth(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
-  const cliApiKey = process.env.CLI_API_KEY;
-
-  if (!cliApiKey) {
-    res.status(500).json({ status: 'error', error: 'CLI_API_KEY not configured on server' });
-    return;
+function getPresentedApiToken(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || undefined;
   }
-
-  const userIdStr = req.query.user_id as string;
-  if (!userIdStr) {
-    res.status(400).json({ status: 'error', error: 'Missing user_id parameter' });
-    return;
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) {
+    return header;
   }
+  const query = req.query.api_key;
+  return typeof query === 'string' && query ? query : undefined;
+}
 
-  const userId = parseInt(userIdStr, 10);
-  if (isNaN(userId)) {
-    res.status(400).json({ status: 'error', error: 'Invalid user_id parameter' });
-    return;
-  }
+/**
+ * API token authentication middleware (external / CLI endpoints)
+ *
+ * userId 由 token 所属用户决定；请求中的 user_id 仅做一致性校验（不一致返回 403）。
+ */
+export function requireApiToken(scope: ApiTokenScope) {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    const token = getPresentedApiToken(req);
+    if (!token) {
+      res.status(401).json({ status: 'error', error: 'Missing API token' });
+      return;
+    }
 
-  const apiKeyQuery = req.query.api_key as string;
-  const apiKeyHeader = req.headers['x-api-key'] as string;
-  const providedApiKey = apiKeyQuery || apiKeyHeader;
+    try {
+      const verified = await verifyApiToken(token);
+      if (!verified) {
+        res.status(401).json({ status: 'error', error: 'Invalid or expired API token' });
+        return;
+      }
 
-  if (!providedApiKey) {
-    res.status(401).json({ status: 'error', error: 'Missing api_key' });
-    return;
-  }
+      if (!verified.scopes.includes(scope)) {
+        res.status(403).json({ status: 'error', error: `API token lacks required scope: ${scope}` });
+        return;
+      }
 
-  if (providedApiKey !== cliApiKey) {
-    res.status(401).json({ status: 'error', error: 'Invalid api_key' });
-    return;
-  }
+      const requestedUserId = req.query.user_id;
+      if (requestedUserId !== undefined && parseInt(String(requestedUserId), 10) !== verified.userId) {
+        res.status(403).json({ status: 'error', error: 'user_id does not match API token owner' });
+        return;
+      }
 
-  try {
-    const { getDb } = await import('../db.js');
-    const db = getDb();
-    const user = await db
-      .selectFrom('users')
-      .where('id', '=', userId)
-      .selectAll()
-      .executeTakeFirst();
-
-    if (!user) {
-      res.status(404).json({ status: 'error', error: 'User not found' });
-      return;
-    }
+      const { getDb } = await import('../db.js');
+      const db = getDb();
+      const user = await db
+        .selectFrom('users')
+        .where('id', '=', verified.userId)
+        .select(['id', 'username', 'role', 'disabled'])
+        .executeTakeFirst();
+
+      if (!user || user.disabled === 1) {
+        res.status(401).json({ status: 'error', error: 'Invalid or expired API token' });
+        return;
+      }
 
-    req.userId = userId;
-    req.user = { id: userId, username: user.username };
-    next();
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Database error';
-    res.status(500).json({ status: 'error', error: message });
-  }
+      req.userId = user.id;
+      req.user = { id: user.id, username: user.username, role: user.role };
+      await applyWorkspace(req);
+
+      // 写类权限还需当前工作区的写权限
+      if (scope !== 'search:read' && !canWriteWorkspace(req)) {
+        res.status(403).json({ status: 'error', error: 'API token owner has read-only workspace access' });
+        return;
+      }
+      next();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Database error';
+      res.status(500).json({ status: 'error', error: message });
+    }
+  };
 }
@@ -0,0 +1,53 @@
+/**
+ * Notification Digest Scheduler
+ *
+ * 每分钟检查被推送规则暂缓的新增文章（notification_digest_items），
+ * 免打扰结束、合并间隔到期且未超过每小时上限时，按接收者合并为一条摘要发送（见 notifications/rules.ts）。
+ */
+
+import { logger } from './logger.js';
+import { BaseScheduler } from './utils/base-scheduler.js';
+import { flushNotificationDigests } from './notifications/index.js';
+
+const log = logger.child({ module: 'notification-digest-scheduler' });
+
+export class NotificationDigestScheduler extends BaseScheduler {
+  private static instance: NotificationDigestScheduler | null = null;
+  private flushing = false;
+
+  get schedulerName(): string { return 'Notification digest scheduler'; }
+  get cronSchedule(): string { return '* * * * *'; }
+
+  static getInstance(): NotificationDigestScheduler {
+    if (!NotificationDigestScheduler.instance) {
+      NotificationDigestScheduler.instance = new NotificationDigestScheduler();
+    }
+    return NotificationDigestScheduler.instance;
+  }
+
+  protected async run(): Promise<void> {
+    // 上一轮仍在发送时跳过本轮
+    if (this.flushing) return;
+    this.flushing = true;
+
+    try {
+      const { digests, articles } = await flushNotificationDigests();
+      if (digests > 0) {
+        log.info({ digests, articles }, 'Notification digests sent');
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  protected async waitForCompletion(): Promise<void> {
+    await this.pollWhile(() => this.flushing, 30000);
+  }
+}
+
+/**
+ * Initialize and return the scheduler singleton
+ */
+export function initNotificationDigestScheduler(): NotificationDigestScheduler {
+  return NotificationDigestScheduler.getInstance();
+}
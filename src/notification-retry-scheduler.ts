@@ -0,0 +1,53 @@
+/**
+ * Notification Retry Scheduler
+ *
+ * 每分钟重试 notification_deliveries 中到期的失败推送（指数退避，见 api/notification-deliveries.ts），
+ * 以及进程在发送途中退出而遗留的 sending 记录。
+ */
+
+import { logger } from './logger.js';
+import { BaseScheduler } from './utils/base-scheduler.js';
+import { retryNotificationDeliveries } from './notifications/index.js';
+
+const log = logger.child({ module: 'notification-retry-scheduler' });
+
+export class NotificationRetryScheduler extends BaseScheduler {
+  private static instance: NotificationRetryScheduler | null = null;
+  private retrying = false;
+
+  get schedulerName(): string { return 'Notification retry scheduler'; }
+  get cronSchedule(): string { return '* * * * *'; }
+
+  static getInstance(): NotificationRetryScheduler {
+    if (!NotificationRetryScheduler.instance) {
+      NotificationRetryScheduler.instance = new NotificationRetryScheduler();
+    }
+    return NotificationRetryScheduler.instance;
+  }
+
+  protected async run(): Promise<void> {
+    // 上一轮仍在发送（渠道超时较长）时跳过本轮
+    if (this.retrying) return;
+    this.retrying = true;
+
+    try {
+      const { retried, sent } = await retryNotificationDeliveries();
+      if (retried > 0) {
+        log.info({ retried, sent }, 'Notification deliveries retried');
+      }
+    } finally {
+      this.retrying = false;
+    }
+  }
+
+  protected async waitForCompletion(): Promise<void> {
+    await this.pollWhile(() => this.retrying, 30000);
+  }
+}
+
+/**
+ * Initialize and return the scheduler singleton
+ */
+export function initNotificationRetryScheduler(): NotificationRetryScheduler {
+  return NotificationRetryScheduler.getInstance();
+}
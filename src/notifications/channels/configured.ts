@@ -0,0 +1,105 @@
+/**
+ * Configured channels (Slack / Discord / generic webhook / email)
+ *
+ * 每种渠道类型一个 ConfiguredChannel 实例：按事件取该用户订阅了对应推送类型的渠道配置，
+ * 渲染一次通用 Markdown 消息，由投递队列逐个渠道发送；渠道配置（含密钥）不写入载荷，发送时按 ID 读取。
+ */
+
+import { logger } from '../../logger.js';
+import type { PushType } from '../../constants/push-types.js';
+import {
+  getChannelsForPushTypes,
+  getNotificationChannelTarget,
+  type NotificationChannelTarget,
+  type NotificationChannelType,
+} from '../../api/notification-channels.js';
+import { formatNotificationMessage, formatTestNotificationMessage } from '../formatters.js';
+import type { NotificationChannel, NotificationDelivery, NotificationEvent, NotificationMessage } from '../types.js';
+import { sendSlackMessage } from './slack.js';
+import { sendDiscordMessage } from './discord.js';
+import { sendWebhookMessage, toWebhookEnvelope, type WebhookEnvelope } from './webhook.js';
+import { sendEmailMessage } from './email.js';
+
+const log = logger.child({ module: 'notification-channels' });
+
+/**
+ * Push types a recipient may subscribe to in order to receive the event
+ * `all` 类型的每日总结订阅期刊或资讯任一即可收到；新增文章摘要与订阅搜索匹配发给订阅新增文章的渠道
+ */
+export function getSubscribedPushTypes(event: NotificationEvent): PushType[] {
+  if (event.type === 'daily_summary_journal' && event.data.summaryType === 'all') {
+    return ['daily_summary_journal', 'daily_summary_blog_news'];
+  }
+  if (event.type === 'new_articles_digest' || event.type === 'saved_search_matches') {
+    return ['new_articles'];
+  }
+  return [event.type];
+}
+
+export interface ConfiguredChannelPayload {
+  message: NotificationMessage;
+  /** 仅通用 Webhook 使用 */
+  webhook?: WebhookEnvelope;
+}
+
+async function sendToTarget(
+  target: NotificationChannelTarget,
+  message: NotificationMessage,
+  envelope: WebhookEnvelope | null
+): Promise<void> {
+  switch (target.type) {
+    case 'slack':
+      return sendSlackMessage(target.config, message);
+    case 'discord':
+      return sendDiscordMessage(target.config, message);
+    case 'webhook':
+      return sendWebhookMessage(target.config, message, envelope);
+    case 'email':
+      return sendEmailMessage(target.config, message);
+  }
+}
+
+export class ConfiguredChannel implements NotificationChannel<ConfiguredChannelPayload> {
+  constructor(readonly name: NotificationChannelType) {}
+
+  async prepare(userId: number, event: NotificationEvent): Promise<NotificationDelivery<ConfiguredChannelPayload>[]> {
+    const targets = await getChannelsForPushTypes(userId, this.name, getSubscribedPushTypes(event));
+    if (targets.length === 0) return [];
+
+    const payload: ConfiguredChannelPayload = {
+      message: formatNotificationMessage(event),
+      webhook: this.name === 'webhook' ? toWebhookEnvelope(event) : undefined,
+    };
+    return targets.map((target) => ({ recipient: String(target.id), recipientName: target.name, payload }));
+  }
+
+  async deliver(userId: number, recipient: string, payload: ConfiguredChannelPayload): Promise<void> {
+    const target = await getNotificationChannelTarget(userId, parseInt(recipient, 10));
+    if (!target) {
+      throw new Error('通知渠道未找到');
+    }
+    await sendToTarget(target, payload.message, payload.webhook ?? null);
+  }
+}
+
+/**
+ * Send a test message to a configured channel
+ */
+export async function testNotificationChannel(userId: number, id: number): Promise<{ success: boolean; message: string }> {
+  const target = await getNotificationChannelTarget(userId, id);
+  if (!target) {
+    return { success: false, message: '通知渠道未找到' };
+  }
+
+  try {
+    await sendToTarget(target, formatTestNotificationMessage(), null);
+    log.info({ userId, channelId: id, type: target.type }, 'Notification channel test successful');
+    return { success: true, message: '连接测试成功！测试消息已发送。' };
+  } catch (error) {
+    log.error({ userId, channelId: id, type: target.type, error }, 'Notification channel test failed');
+    return {
+      success: false,
+      message: `连接测试失败: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Discord Webhook sender
+ */
+
+import type { DiscordChannelConfig } from '../../api/notification-channels.js';
+import { splitMessage } from '../../utils/message-splitter.js';
+import type { NotificationMessage } from '../types.js';
+import { postJson } from './http.js';
+
+// Discord content 上限 2000 字符，按字节拆分可保证不超限
+const MAX_MESSAGE_BYTES = 1900;
+const CHUNK_SEND_DELAY_MS = 500;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function sendDiscordMessage(config: DiscordChannelConfig, message: NotificationMessage): Promise<void> {
+  const chunks = splitMessage(`**${message.title}**\n\n${message.markdown}`, MAX_MESSAGE_BYTES);
+  for (let i = 0; i < chunks.length; i++) {
+    if (i > 0) {
+      await sleep(CHUNK_SEND_DELAY_MS);
+    }
+    await postJson(
+      config.webhookUrl,
+      JSON.stringify({ content: chunks[i], allowed_mentions: { parse: [] } }),
+      { useProxy: true }
+    );
+  }
+}
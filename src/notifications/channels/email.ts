@@ -0,0 +1,34 @@
+/**
+ * SMTP Email sender
+ *
+ * 每次发送新建 transport（通知频率低，无需连接池）；正文为 Markdown 纯文本。
+ */
+
+import nodemailer from 'nodemailer';
+import type { EmailChannelConfig } from '../../api/notification-channels.js';
+import type { NotificationMessage } from '../types.js';
+
+const SMTP_TIMEOUT = 30000;
+
+export async function sendEmailMessage(config: EmailChannelConfig, message: NotificationMessage): Promise<void> {
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.username ? { user: config.username, pass: config.password || '' } : undefined,
+    connectionTimeout: SMTP_TIMEOUT,
+    greetingTimeout: SMTP_TIMEOUT,
+    socketTimeout: SMTP_TIMEOUT,
+  });
+
+  try {
+    await transport.sendMail({
+      from: config.from,
+      to: config.to,
+      subject: `[LIS-RSS] ${message.title}`,
+      text: message.url ? `${message.markdown}\n\n${message.url}` : message.markdown,
+    });
+  } finally {
+    transport.close();
+  }
+}
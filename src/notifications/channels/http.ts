@@ -0,0 +1,69 @@
+/**
+ * Shared HTTP helper for webhook-based channels
+ *
+ * Slack / Discord 需要与 Telegram 一样走 HTTP_PROXY（per-request dispatcher）；
+ * 通用 Webhook 由用户填写地址，直连且只允许连接公网地址（见 utils/public-address.ts）。
+ * 非 2xx 响应体只写服务端日志，不放进错误信息（错误会返回给测试接口的调用方）。
+ */
+
+import { Agent, ProxyAgent } from 'undici';
+import { logger } from '../../logger.js';
+import { publicLookup } from '../../utils/public-address.js';
+
+const log = logger.child({ module: 'notification-http' });
+
+const DEFAULT_TIMEOUT = 30000;
+
+let proxyAgent: ProxyAgent | null | undefined;
+let publicAgent: Agent | null = null;
+
+function getProxyAgent(): ProxyAgent | null {
+  if (proxyAgent === undefined) {
+    // 延迟初始化，确保 .env 已加载
+    proxyAgent = process.env.HTTP_PROXY ? new ProxyAgent(process.env.HTTP_PROXY) : null;
+  }
+  return proxyAgent;
+}
+
+/**
+ * Direct dispatcher that refuses non-public addresses after DNS resolution (redirects included)
+ */
+function getPublicAgent(): Agent {
+  if (!publicAgent) {
+    publicAgent = new Agent({ connect: { lookup: publicLookup } });
+  }
+  return publicAgent;
+}
+
+/**
+ * POST a JSON body; throws on network error, timeout or non-2xx status
+ */
+export async function postJson(
+  url: string,
+  body: string,
+  options: { headers?: Record<string, string>; useProxy?: boolean; publicOnly?: boolean } = {}
+): Promise<void> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      body,
+      signal: controller.signal,
+      dispatcher: options.useProxy ? getProxyAgent() : options.publicOnly ? getPublicAgent() : undefined,
+    } as any);
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      log.warn({ host: new URL(url).host, status: response.status, body: text.slice(0, 500) }, 'Webhook request rejected');
+      throw new Error(`HTTP ${response.status}`);
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
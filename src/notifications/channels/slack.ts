@@ -0,0 +1,28 @@
+/**
+ * Slack Incoming Webhook sender
+ */
+
+import type { SlackChannelConfig } from '../../api/notification-channels.js';
+import { splitMessage } from '../../utils/message-splitter.js';
+import type { NotificationMessage } from '../types.js';
+import { postJson } from './http.js';
+
+// Slack 单条消息上限 40000 字符，按字节保守拆分
+const MAX_MESSAGE_BYTES = 12000;
+
+/**
+ * Convert standard Markdown to Slack mrkdwn
+ */
+function toSlackMrkdwn(markdown: string): string {
+  return markdown
+    .replace(/^#{1,6}\s+(.+)$/gm, '*$1*')
+    .replace(/\*\*(.+?)\*\*/g, '*$1*')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<$2|$1>');
+}
+
+export async function sendSlackMessage(config: SlackChannelConfig, message: NotificationMessage): Promise<void> {
+  const text = toSlackMrkdwn(`# ${message.title}\n\n${message.markdown}`);
+  for (const chunk of splitMessage(text, MAX_MESSAGE_BYTES)) {
+    await postJson(config.webhookUrl, JSON.stringify({ text: chunk, mrkdwn: true }), { useProxy: true });
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Telegram channel adapter
+ *
+ * 接收者与推送开关仍由 telegram_chats 表决定，消息格式沿用 telegram/formatters.ts。
+ * Bot Token 不写入投递载荷，每次发送时读取当前配置。
+ */
+
+import { getTelegramNotifier } from '../../telegram/index.js';
+import {
+  formatDailySummary,
+  formatNewArticle,
+  formatNewArticlesDigest,
+  formatPdfSummary,
+  formatSavedSearchMatches,
+  createArticleKeyboard,
+} from '../../telegram/formatters.js';
+import type { InlineKeyboardMarkup } from '../../telegram/types.js';
+import {
+  getDailySummaryJournalChats,
+  getDailySummaryBlogNewsChats,
+  getJournalAllChats,
+  getNewArticlesChats,
+  getInsightsChats,
+  getPdfSummaryChats,
+  type TelegramChatConfig,
+} from '../../api/telegram-chats.js';
+import { describeArticle } from '../formatters.js';
+import type { NotificationChannel, NotificationDelivery, NotificationEvent } from '../types.js';
+
+export interface TelegramPayload {
+  text: string;
+  parseMode?: 'HTML';
+  keyboard?: InlineKeyboardMarkup;
+}
+
+async function getChatsForEvent(userId: number, event: NotificationEvent): Promise<TelegramChatConfig[]> {
+  switch (event.type) {
+    case 'new_articles':
+    case 'new_articles_digest':
+    case 'saved_search_matches':
+      return getNewArticlesChats(userId);
+    case 'pdf_summary':
+      return getPdfSummaryChats(userId);
+    case 'journal_all':
+      return getJournalAllChats(userId);
+    case 'insights':
+      return getInsightsChats(userId);
+    case 'daily_summary_blog_news':
+      return getDailySummaryBlogNewsChats(userId);
+    default: {
+      if (event.data.summaryType !== 'all') {
+        return getDailySummaryJournalChats(userId);
+      }
+      // `all` 总结：订阅期刊或资讯任一即可收到，按 chat 去重
+      const [journalChats, blogNewsChats] = await Promise.all([
+        getDailySummaryJournalChats(userId),
+        getDailySummaryBlogNewsChats(userId),
+      ]);
+      const chatMap = new Map<number, TelegramChatConfig>();
+      for (const chat of [...journalChats, ...blogNewsChats]) {
+        chatMap.set(chat.id, chat);
+      }
+      return Array.from(chatMap.values());
+    }
+  }
+}
+
+function formatPayload(event: NotificationEvent): TelegramPayload {
+  switch (event.type) {
+    case 'new_articles': {
+      const article = event.data;
+      const { sourceName, sourceType, preview } = describeArticle(article);
+      return {
+        text: formatNewArticle({
+          id: article.id,
+          title: article.title,
+          url: article.url,
+          sourceName,
+          sourceType,
+          summary: preview,
+        }),
+        parseMode: 'HTML',
+        keyboard: createArticleKeyboard(article.id, article.is_read === 1, article.rating),
+      };
+    }
+    case 'new_articles_digest':
+      return { text: formatNewArticlesDigest(event.data.articles), parseMode: 'HTML' };
+    case 'saved_search_matches':
+      return { text: formatSavedSearchMatches(event.data), parseMode: 'HTML' };
+    case 'pdf_summary':
+      return { text: formatPdfSummary(event.data) };
+    default: {
+      const { date, summaryType, totalArticles, summary, articlesByType } = event.data;
+      const type = event.type === 'journal_all' || event.type === 'insights' ? event.type : summaryType;
+      return {
+        text: formatDailySummary({ date, type, totalArticles, summary, articlesByType }),
+        parseMode: 'HTML',
+      };
+    }
+  }
+}
+
+export class TelegramChannel implements NotificationChannel<TelegramPayload> {
+  readonly name = 'telegram';
+
+  async prepare(userId: number, event: NotificationEvent): Promise<NotificationDelivery<TelegramPayload>[]> {
+    if (!(await getTelegramNotifier().getClient(userId))) return [];
+
+    const chats = await getChatsForEvent(userId, event);
+    if (chats.length === 0) return [];
+
+    const payload = formatPayload(event);
+    return chats.map((chat) => ({ recipient: chat.chatId, recipientName: chat.chatName ?? undefined, payload }));
+  }
+
+  async deliver(userId: number, recipient: string, payload: TelegramPayload): Promise<void> {
+    const client = await getTelegramNotifier().getClient(userId);
+    if (!client) {
+      throw new Error('Telegram 未配置或未启用');
+    }
+
+    const result = payload.keyboard
+      ? await client.sendMessageWithKeyboard(recipient, payload.text, payload.keyboard, payload.parseMode)
+      : await client.sendMessage(recipient, payload.text, payload.parseMode);
+
+    if (!result.ok) {
+      throw new Error(result.description || 'Telegram API returned an error');
+    }
+  }
+}
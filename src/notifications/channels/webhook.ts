@@ -0,0 +1,109 @@
+/**
+ * Generic JSON Webhook sender
+ *
+ * 请求体：{ event, sent_at, title, markdown, url?, data }
+ * 配置了 secret 时附带 X-Signature-256: sha256=<hex HMAC-SHA256(body)>，接收方可据此校验来源。
+ */
+
+import crypto from 'crypto';
+import type { WebhookChannelConfig } from '../../api/notification-channels.js';
+import type { NotificationEvent, NotificationMessage } from '../types.js';
+import { describeArticle } from '../formatters.js';
+import { postJson } from './http.js';
+
+/**
+ * Event name and data forwarded in the request body (stored with the delivery for retries)
+ */
+export interface WebhookEnvelope {
+  event: NotificationEvent['type'];
+  data: Record<string, unknown>;
+}
+
+/**
+ * Event data without bulky content fields (article bodies are not forwarded)
+ */
+function toPayloadData(event: NotificationEvent): Record<string, unknown> {
+  switch (event.type) {
+    case 'new_articles': {
+      const article = event.data;
+      const { sourceName, sourceType, preview } = describeArticle(article);
+      return {
+        id: article.id,
+        title: article.title,
+        url: article.url,
+        source_name: sourceName,
+        source_type: sourceType,
+        summary: preview ?? null,
+        published_at: article.published_at,
+      };
+    }
+    case 'new_articles_digest':
+      return {
+        articles: event.data.articles.map((article) => ({
+          id: article.id,
+          title: article.title,
+          url: article.url,
+          source_name: article.sourceName,
+          source_type: article.sourceType,
+        })),
+      };
+    case 'saved_search_matches': {
+      const { searchId, searchName, query, articles } = event.data;
+      return {
+        search_id: searchId,
+        search_name: searchName,
+        query,
+        articles: articles.map((article) => ({
+          id: article.id,
+          title: article.title,
+          url: article.url,
+          source_name: article.sourceName,
+          source_type: article.sourceType,
+          score: article.score,
+        })),
+      };
+    }
+    case 'pdf_summary':
+      return { ...event.data };
+    default: {
+      const { articles, ...rest } = event.data;
+      return {
+        ...rest,
+        articles: articles.map((article) => ({
+          id: article.id,
+          title: article.title,
+          url: article.url,
+          source_name: article.source_name,
+          source_type: article.source_type,
+          published_at: article.published_at,
+        })),
+      };
+    }
+  }
+}
+
+export function toWebhookEnvelope(event: NotificationEvent): WebhookEnvelope {
+  return { event: event.type, data: toPayloadData(event) };
+}
+
+export async function sendWebhookMessage(
+  config: WebhookChannelConfig,
+  message: NotificationMessage,
+  envelope: WebhookEnvelope | null
+): Promise<void> {
+  const body = JSON.stringify({
+    event: envelope ? envelope.event : 'test',
+    sent_at: new Date().toISOString(),
+    title: message.title,
+    markdown: message.markdown,
+    ...(message.url ? { url: message.url } : {}),
+    data: envelope ? envelope.data : null,
+  });
+
+  const headers: Record<string, string> = {};
+  if (config.secret) {
+    headers['X-Signature-256'] = 'sha256=' + crypto.createHmac('sha256', config.secret).update(body).digest('hex');
+  }
+
+  await postJson(config.url, body, { headers, publicOnly: true });
+}
@@ -0,0 +1,105 @@
+/**
+ * WeChat Work channel adapter
+ *
+ * 接收者与推送开关仍由 wechat_webhooks 表决定，消息格式沿用 wechat/formatters.ts。
+ * 投递载荷只含 Markdown 正文，webhook URL 每次发送时按 ID 重新读取（加密存储）。
+ */
+
+import { WeChatClient } from '../../wechat/client.js';
+import {
+  formatDailySummary,
+  formatJournalAllSummary,
+  formatNewArticle,
+  formatNewArticlesDigest,
+  formatPdfSummary,
+  formatSavedSearchMatches,
+} from '../../wechat/formatters.js';
+import {
+  getWebhooksForDailySummaryType,
+  getWebhooksForPushType,
+  getWeChatWebhookTarget,
+  type WeChatWebhookTarget,
+} from '../../api/wechat-webhooks.js';
+import { describeArticle } from '../formatters.js';
+import type { NotificationChannel, NotificationDelivery, NotificationEvent } from '../types.js';
+
+export interface WeChatPayload {
+  markdown: string;
+}
+
+async function getWebhooksForEvent(userId: number, event: NotificationEvent): Promise<WeChatWebhookTarget[]> {
+  switch (event.type) {
+    case 'daily_summary_journal':
+    case 'daily_summary_blog_news': {
+      const { summaryType } = event.data;
+      if (summaryType !== 'journal' && summaryType !== 'blog_news' && summaryType !== 'all') {
+        return [];
+      }
+      return getWebhooksForDailySummaryType(userId, summaryType);
+    }
+    case 'new_articles_digest':
+    case 'saved_search_matches':
+      return getWebhooksForPushType(userId, 'new_articles');
+    default:
+      return getWebhooksForPushType(userId, event.type);
+  }
+}
+
+function formatMarkdown(event: NotificationEvent): string {
+  switch (event.type) {
+    case 'new_articles': {
+      const article = event.data;
+      const { sourceName, sourceType, preview } = describeArticle(article);
+      return formatNewArticle({
+        id: article.id,
+        title: article.title,
+        url: article.url,
+        sourceName,
+        sourceType,
+        summary: preview,
+      });
+    }
+    case 'new_articles_digest':
+      return formatNewArticlesDigest(event.data.articles);
+    case 'saved_search_matches':
+      return formatSavedSearchMatches(event.data);
+    case 'pdf_summary':
+      return formatPdfSummary(event.data);
+    case 'journal_all': {
+      const { date, totalArticles, summary, articles } = event.data;
+      return formatJournalAllSummary({ date, totalArticles, summary, articles });
+    }
+    case 'insights': {
+      const { date, totalArticles, summary, articlesByType } = event.data;
+      return formatDailySummary({ date, type: 'insights', totalArticles, summary, articlesByType });
+    }
+    default: {
+      const { date, summaryType, totalArticles, summary, articlesByType } = event.data;
+      return formatDailySummary({ date, type: summaryType, totalArticles, summary, articlesByType });
+    }
+  }
+}
+
+export class WeChatChannel implements NotificationChannel<WeChatPayload> {
+  readonly name = 'wechat';
+
+  async prepare(userId: number, event: NotificationEvent): Promise<NotificationDelivery<WeChatPayload>[]> {
+    const webhooks = await getWebhooksForEvent(userId, event);
+    if (webhooks.length === 0) return [];
+
+    const payload = { markdown: formatMarkdown(event) };
+    return webhooks.map((webhook) => ({ recipient: String(webhook.id), recipientName: webhook.name, payload }));
+  }
+
+  async deliver(userId: number, recipient: string, payload: WeChatPayload): Promise<void> {
+    const webhook = await getWeChatWebhookTarget(userId, parseInt(recipient, 10));
+    if (!webhook) {
+      throw new Error('Webhook 未找到');
+    }
+
+    const success = await new WeChatClient(webhook.url).sendMarkdown(payload.markdown);
+    if (!success) {
+      throw new Error('企业微信 API 返回错误');
+    }
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Notification Dispatcher
+ *
+ * 调度器 / 路由每个事件只调用一次 dispatchNotification，由已注册的全部渠道并发发送。
+ * 新增文章先按接收者的推送规则（rules.ts）过滤或暂缓，
+ * 每个接收者经 outbox（notification_deliveries）去重、记录并在失败时排队重试；
+ * 单个渠道抛错只记录日志，不影响其他渠道，也不向调用方抛出。
+ */
+
+import { logger } from '../logger.js';
+import { NOTIFICATION_CHANNEL_TYPES } from '../api/notification-channels.js';
+import type { DispatchOptions, DispatchResult, NotificationChannel, NotificationEvent } from './types.js';
+import { TelegramChannel } from './channels/telegram.js';
+import { WeChatChannel } from './channels/wechat.js';
+import { ConfiguredChannel } from './channels/configured.js';
+import { retryDueDeliveries, sendThroughOutbox } from './outbox.js';
+import { createNewArticleRuleFilter, flushDueDigests } from './rules.js';
+
+const log = logger.child({ module: 'notification-dispatcher' });
+
+const channels: NotificationChannel[] = [
+  new TelegramChannel(),
+  new WeChatChannel(),
+  ...NOTIFICATION_CHANNEL_TYPES.map((type) => new ConfiguredChannel(type)),
+];
+
+/**
+ * Register an additional channel
+ */
+export function registerNotificationChannel(channel: NotificationChannel): void {
+  if (channels.some((existing) => existing.name === channel.name)) {
+    throw new Error(`Notification channel already registered: ${channel.name}`);
+  }
+  channels.push(channel);
+}
+
+/**
+ * Send an event to every registered channel
+ *
+ * @param options.target - Only send to this recipient; recipient rules are not applied (already applied when queued)
+ * @param options.channels - Only send through these channels
+ */
+export async function dispatchNotification(
+  userId: number,
+  event: NotificationEvent,
+  options: DispatchOptions = {}
+): Promise<DispatchResult> {
+  const { target } = options;
+  const targetChannels = channels.filter((channel) =>
+    (!target || channel.name === target.channel) && (!options.channels || options.channels.includes(channel.name)));
+  const applyRules = !target && event.type === 'new_articles'
+    ? createNewArticleRuleFilter(userId, event.data)
+    : null;
+
+  const results = await Promise.allSettled(targetChannels.map(async (channel) => {
+    let deliveries = await channel.prepare(userId, event);
+    if (target) {
+      deliveries = deliveries.filter((delivery) => delivery.recipient === target.recipient);
+    } else if (applyRules) {
+      deliveries = await applyRules(channel.name, deliveries);
+    }
+
+    let delivered = false;
+    for (const delivery of deliveries) {
+      delivered = (await sendThroughOutbox(channel, userId, event, delivery)) || delivered;
+    }
+    return delivered;
+  }));
+
+  const result: DispatchResult = { channels: {}, notified: false };
+  results.forEach((settled, index) => {
+    const name = targetChannels[index].name;
+    if (settled.status === 'fulfilled') {
+      result.channels[name] = settled.value;
+      result.notified ||= settled.value;
+    } else {
+      result.channels[name] = false;
+      log.warn({ userId, channel: name, event: event.type, error: settled.reason }, 'Notification channel failed');
+    }
+  });
+
+  log.debug({ userId, event: event.type, channels: result.channels }, 'Notification dispatched');
+  return result;
+}
+
+/**
+ * Retry failed deliveries that are due (called by NotificationRetryScheduler)
+ */
+export async function retryNotificationDeliveries(limit = 50): Promise<{ retried: number; sent: number }> {
+  return retryDueDeliveries((name) => channels.find((channel) => channel.name === name), limit);
+}
+
+/**
+ * Send queued new articles whose digest is due (called by NotificationDigestScheduler)
+ */
+export async function flushNotificationDigests(): Promise<{ digests: number; articles: number }> {
+  return flushDueDigests(dispatchNotification);
+}
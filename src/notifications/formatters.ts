@@ -0,0 +1,177 @@
+/**
+ * Notification Formatters
+ *
+ * 事件构造（由总结结果 / 文章构造事件）与通用 Markdown 渲染。
+ * Telegram / 企业微信仍使用各自的格式化器，这里的渲染只供 Slack / Discord / 通用 Webhook / 邮件使用。
+ */
+
+import type { ArticleWithSource } from '../api/articles.js';
+import type { DailySummaryResult } from '../api/daily-summary-repository.js';
+import type { NotificationEvent, NotificationMessage, SummaryEventType, SummaryNotificationData } from './types.js';
+
+const SUMMARY_TYPE_LABELS: Record<string, string> = {
+  journal: '期刊精选',
+  blog_news: '博客资讯',
+  all: '综合总结',
+  journal_all: '全部期刊',
+  insights: '洞察报告',
+};
+
+const MAX_PREVIEW_LENGTH = 500;
+const MAX_LISTED_ARTICLES = 50;
+
+/* ── Event builders ── */
+
+/**
+ * Build the summary payload from a generated summary
+ */
+export function toSummaryNotificationData(result: DailySummaryResult, date = result.date): SummaryNotificationData {
+  const { articlesByType } = result;
+  return {
+    date,
+    summaryType: result.type,
+    totalArticles: result.totalArticles,
+    summary: result.summary,
+    articles: [...articlesByType.journal, ...articlesByType.blog, ...articlesByType.news, ...articlesByType.email],
+    articlesByType: {
+      journal: articlesByType.journal.length,
+      blog: articlesByType.blog.length,
+      news: articlesByType.news.length,
+      email: articlesByType.email.length,
+    },
+  };
+}
+
+/**
+ * Map a summary type to its event type
+ * @returns null for types that are never pushed (search)
+ */
+export function getSummaryEventType(type: DailySummaryResult['type']): SummaryEventType | null {
+  switch (type) {
+    case 'journal':
+    case 'all':
+      return 'daily_summary_journal';
+    case 'blog_news':
+      return 'daily_summary_blog_news';
+    case 'journal_all':
+      return 'journal_all';
+    case 'insights':
+      return 'insights';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build a summary event from a generated summary
+ */
+export function buildSummaryEvent(result: DailySummaryResult): NotificationEvent | null {
+  const type = getSummaryEventType(result.type);
+  return type ? { type, data: toSummaryNotificationData(result) } : null;
+}
+
+/**
+ * Source type label and preview text of an article (shared by all channels)
+ */
+export function describeArticle(article: ArticleWithSource): {
+  sourceName: string;
+  sourceType: string;
+  preview?: string;
+} {
+  let preview = article.summary_zh || article.summary || undefined;
+  if (!preview && (article.markdown_content || article.content)) {
+    preview = article.markdown_content || article.content || undefined;
+    if (preview && preview.length > MAX_PREVIEW_LENGTH) {
+      preview = preview.substring(0, MAX_PREVIEW_LENGTH) + '...';
+    }
+  }
+
+  return {
+    sourceName: article.source_name || article.rss_source_name || article.journal_name || 'Unknown',
+    sourceType: article.source_origin === 'journal' ? '期刊文章' :
+                article.source_origin === 'keyword' ? '关键词订阅' :
+                article.source_origin === 'email' ? '邮件订阅' : 'RSS订阅',
+    preview,
+  };
+}
+
+/* ── Generic rendering ── */
+
+function formatSummaryMessage(type: SummaryEventType, data: SummaryNotificationData): NotificationMessage {
+  const label = SUMMARY_TYPE_LABELS[type === 'journal_all' || type === 'insights' ? type : data.summaryType] || data.summaryType;
+  const lines: string[] = [`**日期：** ${data.date}`, `**类型：** ${label}`, ''];
+
+  const { journal, blog, news, email } = data.articlesByType;
+  if (journal > 0) lines.push(`- 期刊精选：${journal} 篇`);
+  if (blog > 0) lines.push(`- 博客推荐：${blog} 篇`);
+  if (news > 0) lines.push(`- 资讯动态：${news} 篇`);
+  if (email > 0) lines.push(`- 邮件订阅：${email} 篇`);
+  lines.push(`- 总计：${data.totalArticles} 篇`, '', data.summary);
+
+  if (type === 'journal_all' && data.articles.length > 0) {
+    lines.push('', '**文章列表**');
+    data.articles.slice(0, MAX_LISTED_ARTICLES).forEach((article, index) => {
+      lines.push(`${index + 1}. [${article.title}](${article.url}) — ${article.source_name}`);
+    });
+    if (data.articles.length > MAX_LISTED_ARTICLES) {
+      lines.push(`... 还有 ${data.articles.length - MAX_LISTED_ARTICLES} 篇文章`);
+    }
+  }
+
+  return {
+    title: type === 'insights' ? `洞察报告 ${data.date}` : `每日总结 ${data.date}（${label}）`,
+    markdown: lines.join('\n'),
+  };
+}
+
+/**
+ * Render an event as a channel-neutral Markdown message
+ */
+export function formatNotificationMessage(event: NotificationEvent): NotificationMessage {
+  switch (event.type) {
+    case 'new_articles': {
+      const article = event.data;
+      const { sourceName, sourceType, preview } = describeArticle(article);
+      const lines = [`【${sourceType}】${sourceName}`, '', `**[${article.title}](${article.url})**`];
+      if (preview) {
+        lines.push('', preview);
+      }
+      return { title: `新增文章：${article.title}`, markdown: lines.join('\n'), url: article.url };
+    }
+    case 'new_articles_digest': {
+      const { articles } = event.data;
+      const lines = articles.map((article, index) =>
+        `${index + 1}. [${article.title}](${article.url}) — 【${article.sourceType}】${article.sourceName}`);
+      return { title: `新增文章（${articles.length} 篇）`, markdown: lines.join('\n') };
+    }
+    case 'saved_search_matches': {
+      const { searchName, query, articles } = event.data;
+      const lines = [`**查询：** ${query}`, ''];
+      articles.forEach((article, index) => {
+        lines.push(`${index + 1}. [${article.title}](${article.url}) — 【${article.sourceType}】${article.sourceName}`);
+      });
+      return { title: `订阅搜索「${searchName}」：${articles.length} 篇新匹配`, markdown: lines.join('\n') };
+    }
+    case 'pdf_summary': {
+      const data = event.data;
+      const lines = [`**来源：** ${data.sourceName}`, `**标题：** ${data.title}`, ''];
+      lines.push(data.success ? (data.summary || '未生成摘要内容') : `**失败原因：** ${data.reason || '未知错误'}`);
+      return {
+        title: data.success ? `PDF 全文总结：${data.title}` : `PDF 全文总结失败：${data.title}`,
+        markdown: lines.join('\n'),
+      };
+    }
+    default:
+      return formatSummaryMessage(event.type, event.data);
+  }
+}
+
+/**
+ * Test message for the settings page
+ */
+export function formatTestNotificationMessage(): NotificationMessage {
+  return {
+    title: '测试消息',
+    markdown: '这是一条来自 LIS-RSS 的测试消息。\n\n如果您收到这条消息，说明配置成功！',
+  };
+}
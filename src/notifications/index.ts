@@ -0,0 +1,28 @@
+/**
+ * Notification Module
+ *
+ * 可插拔通知渠道：Telegram、企业微信，以及按用户配置的 Slack / Discord / 通用 Webhook / SMTP 邮件。
+ * 所有推送经 notification_deliveries 去重、记录投递状态并失败重试；
+ * 新增文章另按接收者的推送规则过滤、暂缓并合并为摘要；订阅搜索的新匹配按所选渠道推送。
+ */
+
+export {
+  dispatchNotification,
+  flushNotificationDigests,
+  registerNotificationChannel,
+  retryNotificationDeliveries,
+} from './dispatcher.js';
+export { testNotificationChannel } from './channels/configured.js';
+export { buildSummaryEvent, toSummaryNotificationData } from './formatters.js';
+export type {
+  DispatchOptions,
+  DispatchResult,
+  DispatchTarget,
+  NewArticlesDigestData,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationEvent,
+  NotificationMessage,
+  SavedSearchMatchesData,
+  SummaryNotificationData,
+} from './types.js';
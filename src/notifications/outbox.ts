@@ -0,0 +1,146 @@
+/**
+ * Notification Outbox
+ *
+ * 渠道发送统一经过 notification_deliveries 表：
+ * - 每个 (渠道, 接收者) 按幂等键 user:channel:recipient:event_type:event_key 建一条投递记录，
+ *   已存在则跳过，进程重启或重复触发不会重复推送
+ * - 首次发送同步进行；失败记录错误并按指数退避交给 NotificationRetryScheduler 重试
+ */
+
+import crypto from 'crypto';
+import { logger } from '../logger.js';
+import {
+  claimNotificationDelivery,
+  completeNotificationDelivery,
+  createNotificationDelivery,
+  failNotificationDelivery,
+  getDueNotificationDeliveries,
+} from '../api/notification-deliveries.js';
+import type { NotificationChannel, NotificationDelivery, NotificationEvent } from './types.js';
+
+const log = logger.child({ module: 'notification-outbox' });
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Event part of the idempotency key
+ *
+ * 总结按日期（`all` 总结与期刊总结共用事件类型，单独区分），新增文章按文章 ID，新增文章摘要按所含文章 ID 的哈希，
+ * 订阅搜索匹配按搜索 ID + 所含文章 ID 的哈希，
+ * PDF 总结按文章 ID + 内容哈希（重新生成的总结可以再次推送）。
+ */
+export function getEventKey(event: NotificationEvent): string {
+  switch (event.type) {
+    case 'new_articles':
+      return `article-${event.data.id}`;
+    case 'new_articles_digest':
+      return `digest-${sha256(event.data.articles.map((article) => article.id).join(',')).slice(0, 12)}`;
+    case 'saved_search_matches':
+      return `search-${event.data.searchId}-${sha256(event.data.articles.map((article) => article.id).join(',')).slice(0, 12)}`;
+    case 'pdf_summary': {
+      const { articleId, title, summary, reason } = event.data;
+      const contentHash = sha256(summary || reason || '').slice(0, 12);
+      return `article-${articleId ?? sha256(title).slice(0, 12)}-${contentHash}`;
+    }
+    default:
+      return event.data.summaryType === 'all' ? `${event.data.date}-all` : event.data.date;
+  }
+}
+
+/**
+ * Run one attempt of a delivery and record the outcome
+ * @returns true if sent
+ */
+async function attemptDelivery(
+  channel: NotificationChannel,
+  deliveryId: number,
+  userId: number,
+  recipient: string,
+  payload: unknown,
+  logContext: Record<string, unknown>
+): Promise<boolean> {
+  try {
+    await channel.deliver(userId, recipient, payload);
+    await completeNotificationDelivery(deliveryId);
+    log.info({ userId, channel: channel.name, recipient, deliveryId, ...logContext }, 'Notification delivered');
+    return true;
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    const status = await failNotificationDelivery(deliveryId, errMsg);
+    log.warn({ userId, channel: channel.name, recipient, deliveryId, status, error: errMsg, ...logContext }, 'Notification delivery failed');
+    return false;
+  }
+}
+
+/**
+ * Record and send one delivery
+ *
+ * @returns true if sent now; false if it failed (queued for retry) or was already recorded
+ */
+export async function sendThroughOutbox(
+  channel: NotificationChannel,
+  userId: number,
+  event: NotificationEvent,
+  delivery: NotificationDelivery
+): Promise<boolean> {
+  const eventKey = getEventKey(event);
+  const payloadJson = JSON.stringify(delivery.payload);
+
+  const deliveryId = await createNotificationDelivery({
+    userId,
+    channel: channel.name,
+    recipient: delivery.recipient,
+    recipientName: delivery.recipientName,
+    eventType: event.type,
+    eventKey,
+    idempotencyKey: [userId, channel.name, delivery.recipient, event.type, eventKey].join(':'),
+    payloadJson,
+    payloadHash: sha256(payloadJson),
+  });
+
+  if (deliveryId === null) {
+    log.info({ userId, channel: channel.name, recipient: delivery.recipient, event: event.type, eventKey }, 'Skipping duplicate notification');
+    return false;
+  }
+
+  return attemptDelivery(channel, deliveryId, userId, delivery.recipient, delivery.payload, { event: event.type, eventKey });
+}
+
+/**
+ * Retry due deliveries with their stored payload
+ *
+ * @param resolveChannel - Channel lookup by name (channels no longer registered are skipped)
+ * @param limit - Max deliveries per run
+ */
+export async function retryDueDeliveries(
+  resolveChannel: (name: string) => NotificationChannel | undefined,
+  limit: number
+): Promise<{ retried: number; sent: number }> {
+  const due = await getDueNotificationDeliveries(limit);
+  let retried = 0;
+  let sent = 0;
+
+  for (const delivery of due) {
+    const channel = resolveChannel(delivery.channel);
+    if (!channel) {
+      log.warn({ deliveryId: delivery.id, channel: delivery.channel }, 'Notification channel not registered, skipping retry');
+      continue;
+    }
+    if (!(await claimNotificationDelivery(delivery))) continue;
+
+    retried++;
+    const success = await attemptDelivery(
+      channel,
+      delivery.id,
+      delivery.user_id,
+      delivery.recipient,
+      JSON.parse(delivery.payload_json),
+      { event: delivery.event_type, eventKey: delivery.event_key, attempt: delivery.attempts + 1 }
+    );
+    if (success) sent++;
+  }
+
+  return { retried, sent };
+}
@@ -0,0 +1,199 @@
+/**
+ * New Article Push Rules
+ *
+ * 新增文章在各渠道渲染出接收者之后、进入 outbox 之前统一按接收者的推送规则（api/notification-rules.ts）处理：
+ * 1. 低于最低分数（filter_score 为空视为 0）或不在订阅的主题领域内 → 丢弃
+ * 2. 处于免打扰时段（用户时区）、开启了摘要合并、或本小时已达推送上限 → 暂缓，
+ *    写入 notification_digest_items，由 NotificationDigestScheduler 到期后合并为一条摘要
+ * 3. 其余即时发送
+ *
+ * 暂缓队列的发送（flushNotificationDigests）同样遵守免打扰与每小时上限。
+ */
+
+import { logger } from '../logger.js';
+import { getArticleById, type ArticleWithSource } from '../api/articles.js';
+import { getLocalTimeInTimezone, getUserTimezone } from '../api/timezone.js';
+import {
+  countRecentNewArticleDeliveries,
+  deleteDigestItems,
+  getArticlePassedDomainIds,
+  getDigestItems,
+  getDigestRecipients,
+  getNotificationRule,
+  queueDigestItem,
+  type DigestItemReason,
+  type DigestRecipient,
+  type NotificationRule,
+} from '../api/notification-rules.js';
+import { describeArticle } from './formatters.js';
+import type { DispatchOptions, NotificationDelivery, NotificationEvent } from './types.js';
+
+const log = logger.child({ module: 'notification-rules' });
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * 单条摘要最多合并的文章数，其余留到下一轮
+ */
+const MAX_DIGEST_ARTICLES = 30;
+
+type RuleDecision = 'send' | 'drop' | DigestItemReason;
+
+/**
+ * Whether a local HH:MM time falls in the rule's quiet hours (start inclusive, end exclusive)
+ */
+export function isWithinQuietHours(rule: NotificationRule, localTime: string): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = rule;
+  if (!start || !end || start === end) return false;
+
+  return start < end
+    ? localTime >= start && localTime < end
+    : localTime >= start || localTime < end;
+}
+
+async function isOverHourlyCap(userId: number, rule: NotificationRule, now: Date): Promise<boolean> {
+  if (rule.maxPerHour <= 0) return false;
+
+  const since = new Date(now.getTime() - HOUR_MS).toISOString();
+  const sent = await countRecentNewArticleDeliveries(userId, rule.channel, rule.recipient, since);
+  return sent >= rule.maxPerHour;
+}
+
+/**
+ * Lazily loaded inputs shared by all recipients of one article
+ */
+function createRuleContext(userId: number, article: ArticleWithSource) {
+  let localTime: Promise<string> | null = null;
+  let domainIds: Promise<number[]> | null = null;
+
+  return {
+    getLocalTime: () => (localTime ??= getUserTimezone(userId).then((timezone) => getLocalTimeInTimezone(timezone))),
+    getDomainIds: () => (domainIds ??= getArticlePassedDomainIds(article.id)),
+  };
+}
+
+type RuleContext = ReturnType<typeof createRuleContext>;
+
+async function decide(
+  userId: number,
+  rule: NotificationRule,
+  article: ArticleWithSource,
+  context: RuleContext
+): Promise<RuleDecision> {
+  if (rule.minScore !== null && (article.filter_score ?? 0) < rule.minScore) {
+    return 'drop';
+  }
+
+  if (rule.domainIds) {
+    const passedDomainIds = await context.getDomainIds();
+    if (!passedDomainIds.some((id) => rule.domainIds!.includes(id))) {
+      return 'drop';
+    }
+  }
+
+  if (isWithinQuietHours(rule, await context.getLocalTime())) {
+    return 'quiet_hours';
+  }
+  if (rule.digestInterval > 0) {
+    return 'digest';
+  }
+  if (await isOverHourlyCap(userId, rule, new Date())) {
+    return 'rate_limit';
+  }
+  return 'send';
+}
+
+/**
+ * Apply recipient rules to the deliveries of a new article
+ *
+ * @returns Deliveries to send now (deferred ones are queued, filtered ones dropped)
+ */
+export function createNewArticleRuleFilter(userId: number, article: ArticleWithSource) {
+  const context = createRuleContext(userId, article);
+
+  return async <T>(channel: string, deliveries: NotificationDelivery<T>[]): Promise<NotificationDelivery<T>[]> => {
+    const sendNow: NotificationDelivery<T>[] = [];
+
+    for (const delivery of deliveries) {
+      const rule = await getNotificationRule(userId, channel, delivery.recipient);
+      const decision = rule ? await decide(userId, rule, article, context) : 'send';
+
+      if (decision === 'send') {
+        sendNow.push(delivery);
+      } else if (decision === 'drop') {
+        log.debug({ userId, channel, recipient: delivery.recipient, articleId: article.id }, 'New article filtered by recipient rule');
+      } else {
+        await queueDigestItem(userId, channel, delivery.recipient, article.id, decision);
+        log.debug({ userId, channel, recipient: delivery.recipient, articleId: article.id, reason: decision }, 'New article deferred to digest');
+      }
+    }
+
+    return sendNow;
+  };
+}
+
+/* ── Digest flushing ── */
+
+async function isDigestDue(queue: DigestRecipient, rule: NotificationRule | null, now: Date): Promise<boolean> {
+  // 规则已删除：立即发出剩余文章
+  if (!rule) return true;
+
+  const localTime = getLocalTimeInTimezone(await getUserTimezone(queue.userId), now);
+  if (isWithinQuietHours(rule, localTime)) return false;
+
+  if (rule.digestInterval > 0 && now.getTime() - new Date(queue.oldestAt).getTime() < rule.digestInterval * 60 * 1000) {
+    return false;
+  }
+
+  return !(await isOverHourlyCap(queue.userId, rule, now));
+}
+
+function buildDigestEvent(articles: ArticleWithSource[]): NotificationEvent {
+  // 只有一篇时按普通新增文章发送（保留 Telegram 操作按钮）
+  if (articles.length === 1) {
+    return { type: 'new_articles', data: articles[0] };
+  }
+
+  return {
+    type: 'new_articles_digest',
+    data: {
+      articles: articles.map((article) => {
+        const { sourceName, sourceType } = describeArticle(article);
+        return { id: article.id, title: article.title, url: article.url, sourceName, sourceType };
+      }),
+    },
+  };
+}
+
+/**
+ * Send due digests (called by NotificationDigestScheduler)
+ *
+ * @param dispatch - Targeted dispatch that bypasses the rules (see dispatcher.ts)
+ */
+export async function flushDueDigests(
+  dispatch: (userId: number, event: NotificationEvent, options: DispatchOptions) => Promise<unknown>,
+  now = new Date()
+): Promise<{ digests: number; articles: number }> {
+  const queues = await getDigestRecipients();
+  let digests = 0;
+  let articleCount = 0;
+
+  for (const queue of queues) {
+    const rule = await getNotificationRule(queue.userId, queue.channel, queue.recipient);
+    if (!(await isDigestDue(queue, rule, now))) continue;
+
+    const items = await getDigestItems(queue.userId, queue.channel, queue.recipient, MAX_DIGEST_ARTICLES);
+    const articles = (await Promise.all(items.map((item) => getArticleById(item.articleId, queue.userId))))
+      .filter((article): article is ArticleWithSource => article !== undefined);
+
+    if (articles.length > 0) {
+      // 接收者已删除或取消订阅时 dispatch 不会产生投递，队列照常清空
+      await dispatch(queue.userId, buildDigestEvent(articles), { target: { channel: queue.channel, recipient: queue.recipient } });
+      digests++;
+      articleCount += articles.length;
+    }
+    await deleteDigestItems(items.map((item) => item.id));
+  }
+
+  return { digests, articles: articleCount };
+}
@@ -0,0 +1,133 @@
+/**
+ * Notification Types
+ *
+ * 通知事件与渠道接口。事件类型与推送类型（constants/push-types.ts）一一对应，
+ * 调度器 / 路由每个事件只调用一次 dispatcher，由各渠道自行决定发往哪些接收者。
+ * 例外是 `new_articles_digest`：由推送规则暂缓的新增文章合并而成，只发给订阅了 new_articles 的指定接收者；
+ * 以及 `saved_search_matches`：订阅搜索的新匹配，发给订阅了 new_articles 且属于该搜索所选渠道的接收者。
+ */
+
+import type { PushType } from '../constants/push-types.js';
+import type { ArticleWithSource } from '../api/articles.js';
+import type { DailySummaryArticle, SummaryType } from '../api/daily-summary-repository.js';
+import type { PdfSummaryNotificationData } from '../telegram/types.js';
+
+/**
+ * Summary payload shared by daily summary / journal_all / insights events
+ */
+export interface SummaryNotificationData {
+  date: string;
+  /** 生成时的总结类型；`all` 以期刊总结事件派发，订阅期刊或资讯任一即可收到 */
+  summaryType: SummaryType;
+  totalArticles: number;
+  summary: string;
+  articles: DailySummaryArticle[];
+  articlesByType: {
+    journal: number;
+    blog: number;
+    news: number;
+    email: number;
+  };
+}
+
+export type SummaryEventType = Extract<
+  PushType,
+  'daily_summary_journal' | 'daily_summary_blog_news' | 'journal_all' | 'insights'
+>;
+
+/**
+ * Articles merged into one digest (quiet hours / digest interval / hourly cap)
+ */
+export interface NewArticlesDigestData {
+  articles: Array<{
+    id: number;
+    title: string;
+    url: string;
+    sourceName: string;
+    sourceType: string;
+  }>;
+}
+
+/**
+ * New matches of one saved search
+ */
+export interface SavedSearchMatchesData {
+  searchId: number;
+  searchName: string;
+  query: string;
+  articles: Array<{
+    id: number;
+    title: string;
+    url: string;
+    sourceName: string;
+    sourceType: string;
+    score: number;
+  }>;
+}
+
+export type NotificationEvent =
+  | { type: SummaryEventType; data: SummaryNotificationData }
+  | { type: 'new_articles'; data: ArticleWithSource }
+  | { type: 'new_articles_digest'; data: NewArticlesDigestData }
+  | { type: 'saved_search_matches'; data: SavedSearchMatchesData }
+  | { type: 'pdf_summary'; data: PdfSummaryNotificationData };
+
+/**
+ * A rendered message for one recipient of a channel
+ */
+export interface NotificationDelivery<TPayload = unknown> {
+  /** 接收者标识（chat ID / webhook ID / 渠道 ID），参与幂等键 */
+  recipient: string;
+  recipientName?: string;
+  /** 可 JSON 序列化的消息，写入 notification_deliveries 后重试时原样发送 */
+  payload: TPayload;
+}
+
+/**
+ * A notification channel (Telegram, WeChat, Slack, ...)
+ *
+ * 渠道只负责解析接收者、渲染消息和单次发送；去重、投递记录与重试由 outbox 统一处理。
+ * - `prepare`：未配置 / 未订阅该事件时返回空数组，不抛错
+ * - `deliver`：发送失败时抛错（含接收者已被删除）
+ */
+export interface NotificationChannel<TPayload = any> {
+  readonly name: string;
+  prepare(userId: number, event: NotificationEvent): Promise<NotificationDelivery<TPayload>[]>;
+  deliver(userId: number, recipient: string, payload: TPayload): Promise<void>;
+}
+
+/**
+ * Channel-neutral message rendered from an event (Slack / Discord / webhook / email)
+ */
+export interface NotificationMessage {
+  title: string;
+  /** 标准 Markdown 正文 */
+  markdown: string;
+  url?: string;
+}
+
+/**
+ * A single recipient of one channel (digest delivery)
+ */
+export interface DispatchTarget {
+  channel: string;
+  recipient: string;
+}
+
+/**
+ * Dispatch options
+ */
+export interface DispatchOptions {
+  /** 只发给该接收者，不再应用推送规则 */
+  target?: DispatchTarget;
+  /** 只经这些渠道发送（订阅搜索选择的渠道） */
+  channels?: string[];
+}
+
+/**
+ * Dispatch result: per-channel success flags
+ */
+export interface DispatchResult {
+  channels: Record<string, boolean>;
+  notified: boolean;
+}
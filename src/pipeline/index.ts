@@ -1,73 +1,64 @@
 /**
- * 处理流水线：翻译。
+ * 文章处理流水线。
  *
- * 流程：
- * 1. 翻译：英文内容翻译（LLM）
- * 2. 向量索引
- * 3. 相关文章缓存更新
+ * 阶段以插件形式注册（见 ./registry.ts、./stages.ts），内置阶段：
+ * 0. 书目元数据补全（Crossref / OpenAlex，可选）
+ * 1. 内容清洗：生成 markdown_content
+ * 2. 翻译：英文内容翻译（LLM）
+ * 3. 向量索引
+ * 4. 相关文章缓存更新
  *
- * 包含重试与批处理机制。
+ * 包含重试、批处理与单阶段重跑机制。
  */
 
-import { getDb } from './db.js';
-import { translateArticleIfNeeded } from './agent.js';
-import { indexArticle, type IndexResult } from './vector/indexer.js';
+import { getDb } from '../db.js';
 import {
   getArticleById,
-  upsertArticleTranslation,
+  getUserArticles,
   updateArticleProcessStatus,
-  refreshRelatedArticles,
   type ArticleWithSource,
-} from './api/articles.js';
-import { incrementalRefreshRelated } from './api/articles-refresh.js';
-import { logger } from './logger.js';
-import { toSimpleMarkdown } from './utils/markdown.js';
-import { createProcessLog } from './api/process-logs.js';
+} from '../api/articles.js';
+import { incrementalRefreshRelated } from '../api/articles-refresh.js';
+import { logger } from '../logger.js';
+import { createProcessLog } from '../api/process-logs.js';
+import { getSavedSearchWorker } from '../saved-search-worker.js';
+import {
+  getDependentStages,
+  getOrderedStages,
+  getStage,
+  parseProcessStages,
+  PIPELINE_COMPLETE_STAGE,
+  type PipelineStage,
+  type ProcessStages,
+  type StageContext,
+  type StageOutcome,
+  type StageStatus,
+} from './registry.js';
+import { executeWithRetry } from './retry.js';
+import './stages.js';
+
+export {
+  registerStage,
+  getStage,
+  getOrderedStages,
+  getDependentStages,
+  type PipelineStage,
+  type ProcessStages,
+  type StageContext,
+  type StageOutcome,
+  type StageStatus,
+} from './registry.js';
+export { DEFAULT_RETRY_CONFIG, executeWithRetry, type RetryConfig } from './retry.js';
 
 const log = logger.child({ module: 'pipeline' });
 
 /* ── Types ── */
 
-/**
- * 处理步骤状态
- */
-export type StageStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
-
 /**
  * 处理日志状态（不包含 pending）
  */
 type LogStatus = 'processing' | 'completed' | 'failed' | 'skipped';
 
-/**
- * 处理步骤状态记录
- */
-export interface ProcessStages {
-  markdown: StageStatus;
-  translate: StageStatus;
-  vector: StageStatus;
-  related: StageStatus;
-}
-
-/**
- * 解析 process_stages JSON 字段
- */
-function parseProcessStages(raw: string | null): ProcessStages {
-  if (!raw) {
-    return { markdown: 'pending', translate: 'pending', vector: 'pending', related: 'pending' };
-  }
-  try {
-    const parsed = JSON.parse(raw);
-    return {
-      markdown: parsed.markdown || 'pending',
-      translate: parsed.translate || 'pending',
-      vector: parsed.vector || 'pending',
-      related: parsed.related || 'pending',
-    };
-  } catch {
-    return { markdown: 'pending', translate: 'pending', vector: 'pending', related: 'pending' };
-  }
-}
-
 /**
  * 更新单个步骤状态
  */
@@ -80,7 +71,7 @@ interface StageLogContext {
 async function updateProcessStage(
   articleId: number,
   userId: number,
-  stage: keyof ProcessStages,
+  stage: string,
   status: LogStatus,
   context?: StageLogContext
 ): Promise<void> {
@@ -126,7 +117,7 @@ export interface ProcessResult {
   title: string;
   url: string;
   status: 'completed' | 'failed' | 'skipped';
-  stage?: 'prepare' | 'translate';
+  stage?: string;
   error?: string;
   duration?: number;
   reason?: string; // For skipped status
@@ -142,24 +133,48 @@ export interface ProcessArticleOptions {
   reserved?: boolean;
 }
 
-export interface RetryConfig {
-  maxRetries: number;
-  baseDelay: number;
-  backoffMultiplier: number;
-  maxDelay: number;
+/**
+ * 单阶段重跑的文章筛选条件
+ */
+export interface StageRerunFilter {
+  articleIds?: number[];
+  rssSourceIds?: number[];
+  journalIds?: number[];
+  keywordIds?: number[];
+  emailSourceIds?: number[];
+  webSourceIds?: number[];
+  processStatus?: 'pending' | 'completed' | 'failed';
+  /** 只重跑目标阶段处于该状态的文章 */
+  stageStatus?: StageStatus;
+  createdAfter?: string;  // YYYY-MM-DD
+  createdBefore?: string; // YYYY-MM-DD
+  limit?: number;
 }
 
-/* ── Configuration ── */
+export interface StageRerunOptions {
+  /** 同时重跑下游阶段（仅在上游输出变化或下游未完成时执行） */
+  cascade?: boolean;
+  maxConcurrent?: number;
+}
 
-const DEFAULT_RETRY_CONFIG: RetryConfig = {
-  maxRetries: parseInt(process.env.ARTICLE_RETRY_MAX_RETRIES || '3', 10),
-  baseDelay: parseInt(process.env.ARTICLE_RETRY_BASE_DELAY || '5000', 10),
-  backoffMultiplier: parseFloat(process.env.ARTICLE_RETRY_BACKOFF_MULTIPLIER || '2'),
-  maxDelay: parseInt(process.env.ARTICLE_RETRY_MAX_DELAY || '60000', 10),
-};
+export interface StageRerunSummary {
+  stage: string;
+  total: number;
+  completed: number;
+  skipped: number;
+  failed: number;
+}
+
+/* ── Configuration ── */
 
 const MAX_CONCURRENT = parseInt(process.env.ARTICLE_PROCESS_MAX_CONCURRENT || '3', 10);
 
+/**
+ * 单阶段重跑默认 / 最大文章数
+ */
+const DEFAULT_RERUN_LIMIT = 500;
+const MAX_RERUN_LIMIT = 5000;
+
 /* ── Main Processing Functions ── */
 
 /**
@@ -168,10 +183,8 @@ const MAX_CONCURRENT = parseInt(process.env.ARTICLE_PROCESS_MAX_CONCURRENT || '3
  * 流程：
  * 1. 检查 filter_status（只处理 passed）
  * 2. 更新 process_status 为 processing
- * 3. 阶段1：准备 markdown_content
- * 4. 阶段2：翻译（英文才翻译）
- * 5. 阶段3：导出
- * 6. 更新 process_status 为 completed 或 failed
+ * 3. 按注册表顺序执行各阶段（见 ./stages.ts）
+ * 4. 更新 process_status 为 completed 或 failed
  *
  * @param articleId - 文章 ID
  * @param userId - 用户 ID
@@ -206,7 +219,7 @@ export async function processArticle(
     await createProcessLog({
       userId,
       articleId,
-      stage: 'pipeline_complete',
+      stage: PIPELINE_COMPLETE_STAGE,
       status: 'skipped',
       details: { reason: `Filter status: ${article.filter_status}` },
     });
@@ -233,7 +246,7 @@ export async function processArticle(
     await createProcessLog({
       userId,
       articleId,
-      stage: 'pipeline_complete',
+      stage: PIPELINE_COMPLETE_STAGE,
       status: result.status,
       durationMs: duration,
       errorMessage: result.error,
@@ -259,7 +272,7 @@ export async function processArticle(
     await createProcessLog({
       userId,
       articleId,
-      stage: 'pipeline_complete',
+      stage: PIPELINE_COMPLETE_STAGE,
       status: 'failed',
       durationMs: Date.now() - startTime,
       errorMessage: errMsg,
@@ -369,12 +382,19 @@ export async function retryFailedArticle(articleId: number, userId: number): Pro
 
 /* ── Internal Pipeline Logic ── */
 
+interface StageRunSummary {
+  results: Record<string, LogStatus>;
+  fatalFailure?: { stage: string; error: string };
+}
+
+function isStageDone(status: StageStatus | undefined): boolean {
+  return status === 'completed' || status === 'skipped';
+}
+
 /**
  * 核心处理逻辑（渐进式，只执行未完成或失败的步骤）。
  *
- * 依赖关系：
- * - translate → vector（翻译变化需要重新向量化）
- * - vector → related（向量化成功后才能计算相关文章）
+ * 阶段顺序与依赖关系由注册表决定（见 ./stages.ts）。
  */
 async function runPipeline(
   articleId: number,
@@ -386,47 +406,29 @@ async function runPipeline(
   const stages = parseProcessStages(article.process_stages || null);
   log.debug({ articleId, stages }, '[pipeline] Current process stages');
 
-  // ── Stage 1: Prepare markdown_content ──
-  const markdownResult = await runStageMarkdown(articleId, article, userId, stages);
-  if (!markdownResult.success) {
-    return { status: 'failed', stage: 'prepare', error: markdownResult.error };
+  const run = await runStages(articleId, userId, article, stages, getOrderedStages());
+  if (run.fatalFailure) {
+    const { stage, error } = run.fatalFailure;
+    await updateArticleProcessStatus(articleId, 'failed', `[${stage}] ${error}`);
+    return { status: 'failed', stage, error };
   }
 
-  // Re-fetch article to get latest data (markdown may have been generated in stage 1)
-  const updatedArticle = await getArticleById(articleId, userId);
-  if (!updatedArticle) {
-    const errMsg = 'Failed to load article';
-    await updateArticleProcessStatus(articleId, 'failed', errMsg);
-    return { status: 'failed', stage: 'prepare', error: errMsg };
-  }
-
-  // ── Stage 2: Translate (LLM) ──
-  const translateResult = await runStageTranslate(articleId, updatedArticle, userId, stages);
-  if (!translateResult.success) {
-    await updateArticleProcessStatus(articleId, 'failed', `[translate] ${translateResult.error}`);
-    return { status: 'failed', stage: 'translate', error: translateResult.error };
-  }
-
-  // ── Stage 3: Vector Index ──
-  // 如果翻译刚刚成功，需要重新向量化
-  await runStageVector(articleId, userId, stages, translateResult.translationChanged);
-
-  // ── Stage 4: Related Articles (缓存计算，非致命) ──
-  await runStageRelated(articleId, userId, stages);
-
   // ── Complete ──
   await updateArticleProcessStatus(articleId, 'completed');
 
-  // ── Send Telegram Notification (fire-and-forget) ──
+  // ── Saved Searches: match the new article (debounced per user) ──
+  getSavedSearchWorker().kick(userId);
+
+  // ── Send New Article Notification (fire-and-forget) ──
   // Re-fetch article one more time to get the latest data (including translations)
   const finalArticle = await getArticleById(articleId, userId);
   if (finalArticle) {
-    const { getTelegramNotifier } = await import('./telegram/index.js');
-    getTelegramNotifier().sendNewArticle(userId, finalArticle).catch((error) => {
+    const { dispatchNotification } = await import('../notifications/index.js');
+    dispatchNotification(userId, { type: 'new_articles', data: finalArticle }).catch((error) => {
       // Non-fatal: log but don't fail the pipeline
       log.warn(
         { articleId, error: error?.message || String(error) },
-        '[pipeline] Telegram notification failed (non-fatal)'
+        '[pipeline] New article notification failed (non-fatal)'
       );
     });
   }
@@ -452,248 +454,255 @@ async function runPipeline(
 }
 
 /**
- * Stage 1: Generate markdown_content from article content if not already done.
+ * Run a list of stages for one article in order.
+ *
+ * @param stageList - Stages to consider (already in dependency order)
+ * @param forced - Stage names to run even if already completed
  */
-async function runStageMarkdown(
+async function runStages(
   articleId: number,
-  article: ArticleWithSource,
   userId: number,
-  stages: ProcessStages
-): Promise<{ success: boolean; error?: string }> {
-  if (stages.markdown === 'completed') {
-    log.debug({ articleId }, '[stage1] Markdown already completed, skipping');
-    return { success: true };
-  }
-
-  const db = getDb();
-  const markdownStart = Date.now();
-  await updateProcessStage(articleId, userId, 'markdown', 'processing');
-
-  if (!article.markdown_content) {
-    if (article.content) {
-      const markdown = toSimpleMarkdown(article.content);
-      await db
-        .updateTable('articles')
-        .set({
-          markdown_content: markdown || null,
-          updated_at: new Date().toISOString(),
-        })
-        .where('id', '=', articleId)
-        .execute();
-      log.debug({ articleId }, '[stage1] Markdown generated from content');
-    } else {
-      const errMsg = 'No content available for analysis';
-      await updateProcessStage(articleId, userId, 'markdown', 'failed', {
-        durationMs: Date.now() - markdownStart,
-        errorMessage: errMsg,
-      });
-      await updateArticleProcessStatus(articleId, 'failed', errMsg);
-      return { success: false, error: errMsg };
+  article: ArticleWithSource,
+  stages: ProcessStages,
+  stageList: PipelineStage[],
+  forced: Set<string> = new Set()
+): Promise<StageRunSummary> {
+  const results: Record<string, LogStatus> = {};
+  const changed = new Set<string>();
+  let current = article;
+
+  for (const stage of stageList) {
+    if (stage.isEnabled && !stage.isEnabled()) {
+      continue;
     }
-  }
-
-  await updateProcessStage(articleId, userId, 'markdown', 'completed', {
-    durationMs: Date.now() - markdownStart,
-  });
 
-  return { success: true };
-}
+    const isForced = forced.has(stage.name);
+    const changedDependencies = (stage.dependsOn ?? []).filter((dependency) => changed.has(dependency));
+    if (!isForced && changedDependencies.length === 0 && isStageDone(stages[stage.name])) {
+      log.debug({ articleId, stage: stage.name }, '[stage] Already done, skipping');
+      continue;
+    }
 
-/**
- * Stage 2: Translate article content via LLM if needed.
- * Returns whether the translation actually changed content (for downstream re-indexing).
- */
-async function runStageTranslate(
-  articleId: number,
-  article: ArticleWithSource,
-  userId: number,
-  stages: ProcessStages
-): Promise<{ success: boolean; translationChanged: boolean; error?: string }> {
-  if (stages.translate === 'completed') {
-    log.debug({ articleId }, '[stage2] Translate already completed, skipping');
-    return { success: true, translationChanged: false };
-  }
+    const ctx: StageContext = {
+      articleId,
+      userId,
+      article: current,
+      stages,
+      changedDependencies,
+      forced: isForced,
+    };
 
-  const translateStart = Date.now();
-  await updateProcessStage(articleId, userId, 'translate', 'processing');
+    const skipReason = stage.skipIf?.(ctx) ?? null;
+    if (skipReason) {
+      await updateProcessStage(articleId, userId, stage.name, 'skipped', { details: { reason: skipReason } });
+      results[stage.name] = 'skipped';
+      continue;
+    }
 
-  try {
-    log.debug({ articleId }, '[stage2] Starting LLM translation');
-
-    const translationResult = await executeWithRetry(
-      () =>
-        translateArticleIfNeeded(
-          article.title,
-          article.markdown_content ?? article.content ?? undefined,
-          userId
-        ),
-      DEFAULT_RETRY_CONFIG,
-      { articleId, stage: 'translate' }
-    );
+    const stageStart = Date.now();
+    await updateProcessStage(articleId, userId, stage.name, 'processing');
 
-    let translationChanged = false;
-    if (translationResult && (translationResult.summaryZh || translationResult.titleZh)) {
-      await upsertArticleTranslation(articleId, userId, {
-        title_zh: translationResult.titleZh ?? null,
-        summary_zh: translationResult.summaryZh ?? null,
-        source_lang: translationResult.sourceLang ?? null,
-      });
-      translationChanged = true;
+    let outcome: StageOutcome;
+    try {
+      outcome = stage.retry
+        ? await executeWithRetry(() => stage.run(ctx), stage.retry, { articleId, stage: stage.name })
+        : await stage.run(ctx);
+    } catch (error) {
+      outcome = { status: 'failed', error: error instanceof Error ? error.message : String(error) };
     }
 
-    await updateProcessStage(articleId, userId, 'translate', 'completed', {
-      durationMs: Date.now() - translateStart,
-      details: translationResult
-        ? { usedFallback: Boolean(translationResult.usedFallback) }
-        : undefined,
+    await updateProcessStage(articleId, userId, stage.name, outcome.status, {
+      durationMs: Date.now() - stageStart,
+      errorMessage: outcome.error,
+      details: outcome.details,
     });
+    results[stage.name] = outcome.status;
 
-    log.info(
-      { articleId, translated: Boolean(translationResult), usedFallback: translationResult?.usedFallback },
-      '[stage2] Translate OK'
-    );
-
-    return { success: true, translationChanged };
-  } catch (error) {
-    const errMsg = error instanceof Error ? error.message : String(error);
-    log.error({ articleId, error: errMsg }, '[stage2] Translate failed');
-
-    await updateProcessStage(articleId, userId, 'translate', 'failed', {
-      durationMs: Date.now() - translateStart,
-      errorMessage: errMsg,
-    });
+    if (outcome.status === 'failed') {
+      const error = outcome.error || 'Unknown error';
+      if (stage.fatal) {
+        log.error({ articleId, stage: stage.name, error }, '[stage] Stage failed');
+        return { results, fatalFailure: { stage: stage.name, error } };
+      }
+      log.warn({ articleId, stage: stage.name, error }, '[stage] Stage failed (non-fatal)');
+      continue;
+    }
 
-    return { success: false, translationChanged: false, error: errMsg };
+    if (outcome.changed) {
+      changed.add(stage.name);
+    }
+    if (outcome.reloadArticle) {
+      current = (await getArticleById(articleId, userId)) ?? current;
+    }
   }
+
+  return { results };
 }
 
+/* ── Single Stage Re-run ── */
+
 /**
- * Stage 3: Vector index the article (non-fatal failure).
- * If translation changed, always re-index even if previously completed.
+ * Find articles to re-run a stage for.
+ *
+ * 只包含已通过过滤、且当前不在处理中的文章。
+ *
+ * @param stageName - Target stage
+ * @param userId - User ID
+ * @param filter - Article filter
+ * @returns Article IDs (newest first)
+ * @throws Error if stage is not registered
  */
-async function runStageVector(
-  articleId: number,
+export async function findArticlesForStageRerun(
+  stageName: string,
   userId: number,
-  stages: ProcessStages,
-  needReindex: boolean
-): Promise<void> {
-  if (stages.vector === 'completed' && !needReindex) {
-    log.debug({ articleId }, '[stage3] Vector already completed, skipping');
-    return;
+  filter: StageRerunFilter = {}
+): Promise<number[]> {
+  if (!getStage(stageName)) {
+    throw new Error(`Unknown stage: ${stageName}`);
   }
 
-  const vectorStart = Date.now();
-  await updateProcessStage(articleId, userId, 'vector', 'processing');
-
-  log.debug({ articleId, needReindex }, '[stage3] Starting vector index');
-
-  // 使用 Promise 等待向量化完成
-  await new Promise<void>((resolve) => {
-    indexArticle(articleId, userId, async (result: IndexResult) => {
-      if (!result.success) {
-        log.warn({ articleId, error: result.error }, '[stage3] 向量索引失败');
-        await updateProcessStage(articleId, userId, 'vector', 'failed', {
-          durationMs: Date.now() - vectorStart,
-          errorMessage: result.error,
-        });
-        // 向量化失败是非致命的，继续处理
-      } else {
-        log.debug({ articleId }, '[stage3] 向量索引成功');
-        await updateProcessStage(articleId, userId, 'vector', 'completed', {
-          durationMs: Date.now() - vectorStart,
-        });
+  const limit = Math.min(Math.max(filter.limit ?? DEFAULT_RERUN_LIMIT, 1), MAX_RERUN_LIMIT);
+  const matches = (article: ArticleWithSource): boolean => {
+    if (article.filter_status !== 'passed' || article.process_status === 'processing') return false;
+    if (filter.processStatus && article.process_status !== filter.processStatus) return false;
+    if (filter.stageStatus) {
+      const stages = parseProcessStages(article.process_stages || null);
+      if (stages[stageName] !== filter.stageStatus) return false;
+    }
+    return true;
+  };
+
+  if (filter.articleIds && filter.articleIds.length > 0) {
+    const ids: number[] = [];
+    for (const articleId of filter.articleIds.slice(0, limit)) {
+      const article = await getArticleById(articleId, userId);
+      if (article && matches(article)) {
+        ids.push(article.id);
       }
-      resolve();
+    }
+    return ids;
+  }
+
+  const ids: number[] = [];
+  const pageSize = 200;
+  for (let page = 1; ids.length < limit; page++) {
+    const result = await getUserArticles(userId, {
+      rssSourceIds: filter.rssSourceIds,
+      journalIds: filter.journalIds,
+      keywordIds: filter.keywordIds,
+      emailSourceIds: filter.emailSourceIds,
+      webSourceIds: filter.webSourceIds,
+      filterStatus: 'passed',
+      processStatus: filter.processStatus,
+      createdAfter: filter.createdAfter,
+      createdBefore: filter.createdBefore,
+      page,
+      limit: pageSize,
     });
-  });
+
+    for (const article of result.articles) {
+      if (matches(article)) {
+        ids.push(article.id);
+        if (ids.length >= limit) break;
+      }
+    }
+
+    if (page >= result.totalPages) break;
+  }
+
+  return ids;
 }
 
 /**
- * Stage 4: Update related articles cache (non-fatal failure).
+ * Re-run a single stage for one article.
+ *
+ * 不修改文章的 process_status：重跑失败只记录在阶段状态和处理日志中。
+ * 依赖阶段未完成的文章会被跳过。
  */
-async function runStageRelated(
+export async function rerunArticleStage(
   articleId: number,
   userId: number,
-  stages: ProcessStages
-): Promise<void> {
-  if (stages.related === 'completed') {
-    log.debug({ articleId }, '[stage4] Related articles already completed, skipping');
-    return;
+  stageName: string,
+  options: Pick<StageRerunOptions, 'cascade'> = {}
+): Promise<ProcessResult> {
+  const stage = getStage(stageName);
+  if (!stage) {
+    throw new Error(`Unknown stage: ${stageName}`);
   }
 
-  const relatedStart = Date.now();
-  await updateProcessStage(articleId, userId, 'related', 'processing');
+  const article = await getArticleById(articleId, userId);
+  if (!article) {
+    return { articleId, title: 'Unknown', url: '', status: 'failed', stage: stageName, error: 'Article not found' };
+  }
 
-  try {
-    await refreshRelatedArticles(articleId, userId, 5);
-    await updateProcessStage(articleId, userId, 'related', 'completed', {
-      durationMs: Date.now() - relatedStart,
-    });
-    log.debug({ articleId }, '[stage4] Related articles updated');
-  } catch (error) {
-    const errMsg = error instanceof Error ? error.message : String(error);
-    log.warn({ articleId, error: errMsg }, '[stage4] Related articles update failed (non-fatal)');
-    await updateProcessStage(articleId, userId, 'related', 'failed', {
-      durationMs: Date.now() - relatedStart,
-      errorMessage: errMsg,
-    });
+  const base = { articleId, title: article.title, url: article.url, stage: stageName };
+  const stages = parseProcessStages(article.process_stages || null);
+
+  const pendingDependencies = (stage.dependsOn ?? []).filter((dependency) => {
+    const dependencyStage = getStage(dependency);
+    const enabled = !dependencyStage?.isEnabled || dependencyStage.isEnabled();
+    return enabled && !isStageDone(stages[dependency]);
+  });
+  if (pendingDependencies.length > 0) {
+    return { ...base, status: 'skipped', reason: `Dependencies not completed: ${pendingDependencies.join(', ')}` };
   }
-}
 
-/* ── Retry Mechanism ── */
+  const stageList = [stage, ...(options.cascade ? getDependentStages(stageName) : [])];
+  const startTime = Date.now();
+  const run = await runStages(articleId, userId, article, stages, stageList, new Set([stageName]));
+  const duration = Date.now() - startTime;
+
+  if (run.fatalFailure) {
+    return { ...base, status: 'failed', stage: run.fatalFailure.stage, error: run.fatalFailure.error, duration };
+  }
+
+  const status = run.results[stageName];
+  if (status === 'failed') {
+    return { ...base, status: 'failed', duration };
+  }
+  if (status === undefined || status === 'skipped') {
+    return { ...base, status: 'skipped', reason: status ? undefined : 'Stage disabled', duration };
+  }
+  return { ...base, status: 'completed', duration };
+}
 
 /**
- * Execute a function with retry and exponential backoff.
+ * Re-run a single stage for a set of articles with concurrency control.
  *
- * @param fn - Function to execute
- * @param config - Retry configuration
- * @param context - Context for logging (articleId, stage)
- * @returns Function result
- * @throws Last error if all retries exhausted
+ * 例如：更换翻译模型后重跑某个来源的 translate，或更换 embedding 模型后重跑 vector。
  */
-async function executeWithRetry<T>(
-  fn: () => Promise<T>,
-  config: RetryConfig,
-  context: { articleId: number; stage: string }
-): Promise<T> {
-  let lastError: Error | undefined;
-
-  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
+export async function rerunStageForArticles(
+  stageName: string,
+  articleIds: number[],
+  userId: number,
+  options: StageRerunOptions = {}
+): Promise<StageRerunSummary> {
+  const maxConcurrent = options.maxConcurrent ?? MAX_CONCURRENT;
+  const summary: StageRerunSummary = { stage: stageName, total: articleIds.length, completed: 0, skipped: 0, failed: 0 };
 
-      if (attempt === config.maxRetries) {
-        break; // Max retries reached
-      }
+  log.info({ stage: stageName, count: articleIds.length, cascade: Boolean(options.cascade) }, '[rerun] Starting stage re-run');
 
-      // Calculate delay with exponential backoff
-      const delay = Math.min(
-        config.baseDelay * Math.pow(config.backoffMultiplier, attempt),
-        config.maxDelay
-      );
+  for (let i = 0; i < articleIds.length; i += maxConcurrent) {
+    const batch = articleIds.slice(i, i + maxConcurrent);
 
-      log.warn(
-        {
-          articleId: context.articleId,
-          stage: context.stage,
-          attempt: attempt + 1,
-          maxRetries: config.maxRetries + 1,
-          delay,
-          error: lastError.message,
-        },
-        '[retry] Retrying after error'
-      );
+    const batchResults = await Promise.allSettled(
+      batch.map((articleId) => rerunArticleStage(articleId, userId, stageName, options))
+    );
 
-      await sleep(delay);
+    for (const [index, result] of batchResults.entries()) {
+      if (result.status === 'rejected') {
+        summary.failed++;
+        log.error({ articleId: batch[index], stage: stageName, error: String(result.reason) }, '[rerun] Stage re-run failed');
+      } else {
+        summary[result.value.status]++;
+      }
     }
   }
 
-  throw lastError;
-}
+  log.info(summary, '[rerun] Stage re-run complete');
 
-import { sleep } from './utils/sleep.js';
+  return summary;
+}
 
 /* ── Utility Functions ── */
 
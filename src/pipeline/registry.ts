@@ -0,0 +1,181 @@
+/**
+ * Pipeline stage registry
+ *
+ * 每个处理阶段以插件形式注册：声明名称、依赖、重试策略和跳过条件，
+ * 由流水线按依赖拓扑顺序执行。阶段状态记录在 articles.process_stages（JSON）
+ * 和 article_process_logs 中，均以阶段名为键。
+ *
+ * 执行规则：
+ * - 状态为 completed / skipped 的阶段不再执行，除非被强制重跑
+ * - 任一依赖在本次执行中产生了变化（changed），阶段会重新执行
+ * - fatal 阶段失败会中止流水线并将文章标记为 failed；非 fatal 阶段失败仅记录
+ */
+
+import type { ArticleWithSource } from '../api/articles.js';
+import type { RetryConfig } from './retry.js';
+
+/**
+ * 处理步骤状态
+ */
+export type StageStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
+
+/**
+ * 处理步骤状态记录（阶段名 → 状态）
+ */
+export type ProcessStages = Record<string, StageStatus>;
+
+/**
+ * Context passed to a stage run
+ */
+export interface StageContext {
+  articleId: number;
+  userId: number;
+  // 最新的文章数据（上游阶段要求重新加载时会刷新）
+  article: ArticleWithSource;
+  stages: ProcessStages;
+  // 本次执行中产生变化的依赖阶段
+  changedDependencies: string[];
+  forced: boolean;
+}
+
+/**
+ * Result of a stage run
+ */
+export interface StageOutcome {
+  status: 'completed' | 'skipped' | 'failed';
+  // 输出发生变化，依赖本阶段的下游阶段需要重新执行
+  changed?: boolean;
+  // 文章数据已被修改，后续阶段需要重新加载
+  reloadArticle?: boolean;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Pipeline stage definition
+ */
+export interface PipelineStage {
+  name: string;
+  label: string;
+  dependsOn?: string[];
+  // 失败时中止流水线（默认 false）
+  fatal?: boolean;
+  // run() 抛出异常时按此策略重试
+  retry?: RetryConfig;
+  // 返回 false 时阶段被忽略：不执行、不记录状态（如未配置外部服务）
+  isEnabled?(): boolean;
+  // 返回跳过原因时记录为 skipped
+  skipIf?(ctx: StageContext): string | null;
+  run(ctx: StageContext): Promise<StageOutcome>;
+}
+
+const STAGE_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * 保留的阶段名（流水线整体完成日志）
+ */
+export const PIPELINE_COMPLETE_STAGE = 'pipeline_complete';
+
+const stages = new Map<string, PipelineStage>();
+let orderedCache: PipelineStage[] | null = null;
+
+/**
+ * Register a pipeline stage
+ * @throws Error if name is invalid or already registered
+ */
+export function registerStage(stage: PipelineStage): void {
+  if (!STAGE_NAME_PATTERN.test(stage.name) || stage.name === PIPELINE_COMPLETE_STAGE) {
+    throw new Error(`Invalid stage name: ${stage.name}`);
+  }
+  if (stages.has(stage.name)) {
+    throw new Error(`Stage already registered: ${stage.name}`);
+  }
+  stages.set(stage.name, stage);
+  orderedCache = null;
+}
+
+/**
+ * Get a registered stage by name
+ */
+export function getStage(name: string): PipelineStage | undefined {
+  return stages.get(name);
+}
+
+/**
+ * Get all stages in dependency order (registration order as tie-breaker)
+ * @throws Error on unknown dependency or dependency cycle
+ */
+export function getOrderedStages(): PipelineStage[] {
+  if (orderedCache) return orderedCache;
+
+  const ordered: PipelineStage[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (stage: PipelineStage, path: string[]): void => {
+    const current = state.get(stage.name);
+    if (current === 'done') return;
+    if (current === 'visiting') {
+      throw new Error(`Stage dependency cycle: ${[...path, stage.name].join(' → ')}`);
+    }
+
+    state.set(stage.name, 'visiting');
+    for (const dependency of stage.dependsOn ?? []) {
+      const dependencyStage = stages.get(dependency);
+      if (!dependencyStage) {
+        throw new Error(`Stage "${stage.name}" depends on unknown stage "${dependency}"`);
+      }
+      visit(dependencyStage, [...path, stage.name]);
+    }
+    state.set(stage.name, 'done');
+    ordered.push(stage);
+  };
+
+  for (const stage of stages.values()) {
+    visit(stage, []);
+  }
+
+  orderedCache = ordered;
+  return ordered;
+}
+
+/**
+ * Get stages that (transitively) depend on the given stage, in execution order
+ */
+export function getDependentStages(name: string): PipelineStage[] {
+  const affected = new Set<string>([name]);
+  const result: PipelineStage[] = [];
+
+  for (const stage of getOrderedStages()) {
+    if ((stage.dependsOn ?? []).some((dependency) => affected.has(dependency))) {
+      affected.add(stage.name);
+      result.push(stage);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse process_stages JSON (missing stages default to pending)
+ */
+export function parseProcessStages(raw: string | null): ProcessStages {
+  let parsed: Record<string, unknown> = {};
+  if (raw) {
+    try {
+      parsed = JSON.parse(raw) ?? {};
+    } catch {
+      parsed = {};
+    }
+  }
+
+  const result: ProcessStages = {};
+  for (const [name, status] of Object.entries(parsed)) {
+    if (typeof status === 'string') {
+      result[name] = status as StageStatus;
+    }
+  }
+  for (const stage of stages.values()) {
+    result[stage.name] ??= 'pending';
+  }
+  return result;
+}
@@ -0,0 +1,73 @@
+/**
+ * Pipeline retry mechanism
+ */
+
+import { logger } from '../logger.js';
+import { sleep } from '../utils/sleep.js';
+
+const log = logger.child({ module: 'pipeline' });
+
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelay: number;
+  backoffMultiplier: number;
+  maxDelay: number;
+}
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: parseInt(process.env.ARTICLE_RETRY_MAX_RETRIES || '3', 10),
+  baseDelay: parseInt(process.env.ARTICLE_RETRY_BASE_DELAY || '5000', 10),
+  backoffMultiplier: parseFloat(process.env.ARTICLE_RETRY_BACKOFF_MULTIPLIER || '2'),
+  maxDelay: parseInt(process.env.ARTICLE_RETRY_MAX_DELAY || '60000', 10),
+};
+
+/**
+ * Execute a function with retry and exponential backoff.
+ *
+ * @param fn - Function to execute
+ * @param config - Retry configuration
+ * @param context - Context for logging (articleId, stage)
+ * @returns Function result
+ * @throws Last error if all retries exhausted
+ */
+export async function executeWithRetry<T>(
+  fn: () => Promise<T>,
+  config: RetryConfig,
+  context: { articleId: number; stage: string }
+): Promise<T> {
+  let lastError: Error | undefined;
+
+  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      if (attempt === config.maxRetries) {
+        break; // Max retries reached
+      }
+
+      // Calculate delay with exponential backoff
+      const delay = Math.min(
+        config.baseDelay * Math.pow(config.backoffMultiplier, attempt),
+        config.maxDelay
+      );
+
+      log.warn(
+        {
+          articleId: context.articleId,
+          stage: context.stage,
+          attempt: attempt + 1,
+          maxRetries: config.maxRetries + 1,
+          delay,
+          error: lastError.message,
+        },
+        '[retry] Retrying after error'
+      );
+
+      await sleep(delay);
+    }
+  }
+
+  throw lastError;
+}
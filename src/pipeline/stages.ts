@@ -0,0 +1,163 @@
+/**
+ * Built-in pipeline stages
+ *
+ * enrich → markdown → translate → vector → related
+ */
+
+import { getDb } from '../db.js';
+import { translateArticleIfNeeded } from '../agent.js';
+import { indexArticle, type IndexResult } from '../vector/indexer.js';
+import { upsertArticleTranslation, refreshRelatedArticles } from '../api/articles.js';
+import { enrichArticle, getBibliographicProvider } from '../enrich/index.js';
+import { logger } from '../logger.js';
+import { toSimpleMarkdown } from '../utils/markdown.js';
+import { registerStage } from './registry.js';
+import { DEFAULT_RETRY_CONFIG } from './retry.js';
+
+const log = logger.child({ module: 'pipeline' });
+
+/**
+ * Stage 0: Enrich bibliographic metadata (non-fatal).
+ *
+ * 未配置书目服务时不执行、保持 pending；配置后重新处理即可补全。
+ * 补全的摘要会写入 content，供无正文文章的后续阶段使用。
+ */
+registerStage({
+  name: 'enrich',
+  label: '元数据补全',
+  // 书目服务请求失败时只做一次快速重试，避免阻塞后续阶段
+  retry: { ...DEFAULT_RETRY_CONFIG, maxRetries: 1 },
+  isEnabled: () => Boolean(getBibliographicProvider()),
+  async run({ articleId }) {
+    const result = await enrichArticle(articleId);
+    const contentFilled = result.updatedFields.includes('content');
+
+    log.debug({ articleId, ...result }, '[enrich] Done');
+
+    return {
+      status: result.status,
+      changed: contentFilled,
+      reloadArticle: result.updatedFields.length > 0,
+      details: {
+        provider: result.provider,
+        matchedBy: result.matchedBy,
+        updatedFields: result.updatedFields,
+        reason: result.reason,
+      },
+    };
+  },
+});
+
+/**
+ * Stage 1: Generate markdown_content from article content if not already done.
+ */
+registerStage({
+  name: 'markdown',
+  label: '内容清洗',
+  dependsOn: ['enrich'],
+  fatal: true,
+  async run({ articleId, article }) {
+    if (article.markdown_content) {
+      return { status: 'completed' };
+    }
+
+    if (!article.content) {
+      return { status: 'failed', error: 'No content available for analysis' };
+    }
+
+    const markdown = toSimpleMarkdown(article.content);
+    await getDb()
+      .updateTable('articles')
+      .set({
+        markdown_content: markdown || null,
+        updated_at: new Date().toISOString(),
+      })
+      .where('id', '=', articleId)
+      .execute();
+    log.debug({ articleId }, '[markdown] Markdown generated from content');
+
+    return { status: 'completed', changed: true, reloadArticle: true };
+  },
+});
+
+/**
+ * Stage 2: Translate article content via LLM if needed.
+ * changed = translation stored (downstream vector index must be rebuilt).
+ */
+registerStage({
+  name: 'translate',
+  label: '翻译',
+  dependsOn: ['markdown'],
+  fatal: true,
+  retry: DEFAULT_RETRY_CONFIG,
+  async run({ articleId, article, userId }) {
+    log.debug({ articleId }, '[translate] Starting LLM translation');
+
+    const translationResult = await translateArticleIfNeeded(
+      article.title,
+      article.markdown_content ?? article.content ?? undefined,
+      userId
+    );
+
+    let translationChanged = false;
+    if (translationResult && (translationResult.summaryZh || translationResult.titleZh)) {
+      await upsertArticleTranslation(articleId, userId, {
+        title_zh: translationResult.titleZh ?? null,
+        summary_zh: translationResult.summaryZh ?? null,
+        source_lang: translationResult.sourceLang ?? null,
+      });
+      translationChanged = true;
+    }
+
+    log.info(
+      { articleId, translated: Boolean(translationResult), usedFallback: translationResult?.usedFallback },
+      '[translate] Translate OK'
+    );
+
+    return {
+      status: 'completed',
+      changed: translationChanged,
+      details: translationResult
+        ? { usedFallback: Boolean(translationResult.usedFallback) }
+        : undefined,
+    };
+  },
+});
+
+/**
+ * Stage 3: Vector index the article (non-fatal).
+ */
+registerStage({
+  name: 'vector',
+  label: '向量化',
+  dependsOn: ['translate'],
+  run({ articleId, userId, changedDependencies }) {
+    log.debug({ articleId, reindex: changedDependencies.length > 0 }, '[vector] Starting vector index');
+
+    return new Promise((resolve) => {
+      indexArticle(articleId, userId, async (result: IndexResult) => {
+        if (!result.success) {
+          log.warn({ articleId, error: result.error }, '[vector] 向量索引失败');
+          resolve({ status: 'failed', error: result.error });
+        } else {
+          log.debug({ articleId }, '[vector] 向量索引成功');
+          resolve({ status: 'completed', changed: true });
+        }
+      });
+    });
+  },
+});
+
+/**
+ * Stage 4: Update related articles cache (non-fatal).
+ */
+registerStage({
+  name: 'related',
+  label: '相关文章',
+  dependsOn: ['vector'],
+  async run({ articleId, userId }) {
+    await refreshRelatedArticles(articleId, userId, 5);
+    log.debug({ articleId }, '[related] Related articles updated');
+    return { status: 'completed' };
+  },
+});
@@ -0,0 +1,165 @@
+// API 令牌设置 - 前端 JavaScript
+let apiTokens = [];
+
+document.addEventListener('DOMContentLoaded', function () {
+  loadApiTokens();
+});
+
+/**
+ * 加载 API 令牌列表
+ */
+async function loadApiTokens() {
+  const tbody = document.getElementById('apiTokensBody');
+  try {
+    const res = await fetch('/api/api-tokens', { cache: 'no-store' });
+    if (!res.ok) throw new Error('加载失败');
+    const data = await res.json();
+    apiTokens = data.tokens || [];
+    renderApiTokens();
+  } catch (err) {
+    tbody.innerHTML = '<tr><td colspan="6" style="color: var(--red);">加载失败: ' +
+      escapeHtml(err instanceof Error ? err.message : '未知错误') + '</td></tr>';
+  }
+}
+
+function formatApiTokenTime(value) {
+  return value ? new Date(value).toLocaleString('zh-CN') : '—';
+}
+
+/**
+ * 渲染令牌表格（不包含明文，仅显示前缀）
+ */
+function renderApiTokens() {
+  const tbody = document.getElementById('apiTokensBody');
+
+  if (apiTokens.length === 0) {
+    tbody.innerHTML = '<tr><td colspan="6" style="color: var(--dim); text-align: center;">暂无 API 令牌</td></tr>';
+    return;
+  }
+
+  tbody.innerHTML = apiTokens.map(function (token) {
+    const scopes = token.scopes.map(function (scope) {
+      return '<span class="type-badge">' + escapeHtml(scope) + '</span>';
+    }).join(' ');
+    const expires = token.expired
+      ? '<span class="status-badge failed">已过期</span>'
+      : (token.expiresAt ? formatApiTokenTime(token.expiresAt) : '永不过期');
+
+    return '<tr>' +
+      '<td>' + escapeHtml(token.name) + '</td>' +
+      '<td><code>' + escapeHtml(token.tokenPrefix) + '…</code></td>' +
+      '<td>' + scopes + '</td>' +
+      '<td>' + expires + '</td>' +
+      '<td>' + formatApiTokenTime(token.lastUsedAt) + '</td>' +
+      '<td>' +
+      '<div class="action-buttons">' +
+      '<button class="btn-icon" onclick="revokeApiToken(' + token.id + ')">吊销</button>' +
+      '</div>' +
+      '</td>' +
+      '</tr>';
+  }).join('');
+}
+
+function showApiTokenModal() {
+  document.getElementById('apiTokenName').value = '';
+  document.querySelectorAll('input[name="apiTokenScope"]').forEach(function (input) {
+    input.checked = input.value === 'search:read';
+  });
+  document.getElementById('apiTokenExpiry').value = '90';
+  document.getElementById('apiTokenModal').classList.add('active');
+  document.getElementById('apiTokenName').focus();
+}
+
+function closeApiTokenModal() {
+  document.getElementById('apiTokenModal').classList.remove('active');
+}
+
+async function copyCreatedApiToken() {
+  const value = document.getElementById('apiTokenCreatedValue').textContent;
+  try {
+    await navigator.clipboard.writeText(value);
+  } catch (err) {
+    console.error('Failed to copy API token:', err);
+  }
+}
+
+async function revokeApiToken(id) {
+  const confirmed = await showConfirm('吊销后使用该令牌的外部调用将立即失效，确定吊销吗？', {
+    title: '吊销 API 令牌',
+    okText: '吊销',
+    cancelText: '取消'
+  });
+  if (!confirmed) return;
+
+  try {
+    const res = await fetch('/api/api-tokens/' + id, { method: 'DELETE' });
+    if (res.ok) {
+      loadApiTokens();
+    } else {
+      const result = await res.json();
+      await showConfirm(result.error || '吊销失败', {
+        title: '错误',
+        okText: '知道了',
+        okButtonType: 'btn-secondary'
+      });
+    }
+  } catch (err) {
+    await showConfirm('吊销失败，请稍后重试', {
+      title: '错误',
+      okText: '知道了',
+      okButtonType: 'btn-secondary'
+    });
+  }
+}
+
+document.getElementById('apiTokenForm').addEventListener('submit', async function (e) {
+  e.preventDefault();
+
+  const scopes = Array.from(document.querySelectorAll('input[name="apiTokenScope"]:checked'))
+    .map(function (input) { return input.value; });
+  if (scopes.length === 0) {
+    await showConfirm('请至少选择一个权限', {
+      title: '错误',
+      okText: '知道了',
+      okButtonType: 'btn-secondary'
+    });
+    return;
+  }
+
+  const days = document.getElementById('apiTokenExpiry').value;
+  const expiresAt = days
+    ? new Date(Date.now() + parseInt(days, 10) * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+
+  try {
+    const res = await fetch('/api/api-tokens', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: document.getElementById('apiTokenName').value,
+        scopes: scopes,
+        expiresAt: expiresAt,
+      }),
+    });
+    const result = await res.json();
+
+    if (res.ok) {
+      closeApiTokenModal();
+      document.getElementById('apiTokenCreatedValue').textContent = result.token;
+      document.getElementById('apiTokenCreated').style.display = 'block';
+      loadApiTokens();
+    } else {
+      await showConfirm(result.error || '创建失败', {
+        title: '错误',
+        okText: '知道了',
+        okButtonType: 'btn-secondary'
+      });
+    }
+  } catch (err) {
+    await showConfirm('创建失败，请稍后重试', {
+      title: '错误',
+      okText: '知道了',
+      okButtonType: 'btn-secondary'
+    });
+  }
+});
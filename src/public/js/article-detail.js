@@ -161,6 +161,26 @@ function renderArticle(article) {
         '原文链接' +
       '</a>' +
     '</div>' +
+    (article.doi
+      ? '<div class="article-meta-item">' +
+          '<span>·</span>' +
+        '</div>' +
+        '<div class="article-meta-item">' +
+          '<a href="https://doi.org/' + escapeHtml(article.doi) + '" target="_blank" rel="noopener">' +
+            'DOI: ' + escapeHtml(article.doi) +
+          '</a>' +
+        '</div>'
+      : '') +
+    (article.oa_pdf_url
+      ? '<div class="article-meta-item">' +
+          '<span>·</span>' +
+        '</div>' +
+        '<div class="article-meta-item">' +
+          '<a href="' + escapeHtml(article.oa_pdf_url) + '" target="_blank" rel="noopener">' +
+            'OA PDF' +
+          '</a>' +
+        '</div>'
+      : '') +
     '<div class="article-meta-item">' +
       '<span>·</span>' +
     '</div>' +
@@ -168,6 +188,7 @@ function renderArticle(article) {
       renderRatingInput(article.id, article.rating, window.userRole === 'guest') +
     '</div>';
   document.getElementById('articleMeta').innerHTML = metaHtml;
+  renderBiblio(article);
 
   // 原文链接
   document.getElementById('originalLink').href = article.url;
@@ -574,6 +595,59 @@ function formatDateTime(dateStr) {
   });
 }
 
+/**
+ * 渲染作者与关键词（点击跳转到文章列表按作者 / 关键词筛选）
+ */
+function renderBiblio(article) {
+  const container = document.getElementById('articleBiblio');
+  if (!container) return;
+
+  const authors = Array.isArray(article.authors) ? article.authors : [];
+  const keywords = Array.isArray(article.keywords) ? article.keywords : [];
+  const items = [];
+
+  if (authors.length > 0) {
+    items.push(
+      '<div class="article-meta-item">' +
+        '<span>作者：</span>' +
+        authors.map(function (author) {
+          const title = author.affiliation ? ' title="' + escapeHtml(author.affiliation) + '"' : '';
+          return '<a href="/articles?author=' + encodeURIComponent(author.name) + '"' + title + '>' +
+            escapeHtml(author.name) +
+          '</a>';
+        }).join('<span>,</span>') +
+      '</div>'
+    );
+  }
+
+  if (article.venue || article.citation_count != null) {
+    const parts = [];
+    if (article.venue) parts.push(escapeHtml(article.venue));
+    if (article.citation_count != null) parts.push('被引 ' + Number(article.citation_count));
+    items.push(
+      '<div class="article-meta-item">' +
+        '<span>' + parts.join(' · ') + '</span>' +
+      '</div>'
+    );
+  }
+
+  if (keywords.length > 0) {
+    items.push(
+      '<div class="article-meta-item">' +
+        '<span>关键词：</span>' +
+        keywords.map(function (item) {
+          return '<a href="/articles?keyword=' + encodeURIComponent(item.keyword) + '">' +
+            escapeHtml(item.keyword) +
+          '</a>';
+        }).join('<span>;</span>') +
+      '</div>'
+    );
+  }
+
+  container.innerHTML = items.join('');
+  container.style.display = items.length > 0 ? '' : 'none';
+}
+
 /**
  * 格式化期刊年卷期信息
  */
@@ -593,10 +667,10 @@ function formatJournalIssue(article) {
 
 /**
  * 获取文章发布时间显示文本
- * 期刊文章优先显示年卷期，RSS 文章显示 published_at
+ * 期刊文章（含带 PRISM 卷期信息的 RSS 文章）优先显示年卷期，其余显示 published_at
  */
 function getPublishTimeText(article) {
-  if (article.source_origin === 'journal') {
+  if (article.source_origin === 'journal' || article.published_volume || article.published_issue) {
     const issueText = formatJournalIssue(article);
     return issueText || formatDateTime(article.published_at);
   }
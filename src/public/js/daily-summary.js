@@ -175,15 +175,7 @@
       let data;
       
       if (type === 'insights') {
-        const res = await fetch('/api/daily-summary/insights/generate', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({})
-        });
-        if (!res.ok) {
-          throw new Error('Failed to generate insights');
-        }
-        data = await res.json();
+        data = await generateInsightsStream();
       } else {
         const res = await fetch('/api/daily-summary/generate', {
           method: 'POST',
@@ -211,6 +203,61 @@
     }
   }
 
+  // Generate insights with streamed output (NDJSON lines: chunk / done / error)
+  async function generateInsightsStream() {
+    const res = await fetch('/api/daily-summary/insights/generate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ stream: true })
+    });
+    if (!res.ok || !res.body) {
+      throw new Error('Failed to generate insights');
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    const summaryText = document.getElementById('summaryText');
+    let buffer = '';
+    let text = '';
+    let result = null;
+
+    const handleLine = (line) => {
+      if (!line.trim()) return;
+      const message = JSON.parse(line);
+      if (message.type === 'chunk') {
+        if (!text) {
+          // 首段到达后切换到结果区域，边生成边显示
+          document.getElementById('summaryLoading').style.display = 'none';
+          document.getElementById('summaryResult').style.display = 'block';
+          document.getElementById('summaryMeta').innerHTML = '';
+        }
+        text += message.text;
+        summaryText.innerHTML = renderMarkdown(text);
+      } else if (message.type === 'done') {
+        result = message.result;
+      } else if (message.type === 'error') {
+        throw new Error(message.error || 'Failed to generate insights');
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex;
+      while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+        handleLine(buffer.slice(0, newlineIndex));
+        buffer = buffer.slice(newlineIndex + 1);
+      }
+    }
+    handleLine(buffer + decoder.decode());
+
+    if (!result) {
+      throw new Error('Failed to generate insights');
+    }
+    return result;
+  }
+
   // Update type badge
   function updateTypeBadge(type, count) {
     let badge;
@@ -0,0 +1,206 @@
+// 新增文章推送规则（免打扰 / 摘要合并 / 每小时上限 / 最低分数 / 主题领域） - 前端 JavaScript
+const NOTIFY_RULE_CHANNEL_LABELS = {
+  telegram: 'Telegram',
+  wechat: '企业微信',
+  slack: 'Slack',
+  discord: 'Discord',
+  webhook: 'Webhook',
+  email: '邮件'
+};
+
+let notifyRuleRecipients = [];
+
+document.addEventListener('DOMContentLoaded', function () {
+  loadNotifyRules();
+
+  const modal = document.getElementById('notifyRuleModal');
+  modal.addEventListener('click', function (e) {
+    if (e.target === modal) {
+      closeNotifyRuleModal();
+    }
+  });
+});
+
+/**
+ * 加载接收者及其推送规则
+ */
+async function loadNotifyRules() {
+  try {
+    const res = await fetch('/api/notification-rules', { cache: 'no-store' });
+    if (!res.ok) throw new Error('加载失败');
+    const data = await res.json();
+    notifyRuleRecipients = data.recipients || [];
+    renderNotifyRules();
+  } catch (err) {
+    console.error('Failed to load notification rules:', err);
+    window.toast.error('推送规则加载失败: ' + (err.message || '未知错误'));
+  }
+}
+
+/**
+ * 规则摘要文字
+ */
+function describeNotifyRule(rule) {
+  if (!rule) return ['逐篇即时推送'];
+
+  const parts = [];
+  if (rule.quietHoursStart && rule.quietHoursEnd) {
+    parts.push('免打扰 ' + rule.quietHoursStart + '-' + rule.quietHoursEnd);
+  }
+  parts.push(rule.digestInterval > 0 ? '每 ' + rule.digestInterval + ' 分钟合并' : '逐篇推送');
+  if (rule.maxPerHour > 0) {
+    parts.push('每小时最多 ' + rule.maxPerHour + ' 条');
+  }
+  if (rule.minScore !== null) {
+    parts.push('分数 ≥ ' + rule.minScore);
+  }
+  if (rule.domainIds && rule.domainIds.length > 0) {
+    parts.push('领域：' + rule.domainIds.map(getDomainName).join('、'));
+  }
+  return parts;
+}
+
+/**
+ * 渲染接收者列表
+ */
+function renderNotifyRules() {
+  const listEl = document.getElementById('notifyRulesList');
+  const emptyEl = document.getElementById('notifyRulesEmpty');
+
+  if (notifyRuleRecipients.length === 0) {
+    listEl.style.display = 'none';
+    emptyEl.style.display = 'block';
+    return;
+  }
+
+  listEl.style.display = 'flex';
+  emptyEl.style.display = 'none';
+
+  listEl.innerHTML = notifyRuleRecipients.map(function (item, index) {
+    const tags = describeNotifyRule(item.rule).map(function (text) {
+      return '<span class="wechat-webhook-tag new-articles' + (item.rule ? '' : ' disabled') + '">' + escapeHtml(text) + '</span>';
+    });
+    if (item.pendingCount > 0) {
+      tags.push('<span class="wechat-webhook-tag">待合并 ' + item.pendingCount + ' 篇</span>');
+    }
+
+    return '<div class="wechat-webhook-item ' + (item.newArticles ? '' : 'inactive') + '">' +
+      '<div class="wechat-webhook-info">' +
+        '<div class="wechat-webhook-name">' + escapeHtml(item.name) +
+          ' <span class="type-badge">' + escapeHtml(NOTIFY_RULE_CHANNEL_LABELS[item.channel] || item.channel) + '</span></div>' +
+        '<div class="wechat-webhook-url">' + (item.newArticles ? '已订阅新增文章' : '未订阅新增文章') + '</div>' +
+        '<div class="wechat-webhook-details">' +
+          '<div class="wechat-webhook-tags">' + tags.join('') + '</div>' +
+        '</div>' +
+      '</div>' +
+      '<div class="wechat-webhook-actions">' +
+        '<button class="btn-icon" onclick="openNotifyRuleModal(' + index + ')">设置</button>' +
+      '</div>' +
+    '</div>';
+  }).join('');
+}
+
+/**
+ * 渲染主题领域复选框（topicDomains 由 settings/body.ejs 加载）
+ */
+function renderNotifyRuleDomains(selectedIds) {
+  const container = document.getElementById('notifyRuleDomains');
+  if (topicDomains.length === 0) {
+    container.innerHTML = '<small class="form-hint">暂无主题领域</small>';
+    return;
+  }
+
+  container.innerHTML = topicDomains.map(function (domain) {
+    const checked = selectedIds.includes(domain.id) ? ' checked' : '';
+    return '<label><input type="checkbox" data-domain-id="' + domain.id + '"' + checked + '> ' + escapeHtml(domain.name) + '</label>';
+  }).join('');
+}
+
+/**
+ * 打开规则编辑模态框
+ */
+function openNotifyRuleModal(index) {
+  const item = notifyRuleRecipients[index];
+  if (!item) return;
+
+  const rule = item.rule;
+  document.getElementById('notifyRuleModalTitle').textContent =
+    '推送规则：' + item.name + '（' + (NOTIFY_RULE_CHANNEL_LABELS[item.channel] || item.channel) + '）';
+  document.getElementById('notifyRuleChannel').value = item.channel;
+  document.getElementById('notifyRuleRecipient').value = item.recipient;
+  document.getElementById('notifyRuleQuietStart').value = rule && rule.quietHoursStart ? rule.quietHoursStart : '';
+  document.getElementById('notifyRuleQuietEnd').value = rule && rule.quietHoursEnd ? rule.quietHoursEnd : '';
+  document.getElementById('notifyRuleDigestInterval').value = rule ? rule.digestInterval : 0;
+  document.getElementById('notifyRuleMaxPerHour').value = rule ? rule.maxPerHour : 0;
+  document.getElementById('notifyRuleMinScore').value = rule && rule.minScore !== null ? rule.minScore : '';
+  document.getElementById('notifyRuleResetBtn').style.display = rule ? '' : 'none';
+  renderNotifyRuleDomains(rule && rule.domainIds ? rule.domainIds : []);
+
+  document.getElementById('notifyRuleModal').classList.add('active');
+}
+
+function closeNotifyRuleModal() {
+  document.getElementById('notifyRuleModal').classList.remove('active');
+}
+
+function getNotifyRuleUrl() {
+  const channel = document.getElementById('notifyRuleChannel').value;
+  const recipient = document.getElementById('notifyRuleRecipient').value;
+  return '/api/notification-rules/' + encodeURIComponent(channel) + '/' + encodeURIComponent(recipient);
+}
+
+/**
+ * 删除规则，恢复逐篇即时推送
+ */
+async function deleteNotifyRule() {
+  try {
+    const res = await fetch(getNotifyRuleUrl(), { method: 'DELETE' });
+    if (!res.ok) {
+      const result = await res.json();
+      throw new Error(result.error || '操作失败');
+    }
+    window.toast.success('已恢复为逐篇即时推送');
+    closeNotifyRuleModal();
+    loadNotifyRules();
+  } catch (err) {
+    window.toast.error('操作失败: ' + (err.message || '未知错误'));
+  }
+}
+
+document.getElementById('notifyRuleForm').addEventListener('submit', async function (e) {
+  e.preventDefault();
+
+  const minScore = document.getElementById('notifyRuleMinScore').value.trim();
+  const domainIds = [];
+  document.querySelectorAll('#notifyRuleDomains input:checked').forEach(function (input) {
+    domainIds.push(parseInt(input.dataset.domainId, 10));
+  });
+
+  const body = {
+    quietHoursStart: document.getElementById('notifyRuleQuietStart').value || null,
+    quietHoursEnd: document.getElementById('notifyRuleQuietEnd').value || null,
+    digestInterval: parseInt(document.getElementById('notifyRuleDigestInterval').value, 10) || 0,
+    maxPerHour: parseInt(document.getElementById('notifyRuleMaxPerHour').value, 10) || 0,
+    minScore: minScore === '' ? null : parseFloat(minScore),
+    domainIds: domainIds
+  };
+
+  try {
+    const res = await fetch(getNotifyRuleUrl(), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    if (!res.ok) {
+      const result = await res.json();
+      throw new Error(result.error || '保存失败');
+    }
+
+    window.toast.success('推送规则已保存');
+    closeNotifyRuleModal();
+    loadNotifyRules();
+  } catch (err) {
+    window.toast.error('保存失败: ' + (err.message || '未知错误'));
+  }
+});
@@ -0,0 +1,248 @@
+// 通知渠道设置（Slack / Discord / 通用 Webhook / 邮件） - 前端 JavaScript
+const NOTIFY_CHANNEL_TYPE_LABELS = {
+  slack: 'Slack',
+  discord: 'Discord',
+  webhook: 'Webhook',
+  email: '邮件'
+};
+
+const NOTIFY_PUSH_TYPE_TAGS = [
+  { key: 'daily_summary_journal', label: '通过期刊', className: 'daily-summary' },
+  { key: 'daily_summary_blog_news', label: '通过资讯', className: 'daily-summary' },
+  { key: 'journal_all', label: '全部期刊', className: 'journal-all' },
+  { key: 'new_articles', label: '新增文章', className: 'new-articles' },
+  { key: 'insights', label: '洞察报告', className: 'insights' },
+  { key: 'pdf_summary', label: 'PDF 总结', className: 'pdf-summary' }
+];
+
+// 表单字段 → 配置键（data-secret 的字段编辑时留空表示不修改）
+const NOTIFY_CHANNEL_FIELDS = {
+  slack: { webhookUrl: 'notifyChannelWebhookUrl' },
+  discord: { webhookUrl: 'notifyChannelWebhookUrl' },
+  webhook: { url: 'notifyChannelUrl', secret: 'notifyChannelSecret' },
+  email: {
+    host: 'notifyChannelHost',
+    port: 'notifyChannelPort',
+    username: 'notifyChannelUsername',
+    password: 'notifyChannelPassword',
+    from: 'notifyChannelFrom',
+    to: 'notifyChannelTo'
+  }
+};
+
+let notifyChannels = [];
+
+document.addEventListener('DOMContentLoaded', function () {
+  loadNotifyChannels();
+
+  const modal = document.getElementById('notifyChannelModal');
+  modal.addEventListener('click', function (e) {
+    if (e.target === modal) {
+      closeNotifyChannelModal();
+    }
+  });
+});
+
+async function showNotifyChannelError(message) {
+  await showConfirm(message, {
+    title: '错误',
+    okText: '知道了',
+    okButtonType: 'btn-secondary'
+  });
+}
+
+/**
+ * 加载通知渠道列表
+ */
+async function loadNotifyChannels() {
+  try {
+    const res = await fetch('/api/notification-channels', { cache: 'no-store' });
+    if (!res.ok) throw new Error('加载失败');
+    notifyChannels = await res.json();
+    renderNotifyChannels();
+  } catch (err) {
+    console.error('Failed to load notification channels:', err);
+    window.toast.error('通知渠道加载失败: ' + (err.message || '未知错误'));
+  }
+}
+
+/**
+ * 渲染渠道列表
+ */
+function renderNotifyChannels() {
+  const listEl = document.getElementById('notifyChannelsList');
+  const emptyEl = document.getElementById('notifyChannelsEmpty');
+
+  if (notifyChannels.length === 0) {
+    listEl.style.display = 'none';
+    emptyEl.style.display = 'block';
+    return;
+  }
+
+  listEl.style.display = 'flex';
+  emptyEl.style.display = 'none';
+
+  listEl.innerHTML = notifyChannels.map(function (channel) {
+    const tags = NOTIFY_PUSH_TYPE_TAGS.map(function (tag) {
+      const enabled = channel.push_types && channel.push_types[tag.key];
+      return '<span class="wechat-webhook-tag ' + tag.className + (enabled ? '' : ' disabled') + '">' + tag.label + '</span>';
+    });
+
+    return '<div class="wechat-webhook-item ' + (channel.enabled ? '' : 'inactive') + '">' +
+      '<div class="wechat-webhook-info">' +
+        '<div class="wechat-webhook-name">' + escapeHtml(channel.name) +
+          ' <span class="type-badge">' + escapeHtml(NOTIFY_CHANNEL_TYPE_LABELS[channel.type] || channel.type) + '</span></div>' +
+        '<div class="wechat-webhook-url">' + escapeHtml(channel.config_hint) + '</div>' +
+        '<div class="wechat-webhook-details">' +
+          '<div class="wechat-webhook-tags">' + tags.join('') + '</div>' +
+        '</div>' +
+      '</div>' +
+      '<div class="wechat-webhook-actions">' +
+        '<button class="btn-icon" onclick="testNotifyChannel(' + channel.id + ')">测试</button>' +
+        '<button class="btn-icon" onclick="openNotifyChannelModal(' + channel.id + ')">编辑</button>' +
+        '<button class="btn-icon" onclick="deleteNotifyChannel(' + channel.id + ')">删除</button>' +
+      '</div>' +
+    '</div>';
+  }).join('');
+}
+
+/**
+ * 只显示当前类型的配置字段
+ */
+function showNotifyChannelFields(type) {
+  document.querySelectorAll('#notifyChannelForm .notify-channel-fields').forEach(function (el) {
+    el.style.display = el.dataset.channelTypes.split(' ').includes(type) ? '' : 'none';
+  });
+}
+
+/**
+ * 打开添加 / 编辑模态框
+ */
+function openNotifyChannelModal(channelId) {
+  const form = document.getElementById('notifyChannelForm');
+  const typeSelect = document.getElementById('notifyChannelType');
+  form.reset();
+
+  const channel = channelId ? notifyChannels.find(function (c) { return c.id === channelId; }) : null;
+  document.getElementById('notifyChannelModalTitle').textContent = channel ? '编辑通知渠道' : '添加通知渠道';
+  document.getElementById('notifyChannelId').value = channel ? channel.id : '';
+  document.getElementById('notifyChannelSecretHint').style.display = channel ? 'block' : 'none';
+  typeSelect.disabled = !!channel;
+
+  if (channel) {
+    typeSelect.value = channel.type;
+    document.getElementById('notifyChannelName').value = channel.name;
+    document.getElementById('notifyChannelEnabled').checked = channel.enabled;
+    // 接口只返回非敏感字段，敏感字段留空
+    const fields = NOTIFY_CHANNEL_FIELDS[channel.type];
+    Object.keys(fields).forEach(function (key) {
+      const value = channel.settings[key];
+      if (value !== undefined) {
+        document.getElementById(fields[key]).value = value;
+      }
+    });
+    document.getElementById('notifyChannelSecure').checked = channel.settings.secure === true;
+    document.querySelectorAll('#notifyChannelPushTypes input').forEach(function (input) {
+      input.checked = channel.push_types[input.dataset.pushType] !== false;
+    });
+  }
+
+  showNotifyChannelFields(typeSelect.value);
+  document.getElementById('notifyChannelModal').classList.add('active');
+}
+
+function closeNotifyChannelModal() {
+  document.getElementById('notifyChannelModal').classList.remove('active');
+}
+
+/**
+ * 从表单收集当前类型的配置
+ */
+function collectNotifyChannelConfig(type) {
+  const fields = NOTIFY_CHANNEL_FIELDS[type];
+  const config = {};
+  Object.keys(fields).forEach(function (key) {
+    config[key] = document.getElementById(fields[key]).value.trim();
+  });
+  if (type === 'email') {
+    config.secure = document.getElementById('notifyChannelSecure').checked;
+  }
+  return config;
+}
+
+async function deleteNotifyChannel(id) {
+  const channel = notifyChannels.find(function (c) { return c.id === id; });
+  const confirmed = await showConfirm('确定删除通知渠道「' + (channel ? channel.name : id) + '」吗？', {
+    title: '删除通知渠道',
+    okText: '删除',
+    cancelText: '取消'
+  });
+  if (!confirmed) return;
+
+  try {
+    const res = await fetch('/api/notification-channels/' + id, { method: 'DELETE' });
+    if (!res.ok) {
+      const result = await res.json();
+      throw new Error(result.error || '删除失败');
+    }
+    window.toast.success('已删除');
+    loadNotifyChannels();
+  } catch (err) {
+    await showNotifyChannelError('删除失败: ' + (err.message || '未知错误'));
+  }
+}
+
+async function testNotifyChannel(id) {
+  try {
+    const res = await fetch('/api/notification-channels/' + id + '/test', { method: 'POST' });
+    if (!res.ok) throw new Error('测试失败');
+    const result = await res.json();
+    if (result.success) {
+      window.toast.success(result.message);
+    } else {
+      await showNotifyChannelError(result.message);
+    }
+  } catch (err) {
+    await showNotifyChannelError('测试失败: ' + (err.message || '未知错误'));
+  }
+}
+
+document.getElementById('notifyChannelForm').addEventListener('submit', async function (e) {
+  e.preventDefault();
+
+  const id = document.getElementById('notifyChannelId').value;
+  const type = document.getElementById('notifyChannelType').value;
+  const pushTypes = {};
+  document.querySelectorAll('#notifyChannelPushTypes input').forEach(function (input) {
+    pushTypes[input.dataset.pushType] = input.checked;
+  });
+
+  const body = {
+    name: document.getElementById('notifyChannelName').value.trim(),
+    config: collectNotifyChannelConfig(type),
+    enabled: document.getElementById('notifyChannelEnabled').checked,
+    push_types: pushTypes
+  };
+  if (!id) {
+    body.type = type;
+  }
+
+  try {
+    const res = await fetch(id ? '/api/notification-channels/' + id : '/api/notification-channels', {
+      method: id ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    if (!res.ok) {
+      const result = await res.json();
+      throw new Error(result.error || '保存失败');
+    }
+
+    window.toast.success(id ? '已更新' : '已添加');
+    closeNotifyChannelModal();
+    loadNotifyChannels();
+  } catch (err) {
+    await showNotifyChannelError('保存失败: ' + (err.message || '未知错误'));
+  }
+});
@@ -0,0 +1,257 @@
+// 订阅搜索（保存查询 / 收件箱 / 推送渠道） - 搜索页前端 JavaScript
+// 依赖 search.ejs 中的 isLoggedIn、currentQuery、escapeHtml、formatTime、showToast
+let savedSearches = [];
+let activeSavedSearchId = null;
+
+document.addEventListener('DOMContentLoaded', function () {
+  if (!isLoggedIn) return;
+
+  document.getElementById('savedSearchBar').style.display = 'flex';
+  document.getElementById('saveSearchBtn').addEventListener('click', function () {
+    openSaveSearchModal(null);
+  });
+  document.getElementById('saveSearchForm').addEventListener('submit', submitSavedSearch);
+
+  ['saveSearchModal', 'savedSearchInboxModal'].forEach(function (id) {
+    const modal = document.getElementById(id);
+    modal.addEventListener('click', function (e) {
+      if (e.target === modal) modal.classList.remove('active');
+    });
+  });
+
+  loadSavedSearches();
+});
+
+/**
+ * 加载订阅搜索列表
+ */
+async function loadSavedSearches() {
+  try {
+    const res = await fetch('/api/saved-searches', { credentials: 'same-origin', cache: 'no-store' });
+    if (!res.ok) throw new Error('加载失败');
+    const data = await res.json();
+    savedSearches = data.searches || [];
+    renderSavedSearches();
+  } catch (err) {
+    console.error('Failed to load saved searches:', err);
+  }
+}
+
+function renderSavedSearches() {
+  const listEl = document.getElementById('savedSearchList');
+  listEl.innerHTML = savedSearches.map(function (search) {
+    const badge = search.unreadCount > 0 ? ' <span class="saved-search-unread">' + search.unreadCount + '</span>' : '';
+    return '<button type="button" class="saved-search-chip' + (search.isActive ? '' : ' inactive') + '"' +
+      ' title="' + escapeHtml(search.query) + '" onclick="openSavedSearchInbox(' + search.id + ')">' +
+      escapeHtml(search.name) + badge + '</button>';
+  }).join('');
+}
+
+function findSavedSearch(id) {
+  return savedSearches.find(function (search) { return search.id === id; }) || null;
+}
+
+/* ── Save / Edit ── */
+
+function setCheckedValues(containerId, values) {
+  document.querySelectorAll('#' + containerId + ' input[type="checkbox"]').forEach(function (input) {
+    input.checked = values.includes(input.value);
+  });
+}
+
+function getCheckedValues(containerId) {
+  return Array.from(document.querySelectorAll('#' + containerId + ' input:checked')).map(function (input) {
+    return input.value;
+  });
+}
+
+/**
+ * 打开保存 / 编辑模态框（search 为空时以当前查询新建）
+ */
+function openSaveSearchModal(search) {
+  const query = search ? search.query : (currentQuery || document.getElementById('searchInput').value.trim());
+  if (!query) {
+    showToast('请先输入查询', 'error');
+    return;
+  }
+
+  document.getElementById('saveSearchModalTitle').textContent = search ? '编辑订阅搜索' : '保存为订阅搜索';
+  document.getElementById('savedSearchId').value = search ? search.id : '';
+  document.getElementById('savedSearchName').value = search ? search.name : query;
+  document.getElementById('savedSearchQuery').value = query;
+  document.getElementById('savedSearchMode').value = search ? search.mode : 'hybrid';
+  document.getElementById('savedSearchMinScore').value = search ? search.minScore : 0.5;
+  setCheckedValues('savedSearchOrigins', search && search.filters.sourceOrigins ? search.filters.sourceOrigins : []);
+  document.getElementById('savedSearchPassedOnly').checked = !!(search && search.filters.passedOnly);
+  setCheckedValues('savedSearchChannels', search ? search.notifyChannels : []);
+  document.getElementById('savedSearchActive').checked = search ? search.isActive : true;
+  document.getElementById('deleteSavedSearchBtn').style.display = search ? '' : 'none';
+
+  document.getElementById('saveSearchModal').classList.add('active');
+}
+
+function closeSaveSearchModal() {
+  document.getElementById('saveSearchModal').classList.remove('active');
+}
+
+async function submitSavedSearch(e) {
+  e.preventDefault();
+
+  const id = document.getElementById('savedSearchId').value;
+  const existing = id ? findSavedSearch(parseInt(id, 10)) : null;
+  const body = {
+    name: document.getElementById('savedSearchName').value.trim(),
+    query: document.getElementById('savedSearchQuery').value.trim(),
+    mode: document.getElementById('savedSearchMode').value,
+    minScore: parseFloat(document.getElementById('savedSearchMinScore').value),
+    semanticWeight: existing ? existing.semanticWeight : 0.7,
+    keywordWeight: existing ? existing.keywordWeight : 0.3,
+    filters: {
+      sourceOrigins: getCheckedValues('savedSearchOrigins'),
+      passedOnly: document.getElementById('savedSearchPassedOnly').checked
+    },
+    notifyChannels: getCheckedValues('savedSearchChannels'),
+    isActive: document.getElementById('savedSearchActive').checked
+  };
+
+  try {
+    const res = await fetch(id ? '/api/saved-searches/' + id : '/api/saved-searches', {
+      method: id ? 'PUT' : 'POST',
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const result = await res.json();
+    if (!res.ok) throw new Error(result.error || '保存失败');
+
+    showToast(id ? '订阅搜索已更新' : '已保存，新处理的文章匹配后将进入收件箱', 'success');
+    closeSaveSearchModal();
+    loadSavedSearches();
+  } catch (err) {
+    showToast('保存失败: ' + (err.message || '未知错误'), 'error');
+  }
+}
+
+async function deleteSavedSearch() {
+  const id = document.getElementById('savedSearchId').value;
+  if (!id) return;
+
+  const confirmed = await showConfirm('删除后收件箱中的匹配记录也会一并删除，确定删除吗？', {
+    title: '删除订阅搜索',
+    okText: '删除',
+    cancelText: '取消'
+  });
+  if (!confirmed) return;
+
+  try {
+    const res = await fetch('/api/saved-searches/' + id, { method: 'DELETE', credentials: 'same-origin' });
+    if (!res.ok) {
+      const result = await res.json();
+      throw new Error(result.error || '删除失败');
+    }
+    showToast('订阅搜索已删除', 'success');
+    closeSaveSearchModal();
+    closeSavedSearchInbox();
+    loadSavedSearches();
+  } catch (err) {
+    showToast('删除失败: ' + (err.message || '未知错误'), 'error');
+  }
+}
+
+/* ── Inbox ── */
+
+async function openSavedSearchInbox(id) {
+  activeSavedSearchId = id;
+  const search = findSavedSearch(id);
+  document.getElementById('savedSearchInboxTitle').textContent = '收件箱：' + (search ? search.name : '');
+  document.getElementById('savedSearchInboxList').innerHTML = '<div class="loading">加载中</div>';
+  document.getElementById('savedSearchInboxModal').classList.add('active');
+  await loadSavedSearchInbox();
+}
+
+function closeSavedSearchInbox() {
+  document.getElementById('savedSearchInboxModal').classList.remove('active');
+}
+
+async function loadSavedSearchInbox() {
+  const listEl = document.getElementById('savedSearchInboxList');
+  try {
+    const res = await fetch('/api/saved-searches/' + activeSavedSearchId + '/matches?limit=100', {
+      credentials: 'same-origin',
+      cache: 'no-store'
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || '加载失败');
+
+    const search = data.search;
+    const channels = search.notifyChannels.length > 0
+      ? search.notifyChannels.map(function (c) { return c === 'telegram' ? 'Telegram' : '企业微信'; }).join('、')
+      : '仅收件箱';
+    document.getElementById('savedSearchInboxMeta').innerHTML =
+      '查询 <em>' + escapeHtml(search.query) + '</em> · 推送：' + escapeHtml(channels) +
+      ' · ' + (search.isActive ? '上次检查 ' + (search.lastCheckedAt ? formatTime(search.lastCheckedAt) : '—') : '已暂停');
+
+    if (data.matches.length === 0) {
+      listEl.innerHTML = '<div class="empty-state"><div class="empty-state-desc">暂无匹配，新处理的文章匹配后会出现在这里</div></div>';
+      return;
+    }
+
+    listEl.innerHTML = data.matches.map(function (match) {
+      const reason = [];
+      if (match.semanticScore !== null) reason.push('语义 ' + Math.round(match.semanticScore * 100) + '%');
+      if (match.keywordMatched) reason.push('关键词');
+      return '<div class="saved-search-match' + (match.isRead ? '' : ' unread') + '">' +
+        '<a href="/articles/' + match.articleId + '">' + escapeHtml(match.title) + '</a>' +
+        '<div class="search-result-meta">' +
+          '<span>' + escapeHtml(reason.join(' + ')) + '</span><span>·</span>' +
+          '<span>匹配于 ' + formatTime(match.createdAt) + '</span><span>·</span>' +
+          '<a href="' + escapeHtml(match.url) + '" target="_blank" rel="noopener">原文</a>' +
+        '</div>' +
+      '</div>';
+    }).join('');
+  } catch (err) {
+    listEl.innerHTML = '<div class="empty-state"><div class="empty-state-desc">' + escapeHtml(err.message || '加载失败') + '</div></div>';
+  }
+}
+
+function editSavedSearch() {
+  const search = findSavedSearch(activeSavedSearchId);
+  if (!search) return;
+  closeSavedSearchInbox();
+  openSaveSearchModal(search);
+}
+
+async function markSavedSearchInboxRead() {
+  try {
+    const res = await fetch('/api/saved-searches/' + activeSavedSearchId + '/matches/read', {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}'
+    });
+    const result = await res.json();
+    if (!res.ok) throw new Error(result.error || '操作失败');
+
+    await loadSavedSearchInbox();
+    loadSavedSearches();
+  } catch (err) {
+    showToast('操作失败: ' + (err.message || '未知错误'), 'error');
+  }
+}
+
+async function checkSavedSearchNow() {
+  try {
+    const res = await fetch('/api/saved-searches/' + activeSavedSearchId + '/check', {
+      method: 'POST',
+      credentials: 'same-origin'
+    });
+    const result = await res.json();
+    if (!res.ok) throw new Error(result.error || '检查失败');
+
+    showToast('已检查 ' + result.checked + ' 篇新文章，新匹配 ' + result.matched + ' 篇', 'success');
+    await loadSavedSearchInbox();
+    loadSavedSearches();
+  } catch (err) {
+    showToast('检查失败: ' + (err.message || '未知错误'), 'error');
+  }
+}
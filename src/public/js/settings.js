@@ -610,6 +610,8 @@ document.addEventListener('DOMContentLoaded', function () {
 
   // Load data on page load
   loadLLMConfigs();
+  loadLLMUsage();
+  loadLLMBudgets();
   loadSystemPrompts();
   loadPromptVariables();
 });
@@ -712,11 +714,14 @@ function showLLMAddModal() {
   document.getElementById('llmTimeout').value = '30000';
   document.getElementById('llmMaxRetries').value = '3';
   document.getElementById('llmPriority').value = '100';
+  document.getElementById('llmInputPrice').value = '';
+  document.getElementById('llmOutputPrice').value = '';
   document.getElementById('llmIsDefault').checked = llmConfigs.length === 0;
   document.getElementById('llmEnabled').checked = false;
   document.getElementById('llmTestResult').className = 'test-result';
   document.getElementById('llmTestResult').textContent = '';
   updateConfigTypeUI();
+  updateApiKeyRequirement();
   document.getElementById('llmConfigModal').classList.add('active');
   document.getElementById('llmConfigType').focus();
 }
@@ -736,11 +741,14 @@ function editLLMConfig(id) {
   document.getElementById('llmTimeout').value = config.timeout;
   document.getElementById('llmMaxRetries').value = config.max_retries;
   document.getElementById('llmPriority').value = config.priority ?? 100;
+  document.getElementById('llmInputPrice').value = config.input_price ?? '';
+  document.getElementById('llmOutputPrice').value = config.output_price ?? '';
   document.getElementById('llmIsDefault').checked = config.is_default === 1;
   document.getElementById('llmEnabled').checked = config.enabled === 1;
   document.getElementById('llmTestResult').className = 'test-result';
   document.getElementById('llmTestResult').textContent = '';
   updateConfigTypeUI();
+  updateApiKeyRequirement();
   document.getElementById('llmConfigModal').classList.add('active');
 }
 
@@ -1066,6 +1074,18 @@ function updateProviderDefaults() {
         modelInput.value = 'gemini-1.5-flash';
       }
       break;
+    case 'anthropic':
+      baseURLInput.value = 'https://api.anthropic.com/v1';
+      if (configType === 'llm') {
+        modelInput.value = 'claude-3-5-haiku-latest';
+      }
+      break;
+    case 'ollama':
+      baseURLInput.value = 'http://localhost:11434';
+      if (configType === 'llm') {
+        modelInput.value = 'llama3.1';
+      }
+      break;
     case 'custom':
       baseURLInput.value = '';
       if (configType === 'llm') {
@@ -1073,6 +1093,15 @@ function updateProviderDefaults() {
       }
       break;
   }
+  updateApiKeyRequirement();
+}
+
+/**
+ * Ollama 本地部署无需 API Key
+ */
+function updateApiKeyRequirement() {
+  const provider = document.getElementById('llmProvider').value;
+  document.getElementById('llmApiKey').required = provider !== 'ollama';
 }
 
 function updateConfigTypeUI() {
@@ -1185,6 +1214,8 @@ document.getElementById('llmConfigForm').addEventListener('submit', async functi
     timeout: parseInt(document.getElementById('llmTimeout').value),
     maxRetries: parseInt(document.getElementById('llmMaxRetries').value),
     priority: parseInt(document.getElementById('llmPriority').value),
+    inputPrice: document.getElementById('llmInputPrice').value || null,
+    outputPrice: document.getElementById('llmOutputPrice').value || null,
     isDefault: document.getElementById('llmIsDefault').checked,
     enabled: document.getElementById('llmEnabled').checked,
   };
@@ -1274,6 +1305,267 @@ async function setDefaultLLMConfig(id) {
   }
 }
 
+// ===== LLM Usage & Budgets =====
+
+let llmBudgets = [];
+
+const LLM_USAGE_KEY_LABELS = {
+  task: '任务类型',
+  config: '配置',
+  model: '模型',
+  day: '日期'
+};
+
+function formatTokenCount(value) {
+  return Number(value || 0).toLocaleString();
+}
+
+function formatCost(value) {
+  return Number(value || 0).toFixed(4);
+}
+
+async function loadLLMUsage() {
+  const groupBy = document.getElementById('llmUsageGroupBy').value;
+  document.getElementById('llmUsageKeyHeader').textContent = LLM_USAGE_KEY_LABELS[groupBy] || '分组';
+  const tbody = document.getElementById('llmUsageBody');
+
+  try {
+    const res = await fetch('/api/llm-usage?groupBy=' + encodeURIComponent(groupBy), { cache: 'no-store' });
+    if (!res.ok) {
+      const errData = await res.json().catch(() => ({}));
+      throw new Error(errData.error || '加载失败');
+    }
+    const data = await res.json();
+
+    if (!data.rows || data.rows.length === 0) {
+      tbody.innerHTML = '<tr><td colspan="7" style="color: var(--dim); text-align: center;">本月暂无调用记录</td></tr>';
+      return;
+    }
+
+    const renderRow = function (label, row) {
+      return '<tr>' +
+        '<td>' + label + '</td>' +
+        '<td>' + formatTokenCount(row.calls) + '</td>' +
+        '<td>' + formatTokenCount(row.failedCalls) + '</td>' +
+        '<td>' + formatTokenCount(row.promptTokens) + '</td>' +
+        '<td>' + formatTokenCount(row.completionTokens) + '</td>' +
+        '<td>' + formatCost(row.cost) + '</td>' +
+        '<td>' + formatTokenCount(row.avgLatencyMs) + ' ms</td>' +
+        '</tr>';
+    };
+
+    tbody.innerHTML = data.rows.map(function (row) {
+      let label;
+      if (row.key === null || row.key === undefined) {
+        label = groupBy === 'config' ? '环境变量' : '—';
+      } else if (groupBy === 'config') {
+        label = '#' + row.key + (row.model ? ' ' + row.model : '');
+      } else {
+        label = row.key;
+      }
+      return renderRow(escapeHtml(String(label)), row);
+    }).join('') + renderRow('<strong>合计</strong>', data.totals);
+  } catch (err) {
+    tbody.innerHTML = '<tr><td colspan="7" style="color: var(--red);">加载失败: ' +
+      escapeHtml(err instanceof Error ? err.message : '未知错误') + '</td></tr>';
+  }
+}
+
+async function loadLLMBudgets() {
+  const tbody = document.getElementById('llmBudgetsBody');
+
+  try {
+    const res = await fetch('/api/llm-budgets', { cache: 'no-store' });
+    if (!res.ok) {
+      const errData = await res.json().catch(() => ({}));
+      throw new Error(errData.error || '加载失败');
+    }
+    const data = await res.json();
+    llmBudgets = data.budgets || [];
+    renderLLMBudgets();
+  } catch (err) {
+    tbody.innerHTML = '<tr><td colspan="6" style="color: var(--red);">加载失败: ' +
+      escapeHtml(err instanceof Error ? err.message : '未知错误') + '</td></tr>';
+  }
+}
+
+function renderLLMBudgets() {
+  const tbody = document.getElementById('llmBudgetsBody');
+
+  if (llmBudgets.length === 0) {
+    tbody.innerHTML = '<tr><td colspan="6" style="color: var(--dim); text-align: center;">暂无预算，调用不受限制</td></tr>';
+    return;
+  }
+
+  tbody.innerHTML = llmBudgets.map(function (budget) {
+    const limits = [];
+    if (budget.monthly_token_limit !== null) {
+      limits.push(formatTokenCount(budget.used_tokens) + ' / ' + formatTokenCount(budget.monthly_token_limit) + ' tokens');
+    }
+    if (budget.monthly_cost_limit !== null) {
+      limits.push(formatCost(budget.used_cost) + ' / ' + formatCost(budget.monthly_cost_limit));
+    }
+    const action = budget.action === 'downgrade'
+      ? '降级到 #' + escapeHtml(String(budget.downgrade_config_id ?? '—'))
+      : '阻断';
+    let status;
+    if (!budget.enabled) {
+      status = '<span class="status-badge inactive">未启用</span>';
+    } else if (budget.exceeded) {
+      status = '<span class="status-badge failed">已超出</span>';
+    } else {
+      status = '<span class="status-badge active">正常</span>';
+    }
+
+    return '<tr>' +
+      '<td>' + (budget.task_type ? '<span class="type-badge">' + escapeHtml(budget.task_type) + '</span>' : '所有任务') + '</td>' +
+      '<td>' + (budget.config_id !== null ? '#' + escapeHtml(String(budget.config_id)) : '所有配置') + '</td>' +
+      '<td>' + limits.join('<br>') + '</td>' +
+      '<td>' + action + '</td>' +
+      '<td>' + status + '</td>' +
+      '<td>' +
+      '<div class="action-buttons">' +
+      '<button class="btn-icon" onclick="editLLMBudget(' + budget.id + ')">编辑</button>' +
+      '<button class="btn-icon" onclick="deleteLLMBudget(' + budget.id + ')">删除</button>' +
+      '</div>' +
+      '</td>' +
+      '</tr>';
+  }).join('');
+}
+
+/**
+ * 填充预算弹窗中的配置下拉框（仅 LLM 类型配置）
+ */
+async function populateLLMBudgetConfigOptions() {
+  const res = await fetch('/api/llm-configs?configType=llm&limit=100', { cache: 'no-store' });
+  const data = res.ok ? await res.json() : { configs: [] };
+  const options = (data.configs || []).map(function (config) {
+    return '<option value="' + config.id + '">#' + config.id + ' ' + escapeHtml(config.provider + '/' + config.model) +
+      (config.task_type ? ' (' + escapeHtml(config.task_type) + ')' : '') + '</option>';
+  }).join('');
+
+  document.getElementById('llmBudgetConfigId').innerHTML = '<option value="">所有配置</option>' + options;
+  document.getElementById('llmBudgetDowngradeConfigId').innerHTML = options;
+}
+
+function updateLLMBudgetActionUI() {
+  const action = document.getElementById('llmBudgetAction').value;
+  document.getElementById('llmBudgetDowngradeGroup').style.display = action === 'downgrade' ? 'block' : 'none';
+}
+
+async function showLLMBudgetModal() {
+  await populateLLMBudgetConfigOptions();
+  document.getElementById('llmBudgetModalTitle').textContent = '添加月度预算';
+  document.getElementById('llmBudgetId').value = '';
+  document.getElementById('llmBudgetTaskType').value = '';
+  document.getElementById('llmBudgetConfigId').value = '';
+  document.getElementById('llmBudgetTokenLimit').value = '';
+  document.getElementById('llmBudgetCostLimit').value = '';
+  document.getElementById('llmBudgetAction').value = 'block';
+  document.getElementById('llmBudgetEnabled').checked = true;
+  updateLLMBudgetActionUI();
+  document.getElementById('llmBudgetModal').classList.add('active');
+}
+
+async function editLLMBudget(id) {
+  const budget = llmBudgets.find(b => b.id === id);
+  if (!budget) return;
+
+  await populateLLMBudgetConfigOptions();
+  document.getElementById('llmBudgetModalTitle').textContent = '编辑月度预算';
+  document.getElementById('llmBudgetId').value = budget.id;
+  document.getElementById('llmBudgetTaskType').value = budget.task_type || '';
+  document.getElementById('llmBudgetConfigId').value = budget.config_id ?? '';
+  document.getElementById('llmBudgetTokenLimit').value = budget.monthly_token_limit ?? '';
+  document.getElementById('llmBudgetCostLimit').value = budget.monthly_cost_limit ?? '';
+  document.getElementById('llmBudgetAction').value = budget.action;
+  document.getElementById('llmBudgetDowngradeConfigId').value = budget.downgrade_config_id ?? '';
+  document.getElementById('llmBudgetEnabled').checked = budget.enabled === 1;
+  updateLLMBudgetActionUI();
+  document.getElementById('llmBudgetModal').classList.add('active');
+}
+
+function closeLLMBudgetModal() {
+  document.getElementById('llmBudgetModal').classList.remove('active');
+}
+
+document.getElementById('llmBudgetForm').addEventListener('submit', async function (e) {
+  e.preventDefault();
+
+  const id = document.getElementById('llmBudgetId').value;
+  const action = document.getElementById('llmBudgetAction').value;
+  const data = {
+    taskType: document.getElementById('llmBudgetTaskType').value || null,
+    configId: document.getElementById('llmBudgetConfigId').value || null,
+    monthlyTokenLimit: document.getElementById('llmBudgetTokenLimit').value || null,
+    monthlyCostLimit: document.getElementById('llmBudgetCostLimit').value || null,
+    action,
+    downgradeConfigId: action === 'downgrade' ? (document.getElementById('llmBudgetDowngradeConfigId').value || null) : null,
+    enabled: document.getElementById('llmBudgetEnabled').checked,
+  };
+
+  try {
+    const res = await fetch(id ? '/api/llm-budgets/' + id : '/api/llm-budgets', {
+      method: id ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+
+    if (res.ok) {
+      closeLLMBudgetModal();
+      loadLLMBudgets();
+    } else {
+      const result = await res.json();
+      await showConfirm(result.error || '保存失败', {
+        title: '错误',
+        okText: '知道了',
+        okButtonType: 'btn-secondary'
+      });
+    }
+  } catch (err) {
+    await showConfirm('保存失败，请稍后重试', {
+      title: '错误',
+      okText: '知道了',
+      okButtonType: 'btn-secondary'
+    });
+  }
+});
+
+async function deleteLLMBudget(id) {
+  const confirmed = await showConfirm('确定要删除这个月度预算吗？', {
+    title: '删除月度预算',
+    okText: '删除',
+    cancelText: '取消'
+  });
+  if (!confirmed) return;
+
+  try {
+    const res = await fetch('/api/llm-budgets/' + id, { method: 'DELETE' });
+    if (res.ok) {
+      loadLLMBudgets();
+    } else {
+      const result = await res.json();
+      await showConfirm(result.error || '删除失败', {
+        title: '错误',
+        okText: '知道了',
+        okButtonType: 'btn-secondary'
+      });
+    }
+  } catch (err) {
+    await showConfirm('删除失败，请稍后重试', {
+      title: '错误',
+      okText: '知道了',
+      okButtonType: 'btn-secondary'
+    });
+  }
+}
+
+document.getElementById('llmBudgetModal').addEventListener('click', function (e) {
+  if (e.target === this) {
+    closeLLMBudgetModal();
+  }
+});
+
 document.getElementById('llmConfigModal').addEventListener('click', function (e) {
   if (e.target === this) {
     closeLLMModal();
@@ -1293,6 +1585,7 @@ async function loadChromaSettings() {
     }
     const data = await res.json();
     console.log('Chroma settings loaded:', data);
+    document.getElementById('vectorBackend').value = data.backend || 'chroma';
     document.getElementById('chromaHost').value = data.host || '127.0.0.1';
     document.getElementById('chromaPort').value = data.port || 8000;
     document.getElementById('chromaCollection').value = data.collection || 'articles';
@@ -1313,6 +1606,7 @@ document.getElementById('chromaForm').addEventListener('submit', async function
   e.preventDefault();
 
   const payload = {
+    backend: document.getElementById('vectorBackend').value,
     host: document.getElementById('chromaHost').value.trim(),
     port: parseInt(document.getElementById('chromaPort').value),
     collection: document.getElementById('chromaCollection').value.trim(),
@@ -1328,6 +1622,7 @@ document.getElementById('chromaForm').addEventListener('submit', async function
 
     if (res.ok) {
       setChromaStatus('设置已保存');
+      loadVectorIndexVersions();
     } else {
       const result = await res.json();
       setChromaStatus(result.error || '保存失败');
@@ -1337,6 +1632,228 @@ document.getElementById('chromaForm').addEventListener('submit', async function
   }
 });
 
+// Vector index versions
+const VECTOR_INDEX_POLL_INTERVAL = 5000;
+let vectorIndexPollTimer = null;
+
+const vectorIndexStatusLabels = {
+  building: '重建中',
+  paused: '已暂停',
+  completed: '待激活',
+  active: '使用中',
+  retired: '已退役',
+  cancelled: '已取消',
+  failed: '失败',
+};
+
+const vectorIndexStaleLabels = {
+  legacy: '当前使用未版本化的旧索引',
+  embedding_config: 'Embedding 配置已更换',
+  text_version: '向量文本格式已更新',
+  backend: '向量存储后端已更换',
+  distance_metric: '距离度量已更换',
+};
+
+loadVectorIndexVersions();
+
+async function loadVectorIndexVersions() {
+  if (vectorIndexPollTimer) {
+    clearTimeout(vectorIndexPollTimer);
+    vectorIndexPollTimer = null;
+  }
+
+  try {
+    const res = await fetch('/api/settings/vector-index', { cache: 'no-store' });
+    if (!res.ok) {
+      const errData = await res.json().catch(() => ({}));
+      throw new Error(errData.error || '加载失败');
+    }
+    const data = await res.json();
+    renderVectorIndexVersions(data);
+
+    // 重建中时轮询进度
+    if (data.versions.some((v) => v.status === 'building')) {
+      vectorIndexPollTimer = setTimeout(loadVectorIndexVersions, VECTOR_INDEX_POLL_INTERVAL);
+    }
+  } catch (err) {
+    console.error('Failed to load vector index versions:', err);
+    setVectorIndexNotice('加载索引版本失败: ' + (err instanceof Error ? err.message : '未知错误'), 'error');
+  }
+}
+
+function setVectorIndexNotice(message, type) {
+  const el = document.getElementById('vectorIndexNotice');
+  el.textContent = message || '';
+  el.className = 'status-message' + (message ? ' ' + type : '');
+  el.style.display = message ? '' : 'none';
+}
+
+function renderVectorIndexVersions(data) {
+  const tbody = document.getElementById('vectorIndexBody');
+  const emptyState = document.getElementById('vectorIndexEmptyState');
+  document.getElementById('vectorIndexRebuildBtn').disabled = data.pendingVersionId !== null;
+
+  if (data.pendingVersionId !== null) {
+    setVectorIndexNotice('', '');
+  } else if (data.staleReasons.length > 0) {
+    const reasons = data.staleReasons.map((r) => vectorIndexStaleLabels[r] || r).join('；');
+    setVectorIndexNotice(reasons + '，建议重建向量索引', 'error');
+  } else {
+    setVectorIndexNotice('', '');
+  }
+
+  if (data.versions.length === 0) {
+    tbody.innerHTML = '';
+    emptyState.style.display = '';
+    return;
+  }
+  emptyState.style.display = 'none';
+
+  tbody.innerHTML = data.versions.map((v) => {
+    const total = Math.max(v.totalArticles, v.processedArticles);
+    const percent = total > 0 ? Math.round((v.processedArticles / total) * 100) : 100;
+    const progress = v.processedArticles + ' / ' + total + ' (' + percent + '%)' +
+      (v.failedArticles > 0 ? '，失败 ' + v.failedArticles : '');
+
+    const actions = [];
+    if (v.status === 'building') {
+      actions.push('<button class="btn-icon" onclick="vectorIndexAction(' + v.id + ', \'pause\')">暂停</button>');
+    }
+    if (v.status === 'paused') {
+      actions.push('<button class="btn-icon" onclick="vectorIndexAction(' + v.id + ', \'resume\')">继续</button>');
+    }
+    if (v.status === 'completed') {
+      actions.push('<button class="btn-icon" onclick="vectorIndexAction(' + v.id + ', \'activate\')">激活</button>');
+    }
+    if (['building', 'paused', 'completed'].includes(v.status)) {
+      actions.push('<button class="btn-icon" onclick="vectorIndexAction(' + v.id + ', \'cancel\')">取消</button>');
+    }
+    if (['retired', 'cancelled', 'failed'].includes(v.status)) {
+      actions.push('<button class="btn-icon" onclick="deleteVectorIndexVersion(' + v.id + ')">删除</button>');
+    }
+
+    return '<tr>' +
+      '<td>#' + v.id + '</td>' +
+      '<td>' + escapeHtml(v.backend) + ' / <code>' + escapeHtml(v.collection) + '</code></td>' +
+      '<td><span class="llm-model">' + escapeHtml(v.embeddingModel) + '</span></td>' +
+      '<td>' + (v.dimensions ?? '-') + '</td>' +
+      '<td>v' + v.textVersion + '</td>' +
+      '<td class="vector-index-progress">' + progress + '</td>' +
+      '<td title="' + escapeHtml(v.errorMessage || '') + '">' + (vectorIndexStatusLabels[v.status] || v.status) +
+      (v.errorMessage ? ' ⚠️' : '') + '</td>' +
+      '<td>' + actions.join('') + '</td>' +
+      '</tr>';
+  }).join('');
+}
+
+function readVectorIndexThrottle() {
+  const payload = {};
+  const batchSize = document.getElementById('vectorIndexBatchSize').value.trim();
+  const batchDelay = document.getElementById('vectorIndexBatchDelay').value.trim();
+  if (batchSize) payload.batchSize = parseInt(batchSize, 10);
+  if (batchDelay) payload.batchDelayMs = parseInt(batchDelay, 10);
+  return payload;
+}
+
+async function rebuildVectorIndex() {
+  const confirmed = await showConfirm('将按当前后端与 Embedding 配置在后台重建全部文章的向量，期间检索仍使用当前索引。继续？', {
+    title: '重建向量索引',
+    okText: '开始重建',
+    cancelText: '取消'
+  });
+  if (!confirmed) return;
+
+  try {
+    const res = await fetch('/api/settings/vector-index/rebuild', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(readVectorIndexThrottle()),
+    });
+    if (!res.ok) {
+      const result = await res.json().catch(() => ({}));
+      await showConfirm(result.error || '重建失败', {
+        title: '错误',
+        okText: '知道了',
+        okButtonType: 'btn-secondary'
+      });
+    }
+  } catch (err) {
+    await showConfirm('重建失败，请稍后重试', {
+      title: '错误',
+      okText: '知道了',
+      okButtonType: 'btn-secondary'
+    });
+  }
+  loadVectorIndexVersions();
+}
+
+async function vectorIndexAction(id, action) {
+  if (action === 'cancel' || action === 'activate') {
+    const confirmed = await showConfirm(
+      action === 'cancel'
+        ? '取消后将删除该版本已写入的向量。继续？'
+        : '激活后检索将切换到该版本，当前使用的版本会被退役。继续？',
+      {
+        title: action === 'cancel' ? '取消重建' : '激活索引版本',
+        okText: action === 'cancel' ? '取消重建' : '激活',
+        cancelText: '返回'
+      }
+    );
+    if (!confirmed) return;
+  }
+
+  try {
+    const res = await fetch('/api/settings/vector-index/versions/' + id + '/' + action, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(action === 'resume' ? readVectorIndexThrottle() : {}),
+    });
+    if (!res.ok) {
+      const result = await res.json().catch(() => ({}));
+      await showConfirm(result.error || '操作失败', {
+        title: '错误',
+        okText: '知道了',
+        okButtonType: 'btn-secondary'
+      });
+    }
+  } catch (err) {
+    await showConfirm('操作失败，请稍后重试', {
+      title: '错误',
+      okText: '知道了',
+      okButtonType: 'btn-secondary'
+    });
+  }
+  loadVectorIndexVersions();
+}
+
+async function deleteVectorIndexVersion(id) {
+  const confirmed = await showConfirm('确定要删除该索引版本及其向量吗？', {
+    title: '删除索引版本',
+    okText: '删除',
+    cancelText: '取消'
+  });
+  if (!confirmed) return;
+
+  try {
+    const res = await fetch('/api/settings/vector-index/versions/' + id, { method: 'DELETE' });
+    if (!res.ok) {
+      const result = await res.json().catch(() => ({}));
+      await showConfirm(result.error || '删除失败', {
+        title: '错误',
+        okText: '知道了',
+        okButtonType: 'btn-secondary'
+      });
+    }
+  } catch (err) {
+    await showConfirm('删除失败，请稍后重试', {
+      title: '错误',
+      okText: '知道了',
+      okButtonType: 'btn-secondary'
+    });
+  }
+  loadVectorIndexVersions();
+}
+
 // ============================================
 // Journal Management
 // ============================================
@@ -1810,6 +2327,15 @@ function populateTelegramForm() {
     botTokenInput.placeholder = '已配置（点击修改）';
   }
 
+  // Update mode (polling / webhook)
+  const updateModeSelect = document.getElementById('telegramUpdateMode');
+  if (updateModeSelect) {
+    updateModeSelect.value = telegramConfig.updateMode || 'polling';
+    document.getElementById('telegramWebhookUrl').value = telegramConfig.webhookUrl || '';
+    document.getElementById('telegramWebhookEndpoint').textContent = telegramConfig.webhookEndpoint || '';
+    handleTelegramUpdateModeChange();
+  }
+
   // Enable/disable config fields based on enabled state
   if (configFields) {
     configFields.style.opacity = enabledCheckbox.checked ? '1' : '0.5';
@@ -1868,6 +2394,10 @@ function renderTelegramChats() {
     } else if (chat.pdfSummary !== undefined) {
       tags.push('<span class="telegram-chat-tag pdf-summary disabled">PDF 总结</span>');
     }
+    if (chat.isPaused) {
+      // 通过 Bot /pause 命令暂停，/resume 恢复
+      tags.push('<span class="telegram-chat-tag disabled">推送已暂停</span>');
+    }
 
     return '<div class="telegram-chat-item ' + inactiveClass + '">' +
       '<div class="telegram-chat-info">' +
@@ -1958,6 +2488,41 @@ async function saveTelegramToken() {
   }
 }
 
+async function saveTelegramUpdateMode() {
+  const updateMode = document.getElementById('telegramUpdateMode').value;
+  const webhookUrl = document.getElementById('telegramWebhookUrl').value.trim();
+
+  const payload = { updateMode };
+  if (updateMode === 'webhook') payload.webhookUrl = webhookUrl;
+
+  try {
+    const res = await fetch('/api/settings/telegram', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+
+    if (res.ok) {
+      telegramConfig = await res.json();
+      showTelegramStatus(updateMode === 'webhook' ? '已切换为 Webhook 模式' : '已切换为长轮询模式', 'success');
+      populateTelegramForm();
+    } else {
+      const result = await res.json();
+      showTelegramStatus(result.error || '保存失败', 'error');
+    }
+  } catch (err) {
+    showTelegramStatus('保存失败，请稍后重试', 'error');
+  }
+}
+
+function handleTelegramUpdateModeChange() {
+  const updateMode = document.getElementById('telegramUpdateMode').value;
+  const webhookFields = document.getElementById('telegramWebhookFields');
+  if (webhookFields) {
+    webhookFields.style.display = updateMode === 'webhook' ? 'block' : 'none';
+  }
+}
+
 function showTelegramStatus(message, type) {
   const el = document.getElementById('telegramStatus');
   if (!el) return;
@@ -2143,6 +2708,8 @@ async function saveTelegramChat(e) {
 // Telegram form event listeners
 document.getElementById('telegramEnabled')?.addEventListener('change', handleTelegramEnabledChange);
 document.getElementById('telegramSaveTokenBtn')?.addEventListener('click', saveTelegramToken);
+document.getElementById('telegramUpdateMode')?.addEventListener('change', handleTelegramUpdateModeChange);
+document.getElementById('telegramSaveModeBtn')?.addEventListener('click', saveTelegramUpdateMode);
 document.getElementById('addTelegramChatBtn')?.addEventListener('click', () => openTelegramChatModal());
 document.getElementById('telegramChatForm')?.addEventListener('submit', saveTelegramChat);
 
@@ -0,0 +1,234 @@
+// 用户管理与修改密码 - 前端 JavaScript
+const USER_ROLE_LABELS = { admin: '管理员', member: '成员', guest: '访客' };
+
+let users = [];
+let currentUserId = null;
+
+document.addEventListener('DOMContentLoaded', function () {
+  // 用户管理面板仅对管理员渲染
+  if (document.getElementById('usersBody')) {
+    loadUsers();
+  }
+});
+
+async function showUserError(message) {
+  await showConfirm(message, {
+    title: '错误',
+    okText: '知道了',
+    okButtonType: 'btn-secondary'
+  });
+}
+
+/* ── 修改密码 ── */
+
+document.getElementById('passwordForm').addEventListener('submit', async function (e) {
+  e.preventDefault();
+
+  const currentPassword = document.getElementById('currentPassword').value;
+  const newPassword = document.getElementById('newPassword').value;
+  if (newPassword !== document.getElementById('confirmNewPassword').value) {
+    await showUserError('两次输入的新密码不一致');
+    return;
+  }
+
+  try {
+    const res = await fetch('/api/users/me/password', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ currentPassword: currentPassword, newPassword: newPassword }),
+    });
+
+    if (res.ok) {
+      document.getElementById('passwordForm').reset();
+      window.toast.success('密码已修改');
+    } else {
+      const result = await res.json();
+      await showUserError(result.error || '修改失败');
+    }
+  } catch (err) {
+    await showUserError('修改失败，请稍后重试');
+  }
+});
+
+/* ── 用户管理（管理员） ── */
+
+/**
+ * 加载用户列表
+ */
+async function loadUsers() {
+  const tbody = document.getElementById('usersBody');
+  try {
+    const res = await fetch('/api/users', { cache: 'no-store' });
+    if (!res.ok) throw new Error('加载失败');
+    const data = await res.json();
+    users = data.users || [];
+    currentUserId = data.currentUserId;
+    renderUsers();
+  } catch (err) {
+    tbody.innerHTML = '<tr><td colspan="6" style="color: var(--red);">加载失败: ' +
+      escapeHtml(err instanceof Error ? err.message : '未知错误') + '</td></tr>';
+  }
+}
+
+function formatUserTime(value) {
+  return value ? new Date(value).toLocaleString('zh-CN') : '—';
+}
+
+/**
+ * 渲染用户表格（当前登录用户不可修改角色 / 禁用 / 删除自己）
+ */
+function renderUsers() {
+  const tbody = document.getElementById('usersBody');
+
+  if (users.length === 0) {
+    tbody.innerHTML = '<tr><td colspan="6" style="color: var(--dim); text-align: center;">暂无用户</td></tr>';
+    return;
+  }
+
+  tbody.innerHTML = users.map(function (user) {
+    const isSelf = user.id === currentUserId;
+    const role = isSelf
+      ? escapeHtml(USER_ROLE_LABELS[user.role] || user.role)
+      : '<select onchange="updateUser(' + user.id + ', { role: this.value })">' +
+        '<option value="member"' + (user.role === 'member' ? ' selected' : '') + '>成员</option>' +
+        '<option value="admin"' + (user.role === 'admin' ? ' selected' : '') + '>管理员</option>' +
+        '<option value="guest"' + (user.role === 'guest' ? ' selected' : '') + '>访客</option>' +
+        '</select>';
+    const status = user.disabled
+      ? '<span class="status-badge inactive">已禁用</span>'
+      : '<span class="status-badge active">正常</span>';
+
+    let actions = '<button class="btn-icon" onclick="showResetPasswordModal(' + user.id + ')">重置密码</button>';
+    if (!isSelf) {
+      actions += user.disabled
+        ? '<button class="btn-icon" onclick="updateUser(' + user.id + ', { disabled: false })">启用</button>'
+        : '<button class="btn-icon" onclick="updateUser(' + user.id + ', { disabled: true })">禁用</button>';
+      actions += '<button class="btn-icon" onclick="deleteUser(' + user.id + ')">删除</button>';
+    }
+
+    return '<tr>' +
+      '<td>' + escapeHtml(user.username) + (isSelf ? ' <span class="type-badge">当前</span>' : '') + '</td>' +
+      '<td>' + role + '</td>' +
+      '<td>' + status + '</td>' +
+      '<td>' + formatUserTime(user.lastLoginAt) + '</td>' +
+      '<td>' + formatUserTime(user.createdAt) + '</td>' +
+      '<td><div class="action-buttons">' + actions + '</div></td>' +
+      '</tr>';
+  }).join('');
+}
+
+function showUserModal() {
+  document.getElementById('userForm').reset();
+  document.getElementById('userRole').value = 'member';
+  document.getElementById('userModal').classList.add('active');
+  document.getElementById('userUsername').focus();
+}
+
+function closeUserModal() {
+  document.getElementById('userModal').classList.remove('active');
+}
+
+function showResetPasswordModal(userId) {
+  document.getElementById('resetPasswordForm').reset();
+  document.getElementById('resetPasswordUserId').value = userId;
+  document.getElementById('resetPasswordModal').classList.add('active');
+  document.getElementById('resetPasswordValue').focus();
+}
+
+function closeResetPasswordModal() {
+  document.getElementById('resetPasswordModal').classList.remove('active');
+}
+
+async function updateUser(userId, changes) {
+  try {
+    const res = await fetch('/api/users/' + userId, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+    if (!res.ok) {
+      const result = await res.json();
+      await showUserError(result.error || '更新失败');
+    }
+  } catch (err) {
+    await showUserError('更新失败，请稍后重试');
+  }
+  loadUsers();
+}
+
+async function deleteUser(userId) {
+  const user = users.find(function (u) { return u.id === userId; });
+  const confirmed = await showConfirm(
+    '删除用户「' + (user ? user.username : userId) + '」将同时删除其订阅源、文章等全部数据，且无法恢复。确定删除吗？',
+    {
+      title: '删除用户',
+      okText: '删除',
+      cancelText: '取消'
+    }
+  );
+  if (!confirmed) return;
+
+  try {
+    const res = await fetch('/api/users/' + userId, { method: 'DELETE' });
+    if (res.ok) {
+      loadUsers();
+    } else {
+      const result = await res.json();
+      await showUserError(result.error || '删除失败');
+    }
+  } catch (err) {
+    await showUserError('删除失败，请稍后重试');
+  }
+}
+
+if (document.getElementById('userForm')) {
+  document.getElementById('userForm').addEventListener('submit', async function (e) {
+    e.preventDefault();
+
+    try {
+      const res = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          username: document.getElementById('userUsername').value,
+          password: document.getElementById('userPassword').value,
+          role: document.getElementById('userRole').value,
+        }),
+      });
+
+      if (res.ok) {
+        closeUserModal();
+        loadUsers();
+      } else {
+        const result = await res.json();
+        await showUserError(result.error || '创建失败');
+      }
+    } catch (err) {
+      await showUserError('创建失败，请稍后重试');
+    }
+  });
+
+  document.getElementById('resetPasswordForm').addEventListener('submit', async function (e) {
+    e.preventDefault();
+
+    const userId = document.getElementById('resetPasswordUserId').value;
+    try {
+      const res = await fetch('/api/users/' + userId + '/password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: document.getElementById('resetPasswordValue').value }),
+      });
+
+      if (res.ok) {
+        closeResetPasswordModal();
+        window.toast.success('密码已重置');
+        loadUsers();
+      } else {
+        const result = await res.json();
+        await showUserError(result.error || '重置失败');
+      }
+    } catch (err) {
+      await showUserError('重置失败，请稍后重试');
+    }
+  });
+}
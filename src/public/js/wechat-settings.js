@@ -75,15 +75,15 @@ function renderWeChatWebhooks() {
     return '<div class="wechat-webhook-item ' + statusClass + '">' +
       '<div class="wechat-webhook-info">' +
         '<div class="wechat-webhook-name">' + escapeHtml(webhook.name) + '</div>' +
-        '<div class="wechat-webhook-url">' + escapeHtml(truncateUrl(webhook.url)) + '</div>' +
+        '<div class="wechat-webhook-url">' + escapeHtml(truncateUrl(webhook.url_hint)) + '</div>' +
         '<div class="wechat-webhook-details">' +
           '<div class="wechat-webhook-tags">' + pushTypeTags.join('') + '</div>' +
         '</div>' +
       '</div>' +
       '<div class="wechat-webhook-actions">' +
-        '<button class="btn-icon" onclick="testWeChatWebhook(\'' + escapeHtml(webhook.id) + '\')">测试</button>' +
-        '<button class="btn-icon" onclick="editWeChatWebhook(\'' + escapeHtml(webhook.id) + '\')">编辑</button>' +
-        '<button class="btn-icon" onclick="deleteWeChatWebhook(\'' + escapeHtml(webhook.id) + '\')">删除</button>' +
+        '<button class="btn-icon" onclick="testWeChatWebhook(' + webhook.id + ')">测试</button>' +
+        '<button class="btn-icon" onclick="editWeChatWebhook(' + webhook.id + ')">编辑</button>' +
+        '<button class="btn-icon" onclick="deleteWeChatWebhook(' + webhook.id + ')">删除</button>' +
       '</div>' +
     '</div>';
   }).join('');
@@ -107,6 +107,8 @@ function openWeChatWebhookModal(webhookId) {
   const form = document.getElementById('wechatWebhookForm');
 
   form.reset();
+  const urlInput = document.getElementById('wechatWebhookUrl');
+  const urlHint = document.getElementById('wechatWebhookUrlHint');
 
   if (webhookId) {
     const webhook = wechatWebhooks.find(w => w.id === webhookId);
@@ -115,7 +117,11 @@ function openWeChatWebhookModal(webhookId) {
     title.textContent = '编辑 Webhook';
     document.getElementById('wechatWebhookId').value = webhook.id;
     document.getElementById('wechatWebhookName').value = webhook.name;
-    document.getElementById('wechatWebhookUrl').value = webhook.url;
+    // 接口只返回脱敏地址，留空表示不修改
+    urlInput.value = '';
+    urlInput.required = false;
+    urlInput.placeholder = webhook.url_hint;
+    urlHint.textContent = '留空则保持当前地址不变（加密保存）';
     document.getElementById('wechatWebhookDailySummaryJournal').checked = webhook.push_types?.daily_summary_journal !== false;
     document.getElementById('wechatWebhookDailySummaryBlogNews').checked = webhook.push_types?.daily_summary_blog_news !== false;
     document.getElementById('wechatWebhookJournalAll').checked = webhook.push_types?.journal_all !== false;
@@ -126,6 +132,9 @@ function openWeChatWebhookModal(webhookId) {
   } else {
     title.textContent = '添加 Webhook';
     document.getElementById('wechatWebhookId').value = '';
+    urlInput.required = true;
+    urlInput.placeholder = 'https://qyapi.weixin.qq.com/cgi-bin/webhook/send?key=xxx';
+    urlHint.textContent = '企业微信群机器人 Webhook 地址（加密保存）';
     document.getElementById('wechatWebhookDailySummaryJournal').checked = true;
     document.getElementById('wechatWebhookDailySummaryBlogNews').checked = true;
     document.getElementById('wechatWebhookJournalAll').checked = true;
@@ -0,0 +1,180 @@
+// 工作区设置 - 前端 JavaScript
+const WORKSPACE_ROLE_LABELS = { owner: '所有者', editor: '编辑', reader: '只读' };
+
+let workspaceMembers = [];
+let currentWorkspaceRole = null;
+
+document.addEventListener('DOMContentLoaded', function () {
+  loadWorkspace();
+});
+
+/**
+ * 加载当前工作区与成员
+ */
+async function loadWorkspace() {
+  const tbody = document.getElementById('workspaceMembersBody');
+  try {
+    const [workspacesRes, membersRes] = await Promise.all([
+      fetch('/api/workspaces', { cache: 'no-store' }),
+      fetch('/api/workspace/members', { cache: 'no-store' }),
+    ]);
+    if (!workspacesRes.ok || !membersRes.ok) throw new Error('加载失败');
+
+    const workspacesData = await workspacesRes.json();
+    const membersData = await membersRes.json();
+    const active = (workspacesData.workspaces || []).find(function (w) {
+      return w.workspaceId === workspacesData.activeWorkspaceId;
+    });
+
+    workspaceMembers = membersData.members || [];
+    currentWorkspaceRole = membersData.role;
+
+    const isOwner = currentWorkspaceRole === 'owner';
+    document.getElementById('workspaceName').value = active ? active.name : '';
+    document.getElementById('workspaceName').disabled = !isOwner;
+    document.getElementById('workspaceRenameBtn').style.display = isOwner ? '' : 'none';
+    document.getElementById('addWorkspaceMemberBtn').style.display = isOwner ? '' : 'none';
+
+    renderWorkspaceMembers();
+  } catch (err) {
+    tbody.innerHTML = '<tr><td colspan="4" style="color: var(--red);">加载失败: ' +
+      escapeHtml(err instanceof Error ? err.message : '未知错误') + '</td></tr>';
+  }
+}
+
+/**
+ * 渲染成员表格（仅所有者可修改角色 / 移除成员）
+ */
+function renderWorkspaceMembers() {
+  const tbody = document.getElementById('workspaceMembersBody');
+  const isOwner = currentWorkspaceRole === 'owner';
+
+  if (workspaceMembers.length === 0) {
+    tbody.innerHTML = '<tr><td colspan="4" style="color: var(--dim); text-align: center;">暂无成员</td></tr>';
+    return;
+  }
+
+  tbody.innerHTML = workspaceMembers.map(function (member) {
+    let role = escapeHtml(WORKSPACE_ROLE_LABELS[member.role] || member.role);
+    let actions = '';
+
+    if (isOwner && member.role !== 'owner') {
+      role = '<select onchange="updateWorkspaceMemberRole(' + member.userId + ', this.value)">' +
+        '<option value="reader"' + (member.role === 'reader' ? ' selected' : '') + '>只读</option>' +
+        '<option value="editor"' + (member.role === 'editor' ? ' selected' : '') + '>编辑</option>' +
+        '</select>';
+      actions = '<div class="action-buttons">' +
+        '<button class="btn-icon" onclick="removeWorkspaceMember(' + member.userId + ')">移除</button>' +
+        '</div>';
+    }
+
+    return '<tr>' +
+      '<td>' + escapeHtml(member.username) + '</td>' +
+      '<td>' + role + '</td>' +
+      '<td>' + new Date(member.createdAt).toLocaleString('zh-CN') + '</td>' +
+      '<td>' + actions + '</td>' +
+      '</tr>';
+  }).join('');
+}
+
+function showWorkspaceMemberModal() {
+  document.getElementById('workspaceMemberUsername').value = '';
+  document.getElementById('workspaceMemberRole').value = 'reader';
+  document.getElementById('workspaceMemberModal').classList.add('active');
+  document.getElementById('workspaceMemberUsername').focus();
+}
+
+function closeWorkspaceMemberModal() {
+  document.getElementById('workspaceMemberModal').classList.remove('active');
+}
+
+async function showWorkspaceError(message) {
+  await showConfirm(message, {
+    title: '错误',
+    okText: '知道了',
+    okButtonType: 'btn-secondary'
+  });
+}
+
+async function updateWorkspaceMemberRole(userId, role) {
+  try {
+    const res = await fetch('/api/workspace/members/' + userId, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role: role }),
+    });
+    if (!res.ok) {
+      const result = await res.json();
+      await showWorkspaceError(result.error || '更新失败');
+    }
+  } catch (err) {
+    await showWorkspaceError('更新失败，请稍后重试');
+  }
+  loadWorkspace();
+}
+
+async function removeWorkspaceMember(userId) {
+  const confirmed = await showConfirm('移除后该用户将无法访问此工作区，确定移除吗？', {
+    title: '移除成员',
+    okText: '移除',
+    cancelText: '取消'
+  });
+  if (!confirmed) return;
+
+  try {
+    const res = await fetch('/api/workspace/members/' + userId, { method: 'DELETE' });
+    if (res.ok) {
+      loadWorkspace();
+    } else {
+      const result = await res.json();
+      await showWorkspaceError(result.error || '移除失败');
+    }
+  } catch (err) {
+    await showWorkspaceError('移除失败，请稍后重试');
+  }
+}
+
+document.getElementById('workspaceNameForm').addEventListener('submit', async function (e) {
+  e.preventDefault();
+
+  try {
+    const res = await fetch('/api/workspace', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: document.getElementById('workspaceName').value }),
+    });
+    if (res.ok) {
+      window.toast.success('工作区已重命名');
+    } else {
+      const result = await res.json();
+      await showWorkspaceError(result.error || '重命名失败');
+    }
+  } catch (err) {
+    await showWorkspaceError('重命名失败，请稍后重试');
+  }
+});
+
+document.getElementById('workspaceMemberForm').addEventListener('submit', async function (e) {
+  e.preventDefault();
+
+  try {
+    const res = await fetch('/api/workspace/members', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        username: document.getElementById('workspaceMemberUsername').value,
+        role: document.getElementById('workspaceMemberRole').value,
+      }),
+    });
+
+    if (res.ok) {
+      closeWorkspaceMemberModal();
+      loadWorkspace();
+    } else {
+      const result = await res.json();
+      await showWorkspaceError(result.error || '添加失败');
+    }
+  } catch (err) {
+    await showWorkspaceError('添加失败，请稍后重试');
+  }
+});
@@ -0,0 +1,33 @@
+// 工作区切换 - 仅在用户属于多个工作区时显示
+(async function () {
+  const select = document.getElementById('workspaceSwitcher');
+  if (!select) return;
+
+  const ROLE_LABELS = { owner: '所有者', editor: '编辑', reader: '只读' };
+
+  try {
+    const res = await fetch('/api/workspaces', { cache: 'no-store' });
+    if (!res.ok) return;
+    const data = await res.json();
+    const workspaces = data.workspaces || [];
+    if (workspaces.length < 2) return;
+
+    workspaces.forEach(function (workspace) {
+      const option = document.createElement('option');
+      option.value = workspace.workspaceId;
+      option.textContent = workspace.name + '（' + (ROLE_LABELS[workspace.role] || workspace.role) + '）';
+      option.selected = workspace.workspaceId === data.activeWorkspaceId;
+      select.appendChild(option);
+    });
+    select.hidden = false;
+
+    select.addEventListener('change', async function () {
+      const switchRes = await fetch('/api/workspaces/' + select.value + '/switch', { method: 'POST' });
+      if (switchRes.ok) {
+        window.location.reload();
+      }
+    });
+  } catch (err) {
+    console.error('Failed to load workspaces:', err);
+  }
+})();
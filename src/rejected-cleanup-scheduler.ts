@@ -321,6 +321,9 @@ export class RejectedCleanupScheduler extends BaseScheduler {
               title: article.title,
               title_normalized: article.title_normalized,
               url: article.url,
+              guid: article.guid,
+              canonical_url: article.canonical_url,
+              content_hash: article.content_hash,
               summary: article.summary,
               content: article.content,
               markdown_content: article.markdown_content,
@@ -334,6 +337,7 @@ export class RejectedCleanupScheduler extends BaseScheduler {
               published_year: article.published_year,
               published_issue: article.published_issue,
               published_volume: article.published_volume,
+              doi: article.doi,
               error_message: article.error_message,
               is_read: article.is_read,
               source_origin: article.source_origin,
@@ -1,7 +1,8 @@
 /**
  * RSS Parser Module
  *
- * RSS/Atom feed parser using rss-parser library.
+ * RSS/Atom/RDF feed parser using rss-parser library, plus native JSON Feed 1.x.
+ * Extracts Dublin Core / PRISM bibliographic metadata (DOI, volume, issue).
  * Provides feed parsing, validation, and error handling.
  * Supports HTTP proxy for accessing restricted feeds.
  */
@@ -10,6 +11,7 @@ import Parser from 'rss-parser';
 import { ProxyAgent } from 'undici';
 import { logger } from './logger.js';
 import { config } from './config.js';
+import { normalizeDoi } from './utils/doi.js';
 
 const log = logger.child({ module: 'rss-parser' });
 
@@ -27,7 +29,15 @@ export interface RSSFeedItem {
   description?: string;
   guid?: string;
   author?: string;
+  // dc:creator 可能出现多次（每位作者一个）
+  authors?: string[];
   categories?: string[];
+  // PRISM / Dublin Core 书目信息（出版商期刊 feed）
+  doi?: string;
+  volume?: number;
+  issue?: number;
+  publicationName?: string;
+  publicationDate?: string;
 }
 
 /**
@@ -42,6 +52,14 @@ export interface RSSFeed {
   items: RSSFeedItem[];
 }
 
+/**
+ * HTTP cache validators used for conditional requests
+ */
+export interface FeedValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
 /**
  * Result of RSS feed parsing
  */
@@ -51,6 +69,105 @@ export interface ParseResult {
   error?: string;
   itemCount: number;
   fetchTime: number;
+  // 服务端返回 304 Not Modified（此时无 feed）
+  notModified?: boolean;
+  // 本次响应的缓存校验器（供下次条件请求使用）
+  validators?: FeedValidators;
+}
+
+/**
+ * Raw feed download result
+ */
+interface FeedResponse {
+  notModified: boolean;
+  xml: string;
+  validators: FeedValidators;
+}
+
+/**
+ * JSON Feed 1.0 / 1.1 item (https://www.jsonfeed.org/version/1.1/)
+ */
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  date_published?: string;
+  date_modified?: string;
+  // 1.1 使用 authors 数组，1.0 使用 author
+  authors?: Array<{ name?: string }>;
+  author?: { name?: string };
+  tags?: string[];
+}
+
+/**
+ * JSON Feed document
+ */
+interface JsonFeedDocument {
+  version: string;
+  title?: string;
+  description?: string;
+  home_page_url?: string;
+  language?: string;
+  items?: JsonFeedItem[];
+}
+
+/**
+ * Dublin Core / PRISM item fields mapped by rss-parser customFields
+ */
+const BIBLIOGRAPHIC_ITEM_FIELDS: Array<string | [string, string] | [string, string, { keepArray: boolean }]> = [
+  ['dc:date', 'dcDate'],
+  ['dc:creator', 'dcCreators', { keepArray: true }],
+  ['dc:identifier', 'dcIdentifier'],
+  ['prism:doi', 'prismDoi'],
+  ['prism:volume', 'prismVolume'],
+  ['prism:number', 'prismNumber'],
+  ['prism:issueIdentifier', 'prismIssueIdentifier'],
+  ['prism:publicationName', 'prismPublicationName'],
+  ['prism:publicationDate', 'prismPublicationDate'],
+  ['prism:coverDate', 'prismCoverDate'],
+];
+
+const JSON_FEED_VERSION_PREFIX = 'https://jsonfeed.org/version/';
+
+/**
+ * Read text value from a parsed XML field (string, { _: text } or array of them)
+ */
+function xmlText(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    return xmlText(value[0]);
+  }
+  if (typeof value === 'string') {
+    return value.trim() || undefined;
+  }
+  if (value && typeof value === 'object' && typeof (value as any)._ === 'string') {
+    return (value as any)._.trim() || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Parse volume / issue number ("12", "12(3)", "3-4" → leading integer)
+ */
+function parseIssueNumber(value: unknown): number | undefined {
+  const text = xmlText(value);
+  if (!text) return undefined;
+  const match = text.match(/\d+/);
+  if (!match) return undefined;
+  const num = parseInt(match[0], 10);
+  return num > 0 ? num : undefined;
+}
+
+/**
+ * Check whether feed body is a JSON Feed document
+ */
+function isJsonFeed(text: string): boolean {
+  const trimmed = text.trimStart();
+  if (!trimmed.startsWith('{')) return false;
+  return trimmed.slice(0, 2048).includes('jsonfeed.org/version/');
 }
 
 /**
@@ -81,22 +198,41 @@ export class RSSParserImpl {
     this.parser = new Parser({
       timeout: 10000,
       customFields: {
-        item: ['author', 'categories'],
+        item: ['author', 'categories', ...BIBLIOGRAPHIC_ITEM_FIELDS] as any,
       },
     });
   }
 
   /**
    * Fetch RSS feed XML using undici with optional proxy support
+   *
+   * When validators are given, sends If-None-Match / If-Modified-Since
+   * and reports a 304 response as notModified instead of downloading the body.
    */
-  private async fetchFeedXML(url: string, timeoutMs: number = 10000): Promise<string> {
+  private async fetchFeedXML(
+    url: string,
+    validators: FeedValidators = {},
+    timeoutMs: number = 10000
+  ): Promise<FeedResponse> {
+    const headers: Record<string, string> = {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Accept': 'application/rss+xml, application/rdf+xml, application/atom+xml, application/feed+json, application/xml, text/xml, */*',
+      'Accept-Language': 'en-US,en;q=0.9',
+    };
+
+    if (validators.etag) {
+      headers['If-None-Match'] = validators.etag;
+    }
+    if (validators.lastModified) {
+      headers['If-Modified-Since'] = validators.lastModified;
+    }
+    // 无校验器时强制回源，避免中间缓存返回陈旧内容
+    if (!validators.etag && !validators.lastModified) {
+      headers['Cache-Control'] = 'no-cache';
+    }
+
     const fetchOptions: any = {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'application/rss+xml, application/rdf+xml, application/atom+xml, application/xml, text/xml, */*',
-        'Accept-Language': 'en-US,en;q=0.9',
-        'Cache-Control': 'no-cache',
-      },
+      headers,
       signal: AbortSignal.timeout(timeoutMs),
     };
 
@@ -106,26 +242,184 @@ export class RSSParserImpl {
 
     const response = await fetch(url, fetchOptions);
 
+    if (response.status === 304) {
+      return {
+        notModified: true,
+        xml: '',
+        // 304 可能不携带校验器，沿用请求时的值
+        validators: {
+          etag: response.headers.get('etag') || validators.etag || null,
+          lastModified: response.headers.get('last-modified') || validators.lastModified || null,
+        },
+      };
+    }
+
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
-    return response.text();
+    return {
+      notModified: false,
+      xml: await response.text(),
+      validators: {
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+      },
+    };
+  }
+
+  /**
+   * Parse feed body (XML or JSON Feed) into RSSFeed
+   */
+  private async parseContent(text: string): Promise<RSSFeed> {
+    if (isJsonFeed(text)) {
+      return this.parseJsonFeed(text);
+    }
+
+    const feed = await this.parser.parseString(text);
+
+    return {
+      title: feed.title || 'Untitled Feed',
+      description: feed.description,
+      link: feed.link,
+      language: feed.language,
+      lastBuildDate: feed.lastBuildDate,
+      items: feed.items.map((item) => this.mapXmlItem(item)),
+    };
+  }
+
+  /**
+   * Map rss-parser item (RSS 2.0 / RSS 1.0 RDF / Atom) to RSSFeedItem
+   */
+  private mapXmlItem(item: Parser.Item & Record<string, any>): RSSFeedItem {
+    // dc:creator 可能有多个，rss-parser 默认只保留第一个
+    const authors = Array.isArray(item.dcCreators)
+      ? item.dcCreators.map((c: unknown) => xmlText(c)).filter((c: string | undefined): c is string => !!c)
+      : [];
+
+    // Atom author may be an object with name property
+    let authorValue: string | undefined;
+    if (authors.length > 0) {
+      authorValue = authors.join(', ');
+    } else if (item.creator) {
+      authorValue = item.creator;
+    } else if (item.author) {
+      if (typeof item.author === 'string') {
+        authorValue = item.author;
+      } else if (typeof item.author === 'object' && (item.author as any).name) {
+        authorValue = (item.author as any).name;
+      }
+    }
+
+    // RSS 1.0 (RDF) 条目可能没有 <link>，以 rdf:about 作为链接和 guid
+    const rdfAbout: string | undefined = item['rdf:about'];
+    const link = item.link || rdfAbout || '';
+
+    const publicationDate = xmlText(item.prismPublicationDate) || xmlText(item.prismCoverDate);
+
+    return {
+      title: item.title || 'Untitled',
+      link,
+      // Atom uses <published>, RSS uses <pubDate>, RDF uses <dc:date>
+      pubDate: item.pubDate || item.published || xmlText(item.dcDate) || publicationDate || item.isoDate,
+      content: item.content || item['content:encoded'] || item.summary,
+      contentSnippet: item.contentSnippet,
+      description: item.description || item.summary,
+      // Atom uses <id>, RSS uses <guid>
+      guid: item.guid || item.id || rdfAbout,
+      author: authorValue,
+      authors: authors.length > 0 ? authors : undefined,
+      // <category domain="..."> 会被解析为 { _: text, $: attrs }
+      categories: (Array.isArray(item.categories) ? item.categories : [])
+        .map((category: unknown) => xmlText(category))
+        .filter((category: string | undefined): category is string => !!category),
+      doi: normalizeDoi(xmlText(item.prismDoi))
+        ?? normalizeDoi(xmlText(item.dcIdentifier))
+        ?? normalizeDoi(/doi\.org\//i.test(link) ? link : null)
+        ?? undefined,
+      volume: parseIssueNumber(item.prismVolume),
+      issue: parseIssueNumber(item.prismNumber) ?? parseIssueNumber(item.prismIssueIdentifier),
+      publicationName: xmlText(item.prismPublicationName),
+      publicationDate,
+    };
+  }
+
+  /**
+   * Parse JSON Feed 1.0 / 1.1 document
+   * @throws Error if document is not valid JSON Feed
+   */
+  private parseJsonFeed(text: string): RSSFeed {
+    let doc: JsonFeedDocument;
+    try {
+      doc = JSON.parse(text);
+    } catch {
+      throw new Error('Invalid JSON Feed: malformed JSON');
+    }
+
+    if (typeof doc?.version !== 'string' || !doc.version.startsWith(JSON_FEED_VERSION_PREFIX)) {
+      throw new Error('Invalid JSON Feed: missing version');
+    }
+
+    const items = Array.isArray(doc.items) ? doc.items : [];
+
+    return {
+      title: doc.title || 'Untitled Feed',
+      description: doc.description,
+      link: doc.home_page_url,
+      language: doc.language,
+      items: items.map((item) => {
+        const authors = (item.authors ?? (item.author ? [item.author] : []))
+          .map((a) => a?.name?.trim())
+          .filter((name): name is string => !!name);
+        const link = item.url || item.external_url || '';
+        const plainText = item.content_text || undefined;
+
+        return {
+          // JSON Feed 中 title 可选，缺失时退回摘要
+          title: item.title || item.summary || plainText?.slice(0, 200) || 'Untitled',
+          link,
+          pubDate: item.date_published || item.date_modified,
+          content: item.content_html || plainText,
+          contentSnippet: plainText ?? item.summary,
+          description: item.summary,
+          guid: item.id !== undefined ? String(item.id) : undefined,
+          author: authors.length > 0 ? authors.join(', ') : undefined,
+          authors: authors.length > 0 ? authors : undefined,
+          categories: Array.isArray(item.tags) ? item.tags : [],
+          doi: normalizeDoi(/doi\.org\//i.test(item.external_url ?? '') ? item.external_url : null) ?? undefined,
+        };
+      }),
+    };
   }
 
   /**
    * Parse RSS feed from URL
    * @param url - RSS feed URL
+   * @param validators - Cached ETag / Last-Modified for a conditional request
    * @returns Parse result with feed data or error
    */
-  async parseFeed(url: string): Promise<ParseResult> {
+  async parseFeed(url: string, validators?: FeedValidators): Promise<ParseResult> {
     const startTime = Date.now();
 
     try {
       log.debug({ url, proxy: HTTP_PROXY ? 'enabled' : 'disabled' }, 'Parsing RSS feed');
 
-      const xml = await this.fetchFeedXML(url);
-      const feed = await this.parser.parseString(xml);
+      const response = await this.fetchFeedXML(url, validators);
+
+      if (response.notModified) {
+        const elapsed = Date.now() - startTime;
+        log.info({ url, elapsed: `${elapsed}ms` }, 'RSS feed not modified');
+
+        return {
+          success: true,
+          notModified: true,
+          validators: response.validators,
+          itemCount: 0,
+          fetchTime: elapsed,
+        };
+      }
+
+      const feed = await this.parseContent(response.xml);
       const elapsed = Date.now() - startTime;
 
       log.info(
@@ -135,42 +429,10 @@ export class RSSParserImpl {
 
       return {
         success: true,
-        feed: {
-          title: feed.title || 'Untitled Feed',
-          description: feed.description,
-          link: feed.link,
-          language: feed.language,
-          lastBuildDate: feed.lastBuildDate,
-          items: feed.items.map((item) => {
-            // Atom author may be an object with name property
-            let authorValue: string | undefined;
-            if (item.creator) {
-              authorValue = item.creator;
-            } else if (item.author) {
-              if (typeof item.author === 'string') {
-                authorValue = item.author;
-              } else if (typeof item.author === 'object' && (item.author as any).name) {
-                authorValue = (item.author as any).name;
-              }
-            }
-
-            return {
-              title: item.title || 'Untitled',
-              link: item.link || '',
-              // Atom uses <published>, RSS uses <pubDate>
-              pubDate: item.pubDate || (item as any).published || item.isoDate,
-              content: item.content || item['content:encoded'] || (item as any).summary,
-              contentSnippet: item.contentSnippet,
-              description: (item as any).description || (item as any).summary,
-              // Atom uses <id>, RSS uses <guid>
-              guid: item.guid || (item as any).id,
-              author: authorValue,
-              categories: item.categories || [],
-            };
-          }),
-        },
+        feed,
         itemCount: feed.items.length,
         fetchTime: elapsed,
+        validators: response.validators,
       };
     } catch (error) {
       const elapsed = Date.now() - startTime;
@@ -230,7 +492,7 @@ export class RSSParserImpl {
     try {
       log.debug('Parsing RSS feed from string');
 
-      const feed = await this.parser.parseString(xml);
+      const feed = await this.parseContent(xml);
       const elapsed = Date.now() - startTime;
 
       log.info(
@@ -240,38 +502,7 @@ export class RSSParserImpl {
 
       return {
         success: true,
-        feed: {
-          title: feed.title || 'Untitled Feed',
-          description: feed.description,
-          link: feed.link,
-          items: feed.items.map((item) => {
-            // Atom author may be an object with name property
-            let authorValue: string | undefined;
-            if (item.creator) {
-              authorValue = item.creator;
-            } else if (item.author) {
-              if (typeof item.author === 'string') {
-                authorValue = item.author;
-              } else if (typeof item.author === 'object' && (item.author as any).name) {
-                authorValue = (item.author as any).name;
-              }
-            }
-
-            return {
-              title: item.title || 'Untitled',
-              link: item.link || '',
-              // Atom uses <published>, RSS uses <pubDate>
-              pubDate: item.pubDate || (item as any).published || item.isoDate,
-              content: item.content || item['content:encoded'] || (item as any).summary,
-              contentSnippet: item.contentSnippet,
-              description: (item as any).description || (item as any).summary,
-              // Atom uses <id>, RSS uses <guid>
-              guid: item.guid || (item as any).id,
-              author: authorValue,
-              categories: item.categories || [],
-            };
-          }),
-        },
+        feed,
         itemCount: feed.items.length,
         fetchTime: elapsed,
       };
@@ -6,18 +6,19 @@
  * - Concurrent fetch control
  * - Retry with exponential backoff
  * - Incremental fetching based on last_fetched_at
+ * - Conditional requests (ETag / Last-Modified), 304 skips parsing and filtering
  * - Manual trigger support
  * - Graceful shutdown
  */
 
 import { getDb } from './db.js';
-import { getRSSParser, type RSSFeedItem } from './rss-parser.js';
+import { getRSSParser, type RSSFeedItem, type FeedValidators } from './rss-parser.js';
 import { logger } from './logger.js';
 import { BaseScheduler } from './utils/base-scheduler.js';
 import { getActiveRSSSourcesForFetch } from './api/rss-sources.js';
 import { saveArticles, checkArticlesExistByTitle } from './api/articles.js';
 import { filterArticle, type FilterInput } from './filter.js';
-import { processArticle } from './pipeline.js';
+import { enqueueArticleJob } from './api/article-jobs.js';
 import { config } from './config.js';
 import { createRssFetchLog } from './api/rss-fetch-logs.js';
 
@@ -67,6 +68,7 @@ export interface FetchResult {
   success: boolean;
   articlesCount: number;
   newArticlesCount: number;
+  notModified?: boolean;
   error?: string;
   duration: number;
 }
@@ -237,11 +239,13 @@ export class RSSScheduler extends BaseScheduler {
       const successCount = results.filter((r) => r.success).length;
       const totalArticles = results.reduce((sum, r) => sum + r.articlesCount, 0);
       const newArticles = results.reduce((sum, r) => sum + r.newArticlesCount, 0);
+      const notModifiedCount = results.filter((r) => r.notModified).length;
 
       runLog.info(
         {
           totalTasks: results.length,
           successCount,
+          notModifiedCount,
           failedCount: results.length - successCount,
           totalArticles,
           newArticles,
@@ -389,21 +393,22 @@ export class RSSScheduler extends BaseScheduler {
       task.status = TaskStatus.COMPLETED;
       task.completedAt = new Date();
 
-      // Update last_fetched_at
-      await this.updateSourceLastFetched(task.rssSourceId);
+      // Update last_fetched_at and cache validators
+      await this.updateSourceLastFetched(task.rssSourceId, result.validators);
 
       const fetchResult: FetchResult = {
         rssSourceId: task.rssSourceId,
         success: true,
         articlesCount: result.articlesCount,
         newArticlesCount: result.newArticlesCount,
+        notModified: result.notModified,
         duration,
       };
 
       await createRssFetchLog({
         userId: task.userId,
         rssSourceId: task.rssSourceId,
-        status: 'success',
+        status: result.notModified ? 'not_modified' : 'success',
         articlesCount: result.articlesCount,
         newArticlesCount: result.newArticlesCount,
         durationMs: duration,
@@ -473,9 +478,23 @@ export class RSSScheduler extends BaseScheduler {
   ): Promise<{
     articlesCount: number;
     newArticlesCount: number;
+    notModified: boolean;
+    validators?: FeedValidators;
   }> {
     const parser = getRSSParser();
-    const parseResult = await parser.parseFeed(task.url);
+    // 首次抓取不带校验器，确保拿到完整 feed
+    const validators = isFirstFetch ? undefined : await this.getSourceValidators(task.rssSourceId);
+    const parseResult = await parser.parseFeed(task.url, validators);
+
+    if (parseResult.success && parseResult.notModified) {
+      log.debug({ rssSourceId: task.rssSourceId }, 'Feed not modified, skipping parse');
+      return {
+        articlesCount: 0,
+        newArticlesCount: 0,
+        notModified: true,
+        validators: parseResult.validators,
+      };
+    }
 
     if (!parseResult.success || !parseResult.feed) {
       throw new Error(parseResult.error || 'Failed to parse feed');
@@ -531,6 +550,8 @@ export class RSSScheduler extends BaseScheduler {
     return {
       articlesCount: originalArticleCount,
       newArticlesCount: newItems.length,
+      notModified: false,
+      validators: parseResult.validators,
     };
   }
 
@@ -600,14 +621,8 @@ export class RSSScheduler extends BaseScheduler {
         if (result.passed) {
           passedCount++;
           filterLog.debug({ articleId: article.id }, 'Article passed filter');
-            // 通过过滤后自动执行后续流程（按需翻译 + 向量索引）
-          processArticle(article.id, userId)
-            .then((res) => {
-              filterLog.debug({ articleId: article.id, status: res.status }, 'Auto process completed');
-            })
-            .catch((err) => {
-              filterLog.warn({ articleId: article.id, error: err?.message || String(err) }, 'Auto process failed');
-            });
+          // 通过过滤后入队，由任务队列执行后续流程（按需翻译 + 向量索引）
+          await enqueueArticleJob({ articleId: article.id, userId, source: 'rss' });
         } else {
           rejectedCount++;
           filterLog.debug({ articleId: article.id, reason: result.filterReason }, 'Article rejected by filter');
@@ -624,9 +639,26 @@ export class RSSScheduler extends BaseScheduler {
   }
 
   /**
-   * Update source's last_fetched_at
+   * Get source's cached ETag / Last-Modified validators
+   */
+  private async getSourceValidators(rssSourceId: number): Promise<FeedValidators> {
+    const db = getDb();
+    const row = await db
+      .selectFrom('rss_sources')
+      .where('id', '=', rssSourceId)
+      .select(['etag', 'last_modified'])
+      .executeTakeFirst();
+
+    return {
+      etag: row?.etag ?? null,
+      lastModified: row?.last_modified ?? null,
+    };
+  }
+
+  /**
+   * Update source's last_fetched_at and cache validators
    */
-  private async updateSourceLastFetched(rssSourceId: number): Promise<void> {
+  private async updateSourceLastFetched(rssSourceId: number, validators?: FeedValidators): Promise<void> {
     const db = getDb();
     const timestamp = new Date().toISOString();
 
@@ -634,6 +666,10 @@ export class RSSScheduler extends BaseScheduler {
       .updateTable('rss_sources')
       .set({
         last_fetched_at: timestamp,
+        ...(validators && {
+          etag: validators.etag ?? null,
+          last_modified: validators.lastModified ?? null,
+        }),
         updated_at: timestamp,
       })
       .where('id', '=', rssSourceId)
@@ -0,0 +1,177 @@
+/**
+ * Saved Search Worker
+ *
+ * 文章流水线完成后检查订阅搜索：每个启用的订阅搜索匹配上次检查后新处理完成的文章，
+ * 新匹配写入收件箱并按所选渠道推送（见 api/saved-searches.ts）。
+ * - 流水线每完成一篇文章调用 kick(userId)；短暂合并后按用户批量检查，一批文章只检查一次
+ * - 启动时检查全部用户，补上停机期间（或 CLI 脚本）处理完成的文章
+ * - 候选被截断时立即继续；单个搜索失败不推进水位，延迟后重试该用户
+ */
+
+import { logger } from './logger.js';
+import { config } from './config.js';
+import { checkSavedSearch, getActiveSavedSearches } from './api/saved-searches.js';
+import { sleep } from './utils/sleep.js';
+
+const log = logger.child({ module: 'saved-search-worker' });
+
+/**
+ * 合并同一批处理完成的文章（任务队列并发处理时逐篇触发）
+ */
+const KICK_DEBOUNCE_MS = 30_000;
+
+/**
+ * 检查失败后重试的延迟
+ */
+const RETRY_DELAY_MS = 5 * 60_000;
+
+/**
+ * 停止时等待进行中检查的最长时间
+ */
+const STOP_TIMEOUT_MS = 60_000;
+
+export class SavedSearchWorker {
+  private static instance: SavedSearchWorker | null = null;
+
+  private running = false;
+  private loop: Promise<void> | null = null;
+  private pendingAll = false;
+  private readonly pendingUsers = new Set<number>();
+  private readonly retryUsers = new Set<number>();
+  private kickTimer: NodeJS.Timeout | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  static getInstance(): SavedSearchWorker {
+    if (!SavedSearchWorker.instance) {
+      SavedSearchWorker.instance = new SavedSearchWorker();
+    }
+    return SavedSearchWorker.instance;
+  }
+
+  /**
+   * Check every user once, then wait for pipeline completions
+   */
+  start(): void {
+    if (this.running) {
+      log.warn('Saved search worker already running');
+      return;
+    }
+    this.running = true;
+    this.pendingAll = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Articles of the user finished processing (no-op when the worker is not running, e.g. CLI scripts)
+   */
+  kick(userId: number): void {
+    if (!this.running) return;
+    this.pendingUsers.add(userId);
+    this.schedule(KICK_DEBOUNCE_MS);
+  }
+
+  /**
+   * Stop after the current check (bounded wait)
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.kickTimer) {
+      clearTimeout(this.kickTimer);
+      this.kickTimer = null;
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.loop) {
+      await Promise.race([this.loop, sleep(STOP_TIMEOUT_MS)]);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    // 已有等待中的检查时并入该次
+    if (!this.running || this.kickTimer) return;
+    this.kickTimer = setTimeout(() => {
+      this.kickTimer = null;
+      this.drain();
+    }, delayMs);
+  }
+
+  private drain(): void {
+    // 检查进行中：结束后再跑一轮
+    if (this.loop) return;
+    this.loop = this.run()
+      .catch((error) => {
+        log.error({ error: error instanceof Error ? error.message : String(error) }, 'Saved search check loop failed');
+      })
+      .finally(() => {
+        this.loop = null;
+        if (this.pendingAll || this.pendingUsers.size > 0) {
+          this.schedule(0);
+        }
+      });
+  }
+
+  private async run(): Promise<void> {
+    const all = this.pendingAll;
+    const users = new Set(this.pendingUsers);
+    this.pendingAll = false;
+    this.pendingUsers.clear();
+
+    const searches = (await getActiveSavedSearches())
+      .filter((search) => all || users.has(search.userId));
+    const failedUsers = new Set<number>();
+    let matched = 0;
+
+    for (const search of searches) {
+      if (!this.running) return;
+      try {
+        const result = await checkSavedSearch(search.userId, search);
+        matched += result.matched;
+        if (result.hasMore) {
+          this.pendingUsers.add(search.userId);
+        }
+      } catch (error) {
+        // 单个搜索失败不推进水位，稍后重试
+        failedUsers.add(search.userId);
+        log.warn({ error, userId: search.userId, searchId: search.id }, 'Saved search check failed');
+      }
+    }
+
+    if (matched > 0) {
+      log.info({ searches: searches.length, matched }, 'Saved searches checked');
+    }
+    if (failedUsers.size > 0) {
+      this.scheduleRetry(failedUsers);
+    }
+  }
+
+  private scheduleRetry(userIds: Set<number>): void {
+    for (const userId of userIds) {
+      this.retryUsers.add(userId);
+    }
+    if (!this.running || this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      for (const userId of this.retryUsers) {
+        this.pendingUsers.add(userId);
+      }
+      this.retryUsers.clear();
+      this.schedule(0);
+    }, RETRY_DELAY_MS);
+  }
+}
+
+/**
+ * Initialize and get worker instance
+ */
+export function initSavedSearchWorker(): SavedSearchWorker {
+  return SavedSearchWorker.getInstance();
+}
+
+/**
+ * Get worker instance
+ */
+export function getSavedSearchWorker(): SavedSearchWorker {
+  return SavedSearchWorker.getInstance();
+}
@@ -36,7 +36,7 @@
 
 import { getDb } from '../db.js';
 import { filterArticle, type FilterInput } from '../filter.js';
-import { processArticle } from '../pipeline.js';
+import { processArticle } from '../pipeline/index.js';
 import { logger } from '../logger.js';
 
 const log = logger.child({ module: 'cleanup-unfiltered' });
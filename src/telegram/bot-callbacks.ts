@@ -1,7 +1,7 @@
 /**
  * Telegram Bot — Callback Query Handler
  *
- * Handles all inline keyboard callback queries (mark read, rate, show rating, cancel).
+ * Handles all inline keyboard callback queries (mark read, rate, show rating, cancel, page).
  * Extracted from bot.ts for single-responsibility separation.
  */
 
@@ -26,6 +26,7 @@ export interface CallbackHandlerDeps {
   isAuthorizedChat(chatId: string): boolean;
   isAdminChat(chatId: string): boolean;
   getChatConfig(chatId: string): TelegramChatConfig | undefined;
+  showPage(contextId: number, page: number, chatId: string, messageId: number): Promise<boolean>;
 }
 
 /**
@@ -36,6 +37,7 @@ export interface CallbackHandlerDeps {
  * - Rate article (1-5 stars)
  * - Show/hide rating keyboard
  * - Cancel operations
+ * - Page through command results (allowed for viewers)
  */
 export class CallbackHandler {
   private deps: CallbackHandlerDeps;
@@ -76,6 +78,12 @@ export class CallbackHandler {
     const { action, articleId, value } = decoded;
     const messageId = message?.message_id;
 
+    // Pagination is read-only, available to both roles
+    if (action === CallbackAction.PAGE) {
+      await this.handlePage(queryId, articleId, parseInt(value ?? '', 10), messageId, chatId);
+      return;
+    }
+
     // For viewer role, only allow viewing operations, not modifications
     if (!isAdmin) {
       if (action === CallbackAction.SHOW_RATING) {
@@ -146,6 +154,36 @@ export class CallbackHandler {
     }
   }
 
+  /**
+   * Handle pagination button (articleId field carries the page context ID)
+   */
+  private async handlePage(
+    queryId: string,
+    contextId: number,
+    page: number,
+    messageId: number | undefined,
+    chatId: string
+  ): Promise<void> {
+    const { client } = this.deps;
+
+    if (isNaN(page) || page < 1 || messageId === undefined) {
+      await client.answerCallbackQuery(queryId, '❌ 无效的操作', true);
+      return;
+    }
+
+    try {
+      const shown = await this.deps.showPage(contextId, page, chatId, messageId);
+      if (!shown) {
+        await client.answerCallbackQuery(queryId, '⌛ 结果已过期，请重新发送命令', true);
+        return;
+      }
+      await client.answerCallbackQuery(queryId);
+    } catch (error) {
+      log.error({ queryId, contextId, page, error: serializeError(error) }, 'Failed to show page');
+      await client.answerCallbackQuery(queryId, '❌ 翻页失败，请稍后重试', true);
+    }
+  }
+
   /**
    * Handle mark read/unread toggle
    */
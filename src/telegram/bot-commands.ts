@@ -1,17 +1,27 @@
 /**
  * Telegram Bot — Command Handler
  *
- * Handles /getarticles command processing (by date, source, or keyword search).
+ * Handles bot commands (/getarticles, /search, /summary, /insights, /sources,
+ * /subscribe, /fetch, /pause, /resume, /help) and paginated result pages.
  * Extracted from bot.ts for single-responsibility separation.
  */
 
 import { logger } from '../logger.js';
 import { TelegramClient } from './client.js';
 import { getUserArticles } from '../api/articles.js';
-import { parseGetArticlesCommand, type GetArticlesDateCommand, type GetArticlesSourceCommand } from './command-parser.js';
-import { createArticleKeyboard, formatNewArticle } from './formatters.js';
+import { parseDateArg, parseGetArticlesCommand, type GetArticlesDateCommand, type GetArticlesSourceCommand } from './command-parser.js';
+import { createArticleKeyboard, createPageKeyboard, formatDailySummary, formatNewArticle } from './formatters.js';
 import type { MergedSourceOption } from '../api/articles.js';
 import { serializeError } from './utils.js';
+import { PageContextStore, type PageContext } from './page-store.js';
+import { fetchMergedSource } from './source-fetch.js';
+import { search, SearchMode } from '../vector/search-service.js';
+import { getDailySummaryByDate, getDailySummaryHistory, type SummaryType } from '../api/daily-summary-repository.js';
+import { getUserLocalDate } from '../api/timezone.js';
+import { getSourceHealth, type SourceHealth } from '../api/source-health.js';
+import { createKeyword, getActiveKeywords } from '../api/keywords.js';
+import { setTelegramChatPaused, type TelegramChatConfig } from '../api/telegram-chats.js';
+import type { DailySummariesSelection } from '../db.js';
 
 const log = logger.child({ module: 'telegram-bot-commands' });
 
@@ -25,24 +35,497 @@ export interface CommandHandlerDeps {
   matchSourceName(name: string, sources: MergedSourceOption[]): MergedSourceOption | null;
   escapeHtml(text: string): string;
   getTelegramAiSummary(aiSummary: string | null | undefined): string;
+  isAdminChat(chatId: string): boolean;
+  getChatConfig(chatId: string): TelegramChatConfig | undefined;
+  invalidateSources(): void;
+}
+
+/**
+ * Bot command definition
+ */
+export interface BotCommandDefinition {
+  command: string;
+  usage: string;
+  description: string;
+  adminOnly: boolean;
+}
+
+/**
+ * Supported commands
+ *
+ * 观察者（viewer）只能使用查询类命令；修改数据或推送设置的命令仅管理员可用。
+ */
+export const BOT_COMMANDS: BotCommandDefinition[] = [
+  { command: 'getarticles', usage: '/getarticles 日期|来源 [@all]', description: '按日期或来源获取文章', adminOnly: false },
+  { command: 'search', usage: '/search 关键词', description: '混合检索文章（语义 + 关键词）', adminOnly: false },
+  { command: 'summary', usage: '/summary [日期]', description: '查看每日总结（默认今天）', adminOnly: false },
+  { command: 'insights', usage: '/insights', description: '查看最近一期洞察报告', adminOnly: false },
+  { command: 'sources', usage: '/sources', description: '查看来源及抓取健康状态', adminOnly: false },
+  { command: 'subscribe', usage: '/subscribe 关键词', description: '新增关键词订阅', adminOnly: true },
+  { command: 'fetch', usage: '/fetch 来源名称', description: '立即抓取指定来源', adminOnly: true },
+  { command: 'pause', usage: '/pause', description: '暂停向本会话推送', adminOnly: true },
+  { command: 'resume', usage: '/resume', description: '恢复向本会话推送', adminOnly: true },
+  { command: 'help', usage: '/help', description: '显示可用命令', adminOnly: false },
+];
+
+/**
+ * Find a command definition by message command (e.g. "/search")
+ */
+export function findBotCommand(command: string): BotCommandDefinition | undefined {
+  const name = command.startsWith('/') ? command.slice(1).toLowerCase() : command.toLowerCase();
+  return BOT_COMMANDS.find(c => c.command === name);
+}
+
+const SEARCH_PAGE_SIZE = 5;
+const SOURCES_PAGE_SIZE = 10;
+
+/**
+ * /summary 展示的总结类型（search / journal_all / insights 另有入口）
+ */
+const SUMMARY_COMMAND_TYPES: SummaryType[] = ['journal', 'blog_news', 'all'];
+
+const SOURCE_TYPE_LABELS: Record<SourceHealth['type'], string> = {
+  rss: 'RSS',
+  journal: '期刊',
+  keyword: '关键词',
+  email: '邮件',
+  web: '网页',
+};
+
+const SOURCE_HEALTH_ICONS: Record<SourceHealth['health'], string> = {
+  healthy: '✅',
+  degraded: '⚠️',
+  failing: '❌',
+  never: '❔',
+  inactive: '⏸',
+};
+
+interface RenderedPage {
+  text: string;
+  page: number;
+  totalPages: number;
 }
 
 /**
  * Command Handler
  *
- * Parses and handles /getarticles commands from Telegram messages.
- * Supports three sub-commands:
+ * Dispatches bot commands (see BOT_COMMANDS) and renders paginated results.
+ * /getarticles supports three sub-commands:
  * - /getarticles YYYY-MM-DD — articles by date
  * - /getarticles SourceName — articles by source (falls back to keyword search)
  * - Optional @all flag to include read articles
  */
 export class CommandHandler {
   private deps: CommandHandlerDeps;
+  private pageContexts = new PageContextStore();
+  // 正在抓取的来源（按合并来源 ID），避免重复触发
+  private runningFetches: Set<string> = new Set();
 
   constructor(deps: CommandHandlerDeps) {
     this.deps = deps;
   }
 
+  /**
+   * Handle a known command (role already checked by the bot)
+   * @param command - Command definition
+   * @param args - Command arguments
+   * @param chatId - Target chat ID
+   */
+  async handleCommand(command: BotCommandDefinition, args: string, chatId: string): Promise<void> {
+    switch (command.command) {
+      case 'getarticles':
+        await this.handleGetArticlesCommand(args, chatId);
+        return;
+      case 'search':
+        await this.handleSearchCommand(args, chatId);
+        return;
+      case 'summary':
+        await this.handleSummaryCommand(args, chatId);
+        return;
+      case 'insights':
+        await this.handleInsightsCommand(chatId);
+        return;
+      case 'sources':
+        await this.handleSourcesCommand(chatId);
+        return;
+      case 'subscribe':
+        await this.handleSubscribeCommand(args, chatId);
+        return;
+      case 'fetch':
+        await this.handleFetchCommand(args, chatId);
+        return;
+      case 'pause':
+        await this.handlePauseCommand(chatId, true);
+        return;
+      case 'resume':
+        await this.handlePauseCommand(chatId, false);
+        return;
+      case 'help':
+        await this.handleHelpCommand(chatId);
+        return;
+    }
+  }
+
+  /**
+   * Handle /help — list commands available to this chat's role
+   */
+  private async handleHelpCommand(chatId: string): Promise<void> {
+    const isAdmin = this.deps.isAdminChat(chatId);
+    const commands = BOT_COMMANDS.filter(c => isAdmin || !c.adminOnly);
+
+    let message = '🤖 <b>可用命令</b>\n\n';
+    message += commands
+      .map(c => `${this.deps.escapeHtml(c.usage)}\n  ${c.description}`)
+      .join('\n');
+
+    if (!isAdmin) {
+      message += '\n\nℹ️ 您是观察者，订阅、抓取与推送设置命令仅管理员可用';
+    }
+
+    await this.deps.client.sendMessage(chatId, message, 'HTML');
+  }
+
+  /**
+   * Handle /search — hybrid search with pagination
+   */
+  private async handleSearchCommand(args: string, chatId: string): Promise<void> {
+    const query = args.trim();
+    if (!query) {
+      await this.deps.client.sendMessage(chatId, '❌ 请输入检索内容，例如：/search 数字人文');
+      return;
+    }
+
+    try {
+      await this.sendFirstPage({ kind: 'search', chatId, query }, chatId);
+    } catch (error) {
+      log.error({ error, query }, 'Error in search command');
+      await this.deps.client.sendMessage(chatId, '❌ 检索失败，请稍后重试');
+    }
+  }
+
+  /**
+   * Handle /sources — source list with fetch health, with pagination
+   */
+  private async handleSourcesCommand(chatId: string): Promise<void> {
+    try {
+      await this.sendFirstPage({ kind: 'sources', chatId }, chatId);
+    } catch (error) {
+      log.error({ error }, 'Error in sources command');
+      await this.deps.client.sendMessage(chatId, '❌ 查询失败，请稍后重试');
+    }
+  }
+
+  /**
+   * Show a page of a paginated result (pagination button callback)
+   * @returns false if the page context has expired or belongs to another chat
+   */
+  async showPage(contextId: number, page: number, chatId: string, messageId: number): Promise<boolean> {
+    const context = this.pageContexts.get(contextId);
+    if (!context || context.chatId !== chatId) {
+      return false;
+    }
+
+    const rendered = await this.renderPage(context, page);
+    await this.deps.client.editMessageText(
+      chatId,
+      messageId,
+      rendered.text,
+      createPageKeyboard(contextId, rendered.page, rendered.totalPages),
+      'HTML'
+    );
+    return true;
+  }
+
+  /**
+   * Render page 1 and send it with pagination buttons
+   */
+  private async sendFirstPage(context: PageContext, chatId: string): Promise<void> {
+    const rendered = await this.renderPage(context, 1);
+    const keyboard = rendered.totalPages > 1
+      ? createPageKeyboard(this.pageContexts.save(context), rendered.page, rendered.totalPages)
+      : undefined;
+
+    if (keyboard) {
+      await this.deps.client.sendMessageWithKeyboard(chatId, rendered.text, keyboard, 'HTML');
+    } else {
+      await this.deps.client.sendMessage(chatId, rendered.text, 'HTML');
+    }
+  }
+
+  private async renderPage(context: PageContext, page: number): Promise<RenderedPage> {
+    return context.kind === 'search'
+      ? this.renderSearchPage(context.query, page)
+      : this.renderSourcesPage(page);
+  }
+
+  private async renderSearchPage(query: string, page: number): Promise<RenderedPage> {
+    const { escapeHtml } = this.deps;
+
+    const response = await search({
+      mode: SearchMode.HYBRID,
+      userId: this.deps.userId,
+      query,
+      limit: SEARCH_PAGE_SIZE,
+      offset: (page - 1) * SEARCH_PAGE_SIZE,
+    });
+
+    const totalPages = Math.max(1, Math.ceil(response.total / SEARCH_PAGE_SIZE));
+    if (response.results.length === 0) {
+      return { text: `📭 没有找到与 "${escapeHtml(query)}" 相关的文章`, page, totalPages };
+    }
+
+    let text = `🔍 "${escapeHtml(query)}" 共找到 ${response.total} 篇（第 ${page}/${totalPages} 页）\n`;
+    if (response.fallback) {
+      text += 'ℹ️ 语义检索不可用，已回退为关键词检索\n';
+    }
+    text += '\n';
+
+    const startIndex = (page - 1) * SEARCH_PAGE_SIZE;
+    text += response.results.map((result, index) => {
+      const meta = result.metadata;
+      const title = escapeHtml(meta?.title || `文章 #${result.articleId}`);
+      const source = meta?.journal_name || meta?.rss_source_name || meta?.keyword_name;
+      const details = [
+        source ? escapeHtml(source) : null,
+        meta?.published_at ? meta.published_at.slice(0, 10) : null,
+        `相关度 ${result.score.toFixed(2)}`,
+      ].filter(Boolean).join(' · ');
+
+      const link = meta?.url ? `<a href="${escapeHtml(meta.url)}">${title}</a>` : title;
+      return `${startIndex + index + 1}. ${link}\n   ${details}`;
+    }).join('\n\n');
+
+    return { text, page, totalPages };
+  }
+
+  private async renderSourcesPage(page: number): Promise<RenderedPage> {
+    const { escapeHtml } = this.deps;
+    const sources = await getSourceHealth(this.deps.userId);
+
+    if (sources.length === 0) {
+      return { text: '📭 尚未配置任何来源', page: 1, totalPages: 1 };
+    }
+
+    const totalPages = Math.ceil(sources.length / SOURCES_PAGE_SIZE);
+    const currentPage = Math.min(Math.max(page, 1), totalPages);
+    const failingCount = sources.filter(s => s.health === 'failing').length;
+
+    let text = `📡 <b>来源状态</b>（共 ${sources.length} 个，异常 ${failingCount} 个，第 ${currentPage}/${totalPages} 页）\n\n`;
+
+    text += sources
+      .slice((currentPage - 1) * SOURCES_PAGE_SIZE, currentPage * SOURCES_PAGE_SIZE)
+      .map((source) => {
+        const lastFetched = source.lastFetchedAt ? source.lastFetchedAt.slice(0, 16).replace('T', ' ') : '从未抓取';
+        let line = `${SOURCE_HEALTH_ICONS[source.health]} <b>${escapeHtml(source.name)}</b>\n`;
+        line += `   ${SOURCE_TYPE_LABELS[source.type]} · ${lastFetched}`;
+        if (source.lastError) {
+          const error = source.lastError.length > 80 ? source.lastError.substring(0, 80) + '...' : source.lastError;
+          line += `\n   ${escapeHtml(error)}`;
+        }
+        return line;
+      })
+      .join('\n');
+
+    return { text, page: currentPage, totalPages };
+  }
+
+  /**
+   * Handle /summary [date] — journal, blog/news and combined summaries of a day
+   */
+  private async handleSummaryCommand(args: string, chatId: string): Promise<void> {
+    const { client, userId } = this.deps;
+
+    let date: string;
+    if (args.trim()) {
+      const parsed = parseDateArg(args);
+      if (!parsed) {
+        await client.sendMessage(chatId, '❌ 日期格式错误，例如：/summary 2026-3-1 或 /summary 20260301');
+        return;
+      }
+      date = parsed;
+    } else {
+      date = await getUserLocalDate(userId);
+    }
+
+    try {
+      const summaries = await Promise.all(
+        SUMMARY_COMMAND_TYPES.map(type => getDailySummaryByDate(userId, date, type))
+      );
+      const found = summaries.filter((s): s is DailySummariesSelection => !!s);
+
+      if (found.length === 0) {
+        await client.sendMessage(chatId, `📭 ${date} 暂无每日总结`);
+        return;
+      }
+
+      for (const summary of found) {
+        await client.sendMessage(chatId, this.formatStoredSummary(summary), 'HTML');
+      }
+    } catch (error) {
+      log.error({ error, date }, 'Error in summary command');
+      await client.sendMessage(chatId, '❌ 查询失败，请稍后重试');
+    }
+  }
+
+  /**
+   * Handle /insights — latest insights report
+   */
+  private async handleInsightsCommand(chatId: string): Promise<void> {
+    const { client, userId } = this.deps;
+
+    try {
+      const [latest] = await getDailySummaryHistory(userId, 1, 'insights');
+      const summary = latest
+        ? await getDailySummaryByDate(userId, latest.summary_date, 'insights')
+        : undefined;
+
+      if (!summary) {
+        await client.sendMessage(chatId, '📭 暂无洞察报告');
+        return;
+      }
+
+      await client.sendMessage(chatId, this.formatStoredSummary(summary), 'HTML');
+    } catch (error) {
+      log.error({ error }, 'Error in insights command');
+      await client.sendMessage(chatId, '❌ 查询失败，请稍后重试');
+    }
+  }
+
+  /**
+   * Format a stored daily summary row with the push formatter
+   */
+  private formatStoredSummary(summary: DailySummariesSelection): string {
+    const articlesData = JSON.parse(summary.articles_data || '{}');
+    return formatDailySummary({
+      date: summary.summary_date,
+      type: summary.summary_type,
+      totalArticles: summary.article_count,
+      summary: summary.summary_content,
+      articlesByType: {
+        journal: articlesData.journal?.length ?? 0,
+        blog: articlesData.blog?.length ?? 0,
+        news: articlesData.news?.length ?? 0,
+        email: articlesData.email?.length ?? 0,
+      },
+    });
+  }
+
+  /**
+   * Handle /subscribe <keyword> — create a keyword subscription (admin only)
+   */
+  private async handleSubscribeCommand(args: string, chatId: string): Promise<void> {
+    const { client, userId, escapeHtml } = this.deps;
+    const keyword = args.trim();
+
+    if (!keyword) {
+      await client.sendMessage(chatId, '❌ 请输入关键词，例如：/subscribe 数字人文');
+      return;
+    }
+
+    try {
+      const existing = await getActiveKeywords(userId);
+      if (existing.some(k => k.keyword.toLowerCase() === keyword.toLowerCase())) {
+        await client.sendMessage(chatId, `ℹ️ 关键词 "${escapeHtml(keyword)}" 已在订阅中`, 'HTML');
+        return;
+      }
+
+      const created = await createKeyword({ userId, keyword });
+      this.deps.invalidateSources();
+
+      log.info({ userId, chatId, keywordId: created.id, keyword }, 'Keyword subscribed via Telegram');
+      await client.sendMessage(chatId,
+        `✅ 已订阅关键词 "${escapeHtml(created.keyword)}"，将在下次关键词爬取时抓取\n` +
+        `可发送 /fetch ${escapeHtml(created.keyword)} 立即抓取`, 'HTML');
+    } catch (error) {
+      log.error({ error, keyword }, 'Error in subscribe command');
+      await client.sendMessage(chatId, '❌ 订阅失败，请稍后重试');
+    }
+  }
+
+  /**
+   * Handle /fetch <source> — trigger fetching in the background (admin only)
+   *
+   * 期刊、关键词爬取可能持续数分钟，不阻塞后续命令，完成后回复结果。
+   */
+  private async handleFetchCommand(args: string, chatId: string): Promise<void> {
+    const { client, userId, escapeHtml } = this.deps;
+    const name = args.trim();
+
+    if (!name) {
+      await client.sendMessage(chatId, '❌ 请输入来源名称，例如：/fetch MIT Technology Review');
+      return;
+    }
+
+    const sources = await this.deps.getSources();
+    const source = this.deps.matchSourceName(name, sources);
+    if (!source) {
+      await client.sendMessage(chatId, `❌ 未找到来源 "${escapeHtml(name)}"，可发送 /sources 查看来源列表`, 'HTML');
+      return;
+    }
+
+    if (this.runningFetches.has(source.id)) {
+      await client.sendMessage(chatId, `⏳ "${escapeHtml(source.name)}" 正在抓取中，请稍候`, 'HTML');
+      return;
+    }
+
+    this.runningFetches.add(source.id);
+    await client.sendMessage(chatId, `⏳ 开始抓取 "${escapeHtml(source.name)}"，完成后通知`, 'HTML');
+
+    fetchMergedSource(source, userId)
+      .then(async (result) => {
+        log.info({ userId, chatId, source: source.name, ...result }, 'Source fetched via Telegram');
+
+        let message = result.failed === 0
+          ? `✅ "${escapeHtml(source.name)}" 抓取完成，新增 ${result.newArticlesCount} 篇`
+          : `⚠️ "${escapeHtml(source.name)}" 抓取完成，${result.failed}/${result.total} 个源失败，新增 ${result.newArticlesCount} 篇`;
+        if (result.errors.length > 0) {
+          message += `\n${escapeHtml(result.errors[0])}`;
+        }
+        await client.sendMessage(chatId, message, 'HTML');
+      })
+      .catch(async (error) => {
+        log.error({ error: serializeError(error), source: source.name }, 'Error in fetch command');
+        await client.sendMessage(chatId, `❌ "${escapeHtml(source.name)}" 抓取失败，请查看日志`, 'HTML').catch(() => {});
+      })
+      .finally(() => {
+        this.runningFetches.delete(source.id);
+      });
+  }
+
+  /**
+   * Handle /pause and /resume — toggle pushes to this chat (admin only)
+   *
+   * 只影响主动推送，各类推送开关保持不变。
+   */
+  private async handlePauseCommand(chatId: string, paused: boolean): Promise<void> {
+    const { client, userId } = this.deps;
+    const chatConfig = this.deps.getChatConfig(chatId);
+
+    if (chatConfig?.isPaused === paused) {
+      await client.sendMessage(chatId, paused ? 'ℹ️ 推送已处于暂停状态，发送 /resume 恢复' : 'ℹ️ 推送未暂停');
+      return;
+    }
+
+    try {
+      const updated = await setTelegramChatPaused(userId, chatId, paused);
+      if (!updated) {
+        await client.sendMessage(chatId, '❌ 未找到本会话的配置');
+        return;
+      }
+
+      if (chatConfig) {
+        chatConfig.isPaused = paused;
+      }
+
+      await client.sendMessage(chatId, paused
+        ? '⏸ 已暂停向本会话推送，命令查询不受影响。发送 /resume 恢复'
+        : '▶️ 已恢复向本会话推送');
+    } catch (error) {
+      log.error({ error, chatId, paused }, 'Error in pause/resume command');
+      await client.sendMessage(chatId, '❌ 操作失败，请稍后重试');
+    }
+  }
+
   /**
    * Handle incoming /getarticles command
    * @param text - Full command text (e.g., "/getarticles 2026-3-1")
@@ -4,11 +4,14 @@
  * Manages multiple Telegram Bot instances for different users.
  * Provides centralized initialization and lifecycle management.
  * Supports multiple chat IDs per user with different permission levels.
+ * Each bot receives updates by long polling or webhook (telegram_update_mode setting).
  */
 
+import crypto from 'crypto';
 import { logger } from '../logger.js';
-import { TelegramBot } from './bot.js';
-import { getUserSetting } from '../api/settings.js';
+import { config as appConfig } from '../config.js';
+import { TelegramBot, type TelegramBotOptions } from './bot.js';
+import { getTelegramSettings, updateTelegramSettings } from '../api/settings.js';
 import { getActiveTelegramChats, type TelegramChatConfig } from '../api/telegram-chats.js';
 
 const log = logger.child({ module: 'telegram-bot-manager' });
@@ -17,6 +20,16 @@ interface UserTelegramConfig {
   userId: number;
   botToken: string;
   chats: TelegramChatConfig[];
+  options: TelegramBotOptions;
+}
+
+/**
+ * Build the webhook URL registered with Telegram for a user
+ * @param baseUrl - Public base URL (telegram_webhook_url setting, falls back to BASE_URL)
+ */
+export function buildTelegramWebhookUrl(userId: number, baseUrl?: string): string {
+  const base = (baseUrl || appConfig.baseUrl).replace(/\/+$/, '');
+  return `${base}/api/telegram/webhook/${userId}`;
 }
 
 class TelegramBotManager {
@@ -46,7 +59,7 @@ class TelegramBotManager {
     let startedCount = 0;
     for (const config of configs) {
       try {
-        const bot = new TelegramBot(config.botToken, config.userId, config.chats);
+        const bot = new TelegramBot(config.botToken, config.userId, config.chats, config.options);
         await bot.start();
         this.bots.set(config.userId, bot);
         startedCount++;
@@ -80,6 +93,20 @@ class TelegramBotManager {
     log.info('Telegram bot manager stopped');
   }
 
+  /**
+   * Restart all bots with the current settings (e.g. after switching update mode)
+   *
+   * 重启前删除已注册的 webhook，新配置为 webhook 模式时 start() 会重新注册。
+   */
+  async reload(): Promise<void> {
+    const stopPromises = Array.from(this.bots.values()).map((bot) => bot.stop({ unregisterWebhook: true }));
+    await Promise.all(stopPromises);
+    this.bots.clear();
+    this.isRunning = false;
+
+    await this.start();
+  }
+
   /**
    * Get bot for a specific user
    */
@@ -98,14 +125,14 @@ class TelegramBotManager {
     const userId = 1;
 
     // Check if Telegram is enabled for this user
-    const enabled = await getUserSetting(userId, 'telegram_enabled');
+    const settings = await getTelegramSettings(userId);
 
-    if (enabled !== 'true') {
+    if (!settings.enabled) {
       return [];
     }
 
     // Get bot token
-    const botToken = await getUserSetting(userId, 'telegram_bot_token');
+    const botToken = settings.botToken;
 
     if (!botToken) {
       return [];
@@ -119,11 +146,28 @@ class TelegramBotManager {
       return [];
     }
 
+    let options: TelegramBotOptions = { updateMode: 'polling' };
+    if (settings.updateMode === 'webhook') {
+      // 首次启用 webhook 时生成 secret_token，之后保持不变
+      let webhookSecret = settings.webhookSecret;
+      if (!webhookSecret) {
+        webhookSecret = crypto.randomBytes(32).toString('hex');
+        await updateTelegramSettings(userId, { webhookSecret });
+      }
+
+      options = {
+        updateMode: 'webhook',
+        webhookUrl: buildTelegramWebhookUrl(userId, settings.webhookUrl),
+        webhookSecret,
+      };
+    }
+
     return [
       {
         userId,
         botToken,
         chats,
+        options,
       },
     ];
   }
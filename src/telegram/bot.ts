@@ -3,9 +3,11 @@
  *
  * Facade class that manages polling lifecycle and delegates to:
  * - CallbackHandler (bot-callbacks.ts) for inline keyboard interactions
- * - CommandHandler (bot-commands.ts) for /getarticles command processing
+ * - CommandHandler (bot-commands.ts) for command processing and paginated results
  *
- * Handles polling, state persistence, source matching, and authorization.
+ * Receives updates by long polling (default) or webhook (routes/telegram-webhook.routes.ts);
+ * both paths go through processUpdates(). Also handles state persistence,
+ * source matching, and authorization.
  */
 
 import { logger } from '../logger.js';
@@ -13,12 +15,14 @@ import { TelegramClient } from './client.js';
 import { getMergedSources, type MergedSourceOption } from '../api/articles.js';
 
 import { CallbackHandler } from './bot-callbacks.js';
-import { CommandHandler } from './bot-commands.js';
+import { CommandHandler, findBotCommand } from './bot-commands.js';
 import type { CallbackQuery, TelegramUpdate, Message } from './types.js';
-import { readFile, writeFile, mkdir } from 'fs/promises';
+import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
+import crypto from 'crypto';
 import type { TelegramChatConfig } from '../api/telegram-chats.js';
+import { getUserSetting, setUserSetting, type TelegramUpdateMode } from '../api/settings.js';
 
 const log = logger.child({ module: 'telegram-bot' });
 
@@ -26,15 +30,21 @@ const log = logger.child({ module: 'telegram-bot' });
 const POLL_TIMEOUT = 30; // seconds
 const POLL_LIMIT = 100;
 const POLL_ERROR_DELAY = 5000; // ms
+const RECENT_WEBHOOK_UPDATES = 200;
 
-// State persistence
-const STATE_DIR = process.env.TELEGRAM_STATE_DIR || '/tmp/lis-rss-daily/telegram';
+// State persistence: update offset is stored in the settings table.
+// Legacy JSON state files (TELEGRAM_STATE_DIR) are only read once for migration.
+const LATEST_UPDATE_ID_KEY = 'telegram_latest_update_id';
+const LEGACY_STATE_DIR = process.env.TELEGRAM_STATE_DIR || '/tmp/lis-rss-daily/telegram';
 
-// Ensure state directory exists
-async function ensureStateDir() {
-  if (!existsSync(STATE_DIR)) {
-    await mkdir(STATE_DIR, { recursive: true });
-  }
+/**
+ * Update receiving options
+ */
+export interface TelegramBotOptions {
+  updateMode: TelegramUpdateMode;
+  // Webhook mode only
+  webhookUrl?: string;
+  webhookSecret?: string;
 }
 
 
@@ -43,6 +53,7 @@ export class TelegramBot {
   private botToken: string;
   private userId: number;
   private chats: TelegramChatConfig[];
+  private options: TelegramBotOptions;
   private isRunning: boolean = false;
   private latestUpdateId: number = 0;
   private pollTimeout: NodeJS.Timeout | null = null;
@@ -53,25 +64,28 @@ export class TelegramBot {
 
   // Concurrency control
   private pendingCallbacks: Set<string> = new Set();
+  private recentWebhookUpdateIds: number[] = [];
   // Dynamic polling
   private lastActivityTime: number = Date.now();
   private idlePollInterval: number = 10000;
   private activePollInterval: number = 1000;
 
-  // State persistence
-  private stateFilePath: string;
-
   // Source cache
   private sourcesCache: MergedSourceOption[] | null = null;
   private sourcesCacheTime: number = 0;
   private readonly SOURCES_CACHE_TTL = 5 * 60 * 1000;
 
-  constructor(botToken: string, userId: number, chats: TelegramChatConfig[]) {
+  constructor(
+    botToken: string,
+    userId: number,
+    chats: TelegramChatConfig[],
+    options: TelegramBotOptions = { updateMode: 'polling' }
+  ) {
     this.botToken = botToken;
     this.userId = userId;
     this.chats = chats;
+    this.options = options;
     this.client = new TelegramClient(botToken);
-    this.stateFilePath = join(STATE_DIR, `bot-state-user-${userId}.json`);
 
     // Initialize handlers with dependency injection
     this.callbackHandler = new CallbackHandler({
@@ -81,6 +95,8 @@ export class TelegramBot {
       isAuthorizedChat: (chatId) => this.isAuthorizedChat(chatId),
       isAdminChat: (chatId) => this.isAdminChat(chatId),
       getChatConfig: (chatId) => this.getChatConfig(chatId),
+      showPage: (contextId, page, chatId, messageId) =>
+        this.commandHandler.showPage(contextId, page, chatId, messageId),
     });
 
     this.commandHandler = new CommandHandler({
@@ -90,30 +106,38 @@ export class TelegramBot {
       matchSourceName: (name, sources) => this.matchSourceName(name, sources),
       escapeHtml: (text) => this.escapeHtml(text),
       getTelegramAiSummary: (aiSummary) => this.getTelegramAiSummary(aiSummary),
+      isAdminChat: (chatId) => this.isAdminChat(chatId),
+      getChatConfig: (chatId) => this.getChatConfig(chatId),
+      invalidateSources: () => {
+        this.sourcesCache = null;
+      },
     });
   }
 
   /**
-   * Get the state file path for this bot instance
-   */
-  private getStateFilePath(): string {
-    return this.stateFilePath;
-  }
-
-  /**
-   * Load persisted state from disk
+   * Load persisted update offset from the database
+   *
+   * 数据库中没有记录时，读取一次旧版 /tmp 状态文件作为迁移。
    */
   private async loadState(): Promise<void> {
     try {
-      await ensureStateDir();
-      const statePath = this.getStateFilePath();
+      const stored = await getUserSetting(this.userId, LATEST_UPDATE_ID_KEY);
+      if (stored !== null) {
+        const latestUpdateId = parseInt(stored, 10);
+        if (!isNaN(latestUpdateId)) {
+          this.latestUpdateId = latestUpdateId;
+          log.info({ userId: this.userId, latestUpdateId }, 'Loaded bot state from database');
+        }
+        return;
+      }
 
-      if (existsSync(statePath)) {
-        const data = await readFile(statePath, 'utf-8');
-        const state = JSON.parse(data);
+      const legacyPath = join(LEGACY_STATE_DIR, `bot-state-user-${this.userId}.json`);
+      if (existsSync(legacyPath)) {
+        const state = JSON.parse(await readFile(legacyPath, 'utf-8'));
         if (typeof state.latestUpdateId === 'number') {
           this.latestUpdateId = state.latestUpdateId;
-          log.info({ userId: this.userId, latestUpdateId: this.latestUpdateId }, 'Loaded bot state from disk');
+          await this.saveState();
+          log.info({ userId: this.userId, latestUpdateId: this.latestUpdateId }, 'Migrated bot state from legacy state file');
         }
       }
     } catch (error) {
@@ -122,19 +146,11 @@ export class TelegramBot {
   }
 
   /**
-   * Persist current state to disk
+   * Persist current update offset to the database
    */
   private async saveState(): Promise<void> {
     try {
-      await ensureStateDir();
-      const statePath = this.getStateFilePath();
-      const state = {
-        latestUpdateId: this.latestUpdateId,
-        userId: this.userId,
-        chatCount: this.chats.length,
-        savedAt: new Date().toISOString(),
-      };
-      await writeFile(statePath, JSON.stringify(state, null, 2));
+      await setUserSetting(this.userId, LATEST_UPDATE_ID_KEY, this.latestUpdateId);
     } catch (error) {
       log.error({ userId: this.userId, error }, 'Failed to save bot state');
     }
@@ -222,7 +238,7 @@ export class TelegramBot {
   }
 
   /**
-   * Start polling for updates
+   * Start receiving updates (register webhook, or start polling)
    */
   async start(): Promise<void> {
     if (this.isRunning) {
@@ -232,6 +248,32 @@ export class TelegramBot {
 
     await this.loadState();
 
+    if (this.isWebhookMode()) {
+      const { webhookUrl, webhookSecret } = this.options;
+      if (!webhookUrl || !webhookSecret) {
+        throw new Error('Webhook URL and secret are required in webhook mode');
+      }
+
+      const result = await this.client.setWebhook(webhookUrl, webhookSecret);
+      if (!result.ok) {
+        throw new Error(result.description || 'Failed to set Telegram webhook');
+      }
+
+      this.isRunning = true;
+      log.info({
+        userId: this.userId,
+        chatCount: this.chats.length,
+        webhookUrl,
+        latestUpdateId: this.latestUpdateId
+      }, 'Telegram bot webhook registered');
+      return;
+    }
+
+    // getUpdates 在设置了 webhook 时返回 409，切回轮询前先删除
+    await this.client.deleteWebhook().catch((error) => {
+      log.warn({ userId: this.userId, error }, 'Failed to delete Telegram webhook before polling');
+    });
+
     this.isRunning = true;
     log.info({
       userId: this.userId,
@@ -244,15 +286,28 @@ export class TelegramBot {
   }
 
   /**
-   * Stop polling
+   * Stop receiving updates
+   *
+   * 默认保留已注册的 webhook（进程重启期间的更新由 Telegram 暂存并重投）；
+   * 切换接收方式或停用 Bot 时传入 unregisterWebhook。
    */
-  async stop(): Promise<void> {
+  async stop(options: { unregisterWebhook?: boolean } = {}): Promise<void> {
     if (!this.isRunning) {
       return;
     }
 
     this.isRunning = false;
 
+    if (this.isWebhookMode()) {
+      if (options.unregisterWebhook) {
+        await this.client.deleteWebhook().catch((error) => {
+          log.warn({ userId: this.userId, error }, 'Failed to delete Telegram webhook');
+        });
+      }
+      log.info({ userId: this.userId, chatCount: this.chats.length }, 'Telegram bot stopped');
+      return;
+    }
+
     if (this.pollTimeout) {
       clearTimeout(this.pollTimeout);
       this.pollTimeout = null;
@@ -263,6 +318,51 @@ export class TelegramBot {
     log.info({ userId: this.userId, chatCount: this.chats.length }, 'Telegram bot stopped');
   }
 
+  /**
+   * Whether updates are received via webhook
+   */
+  isWebhookMode(): boolean {
+    return this.options.updateMode === 'webhook';
+  }
+
+  /**
+   * Check the X-Telegram-Bot-Api-Secret-Token header of a webhook request
+   */
+  verifyWebhookSecret(token: string | undefined): boolean {
+    const expected = this.options.webhookSecret;
+    if (!this.isWebhookMode() || !expected || !token) {
+      return false;
+    }
+
+    const a = Buffer.from(token);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  /**
+   * Handle an update delivered by the webhook route
+   */
+  async handleWebhookUpdate(update: TelegramUpdate): Promise<void> {
+    if (!this.isRunning) {
+      log.warn({ userId: this.userId, updateId: update.update_id }, 'Webhook update received while bot is stopped');
+      return;
+    }
+
+    // 响应超时时 Telegram 会重投同一更新；update_id 在长时间无更新后可能随机重置，
+    // 因此按最近处理过的 ID 去重，而不是与 latestUpdateId 比较大小
+    if (this.recentWebhookUpdateIds.includes(update.update_id)) {
+      log.debug({ userId: this.userId, updateId: update.update_id }, 'Webhook update already processed, skipping');
+      return;
+    }
+    this.recentWebhookUpdateIds.push(update.update_id);
+    if (this.recentWebhookUpdateIds.length > RECENT_WEBHOOK_UPDATES) {
+      this.recentWebhookUpdateIds.shift();
+    }
+
+    this.lastActivityTime = Date.now();
+    await this.processUpdates([update]);
+  }
+
   /**
    * Poll for updates with dynamic interval based on activity
    */
@@ -390,7 +490,7 @@ export class TelegramBot {
   }
 
   /**
-   * Handle incoming message (commands) — route to CommandHandler
+   * Handle incoming message (commands) — check role, then route to CommandHandler
    */
   private async handleMessage(message: Message): Promise<void> {
     const { from, chat, text } = message;
@@ -410,22 +510,35 @@ export class TelegramBot {
     const parts = text.trim().split(/\s+/);
     const command = parts[0]?.split('@')[0] || '';
 
-    if (command === '/getarticles') {
-      const args = parts.slice(1).join(' ');
-      await this.commandHandler.handleGetArticlesCommand(args, chatId);
-    } else {
+    const definition = findBotCommand(command);
+    if (!definition) {
       log.debug({ command, chatId }, 'Unknown command');
+      return;
     }
+
+    if (definition.adminOnly && !this.isAdminChat(chatId)) {
+      log.info({ command, chatId, role: this.getChatConfig(chatId)?.role }, 'Viewer attempted admin command');
+      await this.client.sendMessage(chatId, `❌ 无权限操作，仅管理员可使用 /${definition.command}`);
+      return;
+    }
+
+    const args = parts.slice(1).join(' ');
+    await this.commandHandler.handleCommand(definition, args, chatId);
   }
 }
 
 /**
  * Initialize Telegram Bot for a user
  */
-export function initUserBot(botToken: string, userId: number, chats: TelegramChatConfig[]): TelegramBot | null {
+export function initUserBot(
+  botToken: string,
+  userId: number,
+  chats: TelegramChatConfig[],
+  options?: TelegramBotOptions
+): TelegramBot | null {
   if (!botToken || chats.length === 0) {
     return null;
   }
 
-  return new TelegramBot(botToken, userId, chats);
+  return new TelegramBot(botToken, userId, chats, options);
 }
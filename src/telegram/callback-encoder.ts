@@ -4,6 +4,9 @@
  * Encodes and decodes callback_data for Inline Keyboard buttons.
  * Format: "action:articleId:value"
  * Example: "mr:12345:1" = mark article 12345 as read
+ *
+ * Pagination buttons reuse the same format with a page context ID
+ * in place of the article ID: "pg:<contextId>:<page>".
  */
 
 /**
@@ -14,6 +17,7 @@ export enum CallbackAction {
   RATE = 'rt',           // Submit rating
   SHOW_RATING = 'sr',    // Show rating keyboard
   CANCEL = 'cl',         // Cancel operation
+  PAGE = 'pg',           // Show page of a paginated command result
 }
 
 /**
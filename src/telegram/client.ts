@@ -319,6 +319,37 @@ export class TelegramClient {
     return this.apiRequest('editMessageReplyMarkup', params);
   }
 
+  /**
+   * Edit message text and inline keyboard (used for paginated command results)
+   * @param chatId - Chat ID
+   * @param messageId - Message ID to edit
+   * @param text - New message text (must fit in a single message)
+   * @param keyboard - Optional inline keyboard markup
+   * @param parseMode - Optional parse mode
+   */
+  async editMessageText(
+    chatId: string,
+    messageId: number,
+    text: string,
+    keyboard?: InlineKeyboardMarkup,
+    parseMode?: 'HTML'
+  ): Promise<TelegramMessageResponse> {
+    const params: Record<string, any> = {
+      chat_id: chatId,
+      message_id: messageId,
+      text,
+    };
+
+    if (keyboard) {
+      params.reply_markup = keyboard;
+    }
+    if (parseMode) {
+      params.parse_mode = parseMode;
+    }
+
+    return this.apiRequest('editMessageText', params);
+  }
+
   /**
    * Answer callback query (removes loading state)
    * @param queryId - Callback query ID
@@ -367,6 +398,26 @@ export class TelegramClient {
     return this.apiRequest('getUpdates', params) as unknown as Promise<GetUpdatesResponse>;
   }
 
+  /**
+   * Register a webhook (getUpdates is unavailable while a webhook is set)
+   * @param url - Public HTTPS URL receiving updates
+   * @param secretToken - Sent back by Telegram in the X-Telegram-Bot-Api-Secret-Token header
+   */
+  async setWebhook(url: string, secretToken: string): Promise<TelegramMessageResponse> {
+    return this.apiRequest('setWebhook', {
+      url,
+      secret_token: secretToken,
+      allowed_updates: ['message', 'callback_query'],
+    });
+  }
+
+  /**
+   * Remove the webhook (pending updates are kept for getUpdates)
+   */
+  async deleteWebhook(): Promise<TelegramMessageResponse> {
+    return this.apiRequest('deleteWebhook', { drop_pending_updates: false });
+  }
+
   /**
    * Test connection by sending a simple message
    */
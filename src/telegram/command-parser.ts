@@ -48,6 +48,21 @@ export function parseGetArticlesCommand(args: string): GetArticlesCommand | null
   return { type: 'source', name: cleanArgs, includeAll };
 }
 
+/**
+ * Parse a date command argument (e.g., /summary 2026-3-1)
+ * Accepts the same formats as /getarticles.
+ * @returns Normalized YYYY-MM-DD string, or null if not a valid date
+ */
+export function parseDateArg(args: string): string | null {
+  const date = tryParseDate(args.trim());
+  if (!date) {
+    return null;
+  }
+
+  const { year, month, day } = date;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
 /**
  * Try to parse input as a date
  * @returns Date components or null if not a valid date
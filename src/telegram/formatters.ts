@@ -168,6 +168,57 @@ export function formatNewArticle(data: {
   return message;
 }
 
+/**
+ * Format a digest of new articles deferred by push rules (quiet hours / digest interval / hourly cap)
+ */
+export function formatNewArticlesDigest(articles: Array<{
+  id: number;
+  title: string;
+  url: string;
+  sourceName: string;
+  sourceType: string;
+}>): string {
+  let message = `🆕 新文献推荐（${articles.length} 篇）\n`;
+
+  for (const [index, article] of articles.entries()) {
+    const entry = `\n${index + 1}. <a href="${escapeHtml(article.url).replace(/"/g, '&quot;')}">${escapeHtml(article.title)}</a>\n` +
+      `   【${escapeHtml(article.sourceType)}】${escapeHtml(article.sourceName)} · ID ${article.id}\n`;
+
+    if (message.length + entry.length > MAX_MESSAGE_LENGTH - 50) {
+      message += `\n... 还有 ${articles.length - index} 篇文章`;
+      break;
+    }
+    message += entry;
+  }
+
+  return message;
+}
+
+/**
+ * Format new matches of a saved search
+ */
+export function formatSavedSearchMatches(data: {
+  searchName: string;
+  query: string;
+  articles: Array<{ id: number; title: string; url: string; sourceName: string; sourceType: string }>;
+}): string {
+  let message = `🔎 订阅搜索「${escapeHtml(data.searchName)}」：${data.articles.length} 篇新匹配\n`;
+  message += `查询: ${escapeHtml(data.query)}\n`;
+
+  for (const [index, article] of data.articles.entries()) {
+    const entry = `\n${index + 1}. <a href="${escapeHtml(article.url).replace(/"/g, '&quot;')}">${escapeHtml(article.title)}</a>\n` +
+      `   【${escapeHtml(article.sourceType)}】${escapeHtml(article.sourceName)} · ID ${article.id}\n`;
+
+    if (message.length + entry.length > MAX_MESSAGE_LENGTH - 50) {
+      message += `\n... 还有 ${data.articles.length - index} 篇文章`;
+      break;
+    }
+    message += entry;
+  }
+
+  return message;
+}
+
 /**
  * Format PDF summary notification for Telegram
  */
@@ -253,6 +304,35 @@ export function createRatingKeyboard(
   };
 }
 
+/**
+ * Create pagination keyboard for paginated command results
+ * @param contextId - Page context ID (see page-store.ts)
+ * @param page - Current page (1-based)
+ * @param totalPages - Total pages
+ * @returns Keyboard, or undefined if there is only one page
+ */
+export function createPageKeyboard(
+  contextId: number,
+  page: number,
+  totalPages: number
+): InlineKeyboardMarkup | undefined {
+  if (totalPages <= 1) {
+    return undefined;
+  }
+
+  const buttons = [];
+  if (page > 1) {
+    buttons.push({ text: '◀️ 上一页', callback_data: `pg:${contextId}:${page - 1}` });
+  }
+  if (page < totalPages) {
+    buttons.push({ text: '下一页 ▶️', callback_data: `pg:${contextId}:${page + 1}` });
+  }
+
+  return {
+    inline_keyboard: [buttons],
+  };
+}
+
 /**
  * Create empty keyboard (to remove inline keyboard)
  */
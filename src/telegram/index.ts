@@ -2,23 +2,15 @@
  * Telegram Notification Module
  *
  * Main entry point for Telegram notifications.
- * Provides singleton TelegramNotifier class for sending notifications.
+ * Provides singleton TelegramNotifier class (bot client, connection test, config display).
  * Supports multiple chat recipients with different permission levels.
  */
 
 import { logger } from '../logger.js';
 import { TelegramClient } from './client.js';
-import { formatDailySummary, formatNewArticle, formatPdfSummary, createArticleKeyboard } from './formatters.js';
-import type { TelegramConfig, DailySummaryData, PdfSummaryNotificationData, TelegramMessageResponse, InlineKeyboardMarkup } from './types.js';
+import type { TelegramConfig } from './types.js';
 import { getUserSettings } from '../api/settings.js';
-import type { ArticleWithSource } from '../api/articles.js';
 import {
-  getDailySummaryJournalChats,
-  getDailySummaryBlogNewsChats,
-  getJournalAllChats,
-  getNewArticlesChats,
-  getInsightsChats,
-  getPdfSummaryChats,
   getActiveTelegramChats,
   hasTelegramChats,
   type TelegramChatConfig
@@ -65,137 +57,17 @@ async function loadTelegramConfig(userId: number): Promise<TelegramConfig | null
 /**
  * Telegram Notifier
  *
- * Singleton class for sending Telegram notifications.
+ * Singleton class for Telegram bot access.
  */
 class TelegramNotifier {
-  private sentCache = new Map<string, number>();
-  private readonly CACHE_TTL = 60000;
-
-  private getCacheKey(userId: number, type: string, date: string): string {
-    return `${userId}:${type}:${date}`;
-  }
-
-  private checkAndSetCache(key: string): boolean {
-    const now = Date.now();
-    const lastSent = this.sentCache.get(key);
-    if (lastSent && now - lastSent < this.CACHE_TTL) {
-      return true;
-    }
-    this.sentCache.set(key, now);
-    if (this.sentCache.size > 100) {
-      const oldestKey = this.sentCache.keys().next().value;
-      if (oldestKey) {
-        this.sentCache.delete(oldestKey);
-      }
-    }
-    return false;
-  }
-
-  private async getDailySummaryChatsByType(userId: number, type: DailySummaryData['type']): Promise<TelegramChatConfig[]> {
-    if (type === 'journal') {
-      return getDailySummaryJournalChats(userId);
-    }
-    if (type === 'blog_news') {
-      return getDailySummaryBlogNewsChats(userId);
-    }
-    if (type === 'all') {
-      const [journalChats, blogNewsChats] = await Promise.all([
-        getDailySummaryJournalChats(userId),
-        getDailySummaryBlogNewsChats(userId),
-      ]);
-      const chatMap = new Map<number, TelegramChatConfig>();
-      for (const chat of [...journalChats, ...blogNewsChats]) {
-        chatMap.set(chat.id, chat);
-      }
-      return Array.from(chatMap.values());
-    }
-    return [];
-  }
-
-  /**
-   * Send daily summary notification to all configured chats
-   */
-  async sendDailySummary(userId: number, data: DailySummaryData): Promise<boolean> {
-    const cacheKey = this.getCacheKey(userId, data.type, data.date);
-    if (this.checkAndSetCache(cacheKey)) {
-      log.info({ userId, type: data.type, date: data.date }, '[DEBUG] Skipping duplicate sendDailySummary');
-      return false;
-    }
-
-    const config = await loadTelegramConfig(userId);
-    if (!config) return false;
-
-    const chats = await this.getDailySummaryChatsByType(userId, data.type);
-    if (chats.length === 0) return false;
-
-    const message = formatDailySummary(data);
-    return this.sendToChats(userId, config, chats, message, {
-      parseMode: 'HTML',
-      logLabel: 'Daily summary',
-      logContext: { date: data.date, type: data.type, articleCount: data.totalArticles },
-    });
-  }
-
   /**
-   * Send journal all summary notification to all configured chats
+   * Get a client for the user's bot (null if Telegram is not enabled / configured)
+   *
+   * 推送由 notifications/channels/telegram.ts 经投递队列（notification_deliveries）发送。
    */
-  async sendJournalAllSummary(userId: number, data: DailySummaryData): Promise<boolean> {
-    const cacheKey = this.getCacheKey(userId, 'journal_all', data.date);
-    if (this.checkAndSetCache(cacheKey)) {
-      log.info({ userId, date: data.date }, 'Skipping duplicate sendJournalAllSummary');
-      return false;
-    }
-
+  async getClient(userId: number): Promise<TelegramClient | null> {
     const config = await loadTelegramConfig(userId);
-    if (!config) return false;
-
-    const chats = await getJournalAllChats(userId);
-    if (chats.length === 0) return false;
-
-    const message = formatDailySummary({
-      date: data.date,
-      type: 'journal_all',
-      totalArticles: data.totalArticles,
-      summary: data.summary,
-      articlesByType: data.articlesByType,
-    });
-
-    return this.sendToChats(userId, config, chats, message, {
-      parseMode: 'HTML',
-      logLabel: 'Journal all summary',
-      logContext: { date: data.date, articleCount: data.totalArticles },
-    });
-  }
-
-  /**
-   * Send insights summary notification to all configured chats
-   */
-  async sendInsightsSummary(userId: number, data: DailySummaryData): Promise<boolean> {
-    const cacheKey = this.getCacheKey(userId, 'insights', data.date);
-    if (this.checkAndSetCache(cacheKey)) {
-      log.info({ userId, date: data.date }, 'Skipping duplicate sendInsightsSummary');
-      return false;
-    }
-
-    const config = await loadTelegramConfig(userId);
-    if (!config) return false;
-
-    const chats = await getInsightsChats(userId);
-    if (chats.length === 0) return false;
-
-    const message = formatDailySummary({
-      date: data.date,
-      type: 'insights',
-      totalArticles: data.totalArticles,
-      summary: data.summary,
-      articlesByType: data.articlesByType,
-    });
-
-    return this.sendToChats(userId, config, chats, message, {
-      parseMode: 'HTML',
-      logLabel: 'Insights summary',
-      logContext: { date: data.date, articleCount: data.totalArticles },
-    });
+    return config ? new TelegramClient(config.botToken) : null;
   }
 
   /**
@@ -271,124 +143,6 @@ class TelegramNotifier {
     }
   }
 
-  /**
-   * Send new article notification to all configured chats
-   */
-  async sendNewArticle(userId: number, article: ArticleWithSource): Promise<boolean> {
-    const config = await loadTelegramConfig(userId);
-    if (!config) return false;
-
-    const chats = await getNewArticlesChats(userId);
-    if (chats.length === 0) return false;
-
-    // Build summary from article
-    let summary = article.summary_zh || article.summary || undefined;
-    if (!summary && (article.markdown_content || article.content)) {
-      summary = article.markdown_content || article.content || undefined;
-      if (summary && summary.length > 500) {
-        summary = summary.substring(0, 500) + '...';
-      }
-    }
-
-    const message = formatNewArticle({
-      id: article.id,
-      title: article.title,
-      url: article.url,
-      sourceName: article.source_name || article.rss_source_name || article.journal_name || 'Unknown',
-      sourceType: article.source_origin === 'journal' ? '期刊文章' :
-                  article.source_origin === 'keyword' ? '关键词订阅' :
-                  article.source_origin === 'email' ? '邮件订阅' : 'RSS订阅',
-      summary,
-    });
-
-    const keyboard = createArticleKeyboard(article.id, article.is_read === 1, article.rating);
-
-    return this.sendToChats(userId, config, chats, message, {
-      parseMode: 'HTML',
-      keyboard,
-      logLabel: 'New article',
-      logContext: { articleId: article.id, title: article.title },
-    });
-  }
-
-  /**
-   * Send PDF summary notification to all configured chats
-   */
-  async sendPdfSummary(userId: number, data: PdfSummaryNotificationData): Promise<boolean> {
-    const config = await loadTelegramConfig(userId);
-    if (!config) return false;
-
-    const chats = await getPdfSummaryChats(userId);
-    if (chats.length === 0) return false;
-
-    const message = formatPdfSummary(data);
-    return this.sendToChats(userId, config, chats, message, {
-      logLabel: 'PDF summary',
-      logContext: { articleId: data.articleId, title: data.title },
-    });
-  }
-
-  /**
-   * Send a formatted message to multiple Telegram chats.
-   * Extracted to deduplicate the send-loop pattern across all send* methods.
-   */
-  private async sendToChats(
-    userId: number,
-    config: TelegramConfig,
-    chats: TelegramChatConfig[],
-    message: string,
-    options?: {
-      keyboard?: InlineKeyboardMarkup;
-      parseMode?: 'HTML' | 'Markdown' | 'MarkdownV2';
-      logLabel?: string;
-      logContext?: Record<string, any>;
-    }
-  ): Promise<boolean> {
-    const client = new TelegramClient(config.botToken);
-    let successCount = 0;
-    let failCount = 0;
-
-    for (const chat of chats) {
-      try {
-        let result: TelegramMessageResponse;
-        if (options?.keyboard) {
-          result = await client.sendMessageWithKeyboard(chat.chatId, message, options.keyboard, options.parseMode as 'HTML' | undefined);
-        } else {
-          result = await client.sendMessage(chat.chatId, message, options?.parseMode);
-        }
-
-        if (result.ok) {
-          successCount++;
-          log.info({
-            userId,
-            chatId: chat.chatId,
-            chatName: chat.chatName,
-            ...options?.logContext,
-            messageId: result.result?.message_id,
-          }, `${options?.logLabel || 'Message'} sent to Telegram`);
-        } else {
-          failCount++;
-          log.warn({
-            userId,
-            chatId: chat.chatId,
-            error: result.description,
-            ...options?.logContext,
-          }, `Failed to send ${options?.logLabel || 'message'} to Telegram`);
-        }
-      } catch (error) {
-        failCount++;
-        log.error({
-          userId,
-          chatId: chat.chatId,
-          error: error instanceof Error ? error.message : String(error),
-          ...options?.logContext,
-        }, `Failed to send ${options?.logLabel || 'message'} to Telegram`);
-      }
-    }
-
-    return successCount > 0;
-  }
-
   /**
    * Get Telegram configuration (for display purposes, token is masked)
    */
@@ -0,0 +1,63 @@
+/**
+ * Telegram Pagination Contexts
+ *
+ * callback_data 最长 64 字节，放不下搜索词，因此分页按钮只携带上下文 ID 与页码
+ * （"pg:<contextId>:<page>"），命令参数保存在内存中。
+ * 上下文过期或 Bot 重启后，翻页会提示重新发送命令。
+ */
+
+export type PageContext =
+  | { kind: 'search'; chatId: string; query: string }
+  | { kind: 'sources'; chatId: string };
+
+const CONTEXT_TTL = 60 * 60 * 1000; // 1 hour
+const MAX_CONTEXTS = 200;
+
+export class PageContextStore {
+  private contexts: Map<number, { context: PageContext; createdAt: number }> = new Map();
+  private nextId = 1;
+
+  /**
+   * Save a context and return its ID
+   */
+  save(context: PageContext): number {
+    this.prune();
+
+    const id = this.nextId++;
+    this.contexts.set(id, { context, createdAt: Date.now() });
+    return id;
+  }
+
+  /**
+   * Get a context by ID (null if expired or unknown)
+   */
+  get(id: number): PageContext | null {
+    const entry = this.contexts.get(id);
+    if (!entry) return null;
+
+    if (Date.now() - entry.createdAt > CONTEXT_TTL) {
+      this.contexts.delete(id);
+      return null;
+    }
+    return entry.context;
+  }
+
+  /**
+   * Drop expired contexts, then the oldest ones beyond MAX_CONTEXTS
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.contexts) {
+      if (now - entry.createdAt > CONTEXT_TTL) {
+        this.contexts.delete(id);
+      }
+    }
+
+    // Map 按插入顺序迭代，最先插入的即最旧的
+    while (this.contexts.size >= MAX_CONTEXTS) {
+      const oldestId = this.contexts.keys().next().value;
+      if (oldestId === undefined) break;
+      this.contexts.delete(oldestId);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Telegram /fetch — trigger fetching of a merged source
+ *
+ * 合并来源（见 getMergedSources）可能包含多个 RSS / 期刊 / 关键词 / 邮件 / 网页源，
+ * 依次调用各调度器的手动抓取入口，与设置页"立即抓取"按钮一致。
+ */
+
+import { initRSSScheduler } from '../rss-scheduler.js';
+import { initJournalScheduler } from '../journal-scheduler.js';
+import { initKeywordScheduler } from '../keyword-scheduler.js';
+import { initWebScheduler } from '../web-scheduler.js';
+import { initGmailScheduler } from '../gmail-scheduler.js';
+import type { MergedSourceOption } from '../api/articles.js';
+
+export interface SourceFetchSummary {
+  total: number;
+  failed: number;
+  newArticlesCount: number;
+  errors: string[];
+}
+
+interface FetchOutcome {
+  success: boolean;
+  newArticlesCount: number;
+  error?: string;
+}
+
+/**
+ * Fetch every underlying source of a merged source sequentially
+ */
+export async function fetchMergedSource(source: MergedSourceOption, userId: number): Promise<SourceFetchSummary> {
+  const tasks: Array<() => Promise<FetchOutcome>> = [];
+
+  for (const id of source.rssIds ?? []) {
+    tasks.push(() => initRSSScheduler().fetchSourceNow(id, userId));
+  }
+  for (const id of source.journalIds ?? []) {
+    tasks.push(() => initJournalScheduler().crawlNow(id));
+  }
+  for (const id of source.keywordIds ?? []) {
+    tasks.push(() => initKeywordScheduler().crawlKeywordNow(id));
+  }
+  for (const id of source.webSourceIds ?? []) {
+    tasks.push(() => initWebScheduler().fetchSourceNow(id));
+  }
+  for (const id of source.emailSourceIds ?? []) {
+    // 邮件抓取不返回新增数量，失败记录在 email_sources.last_error
+    tasks.push(async () => {
+      await initGmailScheduler().fetchOneNow(id);
+      return { success: true, newArticlesCount: 0 };
+    });
+  }
+
+  const summary: SourceFetchSummary = { total: tasks.length, failed: 0, newArticlesCount: 0, errors: [] };
+
+  for (const task of tasks) {
+    try {
+      const outcome = await task();
+      summary.newArticlesCount += outcome.newArticlesCount;
+      if (!outcome.success) {
+        summary.failed++;
+        if (outcome.error) summary.errors.push(outcome.error);
+      }
+    } catch (error) {
+      summary.failed++;
+      summary.errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return summary;
+}
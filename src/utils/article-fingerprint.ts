@@ -0,0 +1,193 @@
+/**
+ * Article fingerprint utilities for cross-source deduplication
+ *
+ * 指纹由以下部分组成（匹配优先级从高到低）：
+ * - doi：出版商 / 期刊爬虫提供的 DOI，跨来源最可靠
+ * - guid：RSS <guid> / Atom <id>，同一条目改标题或换 URL 后仍保持不变
+ * - canonical_url：去除跟踪参数、锚点后的规范化 URL
+ * - content_hash：规范化标题 + 摘要的 SHA-256
+ */
+
+import crypto from 'crypto';
+import { normalizeTitle, generateNormalizedTitle } from './title.js';
+import { normalizeDoi } from './doi.js';
+
+/**
+ * 需要剔除的跟踪参数（精确匹配，小写）
+ */
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'yclid',
+  'mc_cid',
+  'mc_eid',
+  'igshid',
+  'ref',
+  'ref_src',
+  'spm',
+  'from',
+  'isappinstalled',
+  'share_token',
+  'sharer_shareinfo',
+  'sharer_shareinfo_first',
+  // 微信公众号文章：__biz / mid / idx / sn 已唯一定位文章，其余均为分享噪声
+  'chksm',
+  'scene',
+  'srcid',
+  'sessionid',
+  'subscene',
+  'clicktime',
+  'enterid',
+  'ascene',
+  'devicetype',
+  'nettype',
+  'exportkey',
+  'pass_ticket',
+  'wx_header',
+]);
+
+/**
+ * 需要剔除的跟踪参数前缀
+ */
+const TRACKING_PARAM_PREFIXES = ['utm_', 'hmsr', 'hmpl', 'hmcu', 'hmkw', 'hmci'];
+
+/**
+ * 摘要参与内容哈希时的最大长度（避免全文差异导致哈希不稳定）
+ */
+const CONTENT_HASH_ABSTRACT_LENGTH = 500;
+
+/**
+ * Article fingerprint used by the dedup layer
+ */
+export interface ArticleFingerprint {
+  doi: string | null;
+  guid: string | null;
+  canonicalUrl: string | null;
+  contentHash: string | null;
+  titleNormalized: string | null;
+}
+
+/**
+ * Fingerprint input
+ */
+export interface FingerprintInput {
+  title: string;
+  url?: string | null;
+  guid?: string | null;
+  abstract?: string | null;
+  doi?: string | null;
+}
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  if (TRACKING_PARAMS.has(lower)) return true;
+  return TRACKING_PARAM_PREFIXES.some((prefix) => lower.startsWith(prefix));
+}
+
+/**
+ * Canonicalize article URL for deduplication
+ *
+ * Rules:
+ * - Only http(s) URLs are canonicalized (email message IDs etc. return null)
+ * - Scheme is unified to https, host lowercased, leading "www." removed
+ * - Default ports, fragments and tracking params are dropped
+ * - Remaining query params are sorted; trailing slash removed from non-root paths
+ *
+ * @param url - Original URL
+ * @returns Canonical URL or null if input is not an http(s) URL
+ */
+export function canonicalizeUrl(url: string | null | undefined): string | null {
+  if (!url || typeof url !== 'string') {
+    return null;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const port = parsed.port && parsed.port !== '80' && parsed.port !== '443' ? `:${parsed.port}` : '';
+
+  let pathname = parsed.pathname.replace(/\/{2,}/g, '/');
+  if (pathname.length > 1 && pathname.endsWith('/')) {
+    pathname = pathname.slice(0, -1);
+  }
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a, aValue], [b, bValue]) => (a === b ? aValue.localeCompare(bValue) : a.localeCompare(b)));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `https://${host}${port}${pathname}${query}`;
+}
+
+/**
+ * Normalize feed item GUID
+ *
+ * 纯数字或过短的 GUID（如站内自增 ID）在不同站点间会冲突，不参与去重。
+ *
+ * @param guid - Raw GUID / Atom id
+ * @returns Normalized GUID or null
+ */
+export function normalizeGuid(guid: string | null | undefined): string | null {
+  if (!guid || typeof guid !== 'string') {
+    return null;
+  }
+
+  const trimmed = guid.trim();
+  if (trimmed.length < 8 || /^\d+$/.test(trimmed)) {
+    return null;
+  }
+
+  // URL 形式的 GUID 复用 URL 规范化，避免 http/https 等差异
+  return canonicalizeUrl(trimmed) ?? trimmed.substring(0, 500);
+}
+
+/**
+ * Compute content hash from normalized title + abstract
+ *
+ * 没有摘要时返回 null（仅标题的情况已由 title_normalized 覆盖）。
+ *
+ * @param title - Article title
+ * @param abstract - Article abstract / description (HTML allowed)
+ * @returns SHA-256 hex digest or null
+ */
+export function computeContentHash(title: string, abstract: string | null | undefined): string | null {
+  const normalizedTitle = normalizeTitle(title);
+  if (!normalizedTitle || !abstract) {
+    return null;
+  }
+
+  const text = abstract.replace(/<[^>]+>/g, ' ');
+  const normalizedAbstract = normalizeTitle(text);
+  if (!normalizedAbstract) {
+    return null;
+  }
+
+  return crypto
+    .createHash('sha256')
+    .update(`${normalizedTitle}\n${normalizedAbstract.substring(0, CONTENT_HASH_ABSTRACT_LENGTH)}`)
+    .digest('hex');
+}
+
+/**
+ * Build full fingerprint for an incoming article
+ */
+export function buildArticleFingerprint(input: FingerprintInput): ArticleFingerprint {
+  return {
+    doi: normalizeDoi(input.doi),
+    guid: normalizeGuid(input.guid),
+    canonicalUrl: canonicalizeUrl(input.url),
+    contentHash: computeContentHash(input.title, input.abstract),
+    titleNormalized: generateNormalizedTitle(input.title),
+  };
+}
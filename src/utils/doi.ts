@@ -0,0 +1,37 @@
+/**
+ * DOI utilities
+ *
+ * 出版商 feed 中的 DOI 写法不统一：`10.1016/j.xxx`、`doi:10.1016/...`、
+ * `https://doi.org/10.1016/...`、`info:doi/10.1016/...`，统一规范化为裸 DOI。
+ */
+
+/**
+ * DOI pattern (Crossref recommended form: 10.prefix/suffix)
+ */
+const DOI_PATTERN = /10\.\d{4,9}\/[^\s"'<>?#]+/i;
+
+/**
+ * Normalize DOI to bare lowercase form
+ * @param value - Raw DOI, DOI URL or identifier with doi: prefix
+ * @returns Bare DOI (e.g. "10.1016/j.ipm.2024.103000") or null if none found
+ */
+export function normalizeDoi(value: string | null | undefined): string | null {
+  if (!value || typeof value !== 'string') {
+    return null;
+  }
+
+  let text = value.trim();
+  try {
+    text = decodeURIComponent(text);
+  } catch {
+    // 保留原文
+  }
+
+  const match = text.match(DOI_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  // 去掉句末标点（常见于正文中提取的 DOI）
+  return match[0].replace(/[.,;:)\]]+$/, '').toLowerCase();
+}
@@ -0,0 +1,107 @@
+/**
+ * Login Limiter
+ *
+ * 登录失败限流：按用户名与来源 IP 分别计数，窗口内失败次数达到上限后锁定一段时间。
+ * 单进程内存实现，重启后计数清零。
+ */
+
+/* ── Public Types ── */
+
+export interface LoginLimiterConfig {
+  /** 单个用户名的失败上限 */
+  maxFailuresPerUser: number;
+  /** 单个 IP 的失败上限（跨用户名） */
+  maxFailuresPerIp: number;
+  /** 计数窗口与锁定时长 (ms) */
+  lockoutMs: number;
+}
+
+/**
+ * Lock check result
+ */
+export interface LoginLockStatus {
+  locked: boolean;
+  /** 剩余锁定秒数 */
+  retryAfterSeconds: number;
+}
+
+interface FailureEntry {
+  count: number;
+  windowStart: number;
+  lockedUntil: number;
+}
+
+/* ── Limiter ── */
+
+export class LoginLimiter {
+  private readonly users = new Map<string, FailureEntry>();
+  private readonly ips = new Map<string, FailureEntry>();
+
+  constructor(private readonly config: LoginLimiterConfig) {}
+
+  /**
+   * Check whether username or IP is currently locked
+   */
+  check(username: string, ip: string, now = Date.now()): LoginLockStatus {
+    const lockedUntil = Math.max(
+      this.getLockedUntil(this.users, normalizeUsername(username), now),
+      this.getLockedUntil(this.ips, ip, now)
+    );
+
+    return lockedUntil > now
+      ? { locked: true, retryAfterSeconds: Math.ceil((lockedUntil - now) / 1000) }
+      : { locked: false, retryAfterSeconds: 0 };
+  }
+
+  /**
+   * Record a failed attempt
+   */
+  recordFailure(username: string, ip: string, now = Date.now()): void {
+    this.increment(this.users, normalizeUsername(username), this.config.maxFailuresPerUser, now);
+    this.increment(this.ips, ip, this.config.maxFailuresPerIp, now);
+    this.prune(now);
+  }
+
+  /**
+   * Reset the username counter after a successful login
+   * IP 计数保留，避免以一个已知账户为跳板继续猜测其他账户
+   */
+  recordSuccess(username: string): void {
+    this.users.delete(normalizeUsername(username));
+  }
+
+  private getLockedUntil(map: Map<string, FailureEntry>, key: string, now: number): number {
+    const entry = map.get(key);
+    return entry && entry.lockedUntil > now ? entry.lockedUntil : 0;
+  }
+
+  private increment(map: Map<string, FailureEntry>, key: string, max: number, now: number): void {
+    let entry = map.get(key);
+    if (!entry || now - entry.windowStart >= this.config.lockoutMs) {
+      entry = { count: 0, windowStart: now, lockedUntil: 0 };
+      map.set(key, entry);
+    }
+
+    entry.count++;
+    if (max > 0 && entry.count >= max) {
+      entry.lockedUntil = now + this.config.lockoutMs;
+    }
+  }
+
+  /**
+   * Drop expired entries so the maps do not grow unbounded
+   */
+  private prune(now: number): void {
+    for (const map of [this.users, this.ips]) {
+      for (const [key, entry] of map) {
+        if (entry.lockedUntil <= now && now - entry.windowStart >= this.config.lockoutMs) {
+          map.delete(key);
+        }
+      }
+    }
+  }
+}
+
+function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
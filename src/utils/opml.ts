@@ -0,0 +1,174 @@
+/**
+ * OPML utilities for RSS source import/export
+ *
+ * OPML 结构简单（只有 head/body/outline），这里用轻量的标签扫描解析，
+ * 不引入额外的 XML 依赖。带 xmlUrl 的 outline 视为订阅源，
+ * 不带 xmlUrl 的 outline 视为文件夹（多层嵌套时取最内层文件夹名）。
+ */
+
+/**
+ * Feed entry parsed from OPML
+ */
+export interface OpmlFeed {
+  title: string;
+  xmlUrl: string;
+  htmlUrl: string | null;
+  folder: string | null;
+}
+
+/**
+ * OPML parse result
+ */
+export interface OpmlDocument {
+  title: string | null;
+  feeds: OpmlFeed[];
+}
+
+/**
+ * Folder of feeds for OPML export
+ */
+export interface OpmlFolder {
+  // null 表示放在 body 顶层
+  name: string | null;
+  feeds: Array<{ title: string; xmlUrl: string; htmlUrl?: string | null }>;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : match;
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrPattern = /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attrPattern.exec(source)) !== null) {
+    // 属性名大小写不统一（xmlUrl / xmlurl），统一按小写存储
+    attrs[match[1].toLowerCase()] = decodeXmlEntities(match[3] ?? match[4] ?? '').trim();
+  }
+  return attrs;
+}
+
+/**
+ * Parse OPML document
+ * @param xml - Raw OPML text
+ * @returns Document title and flattened feed list
+ * @throws Error if input is not an OPML document
+ */
+export function parseOpml(xml: string): OpmlDocument {
+  if (!xml || typeof xml !== 'string' || !/<opml[\s>]/i.test(xml)) {
+    throw new Error('Invalid OPML document');
+  }
+
+  // 去掉注释和 CDATA 外壳，避免其中的尖括号干扰扫描
+  const content = xml
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) => escapeXml(text));
+
+  const titleMatch = content.match(/<head[\s>][\s\S]*?<title>([\s\S]*?)<\/title>/i);
+  const title = titleMatch ? decodeXmlEntities(titleMatch[1]).trim() || null : null;
+
+  const feeds: OpmlFeed[] = [];
+  // 每个打开的 outline 入栈：文件夹记录名称，订阅源记录 null
+  const folderStack: Array<string | null> = [];
+  const tagPattern = /<outline\b([^>]*?)(\/?)>|<\/outline\s*>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(content)) !== null) {
+    if (match[0].startsWith('</')) {
+      folderStack.pop();
+      continue;
+    }
+
+    const attrs = parseAttributes(match[1]);
+    const selfClosing = match[2] === '/';
+    const name = attrs.title || attrs.text || '';
+
+    if (attrs.xmlurl) {
+      const folder = [...folderStack].reverse().find((f): f is string => f !== null) ?? null;
+      feeds.push({
+        title: name || attrs.xmlurl,
+        xmlUrl: attrs.xmlurl,
+        htmlUrl: attrs.htmlurl || null,
+        folder,
+      });
+      if (!selfClosing) folderStack.push(null);
+    } else if (!selfClosing) {
+      folderStack.push(name || null);
+    }
+  }
+
+  return { title, feeds };
+}
+
+/**
+ * Build OPML 2.0 document
+ * @param title - Document title
+ * @param folders - Feeds grouped by folder
+ * @returns OPML XML text
+ */
+export function buildOpml(title: string, folders: OpmlFolder[]): string {
+  const renderFeed = (feed: OpmlFolder['feeds'][number], indent: string): string => {
+    const attrs = [
+      `type="rss"`,
+      `text="${escapeXml(feed.title)}"`,
+      `title="${escapeXml(feed.title)}"`,
+      `xmlUrl="${escapeXml(feed.xmlUrl)}"`,
+    ];
+    if (feed.htmlUrl) {
+      attrs.push(`htmlUrl="${escapeXml(feed.htmlUrl)}"`);
+    }
+    return `${indent}<outline ${attrs.join(' ')}/>`;
+  };
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+  ];
+
+  for (const folder of folders) {
+    if (folder.feeds.length === 0) continue;
+
+    if (folder.name === null) {
+      lines.push(...folder.feeds.map((feed) => renderFeed(feed, '    ')));
+      continue;
+    }
+
+    const folderName = escapeXml(folder.name);
+    lines.push(`    <outline text="${folderName}" title="${folderName}">`);
+    lines.push(...folder.feeds.map((feed) => renderFeed(feed, '      ')));
+    lines.push('    </outline>');
+  }
+
+  lines.push('  </body>', '</opml>', '');
+  return lines.join('\n');
+}
@@ -0,0 +1,76 @@
+/**
+ * Public address guard
+ *
+ * 用户填写的出站 URL（通用 Webhook）只允许访问公网：拒绝回环、私有网段（RFC1918 / CGNAT）、
+ * 链路本地（含 169.254.169.254 元数据服务）、组播与保留地址。
+ * 保存时检查 URL 中的主机，发送时在 DNS 解析后按实际连接的地址再检查（防 DNS 重绑定与重定向）。
+ */
+
+import dns from 'dns';
+import net from 'net';
+
+const blockedAddresses = new net.BlockList();
+blockedAddresses.addSubnet('0.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('10.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('100.64.0.0', 10, 'ipv4');
+blockedAddresses.addSubnet('127.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('169.254.0.0', 16, 'ipv4');
+blockedAddresses.addSubnet('172.16.0.0', 12, 'ipv4');
+blockedAddresses.addSubnet('192.0.0.0', 24, 'ipv4');
+blockedAddresses.addSubnet('192.168.0.0', 16, 'ipv4');
+blockedAddresses.addSubnet('198.18.0.0', 15, 'ipv4');
+blockedAddresses.addSubnet('224.0.0.0', 4, 'ipv4');
+blockedAddresses.addSubnet('240.0.0.0', 4, 'ipv4');
+// IPv4-mapped IPv6（::ffff:a.b.c.d）由 BlockList 按 IPv4 规则检查
+blockedAddresses.addAddress('::', 'ipv6');
+blockedAddresses.addAddress('::1', 'ipv6');
+blockedAddresses.addSubnet('fc00::', 7, 'ipv6');
+blockedAddresses.addSubnet('fe80::', 10, 'ipv6');
+blockedAddresses.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether a URL hostname may point to a public host (IP literals are checked, names are not resolved)
+ */
+export function isPublicHostname(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  if (!host || host === 'localhost' || host.endsWith('.localhost')) return false;
+  return !isPrivateAddress(host);
+}
+
+type LookupCallback = (
+  error: NodeJS.ErrnoException | null,
+  address: string | dns.LookupAddress[],
+  family?: number
+) => void;
+
+/**
+ * dns.lookup replacement for outgoing connections: fails when the name resolves to a non-public address
+ */
+export function publicLookup(hostname: string, options: dns.LookupOptions, callback: LookupCallback): void {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+
+    const addresses = Array.isArray(address) ? address.map((item) => item.address) : [address];
+    const blocked = addresses.find((item) => isPrivateAddress(item));
+    if (blocked) {
+      const blockedError: NodeJS.ErrnoException = new Error(`Refusing to connect to ${hostname}: not a public address`);
+      blockedError.code = 'EADDRNOTPUBLIC';
+      callback(blockedError, address, family);
+      return;
+    }
+
+    callback(null, address, family);
+  });
+}
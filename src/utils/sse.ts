@@ -0,0 +1,80 @@
+/**
+ * Streaming response readers
+ *
+ * 用于 LLM 流式输出：按行读取响应体（NDJSON），或解析 `text/event-stream`（SSE）。
+ */
+
+/**
+ * Server-Sent Event
+ */
+export interface SSEEvent {
+  event: string | null;
+  data: string;
+}
+
+/**
+ * Read a response body line by line
+ * 消费方提前结束迭代时会取消底层流
+ */
+export async function* readStreamLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+        yield buffer.slice(0, newlineIndex).replace(/\r$/, '');
+        buffer = buffer.slice(newlineIndex + 1);
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.length > 0) {
+      yield buffer.replace(/\r$/, '');
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Parse a `text/event-stream` body into events
+ * 多行 data 以换行拼接；注释行（`:` 开头）忽略
+ */
+export async function* readSSEEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  let event: string | null = null;
+  let dataLines: string[] = [];
+
+  for await (const line of readStreamLines(body)) {
+    if (line === '') {
+      if (dataLines.length > 0) {
+        yield { event, data: dataLines.join('\n') };
+      }
+      event = null;
+      dataLines = [];
+      continue;
+    }
+    if (line.startsWith(':')) continue;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length > 0) {
+    yield { event, data: dataLines.join('\n') };
+  }
+}
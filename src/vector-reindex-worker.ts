@@ -0,0 +1,215 @@
+/**
+ * Vector Re-index Worker
+ *
+ * 后台重建向量索引版本（vector_index_versions.status = building）。
+ * - 按文章 ID 游标分批写入新版本的集合，每批之后等待 batch_delay_ms（节流 embedding 请求）
+ * - 进度与游标每批落库，重启后从游标继续
+ * - 整批失败时不推进游标并重试，连续失败后暂停并记录错误
+ * - 写满后标记 completed；没有失败文章时自动激活（原子切换），否则等待手动激活
+ */
+
+import { logger } from './logger.js';
+import { indexArticlesInto } from './vector/indexer.js';
+import {
+  activateIndexVersion,
+  completeIndexVersion,
+  getBuildingIndexVersions,
+  getIndexableArticleIds,
+  getIndexVersion,
+  updateIndexVersion,
+  versionToIndex,
+  type VectorIndexVersion,
+} from './vector/index-versions.js';
+import { sleep } from './utils/sleep.js';
+
+const log = logger.child({ module: 'vector-reindex-worker' });
+
+/**
+ * 连续整批失败达到该次数后暂停
+ */
+const MAX_FAILED_BATCHES = 3;
+
+/**
+ * 停止时等待进行中批次的最长时间（超时后未落库的批次在下次启动时重跑）
+ */
+const STOP_TIMEOUT_MS = 10_000;
+
+export class VectorReindexWorker {
+  private static instance: VectorReindexWorker | null = null;
+
+  private running = false;
+  private loop: Promise<void> | null = null;
+  private kicked = false;
+  private delayTimer: NodeJS.Timeout | null = null;
+  private wake: (() => void) | null = null;
+  private readonly failedBatches = new Map<number, number>();
+
+  static getInstance(): VectorReindexWorker {
+    if (!VectorReindexWorker.instance) {
+      VectorReindexWorker.instance = new VectorReindexWorker();
+    }
+    return VectorReindexWorker.instance;
+  }
+
+  /**
+   * Resume versions left building by the last shutdown
+   */
+  start(): void {
+    if (this.running) {
+      log.warn('Vector re-index worker already running');
+      return;
+    }
+    this.running = true;
+    this.kick();
+  }
+
+  /**
+   * Pick up newly created / resumed versions
+   */
+  kick(): void {
+    if (!this.running) return;
+    if (this.loop) {
+      // 循环可能正要因"无任务"退出，结束后再跑一轮
+      this.kicked = true;
+      return;
+    }
+    this.loop = this.run()
+      .catch((error) => {
+        log.error({ error: error instanceof Error ? error.message : String(error) }, 'Vector re-index loop failed');
+      })
+      .finally(() => {
+        this.loop = null;
+        if (this.kicked) {
+          this.kicked = false;
+          this.kick();
+        }
+      });
+  }
+
+  /**
+   * Stop after the current batch (bounded wait)
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.delayTimer) {
+      clearTimeout(this.delayTimer);
+      this.delayTimer = null;
+    }
+    this.wake?.();
+    if (this.loop) {
+      await Promise.race([this.loop, sleep(STOP_TIMEOUT_MS)]);
+    }
+  }
+
+  private async run(): Promise<void> {
+    while (this.running) {
+      const versions = await getBuildingIndexVersions();
+      if (versions.length === 0) return;
+
+      // 多个用户的版本轮流推进，每轮各处理一批
+      let delayMs = 0;
+      for (const version of versions) {
+        if (!this.running) return;
+        await this.processBatch(version.id, version.userId);
+        delayMs = Math.max(delayMs, version.batchDelayMs);
+      }
+      await this.delay(delayMs);
+    }
+  }
+
+  private async processBatch(versionId: number, userId: number): Promise<void> {
+    // 每批重新读取：暂停 / 取消 / 调整节流参数即时生效
+    const version = await getIndexVersion(versionId, userId);
+    if (!version || version.status !== 'building') {
+      this.failedBatches.delete(versionId);
+      return;
+    }
+
+    if (version.embeddingConfigId === null) {
+      await updateIndexVersion(versionId, {
+        status: 'failed',
+        error_message: '该版本使用的 Embedding 配置已删除',
+      }, ['building']);
+      log.warn({ userId, versionId }, 'Vector index version failed: embedding config deleted');
+      return;
+    }
+
+    const articleIds = await getIndexableArticleIds(userId, version.cursorArticleId, version.batchSize);
+    if (articleIds.length === 0) {
+      await this.complete(version, userId);
+      return;
+    }
+
+    const result = await indexArticlesInto(versionToIndex(version), userId, articleIds);
+
+    if (result.indexed === 0 && result.failed > 0) {
+      const failures = (this.failedBatches.get(versionId) ?? 0) + 1;
+      this.failedBatches.set(versionId, failures);
+
+      if (failures >= MAX_FAILED_BATCHES) {
+        this.failedBatches.delete(versionId);
+        await updateIndexVersion(versionId, { status: 'paused', error_message: result.error ?? null }, ['building']);
+        log.warn({ userId, versionId, error: result.error }, 'Vector re-index paused after repeated failures');
+      } else {
+        await updateIndexVersion(versionId, { error_message: result.error ?? null }, ['building']);
+      }
+      return;
+    }
+
+    this.failedBatches.delete(versionId);
+    await updateIndexVersion(versionId, {
+      processed_articles: version.processedArticles + articleIds.length,
+      failed_articles: version.failedArticles + result.failed,
+      cursor_article_id: articleIds[articleIds.length - 1],
+      error_message: result.error ?? null,
+    }, ['building']);
+
+    log.debug(
+      { userId, versionId, indexed: result.indexed, skipped: result.skipped, failed: result.failed },
+      'Vector re-index batch done'
+    );
+  }
+
+  private async complete(version: VectorIndexVersion, userId: number): Promise<void> {
+    if (!await completeIndexVersion(version.id)) return;
+
+    if (version.failedArticles > 0) {
+      log.info(
+        { userId, versionId: version.id, failed: version.failedArticles },
+        'Vector index version completed with failures, waiting for manual activation'
+      );
+      return;
+    }
+
+    await activateIndexVersion(version.id, userId);
+    log.info({ userId, versionId: version.id, processed: version.processedArticles }, 'Vector index version completed');
+  }
+
+  private delay(ms: number): Promise<void> {
+    if (ms <= 0) return Promise.resolve();
+    return new Promise((resolve) => {
+      this.wake = () => {
+        this.wake = null;
+        resolve();
+      };
+      this.delayTimer = setTimeout(() => {
+        this.delayTimer = null;
+        this.wake?.();
+      }, ms);
+    });
+  }
+}
+
+/**
+ * Initialize and get worker instance
+ */
+export function initVectorReindexWorker(): VectorReindexWorker {
+  return VectorReindexWorker.getInstance();
+}
+
+/**
+ * Get worker instance
+ */
+export function getVectorReindexWorker(): VectorReindexWorker {
+  return VectorReindexWorker.getInstance();
+}
@@ -64,17 +64,23 @@ export async function getClient(userId: number): Promise<ChromaClient> {
 
 /**
  * Get or create a collection for the user.
+ * Defaults to the collection / distance metric in settings; index versions pass their own.
  */
-export async function getCollection(userId: number): Promise<{
+export async function getCollection(
+  userId: number,
+  target?: { name: string; distanceMetric: string }
+): Promise<{
   collection: Collection;
   settings: Awaited<ReturnType<typeof getChromaSettings>>;
 }> {
   const client = await getClient(userId);
   const settings = await getChromaSettings(userId);
   const cache = clientCache.get(userId)!;
+  const name = target?.name ?? settings.collection;
+  const distanceMetric = target?.distanceMetric ?? settings.distanceMetric;
 
   // Cache key includes both collection name and distance metric
-  const cacheKey = `${settings.collection}:${settings.distanceMetric}`;
+  const cacheKey = `${name}:${distanceMetric}`;
 
   // Reuse existing collection
   if (cache.collections.has(cacheKey)) {
@@ -87,8 +93,8 @@ export async function getCollection(userId: number): Promise<{
   // Get or create collection
   try {
     const collection = await client.getOrCreateCollection({
-      name: settings.collection,
-      metadata: { 'hnsw:space': settings.distanceMetric },
+      name,
+      metadata: { 'hnsw:space': distanceMetric },
     });
 
     cache.collections.set(cacheKey, collection);
@@ -99,6 +105,27 @@ export async function getCollection(userId: number): Promise<{
   }
 }
 
+/**
+ * Delete a collection and drop it from the user's cache.
+ */
+export async function deleteCollection(userId: number, name: string): Promise<void> {
+  const client = await getClient(userId);
+  const cache = clientCache.get(userId)!;
+
+  for (const key of [...cache.collections.keys()]) {
+    if (key.startsWith(`${name}:`)) {
+      cache.collections.delete(key);
+    }
+  }
+
+  try {
+    await client.deleteCollection({ name });
+  } catch (error) {
+    // 集合不存在（从未写入过）时视为已删除
+    log.debug({ error, userId, name }, 'Chroma collection delete skipped');
+  }
+}
+
 /**
  * Close and remove a user's Chroma client.
  */
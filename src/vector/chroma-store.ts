@@ -0,0 +1,76 @@
+/**
+ * Chroma Vector Store
+ *
+ * VectorStore backed by an external ChromaDB server (see chroma-client.ts).
+ */
+
+import { IncludeEnum } from 'chromadb';
+import { logger } from '../logger.js';
+import { deleteCollection, getClient, getCollection } from './chroma-client.js';
+import type { VectorCollection, VectorMatch, VectorStore, VectorWhere } from './vector-store.js';
+
+const log = logger.child({ module: 'chroma-store' });
+
+export class ChromaVectorStore implements VectorStore {
+  async upsert(
+    userId: number,
+    target: VectorCollection,
+    ids: string[],
+    embeddings: number[][],
+    metadatas: Record<string, any>[],
+    documents: string[]
+  ): Promise<void> {
+    const { collection } = await getCollection(userId, target);
+    await collection.upsert({
+      ids,
+      embeddings,
+      metadatas,
+      documents,
+    });
+    log.debug({ count: ids.length, collection: target.name }, 'Chroma upsert done');
+  }
+
+  async query(
+    userId: number,
+    target: VectorCollection,
+    embedding: number[],
+    topK: number,
+    filter?: VectorWhere
+  ): Promise<VectorMatch[]> {
+    const { collection } = await getCollection(userId, target);
+    const result = await collection.query({
+      queryEmbeddings: [embedding],
+      nResults: topK,
+      where: filter,
+      include: [IncludeEnum.Distances, IncludeEnum.Metadatas, IncludeEnum.Documents],
+    });
+
+    const ids = result.ids?.[0] || [];
+    const distances = result.distances?.[0] || [];
+    const metadatas = result.metadatas?.[0] || [];
+    const documents = result.documents?.[0] || [];
+
+    return ids.map((id, i) => ({
+      id: String(id),
+      distance: typeof distances[i] === 'number' ? distances[i] : 1,
+      metadata: (metadatas[i] || {}) as Record<string, any>,
+      document: (documents[i] as string | null) || '',
+    }));
+  }
+
+  async remove(userId: number, target: VectorCollection, ids: string[]): Promise<void> {
+    const { collection } = await getCollection(userId, target);
+    await collection.delete({ ids });
+    log.debug({ count: ids.length, collection: target.name }, 'Chroma delete done');
+  }
+
+  async drop(userId: number, target: VectorCollection): Promise<void> {
+    await deleteCollection(userId, target.name);
+    log.debug({ collection: target.name }, 'Chroma collection dropped');
+  }
+
+  async heartbeat(userId: number): Promise<void> {
+    const client = await getClient(userId);
+    await client.heartbeat();
+  }
+}
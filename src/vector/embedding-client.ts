@@ -1,7 +1,7 @@
 import { logger } from '../logger.js';
 import { decryptAPIKey } from '../utils/crypto.js';
 import { config as appConfig } from '../config.js';
-import { getActiveConfigByType } from '../api/llm-configs.js';
+import { getActiveConfigByType, getLLMConfigById } from '../api/llm-configs.js';
 
 const log = logger.child({ module: 'vector-embedding' });
 
@@ -28,10 +28,22 @@ interface EmbeddingConfig {
   maxRetries: number;
 }
 
-async function loadEmbeddingConfig(userId: number): Promise<EmbeddingConfig> {
-  const dbConfig = await getActiveConfigByType(userId, 'embedding');
-  if (!dbConfig) {
-    throw new EmbeddingConfigError('embedding');
+/**
+ * Load an embedding config
+ * @param configId 指定配置（向量索引版本固定的配置，停用后仍可使用）；缺省为当前活跃配置
+ */
+async function loadEmbeddingConfig(userId: number, configId?: number | null): Promise<EmbeddingConfig> {
+  let dbConfig;
+  if (configId != null) {
+    dbConfig = await getLLMConfigById(configId, userId);
+    if (!dbConfig || dbConfig.config_type !== 'embedding') {
+      throw new Error(`向量索引使用的 Embedding 配置 (#${configId}) 已删除，请在"设置"中重建向量索引。`);
+    }
+  } else {
+    dbConfig = await getActiveConfigByType(userId, 'embedding');
+    if (!dbConfig) {
+      throw new EmbeddingConfigError('embedding');
+    }
   }
 
   return {
@@ -105,16 +117,28 @@ async function requestEmbeddings(
   throw new Error('Embedding 请求失败');
 }
 
-export async function getEmbedding(text: string, userId: number): Promise<number[]> {
-  const cfg = await loadEmbeddingConfig(userId);
+export async function getEmbedding(text: string, userId: number, configId?: number | null): Promise<number[]> {
+  const cfg = await loadEmbeddingConfig(userId, configId);
   const vectors = await requestEmbeddings(cfg, [text]);
   return vectors[0] || [];
 }
 
-export async function getEmbeddingsBatch(texts: string[], userId: number): Promise<number[][]> {
-  const cfg = await loadEmbeddingConfig(userId);
+export async function getEmbeddingsBatch(
+  texts: string[],
+  userId: number,
+  configId?: number | null
+): Promise<number[][]> {
+  const cfg = await loadEmbeddingConfig(userId, configId);
   if (texts.length === 0) return [];
   const vectors = await requestEmbeddings(cfg, texts);
   log.debug({ count: vectors.length }, 'Embedding batch done');
   return vectors;
 }
+
+/**
+ * Model name of an embedding config (recorded with each vector)
+ */
+export async function getEmbeddingModel(userId: number, configId?: number | null): Promise<string> {
+  const cfg = await loadEmbeddingConfig(userId, configId);
+  return cfg.model;
+}
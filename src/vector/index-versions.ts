@@ -0,0 +1,391 @@
+/**
+ * Vector Index Versions
+ *
+ * 向量索引版本：每个版本写入独立的物理集合（{chroma_collection}_v{id}），并记录
+ * 后端、embedding 配置 / 模型、维度、buildVectorText 版本与距离度量。
+ *
+ * - 检索固定使用 active 版本（查询向量用该版本的 embedding 配置生成），更换 embedding 配置不会混入不可比的向量
+ * - 重建时新版本为 building，后台任务（vector-reindex-worker.ts）分批写入，流水线的新文章同时写入 active 与新版本
+ * - 新版本写满后在一个事务内退役旧版本、激活新版本（原子切换）
+ * - 没有任何 active 版本时使用未版本化的旧索引（设置中的集合与当前活跃 embedding 配置）
+ */
+
+import { sql } from 'kysely';
+import { getDb, type VectorIndexVersionsSelection } from '../db.js';
+import { logger } from '../logger.js';
+import { normalizeDateFields } from '../utils/datetime.js';
+import { getChromaSettings, type VectorBackend } from '../api/settings.js';
+import { getActiveConfigByType } from '../api/llm-configs.js';
+import { TEXT_BUILDER_VERSION } from './text-builder.js';
+
+const log = logger.child({ module: 'vector-index-versions' });
+
+/* ── Types ── */
+
+export type VectorIndexStatus = VectorIndexVersionsSelection['status'];
+
+export type DistanceMetric = VectorIndexVersionsSelection['distance_metric'];
+
+/**
+ * Versions that still receive writes (active index excluded)
+ */
+const PENDING_STATUSES: VectorIndexStatus[] = ['building', 'paused', 'completed'];
+
+/**
+ * A physical vector index: where vectors live and how query vectors must be produced
+ */
+export interface VectorIndex {
+  /** null = 未版本化的旧索引 */
+  versionId: number | null;
+  backend: VectorBackend;
+  collection: string;
+  distanceMetric: DistanceMetric;
+  /** 固定的 embedding 配置；null = 当前活跃配置（仅旧索引） */
+  embeddingConfigId: number | null;
+  textVersion: number | null;
+}
+
+export interface VectorIndexVersion {
+  id: number;
+  backend: VectorBackend;
+  collection: string;
+  distanceMetric: DistanceMetric;
+  embeddingConfigId: number | null;
+  embeddingModel: string;
+  dimensions: number | null;
+  textVersion: number;
+  status: VectorIndexStatus;
+  totalArticles: number;
+  processedArticles: number;
+  failedArticles: number;
+  cursorArticleId: number;
+  batchSize: number;
+  batchDelayMs: number;
+  errorMessage: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  activatedAt: string | null;
+}
+
+export interface CreateIndexVersionInput {
+  userId: number;
+  totalArticles: number;
+  batchSize: number;
+  batchDelayMs: number;
+}
+
+/* ── Helpers ── */
+
+function rowToVersion(row: VectorIndexVersionsSelection): VectorIndexVersion {
+  const normalized = normalizeDateFields({ ...row }, ['created_at', 'updated_at', 'completed_at', 'activated_at']);
+  return {
+    id: normalized.id,
+    backend: normalized.backend,
+    collection: normalized.collection,
+    distanceMetric: normalized.distance_metric,
+    embeddingConfigId: normalized.embedding_config_id,
+    embeddingModel: normalized.embedding_model,
+    dimensions: normalized.dimensions,
+    textVersion: normalized.text_version,
+    status: normalized.status,
+    totalArticles: normalized.total_articles,
+    processedArticles: normalized.processed_articles,
+    failedArticles: normalized.failed_articles,
+    cursorArticleId: normalized.cursor_article_id,
+    batchSize: normalized.batch_size,
+    batchDelayMs: normalized.batch_delay_ms,
+    errorMessage: normalized.error_message,
+    createdAt: normalized.created_at,
+    updatedAt: normalized.updated_at,
+    completedAt: normalized.completed_at,
+    activatedAt: normalized.activated_at,
+  };
+}
+
+export function versionToIndex(version: VectorIndexVersion): VectorIndex {
+  return {
+    versionId: version.id,
+    backend: version.backend,
+    collection: version.collection,
+    distanceMetric: version.distanceMetric,
+    embeddingConfigId: version.embeddingConfigId,
+    textVersion: version.textVersion,
+  };
+}
+
+/**
+ * The unversioned index configured in settings
+ */
+async function getLegacyIndex(userId: number): Promise<VectorIndex> {
+  const settings = await getChromaSettings(userId);
+  return {
+    versionId: null,
+    backend: settings.backend,
+    collection: settings.collection,
+    distanceMetric: settings.distanceMetric,
+    embeddingConfigId: null,
+    textVersion: null,
+  };
+}
+
+/* ── Queries ── */
+
+export async function getIndexVersions(userId: number): Promise<VectorIndexVersion[]> {
+  const rows = await getDb()
+    .selectFrom('vector_index_versions')
+    .where('user_id', '=', userId)
+    .selectAll()
+    .orderBy('id', 'desc')
+    .execute();
+  return rows.map(rowToVersion);
+}
+
+export async function getIndexVersion(id: number, userId: number): Promise<VectorIndexVersion | null> {
+  const row = await getDb()
+    .selectFrom('vector_index_versions')
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .selectAll()
+    .executeTakeFirst();
+  return row ? rowToVersion(row) : null;
+}
+
+export async function getActiveIndexVersion(userId: number): Promise<VectorIndexVersion | null> {
+  const row = await getDb()
+    .selectFrom('vector_index_versions')
+    .where('user_id', '=', userId)
+    .where('status', '=', 'active')
+    .selectAll()
+    .executeTakeFirst();
+  return row ? rowToVersion(row) : null;
+}
+
+/**
+ * The version being built (building / paused / completed, at most one per user)
+ */
+export async function getPendingIndexVersion(userId: number): Promise<VectorIndexVersion | null> {
+  const row = await getDb()
+    .selectFrom('vector_index_versions')
+    .where('user_id', '=', userId)
+    .where('status', 'in', PENDING_STATUSES)
+    .selectAll()
+    .orderBy('id', 'desc')
+    .executeTakeFirst();
+  return row ? rowToVersion(row) : null;
+}
+
+/**
+ * Versions the background re-index job should work on (all users)
+ */
+export async function getBuildingIndexVersions(): Promise<Array<VectorIndexVersion & { userId: number }>> {
+  const rows = await getDb()
+    .selectFrom('vector_index_versions')
+    .where('status', '=', 'building')
+    .selectAll()
+    .orderBy('id', 'asc')
+    .execute();
+  return rows.map((row) => ({ ...rowToVersion(row), userId: row.user_id }));
+}
+
+/**
+ * Index that queries run against: the active version, or the legacy index
+ */
+export async function getActiveIndex(userId: number): Promise<VectorIndex> {
+  const active = await getActiveIndexVersion(userId);
+  return active ? versionToIndex(active) : getLegacyIndex(userId);
+}
+
+/**
+ * Indexes that new / updated articles are written to: the active index plus the version being built
+ */
+export async function getWriteIndexes(userId: number): Promise<VectorIndex[]> {
+  const indexes = [await getActiveIndex(userId)];
+  const pending = await getPendingIndexVersion(userId);
+  if (pending) {
+    indexes.push(versionToIndex(pending));
+  }
+  return indexes;
+}
+
+/**
+ * Articles a rebuild covers: passed + fully processed articles of the user, in ID order
+ */
+function createIndexableArticlesQuery(userId: number) {
+  return getDb()
+    .selectFrom('articles')
+    .leftJoin('rss_sources', 'rss_sources.id', 'articles.rss_source_id')
+    .leftJoin('journals', 'journals.id', 'articles.journal_id')
+    .leftJoin('keyword_subscriptions', 'keyword_subscriptions.id', 'articles.keyword_id')
+    .where((eb) =>
+      eb.or([
+        eb('rss_sources.user_id', '=', userId),
+        eb('journals.user_id', '=', userId),
+        eb('keyword_subscriptions.user_id', '=', userId),
+      ])
+    )
+    .where('articles.filter_status', '=', 'passed')
+    .where('articles.process_status', '=', 'completed');
+}
+
+export async function countIndexableArticles(userId: number): Promise<number> {
+  const row = await createIndexableArticlesQuery(userId)
+    .select((eb) => eb.fn.countAll<number>().as('count'))
+    .executeTakeFirst();
+  return Number(row?.count ?? 0);
+}
+
+/**
+ * Next batch of article IDs after the cursor
+ */
+export async function getIndexableArticleIds(userId: number, afterId: number, limit: number): Promise<number[]> {
+  const rows = await createIndexableArticlesQuery(userId)
+    .where('articles.id', '>', afterId)
+    .select('articles.id')
+    .orderBy('articles.id', 'asc')
+    .limit(limit)
+    .execute();
+  return rows.map((row) => row.id);
+}
+
+/* ── Mutations ── */
+
+/**
+ * Create a building version using the current backend settings and embedding config
+ */
+export async function createIndexVersion(input: CreateIndexVersionInput): Promise<VectorIndexVersion> {
+  const settings = await getChromaSettings(input.userId);
+  const embeddingConfig = await getActiveConfigByType(input.userId, 'embedding');
+  if (!embeddingConfig) {
+    throw new Error('缺少 Embedding 配置。请在"LLM 配置"中添加一个 config_type 为 "embedding" 的配置。');
+  }
+
+  const db = getDb();
+  const id = await db.transaction().execute(async (trx) => {
+    const inserted = await trx
+      .insertInto('vector_index_versions')
+      .values({
+        user_id: input.userId,
+        backend: settings.backend,
+        // 先占位，拿到 ID 后改为 {collection}_v{id}
+        collection: settings.collection,
+        distance_metric: settings.distanceMetric,
+        embedding_config_id: embeddingConfig.id,
+        embedding_model: embeddingConfig.model,
+        text_version: TEXT_BUILDER_VERSION,
+        total_articles: input.totalArticles,
+        batch_size: input.batchSize,
+        batch_delay_ms: input.batchDelayMs,
+      })
+      .executeTakeFirstOrThrow();
+    const insertedId = Number(inserted.insertId);
+
+    await trx
+      .updateTable('vector_index_versions')
+      .set({ collection: `${settings.collection}_v${insertedId}` })
+      .where('id', '=', insertedId)
+      .execute();
+    return insertedId;
+  });
+
+  log.info(
+    { userId: input.userId, versionId: id, backend: settings.backend, model: embeddingConfig.model },
+    'Vector index version created'
+  );
+  return (await getIndexVersion(id, input.userId))!;
+}
+
+/**
+ * Update progress / status
+ * @param fromStatuses 仅当版本处于这些状态时更新（避免覆盖并发的暂停 / 取消）
+ * @returns 是否更新了记录
+ */
+export async function updateIndexVersion(
+  id: number,
+  updates: Partial<Pick<VectorIndexVersionsSelection,
+    'status' | 'processed_articles' | 'failed_articles' | 'cursor_article_id' | 'total_articles' |
+    'batch_size' | 'batch_delay_ms' | 'error_message'>>,
+  fromStatuses?: VectorIndexStatus[]
+): Promise<boolean> {
+  let query = getDb()
+    .updateTable('vector_index_versions')
+    .set({ ...updates, updated_at: sql`CURRENT_TIMESTAMP` })
+    .where('id', '=', id);
+  if (fromStatuses) {
+    query = query.where('status', 'in', fromStatuses);
+  }
+  const result = await query.executeTakeFirst();
+  return Number(result.numUpdatedRows) > 0;
+}
+
+/**
+ * Mark a building version as fully written
+ */
+export async function completeIndexVersion(id: number): Promise<boolean> {
+  const result = await getDb()
+    .updateTable('vector_index_versions')
+    .set({
+      status: 'completed',
+      error_message: null,
+      completed_at: sql`CURRENT_TIMESTAMP`,
+      updated_at: sql`CURRENT_TIMESTAMP`,
+    })
+    .where('id', '=', id)
+    .where('status', '=', 'building')
+    .executeTakeFirst();
+  return Number(result.numUpdatedRows) > 0;
+}
+
+/**
+ * Record the vector dimensions of a version on its first write
+ */
+export async function recordIndexDimensions(versionId: number, dimensions: number): Promise<void> {
+  await getDb()
+    .updateTable('vector_index_versions')
+    .set({ dimensions })
+    .where('id', '=', versionId)
+    .where('dimensions', 'is', null)
+    .execute();
+}
+
+/**
+ * Atomically switch queries to a completed version
+ *
+ * 同一事务内：旧 active 版本 → retired，目标版本 → active。
+ */
+export async function activateIndexVersion(id: number, userId: number): Promise<void> {
+  await getDb().transaction().execute(async (trx) => {
+    const target = await trx
+      .selectFrom('vector_index_versions')
+      .where('id', '=', id)
+      .where('user_id', '=', userId)
+      .select('status')
+      .executeTakeFirst();
+    if (!target || target.status !== 'completed') {
+      throw new Error('只能激活已完成的索引版本');
+    }
+
+    await trx
+      .updateTable('vector_index_versions')
+      .set({ status: 'retired', updated_at: sql`CURRENT_TIMESTAMP` })
+      .where('user_id', '=', userId)
+      .where('status', '=', 'active')
+      .execute();
+
+    await trx
+      .updateTable('vector_index_versions')
+      .set({ status: 'active', activated_at: sql`CURRENT_TIMESTAMP`, updated_at: sql`CURRENT_TIMESTAMP` })
+      .where('id', '=', id)
+      .execute();
+  });
+
+  log.info({ userId, versionId: id }, 'Vector index version activated');
+}
+
+export async function deleteIndexVersion(id: number, userId: number): Promise<void> {
+  await getDb()
+    .deleteFrom('vector_index_versions')
+    .where('id', '=', id)
+    .where('user_id', '=', userId)
+    .execute();
+}
@@ -1,8 +1,10 @@
 import { getDb } from '../db.js';
 import { logger } from '../logger.js';
-import { getEmbeddingsBatch } from './embedding-client.js';
+import { getEmbeddingModel, getEmbeddingsBatch } from './embedding-client.js';
 import { upsert, remove, buildVectorId } from './vector-store.js';
-import { buildVectorText } from './text-builder.js';
+import { buildVectorText, TEXT_BUILDER_VERSION } from './text-builder.js';
+import { getWriteIndexes, recordIndexDimensions, type VectorIndex } from './index-versions.js';
+import { getArticlesMetadata } from '../api/article-metadata.js';
 
 const log = logger.child({ module: 'vector-indexer' });
 
@@ -17,6 +19,17 @@ export interface IndexResult {
   error?: string;
 }
 
+/**
+ * 写入单个索引版本的结果（后台重建任务使用）
+ */
+export interface IndexBatchResult {
+  indexed: number;
+  /** 无可向量化文本而跳过的文章 */
+  skipped: number;
+  failed: number;
+  error?: string;
+}
+
 class VectorIndexQueue {
   private running = Promise.resolve();
 
@@ -96,9 +109,14 @@ async function loadArticles(articleIds: number[], userId?: number) {
     }
   }
 
+  // 作者 / 关键词元数据
+  const metadataMap = await getArticlesMetadata(rows.map(r => r.id));
+
   // 补充 user_id（优先级：RSS > 关键词 > 期刊）
   const rowsWithUserId = rows.map(row => ({
     ...row,
+    authors: metadataMap.get(row.id)?.authors.map(a => a.name) ?? [],
+    keywords: metadataMap.get(row.id)?.keywords.map(k => k.keyword) ?? [],
     user_id: row.rss_user_id || keywordUserMap.get(row.keyword_id!) || journalUserMap.get(row.journal_id!) || null
   }));
 
@@ -161,20 +179,20 @@ async function doIndexArticles(
   let total = 0;
 
   for (const [uid, groupRows] of groups.entries()) {
-    const documents: string[] = [];
-    const ids: string[] = [];
-    const metadatas: Array<Record<string, any>> = [];
-
-    for (const row of groupRows) {
-      const doc = buildVectorText(row);
-      if (!doc) continue;
-      ids.push(buildVectorId(row.id, uid));
-      documents.push(doc);
-      metadatas.push({
-        article_id: row.id,
-        user_id: uid,
-      });
+    const { ids, documents, metadatas } = buildDocuments(uid, groupRows);
+    if (ids.length === 0) continue;
+
+    // 第一个为检索使用的 active 索引，其余为正在重建的版本
+    let indexes: VectorIndex[];
+    try {
+      indexes = await getWriteIndexes(uid);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      log.error({ error: errMsg, userId: uid }, '读取向量索引版本失败');
+      ids.forEach(id => onComplete?.({ articleId: parseArticleId(id), success: false, error: errMsg }));
+      continue;
     }
+    const [primary, ...pending] = indexes;
 
     for (let i = 0; i < documents.length; i += BATCH_SIZE) {
       const sliceDocs = documents.slice(i, i + BATCH_SIZE);
@@ -182,14 +200,12 @@ async function doIndexArticles(
       const sliceMetas = metadatas.slice(i, i + BATCH_SIZE);
 
       try {
-        const embeddings = await getEmbeddingsBatch(sliceDocs, uid);
-        await upsert(uid, sliceIds, embeddings, sliceMetas, sliceDocs);
+        await writeToIndex(uid, primary, sliceIds, sliceMetas, sliceDocs);
         total += sliceIds.length;
 
         // 报告成功
         sliceIds.forEach(id => {
-          const articleId = parseInt(id.split(':')[1], 10);
-          onComplete?.({ articleId, success: true });
+          onComplete?.({ articleId: parseArticleId(id), success: true });
         });
       } catch (error) {
         const errMsg = error instanceof Error ? error.message : String(error);
@@ -197,14 +213,23 @@ async function doIndexArticles(
 
         // 报告失败
         sliceIds.forEach(id => {
-          const articleId = parseInt(id.split(':')[1], 10);
           onComplete?.({
-            articleId,
+            articleId: parseArticleId(id),
             success: false,
             error: errMsg
           });
         });
       }
+
+      // 重建中的版本只记录日志：文章状态以 active 索引为准
+      for (const index of pending) {
+        try {
+          await writeToIndex(uid, index, sliceIds, sliceMetas, sliceDocs);
+        } catch (error) {
+          const errMsg = error instanceof Error ? error.message : String(error);
+          log.warn({ error: errMsg, versionId: index.versionId, count: sliceIds.length }, '重建中的向量索引写入失败');
+        }
+      }
     }
   }
 
@@ -213,6 +238,83 @@ async function doIndexArticles(
   }
 }
 
+function parseArticleId(vectorId: string): number {
+  return parseInt(vectorId.split(':')[1], 10);
+}
+
+function buildDocuments(uid: number, rows: any[]) {
+  const documents: string[] = [];
+  const ids: string[] = [];
+  const metadatas: Array<Record<string, any>> = [];
+
+  for (const row of rows) {
+    const doc = buildVectorText(row);
+    if (!doc) continue;
+    ids.push(buildVectorId(row.id, uid));
+    documents.push(doc);
+    metadatas.push({
+      article_id: row.id,
+      user_id: uid,
+    });
+  }
+
+  return { ids, documents, metadatas };
+}
+
+/**
+ * Embed with the index's config and upsert, tagging each vector with its provenance
+ */
+async function writeToIndex(
+  uid: number,
+  index: VectorIndex,
+  ids: string[],
+  metadatas: Array<Record<string, any>>,
+  documents: string[]
+): Promise<void> {
+  const embeddings = await getEmbeddingsBatch(documents, uid, index.embeddingConfigId);
+  const model = await getEmbeddingModel(uid, index.embeddingConfigId);
+
+  if (index.versionId !== null && embeddings.length > 0) {
+    await recordIndexDimensions(index.versionId, embeddings[0].length);
+  }
+
+  // Chroma 元数据不接受 null：旧索引不写 index_version
+  const tagged = metadatas.map((metadata) => ({
+    ...metadata,
+    embedding_model: model,
+    text_version: TEXT_BUILDER_VERSION,
+    ...(index.versionId !== null ? { index_version: index.versionId } : {}),
+  }));
+
+  await upsert(uid, index, ids, embeddings, tagged, documents);
+}
+
+async function doIndexArticlesInto(index: VectorIndex, userId: number, articleIds: number[]): Promise<IndexBatchResult> {
+  const rows = await loadArticles(articleIds, userId);
+  const { ids, documents, metadatas } = buildDocuments(userId, rows);
+  const result: IndexBatchResult = { indexed: 0, skipped: articleIds.length - ids.length, failed: 0 };
+
+  for (let i = 0; i < documents.length; i += BATCH_SIZE) {
+    const sliceIds = ids.slice(i, i + BATCH_SIZE);
+    try {
+      await writeToIndex(
+        userId,
+        index,
+        sliceIds,
+        metadatas.slice(i, i + BATCH_SIZE),
+        documents.slice(i, i + BATCH_SIZE)
+      );
+      result.indexed += sliceIds.length;
+    } catch (error) {
+      result.failed += sliceIds.length;
+      result.error = error instanceof Error ? error.message : String(error);
+      log.warn({ error: result.error, versionId: index.versionId, count: sliceIds.length }, '向量索引批次失败');
+    }
+  }
+
+  return result;
+}
+
 async function doDeleteArticle(articleId: number, userId?: number): Promise<void> {
   if (userId === undefined) {
     const rows = await loadArticles([articleId]);
@@ -253,6 +355,20 @@ export async function indexArticles(
   queue.enqueue(() => doIndexArticles(articleIds, userId, onComplete));
 }
 
+/**
+ * 将文章写入指定的索引版本（后台重建任务使用）
+ * 与流水线共用同一队列，避免与新文章的写入交错；按批次等待结果。
+ */
+export function indexArticlesInto(
+  index: VectorIndex,
+  userId: number,
+  articleIds: number[]
+): Promise<IndexBatchResult> {
+  return new Promise((resolve, reject) => {
+    queue.enqueue(() => doIndexArticlesInto(index, userId, articleIds).then(resolve, reject));
+  });
+}
+
 /**
  * 删除文章的向量索引
  */
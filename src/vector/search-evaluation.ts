@@ -0,0 +1,174 @@
+/**
+ * Search Evaluation
+ *
+ * Offline evaluation of hybrid fusion strategies against a labelled query set:
+ * each query lists its relevant article IDs (optionally with graded relevance),
+ * every strategy fuses the same semantic + keyword candidates, and the ranked
+ * lists are scored with nDCG@k / MRR@k / Recall@k.
+ */
+
+import { logger } from '../logger.js';
+import type { SearchFilters } from './search-filters.js';
+import { compareFusionStrategies, FusionStrategy } from './search-service.js';
+
+const log = logger.child({ module: 'search-evaluation' });
+
+/* ── Types ── */
+
+export interface EvaluationQuery {
+  query: string;
+  /** 相关文章 ID → 相关度等级（> 0，数值越大越相关） */
+  relevance: Map<number, number>;
+}
+
+export interface EvaluationRequest {
+  userId: number;
+  queries: EvaluationQuery[];
+  strategies: FusionStrategy[];
+  /** 截断位置（默认 10） */
+  k?: number;
+  semanticWeight?: number;
+  keywordWeight?: number;
+  filters?: SearchFilters;
+}
+
+export interface EvaluationMetrics {
+  ndcg: number;
+  mrr: number;
+  recall: number;
+}
+
+export interface StrategyEvaluation extends EvaluationMetrics {
+  strategy: FusionStrategy;
+  /** rerank 不可用而退化为 minmax 的查询数 */
+  degraded: number;
+}
+
+export interface QueryEvaluation {
+  query: string;
+  relevantCount: number;
+  /** 各策略的指标与前 k 名文章 ID；检索失败时为空并给出 error */
+  strategies: Array<EvaluationMetrics & { strategy: FusionStrategy; fusion: FusionStrategy; articleIds: number[] }>;
+  error?: string;
+}
+
+export interface EvaluationResult {
+  k: number;
+  /** 参与平均的查询数（不含检索失败的查询） */
+  evaluated: number;
+  failed: number;
+  summary: StrategyEvaluation[];
+  queries: QueryEvaluation[];
+}
+
+/* ── Metrics ── */
+
+/**
+ * nDCG@k with exponential gain (2^rel − 1) / log2(rank + 1)
+ */
+export function ndcgAtK(rankedIds: number[], relevance: Map<number, number>, k: number): number {
+  const dcg = rankedIds
+    .slice(0, k)
+    .reduce((sum, id, index) => sum + (2 ** (relevance.get(id) ?? 0) - 1) / Math.log2(index + 2), 0);
+
+  const idealDcg = [...relevance.values()]
+    .sort((a, b) => b - a)
+    .slice(0, k)
+    .reduce((sum, grade, index) => sum + (2 ** grade - 1) / Math.log2(index + 2), 0);
+
+  return idealDcg > 0 ? dcg / idealDcg : 0;
+}
+
+/**
+ * MRR@k: reciprocal rank of the first relevant result (0 if none in the top k)
+ */
+export function reciprocalRankAtK(rankedIds: number[], relevance: Map<number, number>, k: number): number {
+  const index = rankedIds.slice(0, k).findIndex((id) => (relevance.get(id) ?? 0) > 0);
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * Recall@k: share of relevant articles found in the top k
+ */
+export function recallAtK(rankedIds: number[], relevance: Map<number, number>, k: number): number {
+  if (relevance.size === 0) return 0;
+  const found = rankedIds.slice(0, k).filter((id) => (relevance.get(id) ?? 0) > 0).length;
+  return found / relevance.size;
+}
+
+function scoreRanking(rankedIds: number[], relevance: Map<number, number>, k: number): EvaluationMetrics {
+  return {
+    ndcg: ndcgAtK(rankedIds, relevance, k),
+    mrr: reciprocalRankAtK(rankedIds, relevance, k),
+    recall: recallAtK(rankedIds, relevance, k),
+  };
+}
+
+/* ── Evaluation ── */
+
+/**
+ * Score each fusion strategy over the labelled query set
+ *
+ * 查询逐条串行执行（每条会调用一次 embedding，rerank 策略另加一次 rerank 调用）；
+ * 单条查询失败只记录 error，不影响其余查询。
+ */
+export async function evaluateFusionStrategies(request: EvaluationRequest): Promise<EvaluationResult> {
+  const { userId, queries, strategies, k = 10, semanticWeight, keywordWeight, filters } = request;
+
+  const totals = new Map(
+    strategies.map((strategy) => [strategy, { ndcg: 0, mrr: 0, recall: 0, degraded: 0 }])
+  );
+  const details: QueryEvaluation[] = [];
+  let evaluated = 0;
+
+  for (const item of queries) {
+    const detail: QueryEvaluation = { query: item.query, relevantCount: item.relevance.size, strategies: [] };
+    details.push(detail);
+
+    try {
+      const comparison = await compareFusionStrategies({
+        userId,
+        query: item.query,
+        strategies,
+        limit: k,
+        semanticWeight,
+        keywordWeight,
+        filters,
+      });
+
+      for (const { strategy, fusion, results } of comparison) {
+        const articleIds = results.map((r) => r.articleId);
+        const metrics = scoreRanking(articleIds, item.relevance, k);
+        detail.strategies.push({ strategy, fusion, articleIds, ...metrics });
+
+        const total = totals.get(strategy)!;
+        total.ndcg += metrics.ndcg;
+        total.mrr += metrics.mrr;
+        total.recall += metrics.recall;
+        if (fusion !== strategy) total.degraded++;
+      }
+      evaluated++;
+    } catch (error) {
+      detail.error = error instanceof Error ? error.message : String(error);
+      log.warn({ error, query: item.query }, 'Evaluation query failed');
+    }
+  }
+
+  const summary = strategies.map((strategy) => {
+    const total = totals.get(strategy)!;
+    return {
+      strategy,
+      ndcg: evaluated > 0 ? total.ndcg / evaluated : 0,
+      mrr: evaluated > 0 ? total.mrr / evaluated : 0,
+      recall: evaluated > 0 ? total.recall / evaluated : 0,
+      degraded: total.degraded,
+    };
+  });
+
+  log.info(
+    { userId, queries: queries.length, evaluated, k, summary: summary.map((s) => `${s.strategy}=${s.ndcg.toFixed(3)}`) },
+    'Fusion strategies evaluated'
+  );
+
+  return { k, evaluated, failed: queries.length - evaluated, summary, queries: details };
+}
@@ -0,0 +1,416 @@
+/**
+ * Search Filters
+ *
+ * Typed filters for SearchRequest, plus the query syntax of the search box:
+ *
+ * - source:"图书情报工作"             来源 / 期刊 / 关键词订阅名称（包含匹配，多个取并集）
+ * - rss:12  journal:3  keyword:7      指定来源 ID（与 source: 取并集）
+ * - origin:journal                    来源类型：rss / journal / keyword / email / web
+ * - year:2025  year:2025..2026        发表年份（闭区间，任一端可省略；也支持 year>=2025）
+ * - date:2025-01-01..2025-06-30       发布日期（闭区间）
+ * - domain:3  domain:"数字人文"        主题领域（ID 或名称，文章在该领域通过过滤）
+ * - status:passed                     过滤状态：passed / rejected / pending
+ * - is:read  -is:read  is:unread      已读状态
+ * - rating>=4  rating:5  rating<=2    评分（1-5）
+ * - lang:en                           原文语言（翻译时检测）
+ *
+ * 无法识别的 key:value 原样保留为检索词。
+ */
+
+export type SearchSourceOrigin = 'rss' | 'journal' | 'keyword' | 'email' | 'web';
+export type SearchFilterStatus = 'pending' | 'passed' | 'rejected';
+
+export interface SearchFilters {
+  /** 发布日期下限（含），YYYY-MM-DD */
+  dateFrom?: string;
+  /** 发布日期上限（含），YYYY-MM-DD */
+  dateTo?: string;
+  /** 发表年份（published_year，缺失时取 published_at 的年份） */
+  yearFrom?: number;
+  yearTo?: number;
+  sourceOrigins?: SearchSourceOrigin[];
+  // 指定来源：ID 与名称之间取并集
+  rssSourceIds?: number[];
+  journalIds?: number[];
+  keywordIds?: number[];
+  sourceNames?: string[];
+  // 主题领域：ID 与名称之间取并集
+  domainIds?: number[];
+  domainNames?: string[];
+  filterStatuses?: SearchFilterStatus[];
+  isRead?: boolean;
+  ratingMin?: number;
+  ratingMax?: number;
+  /** article_translations.source_lang */
+  languages?: string[];
+}
+
+export interface ParsedSearchQuery {
+  /** 去掉筛选语法后的检索词 */
+  text: string;
+  filters: SearchFilters;
+}
+
+export const SEARCH_SOURCE_ORIGINS: SearchSourceOrigin[] = ['rss', 'journal', 'keyword', 'email', 'web'];
+export const SEARCH_FILTER_STATUSES: SearchFilterStatus[] = ['pending', 'passed', 'rejected'];
+
+const MIN_RATING = 1;
+const MAX_RATING = 5;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const YEAR_PATTERN = /^\d{4}$/;
+const LANGUAGE_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})?$/;
+
+// [-]key(op)value | "quoted phrase" | word
+const TOKEN_PATTERN = /(-?)([a-zA-Z]+)(:|>=|<=|>|<|=)("[^"]*"|\S+)|"[^"]*"|\S+/g;
+
+const SOURCE_ID_KEYS = {
+  rss: 'rssSourceIds',
+  journal: 'journalIds',
+  keyword: 'keywordIds',
+} as const;
+
+type ArrayFilterKey = {
+  [K in keyof SearchFilters]-?: NonNullable<SearchFilters[K]> extends unknown[] ? K : never;
+}[keyof SearchFilters];
+
+function pushUnique<K extends ArrayFilterKey>(
+  filters: SearchFilters,
+  key: K,
+  value: NonNullable<SearchFilters[K]>[number]
+): void {
+  const list = (filters[key] ?? []) as Array<typeof value>;
+  if (!list.includes(value)) list.push(value);
+  (filters as Record<string, unknown>)[key] = list;
+}
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Parse "a..b" / "a" / "a.." / "..b" into bounds (undefined = open end)
+ */
+function parseRange(value: string, isValid: (bound: string) => boolean): { from?: string; to?: string } | null {
+  const parts = value.includes('..') ? value.split('..') : [value, value];
+  if (parts.length !== 2) return null;
+
+  const [from, to] = parts;
+  if (!from && !to) return null;
+  if ((from && !isValid(from)) || (to && !isValid(to))) return null;
+  return { from: from || undefined, to: to || undefined };
+}
+
+/**
+ * Apply a comparison (year / rating) to a [min, max] pair
+ * @returns false when the value or operator is invalid
+ */
+function applyBound(op: string, value: number, set: (min?: number, max?: number) => void): boolean {
+  if (!Number.isInteger(value)) return false;
+
+  switch (op) {
+    case ':':
+    case '=':
+      set(value, value);
+      return true;
+    case '>=':
+      set(value, undefined);
+      return true;
+    case '>':
+      set(value + 1, undefined);
+      return true;
+    case '<=':
+      set(undefined, value);
+      return true;
+    case '<':
+      set(undefined, value - 1);
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply one key/value token to the filters
+ * @returns false when the token is not filter syntax (kept as search text)
+ */
+function applyToken(filters: SearchFilters, negated: boolean, key: string, op: string, value: string): boolean {
+  const name = key.toLowerCase();
+  const lower = value.toLowerCase();
+
+  if (name === 'is') {
+    if (op !== ':' || (lower !== 'read' && lower !== 'unread')) return false;
+    filters.isRead = (lower === 'read') !== negated;
+    return true;
+  }
+  if (negated || !value) return false;
+
+  switch (name) {
+    case 'source':
+      if (op !== ':') return false;
+      pushUnique(filters, 'sourceNames', value);
+      return true;
+
+    case 'rss':
+    case 'journal':
+    case 'keyword':
+      if (op !== ':' || !/^\d+$/.test(value)) return false;
+      pushUnique(filters, SOURCE_ID_KEYS[name], parseInt(value, 10));
+      return true;
+
+    case 'origin':
+      if (op !== ':' || !SEARCH_SOURCE_ORIGINS.includes(lower as SearchSourceOrigin)) return false;
+      pushUnique(filters, 'sourceOrigins', lower as SearchSourceOrigin);
+      return true;
+
+    case 'status':
+      if (op !== ':' || !SEARCH_FILTER_STATUSES.includes(lower as SearchFilterStatus)) return false;
+      pushUnique(filters, 'filterStatuses', lower as SearchFilterStatus);
+      return true;
+
+    case 'lang':
+      if (op !== ':' || !LANGUAGE_PATTERN.test(value)) return false;
+      pushUnique(filters, 'languages', lower);
+      return true;
+
+    case 'domain':
+      if (op !== ':') return false;
+      if (/^\d+$/.test(value)) {
+        pushUnique(filters, 'domainIds', parseInt(value, 10));
+      } else {
+        pushUnique(filters, 'domainNames', value);
+      }
+      return true;
+
+    case 'date': {
+      if (op !== ':') return false;
+      const range = parseRange(value, isValidDate);
+      if (!range) return false;
+      if (range.from) filters.dateFrom = range.from;
+      if (range.to) filters.dateTo = range.to;
+      return true;
+    }
+
+    case 'year': {
+      const setYears = (min?: number, max?: number) => {
+        if (min !== undefined) filters.yearFrom = min;
+        if (max !== undefined) filters.yearTo = max;
+      };
+      if (op === ':' && value.includes('..')) {
+        const range = parseRange(value, (bound) => YEAR_PATTERN.test(bound));
+        if (!range) return false;
+        setYears(range.from ? parseInt(range.from, 10) : undefined, range.to ? parseInt(range.to, 10) : undefined);
+        return true;
+      }
+      return YEAR_PATTERN.test(value) && applyBound(op, parseInt(value, 10), setYears);
+    }
+
+    case 'rating': {
+      if (!/^\d$/.test(value)) return false;
+      let bounds: { min?: number; max?: number } = {};
+      if (!applyBound(op, parseInt(value, 10), (min, max) => { bounds = { min, max }; })) return false;
+      // rating>5、rating<1 之类无法满足的条件视为普通文本
+      if ((bounds.min !== undefined && bounds.min > MAX_RATING) || (bounds.max !== undefined && bounds.max < MIN_RATING)) {
+        return false;
+      }
+      if (bounds.min !== undefined) filters.ratingMin = Math.max(bounds.min, MIN_RATING);
+      if (bounds.max !== undefined) filters.ratingMax = Math.min(bounds.max, MAX_RATING);
+      return true;
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Split a search-box query into search text and filters
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const filters: SearchFilters = {};
+  const textParts: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, negation, key, op, rawValue] = match;
+    if (key && applyToken(filters, negation === '-', key, op, rawValue.replace(/^"|"$/g, '').trim())) {
+      continue;
+    }
+    textParts.push(token);
+  }
+
+  return { text: textParts.join(' ').trim(), filters };
+}
+
+/**
+ * Whether any filter is set
+ */
+export function hasSearchFilters(filters: SearchFilters | null | undefined): filters is SearchFilters {
+  if (!filters) return false;
+  return Object.values(filters).some((value) => value !== undefined && (!Array.isArray(value) || value.length > 0));
+}
+
+/**
+ * Combine two filter sets: list filters are unioned, bounds and flags from `extra` win
+ */
+export function mergeSearchFilters(base: SearchFilters, extra: SearchFilters): SearchFilters {
+  const merged: SearchFilters = { ...base };
+  for (const [key, value] of Object.entries(extra) as Array<[keyof SearchFilters, unknown]>) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        pushUnique(merged, key as ArrayFilterKey, item as never);
+      }
+    } else {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+function readIdList(value: unknown, field: string): number[] | string {
+  if (!Array.isArray(value) || !value.every((id) => Number.isInteger(id) && id > 0)) {
+    return `${field} 应为正整数 ID 数组`;
+  }
+  return value as number[];
+}
+
+function readStringList(value: unknown, field: string): string[] | string {
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string' && item.trim() !== '')) {
+    return `${field} 应为非空字符串数组`;
+  }
+  return (value as string[]).map((item) => item.trim());
+}
+
+function readEnumList<T extends string>(value: unknown, field: string, allowed: T[]): T[] | string {
+  if (!Array.isArray(value) || !value.every((item) => allowed.includes(item))) {
+    return `${field} 取值应为 ${allowed.join(' / ')}`;
+  }
+  return value as T[];
+}
+
+/**
+ * Validate filters from a JSON body (typed object) or a query-syntax string
+ * @returns The filters, or an error message
+ */
+export function normalizeSearchFilters(value: unknown): SearchFilters | string {
+  if (value === undefined || value === null || value === '') return {};
+  if (typeof value === 'string') {
+    const parsed = parseSearchQuery(value);
+    if (parsed.text) {
+      return `无法识别的筛选条件：${parsed.text}`;
+    }
+    return parsed.filters;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return 'filters 应为对象或筛选语法字符串';
+  }
+
+  const input = value as Record<string, unknown>;
+  const filters: SearchFilters = {};
+
+  for (const field of ['dateFrom', 'dateTo'] as const) {
+    if (input[field] === undefined || input[field] === null) continue;
+    if (typeof input[field] !== 'string' || !isValidDate(input[field] as string)) {
+      return `${field} 格式应为 YYYY-MM-DD`;
+    }
+    filters[field] = input[field] as string;
+  }
+
+  for (const field of ['yearFrom', 'yearTo'] as const) {
+    if (input[field] === undefined || input[field] === null) continue;
+    if (!Number.isInteger(input[field])) return `${field} 应为年份整数`;
+    filters[field] = input[field] as number;
+  }
+
+  for (const field of ['ratingMin', 'ratingMax'] as const) {
+    if (input[field] === undefined || input[field] === null) continue;
+    const rating = input[field];
+    if (typeof rating !== 'number' || rating < MIN_RATING || rating > MAX_RATING) {
+      return `${field} 应在 ${MIN_RATING}-${MAX_RATING} 之间`;
+    }
+    filters[field] = rating;
+  }
+
+  if (input.isRead !== undefined && input.isRead !== null) {
+    if (typeof input.isRead !== 'boolean') return 'isRead 应为布尔值';
+    filters.isRead = input.isRead;
+  }
+
+  for (const field of ['rssSourceIds', 'journalIds', 'keywordIds', 'domainIds'] as const) {
+    if (input[field] === undefined || input[field] === null) continue;
+    const ids = readIdList(input[field], field);
+    if (typeof ids === 'string') return ids;
+    if (ids.length > 0) filters[field] = ids;
+  }
+
+  for (const field of ['sourceNames', 'domainNames', 'languages'] as const) {
+    if (input[field] === undefined || input[field] === null) continue;
+    const items = readStringList(input[field], field);
+    if (typeof items === 'string') return items;
+    if (items.length > 0) filters[field] = field === 'languages' ? items.map((item) => item.toLowerCase()) : items;
+  }
+
+  if (input.sourceOrigins !== undefined && input.sourceOrigins !== null) {
+    const origins = readEnumList(input.sourceOrigins, 'sourceOrigins', SEARCH_SOURCE_ORIGINS);
+    if (typeof origins === 'string') return origins;
+    if (origins.length > 0) filters.sourceOrigins = origins;
+  }
+
+  if (input.filterStatuses !== undefined && input.filterStatuses !== null) {
+    const statuses = readEnumList(input.filterStatuses, 'filterStatuses', SEARCH_FILTER_STATUSES);
+    if (typeof statuses === 'string') return statuses;
+    if (statuses.length > 0) filters.filterStatuses = statuses;
+  }
+
+  if (filters.dateFrom && filters.dateTo && filters.dateFrom > filters.dateTo) {
+    return 'dateFrom 不能晚于 dateTo';
+  }
+  if (filters.yearFrom !== undefined && filters.yearTo !== undefined && filters.yearFrom > filters.yearTo) {
+    return 'yearFrom 不能大于 yearTo';
+  }
+  if (filters.ratingMin !== undefined && filters.ratingMax !== undefined && filters.ratingMin > filters.ratingMax) {
+    return 'ratingMin 不能大于 ratingMax';
+  }
+
+  return filters;
+}
+
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function formatRange(from: string | number | undefined, to: string | number | undefined): string {
+  if (from !== undefined && from === to) return String(from);
+  return `${from ?? ''}..${to ?? ''}`;
+}
+
+/**
+ * Render filters back to query syntax (for display, e.g. active filter chips and deep search task details)
+ */
+export function formatSearchFilters(filters: SearchFilters): string[] {
+  const parts: string[] = [];
+
+  for (const name of filters.sourceNames ?? []) parts.push(`source:${quoteValue(name)}`);
+  for (const id of filters.rssSourceIds ?? []) parts.push(`rss:${id}`);
+  for (const id of filters.journalIds ?? []) parts.push(`journal:${id}`);
+  for (const id of filters.keywordIds ?? []) parts.push(`keyword:${id}`);
+  for (const origin of filters.sourceOrigins ?? []) parts.push(`origin:${origin}`);
+  if (filters.yearFrom !== undefined || filters.yearTo !== undefined) {
+    parts.push(`year:${formatRange(filters.yearFrom, filters.yearTo)}`);
+  }
+  if (filters.dateFrom || filters.dateTo) {
+    parts.push(`date:${formatRange(filters.dateFrom, filters.dateTo)}`);
+  }
+  for (const id of filters.domainIds ?? []) parts.push(`domain:${id}`);
+  for (const name of filters.domainNames ?? []) parts.push(`domain:${quoteValue(name)}`);
+  for (const status of filters.filterStatuses ?? []) parts.push(`status:${status}`);
+  if (filters.isRead !== undefined) parts.push(filters.isRead ? 'is:read' : '-is:read');
+  if (filters.ratingMin !== undefined && filters.ratingMin === filters.ratingMax) {
+    parts.push(`rating:${filters.ratingMin}`);
+  } else {
+    if (filters.ratingMin !== undefined) parts.push(`rating>=${filters.ratingMin}`);
+    if (filters.ratingMax !== undefined) parts.push(`rating<=${filters.ratingMax}`);
+  }
+  for (const language of filters.languages ?? []) parts.push(`lang:${language}`);
+
+  return parts;
+}
@@ -3,19 +3,23 @@
  *
  * Provides a single entry point for all search operations:
  * - Semantic search (vector similarity)
- * - Keyword search (SQL LIKE)
+ * - Keyword search (SQLite FTS5 + BM25, LIKE fallback)
  * - Hybrid search (semantic + keyword fusion)
  * - Related articles (with caching)
+ * - Matching a query against given articles (saved searches)
+ * - Structured filters (date / source / domain / status / read / rating / language, see search-filters.ts)
  *
  * Includes automatic fallback to keyword search when semantic search fails.
  */
 
+import { sql } from 'kysely';
 import { getDb } from '../db.js';
 import { logger } from '../logger.js';
-import { getEmbedding } from './embedding-client.js';
-import { query as queryVector } from './vector-store.js';
+import { queryByText } from './vector-store.js';
 import { rerank } from './reranker.js';
 import { buildVectorText } from './text-builder.js';
+import { getArticleMetadata } from '../api/article-metadata.js';
+import { hasSearchFilters, type SearchFilters } from './search-filters.js';
 
 const log = logger.child({ module: 'search-service' });
 
@@ -45,10 +49,13 @@ export interface SearchRequest {
   // Search parameters
   limit?: number;
   offset?: number;
+  filters?: SearchFilters;
 
-  // Fusion parameters
+  // Fusion parameters (HYBRID mode only)
+  fusion?: FusionStrategy;
   semanticWeight?: number;
   keywordWeight?: number;
+  /** weighted 策略：语义分数是否按本次最高分归一化 */
   normalizeScores?: boolean;
 
   // Cache parameters (RELATED mode only)
@@ -59,6 +66,32 @@ export interface SearchRequest {
   fallbackEnabled?: boolean;
 }
 
+/**
+ * How hybrid search merges the semantic and keyword result lists
+ */
+export enum FusionStrategy {
+  /** 语义分数按本次最高分归一化后与关键词分数加权（原有行为） */
+  WEIGHTED = 'weighted',
+  /** 两路分数各自 min-max 归一化到 [0, 1] 后加权 */
+  MIN_MAX = 'minmax',
+  /** Reciprocal Rank Fusion：按两路名次加权 */
+  RRF = 'rrf',
+  /** 两路结果取并集后整体 rerank（未配置 rerank 模型时退化为 minmax） */
+  RERANK = 'rerank',
+}
+
+export const FUSION_STRATEGIES = Object.values(FusionStrategy);
+
+/**
+ * Parse a fusion strategy name (case-insensitive)
+ * @returns undefined for unknown values
+ */
+export function parseFusionStrategy(value: unknown): FusionStrategy | undefined {
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.trim().toLowerCase();
+  return FUSION_STRATEGIES.find((strategy) => strategy === normalized);
+}
+
 export interface SearchResult {
   articleId: number;
   score: number;
@@ -68,6 +101,8 @@ export interface SearchResult {
     title: string;
     url: string;
     summary: string | null;
+    /** 全文检索片段（已转义 HTML，命中词以 <mark> 包裹） */
+    snippet?: string;
     published_at: string | null;
     rss_source_name?: string;
     published_year?: number | null;
@@ -88,6 +123,53 @@ export interface SearchResponse {
   limit?: number;
   cached: boolean;
   fallback?: boolean;
+  /** HYBRID 模式实际使用的融合策略 */
+  fusion?: FusionStrategy;
+}
+
+/**
+ * Check a saved query against a set of (newly processed) articles
+ */
+export interface MatchRequest {
+  mode: SearchMode.SEMANTIC | SearchMode.KEYWORD | SearchMode.HYBRID;
+  userId: number;
+  query: string;
+  /** 候选文章（调用方已确认归属） */
+  articleIds: number[];
+  /** 语义匹配的最低相似度 */
+  minScore: number;
+  semanticWeight?: number;
+  keywordWeight?: number;
+}
+
+/**
+ * Fuse one hybrid retrieval with several strategies (see compareFusionStrategies)
+ */
+export interface FusionComparisonRequest {
+  userId: number;
+  query: string;
+  strategies: FusionStrategy[];
+  limit?: number;
+  filters?: SearchFilters;
+  semanticWeight?: number;
+  keywordWeight?: number;
+  normalizeScores?: boolean;
+}
+
+export interface FusionComparisonResult {
+  /** 请求的策略 */
+  strategy: FusionStrategy;
+  /** 实际使用的策略 */
+  fusion: FusionStrategy;
+  results: SearchResult[];
+}
+
+export interface MatchResult {
+  articleId: number;
+  score: number;
+  semanticScore: number | null;
+  /** 全部关键词均出现在标题或正文中 */
+  keywordMatched: boolean;
 }
 
 /* ── Configuration ── */
@@ -97,6 +179,21 @@ const MAX_RESULTS = 100;   // Maximum results to fetch from vector DB (optimized
 const DEFAULT_SEMANTIC_WEIGHT = 0.7;
 const DEFAULT_KEYWORD_WEIGHT = 0.3;
 
+// Hybrid fusion
+const DEFAULT_FUSION_STRATEGY = FusionStrategy.WEIGHTED;
+const RRF_K = 60;  // RRF 平滑常数（Cormack et al. 2009 的经验值）
+const RERANK_CONTENT_CHARS = 2000;  // rerank 融合时每篇正文截断长度
+
+// Full-text search (articles_fts, see sql/061_add_articles_fts.sql)
+const FTS_MIN_TERM_LENGTH = 3;  // trigram 分词：更短的词无法走索引，改用 LIKE
+const FTS_COLUMN_WEIGHTS = 'bm25(articles_fts, 10.0, 8.0, 4.0, 1.0)';  // title, title_zh, summary_zh, content
+const SNIPPET_TOKENS = 32;
+const SNIPPET_MARK_START = '\u0002';
+const SNIPPET_MARK_END = '\u0003';
+
+// Filtered semantic search: resolve matching articles in SQL, restrict Chroma by article_id
+const FILTER_CANDIDATE_LIMIT = 2000;
+
 /**
  * Create a base query builder for articles with user source filtering.
  *
@@ -120,6 +217,134 @@ function createArticlesQuery(userId: number) {
     );
 }
 
+type ArticlesQuery = ReturnType<typeof createArticlesQuery>;
+
+/**
+ * Apply structured filters as SQL predicates
+ *
+ * 不同类型的条件之间取交集；同一类型内（如多个来源、多个领域）取并集。
+ */
+function applyFilters(queryBuilder: ArticlesQuery, filters?: SearchFilters): ArticlesQuery {
+  if (!hasSearchFilters(filters)) return queryBuilder;
+
+  if (filters.dateFrom) {
+    queryBuilder = queryBuilder.where('articles.published_at', '>=', filters.dateFrom);
+  }
+  if (filters.dateTo) {
+    // 上限含当天：published_at 为 ISO 时间，与次日零点比较
+    const nextDay = new Date(Date.parse(filters.dateTo) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    queryBuilder = queryBuilder.where('articles.published_at', '<', nextDay);
+  }
+
+  const publishedYear = sql<number>`coalesce(articles.published_year, cast(substr(articles.published_at, 1, 4) as integer))`;
+  if (filters.yearFrom !== undefined) {
+    queryBuilder = queryBuilder.where(sql<boolean>`${publishedYear} >= ${filters.yearFrom}`);
+  }
+  if (filters.yearTo !== undefined) {
+    queryBuilder = queryBuilder.where(sql<boolean>`${publishedYear} <= ${filters.yearTo}`);
+  }
+
+  if (filters.sourceOrigins?.length) {
+    queryBuilder = queryBuilder.where('articles.source_origin', 'in', filters.sourceOrigins);
+  }
+
+  const { rssSourceIds, journalIds, keywordIds, sourceNames } = filters;
+  if (rssSourceIds?.length || journalIds?.length || keywordIds?.length || sourceNames?.length) {
+    queryBuilder = queryBuilder.where((eb) => {
+      const conditions = [];
+      if (rssSourceIds?.length) conditions.push(eb('articles.rss_source_id', 'in', rssSourceIds));
+      if (journalIds?.length) conditions.push(eb('articles.journal_id', 'in', journalIds));
+      if (keywordIds?.length) conditions.push(eb('articles.keyword_id', 'in', keywordIds));
+      for (const name of sourceNames ?? []) {
+        const pattern = `%${name}%`;
+        conditions.push(eb('rss_sources.name', 'like', pattern));
+        conditions.push(eb('journals.name', 'like', pattern));
+        conditions.push(eb('keyword_subscriptions.keyword', 'like', pattern));
+      }
+      return eb.or(conditions);
+    });
+  }
+
+  // 主题领域：文章在该领域通过过滤（与新增文章推送规则一致）
+  const { domainIds, domainNames } = filters;
+  if (domainIds?.length || domainNames?.length) {
+    queryBuilder = queryBuilder.where((eb) =>
+      eb.exists(
+        eb.selectFrom('article_filter_logs')
+          .select('article_filter_logs.id')
+          .whereRef('article_filter_logs.article_id', '=', 'articles.id')
+          .where('article_filter_logs.is_passed', '=', 1)
+          .where((inner) => {
+            const conditions = [];
+            if (domainIds?.length) {
+              conditions.push(inner('article_filter_logs.domain_id', 'in', domainIds));
+            }
+            if (domainNames?.length) {
+              conditions.push(inner('article_filter_logs.domain_id', 'in',
+                inner.selectFrom('topic_domains').select('topic_domains.id').where('topic_domains.name', 'in', domainNames)));
+            }
+            return inner.or(conditions);
+          })
+      )
+    );
+  }
+
+  if (filters.filterStatuses?.length) {
+    queryBuilder = queryBuilder.where('articles.filter_status', 'in', filters.filterStatuses);
+  }
+  if (filters.isRead !== undefined) {
+    queryBuilder = queryBuilder.where('articles.is_read', '=', filters.isRead ? 1 : 0);
+  }
+  if (filters.ratingMin !== undefined) {
+    queryBuilder = queryBuilder.where('articles.rating', '>=', filters.ratingMin);
+  }
+  if (filters.ratingMax !== undefined) {
+    queryBuilder = queryBuilder.where('articles.rating', '<=', filters.ratingMax);
+  }
+
+  const languages = filters.languages;
+  if (languages?.length) {
+    queryBuilder = queryBuilder.where((eb) =>
+      eb.exists(
+        eb.selectFrom('article_translations')
+          .select('article_translations.article_id')
+          .whereRef('article_translations.article_id', '=', 'articles.id')
+          .where('article_translations.source_lang', 'in', languages)
+      )
+    );
+  }
+
+  return queryBuilder;
+}
+
+/**
+ * Chroma where clause for a (possibly filtered) vector query
+ *
+ * 向量元数据只有 user_id / article_id：有筛选条件时先用 SQL 找出满足条件的文章，再以 article_id $in 限定检索范围；
+ * 满足条件的文章过多时只按 user_id 检索，结果由调用方的 SQL 条件二次过滤。
+ *
+ * @returns The where clause, or null when no article satisfies the filters
+ */
+async function buildVectorFilter(userId: number, filters?: SearchFilters): Promise<Record<string, any> | null> {
+  if (!hasSearchFilters(filters)) {
+    return { user_id: userId };
+  }
+
+  const rows = await applyFilters(createArticlesQuery(userId), filters)
+    .select('articles.id')
+    .limit(FILTER_CANDIDATE_LIMIT + 1)
+    .execute();
+
+  if (rows.length === 0) return null;
+  if (rows.length > FILTER_CANDIDATE_LIMIT) {
+    return { user_id: userId };
+  }
+
+  return {
+    $and: [{ user_id: userId }, { article_id: { $in: rows.map((row) => row.id) } }],
+  };
+}
+
 /* ── Main Search Entry ── */
 
 /**
@@ -133,6 +358,8 @@ export async function search(request: SearchRequest): Promise<SearchResponse> {
     articleId,
     limit = DEFAULT_LIMIT,
     offset = 0,
+    filters,
+    fusion = DEFAULT_FUSION_STRATEGY,
     semanticWeight = DEFAULT_SEMANTIC_WEIGHT,
     keywordWeight = DEFAULT_KEYWORD_WEIGHT,
     normalizeScores = true,
@@ -145,34 +372,39 @@ export async function search(request: SearchRequest): Promise<SearchResponse> {
   if (mode === SearchMode.RELATED && !articleId) {
     throw new Error('articleId is required for RELATED mode');
   }
-  if ((mode === SearchMode.SEMANTIC || mode === SearchMode.HYBRID || mode === SearchMode.KEYWORD) && !query) {
+  const hasFilters = hasSearchFilters(filters);
+  if ((mode === SearchMode.SEMANTIC || mode === SearchMode.HYBRID || mode === SearchMode.KEYWORD) && !query?.trim() && !hasFilters) {
     throw new Error('query is required for search modes');
   }
 
-  // Related articles with cache
+  // Related articles with cache (filtered results are never cached)
   if (mode === SearchMode.RELATED) {
     return searchRelated(
       userId,
       articleId!,
       limit,
-      useCache && !refreshCache
+      useCache && !refreshCache && !hasFilters,
+      filters
     );
   }
 
   // Text search modes
-  const effectiveQuery = query!.trim();
+  const effectiveQuery = (query ?? '').trim();
+  // 只有筛选条件、没有检索词时按发布时间列出满足条件的文章
+  const effectiveMode = effectiveQuery ? mode : SearchMode.KEYWORD;
   const startTime = Date.now();
 
   try {
     let results: SearchResult[];
     let fallback = false;
+    let usedFusion: FusionStrategy | undefined;
 
-    switch (mode) {
+    switch (effectiveMode) {
       case SearchMode.SEMANTIC:
-        results = await semanticSearchOnly(userId, effectiveQuery, limit);
+        results = await semanticSearchOnly(userId, effectiveQuery, limit, filters);
         break;
       case SearchMode.KEYWORD:
-        results = await keywordSearchOnly(userId, effectiveQuery, limit);
+        results = await keywordSearchOnly(userId, effectiveQuery, limit, filters);
         break;
       case SearchMode.HYBRID:
         const hybridResult = await hybridSearch(
@@ -182,10 +414,13 @@ export async function search(request: SearchRequest): Promise<SearchResponse> {
           semanticWeight,
           keywordWeight,
           normalizeScores,
-          fallbackEnabled
+          fallbackEnabled,
+          filters,
+          fusion
         );
         results = hybridResult.results;
         fallback = hybridResult.fallback;
+        usedFusion = hybridResult.fusion;
         break;
       default:
         throw new Error(`Unsupported search mode: ${mode}`);
@@ -193,7 +428,7 @@ export async function search(request: SearchRequest): Promise<SearchResponse> {
 
     const duration = Date.now() - startTime;
     log.info(
-      { userId, mode, query: effectiveQuery, resultCount: results.length, duration, fallback },
+      { userId, mode, fusion: usedFusion, query: effectiveQuery, filters: hasFilters ? filters : undefined, resultCount: results.length, duration, fallback },
       'Search completed'
     );
 
@@ -206,6 +441,7 @@ export async function search(request: SearchRequest): Promise<SearchResponse> {
       limit,
       cached: false,
       fallback,
+      fusion: usedFusion,
     };
   } catch (error) {
     log.warn({ error, userId, mode, query: effectiveQuery }, 'Search failed, returning empty results');
@@ -227,12 +463,14 @@ export async function search(request: SearchRequest): Promise<SearchResponse> {
 async function semanticSearchOnly(
   userId: number,
   query: string,
-  limit: number
+  limit: number,
+  filters?: SearchFilters,
+  rerankEnabled: boolean = true
 ): Promise<SearchResult[]> {
-  const embedding = await getEmbedding(query, userId);
-  const hits = await queryVector(userId, embedding, MAX_RESULTS, {
-    user_id: userId,
-  });
+  const where = await buildVectorFilter(userId, filters);
+  if (!where) return [];
+
+  const hits = await queryByText(userId, query, MAX_RESULTS, where);
 
   const candidates: Candidate[] = hits
     .filter((hit) => Number.isFinite(hit.articleId) && hit.articleId > 0)
@@ -244,7 +482,7 @@ async function semanticSearchOnly(
 
   // Rerank all candidates (up to MAX_RESULTS)
   let finalList = candidates;
-  if (candidates.length > 0) {
+  if (rerankEnabled && candidates.length > 0) {
     const rerankResults = await rerank(
       query,
       candidates.map((c) => c.document),
@@ -256,16 +494,140 @@ async function semanticSearchOnly(
     }
   }
 
-  return await enrichWithMetadata(userId, finalList);
+  return await enrichWithMetadata(userId, finalList, filters);
 }
 
 /* ── Keyword Search Only ── */
 
+/**
+ * Keyword search: FTS5 full-text index ranked by BM25
+ *
+ * 查询按空白切分为词，全部词都需命中（AND）。长度 ≥ 3 的词走 articles_fts（trigram，中英文均按子串匹配），
+ * 更短的词（如两个汉字）追加 LIKE 条件；没有可走索引的词或全文检索出错时整体回退到 LIKE。
+ */
 async function keywordSearchOnly(
   userId: number,
   query: string,
   limit: number,
+  filters?: SearchFilters,
   includeRejected: boolean = true  // 默认包含未通过的文章
+): Promise<SearchResult[]> {
+  const terms = query.trim().split(/\s+/).filter((t) => t.length > 0);
+  const ftsTerms = terms.filter((t) => Array.from(t).length >= FTS_MIN_TERM_LENGTH);
+
+  if (ftsTerms.length === 0) {
+    return keywordSearchLike(userId, query, includeRejected, filters);
+  }
+
+  try {
+    return await keywordSearchFts(userId, terms, ftsTerms, includeRejected, filters);
+  } catch (error) {
+    log.warn({ error, query }, 'Full-text search failed, falling back to LIKE');
+    return keywordSearchLike(userId, query, includeRejected, filters);
+  }
+}
+
+/**
+ * Build an FTS5 MATCH expression: every term quoted as a phrase, implicitly ANDed
+ */
+function toFtsQuery(terms: string[]): string {
+  return terms.map((term) => `"${term.replace(/"/g, '""')}"`).join(' ');
+}
+
+/**
+ * Escape snippet text and turn the match markers into <mark> tags
+ */
+function formatSnippet(snippet: string | null): string | undefined {
+  if (!snippet) return undefined;
+
+  const escaped = snippet
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+  return escaped
+    .split(SNIPPET_MARK_START).join('<mark>')
+    .split(SNIPPET_MARK_END).join('</mark>');
+}
+
+async function keywordSearchFts(
+  userId: number,
+  terms: string[],
+  ftsTerms: string[],
+  includeRejected: boolean,
+  filters?: SearchFilters
+): Promise<SearchResult[]> {
+  let queryBuilder = applyFilters(createArticlesQuery(userId), filters)
+    .innerJoin('articles_fts', 'articles_fts.rowid', 'articles.id')
+    .leftJoin('article_translations', 'article_translations.article_id', 'articles.id')
+    .where(sql<boolean>`articles_fts MATCH ${toFtsQuery(ftsTerms)}`);
+
+  if (!includeRejected) {
+    queryBuilder = queryBuilder.where('articles.filter_status', '=', 'passed');
+  }
+
+  // 短词无法走 trigram 索引，逐个追加 LIKE（与索引列一致，包含翻译标题 / 摘要）
+  const shortTerms = terms.filter((t) => !ftsTerms.includes(t));
+  for (const term of shortTerms) {
+    const pattern = `%${term}%`;
+    queryBuilder = queryBuilder.where((eb) => eb.or([
+      eb('articles.title', 'like', pattern),
+      eb('article_translations.title_zh', 'like', pattern),
+      eb('article_translations.summary_zh', 'like', pattern),
+      eb('articles.markdown_content', 'like', pattern),
+    ]));
+  }
+
+  const articles = await queryBuilder
+    .select([
+      'articles.id',
+      'articles.title',
+      'articles.url',
+      'articles.published_at',
+      'articles.source_origin',
+      'rss_sources.name as rss_source_name',
+      'journals.name as journal_name',
+      'keyword_subscriptions.keyword as keyword_name',
+      sql<number>`${sql.raw(FTS_COLUMN_WEIGHTS)}`.as('rank'),
+      sql<string | null>`snippet(articles_fts, -1, ${SNIPPET_MARK_START}, ${SNIPPET_MARK_END}, '…', ${SNIPPET_TOKENS})`.as('snippet'),
+    ])
+    .orderBy(sql`rank`)
+    .limit(MAX_RESULTS)
+    .execute();
+
+  // BM25 越小越相关（负数）；按本次结果中的最佳值归一化到 (0, 1]
+  const bestRank = articles.length > 0 ? Number(articles[0].rank) : 0;
+
+  return articles.map((article) => {
+    const rank = Number(article.rank);
+    const keywordScore = bestRank < 0 ? rank / bestRank : 1;
+    return {
+      articleId: article.id,
+      score: keywordScore,
+      keywordScore,
+      metadata: {
+        title: article.title,
+        url: article.url,
+        summary: null,
+        snippet: formatSnippet(article.snippet),
+        published_at: article.published_at,
+        source_origin: article.source_origin,
+        rss_source_name: article.rss_source_name ?? undefined,
+        journal_name: article.journal_name ?? undefined,
+        keyword_name: article.keyword_name ?? undefined,
+      },
+    };
+  });
+}
+
+/**
+ * Keyword search without the full-text index (LIKE on title / translation / content, title-based relevance)
+ */
+async function keywordSearchLike(
+  userId: number,
+  query: string,
+  includeRejected: boolean,
+  filters?: SearchFilters
 ): Promise<SearchResult[]> {
   const lowerQuery = query.toLowerCase();
   const terms = query.trim().split(/\s+/).filter((t) => t.length > 0);
@@ -282,7 +644,8 @@ async function keywordSearchOnly(
 
   // 支持三种来源：RSS、期刊、关键词订阅
   // 默认包含所有状态的文章（passed + rejected），除非 includeRejected 为 false
-  let queryBuilder = createArticlesQuery(userId);
+  let queryBuilder = applyFilters(createArticlesQuery(userId), filters)
+    .leftJoin('article_translations', 'article_translations.article_id', 'articles.id');
 
   // 只有当 includeRejected 为 false 时才过滤只返回 passed 的文章
   if (!includeRejected) {
@@ -296,6 +659,8 @@ async function keywordSearchOnly(
           const pattern = `%${term}%`;
           return eb.or([
             eb('articles.title', 'like', pattern),
+            eb('article_translations.title_zh', 'like', pattern),
+            eb('article_translations.summary_zh', 'like', pattern),
             eb('articles.markdown_content', 'like', pattern),
           ]);
         })
@@ -342,30 +707,62 @@ async function keywordSearchOnly(
 interface HybridResult {
   results: SearchResult[];
   fallback: boolean;
+  /** 实际使用的融合策略（rerank 不可用时退化为 minmax） */
+  fusion?: FusionStrategy;
 }
 
-async function hybridSearch(
+interface HybridLists {
+  semanticResults: SearchResult[];
+  keywordResults: SearchResult[];
+  semanticFailed: boolean;
+}
+
+/**
+ * Run both legs of a hybrid search
+ */
+async function fetchHybridLists(
   userId: number,
   query: string,
   limit: number,
-  semanticWeight: number,
-  keywordWeight: number,
-  normalizeScores: boolean,
-  fallbackEnabled: boolean
-): Promise<HybridResult> {
+  filters: SearchFilters | undefined,
+  rerankSemantic: boolean
+): Promise<HybridLists> {
   // Try semantic search
   let semanticResults: SearchResult[] = [];
   let semanticFailed = false;
 
   try {
-    semanticResults = await semanticSearchOnly(userId, query, limit);
+    semanticResults = await semanticSearchOnly(userId, query, limit, filters, rerankSemantic);
   } catch (error) {
     semanticFailed = true;
     log.warn({ error, query }, 'Semantic search failed in hybrid mode');
   }
 
   // Keyword search (always succeeds)
-  const keywordResults = await keywordSearchOnly(userId, query, limit);
+  const keywordResults = await keywordSearchOnly(userId, query, limit, filters);
+
+  return { semanticResults, keywordResults, semanticFailed };
+}
+
+async function hybridSearch(
+  userId: number,
+  query: string,
+  limit: number,
+  semanticWeight: number,
+  keywordWeight: number,
+  normalizeScores: boolean,
+  fallbackEnabled: boolean,
+  filters?: SearchFilters,
+  fusion: FusionStrategy = DEFAULT_FUSION_STRATEGY
+): Promise<HybridResult> {
+  // rerank 融合会对并集统一重排，语义一路无需先单独 rerank
+  const { semanticResults, keywordResults, semanticFailed } = await fetchHybridLists(
+    userId,
+    query,
+    limit,
+    filters,
+    fusion !== FusionStrategy.RERANK
+  );
 
   // Fallback: if semantic failed and fallback enabled, return keyword-only
   if (semanticFailed && semanticResults.length === 0) {
@@ -377,57 +774,332 @@ async function hybridSearch(
     throw new Error('Semantic search failed and fallback is disabled');
   }
 
-  // Merge results
-  const mergedByArticleId = new Map<number, SearchResult>();
+  const fused = await fuseResults(fusion, {
+    userId,
+    query,
+    semanticResults,
+    keywordResults,
+    semanticWeight,
+    keywordWeight,
+    normalizeScores,
+  });
+
+  return { results: fused.results, fallback: false, fusion: fused.fusion };
+}
 
-  // Add semantic results
-  for (const result of semanticResults) {
-    mergedByArticleId.set(result.articleId, {
-      ...result,
-      semanticScore: result.score,
+/**
+ * Run one hybrid retrieval and fuse it with each of the given strategies (offline evaluation)
+ *
+ * 两路检索只执行一次，各策略共享同一组候选；语义检索失败时抛错，不做关键词回退。
+ */
+export async function compareFusionStrategies(request: FusionComparisonRequest): Promise<FusionComparisonResult[]> {
+  const {
+    userId,
+    strategies,
+    limit = DEFAULT_LIMIT,
+    filters,
+    semanticWeight = DEFAULT_SEMANTIC_WEIGHT,
+    keywordWeight = DEFAULT_KEYWORD_WEIGHT,
+    normalizeScores = true,
+  } = request;
+  const query = request.query.trim();
+
+  const { semanticResults, keywordResults, semanticFailed } = await fetchHybridLists(userId, query, limit, filters, true);
+  if (semanticFailed) {
+    throw new Error('Semantic search failed');
+  }
+
+  const comparison: FusionComparisonResult[] = [];
+  for (const strategy of strategies) {
+    const fused = await fuseResults(strategy, {
+      userId,
+      query,
+      semanticResults,
+      keywordResults,
+      semanticWeight,
+      keywordWeight,
+      normalizeScores,
     });
+    comparison.push({ strategy, fusion: fused.fusion, results: fused.results.slice(0, limit) });
   }
+  return comparison;
+}
 
-  // Merge keyword results
-  for (const result of keywordResults) {
-    const existing = mergedByArticleId.get(result.articleId);
-    if (existing) {
-      // Merge scores
-      const kwScore = result.keywordScore ?? result.score;
-      const semScore = existing.semanticScore ?? existing.score;
-
-      let finalScore: number;
-      if (normalizeScores) {
-        // Normalize semantic scores (search page behavior)
-        const maxSemScore = Math.max(
-          ...semanticResults.map((r) => r.semanticScore ?? r.score),
-          0.01
-        );
-        const normalizedSem = semScore / maxSemScore;
-        finalScore = normalizedSem * semanticWeight + kwScore * keywordWeight;
-      } else {
-        // No normalization (related articles behavior)
-        finalScore = semScore * semanticWeight + kwScore * keywordWeight;
+/* ── Fusion Strategies ── */
+
+interface FusionInput {
+  userId: number;
+  query: string;
+  semanticResults: SearchResult[];
+  keywordResults: SearchResult[];
+  semanticWeight: number;
+  keywordWeight: number;
+  normalizeScores: boolean;
+}
+
+type FusionScorer = (semantic: SearchResult | undefined, keyword: SearchResult | undefined) => number;
+
+async function fuseResults(
+  strategy: FusionStrategy,
+  input: FusionInput
+): Promise<{ results: SearchResult[]; fusion: FusionStrategy }> {
+  switch (strategy) {
+    case FusionStrategy.RRF:
+      return { results: unionResults(input, rrfScorer(input)), fusion: strategy };
+    case FusionStrategy.MIN_MAX:
+      return { results: unionResults(input, minMaxScorer(input)), fusion: strategy };
+    case FusionStrategy.RERANK: {
+      const results = await fuseByRerank(input);
+      if (results) {
+        return { results, fusion: strategy };
       }
+      log.info({ query: input.query }, 'Rerank fusion unavailable, using min-max fusion');
+      return { results: unionResults(input, minMaxScorer(input)), fusion: FusionStrategy.MIN_MAX };
+    }
+    case FusionStrategy.WEIGHTED:
+    default:
+      return { results: unionResults(input, weightedScorer(input)), fusion: FusionStrategy.WEIGHTED };
+  }
+}
+
+/**
+ * Union of both lists scored by the given scorer (missing side = undefined)
+ */
+function unionResults(input: FusionInput, scorer: FusionScorer): SearchResult[] {
+  const semanticById = new Map(input.semanticResults.map((r) => [r.articleId, r]));
+  const keywordById = new Map(input.keywordResults.map((r) => [r.articleId, r]));
+  const articleIds = new Set([...semanticById.keys(), ...keywordById.keys()]);
+
+  const results: SearchResult[] = [];
+  for (const articleId of articleIds) {
+    const semantic = semanticById.get(articleId);
+    const keyword = keywordById.get(articleId);
+
+    // 元数据优先取语义结果，片段取关键词结果
+    const metadata = semantic?.metadata ?? keyword?.metadata;
+    results.push({
+      articleId,
+      score: scorer(semantic, keyword),
+      semanticScore: semantic?.score,
+      keywordScore: keyword ? (keyword.keywordScore ?? keyword.score) : undefined,
+      metadata: metadata && { ...metadata, snippet: keyword?.metadata?.snippet },
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * weighted: semantic scores divided by this query's best (normalizeScores) or used as-is, keyword scores as-is
+ */
+function weightedScorer(input: FusionInput): FusionScorer {
+  const maxSemScore = input.normalizeScores
+    ? Math.max(...input.semanticResults.map((r) => r.score), 0.01)
+    : 1;
+
+  return (semantic, keyword) =>
+    ((semantic?.score ?? 0) / maxSemScore) * input.semanticWeight +
+    (keyword ? (keyword.keywordScore ?? keyword.score) : 0) * input.keywordWeight;
+}
+
+/**
+ * Map scores of one list onto [0, 1] (all-equal scores map to 1)
+ */
+function minMaxNormalize(results: SearchResult[], getScore: (r: SearchResult) => number): Map<number, number> {
+  const scores = results.map(getScore);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  const range = max - min;
+
+  return new Map(results.map((r) => [r.articleId, range > 0 ? (getScore(r) - min) / range : 1]));
+}
+
+/**
+ * minmax: both lists min-max normalized per query, then weighted
+ */
+function minMaxScorer(input: FusionInput): FusionScorer {
+  const semanticNorm = minMaxNormalize(input.semanticResults, (r) => r.score);
+  const keywordNorm = minMaxNormalize(input.keywordResults, (r) => r.keywordScore ?? r.score);
+
+  return (semantic, keyword) =>
+    (semantic ? semanticNorm.get(semantic.articleId)! : 0) * input.semanticWeight +
+    (keyword ? keywordNorm.get(keyword.articleId)! : 0) * input.keywordWeight;
+}
+
+/**
+ * rrf: Σ weight / (k + rank), scaled so that rank 1 in both lists scores 1
+ *
+ * 只看名次不看分数，两路分数分布不同也能稳定融合。
+ */
+function rrfScorer(input: FusionInput): FusionScorer {
+  const semanticRank = new Map(input.semanticResults.map((r, index) => [r.articleId, index + 1]));
+  const keywordRank = new Map(
+    [...input.keywordResults]
+      .sort((a, b) => (b.keywordScore ?? b.score) - (a.keywordScore ?? a.score))
+      .map((r, index) => [r.articleId, index + 1])
+  );
+  const maxScore = (input.semanticWeight + input.keywordWeight) / (RRF_K + 1) || 1;
 
-      mergedByArticleId.set(result.articleId, {
-        ...existing,
-        score: finalScore,
-        keywordScore: kwScore,
+  return (semantic, keyword) => {
+    const semPart = semantic ? input.semanticWeight / (RRF_K + semanticRank.get(semantic.articleId)!) : 0;
+    const kwPart = keyword ? input.keywordWeight / (RRF_K + keywordRank.get(keyword.articleId)!) : 0;
+    return (semPart + kwPart) / maxScore;
+  };
+}
+
+/**
+ * rerank: rerank the union of both lists against the query
+ * @returns null when no rerank model is configured or the request fails
+ */
+async function fuseByRerank(input: FusionInput): Promise<SearchResult[] | null> {
+  const union = unionResults(input, () => 0);
+  if (union.length === 0) return [];
+
+  const documents = await loadRerankDocuments(union.map((r) => r.articleId));
+  const rerankResults = await rerank(
+    input.query,
+    union.map((r) => documents.get(r.articleId) || r.metadata?.title || ''),
+    input.userId,
+    union.length
+  );
+  if (!rerankResults) return null;
+
+  const rerankScores = new Map<number, number>();
+  for (const item of rerankResults) {
+    if (item.index >= 0 && item.index < union.length) {
+      rerankScores.set(union[item.index].articleId, item.score);
+    }
+  }
+
+  return union
+    .map((r) => ({ ...r, score: rerankScores.get(r.articleId) ?? 0 }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Rerank documents (same layout as the vector text, content truncated)
+ */
+async function loadRerankDocuments(articleIds: number[]): Promise<Map<number, string>> {
+  const rows = await getDb()
+    .selectFrom('articles')
+    .leftJoin('article_translations', 'article_translations.article_id', 'articles.id')
+    .where('articles.id', 'in', articleIds)
+    .select([
+      'articles.id',
+      'articles.title',
+      'articles.content',
+      'articles.markdown_content',
+      'article_translations.title_zh',
+      'article_translations.summary_zh',
+    ])
+    .execute();
+
+  return new Map(rows.map((row) => [
+    row.id,
+    buildVectorText({
+      ...row,
+      content: row.content?.slice(0, RERANK_CONTENT_CHARS) ?? null,
+      markdown_content: row.markdown_content?.slice(0, RERANK_CONTENT_CHARS) ?? null,
+    }),
+  ]));
+}
+
+/* ── Match Given Articles ── */
+
+/**
+ * Match a query against the given articles only (saved search checks)
+ *
+ * - semantic：查询向量与候选文章的相似度 ≥ minScore
+ * - keyword：全部关键词出现在标题或正文中
+ * - hybrid：任一条件满足即匹配；语义检索失败时退化为仅关键词匹配
+ *
+ * @returns Matched articles sorted by score (semantic failure throws in semantic mode)
+ */
+export async function matchArticles(request: MatchRequest): Promise<MatchResult[]> {
+  const {
+    mode,
+    userId,
+    articleIds,
+    minScore,
+    semanticWeight = DEFAULT_SEMANTIC_WEIGHT,
+    keywordWeight = DEFAULT_KEYWORD_WEIGHT,
+  } = request;
+  const query = request.query.trim();
+  if (!query || articleIds.length === 0) return [];
+
+  const semanticScores = new Map<number, number>();
+  if (mode !== SearchMode.KEYWORD) {
+    try {
+      const hits = await queryByText(userId, query, articleIds.length, {
+        $and: [{ user_id: userId }, { article_id: { $in: articleIds } }],
       });
+      for (const hit of hits) {
+        if (articleIds.includes(hit.articleId)) {
+          semanticScores.set(hit.articleId, hit.score);
+        }
+      }
+    } catch (error) {
+      if (mode === SearchMode.SEMANTIC) throw error;
+      log.warn({ error, userId, query }, 'Semantic matching failed, using keyword matching only');
+    }
+  }
+
+  const keywordMatched = mode === SearchMode.SEMANTIC
+    ? new Set<number>()
+    : await matchKeywordTerms(query, articleIds);
+
+  const results: MatchResult[] = [];
+  for (const articleId of articleIds) {
+    const semanticScore = semanticScores.get(articleId) ?? null;
+    const semanticMatched = semanticScore !== null && semanticScore >= minScore;
+    const matchedByKeyword = keywordMatched.has(articleId);
+
+    if (!semanticMatched && !matchedByKeyword) continue;
+
+    let score: number;
+    if (mode === SearchMode.SEMANTIC) {
+      score = semanticScore!;
+    } else if (mode === SearchMode.KEYWORD) {
+      score = 1;
     } else {
-      // Keyword-only result
-      mergedByArticleId.set(result.articleId, {
-        ...result,
-        keywordScore: result.score,
-      });
+      score = (semanticScore ?? 0) * semanticWeight + (matchedByKeyword ? 1 : 0) * keywordWeight;
     }
+
+    results.push({ articleId, score, semanticScore, keywordMatched: matchedByKeyword });
   }
 
-  const results = Array.from(mergedByArticleId.values())
-    .sort((a, b) => b.score - a.score);
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Articles (among the given ones) whose title, translation or content contains every query term
+ */
+async function matchKeywordTerms(query: string, articleIds: number[]): Promise<Set<number>> {
+  const terms = query.split(/\s+/).filter((t) => t.length > 0);
+  if (terms.length === 0) return new Set();
+
+  const db = getDb();
+  const rows = await db
+    .selectFrom('articles')
+    .leftJoin('article_translations', 'article_translations.article_id', 'articles.id')
+    .where('articles.id', 'in', articleIds)
+    .where((eb) =>
+      eb.and(
+        terms.map((term) => {
+          const pattern = `%${term}%`;
+          return eb.or([
+            eb('articles.title', 'like', pattern),
+            eb('article_translations.title_zh', 'like', pattern),
+            eb('article_translations.summary_zh', 'like', pattern),
+            eb('articles.markdown_content', 'like', pattern),
+          ]);
+        })
+      )
+    )
+    .select('articles.id')
+    .execute();
 
-  return { results, fallback: false };
+  return new Set(rows.map((row) => row.id));
 }
 
 /* ── Related Articles Search ── */
@@ -436,7 +1108,8 @@ async function searchRelated(
   userId: number,
   articleId: number,
   limit: number,
-  useCache: boolean
+  useCache: boolean,
+  filters?: SearchFilters
 ): Promise<SearchResponse> {
   // Try cache first if enabled
   if (useCache) {
@@ -456,13 +1129,16 @@ async function searchRelated(
   const computed = await computeRelated(
     userId,
     articleId,
-    limit
+    limit,
+    filters
   );
 
-  // Save cache asynchronously
-  saveRelatedToCache(articleId, computed).catch((error) => {
-    log.warn({ error, articleId }, 'Failed to save related articles cache');
-  });
+  // Save cache asynchronously (unfiltered results only)
+  if (!hasSearchFilters(filters)) {
+    saveRelatedToCache(articleId, computed).catch((error) => {
+      log.warn({ error, articleId }, 'Failed to save related articles cache');
+    });
+  }
 
   return {
     results: computed,
@@ -476,7 +1152,8 @@ async function searchRelated(
 async function computeRelated(
   userId: number,
   articleId: number,
-  limit: number
+  limit: number,
+  filters?: SearchFilters
 ): Promise<SearchResult[]> {
   // Get source article (支持三种来源：RSS、期刊、关键词)
   const article = await createArticlesQuery(userId)
@@ -492,14 +1169,19 @@ async function computeRelated(
   if (!article) return [];
 
   // Build query text
-  const text = buildVectorText(article as any);
+  const metadata = await getArticleMetadata(articleId);
+  const text = buildVectorText({
+    ...article,
+    authors: metadata.authors.map((a) => a.name),
+    keywords: metadata.keywords.map((k) => k.keyword),
+  } as any);
   if (!text) return [];
 
   // Semantic search only (keyword search removed)
-  const embedding = await getEmbedding(text, userId);
-  const semanticHits = await queryVector(userId, embedding, Math.max(limit * 3, limit), {
-    user_id: userId,
-  });
+  const where = await buildVectorFilter(userId, filters);
+  if (!where) return [];
+
+  const semanticHits = await queryByText(userId, text, Math.max(limit * 3, limit), where);
 
   const semanticResults = semanticHits
     .filter((hit) => hit.articleId && hit.articleId !== articleId)
@@ -527,7 +1209,7 @@ async function computeRelated(
   const topIds = topResults.map((item) => item.articleId);
   if (topIds.length === 0) return [];
 
-  const rows = await createArticlesQuery(userId)
+  const rows = await applyFilters(createArticlesQuery(userId), filters)
     .where('articles.filter_status', '=', 'passed')
     .where('articles.process_status', '=', 'completed')
     .where('articles.id', 'in', topIds)
@@ -644,14 +1326,15 @@ async function saveRelatedToCache(articleId: number, results: SearchResult[]): P
 
 async function enrichWithMetadata(
   userId: number,
-  results: Array<{ articleId: number; score: number }>
+  results: Array<{ articleId: number; score: number }>,
+  filters?: SearchFilters
 ): Promise<SearchResult[]> {
   if (results.length === 0) return [];
 
   const ids = results.map((r) => r.articleId);
 
-  // 支持三种来源：RSS、期刊、关键词订阅
-  const articles = await createArticlesQuery(userId)
+  // 支持三种来源：RSS、期刊、关键词订阅；筛选条件在此二次过滤（向量检索未按 article_id 限定时）
+  const articles = await applyFilters(createArticlesQuery(userId), filters)
     .where('articles.filter_status', '=', 'passed')
     .where('articles.id', 'in', ids)
     .select([
@@ -5,5 +5,38 @@
  * All search operations go through search-service.ts.
  */
 
-export { search, SearchMode } from './search-service.js';
-export type { SearchRequest, SearchResponse, SearchResult } from './search-service.js';
+export {
+  compareFusionStrategies,
+  FUSION_STRATEGIES,
+  FusionStrategy,
+  matchArticles,
+  parseFusionStrategy,
+  search,
+  SearchMode,
+} from './search-service.js';
+export type {
+  FusionComparisonRequest,
+  FusionComparisonResult,
+  MatchRequest,
+  MatchResult,
+  SearchRequest,
+  SearchResponse,
+  SearchResult,
+} from './search-service.js';
+export { evaluateFusionStrategies, ndcgAtK, recallAtK, reciprocalRankAtK } from './search-evaluation.js';
+export type {
+  EvaluationMetrics,
+  EvaluationQuery,
+  EvaluationRequest,
+  EvaluationResult,
+  QueryEvaluation,
+  StrategyEvaluation,
+} from './search-evaluation.js';
+export {
+  formatSearchFilters,
+  hasSearchFilters,
+  mergeSearchFilters,
+  normalizeSearchFilters,
+  parseSearchQuery,
+} from './search-filters.js';
+export type { ParsedSearchQuery, SearchFilters } from './search-filters.js';
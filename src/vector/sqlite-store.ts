@@ -0,0 +1,280 @@
+/**
+ * SQLite Vector Store
+ *
+ * Embedded VectorStore kept in the main SQLite database (table vector_embeddings),
+ * for deployments without a ChromaDB server.
+ *
+ * 向量以 Float32 BLOB 存储，查询时按 collection + user_id 逐行流式扫描做精确 KNN（无 ANN 索引），
+ * 距离定义与 Chroma 的 hnsw:space 一致（cosine / l2 / ip），因此两种后端分数可直接互换。
+ * 适合单机、数万篇量级的部署；更大规模请使用 Chroma。
+ */
+
+import { sql } from 'kysely';
+import { getDb } from '../db.js';
+import { logger } from '../logger.js';
+import type { DistanceMetric } from './index-versions.js';
+import type { VectorCollection, VectorMatch, VectorStore, VectorWhere } from './vector-store.js';
+
+const log = logger.child({ module: 'sqlite-store' });
+
+// 单条 SQL 的 IN 参数上限（低于 SQLite 默认变量上限）
+const SQL_CHUNK_SIZE = 500;
+
+/**
+ * 向量维度与集合已有向量不一致
+ */
+export class VectorDimensionError extends Error {
+  constructor(collection: string, expected: number, actual: number) {
+    super(`向量维度不匹配：集合 ${collection} 为 ${expected} 维，传入 ${actual} 维。更换 embedding 模型后请重建向量索引。`);
+    this.name = 'VectorDimensionError';
+  }
+}
+
+function toBlob(embedding: number[]): Buffer {
+  const vector = Float32Array.from(embedding);
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+function fromBlob(blob: Uint8Array): Float32Array {
+  // 复制到新的 ArrayBuffer，保证 4 字节对齐（Buffer 可能位于共享内存池的任意偏移）
+  const vector = new Float32Array(blob.byteLength / 4);
+  new Uint8Array(vector.buffer).set(blob);
+  return vector;
+}
+
+function vectorNorm(vector: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) {
+    sum += vector[i] * vector[i];
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Chroma-compatible distance (smaller is closer)
+ */
+function computeDistance(
+  metric: DistanceMetric,
+  query: number[],
+  queryNorm: number,
+  vector: Float32Array,
+  norm: number
+): number {
+  if (metric === 'l2') {
+    let sum = 0;
+    for (let i = 0; i < vector.length; i++) {
+      const diff = query[i] - vector[i];
+      sum += diff * diff;
+    }
+    return sum;
+  }
+
+  let dot = 0;
+  for (let i = 0; i < vector.length; i++) {
+    dot += query[i] * vector[i];
+  }
+  if (metric === 'ip') {
+    return 1 - dot;
+  }
+  return queryNorm > 0 && norm > 0 ? 1 - dot / (queryNorm * norm) : 1;
+}
+
+/**
+ * Evaluate a Chroma where clause against stored metadata
+ *
+ * 支持 $and / $or 以及 $eq / $ne / $gt / $gte / $lt / $lte / $in / $nin（检索中只用到 user_id 与 article_id $in）。
+ */
+export function matchesWhere(metadata: Record<string, any>, where: VectorWhere): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as VectorWhere[]).every((clause) => matchesWhere(metadata, clause));
+    }
+    if (key === '$or') {
+      return (condition as VectorWhere[]).some((clause) => matchesWhere(metadata, clause));
+    }
+
+    const value = metadata[key];
+    if (condition === null || typeof condition !== 'object') {
+      return value === condition;
+    }
+
+    return Object.entries(condition as Record<string, any>).every(([op, operand]) => {
+      switch (op) {
+        case '$eq': return value === operand;
+        case '$ne': return value !== operand;
+        case '$gt': return value > operand;
+        case '$gte': return value >= operand;
+        case '$lt': return value < operand;
+        case '$lte': return value <= operand;
+        case '$in': return (operand as unknown[]).includes(value);
+        case '$nin': return !(operand as unknown[]).includes(value);
+        default:
+          throw new Error(`Unsupported where operator: ${op}`);
+      }
+    });
+  });
+}
+
+/**
+ * Article IDs the where clause is restricted to (top-level or $and article_id $in / $eq), pushed down to SQL
+ */
+function extractArticleIds(where: VectorWhere | undefined): number[] | null {
+  if (!where) return null;
+
+  const condition = where.article_id;
+  if (typeof condition === 'number') return [condition];
+  if (condition && typeof condition === 'object') {
+    if (Array.isArray(condition.$in)) return condition.$in;
+    if (typeof condition.$eq === 'number') return [condition.$eq];
+  }
+
+  if (Array.isArray(where.$and)) {
+    for (const clause of where.$and as VectorWhere[]) {
+      const ids = extractArticleIds(clause);
+      if (ids) return ids;
+    }
+  }
+  return null;
+}
+
+export class SqliteVectorStore implements VectorStore {
+  async upsert(
+    userId: number,
+    target: VectorCollection,
+    ids: string[],
+    embeddings: number[][],
+    metadatas: Record<string, any>[],
+    documents: string[]
+  ): Promise<void> {
+    const collection = target.name;
+    const db = getDb();
+
+    // 与 Chroma 一致：同一集合内向量维度必须相同
+    const existing = await db
+      .selectFrom('vector_embeddings')
+      .where('collection', '=', collection)
+      .select('dimensions')
+      .limit(1)
+      .executeTakeFirst();
+    for (const embedding of embeddings) {
+      if (existing && embedding.length !== existing.dimensions) {
+        throw new VectorDimensionError(collection, existing.dimensions, embedding.length);
+      }
+    }
+
+    await db.transaction().execute(async (trx) => {
+      for (let i = 0; i < ids.length; i++) {
+        const row = {
+          collection,
+          vector_id: ids[i],
+          user_id: userId,
+          article_id: Number(metadatas[i]?.article_id || 0),
+          dimensions: embeddings[i].length,
+          norm: vectorNorm(embeddings[i]),
+          embedding: toBlob(embeddings[i]),
+          document: documents[i] || '',
+          metadata: JSON.stringify(metadatas[i] || {}),
+        };
+        await trx
+          .insertInto('vector_embeddings')
+          .values(row)
+          .onConflict((oc) => oc.columns(['collection', 'vector_id']).doUpdateSet({
+            user_id: row.user_id,
+            article_id: row.article_id,
+            dimensions: row.dimensions,
+            norm: row.norm,
+            embedding: row.embedding,
+            document: row.document,
+            metadata: row.metadata,
+            updated_at: sql`CURRENT_TIMESTAMP`,
+          }))
+          .execute();
+      }
+    });
+    log.debug({ count: ids.length, collection }, 'SQLite vector upsert done');
+  }
+
+  async query(
+    userId: number,
+    target: VectorCollection,
+    embedding: number[],
+    topK: number,
+    filter?: VectorWhere
+  ): Promise<VectorMatch[]> {
+    if (topK <= 0) return [];
+
+    const { name: collection, distanceMetric } = target;
+    const db = getDb();
+    const queryNorm = vectorNorm(embedding);
+    const articleIds = extractArticleIds(filter);
+    if (articleIds && articleIds.length === 0) return [];
+
+    let qb = db
+      .selectFrom('vector_embeddings')
+      .where('collection', '=', collection)
+      .where('user_id', '=', userId)
+      .select(['vector_id', 'dimensions', 'norm', 'embedding', 'metadata']);
+    if (articleIds && articleIds.length <= SQL_CHUNK_SIZE) {
+      qb = qb.where('article_id', 'in', articleIds);
+    }
+
+    // 按距离升序保留前 topK
+    const top: Array<{ id: string; distance: number; metadata: Record<string, any> }> = [];
+    for await (const row of qb.stream()) {
+      if (row.dimensions !== embedding.length) {
+        throw new VectorDimensionError(collection, row.dimensions, embedding.length);
+      }
+
+      const distance = computeDistance(distanceMetric, embedding, queryNorm, fromBlob(row.embedding), row.norm);
+      if (top.length >= topK && distance >= top[top.length - 1].distance) continue;
+
+      const metadata = JSON.parse(row.metadata) as Record<string, any>;
+      if (filter && !matchesWhere(metadata, filter)) continue;
+
+      let index = top.length;
+      while (index > 0 && top[index - 1].distance > distance) index--;
+      top.splice(index, 0, { id: row.vector_id, distance, metadata });
+      if (top.length > topK) top.pop();
+    }
+
+    if (top.length === 0) return [];
+
+    // 只为命中结果读取文档
+    const documentRows = await db
+      .selectFrom('vector_embeddings')
+      .where('collection', '=', collection)
+      .where('vector_id', 'in', top.map((hit) => hit.id))
+      .select(['vector_id', 'document'])
+      .execute();
+    const documents = new Map(documentRows.map((row) => [row.vector_id, row.document]));
+
+    return top.map((hit) => ({ ...hit, document: documents.get(hit.id) || '' }));
+  }
+
+  async remove(_userId: number, target: VectorCollection, ids: string[]): Promise<void> {
+    const collection = target.name;
+    const db = getDb();
+
+    for (let i = 0; i < ids.length; i += SQL_CHUNK_SIZE) {
+      await db
+        .deleteFrom('vector_embeddings')
+        .where('collection', '=', collection)
+        .where('vector_id', 'in', ids.slice(i, i + SQL_CHUNK_SIZE))
+        .execute();
+    }
+    log.debug({ count: ids.length, collection }, 'SQLite vector delete done');
+  }
+
+  async drop(_userId: number, target: VectorCollection): Promise<void> {
+    const result = await getDb()
+      .deleteFrom('vector_embeddings')
+      .where('collection', '=', target.name)
+      .executeTakeFirst();
+    log.debug({ count: Number(result.numDeletedRows), collection: target.name }, 'SQLite collection dropped');
+  }
+
+  async heartbeat(): Promise<void> {
+    // 表不存在（未执行迁移 063）时抛错
+    await getDb().selectFrom('vector_embeddings').select('vector_id').limit(1).execute();
+  }
+}
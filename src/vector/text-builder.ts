@@ -1,9 +1,18 @@
+/**
+ * Version of the buildVectorText output format
+ *
+ * 修改向量文本的组成或格式时递增：索引版本记录该值，不一致时设置页提示重建向量索引。
+ */
+export const TEXT_BUILDER_VERSION = 1;
+
 export function buildVectorText(input: {
   title: string;
   content: string | null;
   markdown_content: string | null;
   title_zh?: string | null;
   summary_zh?: string | null;
+  authors?: string[] | null;
+  keywords?: string[] | null;
 }): string {
   const parts: string[] = [];
 
@@ -13,6 +22,17 @@ export function buildVectorText(input: {
     parts.push(`TITLE: ${title}`);
   }
 
+  // 作者与关键词参与向量化，支持按作者 / 主题检索
+  const authors = (input.authors ?? []).filter((name) => name && name.trim());
+  if (authors.length > 0) {
+    parts.push(`AUTHORS: ${authors.join(', ')}`);
+  }
+
+  const keywords = (input.keywords ?? []).filter((keyword) => keyword && keyword.trim());
+  if (keywords.length > 0) {
+    parts.push(`KEYWORDS: ${keywords.join(', ')}`);
+  }
+
   // 优先使用翻译摘要，否则用原文内容
   const summary = input.summary_zh?.trim() || '';
   if (summary) {
@@ -1,6 +1,19 @@
+/**
+ * Vector Store
+ *
+ * Backend-agnostic vector CRUD used by the indexer, search and related-article refresh.
+ * Every call targets a VectorIndex (index-versions.ts), which fixes the backend, the physical
+ * collection and the embedding config:
+ * - chroma: external ChromaDB server (chroma-store.ts)
+ * - sqlite: embedded store in the main database (sqlite-store.ts)
+ */
+
 import { logger } from '../logger.js';
-import { getCollection } from './chroma-client.js';
-import { IncludeEnum } from 'chromadb';
+import { getChromaSettings, type VectorBackend } from '../api/settings.js';
+import { ChromaVectorStore } from './chroma-store.js';
+import { SqliteVectorStore } from './sqlite-store.js';
+import { getEmbedding } from './embedding-client.js';
+import { getActiveIndex, getWriteIndexes, type DistanceMetric, type VectorIndex } from './index-versions.js';
 
 const log = logger.child({ module: 'vector-store' });
 
@@ -12,68 +25,159 @@ export interface VectorHit {
   metadata: Record<string, any>;
 }
 
+/**
+ * Chroma-style metadata filter, e.g. { $and: [{ user_id: 1 }, { article_id: { $in: [1, 2] } }] }
+ */
+export type VectorWhere = Record<string, any>;
+
+/**
+ * Physical collection a backend reads / writes
+ */
+export interface VectorCollection {
+  name: string;
+  distanceMetric: DistanceMetric;
+}
+
+/**
+ * Raw backend result; distance follows Chroma's hnsw:space definition (smaller is closer)
+ */
+export interface VectorMatch {
+  id: string;
+  distance: number;
+  document: string;
+  metadata: Record<string, any>;
+}
+
+export interface VectorStore {
+  upsert(
+    userId: number,
+    collection: VectorCollection,
+    ids: string[],
+    embeddings: number[][],
+    metadatas: Record<string, any>[],
+    documents: string[]
+  ): Promise<void>;
+  query(
+    userId: number,
+    collection: VectorCollection,
+    embedding: number[],
+    topK: number,
+    filter?: VectorWhere
+  ): Promise<VectorMatch[]>;
+  remove(userId: number, collection: VectorCollection, ids: string[]): Promise<void>;
+  /** 删除整个集合（退役的索引版本） */
+  drop(userId: number, collection: VectorCollection): Promise<void>;
+  /** 后端不可用时抛错 */
+  heartbeat(userId: number): Promise<void>;
+}
+
+const stores: Record<VectorBackend, VectorStore> = {
+  chroma: new ChromaVectorStore(),
+  sqlite: new SqliteVectorStore(),
+};
+
+function toCollection(index: VectorIndex): VectorCollection {
+  return { name: index.collection, distanceMetric: index.distanceMetric };
+}
+
 export function buildVectorId(articleId: number, userId: number): string {
   return `${userId}:${articleId}`;
 }
 
 export async function upsert(
   userId: number,
+  index: VectorIndex,
   ids: string[],
   embeddings: number[][],
   metadatas: Record<string, any>[],
   documents: string[]
 ): Promise<void> {
   if (ids.length === 0) return;
-  const { collection } = await getCollection(userId);
-  await collection.upsert({
-    ids,
-    embeddings,
-    metadatas,
-    documents,
-  });
-  log.debug({ count: ids.length }, 'Chroma upsert done');
+  await stores[index.backend].upsert(userId, toCollection(index), ids, embeddings, metadatas, documents);
 }
 
+/**
+ * Query an index with a precomputed embedding (defaults to the active index)
+ */
 export async function query(
   userId: number,
   embedding: number[],
   topK: number,
-  filter?: Record<string, any>
+  filter?: VectorWhere,
+  index?: VectorIndex
 ): Promise<VectorHit[]> {
-  const { collection, settings } = await getCollection(userId);
-  const result = await collection.query({
-    queryEmbeddings: [embedding],
-    nResults: topK,
-    where: filter,
-    include: [IncludeEnum.Distances, IncludeEnum.Metadatas, IncludeEnum.Documents],
-  });
-
-  const ids = result.ids?.[0] || [];
-  const distances = result.distances?.[0] || [];
-  const metadatas = result.metadatas?.[0] || [];
-  const documents = result.documents?.[0] || [];
-
-  const hits: VectorHit[] = [];
-  for (let i = 0; i < ids.length; i++) {
-    const distance = typeof distances[i] === 'number' ? distances[i] : 1;
-    const score = settings.distanceMetric === 'ip' ? distance : 1 - distance;
-    const metadata = (metadatas[i] || {}) as Record<string, any>;
-    const articleId = Number(metadata.article_id || 0);
-    hits.push({
-      id: String(ids[i]),
-      articleId,
-      score,
-      document: (documents[i] as string | null) || '',
-      metadata,
-    });
-  }
+  const target = index ?? await getActiveIndex(userId);
+  const matches = await stores[target.backend].query(userId, toCollection(target), embedding, topK, filter);
 
-  return hits;
+  return matches.map((match) => ({
+    id: match.id,
+    articleId: Number(match.metadata.article_id || 0),
+    score: target.distanceMetric === 'ip' ? match.distance : 1 - match.distance,
+    document: match.document,
+    metadata: match.metadata,
+  }));
 }
 
+/**
+ * Embed the text with the active index's embedding config and query that index
+ *
+ * 查询向量与索引向量必须出自同一模型：两者在同一次调用中按同一个 active 版本解析，切换版本时不会错配。
+ */
+export async function queryByText(
+  userId: number,
+  text: string,
+  topK: number,
+  filter?: VectorWhere
+): Promise<VectorHit[]> {
+  const index = await getActiveIndex(userId);
+  const embedding = await getEmbedding(text, userId, index.embeddingConfigId);
+  return query(userId, embedding, topK, filter, index);
+}
+
+/**
+ * Remove vectors from every index that still receives writes
+ */
 export async function remove(userId: number, ids: string[]): Promise<void> {
   if (ids.length === 0) return;
-  const { collection } = await getCollection(userId);
-  await collection.delete({ ids });
-  log.debug({ count: ids.length }, 'Chroma delete done');
+  for (const index of await getWriteIndexes(userId)) {
+    await stores[index.backend].remove(userId, toCollection(index), ids);
+  }
+}
+
+/**
+ * Delete all vectors of an index
+ */
+export async function dropIndex(userId: number, index: VectorIndex): Promise<void> {
+  await stores[index.backend].drop(userId, toCollection(index));
+  log.info({ userId, backend: index.backend, collection: index.collection }, 'Vector index dropped');
+}
+
+/**
+ * Check whether the backend of the user's active index is reachable
+ */
+export async function checkVectorStore(userId: number): Promise<{
+  backend: VectorBackend;
+  available: boolean;
+  message: string;
+}> {
+  const index = await getActiveIndex(userId);
+
+  try {
+    await stores[index.backend].heartbeat(userId);
+    return {
+      backend: index.backend,
+      available: true,
+      message: index.backend === 'sqlite' ? '嵌入式向量存储正常' : 'Chroma 服务正常',
+    };
+  } catch (error) {
+    log.debug({ error, userId, backend: index.backend }, 'Vector store heartbeat failed');
+    const settings = await getChromaSettings(userId);
+    return {
+      backend: index.backend,
+      available: false,
+      message: index.backend === 'sqlite'
+        ? '嵌入式向量存储不可用。请先执行数据库迁移（npm run db:migrate）。'
+        : `Chroma 服务不可用 (${settings.host}:${settings.port})。请检查 Chroma 服务是否运行，或在"设置"中配置正确的 host 和 port，也可切换为嵌入式向量存储。`,
+    };
+  }
 }
@@ -11,8 +11,9 @@ import { config } from './config.js';
 import { BaseScheduler } from './utils/base-scheduler.js';
 import { runWebScraper, parseScrapedDate } from './spiders/web-scraper-runner.js';
 import { filterArticle, type FilterInput } from './filter.js';
-import { processArticle } from './pipeline.js';
-import { generateNormalizedTitle } from './utils/title.js';
+import { enqueueArticleJob } from './api/article-jobs.js';
+import { buildArticleFingerprint } from './utils/article-fingerprint.js';
+import { resolveDuplicate } from './api/article-dedup.js';
 import {
   getActiveWebSources,
   getWebSourceById,
@@ -281,52 +282,24 @@ export class WebScheduler extends BaseScheduler {
           continue;
         }
 
-        // 生成规范化标题用于去重
-        const titleNormalized = generateNormalizedTitle(article.title);
-
-        // 检查标题是否已存在（标题去重）
-        if (titleNormalized) {
-          const existing = await db
-            .selectFrom('articles')
-            .where('title_normalized', '=', titleNormalized)
-            .select('id')
-            .executeTakeFirst();
-
-          if (existing) {
-            log.debug(
-              { title: article.title, link: article.link, existingId: existing.id, sourceId: source.id },
-              'Article title already exists, skipping'
-            );
-            continue;
-          }
-
-          // Also check rejected_articles archive
-          const rejectedExists = await db
-            .selectFrom('rejected_articles')
-            .where('title_normalized', '=', titleNormalized)
-            .select('id')
-            .executeTakeFirst();
-
-          if (rejectedExists) {
-            log.debug(
-              { title: article.title, link: article.link, sourceId: source.id },
-              'Article title exists in rejected_articles, skipping'
-            );
-            continue;
-          }
-        }
+        // 去重指纹（规范化 URL / 内容哈希 / 标题），跨源重复记录关联
+        const fingerprint = buildArticleFingerprint({
+          title: article.title,
+          url: article.link,
+          abstract: article.summary,
+        });
+        const titleNormalized = fingerprint.titleNormalized;
 
-        // 检查 URL 是否已存在
-        const urlExists = await db
-          .selectFrom('articles')
-          .where('url', '=', article.link.trim())
-          .select('id')
-          .executeTakeFirst();
+        const duplicate = await resolveDuplicate(
+          fingerprint,
+          { origin: 'web', sourceId: source.id },
+          { url: article.link }
+        );
 
-        if (urlExists) {
+        if (duplicate) {
           log.debug(
-            { title: article.title, link: article.link, sourceId: source.id },
-            'Article URL already exists, skipping'
+            { title: article.title, link: article.link, existingId: duplicate.articleId, matchedBy: duplicate.matchedBy, sourceId: source.id },
+            'Duplicate article, skipping'
           );
           continue;
         }
@@ -341,6 +314,8 @@ export class WebScheduler extends BaseScheduler {
             title: article.title.trim(),
             title_normalized: titleNormalized,
             url: article.link.trim(),
+            canonical_url: fingerprint.canonicalUrl,
+            content_hash: fingerprint.contentHash,
             summary: null,
             content: article.summary?.trim() || null,
             markdown_content: null,
@@ -433,14 +408,8 @@ export class WebScheduler extends BaseScheduler {
 
         if (result.passed) {
           passedCount++;
-          // 触发后续处理
-          processArticle(article.id, source.user_id)
-            .then((res) => {
-              log.debug({ articleId: article.id, status: res.status }, 'Auto process completed');
-            })
-            .catch((err) => {
-              log.warn({ articleId: article.id, error: err?.message || String(err) }, 'Auto process failed');
-            });
+          // 入队后续处理
+          await enqueueArticleJob({ articleId: article.id, userId: source.user_id, source: 'web' });
         } else {
           rejectedCount++;
           log.debug({ articleId: article.id, reason: result.filterReason }, 'Article rejected by filter');
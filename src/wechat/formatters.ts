@@ -48,6 +48,17 @@ export interface NewArticleData {
   markdown_content?: string;
 }
 
+/**
+ * 新增文章摘要（推送规则暂缓后合并）中的文章
+ */
+export interface NewArticleDigestItem {
+  id: number;
+  title: string;
+  url: string;
+  sourceName: string;
+  sourceType: string;
+}
+
 /**
  * PDF 全文总结通知数据接口
  */
@@ -199,6 +210,41 @@ export function formatNewArticle(data: NewArticleData): string {
   return message;
 }
 
+/**
+ * 格式化新增文章摘要（免打扰 / 定时合并 / 超过每小时上限后合并的多篇新增文章）
+ */
+export function formatNewArticlesDigest(articles: NewArticleDigestItem[]): string {
+  let message = `# 🆕 新增文章（${articles.length} 篇）\n\n`;
+
+  articles.forEach((article, index) => {
+    const safeTitle = article.title.replace(/\[/g, '[').replace(/\]/g, ']');
+    message += `${index + 1}. [${safeTitle}](${article.url})\n`;
+    message += `   【${article.sourceType}】${article.sourceName}\n\n`;
+  });
+
+  return message;
+}
+
+/**
+ * 格式化订阅搜索的新匹配
+ */
+export function formatSavedSearchMatches(data: {
+  searchName: string;
+  query: string;
+  articles: NewArticleDigestItem[];
+}): string {
+  let message = `# 🔎 订阅搜索「${data.searchName}」：${data.articles.length} 篇新匹配\n\n`;
+  message += `**查询：** ${data.query}\n\n`;
+
+  data.articles.forEach((article, index) => {
+    const safeTitle = article.title.replace(/\[/g, '[').replace(/\]/g, ']');
+    message += `${index + 1}. [${safeTitle}](${article.url})\n`;
+    message += `   【${article.sourceType}】${article.sourceName}\n\n`;
+  });
+
+  return message;
+}
+
 /**
  * 格式化 PDF 全文总结通知
  */